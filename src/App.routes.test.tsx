@@ -84,6 +84,10 @@ vi.mock('@/pages/CasesPage', () => ({
   default: () => <div>Cases Mock</div>,
 }));
 
+vi.mock('@/pages/ApprovalsPage', () => ({
+  default: () => <div>Approvals Mock</div>,
+}));
+
 vi.mock('@/pages/RejectionsPage', () => ({
   default: () => <div>Rejections Mock</div>,
 }));
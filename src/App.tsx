@@ -23,6 +23,7 @@ const UploadAuditPage = lazy(() => import("./pages/UploadAuditPage"));
 const APInvoiceExplorerPage = lazy(() => import("./pages/APInvoiceExplorerPage"));
 const ControlsDashboardPage = lazy(() => import("./pages/ControlsDashboardPage"));
 const CasesPage = lazy(() => import("./pages/CasesPage"));
+const ApprovalsPage = lazy(() => import("./pages/ApprovalsPage"));
 const RejectionsPage = lazy(() => import("./pages/RejectionsPage"));
 const MappingPage = lazy(() => import("./pages/MappingPage"));
 const EvidencePage = lazy(() => import("./pages/EvidencePage"));
@@ -79,6 +80,7 @@ const App = () => (
                       <Route path="/controls" element={<ControlsDashboardPage />} />
                       <Route path="/settings" element={<ControlsDashboardPage />} />
                       <Route path="/cases" element={<CasesPage />} />
+                      <Route path="/approvals" element={<ApprovalsPage />} />
                       <Route path="/rejections" element={<RejectionsPage />} />
                       <Route path="/mapping" element={<MappingPage />} />
                       <Route path="/evidence" element={<EvidencePage />} />
@@ -0,0 +1,330 @@
+import { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { usePermission } from '@/hooks/use-permission';
+import { requiredRoleMessage } from '@/lib/access/permissions';
+import {
+  deleteCaseRoutingRule,
+  fetchCaseRoutingRules,
+  saveCaseRoutingRule,
+  setCaseRoutingRuleActive,
+} from '@/lib/api/caseRoutingApi';
+import {
+  CASE_GROUPINGS,
+  CASE_GROUPING_LABELS,
+  CaseGrouping,
+  CaseRoutingRule,
+  FINDING_SOURCE_LABELS,
+  FindingSource,
+} from '@/types/caseRouting';
+import { OwnerTeam } from '@/types/cases';
+import { Severity } from '@/types/compliance';
+
+const SEVERITIES: Severity[] = ['Critical', 'High', 'Medium', 'Low'];
+const OWNER_OPTIONS: OwnerTeam[] = ['ASP Ops', 'Client Finance', 'Client IT', 'Buyer-side'];
+
+interface CaseRoutingRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface RuleDraft {
+  name: string;
+  priority: string;
+  severities: Severity[];
+  source: FindingSource | 'any';
+  checkIds: string;
+  sellerTrns: string;
+  grouping: CaseGrouping;
+  minOccurrences: string;
+  ownerTeam: OwnerTeam | 'default';
+  slaHours: string;
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  priority: '100',
+  severities: [],
+  source: 'any',
+  checkIds: '',
+  sellerTrns: '',
+  grouping: 'finding',
+  minOccurrences: '1',
+  ownerTeam: 'default',
+  slaHours: '',
+};
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function describeRule(rule: CaseRoutingRule): string {
+  const match = [
+    rule.severities.length > 0 ? rule.severities.join('/') : 'Any severity',
+    rule.source ? FINDING_SOURCE_LABELS[rule.source] : null,
+    rule.checkIds.length > 0 ? `checks ${rule.checkIds.join(', ')}` : null,
+    rule.sellerTrns.length > 0 ? `sellers ${rule.sellerTrns.join(', ')}` : null,
+  ].filter(Boolean);
+  const routing = [
+    CASE_GROUPING_LABELS[rule.grouping],
+    rule.minOccurrences > 1 ? `from ${rule.minOccurrences} findings` : null,
+    rule.ownerTeam ?? 'finding owner',
+    rule.slaHours ? `${rule.slaHours}h SLA` : 'severity SLA',
+  ].filter(Boolean);
+  return `${match.join(' · ')} → ${routing.join(' · ')}`;
+}
+
+export function CaseRoutingRulesDialog({ open, onOpenChange }: CaseRoutingRulesDialogProps) {
+  const { toast } = useToast();
+  const canConfigure = usePermission('case.routing');
+  const [rules, setRules] = useState<CaseRoutingRule[]>([]);
+  const [isLoadFailed, setIsLoadFailed] = useState(false);
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+
+  const loadRules = async () => {
+    const loaded = await fetchCaseRoutingRules();
+    setIsLoadFailed(!loaded);
+    setRules(loaded ?? []);
+  };
+
+  useEffect(() => {
+    if (open) loadRules();
+  }, [open]);
+
+  const updateDraft = (changes: Partial<RuleDraft>) => setDraft((current) => ({ ...current, ...changes }));
+
+  const toggleSeverity = (severity: Severity, checked: boolean) =>
+    updateDraft({
+      severities: checked
+        ? SEVERITIES.filter((item) => item === severity || draft.severities.includes(item))
+        : draft.severities.filter((item) => item !== severity),
+    });
+
+  const handleAdd = async () => {
+    if (!canConfigure || !draft.name.trim()) return;
+    const slaHours = Number(draft.slaHours);
+    const saved = await saveCaseRoutingRule({
+      name: draft.name.trim(),
+      priority: Number(draft.priority) || 100,
+      isActive: true,
+      severities: draft.severities,
+      checkIds: splitList(draft.checkIds),
+      sellerTrns: splitList(draft.sellerTrns),
+      source: draft.source === 'any' ? null : draft.source,
+      grouping: draft.grouping,
+      minOccurrences: Math.max(1, Number(draft.minOccurrences) || 1),
+      ownerTeam: draft.ownerTeam === 'default' ? null : draft.ownerTeam,
+      slaHours: slaHours > 0 ? slaHours : null,
+    });
+    if (!saved) {
+      toast({ title: 'Rule not saved', description: 'The routing rule could not be saved.', variant: 'destructive' });
+      return;
+    }
+    await loadRules();
+    setDraft(EMPTY_DRAFT);
+    toast({ title: 'Routing rule added', description: 'It applies from the next validation run.' });
+  };
+
+  const handleToggle = async (rule: CaseRoutingRule, isActive: boolean) => {
+    if (await setCaseRoutingRuleActive(rule.id, isActive)) {
+      setRules((current) => current.map((item) => (item.id === rule.id ? { ...item, isActive } : item)));
+    }
+  };
+
+  const handleDelete = async (rule: CaseRoutingRule) => {
+    if (await deleteCaseRoutingRule(rule.id)) {
+      setRules((current) => current.filter((item) => item.id !== rule.id));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Case routing rules</DialogTitle>
+          <DialogDescription>
+            After each validation run, every finding is routed by the first active rule it matches. Findings already
+            linked to an open case join that case.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {isLoadFailed && (
+            <p className="text-sm text-destructive">
+              Routing rules could not be loaded. Close and reopen this dialog to try again.
+            </p>
+          )}
+          {!isLoadFailed && rules.length === 0 && <p className="text-sm text-muted-foreground">No routing rules yet. Cases are only opened by hand.</p>}
+          {rules.map((rule) => (
+            <div key={rule.id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+              <div className="min-w-0">
+                <p className="font-medium text-sm">
+                  <span className="font-mono text-xs text-muted-foreground mr-2">#{rule.priority}</span>
+                  {rule.name}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">{describeRule(rule)}</p>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={rule.isActive}
+                  onCheckedChange={(checked) => handleToggle(rule, checked)}
+                  disabled={!canConfigure}
+                  aria-label={`Toggle ${rule.name}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(rule)}
+                  disabled={!canConfigure}
+                  aria-label={`Delete ${rule.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="border-t pt-4 space-y-4" title={canConfigure ? undefined : requiredRoleMessage('case.routing')}>
+          <h4 className="font-semibold text-sm">New rule</h4>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="routing-rule-name">Name</Label>
+              <Input id="routing-rule-name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="routing-rule-priority">Priority</Label>
+              <Input
+                id="routing-rule-priority"
+                type="number"
+                value={draft.priority}
+                onChange={(e) => updateDraft({ priority: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2 space-y-1">
+              <Label>Severities</Label>
+              <div className="flex flex-wrap gap-4">
+                {SEVERITIES.map((severity) => (
+                  <label key={severity} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={draft.severities.includes(severity)}
+                      onCheckedChange={(checked) => toggleSeverity(severity, checked === true)}
+                    />
+                    {severity}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Findings</Label>
+              <Select value={draft.source} onValueChange={(value) => updateDraft({ source: value as RuleDraft['source'] })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">All findings</SelectItem>
+                  {(Object.keys(FINDING_SOURCE_LABELS) as FindingSource[]).map((source) => (
+                    <SelectItem key={source} value={source}>{FINDING_SOURCE_LABELS[source]} only</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="routing-rule-checks">Check IDs</Label>
+              <Input
+                id="routing-rule-checks"
+                placeholder="Comma separated, blank for all"
+                value={draft.checkIds}
+                onChange={(e) => updateDraft({ checkIds: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="routing-rule-sellers">Seller TRNs</Label>
+              <Input
+                id="routing-rule-sellers"
+                placeholder="Comma separated, blank for all"
+                value={draft.sellerTrns}
+                onChange={(e) => updateDraft({ sellerTrns: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Grouping</Label>
+              <Select value={draft.grouping} onValueChange={(value) => updateDraft({ grouping: value as CaseGrouping })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CASE_GROUPINGS.map((grouping) => (
+                    <SelectItem key={grouping} value={grouping}>{CASE_GROUPING_LABELS[grouping]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="routing-rule-min">Minimum findings per case</Label>
+              <Input
+                id="routing-rule-min"
+                type="number"
+                min={1}
+                value={draft.minOccurrences}
+                onChange={(e) => updateDraft({ minOccurrences: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Owner team</Label>
+              <Select value={draft.ownerTeam} onValueChange={(value) => updateDraft({ ownerTeam: value as RuleDraft['ownerTeam'] })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Finding's default owner</SelectItem>
+                  {OWNER_OPTIONS.map((owner) => (
+                    <SelectItem key={owner} value={owner}>{owner}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="routing-rule-sla">SLA hours</Label>
+              <Input
+                id="routing-rule-sla"
+                type="number"
+                min={1}
+                placeholder="Blank to follow severity"
+                value={draft.slaHours}
+                onChange={(e) => updateDraft({ slaHours: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleAdd} disabled={!canConfigure || !draft.name.trim()}>
+              Add rule
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { usePermission } from '@/hooks/use-permission';
+import { requiredRoleMessage } from '@/lib/access/permissions';
+import { fetchNotificationSettings, saveNotificationSettings } from '@/lib/api/notificationsApi';
+import { DEFAULT_NOTIFICATION_SETTINGS, NotificationSettings } from '@/types/notifications';
+
+interface NotificationSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+function isHttpUrl(value: string): boolean {
+  if (!value.trim()) return true;
+  try {
+    return ['http:', 'https:'].includes(new URL(value.trim()).protocol);
+  } catch {
+    return false;
+  }
+}
+
+export function NotificationSettingsDialog({ open, onOpenChange }: NotificationSettingsDialogProps) {
+  const { toast } = useToast();
+  const canConfigure = usePermission('notification.configure');
+  const [settings, setSettings] = useState<NotificationSettings>(DEFAULT_NOTIFICATION_SETTINGS);
+
+  useEffect(() => {
+    if (open) fetchNotificationSettings().then(setSettings);
+  }, [open]);
+
+  const update = (changes: Partial<NotificationSettings>) => setSettings((current) => ({ ...current, ...changes }));
+  const validWebhook = isHttpUrl(settings.webhookUrl);
+
+  const handleSave = async () => {
+    if (!canConfigure || !validWebhook) return;
+    const saved = await saveNotificationSettings(settings);
+    if (!saved) {
+      toast({ title: 'Settings not saved', description: 'The escalation contacts could not be saved.', variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'Escalation contacts saved' });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Escalation notifications</DialogTitle>
+          <DialogDescription>
+            Cases warn their owner team at 75% of the SLA, escalate to the team lead at breach and to the
+            engagement manager at twice the SLA. Every escalation appears in the in-app inbox; leave a field
+            blank to skip that channel.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4" title={canConfigure ? undefined : requiredRoleMessage('notification.configure')}>
+          <div className="space-y-1">
+            <Label htmlFor="notify-team-lead">Team lead email</Label>
+            <Input
+              id="notify-team-lead"
+              type="email"
+              value={settings.teamLeadEmail}
+              onChange={(e) => update({ teamLeadEmail: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="notify-engagement-manager">Engagement manager email</Label>
+            <Input
+              id="notify-engagement-manager"
+              type="email"
+              value={settings.engagementManagerEmail}
+              onChange={(e) => update({ engagementManagerEmail: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="notify-webhook">Webhook URL</Label>
+            <Input
+              id="notify-webhook"
+              placeholder="https://"
+              value={settings.webhookUrl}
+              onChange={(e) => update({ webhookUrl: e.target.value })}
+            />
+            <p className="text-xs text-muted-foreground">Receives a JSON POST for team lead and engagement manager escalations.</p>
+            {!validWebhook && <p className="text-sm text-destructive">Enter an http or https URL.</p>}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!canConfigure || !validWebhook}>Save contacts</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
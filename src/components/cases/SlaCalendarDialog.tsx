@@ -0,0 +1,184 @@
+import { useEffect, useState } from 'react';
+import { Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { usePermission } from '@/hooks/use-permission';
+import { requiredRoleMessage } from '@/lib/access/permissions';
+import { fetchSlaCalendar, saveSlaCalendar } from '@/lib/api/slaCalendarApi';
+import {
+  DEFAULT_SLA_CALENDAR,
+  FIXED_UAE_HOLIDAYS,
+  SlaCalendar,
+  WEEKEND_PATTERN_LABELS,
+  WeekendPattern,
+} from '@/types/slaCalendar';
+
+interface SlaCalendarDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+function toTimeInput(minute: number): string {
+  return `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+}
+
+function fromTimeInput(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+export function SlaCalendarDialog({ open, onOpenChange, onSaved }: SlaCalendarDialogProps) {
+  const { toast } = useToast();
+  const canConfigure = usePermission('sla.configure');
+  const [calendar, setCalendar] = useState<SlaCalendar>(DEFAULT_SLA_CALENDAR);
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayName, setHolidayName] = useState('');
+
+  useEffect(() => {
+    if (open) fetchSlaCalendar().then(setCalendar);
+  }, [open]);
+
+  const update = (changes: Partial<SlaCalendar>) => setCalendar((current) => ({ ...current, ...changes }));
+  const validHours = calendar.workdayEndMinute > calendar.workdayStartMinute;
+
+  const handleAddHoliday = () => {
+    if (!holidayDate || !holidayName.trim()) return;
+    update({
+      holidays: [...calendar.holidays, { date: holidayDate, name: holidayName.trim() }].sort((a, b) =>
+        a.date.localeCompare(b.date)
+      ),
+    });
+    setHolidayDate('');
+    setHolidayName('');
+  };
+
+  const handleSave = async () => {
+    if (!canConfigure || !validHours) return;
+    const saved = await saveSlaCalendar(calendar);
+    if (!saved) {
+      toast({ title: 'Calendar not saved', description: 'The SLA calendar could not be saved.', variant: 'destructive' });
+      return;
+    }
+    toast({ title: 'SLA calendar saved', description: 'Open case deadlines have been recalculated.' });
+    onOpenChange(false);
+    onSaved();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>SLA calendar</DialogTitle>
+          <DialogDescription>
+            Case SLAs count working hours only, in UAE time. Time a case spends Waiting does not count.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4" title={canConfigure ? undefined : requiredRoleMessage('sla.configure')}>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label>Weekend</Label>
+              <Select value={calendar.weekend} onValueChange={(value) => update({ weekend: value as WeekendPattern })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(WEEKEND_PATTERN_LABELS) as WeekendPattern[]).map((pattern) => (
+                    <SelectItem key={pattern} value={pattern}>{WEEKEND_PATTERN_LABELS[pattern]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sla-workday-start">Working day starts</Label>
+              <Input
+                id="sla-workday-start"
+                type="time"
+                value={toTimeInput(calendar.workdayStartMinute)}
+                onChange={(e) => update({ workdayStartMinute: fromTimeInput(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="sla-workday-end">Working day ends</Label>
+              <Input
+                id="sla-workday-end"
+                type="time"
+                value={toTimeInput(calendar.workdayEndMinute)}
+                onChange={(e) => update({ workdayEndMinute: fromTimeInput(e.target.value) })}
+              />
+            </div>
+          </div>
+          {!validHours && <p className="text-sm text-destructive">The working day must end after it starts.</p>}
+
+          <div className="flex items-center justify-between rounded-lg border p-3">
+            <div>
+              <p className="text-sm font-medium">Fixed UAE public holidays</p>
+              <p className="text-xs text-muted-foreground">{Array.from(new Set(FIXED_UAE_HOLIDAYS.map((holiday) => holiday.name))).join(', ')}</p>
+            </div>
+            <Switch
+              checked={calendar.observeFixedHolidays}
+              onCheckedChange={(checked) => update({ observeFixedHolidays: checked })}
+              aria-label="Observe fixed UAE public holidays"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Islamic-calendar and other holidays</Label>
+            <p className="text-xs text-muted-foreground">
+              Eid and other Hijri dates follow the moon sighting; update them when the official dates are announced.
+            </p>
+            <div className="space-y-1 max-h-[200px] overflow-y-auto">
+              {calendar.holidays.map((holiday) => (
+                <div key={`${holiday.date}-${holiday.name}`} className="flex items-center justify-between text-sm">
+                  <span>
+                    <span className="font-mono text-xs mr-2">{holiday.date}</span>
+                    {holiday.name}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update({ holidays: calendar.holidays.filter((item) => item !== holiday) })}
+                    aria-label={`Remove ${holiday.name} on ${holiday.date}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input type="date" value={holidayDate} onChange={(e) => setHolidayDate(e.target.value)} aria-label="Holiday date" />
+              <Input placeholder="Holiday name" value={holidayName} onChange={(e) => setHolidayName(e.target.value)} />
+              <Button variant="outline" onClick={handleAddHoliday} disabled={!holidayDate || !holidayName.trim()}>
+                Add
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!canConfigure || !validHours}>Save calendar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
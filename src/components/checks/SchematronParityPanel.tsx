@@ -0,0 +1,202 @@
+import { useMemo, useState } from 'react';
+import { Download, GitCompare, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useCompliance } from '@/context/ComplianceContext';
+import { runSchematronParityOffMainThread } from '@/engine/orchestrator';
+import { downloadBlob } from '@/lib/evidence/evidenceExporter';
+import {
+  ParityOutcome,
+  SchematronParityReport,
+  buildSchematronParityCsv,
+} from '@/lib/pintAE/schematronParity';
+
+const outcomeLabels: Record<ParityOutcome, string> = {
+  both: 'Both',
+  only_csv: 'Only CSV Check',
+  only_schematron: 'Only Schematron',
+  not_evaluated: 'Not Evaluated',
+};
+
+const outcomeClasses: Record<ParityOutcome, string> = {
+  both: 'bg-[hsl(var(--success))]/10 text-[hsl(var(--success))] border-[hsl(var(--success))]/20',
+  only_csv: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+  only_schematron: 'bg-destructive/10 text-destructive border-destructive/20',
+  not_evaluated: 'bg-muted text-muted-foreground border-border',
+};
+
+export function SchematronParityPanel() {
+  const { buyers, headers, lines, pintAEExceptions, isChecksRun } = useCompliance();
+  const [report, setReport] = useState<SchematronParityReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [outcomeFilter, setOutcomeFilter] = useState<ParityOutcome | 'all'>('all');
+
+  const visibleRows = useMemo(
+    () => (report?.rows ?? []).filter((row) => outcomeFilter === 'all' || row.outcome === outcomeFilter),
+    [report, outcomeFilter]
+  );
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    setRunError(null);
+    try {
+      setReport(await runSchematronParityOffMainThread({ buyers, headers, lines, csvExceptions: pintAEExceptions }));
+    } catch (error) {
+      setRunError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleExport = () => {
+    if (!report) return;
+    const csv = buildSchematronParityCsv(report);
+    downloadBlob(
+      new Blob([csv], { type: 'text/csv;charset=utf-8;' }),
+      `Schematron_Parity_Report_${report.generatedAt.slice(0, 10)}.csv`
+    );
+  };
+
+  return (
+    <Card className="border shadow-sm">
+      <CardContent className="p-4 md:p-5 space-y-4">
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+          <div>
+            <h2 className="text-sm font-semibold text-foreground">CSV Checks vs Official Schematron</h2>
+            <p className="text-xs text-muted-foreground mt-1 max-w-2xl">
+              Converts every loaded invoice to PINT-AE UBL, runs the Schematron rules, and compares failures with the
+              last run's PINT-AE check findings per invoice and DR. Rules without a DR link always land on one side.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={handleRun} disabled={!isChecksRun || headers.length === 0 || isRunning} className="gap-2">
+              {isRunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <GitCompare className="w-4 h-4" />}
+              {report ? 'Re-run Parity' : 'Run Parity'}
+            </Button>
+            <Button size="sm" variant="outline" onClick={handleExport} disabled={!report} className="gap-2">
+              <Download className="w-4 h-4" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+
+        {!isChecksRun && (
+          <div className="rounded-lg border p-6 text-center text-sm text-muted-foreground">
+            Upload data and run checks first; parity compares against the latest run.
+          </div>
+        )}
+
+        {runError && (
+          <div role="alert" className="rounded-md border border-destructive/30 bg-destructive/5 p-3 text-xs text-destructive">
+            Parity could not be run: {runError}
+          </div>
+        )}
+
+        {report && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+              <ParityStat label="Invoices Converted" value={report.invoiceCount - report.conversionErrors.length} />
+              <ParityStat label="Rules in Both" value={report.summary.both} />
+              <ParityStat label="Only CSV Check" value={report.summary.only_csv} />
+              <ParityStat label="Only Schematron" value={report.summary.only_schematron} />
+              <ParityStat label="Evaluation Errors" value={report.evaluationErrors.length} />
+              <ParityStat
+                label="Failures (CSV / Schematron)"
+                value={`${report.csvFailureCount} / ${report.schematronFailureCount}`}
+              />
+            </div>
+
+            {report.conversionErrors.length > 0 && (
+              <div className="rounded-md border border-destructive/30 bg-destructive/5 p-3 text-xs text-destructive space-y-1">
+                {report.conversionErrors.map((error) => (
+                  <p key={error.invoice_id}>
+                    <span className="font-mono">{error.invoice_id}</span>: {error.message}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {(['all', 'both', 'only_csv', 'only_schematron', 'not_evaluated'] as const).map((outcome) => (
+                <button
+                  key={outcome}
+                  type="button"
+                  onClick={() => setOutcomeFilter(outcome)}
+                  className={`rounded-md border px-2 py-1 text-xs transition-colors ${
+                    outcomeFilter === outcome
+                      ? 'bg-primary text-primary-foreground border-primary'
+                      : 'bg-background text-muted-foreground hover:text-foreground'
+                  }`}
+                >
+                  {outcome === 'all' ? 'All Outcomes' : outcomeLabels[outcome]}
+                </button>
+              ))}
+            </div>
+
+            {visibleRows.length === 0 ? (
+              <div className="rounded-lg border p-8 text-center text-sm text-muted-foreground">
+                No failing rules on either side for this filter.
+              </div>
+            ) : (
+              <div className="overflow-x-auto rounded-lg border">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted/40 text-muted-foreground">
+                    <tr>
+                      <th className="text-left p-2 font-medium">Outcome</th>
+                      <th className="text-left p-2 font-medium">Rule</th>
+                      <th className="text-left p-2 font-medium">DRs</th>
+                      <th className="text-right p-2 font-medium">Failures</th>
+                      <th className="text-right p-2 font-medium">Matched</th>
+                      <th className="text-left p-2 font-medium">Counterpart Rules</th>
+                      <th className="text-left p-2 font-medium">Evaluation Errors</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map((row) => (
+                      <tr key={`${row.source}-${row.rule_id}`} className="border-t align-top" data-testid={`parity-row-${row.rule_id}`}>
+                        <td className="p-2">
+                          <Badge variant="outline" className={outcomeClasses[row.outcome]}>
+                            {outcomeLabels[row.outcome]}
+                          </Badge>
+                        </td>
+                        <td className="p-2">
+                          <p className="font-mono text-primary">{row.rule_id}</p>
+                          <p className="text-muted-foreground">{row.rule_name}</p>
+                        </td>
+                        <td className="p-2 font-mono">{row.dr_ids.join(', ') || '—'}</td>
+                        <td className="p-2 text-right">{row.failure_count}</td>
+                        <td className="p-2 text-right">{row.matched_failure_count}</td>
+                        <td className="p-2 font-mono">{row.counterpart_rule_ids.join(', ') || '—'}</td>
+                        <td className="p-2">
+                          {row.evaluation_errors.length === 0
+                            ? '—'
+                            : row.evaluation_errors.map((error, index) => (
+                                <p key={`${error.invoice_id}-${index}`} className="text-destructive">
+                                  <span className="font-mono">{error.invoice_id}</span>
+                                  {error.locator && <span className="font-mono text-muted-foreground"> {error.locator}</span>}: {error.message}
+                                </p>
+                              ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ParityStat({ label, value }: { label: string; value: number | string }) {
+  return (
+    <div className="rounded-lg border bg-muted/20 p-3">
+      <p className="text-[11px] text-muted-foreground">{label}</p>
+      <p className="mt-1 text-xl font-semibold text-foreground">{value}</p>
+    </div>
+  );
+}
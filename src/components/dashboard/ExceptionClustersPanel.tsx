@@ -0,0 +1,95 @@
+import { useMemo } from 'react';
+import { Layers } from 'lucide-react';
+import { SeverityBadge } from '@/components/SeverityBadge';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { summarizeClusters } from '@/lib/exceptions/exceptionClustering';
+import { CLUSTER_FIX_LABELS, ExceptionCluster } from '@/types/exceptionClusters';
+
+interface ExceptionClustersPanelProps {
+  clusters: ExceptionCluster[];
+  description: string;
+  limit?: number;
+  onSelectCluster?: (cluster: ExceptionCluster) => void;
+}
+
+function describeCluster(cluster: ExceptionCluster): string {
+  const party = cluster.partyRole === 'buyer' ? 'Buyer' : 'Seller';
+  return [
+    cluster.field,
+    cluster.partyId ? `${party} ${cluster.partyId}` : `Any ${party.toLowerCase()}`,
+    cluster.sourceFileName || cluster.uploadManifestId,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+export function ExceptionClustersPanel({
+  clusters,
+  description,
+  limit = 10,
+  onSelectCluster,
+}: ExceptionClustersPanelProps) {
+  const summary = useMemo(() => summarizeClusters(clusters, limit), [clusters, limit]);
+  const visible = clusters.slice(0, limit);
+
+  return (
+    <div className="surface-glass rounded-[28px] border border-border/70 p-5 shadow-[0_16px_34px_-28px_rgba(15,23,42,0.24)]">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-[11px] font-semibold uppercase tracking-[0.16em] text-muted-foreground">Root causes</p>
+          <h2 className="mt-1 text-xl font-semibold text-foreground">Exception clusters</h2>
+          <p className="mt-1 text-sm text-muted-foreground">{description}</p>
+        </div>
+        <div className="rounded-2xl border border-border/70 bg-background/75 p-3">
+          <Layers className="h-5 w-5 text-primary" />
+        </div>
+      </div>
+
+      {clusters.length === 0 ? (
+        <p className="mt-4 rounded-2xl border border-dashed border-border/70 px-4 py-6 text-center text-sm text-muted-foreground">
+          No exceptions to cluster yet.
+        </p>
+      ) : (
+        <>
+          <p className="mt-4 text-sm text-foreground">
+            Fixing the top {summary.topCount} of {summary.clusterCount} root causes clears {summary.topCoverage} of{' '}
+            {summary.exceptionCount} exceptions.
+          </p>
+          <div className="mt-3 space-y-2">
+            {visible.map((cluster) => (
+              <div key={cluster.key} className="rounded-2xl border border-border/70 bg-background/75 px-4 py-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="truncate text-sm font-semibold text-foreground">{cluster.checkName}</p>
+                    <p className="truncate text-xs text-muted-foreground">{describeCluster(cluster)}</p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Badge variant="outline" className="rounded-full">
+                      {cluster.exceptionIds.length} exceptions · {cluster.invoiceNumbers.length} invoices
+                    </Badge>
+                    <SeverityBadge severity={cluster.severity} />
+                  </div>
+                </div>
+                <p className="mt-2 text-sm text-foreground">
+                  <span className="font-medium">{CLUSTER_FIX_LABELS[cluster.fix.kind]}:</span> {cluster.fix.summary}
+                </p>
+                <div className="mt-2 flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span>
+                    Value pattern <span className="font-mono">{cluster.valuePattern}</span>
+                    {cluster.sampleValues.length > 0 ? ` · e.g. ${cluster.sampleValues.join(', ')}` : ''}
+                  </span>
+                  {onSelectCluster && (
+                    <Button variant="outline" size="sm" className="h-7 rounded-full" onClick={() => onSelectCluster(cluster)}>
+                      Select rows
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { usePermission } from '@/hooks/use-permission';
+import { fetchInAppNotifications, markNotificationsRead, runCaseEscalations } from '@/lib/api/notificationsApi';
+import { OutboxNotification } from '@/types/notifications';
+
+const POLL_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * In-app inbox for case escalations. While the app is open it also runs the escalation pass,
+ * for members allowed to write the outbox.
+ */
+export function NotificationBell() {
+  const { activeTenantId } = useWorkspace();
+  const canEscalate = usePermission('data.prepare');
+  const [notifications, setNotifications] = useState<OutboxNotification[]>([]);
+
+  const load = useCallback(async () => {
+    if (canEscalate) await runCaseEscalations();
+    setNotifications(await fetchInAppNotifications());
+  }, [canEscalate]);
+
+  useEffect(() => {
+    load();
+    const timer = window.setInterval(load, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [load, activeTenantId]);
+
+  const unread = notifications.filter((notification) => !notification.readAt);
+
+  const handleMarkAllRead = async () => {
+    if (await markNotificationsRead(unread.map((notification) => notification.id))) {
+      const readAt = new Date().toISOString();
+      setNotifications((current) => current.map((notification) => ({ ...notification, readAt: notification.readAt ?? readAt })));
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          className="relative rounded-2xl"
+          aria-label={unread.length ? `Notifications, ${unread.length} unread` : 'Notifications'}
+        >
+          <Bell className="w-4 h-4" />
+          {unread.length > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] rounded-full bg-destructive px-1 text-[10px] font-semibold leading-5 text-destructive-foreground">
+              {unread.length > 9 ? '9+' : unread.length}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-3 py-2">
+          <p className="text-sm font-medium">Notifications</p>
+          <Button variant="ghost" size="sm" onClick={handleMarkAllRead} disabled={unread.length === 0}>
+            Mark all read
+          </Button>
+        </div>
+        <div className="max-h-[360px] overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-muted-foreground">No notifications yet.</p>
+          ) : (
+            notifications.map((notification) => (
+              <div key={notification.id} className={`border-b px-3 py-2 last:border-b-0 ${notification.readAt ? '' : 'bg-muted/50'}`}>
+                <p className="text-sm font-medium">{notification.subject}</p>
+                <p className="text-xs text-muted-foreground">{notification.body}</p>
+                <div className="mt-1 flex items-center justify-between text-xs text-muted-foreground">
+                  <span>
+                    {notification.recipient} · {format(new Date(notification.createdAt), 'dd MMM HH:mm')}
+                  </span>
+                  {notification.caseId && (
+                    <Link to="/cases" className="text-primary hover:underline">
+                      View cases
+                    </Link>
+                  )}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -7,6 +7,8 @@ export interface PipelineStep {
   id: string;
   label: string;
   state: PipelineState;
+  /** Short live status shown after the label, e.g. "12/40 checks". */
+  detail?: string;
 }
 
 interface PipelineProgressProps {
@@ -37,6 +39,7 @@ export function PipelineProgress({ steps }: PipelineProgressProps) {
               {step.state === 'pending' && <Circle className="h-3.5 w-3.5" />}
               {step.state === 'blocked' && <Lock className="h-3.5 w-3.5" />}
               <span>{step.label}</span>
+              {step.detail && <span className="font-normal opacity-80">{step.detail}</span>}
             </div>
             {index < steps.length - 1 && <span className="text-muted-foreground/50">-&gt;</span>}
           </div>
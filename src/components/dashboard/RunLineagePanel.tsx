@@ -0,0 +1,83 @@
+import { format } from 'date-fns';
+import { History } from 'lucide-react';
+import { SeverityBadge } from '@/components/SeverityBadge';
+import { cn } from '@/lib/utils';
+import {
+  FINDING_LINEAGE_LABELS,
+  FINDING_LINEAGE_STATUSES,
+  FindingLineageStatus,
+  RunComparison,
+} from '@/types/runLineage';
+
+interface RunLineagePanelProps {
+  comparison: RunComparison | null;
+  error?: string | null;
+}
+
+const STATUS_STYLES: Record<FindingLineageStatus, string> = {
+  new: 'border-severity-medium/25 bg-severity-medium/10 text-severity-medium',
+  persisting: 'border-primary/20 bg-primary/10 text-primary',
+  resolved: 'border-success/25 bg-success/10 text-success',
+  regressed: 'border-severity-critical/25 bg-severity-critical/10 text-severity-critical',
+};
+
+function describeComparison(comparison: RunComparison | null): string {
+  if (!comparison) return 'Lineage appears once validation runs are saved to the workspace.';
+  if (!comparison.previousRunDate) return 'This is the first saved run in scope, so every finding is new.';
+  return `Latest run compared with the run of ${format(new Date(comparison.previousRunDate), 'dd MMM yyyy HH:mm')}.`;
+}
+
+export function RunLineagePanel({ comparison, error }: RunLineagePanelProps) {
+  const regressions = comparison?.entries.filter((entry) => entry.status === 'regressed').slice(0, 3) ?? [];
+
+  return (
+    <div className="surface-glass rounded-[28px] border border-border/70 p-5 shadow-[0_16px_34px_-28px_rgba(15,23,42,0.24)]">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-[11px] font-semibold uppercase tracking-[0.16em] text-muted-foreground">Run over run</p>
+          <h2 className="mt-1 text-xl font-semibold text-foreground">Finding lineage</h2>
+          {error ? (
+            <p className="mt-1 text-sm text-destructive" role="alert">
+              Lineage unavailable: {error}
+            </p>
+          ) : (
+            <p className="mt-1 text-sm text-muted-foreground">{describeComparison(comparison)}</p>
+          )}
+        </div>
+        <div className="rounded-2xl border border-border/70 bg-background/75 p-3">
+          <History className="h-5 w-5 text-primary" />
+        </div>
+      </div>
+
+      {comparison && (
+        <div className="mt-4 grid gap-3 sm:grid-cols-4">
+          {FINDING_LINEAGE_STATUSES.map((status) => (
+            <div key={status} className={cn('rounded-2xl border px-4 py-3', STATUS_STYLES[status])}>
+              <p className="text-[11px] font-semibold uppercase tracking-[0.14em]">{FINDING_LINEAGE_LABELS[status]}</p>
+              <p className="mt-1 text-2xl font-semibold">{comparison.counts[status]}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {regressions.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <p className="text-xs font-semibold uppercase tracking-[0.14em] text-muted-foreground">Regressed findings</p>
+          {regressions.map((entry) => (
+            <div
+              key={entry.fingerprint}
+              className="flex items-center justify-between gap-3 rounded-2xl border border-border/70 bg-background/75 px-4 py-2 text-sm"
+            >
+              <span className="min-w-0 truncate text-foreground">
+                {entry.checkName}
+                {entry.invoiceNumber ? ` · ${entry.invoiceNumber}` : ''}
+                {entry.field ? ` · ${entry.field}` : ''}
+              </span>
+              <SeverityBadge severity={entry.severity} />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
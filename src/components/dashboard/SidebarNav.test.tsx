@@ -1,4 +1,4 @@
-import { render, screen } from '@testing-library/react';
+import { render, screen, waitFor } from '@testing-library/react';
 import { MemoryRouter } from 'react-router-dom';
 import { describe, expect, it, vi } from 'vitest';
 import { SidebarNav } from '@/components/dashboard/SidebarNav';
@@ -10,6 +10,38 @@ vi.mock('@/context/ComplianceContext', () => ({
   }),
 }));
 
+vi.mock('@/context/WorkspaceContext', () => ({
+  useWorkspace: () => ({
+    currentActor: { id: 'user-1', name: 'Reviewer' },
+  }),
+}));
+
+vi.mock('@/lib/api/exceptionViewsApi', () => ({
+  EXCEPTION_VIEWS_CHANGED_EVENT: 'drcs:exception-views-changed',
+  fetchExceptionViews: vi.fn(async () => [
+    {
+      id: 'view-1',
+      name: 'Critical Dariba',
+      filters: {},
+      owner: { id: 'user-1', name: 'Reviewer' },
+      isShared: false,
+      isPinned: true,
+      createdAt: '2026-03-28T09:00:00.000Z',
+      updatedAt: '2026-03-28T09:00:00.000Z',
+    },
+    {
+      id: 'view-2',
+      name: 'Shared by a colleague',
+      filters: {},
+      owner: { id: 'user-2', name: 'Colleague' },
+      isShared: true,
+      isPinned: true,
+      createdAt: '2026-03-28T09:00:00.000Z',
+      updatedAt: '2026-03-28T09:00:00.000Z',
+    },
+  ]),
+}));
+
 describe('SidebarNav', () => {
   it('places Traceability after Check Registry in the left navigation', () => {
     render(
@@ -25,4 +57,18 @@ describe('SidebarNav', () => {
       Node.DOCUMENT_POSITION_FOLLOWING
     );
   });
+
+  it('lists the reviewer\'s own pinned exception views under Exceptions', async () => {
+    render(
+      <MemoryRouter initialEntries={['/dashboard']}>
+        <SidebarNav />
+      </MemoryRouter>
+    );
+
+    const pinnedLink = await screen.findByRole('link', { name: /critical dariba/i });
+    expect(pinnedLink).toHaveAttribute('href', '/exceptions?view=view-1');
+    await waitFor(() => {
+      expect(screen.queryByRole('link', { name: /shared by a colleague/i })).not.toBeInTheDocument();
+    });
+  });
 });
@@ -1,3 +1,4 @@
+import { Fragment, useEffect, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import {
   LayoutDashboard,
@@ -6,15 +7,21 @@ import {
   PlayCircle,
   AlertTriangle,
   Briefcase,
+  ClipboardCheck,
   FileDown,
   BookCheck,
   Gauge,
   Shield,
+  Pin,
   type LucideIcon,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useCompliance } from '@/context/ComplianceContext';
+import { useWorkspace } from '@/context/WorkspaceContext';
 import { FEATURE_FLAGS } from '@/config/features';
+import { EXCEPTION_VIEWS_CHANGED_EVENT, fetchExceptionViews } from '@/lib/api/exceptionViewsApi';
+import { isExceptionViewOwner } from '@/lib/exceptions/exceptionViews';
+import type { SavedExceptionView } from '@/types/exceptionViews';
 
 interface SidebarItem {
   label: string;
@@ -31,6 +38,7 @@ const SIDEBAR_ITEMS: SidebarItem[] = [
   { label: 'Validation', path: '/run', icon: PlayCircle, phase: 'processing', inFlow: true },
   { label: 'Exceptions', path: '/exceptions', icon: AlertTriangle, phase: 'processing', inFlow: true },
   { label: 'Cases', path: '/cases', icon: Briefcase, phase: 'processing' },
+  { label: 'Approvals', path: '/approvals', icon: ClipboardCheck, phase: 'processing' },
   { label: 'Evidence', path: '/evidence-pack', icon: FileDown, phase: 'output', inFlow: true },
   { label: 'Check Registry', path: '/check-registry', icon: BookCheck, phase: 'reference' },
   { label: 'Traceability', path: '/traceability', icon: Shield, phase: 'reference' },
@@ -40,6 +48,25 @@ const SIDEBAR_ITEMS: SidebarItem[] = [
 export function SidebarNav() {
   const location = useLocation();
   const { isDataLoaded, isChecksRun } = useCompliance();
+  const { currentActor } = useWorkspace();
+  const [pinnedViews, setPinnedViews] = useState<SavedExceptionView[]>([]);
+  const actorId = currentActor.id;
+  const actorName = currentActor.name;
+
+  useEffect(() => {
+    let cancelled = false;
+    const actor = { id: actorId, name: actorName };
+    const loadPinnedViews = async () => {
+      const views = await fetchExceptionViews(actor);
+      if (!cancelled) setPinnedViews(views.filter((view) => view.isPinned && isExceptionViewOwner(view, actor)));
+    };
+    void loadPinnedViews();
+    window.addEventListener(EXCEPTION_VIEWS_CHANGED_EVENT, loadPinnedViews);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(EXCEPTION_VIEWS_CHANGED_EVENT, loadPinnedViews);
+    };
+  }, [actorId, actorName]);
 
   const getItemState = (path: string) => {
     if (path === '/run' && !isDataLoaded) return 'disabled';
@@ -124,6 +151,34 @@ export function SidebarNav() {
     );
   };
 
+  const renderPinnedViews = () => {
+    if (pinnedViews.length === 0) return null;
+    const activeViewId = location.pathname === '/exceptions' ? new URLSearchParams(location.search).get('view') : null;
+
+    return (
+      <div className="ml-6 space-y-0.5 border-l border-border/60 py-1 pl-2" aria-label="Pinned exception views">
+        {pinnedViews.map((view) => (
+          <Link
+            key={view.id}
+            to={isChecksRun ? `/exceptions?view=${encodeURIComponent(view.id)}` : '#'}
+            className={cn(
+              'flex items-center gap-1.5 truncate rounded-md px-2 py-1 text-xs transition-colors',
+              activeViewId === view.id
+                ? 'bg-primary/10 font-semibold text-primary'
+                : !isChecksRun
+                ? 'text-muted-foreground/50 cursor-not-allowed'
+                : 'text-foreground/70 hover:bg-muted hover:text-foreground'
+            )}
+            onClick={(e) => !isChecksRun && e.preventDefault()}
+          >
+            <Pin className="h-3 w-3 shrink-0" aria-hidden="true" />
+            <span className="truncate">{view.name}</span>
+          </Link>
+        ))}
+      </div>
+    );
+  };
+
   return (
     <aside className="relative isolate overflow-hidden rounded-2xl border border-border/70 bg-card/95 p-3 shadow-[0_18px_48px_-28px_rgba(15,23,42,0.35)] backdrop-blur-sm">
       <div className="pointer-events-none absolute inset-0 bg-gradient-to-b from-background/30 via-transparent to-transparent" aria-hidden="true" />
@@ -146,7 +201,12 @@ export function SidebarNav() {
           <div className="space-y-1">
             <p className="px-2 pt-1 text-[10px] font-semibold uppercase tracking-[0.12em] text-muted-foreground/80">Processing</p>
             <div className="relative">
-              {grouped.processing.map(renderItem)}
+              {grouped.processing.map((item) => (
+                <Fragment key={item.path}>
+                  {renderItem(item)}
+                  {item.path === '/exceptions' && renderPinnedViews()}
+                </Fragment>
+              ))}
             </div>
           </div>
 
@@ -1,16 +1,26 @@
 import { Outlet } from 'react-router-dom';
+import { NotificationBell } from '@/components/dashboard/NotificationBell';
 import { SidebarNav } from '@/components/dashboard/SidebarNav';
+import { WorkspaceSwitcher } from '@/components/dashboard/WorkspaceSwitcher';
+import { useWorkspace } from '@/context/WorkspaceContext';
 
 export function WorkspaceShell() {
+  const { activeTenantId } = useWorkspace();
+
   return (
     <div className="workspace-shell relative z-10 mx-auto w-full max-w-[1680px] px-4 py-4 md:px-6 md:py-6">
       <div className="grid items-start gap-5 lg:gap-8 lg:grid-cols-[280px_minmax(0,1fr)]">
         <aside>
-          <div className="lg:sticky lg:top-[5.25rem] lg:max-h-[calc(100vh-6.5rem)] lg:overflow-y-auto lg:pr-1">
+          <div className="lg:sticky lg:top-[5.25rem] lg:max-h-[calc(100vh-6.5rem)] lg:overflow-y-auto lg:pr-1 space-y-3">
+            <div className="grid grid-cols-[minmax(0,1fr)_auto] items-start gap-2">
+              <WorkspaceSwitcher />
+              <NotificationBell />
+            </div>
             <SidebarNav />
           </div>
         </aside>
-        <section className="min-w-0">
+        {/* Remount pages on workspace switch so they refetch under the new tenant scope. */}
+        <section key={activeTenantId ?? 'no-tenant'} className="min-w-0">
           <Outlet />
         </section>
       </div>
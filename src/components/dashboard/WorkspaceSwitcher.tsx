@@ -0,0 +1,130 @@
+import { FormEvent, useState } from 'react';
+import { Building2, LogOut, Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { signInWithPassword, signOut } from '@/lib/api/authApi';
+import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { createTenant } from '@/lib/api/tenantsApi';
+
+const PANEL_CLASS =
+  'rounded-2xl border border-border/70 bg-card/95 p-3 shadow-[0_18px_48px_-28px_rgba(15,23,42,0.35)] space-y-2';
+
+function SignInForm() {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(await signInWithPassword(email.trim(), password));
+    setIsSubmitting(false);
+  };
+
+  return (
+    <form className="space-y-2" onSubmit={handleSubmit}>
+      <Input type="email" placeholder="Email" value={email} onChange={(e) => setEmail(e.target.value)} required />
+      <Input type="password" placeholder="Password" value={password} onChange={(e) => setPassword(e.target.value)} required />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <Button type="submit" size="sm" className="w-full" disabled={isSubmitting}>
+        Sign in
+      </Button>
+    </form>
+  );
+}
+
+export function WorkspaceSwitcher() {
+  const {
+    currentUser,
+    tenants,
+    activeTenantId,
+    setActiveTenantId,
+    refreshTenants,
+    localActorName,
+    setLocalActorName,
+  } = useWorkspace();
+  const [newWorkspaceName, setNewWorkspaceName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    const name = newWorkspaceName.trim();
+    if (!name) return;
+    setIsCreating(true);
+    const tenant = await createTenant(name);
+    if (tenant) {
+      await refreshTenants();
+      setActiveTenantId(tenant.id);
+      setNewWorkspaceName('');
+    }
+    setIsCreating(false);
+  };
+
+  if (!getSupabaseEnvStatus().configured) {
+    return (
+      <div className={PANEL_CLASS}>
+        <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Workspace</p>
+        <p className="text-xs text-muted-foreground">Local workspace — data stays in this browser.</p>
+        <Input
+          aria-label="Acting as"
+          placeholder="Acting as"
+          value={localActorName}
+          onChange={(e) => setLocalActorName(e.target.value)}
+          className="h-8 text-xs"
+        />
+      </div>
+    );
+  }
+
+  if (!currentUser) {
+    return (
+      <div className={PANEL_CLASS}>
+        <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Sign in to a workspace</p>
+        <SignInForm />
+      </div>
+    );
+  }
+
+  return (
+    <div className={PANEL_CLASS}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Workspace</p>
+        <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => signOut()} title="Sign out">
+          <LogOut className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+      <p className="truncate text-xs text-muted-foreground">{currentUser.email ?? currentUser.id}</p>
+      {tenants.length > 0 ? (
+        <Select value={activeTenantId ?? undefined} onValueChange={setActiveTenantId}>
+          <SelectTrigger aria-label="Active workspace">
+            <Building2 className="mr-2 h-4 w-4 text-muted-foreground" />
+            <SelectValue placeholder="Select workspace" />
+          </SelectTrigger>
+          <SelectContent>
+            {tenants.map((tenant) => (
+              <SelectItem key={tenant.id} value={tenant.id}>
+                {tenant.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <p className="text-xs text-muted-foreground">You are not a member of any workspace yet.</p>
+      )}
+      <form className="flex gap-2" onSubmit={handleCreate}>
+        <Input
+          placeholder="New workspace"
+          value={newWorkspaceName}
+          onChange={(e) => setNewWorkspaceName(e.target.value)}
+          className="h-8 text-xs"
+        />
+        <Button type="submit" variant="outline" size="icon" className="h-8 w-8 shrink-0" disabled={isCreating} title="Create workspace">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
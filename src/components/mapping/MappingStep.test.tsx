@@ -1,7 +1,7 @@
-import { render, screen } from '@testing-library/react';
+import { fireEvent, render, screen } from '@testing-library/react';
 import { describe, expect, it, vi } from 'vitest';
 import { MappingStep } from '@/components/mapping/MappingStep';
-import type { ERPPreviewData, FieldMapping } from '@/types/fieldMapping';
+import type { ERPPreviewData, FieldMapping, MappingTemplate } from '@/types/fieldMapping';
 import { getPintFieldById } from '@/types/fieldMapping';
 
 describe('MappingStep', () => {
@@ -55,4 +55,78 @@ describe('MappingStep', () => {
     expect(focusedRow).toHaveTextContent('seller_trn');
     expect(screen.queryByText('seller_name')).not.toBeInTheDocument();
   });
+
+  it('previews the transformation chain on sample rows', () => {
+    const previewData: ERPPreviewData = {
+      fileName: 'lines.csv',
+      columns: ['Qty'],
+      detectedColumns: [],
+      rows: [{ Qty: '1,500' }, { Qty: 'n/a' }],
+      totalRows: 2,
+      datasetType: 'lines',
+    };
+    const mappings: FieldMapping[] = [
+      {
+        id: 'mapping-qty',
+        erpColumn: 'Qty',
+        erpColumnIndex: 0,
+        targetField: getPintFieldById('quantity')!,
+        confidence: 0.9,
+        isConfirmed: true,
+        transformations: [{ type: 'arithmetic', config: { operation: 'divide', operand: 1000 } }],
+        sampleValues: ['1,500', 'n/a'],
+      },
+    ];
+
+    render(<MappingStep previewData={previewData} mappings={mappings} onMappingsChange={vi.fn()} />);
+    fireEvent.click(screen.getByRole('button', { name: 'Transformations for Qty' }));
+
+    expect(screen.getByTestId('transformation-chain-editor')).toBeInTheDocument();
+    expect(screen.getByText('1.5')).toBeInTheDocument();
+    expect(screen.getByText('Valid')).toBeInTheDocument();
+    expect(screen.getByText('Cannot parse number: n/a')).toBeInTheDocument();
+  });
+
+  it('offers to apply a saved template whose column signature matches the file', () => {
+    const previewData: ERPPreviewData = {
+      fileName: 'sap.csv',
+      columns: ['BELNR', 'BLDAT', 'WAERS'],
+      detectedColumns: [],
+      rows: [{ BELNR: '1900000123', BLDAT: '05.03.2026', WAERS: 'AED' }],
+      totalRows: 1,
+      datasetType: 'header',
+    };
+    const savedMapping = (erpColumn: string, fieldId: string): FieldMapping => ({
+      id: erpColumn,
+      erpColumn,
+      erpColumnIndex: 0,
+      targetField: getPintFieldById(fieldId)!,
+      confidence: 1,
+      isConfirmed: true,
+      transformations: [],
+      sampleValues: [],
+    });
+    const templates: MappingTemplate[] = [
+      {
+        id: 'sap-template',
+        templateName: 'Client A SAP',
+        erpType: 'SAP ECC',
+        documentType: 'UC1 Standard Tax Invoice',
+        version: 1,
+        isActive: true,
+        mappings: [savedMapping('BELNR', 'invoice_number'), savedMapping('BLDAT', 'issue_date'), savedMapping('WAERS', 'currency')],
+      },
+    ];
+    const onMappingsChange = vi.fn();
+
+    render(
+      <MappingStep previewData={previewData} mappings={[savedMapping('BELNR', 'invoice_number')]} onMappingsChange={onMappingsChange} templates={templates} />
+    );
+    expect(screen.getByText(/3 of its mapped columns are present/)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Apply template' }));
+
+    const applied: FieldMapping[] = onMappingsChange.mock.calls[0][0];
+    expect(applied.map((m) => m.targetField.id)).toEqual(['invoice_number', 'issue_date', 'currency']);
+    expect(screen.queryByRole('button', { name: 'Apply template' })).not.toBeInTheDocument();
+  });
 });
@@ -1,11 +1,11 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { ArrowRight, Check, X, Search, Wand2, ChevronDown, AlertTriangle } from 'lucide-react';
+import { ArrowRight, Check, X, Search, Wand2, ChevronDown, AlertTriangle, SlidersHorizontal, History } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Select, SelectContent, SelectItem, SelectTrigger } from '@/components/ui/select';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
@@ -15,15 +15,24 @@ import {
   DatasetType,
   FieldMapping, 
   ERPPreviewData, 
+  MappingSuggestion,
+  MappingTemplate,
+  Transformation,
   getPintFieldById,
   normalizeFieldMappings,
 } from '@/types/fieldMapping';
 import { 
-  generateMappingSuggestions, 
   suggestionsToMappings,
   getAvailableTargetFields 
 } from '@/lib/mapping/mappingSuggester';
+import {
+  applyTemplateToColumns,
+  buildMappingKnowledge,
+  findSimilarTemplates,
+  generateLearnedSuggestions,
+} from '@/lib/mapping/mappingLearner';
 import { detectLikelyDatasetType, getDatasetTypeLabel } from '@/lib/mapping/datasetFieldCatalog';
+import { TransformationChainEditor } from '@/components/mapping/TransformationChainEditor';
 
 interface MappingStepProps {
   previewData: ERPPreviewData;
@@ -31,30 +40,57 @@ interface MappingStepProps {
   onMappingsChange: (mappings: FieldMapping[]) => void;
   onDatasetTypeChange?: (datasetType: DatasetType) => void;
   focusedField?: string | null;
+  templates?: MappingTemplate[];
 }
 
+const NO_TEMPLATES: MappingTemplate[] = [];
+
 export function MappingStep({
   previewData,
   mappings,
   onMappingsChange,
   onDatasetTypeChange,
   focusedField,
+  templates = NO_TEMPLATES,
 }: MappingStepProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [showOnlyPending, setShowOnlyPending] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [duplicateError, setDuplicateError] = useState<string | null>(null);
+  const [transformingMappingId, setTransformingMappingId] = useState<string | null>(null);
+  const [suggestionsByColumn, setSuggestionsByColumn] = useState<Record<string, MappingSuggestion>>({});
+  const [dismissedTemplateId, setDismissedTemplateId] = useState<string | null>(null);
+
+  const knowledge = useMemo(() => buildMappingKnowledge(templates), [templates]);
+  const similarTemplate = useMemo(
+    () => findSimilarTemplates(previewData.columns, templates)[0] ?? null,
+    [previewData.columns, templates]
+  );
 
   // Generate suggestions when data changes
   const handleGenerateSuggestions = useCallback(() => {
     setIsGenerating(true);
     setTimeout(() => {
-      const newSuggestions = generateMappingSuggestions(previewData.columns, previewData.rows, previewData.datasetType);
+      const newSuggestions = generateLearnedSuggestions(
+        previewData.columns,
+        previewData.rows,
+        previewData.datasetType,
+        knowledge,
+        similarTemplate?.template.erpType
+      );
+      setSuggestionsByColumn(Object.fromEntries(newSuggestions.map((s) => [s.erpColumn, s])));
       const newMappings = suggestionsToMappings(newSuggestions);
       onMappingsChange(normalizeFieldMappings(newMappings));
       setIsGenerating(false);
     }, 500);
-  }, [previewData.columns, previewData.datasetType, previewData.rows, onMappingsChange]);
+  }, [previewData.columns, previewData.datasetType, previewData.rows, knowledge, similarTemplate, onMappingsChange]);
+
+  const handleApplySimilarTemplate = () => {
+    if (!similarTemplate) return;
+    setSuggestionsByColumn({});
+    onMappingsChange(applyTemplateToColumns(similarTemplate.template, previewData.columns, previewData.rows));
+    setDismissedTemplateId(similarTemplate.template.id ?? similarTemplate.template.templateName);
+  };
 
   useEffect(() => {
     if (mappings.length === 0) {
@@ -130,6 +166,13 @@ export function MappingStep({
     onMappingsChange(normalizeFieldMappings([...mappings, newMapping]));
   };
 
+  const handleTransformationsChange = (mappingId: string, transformations: Transformation[]) => {
+    const updated = mappings.map(m => 
+      m.id === mappingId ? { ...m, transformations } : m
+    );
+    onMappingsChange(normalizeFieldMappings(updated));
+  };
+
   const handleBulkAcceptHighConfidence = () => {
     const updated = mappings.map(m => ({
       ...m,
@@ -144,6 +187,36 @@ export function MappingStep({
     return <Badge variant="outline" className="text-orange-500 border-orange-500/30">Low ({Math.round(confidence * 100)}%)</Badge>;
   };
 
+  const renderConfidence = (mapping: FieldMapping) => {
+    const suggestion = suggestionsByColumn[mapping.erpColumn];
+    if (!suggestion?.scoreBreakdown || suggestion.targetField.id !== mapping.targetField.id) {
+      return getConfidenceBadge(mapping.confidence);
+    }
+
+    return (
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className="inline-flex cursor-help" aria-label={`Score breakdown for ${mapping.erpColumn}`}>
+              {getConfidenceBadge(mapping.confidence)}
+            </span>
+          </TooltipTrigger>
+          <TooltipContent side="left" className="max-w-xs space-y-1">
+            <p className="text-xs font-medium">{suggestion.reason}</p>
+            {suggestion.scoreBreakdown.map((component) => (
+              <div key={component.factor} className="flex justify-between gap-3 text-xs">
+                <span>{component.detail}</span>
+                <span className="font-mono text-muted-foreground">
+                  +{Math.round(component.weight * component.score * 100)}
+                </span>
+              </div>
+            ))}
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    );
+  };
+
   const availableTargetFields = useMemo(
     () => getAvailableTargetFields(mappings, previewData.datasetType),
     [mappings, previewData.datasetType]
@@ -164,10 +237,15 @@ export function MappingStep({
     });
   }, [mappings, searchTerm, showOnlyPending]);
 
+  const sampleRows = useMemo(() => previewData.rows.slice(0, 5), [previewData.rows]);
+
   const confirmedCount = mappings.filter(m => m.isConfirmed).length;
   const pendingCount = mappings.filter(m => !m.isConfirmed).length;
   const highConfidenceUnconfirmed = mappings.filter(m => m.confidence >= 0.85 && !m.isConfirmed).length;
   const recommendedDatasetType = useMemo(() => detectLikelyDatasetType(previewData.columns), [previewData.columns]);
+  const showSimilarTemplate =
+    similarTemplate !== null &&
+    dismissedTemplateId !== (similarTemplate.template.id ?? similarTemplate.template.templateName);
   const shouldSuggestDatasetTypeChange =
     recommendedDatasetType !== null && recommendedDatasetType !== previewData.datasetType;
 
@@ -231,6 +309,33 @@ export function MappingStep({
         </Alert>
       )}
 
+      {showSimilarTemplate && similarTemplate && (
+        <Alert className="border-primary/20 bg-primary/5">
+          <History className="h-4 w-4" />
+          <AlertDescription className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+            <span className="text-sm">
+              This file matches <strong>{similarTemplate.template.templateName}</strong>
+              {similarTemplate.template.erpType ? ` (${similarTemplate.template.erpType})` : ''}:{' '}
+              {similarTemplate.matchedColumns.length} of its mapped columns are present (
+              {Math.round(similarTemplate.similarity * 100)}%).
+            </span>
+            <div className="flex gap-2">
+              <Button type="button" size="sm" onClick={handleApplySimilarTemplate}>
+                Apply template
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => setDismissedTemplateId(similarTemplate.template.id ?? similarTemplate.template.templateName)}
+              >
+                Dismiss
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {focusedField && (
         <Alert className="border-primary/20 bg-primary/5">
           <AlertDescription className="text-sm text-muted-foreground">
@@ -334,73 +439,100 @@ export function MappingStep({
                   </TableRow>
                 ) : (
                   filteredMappings.map((mapping) => (
-                    <TableRow
-                      key={mapping.id}
-                      data-focused-match={isFocusedMapping(mapping) ? 'true' : undefined}
-                      className={cn(
-                        'hover:bg-white/5',
-                        isFocusedMapping(mapping) && 'bg-primary/5 ring-1 ring-inset ring-primary/20'
-                      )}
-                    >
-                      <TableCell className="align-middle font-mono text-sm">{mapping.erpColumn}</TableCell>
-                      <TableCell className="align-middle text-center">
-                        <ArrowRight className="h-4 w-4 mx-auto text-muted-foreground" />
-                      </TableCell>
-                      <TableCell className="align-middle">
-                        <Select
-                          value={mapping.targetField.id}
-                          onValueChange={(v) => handleChangeTargetField(mapping.id, v)}
-                        >
-                          <SelectTrigger className="h-10 w-full bg-background/70 text-left">
-                            {renderTargetFieldSummary(mapping.targetField.id)}
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value={mapping.targetField.id}>
+                    <React.Fragment key={mapping.id}>
+                      <TableRow
+                        data-focused-match={isFocusedMapping(mapping) ? 'true' : undefined}
+                        className={cn(
+                          'hover:bg-white/5',
+                          isFocusedMapping(mapping) && 'bg-primary/5 ring-1 ring-inset ring-primary/20'
+                        )}
+                      >
+                        <TableCell className="align-middle font-mono text-sm">{mapping.erpColumn}</TableCell>
+                        <TableCell className="align-middle text-center">
+                          <ArrowRight className="h-4 w-4 mx-auto text-muted-foreground" />
+                        </TableCell>
+                        <TableCell className="align-middle">
+                          <Select
+                            value={mapping.targetField.id}
+                            onValueChange={(v) => handleChangeTargetField(mapping.id, v)}
+                          >
+                            <SelectTrigger className="h-10 w-full bg-background/70 text-left">
                               {renderTargetFieldSummary(mapping.targetField.id)}
-                            </SelectItem>
-                            {availableTargetFields.map(f => (
-                              <SelectItem key={f.id} value={f.id}>
-                                {renderTargetFieldSummary(f.id)}
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={mapping.targetField.id}>
+                                {renderTargetFieldSummary(mapping.targetField.id)}
                               </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                      </TableCell>
-                      <TableCell className="align-middle">{getConfidenceBadge(mapping.confidence)}</TableCell>
-                      <TableCell className="align-middle max-w-[240px] text-xs text-muted-foreground">
-                        <TooltipProvider>
-                          <Tooltip>
-                            <TooltipTrigger asChild>
-                              <span className="truncate block cursor-help">
-                                {mapping.sampleValues.slice(0, 3).filter(Boolean).join(', ') || '-'}
-                              </span>
-                            </TooltipTrigger>
-                            <TooltipContent side="left" className="max-w-xs">
-                              <p className="text-xs">{mapping.sampleValues.slice(0, 5).join(', ')}</p>
-                            </TooltipContent>
-                          </Tooltip>
-                        </TooltipProvider>
-                      </TableCell>
-                      <TableCell className="align-middle">
-                        {mapping.isConfirmed ? (
-                          <Badge className="bg-green-500/10 text-green-600 border-green-500/20">Confirmed</Badge>
-                        ) : (
-                          <Badge variant="outline">Pending</Badge>
-                        )}
-                      </TableCell>
-                      <TableCell className="align-middle">
-                        <div className="flex items-center gap-1">
-                          {!mapping.isConfirmed && (
-                            <Button size="sm" variant="ghost" className="h-8 w-8 px-0" onClick={() => handleConfirmMapping(mapping.id)}>
-                              <Check className="h-4 w-4 text-green-600" />
-                            </Button>
+                              {availableTargetFields.map(f => (
+                                <SelectItem key={f.id} value={f.id}>
+                                  {renderTargetFieldSummary(f.id)}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="align-middle">{renderConfidence(mapping)}</TableCell>
+                        <TableCell className="align-middle max-w-[240px] text-xs text-muted-foreground">
+                          <TooltipProvider>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <span className="truncate block cursor-help">
+                                  {mapping.sampleValues.slice(0, 3).filter(Boolean).join(', ') || '-'}
+                                </span>
+                              </TooltipTrigger>
+                              <TooltipContent side="left" className="max-w-xs">
+                                <p className="text-xs">{mapping.sampleValues.slice(0, 5).join(', ')}</p>
+                              </TooltipContent>
+                            </Tooltip>
+                          </TooltipProvider>
+                        </TableCell>
+                        <TableCell className="align-middle">
+                          {mapping.isConfirmed ? (
+                            <Badge className="bg-green-500/10 text-green-600 border-green-500/20">Confirmed</Badge>
+                          ) : (
+                            <Badge variant="outline">Pending</Badge>
                           )}
-                          <Button size="sm" variant="ghost" className="h-8 w-8 px-0" onClick={() => handleRejectMapping(mapping.id)}>
-                            <X className="h-4 w-4 text-red-600" />
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
+                        </TableCell>
+                        <TableCell className="align-middle">
+                          <div className="flex items-center gap-1">
+                            {!mapping.isConfirmed && (
+                              <Button size="sm" variant="ghost" className="h-8 w-8 px-0" onClick={() => handleConfirmMapping(mapping.id)}>
+                                <Check className="h-4 w-4 text-green-600" />
+                              </Button>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="relative h-8 w-8 px-0"
+                              onClick={() => setTransformingMappingId(transformingMappingId === mapping.id ? null : mapping.id)}
+                              aria-label={`Transformations for ${mapping.erpColumn}`}
+                            >
+                              <SlidersHorizontal className="h-4 w-4" />
+                              {mapping.transformations.length > 0 && (
+                                <span className="absolute -right-0.5 -top-0.5 rounded-full bg-primary px-1 text-[10px] leading-4 text-primary-foreground">
+                                  {mapping.transformations.length}
+                                </span>
+                              )}
+                            </Button>
+                            <Button size="sm" variant="ghost" className="h-8 w-8 px-0" onClick={() => handleRejectMapping(mapping.id)}>
+                              <X className="h-4 w-4 text-red-600" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                      {transformingMappingId === mapping.id && (
+                        <TableRow className="bg-muted/20 hover:bg-muted/20">
+                          <TableCell colSpan={7}>
+                            <TransformationChainEditor
+                              mapping={mapping}
+                              columns={previewData.columns}
+                              sampleRows={sampleRows}
+                              onChange={(transformations) => handleTransformationsChange(mapping.id, transformations)}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </React.Fragment>
                   ))
                 )}
               </TableBody>
@@ -1,5 +1,5 @@
 import React, { useState, useMemo } from 'react';
-import { Save, FileText, Building, Hash, Tag, Settings, Play, AlertCircle, Check, X, Trash2, Plus, Shield, AlertTriangle } from 'lucide-react';
+import { Save, FileText, Building, Building2, Tag, Settings, Play, AlertCircle, Check, X, Trash2, Plus, Shield, AlertTriangle } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -13,7 +13,6 @@ import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/component
 import { 
   FieldMapping, 
   MappingTemplate, 
-  Transformation, 
   TransformationType,
   ERPPreviewData,
   ERP_TYPES,
@@ -22,11 +21,16 @@ import {
 } from '@/types/fieldMapping';
 import { saveMappingTemplate } from '@/lib/api/mappingApi';
 import { applyTransformations } from '@/lib/mapping/transformationEngine';
+import { TRANSFORMATION_TYPES, createTransformation } from '@/lib/mapping/transformationEngine';
 import { analyzeCoverage } from '@/lib/mapping/coverageAnalyzer';
 import { useToast } from '@/hooks/use-toast';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Direction } from '@/types/direction';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { usePermission } from '@/hooks/use-permission';
+import { requiredRoleMessage } from '@/lib/access/permissions';
+import { requestApproval } from '@/lib/api/approvalsApi';
 
 interface SaveStepProps {
   mappings: FieldMapping[];
@@ -36,18 +40,10 @@ interface SaveStepProps {
   onTemplateSaved: (templateId: string, name?: string, isActive?: boolean) => void;
 }
 
-const TRANSFORMATION_TYPES: { value: TransformationType; label: string; description: string }[] = [
-  { value: 'trim', label: 'Trim', description: 'Remove leading/trailing whitespace' },
-  { value: 'uppercase', label: 'Uppercase', description: 'Convert to uppercase' },
-  { value: 'lowercase', label: 'Lowercase', description: 'Convert to lowercase' },
-  { value: 'date_parse', label: 'Date Parse', description: 'Parse date with format' },
-  { value: 'static_value', label: 'Static Value', description: 'Use a fixed value' },
-  { value: 'combine', label: 'Combine Columns', description: 'Combine multiple columns' },
-  { value: 'lookup', label: 'Lookup Table', description: 'Map values using a lookup' },
-];
-
 export function SaveStep({ mappings, previewData, direction, onMappingsChange, onTemplateSaved }: SaveStepProps) {
   const { toast } = useToast();
+  const { activeTenant, currentActor } = useWorkspace();
+  const canRequestActivation = usePermission('data.prepare');
   const [isSaving, setIsSaving] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
   const [testResults, setTestResults] = useState<Record<string, any>[] | null>(null);
@@ -58,7 +54,6 @@ export function SaveStep({ mappings, previewData, direction, onMappingsChange, o
     templateName: '',
     description: '',
     clientName: '',
-    tenantId: '',
     legalEntity: '',
     sellerTrn: '',
     erpType: '',
@@ -80,20 +75,7 @@ export function SaveStep({ mappings, previewData, direction, onMappingsChange, o
   const handleAddTransformation = (mappingId: string, type: TransformationType) => {
     const updated = mappings.map(m => {
       if (m.id !== mappingId) return m;
-      const newTransform: Transformation = { type, config: {} };
-      
-      // Set default config based on type
-      if (type === 'date_parse') {
-        newTransform.config = { inputFormat: 'DD/MM/YYYY', outputFormat: 'YYYY-MM-DD' };
-      } else if (type === 'static_value') {
-        newTransform.config = { value: '' };
-      } else if (type === 'combine') {
-        newTransform.config = { columns: [], separator: ' ' };
-      } else if (type === 'lookup') {
-        newTransform.config = { mappings: {} };
-      }
-      
-      return { ...m, transformations: [...m.transformations, newTransform] };
+      return { ...m, transformations: [...m.transformations, createTransformation(type)] };
     });
     onMappingsChange(updated);
   };
@@ -196,6 +178,15 @@ export function SaveStep({ mappings, previewData, direction, onMappingsChange, o
       return;
     }
 
+    if (activate && !canRequestActivation) {
+      toast({
+        title: 'Activation not permitted',
+        description: requiredRoleMessage('data.prepare'),
+        variant: 'destructive',
+      });
+      return;
+    }
+
     if (activate && hasBlockingGaps) {
       toast({
         title: 'Cannot activate with blocking gaps',
@@ -211,13 +202,13 @@ export function SaveStep({ mappings, previewData, direction, onMappingsChange, o
       templateName: formData.templateName,
       description: formData.description || undefined,
       clientName: formData.clientName || undefined,
-      tenantId: formData.tenantId || undefined,
       legalEntity: formData.legalEntity || undefined,
       sellerTrn: formData.sellerTrn || undefined,
       erpType: formData.erpType || undefined,
       documentType: formData.documentType,
       version: 1,
-      isActive: activate,
+      // Activation waits for a second person to approve the request filed below.
+      isActive: false,
       mappings: confirmedMappings,
       effectiveDate: formData.effectiveDate || undefined,
       notes: formData.notes || undefined,
@@ -229,11 +220,34 @@ export function SaveStep({ mappings, previewData, direction, onMappingsChange, o
     setIsSaving(false);
 
     if (templateId) {
-      toast({
-        title: activate ? 'Template approved & activated' : 'Draft saved',
-        description: `Mapping template "${formData.templateName}" has been ${activate ? 'activated' : 'saved as draft'}.`,
-      });
-      onTemplateSaved(templateId, formData.templateName, activate);
+      const approval = activate
+        ? await requestApproval(
+            {
+              kind: 'template.activate',
+              entityType: 'mapping_template',
+              entityId: templateId,
+              entityLabel: formData.templateName,
+              payload: { direction },
+              justification: formData.notes || `Activate mapping template "${formData.templateName}"`,
+            },
+            currentActor
+          )
+        : null;
+      if (activate && !approval) {
+        toast({
+          title: 'Approval request failed',
+          description: `Mapping template "${formData.templateName}" was saved as draft but could not be submitted for activation.`,
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: approval ? 'Submitted for approval' : 'Draft saved',
+          description: approval
+            ? `Mapping template "${formData.templateName}" will be activated once another user approves it.`
+            : `Mapping template "${formData.templateName}" has been saved as draft.`,
+        });
+      }
+      onTemplateSaved(templateId, formData.templateName, false);
     } else {
       toast({
         title: 'Save failed',
@@ -300,7 +314,7 @@ export function SaveStep({ mappings, previewData, direction, onMappingsChange, o
                           <DialogHeader>
                             <DialogTitle>Add Transformation</DialogTitle>
                           </DialogHeader>
-                          <div className="space-y-4">
+                          <div className="space-y-4 max-h-[70vh] overflow-y-auto">
                             {TRANSFORMATION_TYPES.map(t => (
                               <button
                                 key={t.value}
@@ -458,14 +472,14 @@ export function SaveStep({ mappings, previewData, direction, onMappingsChange, o
             </div>
 
             <div>
-              <Label htmlFor="tenantId" className="flex items-center gap-1">
-                <Hash className="h-3 w-3" /> Tenant ID
+              <Label htmlFor="workspace" className="flex items-center gap-1">
+                <Building2 className="h-3 w-3" /> Workspace
               </Label>
               <Input
-                id="tenantId"
-                placeholder="e.g., ACME-001"
-                value={formData.tenantId}
-                onChange={(e) => handleChange('tenantId', e.target.value)}
+                id="workspace"
+                value={activeTenant?.name ?? 'Local workspace'}
+                readOnly
+                disabled
                 className="mt-1"
               />
             </div>
@@ -553,7 +567,7 @@ export function SaveStep({ mappings, previewData, direction, onMappingsChange, o
             <Alert className="bg-amber-500/10 border-amber-500/30">
               <AlertTriangle className="h-4 w-4 text-amber-600" />
               <AlertDescription className="text-amber-700 text-sm">
-                {coverage.unmappedMandatory.length} mandatory field(s) unmapped. "Approve & Activate" requires full mandatory coverage.
+                {coverage.unmappedMandatory.length} mandatory field(s) unmapped. "Submit for Activation" requires full mandatory coverage.
               </AlertDescription>
             </Alert>
           )}
@@ -569,15 +583,19 @@ export function SaveStep({ mappings, previewData, direction, onMappingsChange, o
                   <span>
                     <Button 
                       onClick={() => handleSave(true)} 
-                      disabled={isSaving || hasBlockingGaps} 
+                      disabled={isSaving || hasBlockingGaps || !canRequestActivation} 
                       size="lg"
                     >
                       <Shield className="h-4 w-4 mr-2" />
-                      {isSaving ? 'Saving...' : 'Approve & Activate'}
+                      {isSaving ? 'Saving...' : 'Submit for Activation'}
                     </Button>
                   </span>
                 </TooltipTrigger>
-                {hasBlockingGaps && (
+                {!canRequestActivation ? (
+                  <TooltipContent>
+                    <p>{requiredRoleMessage('data.prepare')}</p>
+                  </TooltipContent>
+                ) : hasBlockingGaps && (
                   <TooltipContent>
                     <p>Fix all mandatory mapping gaps before activating</p>
                   </TooltipContent>
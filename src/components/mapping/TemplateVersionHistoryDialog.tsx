@@ -0,0 +1,284 @@
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowRight, History, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FieldMapping, MappingAttribute, MappingFieldChange, MappingTemplate, MappingTemplateRollback } from '@/types/fieldMapping';
+import { Direction } from '@/types/direction';
+import { diffMappingCoverage, diffMappingVersions } from '@/lib/mapping/mappingVersionDiff';
+import { fetchTemplateRollbacks, fetchTemplateVersions, rollbackTemplateVersion } from '@/lib/api/mappingApi';
+import { useToast } from '@/hooks/use-toast';
+import { usePermission } from '@/hooks/use-permission';
+import { requiredRoleMessage } from '@/lib/access/permissions';
+
+interface TemplateVersionHistoryDialogProps {
+  template: MappingTemplate | null;
+  direction: Direction;
+  onOpenChange: (open: boolean) => void;
+  onRolledBack: () => void;
+}
+
+const ATTRIBUTE_LABELS: Record<MappingAttribute, string> = {
+  erpColumn: 'Column',
+  targetField: 'Target',
+  transformations: 'Transformations',
+  isConfirmed: 'Confirmation',
+};
+
+const CHANGE_BADGES: Record<MappingFieldChange['kind'], string> = {
+  added: 'bg-green-500/10 text-green-600 border-green-500/20',
+  removed: 'bg-red-500/10 text-red-600 border-red-500/20',
+  changed: 'bg-amber-500/10 text-amber-600 border-amber-500/20',
+};
+
+function describeMapping(mapping: FieldMapping | undefined, attributes: MappingAttribute[]) {
+  if (!mapping) return <span className="text-muted-foreground">-</span>;
+  const highlight = (attribute: MappingAttribute) => (attributes.includes(attribute) ? 'font-semibold text-foreground' : '');
+  return (
+    <div className="space-y-0.5 text-xs text-muted-foreground">
+      <div className={`font-mono ${highlight('erpColumn')}`}>{mapping.erpColumn}</div>
+      <div className={highlight('targetField')}>{'->'} {mapping.targetField.name}</div>
+      <div className={highlight('transformations')}>
+        {mapping.transformations.length > 0
+          ? mapping.transformations.map((transformation) => transformation.type).join(', ')
+          : 'No transformations'}
+      </div>
+      <div className={highlight('isConfirmed')}>{mapping.isConfirmed ? 'Confirmed' : 'Unconfirmed'}</div>
+    </div>
+  );
+}
+
+export function TemplateVersionHistoryDialog({
+  template,
+  direction,
+  onOpenChange,
+  onRolledBack,
+}: TemplateVersionHistoryDialogProps) {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<MappingTemplate[]>([]);
+  const [rollbacks, setRollbacks] = useState<MappingTemplateRollback[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>('');
+  const [reason, setReason] = useState('');
+  const [isRollingBack, setIsRollingBack] = useState(false);
+  const canActivate = usePermission('template.activate');
+
+  const templateName = template?.templateName;
+
+  useEffect(() => {
+    if (!templateName) return;
+    let cancelled = false;
+    setIsLoading(true);
+    Promise.all([fetchTemplateVersions(templateName, direction), fetchTemplateRollbacks(templateName)]).then(
+      ([loadedVersions, loadedRollbacks]) => {
+        if (cancelled) return;
+        setVersions(loadedVersions);
+        setRollbacks(loadedRollbacks);
+        setToId(loadedVersions[0]?.id ?? '');
+        setFromId(loadedVersions[1]?.id ?? loadedVersions[0]?.id ?? '');
+        setIsLoading(false);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [templateName, direction]);
+
+  const fromVersion = versions.find((version) => version.id === fromId);
+  const toVersion = versions.find((version) => version.id === toId);
+  const activeVersion = versions.find((version) => version.isActive);
+
+  const diff = useMemo(
+    () => (fromVersion && toVersion ? diffMappingVersions(fromVersion.mappings, toVersion.mappings) : null),
+    [fromVersion, toVersion]
+  );
+  const coverageDelta = useMemo(
+    () => (fromVersion && toVersion ? diffMappingCoverage(fromVersion.mappings, toVersion.mappings) : null),
+    [fromVersion, toVersion]
+  );
+
+  // Rolling back restores the older side of the comparison, and only ever a version older than the
+  // active one: newer inactive versions still need an approved activation.
+  const rollbackTarget = fromVersion && toVersion && fromVersion.version < toVersion.version ? fromVersion : toVersion;
+  const isRollbackAllowed = Boolean(rollbackTarget?.id && activeVersion && rollbackTarget.version < activeVersion.version);
+  const canRollBack = canActivate && isRollbackAllowed && reason.trim().length > 0 && !isRollingBack;
+
+  const handleRollback = async () => {
+    if (!rollbackTarget?.id) return;
+    setIsRollingBack(true);
+    const restoredId = await rollbackTemplateVersion(rollbackTarget.id, reason.trim());
+    setIsRollingBack(false);
+    if (!restoredId) {
+      toast({ title: 'Rollback failed', description: 'No version was changed.', variant: 'destructive' });
+      return;
+    }
+    toast({
+      title: `Rolled back to v${rollbackTarget.version}`,
+      description: 'Its mappings are restored as the new active version.',
+    });
+    setReason('');
+    onRolledBack();
+    onOpenChange(false);
+  };
+
+  const versionLabel = (version: MappingTemplate) =>
+    `v${version.version}${version.isActive ? ' (active)' : ''}${
+      version.createdAt ? ` - ${format(new Date(version.createdAt), 'MMM d, yyyy HH:mm')}` : ''
+    }`;
+
+  return (
+    <Dialog open={Boolean(template)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History: {templateName}
+          </DialogTitle>
+          <DialogDescription>Compare any two versions field by field and roll back to an earlier one.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">Loading versions...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-3">
+              <Select value={fromId} onValueChange={setFromId}>
+                <SelectTrigger className="flex-1" aria-label="Compare from version">
+                  <SelectValue placeholder="From version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id!}>{versionLabel(version)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ArrowRight className="h-4 w-4 text-muted-foreground" />
+              <Select value={toId} onValueChange={setToId}>
+                <SelectTrigger className="flex-1" aria-label="Compare to version">
+                  <SelectValue placeholder="To version" />
+                </SelectTrigger>
+                <SelectContent>
+                  {versions.map((version) => (
+                    <SelectItem key={version.id} value={version.id!}>{versionLabel(version)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {diff && (
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <Badge variant="outline" className={CHANGE_BADGES.added}>{diff.added.length} added</Badge>
+                <Badge variant="outline" className={CHANGE_BADGES.removed}>{diff.removed.length} removed</Badge>
+                <Badge variant="outline" className={CHANGE_BADGES.changed}>{diff.changed.length} changed</Badge>
+              </div>
+            )}
+
+            <ScrollArea className="h-64 rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Field</TableHead>
+                    <TableHead>Change</TableHead>
+                    <TableHead>v{fromVersion?.version ?? '-'}</TableHead>
+                    <TableHead>v{toVersion?.version ?? '-'}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!diff || diff.changes.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="py-6 text-center text-muted-foreground">
+                        {versions.length < 2 ? 'Only one version exists' : 'No mapping differences'}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    diff.changes.map((change) => (
+                      <TableRow key={`${change.kind}-${change.fieldId}`}>
+                        <TableCell className="font-mono text-xs">{change.fieldId}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className={CHANGE_BADGES[change.kind]}>{change.kind}</Badge>
+                          {change.changedAttributes.length > 0 && (
+                            <div className="mt-1 text-xs text-muted-foreground">
+                              {change.changedAttributes.map((attribute) => ATTRIBUTE_LABELS[attribute]).join(', ')}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>{describeMapping(change.before, change.changedAttributes)}</TableCell>
+                        <TableCell>{describeMapping(change.after, change.changedAttributes)}</TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+
+            {coverageDelta && (coverageDelta.gained.length > 0 || coverageDelta.lost.length > 0) && (
+              <div className="space-y-2 rounded-lg border p-3">
+                <p className="text-sm font-medium">DR coverage changes</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {coverageDelta.gained.map(({ field, mandatory }) => (
+                    <Badge key={`gained-${field.dr_id}`} variant="outline" className={CHANGE_BADGES.added}>
+                      + {field.dr_id} {field.business_term}{mandatory ? ' (mandatory)' : ''}
+                    </Badge>
+                  ))}
+                  {coverageDelta.lost.map(({ field, mandatory }) => (
+                    <Badge key={`lost-${field.dr_id}`} variant="outline" className={CHANGE_BADGES.removed}>
+                      - {field.dr_id} {field.business_term}{mandatory ? ' (mandatory)' : ''}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {rollbackTarget && isRollbackAllowed && (
+              <div className="space-y-3 rounded-lg border p-3">
+                <p className="text-sm font-medium">Roll back to v{rollbackTarget.version}</p>
+                <div className="space-y-1">
+                  <Label htmlFor="rollback-reason">Reason</Label>
+                  <Textarea
+                    id="rollback-reason"
+                    value={reason}
+                    onChange={(event) => setReason(event.target.value)}
+                    placeholder="Why is this version being restored?"
+                    rows={2}
+                  />
+                  <p className="text-xs text-muted-foreground">The rollback is recorded under your signed-in account.</p>
+                </div>
+                <div className="flex justify-end">
+                  <Button
+                    onClick={handleRollback}
+                    disabled={!canRollBack}
+                    title={canActivate ? undefined : requiredRoleMessage('template.activate')}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    {isRollingBack ? 'Rolling back...' : `Roll back to v${rollbackTarget.version}`}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {rollbacks.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Rollback log</p>
+                <ul className="space-y-1 text-xs text-muted-foreground">
+                  {rollbacks.map((rollback) => (
+                    <li key={rollback.id}>
+                      {format(new Date(rollback.performedAt), 'MMM d, yyyy HH:mm')} - {rollback.performedBy} rolled back v
+                      {rollback.fromVersion} to v{rollback.toVersion}: {rollback.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,328 @@
+import { useMemo } from 'react';
+import { ArrowDown, ArrowUp, Check, Trash2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { FieldMapping, Transformation, TransformationType } from '@/types/fieldMapping';
+import { TRANSFORMATION_TYPES, createTransformation, previewTransformations } from '@/lib/mapping/transformationEngine';
+
+const TRANSFORMATION_LABELS = new Map(TRANSFORMATION_TYPES.map((type) => [type.value, type.label]));
+
+const ALWAYS = '__always__';
+const DATE_FORMATS = ['DD/MM/YYYY', 'DD-MM-YYYY', 'MM/DD/YYYY', 'MM-DD-YYYY', 'YYYY-MM-DD'];
+const CODELISTS = [
+  { value: 'Aligned-TaxCategoryCodes', label: 'Tax category (Aligned-TaxCategoryCodes)' },
+  { value: 'UNECERec20', label: 'Unit of measure (UN/ECE Rec 20)' },
+];
+const CONDITION_OPERATORS = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'in', label: 'is one of' },
+  { value: 'is_empty', label: 'is empty' },
+  { value: 'is_not_empty', label: 'is not empty' },
+];
+
+// Mapping tables are edited as one "FROM=TO" pair per line.
+function formatMappingTable(mappings: Record<string, string> | undefined): string {
+  return Object.entries(mappings ?? {})
+    .map(([from, to]) => `${from}=${to}`)
+    .join('\n');
+}
+
+function parseMappingTable(text: string): Record<string, string> {
+  const mappings: Record<string, string> = {};
+  text.split('\n').forEach((line) => {
+    const separator = line.indexOf('=');
+    if (separator <= 0) return;
+    mappings[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  });
+  return mappings;
+}
+
+const splitList = (text: string) =>
+  text
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+interface TransformationChainEditorProps {
+  mapping: FieldMapping;
+  columns: string[];
+  sampleRows: Record<string, string>[];
+  onChange: (transformations: Transformation[]) => void;
+}
+
+export function TransformationChainEditor({ mapping, columns, sampleRows, onChange }: TransformationChainEditorProps) {
+  const { transformations } = mapping;
+  const preview = useMemo(() => previewTransformations(mapping, sampleRows), [mapping, sampleRows]);
+
+  const updateConfig = (index: number, patch: Record<string, any>) =>
+    onChange(
+      transformations.map((transformation, position) =>
+        position === index ? { ...transformation, config: { ...transformation.config, ...patch } } : transformation
+      )
+    );
+
+  const move = (index: number, offset: number) => {
+    const next = [...transformations];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    onChange(next);
+  };
+
+  const columnSelect = (value: string | undefined, onValueChange: (value: string) => void, allowAlways = false) => (
+    <Select value={value || (allowAlways ? ALWAYS : undefined)} onValueChange={(next) => onValueChange(next === ALWAYS ? '' : next)}>
+      <SelectTrigger className="h-8 w-[180px] text-xs">
+        <SelectValue placeholder="Column..." />
+      </SelectTrigger>
+      <SelectContent>
+        {allowAlways && <SelectItem value={ALWAYS}>Always</SelectItem>}
+        {columns.map((column) => (
+          <SelectItem key={column} value={column}>{column}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderConfig = ({ type, config }: Transformation, index: number) => {
+    const update = (patch: Record<string, any>) => updateConfig(index, patch);
+    const text = (key: string, placeholder: string, className = 'w-[140px]') => (
+      <Input
+        value={config[key] ?? ''}
+        onChange={(event) => update({ [key]: event.target.value })}
+        placeholder={placeholder}
+        className={`h-8 text-xs ${className}`}
+      />
+    );
+    const mappingTable = (placeholder: string) => (
+      <Textarea
+        defaultValue={formatMappingTable(config.mappings)}
+        onBlur={(event) => update({ mappings: parseMappingTable(event.target.value) })}
+        placeholder={placeholder}
+        rows={3}
+        className="w-[260px] font-mono text-xs"
+      />
+    );
+
+    switch (type) {
+      case 'date_parse':
+        return (
+          <Select value={config.inputFormat || 'auto'} onValueChange={(value) => update({ inputFormat: value === 'auto' ? undefined : value })}>
+            <SelectTrigger className="h-8 w-[160px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Auto-detect</SelectItem>
+              {DATE_FORMATS.map((format) => (
+                <SelectItem key={format} value={format}>{format}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'static_value':
+      case 'default_value':
+        return text('value', 'Value');
+      case 'combine':
+        return (
+          <>
+            <Input
+              value={(config.columns ?? []).join(', ')}
+              onChange={(event) => update({ columns: splitList(event.target.value) })}
+              placeholder="Columns, comma separated"
+              className="h-8 w-[220px] text-xs"
+            />
+            {text('separator', 'Separator', 'w-[80px]')}
+          </>
+        );
+      case 'split':
+        return (
+          <>
+            {text('separator', 'Separator', 'w-[80px]')}
+            <Input
+              type="number"
+              value={config.index ?? 0}
+              onChange={(event) => update({ index: Number(event.target.value) })}
+              className="h-8 w-[80px] text-xs"
+              aria-label="Part index"
+            />
+          </>
+        );
+      case 'regex_extract':
+        return text('pattern', 'Pattern', 'w-[200px] font-mono');
+      case 'arithmetic':
+        return (
+          <>
+            <Select value={config.operation || 'multiply'} onValueChange={(value) => update({ operation: value })}>
+              <SelectTrigger className="h-8 w-[120px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="multiply">Multiply by</SelectItem>
+                <SelectItem value="divide">Divide by</SelectItem>
+                <SelectItem value="add">Add</SelectItem>
+                <SelectItem value="subtract">Subtract</SelectItem>
+              </SelectContent>
+            </Select>
+            {text('operand', 'Operand', 'w-[100px]')}
+            {text('decimals', 'Decimals', 'w-[90px]')}
+          </>
+        );
+      case 'sign_flip':
+        return (
+          <>
+            {columnSelect(config.column, (column) => update({ column }), true)}
+            {config.column && (
+              <Input
+                value={(config.values ?? []).join(', ')}
+                onChange={(event) => update({ values: splitList(event.target.value) })}
+                placeholder="When value is one of"
+                className="h-8 w-[160px] text-xs"
+              />
+            )}
+            {text('decimals', 'Decimals', 'w-[90px]')}
+          </>
+        );
+      case 'conditional':
+        return (
+          <>
+            <span className="text-xs text-muted-foreground">If</span>
+            {columnSelect(config.column, (column) => update({ column }))}
+            <Select value={config.operator || 'equals'} onValueChange={(value) => update({ operator: value })}>
+              <SelectTrigger className="h-8 w-[130px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONDITION_OPERATORS.map((operator) => (
+                  <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {config.operator !== 'is_empty' && config.operator !== 'is_not_empty' && text('value', 'Value', 'w-[100px]')}
+            <span className="text-xs text-muted-foreground">then</span>
+            {text('thenValue', 'Value or {Column}')}
+            <span className="text-xs text-muted-foreground">else</span>
+            {text('elseValue', 'Keep value')}
+          </>
+        );
+      case 'lookup':
+      case 'currency_code':
+        return mappingTable(type === 'lookup' ? 'ERP=PINT' : 'DHS=AED');
+      case 'codelist_map':
+        return (
+          <>
+            <Select value={config.codelist} onValueChange={(value) => update({ codelist: value })}>
+              <SelectTrigger className="h-8 w-[240px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CODELISTS.map((codelist) => (
+                  <SelectItem key={codelist.value} value={codelist.value}>{codelist.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {mappingTable('ERP code=PINT code')}
+          </>
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="space-y-3" data-testid="transformation-chain-editor">
+      {transformations.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No transformations. Values are used as-is.</p>
+      ) : (
+        <ol className="space-y-2">
+          {transformations.map((transformation, index) => (
+            <li key={index} className="flex flex-wrap items-center gap-2 rounded-lg border bg-background/40 p-2">
+              <Badge variant="secondary" className="shrink-0">
+                {index + 1}. {TRANSFORMATION_LABELS.get(transformation.type) ?? transformation.type}
+              </Badge>
+              {renderConfig(transformation, index)}
+              <div className="ml-auto flex items-center gap-1">
+                <Button size="sm" variant="ghost" className="h-7 w-7 px-0" disabled={index === 0} onClick={() => move(index, -1)} aria-label="Move up">
+                  <ArrowUp className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 px-0"
+                  disabled={index === transformations.length - 1}
+                  onClick={() => move(index, 1)}
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 px-0"
+                  onClick={() => onChange(transformations.filter((_, position) => position !== index))}
+                  aria-label="Remove step"
+                >
+                  <Trash2 className="h-3.5 w-3.5 text-red-600" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <Select value="" onValueChange={(type) => onChange([...transformations, createTransformation(type as TransformationType)])}>
+        <SelectTrigger className="h-8 w-[220px] text-xs">
+          <SelectValue placeholder="Add transformation step..." />
+        </SelectTrigger>
+        <SelectContent>
+          {TRANSFORMATION_TYPES.map((type) => (
+            <SelectItem key={type.value} value={type.value}>
+              <div>
+                <div className="text-sm">{type.label}</div>
+                <div className="text-xs text-muted-foreground">{type.description}</div>
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {sampleRows.length > 0 && (
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-8 text-xs">Sample</TableHead>
+                <TableHead className="h-8 text-xs">Result</TableHead>
+                <TableHead className="h-8 text-xs">{mapping.targetField.name}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {preview.map((result, index) => (
+                <TableRow key={index}>
+                  <TableCell className="py-1.5 font-mono text-xs">{result.originalValue || '-'}</TableCell>
+                  <TableCell className="py-1.5 font-mono text-xs">{result.transformedValue || '-'}</TableCell>
+                  <TableCell className="py-1.5 text-xs">
+                    {result.success ? (
+                      <span className="flex items-center gap-1 text-green-600">
+                        <Check className="h-3 w-3" />
+                        Valid
+                      </span>
+                    ) : (
+                      <span className="flex items-center gap-1 text-destructive">
+                        <X className="h-3 w-3" />
+                        {result.error}
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
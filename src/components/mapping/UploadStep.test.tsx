@@ -1,8 +1,9 @@
-import { fireEvent, render, screen } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { describe, expect, it, vi } from 'vitest';
 
 import { UploadStep } from '@/components/mapping/UploadStep';
 import type { ERPPreviewData } from '@/types/fieldMapping';
+import { PINT_AE_UBL_INVOICE_FIXTURE } from '@/lib/pintAE/fixtures';
 
 const previewData: ERPPreviewData = {
   fileName: 'invoice_headers_template_negative.csv',
@@ -57,4 +58,21 @@ describe('UploadStep', () => {
       })
     );
   });
+
+  it('previews a UBL invoice as a combined export of canonical columns', async () => {
+    const onDataLoaded = vi.fn();
+    const file = {
+      name: 'INV-1001.xml',
+      size: PINT_AE_UBL_INVOICE_FIXTURE.length,
+      text: async () => PINT_AE_UBL_INVOICE_FIXTURE,
+    } as unknown as File;
+
+    const { container } = render(<UploadStep previewData={null} onDataLoaded={onDataLoaded} />);
+    fireEvent.change(container.querySelector('#erp-file-input')!, { target: { files: [file] } });
+
+    await waitFor(() => expect(onDataLoaded).toHaveBeenCalledTimes(1));
+    const preview = onDataLoaded.mock.calls[0][0] as ERPPreviewData;
+    expect(preview).toMatchObject({ fileName: 'INV-1001.xml', datasetType: 'combined', totalRows: 2 });
+    expect(preview.columns).toEqual(expect.arrayContaining(['invoice_number', 'buyer_trn', 'line_total_excl_vat']));
+  });
 });
@@ -7,8 +7,12 @@ import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { ERPPreviewData, DatasetType, DetectedColumn } from '@/types/fieldMapping';
+import { ERPPreviewData, DatasetType } from '@/types/fieldMapping';
+import { profileColumns } from '@/lib/columnProfiling';
 import { parseCSV } from '@/lib/csvParser';
+import { parseCSVFile } from '@/lib/csvStream';
+import { flattenUblDocuments, isUblUploadFile, parseUblFiles } from '@/lib/ublParser';
+import { getWorkbookSheet, isSpreadsheetUploadFile, ParsedWorkbook, parseSpreadsheetFile, WorkbookDataset } from '@/lib/xlsxParser';
 import { downloadSampleCSV, getSampleData } from '@/lib/sampleData';
 import { Direction } from '@/types/direction';
 
@@ -28,6 +32,12 @@ const DATASET_TYPES: { value: DatasetType; label: string; description: string }[
 
 type BuiltInTemplateType = 'buyers' | 'headers' | 'lines';
 
+const WORKBOOK_DATASET_TYPES: Record<WorkbookDataset, DatasetType> = {
+  buyers: 'parties',
+  headers: 'header',
+  lines: 'lines',
+};
+
 type BuiltInTemplateOption = {
   sampleType: BuiltInTemplateType;
   title: string;
@@ -82,31 +92,6 @@ const BUILT_IN_TEMPLATE_OPTIONS: Record<DatasetType, BuiltInTemplateOption[]> =
   ],
 };
 
-function detectColumnType(values: string[]): 'string' | 'number' | 'date' | 'boolean' | 'unknown' {
-  const nonEmpty = values.filter(v => v && v.trim() !== '');
-  if (nonEmpty.length === 0) return 'unknown';
-
-  // Check for date patterns
-  const datePatterns = [
-    /^\d{4}-\d{2}-\d{2}$/, // YYYY-MM-DD
-    /^\d{2}\/\d{2}\/\d{4}$/, // DD/MM/YYYY
-    /^\d{2}-\d{2}-\d{4}$/, // DD-MM-YYYY
-  ];
-  const dateMatches = nonEmpty.filter(v => datePatterns.some(p => p.test(v)));
-  if (dateMatches.length / nonEmpty.length > 0.8) return 'date';
-
-  // Check for numbers
-  const numberMatches = nonEmpty.filter(v => !isNaN(Number(v.replace(/,/g, ''))));
-  if (numberMatches.length / nonEmpty.length > 0.8) return 'number';
-
-  // Check for booleans
-  const boolValues = ['true', 'false', 'yes', 'no', '1', '0', 'y', 'n'];
-  const boolMatches = nonEmpty.filter(v => boolValues.includes(v.toLowerCase()));
-  if (boolMatches.length / nonEmpty.length > 0.8) return 'boolean';
-
-  return 'string';
-}
-
 function getTypeIcon(type: string) {
   switch (type) {
     case 'number': return <Hash className="h-3 w-3" />;
@@ -116,33 +101,17 @@ function getTypeIcon(type: string) {
   }
 }
 
-function buildPreviewData(fileName: string, text: string, datasetType: DatasetType): ERPPreviewData {
-  const rows = parseCSV(text);
-
+function buildPreviewData(fileName: string, rows: Record<string, string>[], datasetType: DatasetType): ERPPreviewData {
   if (rows.length === 0) {
     throw new Error('File appears to be empty or invalid');
   }
 
   const columns = Object.keys(rows[0]);
-  const detectedColumns: DetectedColumn[] = columns.map((col, index) => {
-    const values = rows.slice(0, 100).map((r) => r[col] || '');
-    const nonEmpty = values.filter((v) => v && v.trim() !== '');
-    const uniqueValues = new Set(nonEmpty);
-
-    return {
-      name: col,
-      index,
-      detectedType: detectColumnType(values),
-      sampleValues: values.slice(0, 5),
-      nullCount: values.length - nonEmpty.length,
-      uniqueCount: uniqueValues.size,
-    };
-  });
 
   return {
     fileName,
     columns,
-    detectedColumns,
+    detectedColumns: profileColumns(rows, columns),
     rows: rows.slice(0, 100),
     totalRows: rows.length,
     datasetType,
@@ -154,22 +123,64 @@ export function UploadStep({ onDataLoaded, previewData, onReset, direction = 'AR
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [selectedDatasetType, setSelectedDatasetType] = useState<DatasetType>('combined');
+  const [workbook, setWorkbook] = useState<ParsedWorkbook | null>(null);
+  const [selectedSheet, setSelectedSheet] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
 
+  const loadWorkbookSheet = useCallback((parsed: ParsedWorkbook, sheetName?: string) => {
+    const sheet = getWorkbookSheet(parsed, sheetName);
+    const datasetType = sheet.suggestedDataset ? WORKBOOK_DATASET_TYPES[sheet.suggestedDataset] : selectedDatasetType;
+    onDataLoaded(buildPreviewData(`${parsed.fileName} [${sheet.name}]`, sheet.records, datasetType));
+    setSelectedDatasetType(datasetType);
+    setSelectedSheet(sheet.name);
+  }, [onDataLoaded, selectedDatasetType]);
+
   const processFile = useCallback(async (file: File) => {
     setIsLoading(true);
     setError(null);
+    setWorkbook(null);
+    setSelectedSheet(null);
 
     try {
-      const text = await file.text();
-      onDataLoaded(buildPreviewData(file.name, text, selectedDatasetType));
+      if (isSpreadsheetUploadFile(file.name)) {
+        const parsed = await parseSpreadsheetFile(file);
+        // Prefer a sheet recognised as the selected dataset type, then any recognised sheet.
+        const preferred =
+          parsed.sheets.find((sheet) => sheet.suggestedDataset && WORKBOOK_DATASET_TYPES[sheet.suggestedDataset] === selectedDatasetType) ??
+          parsed.sheets.find((sheet) => sheet.suggestedDataset);
+        setWorkbook(parsed);
+        loadWorkbookSheet(parsed, preferred?.name);
+        return;
+      }
+      if (isUblUploadFile(file.name)) {
+        // UBL documents carry headers and lines together, so they always preview as a combined export.
+        const result = await parseUblFiles([file], { direction });
+        if (result.documents.length === 0) {
+          throw new Error(result.rejectedFiles[0]?.reason || 'No UBL Invoice or CreditNote documents found');
+        }
+        onDataLoaded(buildPreviewData(file.name, flattenUblDocuments(result.documents), 'combined'));
+        setSelectedDatasetType('combined');
+        return;
+      }
+      const { records } = await parseCSVFile(file);
+      onDataLoaded(buildPreviewData(file.name, records, selectedDatasetType));
     } catch (err) {
       console.error('Error parsing file:', err);
-      setError(err instanceof Error ? err.message : 'Failed to parse file. Please ensure it is a valid CSV.');
+      setError(err instanceof Error ? err.message : 'Failed to parse file. Please ensure it is a valid CSV, Excel or UBL XML file.');
     } finally {
       setIsLoading(false);
     }
-  }, [onDataLoaded, selectedDatasetType]);
+  }, [direction, loadWorkbookSheet, onDataLoaded, selectedDatasetType]);
+
+  const handleSheetSelect = useCallback((sheetName: string) => {
+    if (!workbook) return;
+    setError(null);
+    try {
+      loadWorkbookSheet(workbook, sheetName);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to read sheet "${sheetName}".`);
+    }
+  }, [loadWorkbookSheet, workbook]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -209,8 +220,10 @@ export function UploadStep({ onDataLoaded, previewData, onReset, direction = 'AR
 
     try {
       const sample = getSampleData(sampleType, 'positive', direction);
-      onDataLoaded(buildPreviewData(sample.filename, sample.content, datasetType));
+      onDataLoaded(buildPreviewData(sample.filename, parseCSV(sample.content), datasetType));
       setSelectedDatasetType(datasetType);
+      setWorkbook(null);
+      setSelectedSheet(null);
     } catch (err) {
       console.error('Error loading built-in template:', err);
       setError(err instanceof Error ? err.message : 'Failed to load built-in template.');
@@ -322,7 +335,7 @@ export function UploadStep({ onDataLoaded, previewData, onReset, direction = 'AR
                 Upload ERP Extract
               </CardTitle>
               <CardDescription>
-                Upload a sample CSV file from your ERP system. We'll analyze the columns and suggest mappings to PINT-AE fields.
+                Upload a sample CSV or Excel file, or PINT-AE UBL XML, from your ERP system. We'll analyze the columns and suggest mappings to PINT-AE fields.
               </CardDescription>
             </div>
             {previewData && (
@@ -347,11 +360,11 @@ export function UploadStep({ onDataLoaded, previewData, onReset, direction = 'AR
               {isDragging ? 'Drop your file here' : 'Drag and drop your ERP extract'}
             </p>
             <p className="text-sm text-muted-foreground mb-4">
-              Supports CSV files. Maximum 10MB.
+              Supports CSV, Excel (XLSX / XLS), UBL 2.1 XML (Invoice / CreditNote) or a zip of XML files. Maximum 10MB.
             </p>
             <input
               type="file"
-              accept=".csv,.txt"
+              accept=".csv,.txt,.xlsx,.xlsm,.xls,.xml,.zip"
               className="hidden"
               id="erp-file-input"
               ref={fileInputRef}
@@ -364,6 +377,37 @@ export function UploadStep({ onDataLoaded, previewData, onReset, direction = 'AR
             </Button>
           </div>
 
+          {workbook && workbook.sheets.length > 1 && (
+            <div className="mt-4 space-y-2">
+              <p className="text-sm font-medium">Worksheets in {workbook.fileName}</p>
+              <div className="grid gap-2 md:grid-cols-2">
+                {workbook.sheets.map((sheet) => (
+                  <button
+                    key={sheet.name}
+                    type="button"
+                    onClick={() => handleSheetSelect(sheet.name)}
+                    disabled={sheet.records.length === 0}
+                    className={`rounded-lg border p-3 text-left transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                      selectedSheet === sheet.name ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium text-sm truncate">{sheet.name}</span>
+                      {sheet.suggestedDataset && (
+                        <Badge variant="secondary" className="text-xs">
+                          {DATASET_TYPES.find((type) => type.value === WORKBOOK_DATASET_TYPES[sheet.suggestedDataset!])?.label}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {sheet.records.length} rows • {sheet.headers.length} columns
+                    </p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {error && (
             <div className="mt-4 p-4 bg-destructive/10 border border-destructive/20 rounded-lg flex items-center gap-2 text-destructive">
               <AlertCircle className="h-5 w-5" />
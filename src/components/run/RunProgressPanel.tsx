@@ -0,0 +1,50 @@
+import { Square } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { PipelineProgress, type PipelineStep } from '@/components/dashboard/PipelineProgress';
+import type { RunChecksProgress, RunChecksStage } from '@/engine/orchestrator';
+
+type RunProgressPanelProps = {
+  progress: RunChecksProgress | null;
+  onCancel: () => void;
+};
+
+const STAGES: { id: RunChecksStage; label: string }[] = [
+  { id: 'core', label: 'Core Checks' },
+  { id: 'pint_ae', label: 'PINT-AE Checks' },
+  { id: 'org_profile', label: 'Org Profile' },
+  { id: 'finalize', label: 'Findings' },
+];
+
+function buildRunPipelineSteps(progress: RunChecksProgress | null): PipelineStep[] {
+  const activeIndex = progress ? STAGES.findIndex((stage) => stage.id === progress.stage) : -1;
+  return STAGES.map((stage, index) => {
+    if (index < activeIndex) return { ...stage, state: 'complete' };
+    if (index > activeIndex || !progress) return { ...stage, state: 'pending' };
+    return {
+      ...stage,
+      state: 'active',
+      detail: progress.totalChecks > 1 ? `${progress.completedChecks}/${progress.totalChecks}` : undefined,
+    };
+  });
+}
+
+export function RunProgressPanel({ progress, onCancel }: RunProgressPanelProps) {
+  const stagePercent = progress && progress.totalChecks > 0 ? (progress.completedChecks / progress.totalChecks) * 100 : 0;
+
+  return (
+    <div className="space-y-3" data-testid="run-progress-panel">
+      <PipelineProgress steps={buildRunPipelineSteps(progress)} />
+      <div className="flex items-center gap-3">
+        <Progress value={stagePercent} className="h-2 flex-1" aria-label="Current stage progress" />
+        <Button type="button" variant="outline" size="sm" onClick={onCancel} className="gap-2">
+          <Square className="w-3.5 h-3.5" />
+          Cancel Run
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground text-center">
+        {progress?.checkId ? `Last completed: ${progress.checkId}` : 'Preparing check pack...'} Cancelling keeps the uploaded data.
+      </p>
+    </div>
+  );
+}
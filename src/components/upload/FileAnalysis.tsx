@@ -1,14 +1,19 @@
 import { useRef, useState } from 'react';
-import { FileText, Check, X, AlertTriangle, ChevronDown, ChevronUp, Key, Download } from 'lucide-react';
+import { FileText, Check, X, AlertTriangle, ChevronDown, ChevronUp, Key, Download, Sheet } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
 import { normalizeCSVText } from '@/lib/csvParser';
+import { profileColumns } from '@/lib/columnProfiling';
+import { CSV_DELIMITER_LABELS, CSVParseResult, CSVRejectedRow } from '@/lib/csvStream';
 import { downloadSampleCSV, getSampleData, SampleScenario } from '@/lib/sampleData';
 import { getMandatoryColumnsForDataset } from '@/lib/registry/drRegistry';
+import { ParsedWorkbook, WorkbookSheet } from '@/lib/xlsxParser';
 import { Direction } from '@/types/direction';
+import { DetectedColumn } from '@/types/fieldMapping';
 
 // Expected customer-provided columns, derived from the downloadable sample templates.
 function getManifestColumns(type: 'buyers' | 'headers' | 'lines', direction: Direction): string[] {
@@ -78,18 +83,27 @@ export interface FileStats {
   requiredPresent: string[];
   requiredMissing: string[];
   nullWarnings: { column: string; nullRate: number }[];
+  rejectedRows: CSVRejectedRow[];
+  detectedColumns: DetectedColumn[];
+  /** Set for Excel uploads: the sheet read and every sheet in the workbook. */
+  sheetName?: string;
+  sheetNames?: string[];
 }
 
+const MAX_LISTED_REJECTED_ROWS = 5;
+
 export function analyzeFile(
   rows: Record<string, string>[],
   file: File,
   type: 'buyers' | 'headers' | 'lines',
   direction: Direction = 'AR',
-  rawText?: string
+  rawText?: string,
+  parsed?: Pick<CSVParseResult, 'headers' | 'delimiter' | 'encoding' | 'rejectedRows'>
 ): FileStats {
   const normalizedRawText = rawText ? normalizeCSVText(rawText) : '';
-  const headerColumns =
-    normalizedRawText
+  const headerColumns = parsed
+    ? parsed.headers.filter(Boolean)
+    : normalizedRawText
       ? parseHeaderColumns(normalizedRawText.split('\n')[0] ?? '')
       : [];
   const columns = rows.length > 0 ? Object.keys(rows[0]) : headerColumns;
@@ -98,8 +112,8 @@ export function analyzeFile(
   const requiredMissing = required.filter((c) => !columns.includes(c));
 
   // Detect delimiter from raw text
-  let detectedDelimiter = 'comma';
-  if (normalizedRawText) {
+  let detectedDelimiter = parsed ? CSV_DELIMITER_LABELS[parsed.delimiter] : 'comma';
+  if (!parsed && normalizedRawText) {
     const firstLine = normalizedRawText.split('\n')[0] || '';
     const commas = (firstLine.match(/,/g) || []).length;
     const tabs = (firstLine.match(/\t/g) || []).length;
@@ -134,11 +148,47 @@ export function analyzeFile(
     columns,
     inferredPK,
     detectedDelimiter,
-    detectedEncoding: 'UTF-8',
+    detectedEncoding: parsed ? parsed.encoding.toUpperCase() : 'UTF-8',
     previewRows: rows.slice(0, 5),
     requiredPresent,
     requiredMissing,
     nullWarnings,
+    rejectedRows: parsed?.rejectedRows ?? [],
+    detectedColumns: profileColumns(rows, columns),
+  };
+}
+
+/**
+ * Counts required columns as present when a mapping template fills them from other source
+ * columns. Mapped buyer fields also cover the supplier columns required for AP parties.
+ */
+export function applyTemplateColumns(stats: FileStats, mappedFields: string[]): FileStats {
+  const mapped = new Set(mappedFields.flatMap((field) => [field, field.replace(/^buyer_/, 'supplier_')]));
+  const satisfied = stats.requiredMissing.filter((column) => mapped.has(column));
+  if (satisfied.length === 0) return stats;
+  return {
+    ...stats,
+    requiredPresent: [...stats.requiredPresent, ...satisfied],
+    requiredMissing: stats.requiredMissing.filter((column) => !mapped.has(column)),
+  };
+}
+
+export function analyzeWorkbookSheet(
+  workbook: ParsedWorkbook,
+  sheet: WorkbookSheet,
+  file: File,
+  type: 'buyers' | 'headers' | 'lines',
+  direction: Direction = 'AR'
+): FileStats {
+  return {
+    ...analyzeFile(sheet.records, file, type, direction, undefined, {
+      headers: sheet.headers,
+      delimiter: ',',
+      encoding: 'xlsx',
+      rejectedRows: [],
+    }),
+    sheetName: sheet.name,
+    sheetNames: workbook.sheets.map((candidate) => candidate.name),
   };
 }
 
@@ -147,12 +197,12 @@ interface FileSummaryCardProps {
   type: 'buyers' | 'headers' | 'lines';
   direction?: Direction;
   onRemove: () => void;
+  onSheetChange?: (sheetName: string) => void;
 }
 
-export function FileSummaryCard({ stats, type, direction = 'AR', onRemove }: FileSummaryCardProps) {
+export function FileSummaryCard({ stats, type, direction = 'AR', onRemove, onSheetChange }: FileSummaryCardProps) {
   const [previewOpen, setPreviewOpen] = useState(false);
-  const hasIssues = stats.requiredMissing.length > 0 || stats.nullWarnings.length > 0;
-  const hasDelimiterMismatch = stats.detectedDelimiter !== 'comma';
+  const hasIssues = stats.requiredMissing.length > 0 || stats.nullWarnings.length > 0 || stats.rejectedRows.length > 0;
 
   return (
     <div className={cn(
@@ -185,6 +235,25 @@ export function FileSummaryCard({ stats, type, direction = 'AR', onRemove }: Fil
         </button>
       </div>
 
+      {stats.sheetNames && stats.sheetNames.length > 1 && onSheetChange && (
+        <div className="flex items-center gap-2">
+          <Sheet className="w-4 h-4 text-muted-foreground" />
+          <p className="text-xs text-muted-foreground">Worksheet</p>
+          <Select value={stats.sheetName} onValueChange={onSheetChange}>
+            <SelectTrigger className="h-8 w-56 text-xs" aria-label={`${type} worksheet`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {stats.sheetNames.map((name) => (
+                <SelectItem key={name} value={name} className="text-xs">
+                  {name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
       {/* Metrics */}
       <div className="grid grid-cols-3 sm:grid-cols-6 gap-3">
         <div className="text-center">
@@ -196,8 +265,17 @@ export function FileSummaryCard({ stats, type, direction = 'AR', onRemove }: Fil
           <p className="text-xs text-muted-foreground">Columns</p>
         </div>
         <div className="text-center">
-          <p className="text-sm font-semibold text-foreground capitalize">{stats.detectedDelimiter}</p>
-          <p className="text-xs text-muted-foreground">Delimiter</p>
+          {stats.sheetName ? (
+            <>
+              <p className="text-sm font-semibold text-foreground truncate" title={stats.sheetName}>{stats.sheetName}</p>
+              <p className="text-xs text-muted-foreground">Sheet</p>
+            </>
+          ) : (
+            <>
+              <p className="text-sm font-semibold text-foreground capitalize">{stats.detectedDelimiter}</p>
+              <p className="text-xs text-muted-foreground">Delimiter</p>
+            </>
+          )}
         </div>
         <div className="text-center">
           <p className="text-sm font-semibold text-foreground">{stats.detectedEncoding}</p>
@@ -228,12 +306,6 @@ export function FileSummaryCard({ stats, type, direction = 'AR', onRemove }: Fil
       {/* Structural Validation - driven by template manifest */}
       <div className="space-y-2">
         <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Structural Validation</p>
-        {hasDelimiterMismatch && (
-          <p className="text-xs text-destructive flex items-center gap-1">
-            <AlertTriangle className="w-3 h-3" />
-            Delimiter looks like {stats.detectedDelimiter}. Ingestion parser expects comma-delimited CSV.
-          </p>
-        )}
         <div className="flex flex-wrap gap-1.5">
           {(() => {
             const manifestColsByDirection = getManifestColumns(type, direction);
@@ -266,6 +338,24 @@ export function FileSummaryCard({ stats, type, direction = 'AR', onRemove }: Fil
             ))}
           </div>
         )}
+        {stats.rejectedRows.length > 0 && (
+          <div className="space-y-1 mt-2">
+            <p className="text-xs text-destructive flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3" />
+              {stats.rejectedRows.length} row{stats.rejectedRows.length !== 1 ? 's' : ''} rejected and excluded from ingestion
+            </p>
+            {stats.rejectedRows.slice(0, MAX_LISTED_REJECTED_ROWS).map((row) => (
+              <p key={row.line} className="text-xs text-muted-foreground pl-4">
+                Line {row.line}: {row.reason}
+              </p>
+            ))}
+            {stats.rejectedRows.length > MAX_LISTED_REJECTED_ROWS && (
+              <p className="text-xs text-muted-foreground pl-4">
+                +{stats.rejectedRows.length - MAX_LISTED_REJECTED_ROWS} more in the upload audit log
+              </p>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Preview Rows */}
@@ -282,7 +372,12 @@ export function FileSummaryCard({ stats, type, direction = 'AR', onRemove }: Fil
               <TableHeader>
                 <TableRow>
                   {stats.columns.map((col) => (
-                    <TableHead key={col} className="text-xs whitespace-nowrap">{col}</TableHead>
+                    <TableHead key={col} className="text-xs whitespace-nowrap">
+                      {col}
+                      <span className="block text-[10px] font-normal text-muted-foreground">
+                        {stats.detectedColumns.find((column) => column.name === col)?.detectedType ?? 'unknown'}
+                      </span>
+                    </TableHead>
                   ))}
                 </TableRow>
               </TableHeader>
@@ -355,15 +450,16 @@ export function FileDropZone({ label, description, sampleType, sampleScenario =
         <input
           ref={fileInputRef}
           type="file"
-          accept=".csv"
+          accept=".csv,.txt,.tsv,.xlsx,.xlsm,.xls"
           onChange={(e) => { const f = e.target.files?.[0]; if (f) onFileSelect(f); }}
           className="hidden"
           aria-label={`${label} CSV upload`}
         />
         <div className="flex flex-col items-center text-center">
           <FileText className="w-8 h-8 text-muted-foreground mb-2" />
-          <p className="text-sm font-medium text-foreground">Drop CSV here</p>
-          <p className="text-xs text-muted-foreground mt-1">CSV only. Use comma-delimited files for ingestion.</p>
+          <p className="text-sm font-medium text-foreground">Drop CSV or Excel here</p>
+          <p className="text-xs text-muted-foreground mt-1">Comma, semicolon, tab or pipe delimited. UTF-8, UTF-16 or Windows-1256.</p>
+          <p className="text-xs text-muted-foreground">Excel workbooks fill every slot whose sheet is recognised.</p>
           <Button
             type="button"
             variant="outline"
@@ -371,7 +467,7 @@ export function FileDropZone({ label, description, sampleType, sampleScenario =
             className="mt-3"
             onClick={() => fileInputRef.current?.click()}
           >
-            Browse CSV
+            Browse Files
           </Button>
         </div>
       </div>
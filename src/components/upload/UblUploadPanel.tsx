@@ -0,0 +1,145 @@
+import { useRef, useState } from 'react';
+import { AlertTriangle, Check, FileCode2, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { UblIngestionResult } from '@/lib/ublParser';
+
+interface UblDropZoneProps {
+  onFilesSelect: (files: File[]) => void;
+}
+
+export function UblDropZone({ onFilesSelect }: UblDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <h3 className="font-medium text-foreground text-sm">UBL Invoice / Credit Note Files</h3>
+        <p className="text-xs text-muted-foreground">
+          PINT-AE UBL 2.1 XML documents, one per file, or a zip archive of many. Buyers, headers and lines are read from each document.
+        </p>
+      </div>
+      <div
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          const dropped = Array.from(e.dataTransfer.files);
+          if (dropped.length > 0) onFilesSelect(dropped);
+        }}
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={(e) => { e.preventDefault(); setIsDragging(false); }}
+        className={cn(
+          'relative border-2 border-dashed rounded-lg p-6 transition-all',
+          'hover:border-primary/50 hover:bg-primary/5',
+          isDragging ? 'border-primary bg-primary/10' : 'border-border'
+        )}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".xml,.zip"
+          multiple
+          onChange={(e) => {
+            const selected = Array.from(e.target.files ?? []);
+            if (selected.length > 0) onFilesSelect(selected);
+          }}
+          className="hidden"
+          aria-label="UBL XML upload"
+        />
+        <div className="flex flex-col items-center text-center">
+          <FileCode2 className="w-8 h-8 text-muted-foreground mb-2" />
+          <p className="text-sm font-medium text-foreground">Drop XML or ZIP files here</p>
+          <p className="text-xs text-muted-foreground mt-1">Invoice and CreditNote roots are supported.</p>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="mt-3"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Browse XML
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface UblSummaryCardProps {
+  files: File[];
+  result: UblIngestionResult;
+  onRemove: () => void;
+}
+
+export function UblSummaryCard({ files, result, onRemove }: UblSummaryCardProps) {
+  const hasIssues = result.rejectedFiles.length > 0 || result.documents.length === 0;
+  const creditNotes = result.documents.filter((document) => document.documentType === 'creditnote').length;
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+
+  return (
+    <div className={cn(
+      'rounded-lg border p-4 space-y-3 transition-colors overflow-hidden',
+      hasIssues ? 'border-accent/40 bg-accent/5' : 'border-[hsl(var(--success))]/40 bg-[hsl(var(--success))]/5'
+    )}>
+      <div className="flex items-start justify-between">
+        <div className="flex items-center gap-2">
+          <div className={cn(
+            'w-8 h-8 rounded-full flex items-center justify-center',
+            hasIssues ? 'bg-accent/20' : 'bg-[hsl(var(--success))]/10'
+          )}>
+            {hasIssues
+              ? <AlertTriangle className="w-4 h-4 text-accent-foreground" />
+              : <Check className="w-4 h-4 text-[hsl(var(--success))]" />}
+          </div>
+          <div>
+            <p className="font-medium text-foreground text-sm">{files.map((file) => file.name).join(', ')}</p>
+            <p className="text-xs text-muted-foreground">{(totalSize / 1024).toFixed(1)} KB</p>
+          </div>
+        </div>
+        <button
+          onClick={onRemove}
+          className="p-1 hover:bg-muted rounded"
+          aria-label="Remove UBL files"
+          title="Remove files"
+        >
+          <X className="w-4 h-4 text-muted-foreground" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div className="text-center">
+          <p className="text-lg font-semibold text-foreground">{result.documents.length - creditNotes}</p>
+          <p className="text-xs text-muted-foreground">Invoices</p>
+        </div>
+        <div className="text-center">
+          <p className="text-lg font-semibold text-foreground">{creditNotes}</p>
+          <p className="text-xs text-muted-foreground">Credit Notes</p>
+        </div>
+        <div className="text-center">
+          <p className="text-lg font-semibold text-foreground">{result.buyers.length}</p>
+          <p className="text-xs text-muted-foreground">Parties</p>
+        </div>
+        <div className="text-center">
+          <p className="text-lg font-semibold text-foreground">{result.lines.length}</p>
+          <p className="text-xs text-muted-foreground">Lines</p>
+        </div>
+      </div>
+
+      {result.rejectedFiles.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+            Rejected files <Badge variant="outline" className="ml-1 text-xs">{result.rejectedFiles.length}</Badge>
+          </p>
+          {result.rejectedFiles.map((rejected) => (
+            <p key={rejected.fileName} className="text-xs text-destructive flex items-start gap-1">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+              <span><span className="font-mono">{rejected.fileName}</span>: {rejected.reason}</span>
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
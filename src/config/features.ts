@@ -29,4 +29,5 @@ export const FEATURE_FLAGS = {
   ),
   mofMandatoryPreGateThreshold: readNumber(import.meta.env.VITE_MOF_MANDATORY_PRE_GATE_THRESHOLD, 100),
   mofMandatoryPreGateStrictNoBridge: readFlag(import.meta.env.VITE_ENABLE_MOF_STRICT_NO_BRIDGE_GATE, false),
+  notificationDeliveryStub: readFlag(import.meta.env.VITE_NOTIFICATIONS_STUB_DELIVERY, false),
 } as const;
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState, ReactNode } from 'react';
 import { 
   Buyer, 
   InvoiceHeader, 
@@ -25,9 +25,15 @@ import { getRulesetForDirection, RULESET_VERSION } from '@/lib/validation/rulese
 import { resolveDirection } from '@/lib/direction/directionUtils';
 import { DatasetType } from '@/types/datasets';
 import { InvestigationFlag } from '@/types/customChecks';
-import { runChecksOrchestrator } from '@/engine/orchestrator';
+import { runChecksOrchestrator, RunChecksProgress } from '@/engine/orchestrator';
+import { IncrementalBaseline, isRunCancelledError } from '@/engine/orchestrator/runChecksPipeline';
 import { buildEvidenceRunSnapshot } from '@/lib/evidence/evidenceRunSnapshot';
+import { fetchExceptionStates } from '@/lib/api/exceptionWorkflowApi';
+import { carryForwardExceptionStates } from '@/lib/exceptions/exceptionWorkflow';
+import { routeRunToCases } from '@/lib/api/caseRoutingApi';
+import { buildRoutableFindings } from '@/lib/cases/caseRouting';
 import { EvidenceRuleExecutionTelemetryRow } from '@/types/evidence';
+import { ExceptionWorkflowState } from '@/types/exceptionWorkflow';
 import { WorkspaceProvider, useWorkspace } from '@/context/WorkspaceContext';
 import { UploadLogProvider, useUploadLogs } from '@/context/UploadLogContext';
 import { toast } from 'sonner';
@@ -57,11 +63,14 @@ interface ComplianceContextType {
   isDataLoaded: boolean;
   isChecksRun: boolean;
   isRunning: boolean;
+  runProgress: RunChecksProgress | null;
   uploadLogs: UploadLogEntry[];
   setData: (data: ParsedData, options?: DatasetType | { direction?: Direction; uploadSessionId?: string; uploadManifestId?: string }) => void;
   getDataForDataset: (datasetType: DatasetType) => ParsedData;
   hasDatasetLoaded: (datasetType: DatasetType) => boolean;
-  runChecks: (options?: { mappingProfileId?: string; mappingVersion?: number }) => Promise<void>;
+  /** Incremental runs (the default) re-check only invoices changed since the last run on this direction. */
+  runChecks: (options?: { mappingProfileId?: string; mappingVersion?: number; incremental?: boolean }) => Promise<void>;
+  cancelRunChecks: () => void;
   clearData: () => void;
   addUploadLogEntry: (entry: NewUploadLogEntry) => void;
   deleteUploadLogEntry: (id: string) => void;
@@ -102,6 +111,7 @@ function ComplianceStateProvider({ children }: { children: ReactNode }) {
     setUploadManifestId,
     activeMappingProfileByDirection,
     setActiveMappingProfileForDirection,
+    activeTenantId,
   } = useWorkspace();
   const { uploadLogs, addUploadLogEntry, deleteUploadLogEntry, clearUploadLogs } = useUploadLogs();
   const [buyers, setBuyers] = useState<Buyer[]>([]);
@@ -118,6 +128,9 @@ function ComplianceStateProvider({ children }: { children: ReactNode }) {
   const [isDataLoaded, setIsDataLoaded] = useState(false);
   const [isChecksRun, setIsChecksRun] = useState(false);
   const [isRunning, setIsRunning] = useState(false);
+  const [runProgress, setRunProgress] = useState<RunChecksProgress | null>(null);
+  const runAbortControllerRef = useRef<AbortController | null>(null);
+  const runBaselineRef = useRef<Partial<Record<Direction, IncrementalBaseline>>>({});
   const [dataByDirection, setDataByDirection] = useState<Record<Direction, ParsedData>>({
     AR: { buyers: [], headers: [], lines: [], direction: 'AR' },
     AP: { buyers: [], headers: [], lines: [], direction: 'AP' },
@@ -184,6 +197,7 @@ function ComplianceStateProvider({ children }: { children: ReactNode }) {
       direction: resolvedDirection,
       uploadSessionId: optionsObj.uploadSessionId || data.uploadSessionId,
       uploadManifestId: optionsObj.uploadManifestId || data.uploadManifestId,
+      ublDocuments: data.ublDocuments,
     };
 
     setDataByDirection((prev) => ({ ...prev, [resolvedDirection]: normalizedData }));
@@ -201,8 +215,11 @@ function ComplianceStateProvider({ children }: { children: ReactNode }) {
     setLastChecksRunDatasetType(null);
   };
 
-  const runChecks = async (options?: { mappingProfileId?: string; mappingVersion?: number }) => {
+  const runChecks = async (options?: { mappingProfileId?: string; mappingVersion?: number; incremental?: boolean }) => {
+    const abortController = new AbortController();
+    runAbortControllerRef.current = abortController;
     setIsRunning(true);
+    setRunProgress(null);
     try {
       const activeMappingProfile = activeMappingProfileByDirection[direction];
       const mappingProfileId = options?.mappingProfileId || activeMappingProfile?.id;
@@ -213,11 +230,16 @@ function ComplianceStateProvider({ children }: { children: ReactNode }) {
         buyers,
         headers,
         lines,
+        ublDocuments: getDataForDataset(direction).ublDocuments,
         organizationProfile,
         uploadSessionId: uploadSessionId || undefined,
         uploadManifestId: uploadManifestId || undefined,
         mappingProfileId,
         rulesetVersion: RULESET_VERSION,
+        baseline: options?.incremental === false ? undefined : runBaselineRef.current[direction],
+      }, {
+        onProgress: setRunProgress,
+        signal: abortController.signal,
       });
 
       const {
@@ -228,10 +250,33 @@ function ComplianceStateProvider({ children }: { children: ReactNode }) {
         pintTelemetry,
         orgProfileTelemetry,
         allExceptions,
+        incremental,
       } = orchestrationResult;
+      if (incremental) {
+        runBaselineRef.current[direction] = {
+          builtInResults,
+          pintExceptions,
+          orgProfileExceptions: orchestrationResult.orgProfileExceptions,
+          runArtifact: orchestrationResult.runArtifact,
+          incremental,
+        };
+        if (incremental.reusedInvoiceIds.length > 0) {
+          toast.info(
+            `Re-checked ${incremental.checkedInvoiceIds.length} changed invoice(s); ` +
+              `carried forward findings for ${incremental.reusedInvoiceIds.length} unchanged.`
+          );
+        }
+      }
       const combinedTelemetry = [...coreTelemetry, ...pintTelemetry, ...orgProfileTelemetry];
+      // Findings already triaged in an earlier run keep their workflow status.
+      let workflowStates = new Map<string, ExceptionWorkflowState>();
+      try {
+        workflowStates = await fetchExceptionStates();
+      } catch (error) {
+        toast.error(`${(error as Error).message} Findings show their status from this run.`);
+      }
       setCheckResults(builtInResults.map((result) => ({ ...result, direction, datasetType: direction })));
-      setExceptions(allExceptions);
+      setExceptions(carryForwardExceptionStates(allExceptions, workflowStates));
       setPintAEExceptions(pintExceptions);
       setLastPintRuleTelemetry(combinedTelemetry);
       setIsChecksRun(true);
@@ -262,6 +307,7 @@ function ComplianceStateProvider({ children }: { children: ReactNode }) {
           evidenceSnapshot,
           evidenceRuleExecutionTelemetry: combinedTelemetry,
         },
+        upload_session_id: uploadSessionId,
       });
 
       if (!runId) {
@@ -299,15 +345,39 @@ function ComplianceStateProvider({ children }: { children: ReactNode }) {
       if (!exceptionsSaved || !clientScoresSaved || !runSummarySaved || !entityScoresSaved) {
         toast.info('Checks completed, but some run artifacts could not be saved.');
       }
+
+      // Routing stamps case ids on the saved exceptions, so it waits for them.
+      if (exceptionsSaved) {
+        const routing = await routeRunToCases(runId, buildRoutableFindings(allExceptions, pintExceptions));
+        if (!routing) {
+          toast.error('Checks completed, but findings could not be routed to cases.');
+        } else if (routing.failed) {
+          toast.error(
+            `Opened ${routing.created} case(s), but ${routing.failed} finding(s) could not be routed to cases.`
+          );
+        } else if (routing.created) {
+          toast.info(`Opened ${routing.created} case(s) from routing rules.`);
+        }
+      }
     } catch (error) {
+      if (isRunCancelledError(error)) {
+        toast.info('Run cancelled. Uploaded data and previous results are unchanged.');
+        throw error;
+      }
       console.error('Error running checks:', error);
       toast.error(error instanceof Error ? `Run checks failed: ${error.message}` : 'Run checks failed.');
       throw error;
     } finally {
+      runAbortControllerRef.current = null;
       setIsRunning(false);
+      setRunProgress(null);
     }
   };
 
+  const cancelRunChecks = () => {
+    runAbortControllerRef.current?.abort();
+  };
+
   const calculateStats = (excs: Exception[], totalInvoices: number): DashboardStats => {
     const severityCounts: Record<Severity, number> = { Critical: 0, High: 0, Medium: 0, Low: 0 };
     excs.forEach(e => severityCounts[e.severity]++);
@@ -350,7 +420,7 @@ function ComplianceStateProvider({ children }: { children: ReactNode }) {
     }));
   };
 
-  const clearData = () => {
+  const clearData = useCallback(() => {
     setDataByDirection({
       AR: { buyers: [], headers: [], lines: [], direction: 'AR' },
       AP: { buyers: [], headers: [], lines: [], direction: 'AP' },
@@ -362,9 +432,19 @@ function ComplianceStateProvider({ children }: { children: ReactNode }) {
     setLastChecksRunAt(null);
     setLastChecksRunDatasetType(null);
     setIsDataLoaded(false); setIsChecksRun(false);
+    runBaselineRef.current = {};
     setUploadSessionId(null);
     setUploadManifestId(null);
-  };
+  }, [setUploadSessionId, setUploadManifestId]);
+
+  // Loaded datasets and run results belong to the workspace they were produced in. The first
+  // render keeps whatever was loaded while mounting; only a later workspace switch clears it.
+  const dataTenantIdRef = useRef(activeTenantId);
+  useEffect(() => {
+    if (dataTenantIdRef.current === activeTenantId) return;
+    dataTenantIdRef.current = activeTenantId;
+    clearData();
+  }, [activeTenantId, clearData]);
 
   const getDashboardStats = (directionFilter: Direction | 'all' = direction): DashboardStats => {
     if (directionFilter === 'all') return calculateStats(exceptions, headers.length);
@@ -400,9 +480,9 @@ function ComplianceStateProvider({ children }: { children: ReactNode }) {
       activeMappingProfileByDirection,
       setActiveMappingProfileForDirection,
       buyers, headers, lines, checkResults, exceptions, investigationFlags, pintAEExceptions, runSummary, lastPintRuleTelemetry, lastChecksRunAt, lastChecksRunDatasetType,
-      isDataLoaded, isChecksRun, isRunning,
+      isDataLoaded, isChecksRun, isRunning, runProgress,
       uploadLogs,
-      setData, runChecks, clearData,
+      setData, runChecks, cancelRunChecks, clearData,
       getDataForDataset, hasDatasetLoaded,
       addUploadLogEntry, deleteUploadLogEntry, clearUploadLogs,
       getDashboardStats, getInvoiceDetails,
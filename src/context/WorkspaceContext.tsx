@@ -1,8 +1,13 @@
-import { createContext, ReactNode, useContext, useEffect, useMemo, useState } from 'react';
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react';
 
 import { DatasetType } from '@/types/datasets';
 import { DEFAULT_DIRECTION, Direction, OrganizationProfile } from '@/types/direction';
+import { Tenant, TenantRole, WorkspaceActor, WorkspaceUser } from '@/types/tenant';
 import { resolveDirection } from '@/lib/direction/directionUtils';
+import { fetchCurrentUser, subscribeToUserChanges } from '@/lib/api/authApi';
+import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { fetchMyTenants } from '@/lib/api/tenantsApi';
+import { setActiveTenantScope } from '@/lib/api/tenantScope';
 
 export interface WorkspaceContextType {
   direction: Direction;
@@ -17,6 +22,16 @@ export interface WorkspaceContextType {
   setUploadManifestId: (value: string | null) => void;
   activeMappingProfileByDirection: Record<Direction, { id: string; version: number } | null>;
   setActiveMappingProfileForDirection: (direction: Direction, profile: { id: string; version: number } | null) => void;
+  currentUser: WorkspaceUser | null;
+  tenants: Tenant[];
+  activeTenantId: string | null;
+  activeTenant: Tenant | null;
+  activeRole: TenantRole | null;
+  currentActor: WorkspaceActor;
+  localActorName: string;
+  setLocalActorName: (name: string) => void;
+  setActiveTenantId: (tenantId: string | null) => void;
+  refreshTenants: () => Promise<void>;
 }
 
 const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefined);
@@ -24,6 +39,8 @@ const WorkspaceContext = createContext<WorkspaceContextType | undefined>(undefin
 const DIRECTION_STORAGE_KEY = 'drcs_direction_v1';
 const ORG_PROFILE_STORAGE_KEY = 'drcs_org_profile_v1';
 const ACTIVE_MAPPING_STORAGE_KEY = 'drcs_active_mapping_profiles_v1';
+const ACTIVE_TENANT_STORAGE_KEY = 'drcs_active_tenant_v1';
+const LOCAL_ACTOR_STORAGE_KEY = 'drcs_local_actor_v1';
 
 export function WorkspaceProvider({ children }: { children: ReactNode }) {
   const [direction, setDirectionState] = useState<Direction>(() => {
@@ -63,6 +80,52 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     }
   });
 
+  const [currentUser, setCurrentUser] = useState<WorkspaceUser | null>(null);
+  const [tenants, setTenants] = useState<Tenant[]>([]);
+  const [activeTenantId, setActiveTenantIdState] = useState<string | null>(() => {
+    const stored = localStorage.getItem(ACTIVE_TENANT_STORAGE_KEY);
+    // Set synchronously so the first queries of child components are already scoped.
+    setActiveTenantScope(stored);
+    return stored;
+  });
+
+  const [localActorName, setLocalActorName] = useState<string>(
+    () => localStorage.getItem(LOCAL_ACTOR_STORAGE_KEY) || 'Local user'
+  );
+
+  const setActiveTenantId = useCallback((tenantId: string | null) => {
+    setActiveTenantScope(tenantId);
+    setActiveTenantIdState(tenantId);
+  }, []);
+
+  useEffect(() => {
+    fetchCurrentUser().then(setCurrentUser);
+    return subscribeToUserChanges(setCurrentUser);
+  }, []);
+
+  const refreshTenants = useCallback(async () => {
+    setTenants(currentUser ? await fetchMyTenants(currentUser.id) : []);
+  }, [currentUser]);
+
+  useEffect(() => {
+    refreshTenants();
+  }, [refreshTenants]);
+
+  // Fall back to the first workspace when the stored one is no longer accessible.
+  useEffect(() => {
+    if (!currentUser || tenants.length === 0) return;
+    if (!tenants.some((tenant) => tenant.id === activeTenantId)) setActiveTenantId(tenants[0].id);
+  }, [activeTenantId, currentUser, setActiveTenantId, tenants]);
+
+  useEffect(() => {
+    if (activeTenantId) localStorage.setItem(ACTIVE_TENANT_STORAGE_KEY, activeTenantId);
+    else localStorage.removeItem(ACTIVE_TENANT_STORAGE_KEY);
+  }, [activeTenantId]);
+
+  useEffect(() => {
+    localStorage.setItem(LOCAL_ACTOR_STORAGE_KEY, localActorName);
+  }, [localActorName]);
+
   useEffect(() => {
     localStorage.setItem(DIRECTION_STORAGE_KEY, direction);
   }, [direction]);
@@ -90,6 +153,18 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
     setActiveMappingProfileByDirection((prev) => ({ ...prev, [targetDirection]: profile }));
   };
 
+  const activeTenant = tenants.find((tenant) => tenant.id === activeTenantId) ?? null;
+  // Without Supabase there is no sign-in; the single local user holds every role.
+  const activeRole: TenantRole | null = getSupabaseEnvStatus().configured ? activeTenant?.role ?? null : 'admin';
+  // Locally, a second person is told apart from the first only by the name they act under.
+  const currentActor = useMemo<WorkspaceActor>(
+    () =>
+      currentUser
+        ? { id: currentUser.id, name: currentUser.email ?? currentUser.id }
+        : { id: null, name: localActorName.trim() || 'Local user' },
+    [currentUser, localActorName]
+  );
+
   const value = useMemo(
     () => ({
       direction,
@@ -104,6 +179,16 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
       setUploadManifestId,
       activeMappingProfileByDirection,
       setActiveMappingProfileForDirection,
+      currentUser,
+      tenants,
+      activeTenantId,
+      activeTenant,
+      activeRole,
+      currentActor,
+      localActorName,
+      setLocalActorName,
+      setActiveTenantId,
+      refreshTenants,
     }),
     [
       direction,
@@ -111,6 +196,15 @@ export function WorkspaceProvider({ children }: { children: ReactNode }) {
       uploadSessionId,
       uploadManifestId,
       activeMappingProfileByDirection,
+      currentUser,
+      tenants,
+      activeTenantId,
+      activeTenant,
+      activeRole,
+      currentActor,
+      localActorName,
+      setActiveTenantId,
+      refreshTenants,
     ]
   );
 
@@ -1,4 +1,4 @@
-import { Severity } from '@/types/compliance';
+import { FindingProvenance, Severity } from '@/types/compliance';
 import { DatasetRunScope, DatasetType } from '@/types/datasets';
 import { Direction } from '@/types/direction';
 
@@ -51,6 +51,8 @@ export interface Finding {
   expectedValue?: string | number;
   observedValue?: string | number;
   references?: string[];
+  provenance?: FindingProvenance;
+  fingerprint?: string;
   metadata?: Record<string, unknown>;
 }
 
@@ -1,10 +1,10 @@
-import { Buyer, DataContext, CheckResult, Exception, InvoiceHeader } from '@/types/compliance';
+import { Buyer, CheckExecutionOptions, DataContext, CheckResult, Exception, InvoiceHeader } from '@/types/compliance';
 import { MoFCoverageResult, MoFMappedColumnsInput } from '@/lib/coverage/mofCoverageEngine';
 import { PintAECheck, PintAEException } from '@/types/pintAE';
 import { Direction, OrganizationProfile } from '@/types/direction';
 import { EvidenceRuleExecutionTelemetryRow } from '@/types/evidence';
 
-export interface CoreRunnerInput {
+export interface CoreRunnerInput extends CheckExecutionOptions {
   dataContext: DataContext;
 }
 
@@ -17,7 +17,7 @@ export interface CoreRunner {
   run(input: CoreRunnerInput): CoreRunnerOutput;
 }
 
-export interface PintRunnerInput {
+export interface PintRunnerInput extends CheckExecutionOptions {
   dataContext: DataContext;
 }
 
@@ -29,6 +29,7 @@ export interface PintRunnerOutput {
 
 export interface PintRunner {
   seedCheckPack(forceUpsert?: boolean): Promise<{ success: boolean; message: string }>;
+  loadChecks(): Promise<PintAECheck[]>;
   run(input: PintRunnerInput): Promise<PintRunnerOutput>;
 }
 
@@ -2,6 +2,7 @@ import { Finding, ValidationLayer } from '@/engine/contracts';
 import { MoFCoverageResult, MoFCoverageRow } from '@/lib/coverage/mofCoverageEngine';
 import { Exception, Severity } from '@/types/compliance';
 import { PintAEException } from '@/types/pintAE';
+import { exceptionFingerprint, pintExceptionFingerprint } from '@/lib/exceptions/findingFingerprint';
 
 const MANDATORY_STATUSES = new Set(['NOT_IN_TEMPLATE', 'NOT_INGESTIBLE', 'NO_BRIDGE']);
 
@@ -47,12 +48,15 @@ export function mapLegacyExceptionToFinding(
     expectedValue: exception.expectedValue,
     observedValue: exception.actualValue,
     references: buildLegacyReferences(exception),
+    fingerprint: exceptionFingerprint(exception),
     metadata: {
       status: exception.status,
       reasonCode: exception.reasonCode,
       uploadSessionId: exception.uploadSessionId,
       uploadManifestId: exception.uploadManifestId,
       rulesetVersion: exception.rulesetVersion,
+      sourceFileName: exception.sourceFileName,
+      sourceLocator: exception.sourceLocator,
     },
   };
 }
@@ -95,6 +99,7 @@ export function mapPintExceptionToFinding(
     expectedValue: exception.expected_value_or_rule,
     observedValue: exception.observed_value,
     references: exception.pint_reference_terms || [],
+    fingerprint: pintExceptionFingerprint(exception),
     metadata: {
       scope: exception.scope,
       ruleType: exception.rule_type,
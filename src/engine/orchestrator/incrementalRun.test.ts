@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { InvoiceHeader, InvoiceLine } from '@/types/compliance';
+import { hashInvoice, InvoiceIndex, planIncrementalRun } from './incrementalRun';
+
+const header = {
+  invoice_id: 'INV-1',
+  invoice_number: 'A-001',
+  issue_date: '2025-01-31',
+  seller_trn: '100000000000003',
+  buyer_id: 'B-1',
+  currency: 'AED',
+  total_incl_vat: 105,
+} as InvoiceHeader;
+const lines = [
+  { line_id: 'L-1', invoice_id: 'INV-1', line_number: 1, quantity: 1, unit_price: 50, line_total_excl_vat: 50 },
+  { line_id: 'L-2', invoice_id: 'INV-1', line_number: 2, quantity: 1, unit_price: 50, line_total_excl_vat: 50 },
+] as InvoiceLine[];
+
+describe('incrementalRun', () => {
+  it('hashes invoice content regardless of line order and upload bookkeeping', () => {
+    const hash = hashInvoice(header, lines, undefined);
+
+    expect(hashInvoice({ ...header, upload_session_id: 'session-2', source_row_number: 9 }, [...lines].reverse(), undefined)).toBe(hash);
+    expect(hashInvoice({ ...header, total_incl_vat: 106 }, lines, undefined)).not.toBe(hash);
+    expect(hashInvoice(header, lines, { buyer_id: 'B-1', buyer_name: 'Acme' })).not.toBe(hash);
+  });
+
+  it('re-checks changed invoices and any invoice sharing a seller and invoice number with them', () => {
+    const previous: InvoiceIndex = {
+      'INV-1': { hash: 'a', couplingKey: 'S|A-001' },
+      'INV-2': { hash: 'b', couplingKey: 'S|A-001' },
+      'INV-3': { hash: 'c', couplingKey: 'S|A-003' },
+      'INV-4': { hash: 'd', couplingKey: 'S|A-004' },
+      'INV-5': { hash: 'e', couplingKey: 'S|A-005' },
+    };
+    const current: InvoiceIndex = {
+      'INV-1': { hash: 'a2', couplingKey: 'S|A-001' },
+      'INV-2': { hash: 'b', couplingKey: 'S|A-001' },
+      'INV-3': { hash: 'c', couplingKey: 'S|A-003' },
+      'INV-5': { hash: 'e', couplingKey: 'S|A-005' },
+      'INV-6': { hash: 'f', couplingKey: 'S|A-004' },
+    };
+
+    const plan = planIncrementalRun(current, previous);
+
+    expect(Array.from(plan.checkedInvoiceIds).sort()).toEqual(['INV-1', 'INV-2', 'INV-6']);
+    expect(Array.from(plan.reusedInvoiceIds).sort()).toEqual(['INV-3', 'INV-5']);
+  });
+});
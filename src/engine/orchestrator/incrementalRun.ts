@@ -0,0 +1,152 @@
+// =============================================================================
+// Incremental re-validation
+// Fingerprints every invoice (header + lines + counterparty) so a re-run can
+// check only the invoices that changed and carry the previous run's findings
+// forward for the rest.
+// =============================================================================
+
+import { Buyer, DataContext, FindingProvenance, InvoiceHeader, InvoiceLine } from '@/types/compliance';
+import { Direction, OrganizationProfile } from '@/types/direction';
+import { PintAECheck } from '@/types/pintAE';
+
+export interface InvoiceFingerprint {
+  hash: string;
+  /**
+   * Invoices sharing a coupling key are checked together (duplicate invoice numbers per
+   * seller), so a change to one of them re-checks all of them.
+   */
+  couplingKey: string;
+}
+
+export type InvoiceIndex = Record<string, InvoiceFingerprint>;
+
+export interface IncrementalRunState {
+  /** Identifies everything besides the data that affects results; a mismatch forces a full run. */
+  signature: string;
+  invoiceIndex: InvoiceIndex;
+  checkedInvoiceIds: string[];
+  reusedInvoiceIds: string[];
+}
+
+export interface IncrementalPlan {
+  /** Invoices to run checks on: new, changed, or coupled to a changed or removed invoice. */
+  checkedInvoiceIds: Set<string>;
+  /** Unchanged invoices whose previous findings are carried forward. */
+  reusedInvoiceIds: Set<string>;
+}
+
+// Upload bookkeeping that changes on every upload without changing what checks see.
+const VOLATILE_FIELDS = new Set(['upload_session_id', 'upload_manifest_id', 'source_row_number']);
+
+function canonicalize(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return `[${value.map(canonicalize).join(',')}]`;
+  if (typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([key, entry]) => entry !== undefined && !VOLATILE_FIELDS.has(key))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalize(entry)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Two FNV-1a passes with different offset bases give a 64-bit fingerprint.
+function fingerprint(text: string): string {
+  return [0x811c9dc5, 0x9e3779b9]
+    .map((basis) => {
+      let hash = basis >>> 0;
+      for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+      }
+      return hash.toString(16).padStart(8, '0');
+    })
+    .join('');
+}
+
+export function hashInvoice(header: InvoiceHeader, lines: InvoiceLine[], buyer: Buyer | undefined): string {
+  const sortedLines = [...lines].sort((a, b) => (a.line_id < b.line_id ? -1 : a.line_id > b.line_id ? 1 : 0));
+  return fingerprint(canonicalize({ header, lines: sortedLines, buyer: buyer ?? null }));
+}
+
+export function buildInvoiceIndex(dataContext: DataContext): InvoiceIndex {
+  const index: InvoiceIndex = {};
+  dataContext.headers.forEach((header) => {
+    index[header.invoice_id] = {
+      hash: hashInvoice(
+        header,
+        dataContext.linesByInvoice.get(header.invoice_id) ?? [],
+        dataContext.buyerMap.get(header.buyer_id)
+      ),
+      couplingKey: `${header.seller_trn}|${header.invoice_number}`,
+    };
+  });
+  return index;
+}
+
+export function buildRunSignature(input: {
+  direction: Direction;
+  rulesetVersion: string;
+  organizationProfile: OrganizationProfile;
+  pintAEChecks: PintAECheck[];
+}): string {
+  return fingerprint(canonicalize(input));
+}
+
+/**
+ * Splits the current invoices into those to re-check and those whose previous findings
+ * still hold. Coupled invoices (same seller and invoice number, now or in the previous
+ * run) are re-checked together so cross-invoice findings stay correct.
+ */
+export function planIncrementalRun(current: InvoiceIndex, previous: InvoiceIndex): IncrementalPlan {
+  const dirtyCouplingKeys = new Set<string>();
+  Object.entries(current).forEach(([invoiceId, entry]) => {
+    const prior = previous[invoiceId];
+    if (!prior || prior.hash !== entry.hash) {
+      dirtyCouplingKeys.add(entry.couplingKey);
+      if (prior) dirtyCouplingKeys.add(prior.couplingKey);
+    }
+  });
+  Object.entries(previous).forEach(([invoiceId, prior]) => {
+    if (!current[invoiceId]) dirtyCouplingKeys.add(prior.couplingKey);
+  });
+
+  const checkedInvoiceIds = new Set<string>();
+  const reusedInvoiceIds = new Set<string>();
+  Object.entries(current).forEach(([invoiceId, entry]) => {
+    const prior = previous[invoiceId];
+    const unchanged = prior && prior.hash === entry.hash && !dirtyCouplingKeys.has(entry.couplingKey);
+    (unchanged ? reusedInvoiceIds : checkedInvoiceIds).add(invoiceId);
+  });
+  return { checkedInvoiceIds, reusedInvoiceIds };
+}
+
+/**
+ * Narrows a data context to the given invoices. Parties and lines without a header are kept
+ * whole, so party checks and orphan-line checks always re-run.
+ */
+export function scopeDataContext(dataContext: DataContext, invoiceIds: Set<string>): DataContext {
+  const inScope = (invoiceId: string) => invoiceIds.has(invoiceId) || !dataContext.headerMap.has(invoiceId);
+  const headers = dataContext.headers.filter((header) => invoiceIds.has(header.invoice_id));
+  const lines = dataContext.lines.filter((line) => inScope(line.invoice_id));
+  const linesByInvoice = new Map(
+    Array.from(dataContext.linesByInvoice).filter(([invoiceId]) => inScope(invoiceId))
+  );
+  return {
+    buyers: dataContext.buyers,
+    headers,
+    lines,
+    buyerMap: dataContext.buyerMap,
+    headerMap: new Map(headers.map((header) => [header.invoice_id, header])),
+    linesByInvoice,
+  };
+}
+
+/** Whether a finding for this invoice comes from the previous run rather than this one. */
+export function isCarriedForward(invoiceId: string | undefined, plan: IncrementalPlan): boolean {
+  return Boolean(invoiceId && plan.reusedInvoiceIds.has(invoiceId));
+}
+
+export function withProvenance<T extends { provenance?: FindingProvenance }>(items: T[], provenance: FindingProvenance): T[] {
+  return items.map((item) => ({ ...item, provenance }));
+}
@@ -0,0 +1,36 @@
+import { createPreloadedPintRunner } from '@/engine/runners/pint/preloadedPintRunner';
+import { runSchematronParity, SchematronParityInput, SchematronParityReport } from '@/lib/pintAE/schematronParity';
+import { PintAECheck } from '@/types/pintAE';
+import { OrchestratorOptions, RunChecksOrchestrationResult, RunChecksProgress, runChecksPipeline } from './runChecksPipeline';
+
+export type RunChecksWorkerRequest =
+  | { type: 'run'; options: OrchestratorOptions; pintAEChecks: PintAECheck[] }
+  | { type: 'parity'; input: SchematronParityInput };
+
+export type RunChecksWorkerResponse =
+  | { type: 'progress'; progress: RunChecksProgress }
+  | { type: 'result'; result: RunChecksOrchestrationResult }
+  | { type: 'parity'; report: SchematronParityReport }
+  | { type: 'error'; message: string };
+
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<RunChecksWorkerRequest>) => void) | null;
+  postMessage: (message: RunChecksWorkerResponse) => void;
+};
+
+workerScope.onmessage = async (event) => {
+  const request = event.data;
+  try {
+    if (request.type === 'parity') {
+      workerScope.postMessage({ type: 'parity', report: runSchematronParity(request.input) });
+      return;
+    }
+    const { options, pintAEChecks } = request;
+    const result = await runChecksPipeline(options, createPreloadedPintRunner(pintAEChecks), {
+      onProgress: (progress) => workerScope.postMessage({ type: 'progress', progress }),
+    });
+    workerScope.postMessage({ type: 'result', result });
+  } catch (error) {
+    workerScope.postMessage({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { runChecksOrchestrator } from '@/engine/orchestrator';
+import { runChecksOrchestrator, runSchematronParityOffMainThread } from '@/engine/orchestrator';
 import { runAllChecksWithTelemetry } from '@/lib/checks/checksRegistry';
 import { runAllPintAEChecksWithTelemetry } from '@/lib/checks/pintAECheckRunner';
 import { buildOrganizationProfileExceptions } from '@/lib/validation/rulesetRouter';
@@ -7,6 +7,8 @@ import { fetchEnabledPintAEChecks, seedUC1CheckPack } from '@/lib/api/pintAEApi'
 import { CheckResult, Exception, ParsedData } from '@/types/compliance';
 import { PintAECheck, PintAEException } from '@/types/pintAE';
 import { OrganizationProfile } from '@/types/direction';
+import { parseUblDocument } from '@/lib/ublParser';
+import { PINT_AE_UBL_INVOICE_FIXTURE } from '@/lib/pintAE/fixtures';
 
 vi.mock('@/lib/checks/checksRegistry', () => ({
   runAllChecksWithTelemetry: vi.fn(),
@@ -434,4 +436,80 @@ describe('runChecksOrchestrator', () => {
       'org_profile_our_entity_alignment',
     ]);
   });
+
+  it('attaches UBL element locators to exceptions raised on XML-ingested records', async () => {
+    const { buyer, header, lines } = parseUblDocument(PINT_AE_UBL_INVOICE_FIXTURE, { fileName: 'INV-1001.xml' });
+    mockedRunAllChecksWithTelemetry.mockReturnValue({
+      checkResults: [
+        {
+          checkId: 'invalid_date_format',
+          checkName: 'Invalid Date Format',
+          severity: 'High',
+          passed: 0,
+          failed: 2,
+          exceptions: [
+            {
+              id: 'core-xml-1',
+              checkId: 'invalid_date_format',
+              checkName: 'Invalid Date Format',
+              severity: 'High',
+              message: 'Bad issue date',
+              invoiceId: 'INV-1001',
+              field: 'issue_date',
+            },
+            {
+              id: 'core-xml-2',
+              checkId: 'line_math',
+              checkName: 'Line Math',
+              severity: 'High',
+              message: 'Line total mismatch',
+              invoiceId: 'INV-1001',
+              lineId: 'INV-1001-2',
+            },
+          ],
+        },
+      ],
+      telemetry: [],
+    });
+
+    const result = await runChecksOrchestrator({
+      direction: 'AR',
+      buyers: [buyer],
+      headers: [header],
+      lines,
+      organizationProfile: orgProfile,
+      rulesetVersion: 'v1.0.0',
+    });
+
+    expect(result.allExceptions.map((exception) => [exception.sourceFileName, exception.sourceLocator])).toEqual([
+      ['INV-1001.xml', '/Invoice/cbc:IssueDate'],
+      ['INV-1001.xml', '/Invoice/cac:InvoiceLine[2]'],
+    ]);
+  });
+});
+
+describe('runSchematronParityOffMainThread', () => {
+  it('runs parity in the validation worker and rejects with the worker error', async () => {
+    const requests: unknown[] = [];
+    const terminate = vi.fn();
+    class FakeWorker {
+      onmessage: ((event: { data: unknown }) => void) | null = null;
+      onerror: ((event: { message: string }) => void) | null = null;
+      postMessage(request: unknown) {
+        requests.push(request);
+        setTimeout(() => this.onmessage?.({ data: { type: 'error', message: 'UBL serializer failed' } }), 0);
+      }
+      terminate = terminate;
+    }
+    vi.stubGlobal('Worker', FakeWorker);
+
+    try {
+      const input = { buyers: [], headers: [], lines: [], csvExceptions: [] };
+      await expect(runSchematronParityOffMainThread(input)).rejects.toThrow('UBL serializer failed');
+      expect(requests).toEqual([{ type: 'parity', input }]);
+      expect(terminate).toHaveBeenCalled();
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
 });
@@ -1,203 +1,102 @@
-import { RunArtifact, LayerResult, Finding } from '@/engine/contracts';
-import { mapLegacyExceptionsToFindings, mapPintExceptionsToFindings } from '@/engine/normalization';
-import { defaultCoreRunner } from '@/engine/runners/core';
 import { defaultPintRunner } from '@/engine/runners/pint';
-import { defaultOrgProfileRunner } from '@/engine/runners/orgProfile';
-import { DataContext, Exception, Severity, CheckResult, Buyer, InvoiceHeader, InvoiceLine } from '@/types/compliance';
-import { Direction, OrganizationProfile } from '@/types/direction';
-import { PintAECheck, PintAEException } from '@/types/pintAE';
-import { resolveDirection } from '@/lib/direction/directionUtils';
-import { EvidenceRuleExecutionTelemetryRow } from '@/types/evidence';
-
-type OrchestratorOptions = {
-  direction: Direction;
-  buyers: Buyer[];
-  headers: InvoiceHeader[];
-  lines: InvoiceLine[];
-  organizationProfile: OrganizationProfile;
-  uploadSessionId?: string;
-  uploadManifestId?: string;
-  mappingProfileId?: string;
-  rulesetVersion: string;
-};
-
-export interface RunChecksOrchestrationResult {
-  dataContext: DataContext;
-  builtInResults: CheckResult[];
-  coreTelemetry: EvidenceRuleExecutionTelemetryRow[];
-  pintAEChecks: PintAECheck[];
-  pintExceptions: PintAEException[];
-  pintTelemetry: EvidenceRuleExecutionTelemetryRow[];
-  legacyPintExceptions: Exception[];
-  orgProfileExceptions: Exception[];
-  orgProfileTelemetry: EvidenceRuleExecutionTelemetryRow[];
-  allExceptions: Exception[];
-  runArtifact: RunArtifact;
-}
-
-function buildDataContext(buyers: Buyer[], headers: InvoiceHeader[], lines: InvoiceLine[]): DataContext {
-  const buyerMap = new Map(buyers.map((buyer) => [buyer.buyer_id, buyer]));
-  const headerMap = new Map(headers.map((header) => [header.invoice_id, header]));
-  const linesByInvoice = new Map<string, InvoiceLine[]>();
-
-  lines.forEach((line) => {
-    if (!linesByInvoice.has(line.invoice_id)) {
-      linesByInvoice.set(line.invoice_id, []);
-    }
-    linesByInvoice.get(line.invoice_id)!.push(line);
-  });
-
-  return { buyers, headers, lines, buyerMap, headerMap, linesByInvoice };
-}
-
-function mapPintExceptionsToLegacyExceptions(pintExceptions: PintAEException[]): Exception[] {
-  return pintExceptions.map((exception) => ({
-    id: exception.id,
-    checkId: exception.check_id,
-    checkName: exception.check_name,
-    severity: exception.severity,
-    message: exception.message,
-    invoiceId: exception.invoice_id,
-    invoiceNumber: exception.invoice_number,
-    sellerTrn: exception.seller_trn,
-    buyerId: exception.buyer_id,
-    lineId: exception.line_id,
-    field: exception.field_name,
-    expectedValue: exception.expected_value_or_rule,
-    actualValue: exception.observed_value,
-  }));
-}
-
-function enrichLegacyExceptions(
-  exceptions: Exception[],
-  options: {
-    direction: Direction;
-    uploadSessionId?: string;
-    uploadManifestId?: string;
-    mappingProfileId?: string;
-    rulesetVersion: string;
-  }
-): Exception[] {
-  return exceptions.map((exception) => ({
-    ...exception,
-    datasetType: options.direction,
-    direction: resolveDirection(exception.direction || options.direction),
-    ruleId: exception.ruleId || exception.checkId,
-    uploadSessionId: exception.uploadSessionId || options.uploadSessionId || undefined,
-    uploadManifestId: exception.uploadManifestId || options.uploadManifestId || undefined,
-    mappingProfileId: exception.mappingProfileId || options.mappingProfileId || undefined,
-    rulesetVersion: exception.rulesetVersion || options.rulesetVersion,
-    status: exception.status || 'Open',
-  }));
-}
-
-function buildSeverityTotals(findings: Finding[]): Record<Severity, number> {
-  const totals: Record<Severity, number> = { Critical: 0, High: 0, Medium: 0, Low: 0 };
-  findings.forEach((finding) => {
-    totals[finding.severity]++;
-  });
-  return totals;
-}
-
-function buildLayerResult(layer: LayerResult['layer'], findings: Finding[]): LayerResult {
-  return {
-    layer,
-    findings,
-    totals: {
-      findings: findings.length,
-      bySeverity: buildSeverityTotals(findings),
-    },
-  };
-}
-
+import { runSchematronParity, SchematronParityInput, SchematronParityReport } from '@/lib/pintAE/schematronParity';
+import type { RunChecksWorkerRequest, RunChecksWorkerResponse } from './runChecks.worker';
+import {
+  createRunCancelledError,
+  OrchestratorOptions,
+  RunChecksHooks,
+  RunChecksOrchestrationResult,
+  runChecksPipeline,
+  throwIfRunCancelled,
+} from './runChecksPipeline';
+
+export {
+  isRunCancelledError,
+  type RunChecksHooks,
+  type RunChecksOrchestrationResult,
+  type RunChecksProgress,
+  type RunChecksStage,
+} from './runChecksPipeline';
+
+/**
+ * Runs core, PINT-AE (the check pack, plus the Schematron for UBL uploads) and org-profile
+ * checks. Where Web Workers exist the checks execute off the main thread and cancelling
+ * terminates the worker at once; elsewhere (tests, SSR) they run inline and cancellation
+ * takes effect at the next check boundary.
+ */
 export async function runChecksOrchestrator(
-  options: OrchestratorOptions
+  options: OrchestratorOptions,
+  hooks: RunChecksHooks = {}
 ): Promise<RunChecksOrchestrationResult> {
-  const startedAt = new Date().toISOString();
-
-  const dataContext = buildDataContext(options.buyers, options.headers, options.lines);
+  if (typeof Worker === 'undefined') {
+    return runChecksPipeline(options, defaultPintRunner, hooks);
+  }
 
-  // Keep execution order identical to current active flow.
-  const {
-    checkResults: builtInResults,
-    telemetry: coreTelemetry,
-  } = defaultCoreRunner.run({ dataContext });
+  // Seeding and fetching the check pack use the signed-in Supabase session, which only
+  // exists on the main thread; the worker receives the fetched checks.
   await defaultPintRunner.seedCheckPack(false);
-  const {
-    checks: pintAEChecks,
-    exceptions: pintExceptions,
-    telemetry: pintTelemetry,
-  } = await defaultPintRunner.run({ dataContext });
-  const legacyPintExceptions = mapPintExceptionsToLegacyExceptions(pintExceptions);
-  const { exceptions: orgProfileExceptions, telemetry: orgProfileTelemetry } = defaultOrgProfileRunner.run({
-    organizationProfile: options.organizationProfile,
-    direction: options.direction,
-    headers: options.headers,
-    buyerMap: dataContext.buyerMap,
-    uploadSessionId: options.uploadSessionId || undefined,
-    uploadManifestId: options.uploadManifestId || undefined,
-    mappingProfileId: options.mappingProfileId,
-    rulesetVersion: options.rulesetVersion,
+  const pintAEChecks = await defaultPintRunner.loadChecks();
+  throwIfRunCancelled(hooks.signal);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./runChecks.worker.ts', import.meta.url), { type: 'module' });
+    const finish = () => {
+      worker.terminate();
+      hooks.signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(createRunCancelledError());
+    };
+    hooks.signal?.addEventListener('abort', handleAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<RunChecksWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        hooks.onProgress?.(message.progress);
+        return;
+      }
+      finish();
+      if (message.type === 'result') resolve(message.result);
+      else if (message.type === 'error') reject(new Error(message.message));
+      else reject(new Error('Validation worker returned an unexpected response'));
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || 'Validation worker failed to start'));
+    };
+
+    const request: RunChecksWorkerRequest = { type: 'run', options, pintAEChecks };
+    worker.postMessage(request);
   });
+}
 
-  const allExceptions = enrichLegacyExceptions(
-    [
-      ...builtInResults.flatMap((result) => result.exceptions),
-      ...legacyPintExceptions,
-      ...orgProfileExceptions,
-    ],
-    {
-      direction: options.direction,
-      uploadSessionId: options.uploadSessionId,
-      uploadManifestId: options.uploadManifestId,
-      mappingProfileId: options.mappingProfileId,
-      rulesetVersion: options.rulesetVersion,
-    }
-  );
-
-  const coreFindings = mapLegacyExceptionsToFindings(
-    builtInResults.flatMap((result) => result.exceptions),
-    { layer: 'core' }
-  );
-  const pintFindings = mapPintExceptionsToFindings(pintExceptions);
-  const orgFindings = mapLegacyExceptionsToFindings(orgProfileExceptions, { layer: 'custom' });
-
-  const layerResults: LayerResult[] = [
-    buildLayerResult('core', coreFindings),
-    buildLayerResult('pint_ae', pintFindings),
-    buildLayerResult('custom', orgFindings),
-  ];
-  const findings = [...coreFindings, ...pintFindings, ...orgFindings];
-
-  const runArtifact: RunArtifact = {
-    startedAt,
-    endedAt: new Date().toISOString(),
-    scope: options.direction,
-    layerResults,
-    findings,
-    metadata: {
-      builtInResults: builtInResults.length,
-      coreTelemetryRules: coreTelemetry.length,
-      pintChecks: pintAEChecks.length,
-      pintExceptions: pintExceptions.length,
-      pintTelemetryRules: pintTelemetry.length,
-      orgProfileExceptions: orgProfileExceptions.length,
-      orgProfileTelemetryRules: orgProfileTelemetry.length,
-      allExceptions: allExceptions.length,
-    },
-  };
+/**
+ * Converts every invoice to UBL and compares the Schematron failures with the CSV check
+ * findings. Runs in the validation worker where one exists, so large datasets do not
+ * freeze the page; elsewhere it runs inline. Rejects when the comparison fails.
+ */
+export async function runSchematronParityOffMainThread(input: SchematronParityInput): Promise<SchematronParityReport> {
+  if (typeof Worker === 'undefined') {
+    return runSchematronParity(input);
+  }
 
-  return {
-    dataContext,
-    builtInResults,
-    coreTelemetry,
-    pintAEChecks,
-    pintExceptions,
-    pintTelemetry,
-    legacyPintExceptions,
-    orgProfileExceptions,
-    orgProfileTelemetry,
-    allExceptions,
-    runArtifact,
-  };
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./runChecks.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<RunChecksWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') return;
+      worker.terminate();
+      if (message.type === 'parity') resolve(message.report);
+      else if (message.type === 'error') reject(new Error(message.message));
+      else reject(new Error('Validation worker returned an unexpected response'));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Validation worker failed to start'));
+    };
+
+    const request: RunChecksWorkerRequest = { type: 'parity', input };
+    worker.postMessage(request);
+  });
 }
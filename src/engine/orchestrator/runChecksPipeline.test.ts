@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { createPreloadedPintRunner } from '@/engine/runners/pint';
+import { checksRegistry } from '@/lib/checks/checksRegistry';
+import { UAE_UC1_CHECK_PACK } from '@/lib/checks/uaeUC1CheckPack';
+import { mapHeaderRecord, mapLineRecord, mapPartyRecord, parseCSV } from '@/lib/csvParser';
+import { PINT_AE_UBL_INVOICE_FIXTURE } from '@/lib/pintAE/fixtures';
+import { buyersNegativeSample, headersNegativeSample, linesNegativeSample } from '@/lib/sampleData';
+import { parseUblDocument } from '@/lib/ublParser';
+import { isRunCancelledError, RunChecksProgress, runChecksPipeline } from './runChecksPipeline';
+
+const options = {
+  direction: 'AR' as const,
+  buyers: parseCSV(buyersNegativeSample).map((record) => mapPartyRecord(record, {})),
+  headers: parseCSV(headersNegativeSample).map((record) => mapHeaderRecord(record, {})),
+  lines: parseCSV(linesNegativeSample).map((record) => mapLineRecord(record, {})),
+  organizationProfile: { ourEntityTRNs: [] },
+  rulesetVersion: 'test',
+};
+
+describe('runChecksPipeline', () => {
+  it('reports per-check progress for each runner in execution order', async () => {
+    const events: RunChecksProgress[] = [];
+    const pintRunner = createPreloadedPintRunner(UAE_UC1_CHECK_PACK);
+
+    const tracked = await runChecksPipeline(options, pintRunner, { onProgress: (event) => events.push(event) });
+    const untracked = await runChecksPipeline(options, pintRunner);
+
+    const enabledPintChecks = UAE_UC1_CHECK_PACK.filter((check) => check.is_enabled).length;
+    const lastByStage = new Map(events.map((event) => [event.stage, event]));
+    expect(Array.from(lastByStage.keys())).toEqual(['core', 'pint_ae', 'org_profile', 'finalize']);
+    expect(lastByStage.get('core')).toMatchObject({ completedChecks: checksRegistry.length, totalChecks: checksRegistry.length });
+    expect(lastByStage.get('pint_ae')).toMatchObject({ completedChecks: enabledPintChecks, totalChecks: enabledPintChecks });
+    expect(events.filter((event) => event.stage === 'core').map((event) => event.completedChecks)).toEqual(
+      Array.from({ length: checksRegistry.length + 1 }, (_, index) => index)
+    );
+    expect(tracked.allExceptions.length).toBe(untracked.allExceptions.length);
+    expect(tracked.allExceptions.length).toBeGreaterThan(0);
+  });
+
+  it('stops at the next check boundary once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const events: RunChecksProgress[] = [];
+
+    const run = runChecksPipeline(options, createPreloadedPintRunner(UAE_UC1_CHECK_PACK), {
+      signal: controller.signal,
+      onProgress: (event) => {
+        events.push(event);
+        if (event.stage === 'pint_ae' && event.completedChecks === 3) controller.abort();
+      },
+    });
+
+    const error = await run.catch((caught: unknown) => caught);
+    expect(isRunCancelledError(error)).toBe(true);
+    expect(events[events.length - 1]).toMatchObject({ stage: 'pint_ae', completedChecks: 3 });
+    expect(events.some((event) => event.stage === 'org_profile')).toBe(false);
+  });
+
+  it('re-checks only changed invoices and matches a full run', async () => {
+    const pintRunner = createPreloadedPintRunner(UAE_UC1_CHECK_PACK);
+    const first = await runChecksPipeline(options, pintRunner);
+    const [edited, ...rest] = options.headers;
+    const changedOptions = { ...options, headers: [{ ...edited, currency: 'USD' }, ...rest] };
+
+    const incremental = await runChecksPipeline({ ...changedOptions, baseline: { ...first, incremental: first.incremental! } }, pintRunner);
+    const full = await runChecksPipeline(changedOptions, pintRunner);
+
+    const summarize = (exceptions: { checkId: string; invoiceId?: string; lineId?: string; buyerId?: string }[]) =>
+      exceptions.map((exception) => [exception.checkId, exception.invoiceId, exception.lineId, exception.buyerId].join('|')).sort();
+    expect(incremental.incremental?.checkedInvoiceIds).toContain(edited.invoice_id);
+    expect(incremental.incremental?.reusedInvoiceIds.length).toBeGreaterThan(0);
+    expect(summarize(incremental.allExceptions)).toEqual(summarize(full.allExceptions));
+    expect(incremental.builtInResults.map(({ checkId, passed, failed }) => ({ checkId, passed, failed }))).toEqual(
+      full.builtInResults.map(({ checkId, passed, failed }) => ({ checkId, passed, failed }))
+    );
+    expect(incremental.runArtifact.findings.length).toBe(full.runArtifact.findings.length);
+
+    const reused = new Set(incremental.incremental?.reusedInvoiceIds);
+    incremental.runArtifact.findings.forEach((finding) => {
+      expect(finding.provenance).toBe(finding.invoiceId && reused.has(finding.invoiceId) ? 'carried_forward' : 'fresh');
+    });
+    expect(full.runArtifact.findings.every((finding) => finding.provenance === undefined)).toBe(true);
+  });
+
+  it('falls back to a full run when the ruleset changed since the baseline', async () => {
+    const pintRunner = createPreloadedPintRunner(UAE_UC1_CHECK_PACK);
+    const first = await runChecksPipeline(options, pintRunner);
+
+    const rerun = await runChecksPipeline(
+      { ...options, rulesetVersion: 'next', baseline: { ...first, incremental: first.incremental! } },
+      pintRunner
+    );
+
+    expect(rerun.incremental?.reusedInvoiceIds).toEqual([]);
+    expect(rerun.allExceptions.every((exception) => exception.provenance === undefined)).toBe(true);
+  });
+
+  it('validates uploaded UBL against the Schematron and reports its failures as PINT-AE findings', async () => {
+    const xml = PINT_AE_UBL_INVOICE_FIXTURE.replace(/\s*<cbc:UUID>[^<]*<\/cbc:UUID>/, '');
+    const document = parseUblDocument(xml, { fileName: 'INV-1001.xml' });
+    const events: RunChecksProgress[] = [];
+
+    const result = await runChecksPipeline(
+      {
+        ...options,
+        buyers: [document.buyer],
+        headers: [document.header],
+        lines: document.lines,
+        ublDocuments: [{ fileName: 'INV-1001.xml', invoiceId: document.invoiceId, xml }],
+      },
+      createPreloadedPintRunner(UAE_UC1_CHECK_PACK),
+      { onProgress: (event) => events.push(event) }
+    );
+
+    expect(result.pintExceptions.find((exception) => exception.check_id === 'IBR-193-AE')).toMatchObject({
+      invoice_id: 'INV-1001',
+      rule_type: 'structural_rule',
+      pint_reference_terms: ['BTAE-07'],
+    });
+    expect(result.allExceptions.some((exception) => exception.checkId === 'IBR-193-AE')).toBe(true);
+    expect(result.pintTelemetry.some((row) => row.rule_id === 'IBR-193-AE' && row.failure_count === 1)).toBe(true);
+    const enabledPintChecks = UAE_UC1_CHECK_PACK.filter((check) => check.is_enabled).length;
+    expect(events.filter((event) => event.stage === 'pint_ae').pop()).toMatchObject({
+      completedChecks: enabledPintChecks + 1,
+      totalChecks: enabledPintChecks + 1,
+    });
+  });
+});
@@ -0,0 +1,461 @@
+// Everything a validation run executes, with no database access, so the same code runs
+// on the main thread and inside the validation worker.
+import { RunArtifact, LayerResult, Finding, PintRunner } from '@/engine/contracts';
+import { mapLegacyExceptionsToFindings, mapPintExceptionsToFindings } from '@/engine/normalization';
+import { exceptionFingerprint } from '@/lib/exceptions/findingFingerprint';
+import { defaultCoreRunner } from '@/engine/runners/core';
+import { createPreloadedPintRunner } from '@/engine/runners/pint/preloadedPintRunner';
+import { runSchematronOnUblDocuments } from '@/engine/runners/pint/schematronRunner';
+import { defaultOrgProfileRunner } from '@/engine/runners/orgProfile';
+import { checksRegistry, countCheckRecords } from '@/lib/checks/checksRegistry';
+import {
+  DataContext,
+  Exception,
+  Severity,
+  CheckResult,
+  Buyer,
+  InvoiceHeader,
+  InvoiceLine,
+  UblSourceDocument,
+} from '@/types/compliance';
+import { Direction, OrganizationProfile } from '@/types/direction';
+import { PintAECheck, PintAEException } from '@/types/pintAE';
+import { resolveDirection } from '@/lib/direction/directionUtils';
+import { describeFieldProvenance } from '@/lib/mapping/templateIngestion';
+import { EvidenceRuleExecutionTelemetryRow } from '@/types/evidence';
+import {
+  buildInvoiceIndex,
+  buildRunSignature,
+  IncrementalPlan,
+  IncrementalRunState,
+  isCarriedForward,
+  planIncrementalRun,
+  scopeDataContext,
+  withProvenance,
+} from './incrementalRun';
+
+export type OrchestratorOptions = {
+  direction: Direction;
+  buyers: Buyer[];
+  headers: InvoiceHeader[];
+  lines: InvoiceLine[];
+  /** Raw XML of UBL uploads; each is also validated against the PINT-AE Schematron. */
+  ublDocuments?: UblSourceDocument[];
+  organizationProfile: OrganizationProfile;
+  uploadSessionId?: string;
+  uploadManifestId?: string;
+  mappingProfileId?: string;
+  rulesetVersion: string;
+  /**
+   * The previous run on this direction. When given and nothing but the data changed, only
+   * changed invoices are re-checked and the rest keep their previous findings.
+   */
+  baseline?: IncrementalBaseline;
+};
+
+export interface RunChecksOrchestrationResult {
+  dataContext: DataContext;
+  builtInResults: CheckResult[];
+  coreTelemetry: EvidenceRuleExecutionTelemetryRow[];
+  pintAEChecks: PintAECheck[];
+  pintExceptions: PintAEException[];
+  pintTelemetry: EvidenceRuleExecutionTelemetryRow[];
+  legacyPintExceptions: Exception[];
+  orgProfileExceptions: Exception[];
+  orgProfileTelemetry: EvidenceRuleExecutionTelemetryRow[];
+  allExceptions: Exception[];
+  runArtifact: RunArtifact;
+  incremental?: IncrementalRunState;
+}
+
+export type IncrementalBaseline = Pick<
+  RunChecksOrchestrationResult,
+  'builtInResults' | 'pintExceptions' | 'orgProfileExceptions' | 'runArtifact'
+> & { incremental: IncrementalRunState };
+
+export type RunChecksStage = 'core' | 'pint_ae' | 'org_profile' | 'finalize';
+
+export interface RunChecksProgress {
+  stage: RunChecksStage;
+  completedChecks: number;
+  totalChecks: number;
+  checkId?: string;
+}
+
+export interface RunChecksHooks {
+  onProgress?: (progress: RunChecksProgress) => void;
+  /** Aborting stops the run at the next check boundary with a cancellation error. */
+  signal?: AbortSignal;
+}
+
+export function createRunCancelledError(): Error {
+  const error = new Error('Validation run was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+export function isRunCancelledError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+export function throwIfRunCancelled(signal?: AbortSignal) {
+  if (signal?.aborted) throw createRunCancelledError();
+}
+
+function buildDataContext(buyers: Buyer[], headers: InvoiceHeader[], lines: InvoiceLine[]): DataContext {
+  const buyerMap = new Map(buyers.map((buyer) => [buyer.buyer_id, buyer]));
+  const headerMap = new Map(headers.map((header) => [header.invoice_id, header]));
+  const linesByInvoice = new Map<string, InvoiceLine[]>();
+
+  lines.forEach((line) => {
+    if (!linesByInvoice.has(line.invoice_id)) {
+      linesByInvoice.set(line.invoice_id, []);
+    }
+    linesByInvoice.get(line.invoice_id)!.push(line);
+  });
+
+  return { buyers, headers, lines, buyerMap, headerMap, linesByInvoice };
+}
+
+function mapPintExceptionsToLegacyExceptions(pintExceptions: PintAEException[]): Exception[] {
+  return pintExceptions.map((exception) => ({
+    ...(exception.provenance ? { provenance: exception.provenance } : {}),
+    id: exception.id,
+    checkId: exception.check_id,
+    checkName: exception.check_name,
+    severity: exception.severity,
+    message: exception.message,
+    invoiceId: exception.invoice_id,
+    invoiceNumber: exception.invoice_number,
+    sellerTrn: exception.seller_trn,
+    buyerId: exception.buyer_id,
+    lineId: exception.line_id,
+    field: exception.field_name,
+    expectedValue: exception.expected_value_or_rule,
+    actualValue: exception.observed_value,
+  }));
+}
+
+type SourceRecord = Buyer | InvoiceHeader | InvoiceLine;
+
+// Records ingested from UBL XML carry element locators; point the exception at the
+// failing field's element when known, otherwise at the record's element. Rows read
+// through a mapping template point at the source column the failing field came from.
+function resolveSourceLocation(
+  exception: Exception,
+  dataContext: DataContext,
+  linesById: Map<string, InvoiceLine>
+): Pick<Exception, 'sourceFileName' | 'sourceLocator'> {
+  const candidates = [
+    exception.lineId ? linesById.get(exception.lineId) : undefined,
+    exception.invoiceId ? dataContext.headerMap.get(exception.invoiceId) : undefined,
+    exception.buyerId ? dataContext.buyerMap.get(exception.buyerId) : undefined,
+  ].filter((record): record is SourceRecord => Boolean(record));
+  const records = candidates.filter((record) => Boolean(record.source_locator));
+  if (records.length === 0) {
+    const provenance = exception.field
+      ? candidates.map((record) => record.field_provenance?.[exception.field!]).find(Boolean)
+      : undefined;
+    return provenance ? { sourceLocator: describeFieldProvenance(provenance) } : {};
+  }
+
+  const fieldRecord = exception.field
+    ? records.find((record) => record.source_field_locators?.[exception.field!])
+    : undefined;
+  const record = fieldRecord || records[0];
+  return {
+    sourceFileName: record.source_file_name,
+    sourceLocator: fieldRecord ? fieldRecord.source_field_locators![exception.field!] : record.source_locator,
+  };
+}
+
+function enrichLegacyExceptions(
+  exceptions: Exception[],
+  dataContext: DataContext,
+  options: {
+    direction: Direction;
+    uploadSessionId?: string;
+    uploadManifestId?: string;
+    mappingProfileId?: string;
+    rulesetVersion: string;
+  }
+): Exception[] {
+  const linesById = new Map(dataContext.lines.map((line) => [line.line_id, line]));
+  return exceptions.map((exception) => ({
+    ...exception,
+    ...(exception.sourceLocator ? {} : resolveSourceLocation(exception, dataContext, linesById)),
+    datasetType: options.direction,
+    direction: resolveDirection(exception.direction || options.direction),
+    ruleId: exception.ruleId || exception.checkId,
+    uploadSessionId: exception.uploadSessionId || options.uploadSessionId || undefined,
+    uploadManifestId: exception.uploadManifestId || options.uploadManifestId || undefined,
+    mappingProfileId: exception.mappingProfileId || options.mappingProfileId || undefined,
+    rulesetVersion: exception.rulesetVersion || options.rulesetVersion,
+    status: exception.status || 'Open',
+    fingerprint: exceptionFingerprint(exception),
+  }));
+}
+
+function buildSeverityTotals(findings: Finding[]): Record<Severity, number> {
+  const totals: Record<Severity, number> = { Critical: 0, High: 0, Medium: 0, Low: 0 };
+  findings.forEach((finding) => {
+    totals[finding.severity]++;
+  });
+  return totals;
+}
+
+function buildLayerResult(layer: LayerResult['layer'], findings: Finding[]): LayerResult {
+  return {
+    layer,
+    findings,
+    totals: {
+      findings: findings.length,
+      bySeverity: buildSeverityTotals(findings),
+    },
+  };
+}
+
+// Pass/fail counts cover the whole upload, not just the re-checked invoices.
+function mergeBuiltInResults(
+  freshResults: CheckResult[],
+  baseline: IncrementalBaseline,
+  plan: IncrementalPlan,
+  dataContext: DataContext
+): CheckResult[] {
+  return freshResults.map((result) => {
+    const previous = baseline.builtInResults.find((entry) => entry.checkId === result.checkId);
+    const exceptions = [
+      ...withProvenance(result.exceptions, 'fresh'),
+      ...withProvenance(
+        (previous?.exceptions ?? []).filter((exception) => isCarriedForward(exception.invoiceId, plan)),
+        'carried_forward'
+      ),
+    ];
+    const check = checksRegistry.find((entry) => entry.id === result.checkId);
+    const totalRecords = check ? countCheckRecords(check, dataContext) : result.passed + result.failed;
+    return { ...result, passed: totalRecords - exceptions.length, failed: exceptions.length, exceptions };
+  });
+}
+
+function carryForward<T extends { provenance?: Exception['provenance'] }>(
+  fresh: T[],
+  previous: T[],
+  plan: IncrementalPlan | null,
+  invoiceIdOf: (item: T) => string | undefined
+): T[] {
+  if (!plan) return fresh;
+  return [
+    ...withProvenance(fresh, 'fresh'),
+    ...withProvenance(previous.filter((item) => isCarriedForward(invoiceIdOf(item), plan)), 'carried_forward'),
+  ];
+}
+
+/**
+ * Returns a per-check hook that reports progress for one stage and stops the run when
+ * cancelled, or undefined when the caller asked for neither so runners take their plain path.
+ */
+function createStageTracker(hooks: RunChecksHooks, stage: RunChecksStage, totalChecks: number) {
+  if (!hooks.onProgress && !hooks.signal) return undefined;
+  let completedChecks = 0;
+  hooks.onProgress?.({ stage, completedChecks, totalChecks });
+  return (checkId: string) => {
+    throwIfRunCancelled(hooks.signal);
+    completedChecks++;
+    hooks.onProgress?.({ stage, completedChecks, totalChecks, checkId });
+  };
+}
+
+export async function runChecksPipeline(
+  options: OrchestratorOptions,
+  pintRunner: PintRunner,
+  hooks: RunChecksHooks = {}
+): Promise<RunChecksOrchestrationResult> {
+  const startedAt = new Date().toISOString();
+  const tracking = Boolean(hooks.onProgress || hooks.signal);
+
+  const dataContext = buildDataContext(options.buyers, options.headers, options.lines);
+  const invoiceIndex = buildInvoiceIndex(dataContext);
+  const { baseline } = options;
+
+  let loadedPintChecks: PintAECheck[] | null = null;
+  const loadPintChecks = async () => {
+    if (!loadedPintChecks) {
+      await pintRunner.seedCheckPack(false);
+      loadedPintChecks = await pintRunner.loadChecks();
+    }
+    return loadedPintChecks;
+  };
+  const signatureOf = (pintChecks: PintAECheck[]) =>
+    buildRunSignature({
+      direction: options.direction,
+      rulesetVersion: options.rulesetVersion,
+      organizationProfile: options.organizationProfile,
+      pintAEChecks: pintChecks,
+    });
+
+  // The check pack is part of the run signature, so an incremental run loads it first.
+  const plan =
+    baseline && baseline.incremental.signature === signatureOf(await loadPintChecks())
+      ? planIncrementalRun(invoiceIndex, baseline.incremental.invoiceIndex)
+      : null;
+  const checkedContext = plan ? scopeDataContext(dataContext, plan.checkedInvoiceIds) : dataContext;
+
+  // Keep execution order identical to current active flow.
+  const {
+    checkResults: freshBuiltInResults,
+    telemetry: coreTelemetry,
+  } = defaultCoreRunner.run({
+    dataContext: checkedContext,
+    onCheckComplete: createStageTracker(hooks, 'core', tracking ? checksRegistry.length : 0),
+  });
+  throwIfRunCancelled(hooks.signal);
+  const pintChecksToRun = await loadPintChecks();
+  throwIfRunCancelled(hooks.signal);
+  // Schematron documents count as PINT-AE stage steps after the check pack.
+  const schematronDocuments = (options.ublDocuments ?? []).filter((document) =>
+    checkedContext.headerMap.has(document.invoiceId)
+  );
+  const trackPint = createStageTracker(
+    hooks,
+    'pint_ae',
+    pintChecksToRun.filter((check) => check.is_enabled).length + schematronDocuments.length
+  );
+  const {
+    checks: pintAEChecks,
+    exceptions: checkPackExceptions,
+    telemetry: checkPackTelemetry,
+  } = await createPreloadedPintRunner(pintChecksToRun).run({
+    dataContext: checkedContext,
+    onCheckComplete: trackPint,
+  });
+  const schematron = runSchematronOnUblDocuments(schematronDocuments, dataContext, {
+    datasetType: options.direction,
+    onDocumentComplete: trackPint,
+  });
+  const freshPintExceptions = [...checkPackExceptions, ...schematron.exceptions];
+  const pintTelemetry = [...checkPackTelemetry, ...schematron.telemetry];
+  const trackOrgProfile = createStageTracker(hooks, 'org_profile', 1);
+  const { exceptions: freshOrgProfileExceptions, telemetry: orgProfileTelemetry } = defaultOrgProfileRunner.run({
+    organizationProfile: options.organizationProfile,
+    direction: options.direction,
+    headers: checkedContext.headers,
+    buyerMap: dataContext.buyerMap,
+    uploadSessionId: options.uploadSessionId || undefined,
+    uploadManifestId: options.uploadManifestId || undefined,
+    mappingProfileId: options.mappingProfileId,
+    rulesetVersion: options.rulesetVersion,
+  });
+  trackOrgProfile?.('org_profile');
+  hooks.onProgress?.({ stage: 'finalize', completedChecks: 0, totalChecks: 1 });
+
+  const builtInResults =
+    baseline && plan ? mergeBuiltInResults(freshBuiltInResults, baseline, plan, dataContext) : freshBuiltInResults;
+  const pintExceptions = carryForward(
+    freshPintExceptions,
+    baseline?.pintExceptions ?? [],
+    plan,
+    (exception) => exception.invoice_id
+  );
+  const legacyPintExceptions = mapPintExceptionsToLegacyExceptions(pintExceptions);
+  const orgProfileExceptions = carryForward(
+    freshOrgProfileExceptions,
+    baseline?.orgProfileExceptions ?? [],
+    plan,
+    (exception) => exception.invoiceId
+  );
+
+  const allExceptions = enrichLegacyExceptions(
+    [
+      ...builtInResults.flatMap((result) => result.exceptions),
+      ...legacyPintExceptions,
+      ...orgProfileExceptions,
+    ],
+    dataContext,
+    {
+      direction: options.direction,
+      uploadSessionId: options.uploadSessionId,
+      uploadManifestId: options.uploadManifestId,
+      mappingProfileId: options.mappingProfileId,
+      rulesetVersion: options.rulesetVersion,
+    }
+  );
+
+  // Findings for unchanged invoices are reused as-is from the previous run artifact.
+  const carriedFindings = baseline && plan
+    ? withProvenance(
+      baseline.runArtifact.findings.filter((finding) => isCarriedForward(finding.invoiceId, plan)),
+      'carried_forward'
+    )
+    : [];
+  const layerFindings = (layer: LayerResult['layer'], fresh: Finding[]) => [
+    ...(plan ? withProvenance(fresh, 'fresh') : fresh),
+    ...carriedFindings.filter((finding) => finding.layer === layer),
+  ];
+  const coreFindings = layerFindings('core', mapLegacyExceptionsToFindings(
+    freshBuiltInResults.flatMap((result) => result.exceptions),
+    { layer: 'core' }
+  ));
+  const pintFindings = layerFindings('pint_ae', mapPintExceptionsToFindings(freshPintExceptions));
+  const orgFindings = layerFindings('custom', mapLegacyExceptionsToFindings(freshOrgProfileExceptions, { layer: 'custom' }));
+
+  const layerResults: LayerResult[] = [
+    buildLayerResult('core', coreFindings),
+    buildLayerResult('pint_ae', pintFindings),
+    buildLayerResult('custom', orgFindings),
+  ];
+  const findings = [...coreFindings, ...pintFindings, ...orgFindings];
+
+  const incremental: IncrementalRunState = {
+    signature: signatureOf(pintChecksToRun),
+    invoiceIndex,
+    checkedInvoiceIds: plan ? Array.from(plan.checkedInvoiceIds) : Object.keys(invoiceIndex),
+    reusedInvoiceIds: plan ? Array.from(plan.reusedInvoiceIds) : [],
+  };
+
+  const runArtifact: RunArtifact = {
+    startedAt,
+    endedAt: new Date().toISOString(),
+    scope: options.direction,
+    layerResults,
+    findings,
+    metadata: {
+      builtInResults: builtInResults.length,
+      coreTelemetryRules: coreTelemetry.length,
+      pintChecks: pintAEChecks.length,
+      pintExceptions: pintExceptions.length,
+      pintTelemetryRules: pintTelemetry.length,
+      ...(schematronDocuments.length
+        ? {
+          schematronDocuments: schematronDocuments.length,
+          schematronExceptions: schematron.exceptions.length,
+          schematronEvaluationErrors: schematron.evaluationErrors.length,
+          schematronDocumentErrors: schematron.documentErrors.length,
+        }
+        : {}),
+      orgProfileExceptions: orgProfileExceptions.length,
+      orgProfileTelemetryRules: orgProfileTelemetry.length,
+      allExceptions: allExceptions.length,
+      ...(plan
+        ? {
+          incrementalCheckedInvoices: plan.checkedInvoiceIds.size,
+          incrementalReusedInvoices: plan.reusedInvoiceIds.size,
+        }
+        : {}),
+    },
+  };
+
+  return {
+    dataContext,
+    builtInResults,
+    coreTelemetry,
+    pintAEChecks,
+    pintExceptions,
+    pintTelemetry,
+    legacyPintExceptions,
+    orgProfileExceptions,
+    orgProfileTelemetry,
+    allExceptions,
+    runArtifact,
+    incremental,
+  };
+}
@@ -2,7 +2,9 @@ import { CoreRunner } from '@/engine/contracts';
 import { runAllChecksWithTelemetry } from '@/lib/checks/checksRegistry';
 
 export const defaultCoreRunner: CoreRunner = {
-  run({ dataContext }) {
-    return runAllChecksWithTelemetry(dataContext);
+  run({ dataContext, onCheckComplete }) {
+    return onCheckComplete
+      ? runAllChecksWithTelemetry(dataContext, { onCheckComplete })
+      : runAllChecksWithTelemetry(dataContext);
   },
 };
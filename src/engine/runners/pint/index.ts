@@ -1 +1,3 @@
 export * from './pintRunner';
+export * from './preloadedPintRunner';
+export * from './schematronRunner';
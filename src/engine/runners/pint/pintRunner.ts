@@ -1,15 +1,18 @@
 import { PintRunner } from '@/engine/contracts';
 import { fetchEnabledPintAEChecks, seedUC1CheckPack } from '@/lib/api/pintAEApi';
-import { runAllPintAEChecksWithTelemetry } from '@/lib/checks/pintAECheckRunner';
+import { createPreloadedPintRunner } from './preloadedPintRunner';
 
 export const defaultPintRunner: PintRunner = {
   async seedCheckPack(forceUpsert = false) {
     return seedUC1CheckPack(forceUpsert);
   },
 
-  async run({ dataContext }) {
+  async loadChecks() {
+    return fetchEnabledPintAEChecks();
+  },
+
+  async run(input) {
     const checks = await fetchEnabledPintAEChecks();
-    const { exceptions, telemetry } = runAllPintAEChecksWithTelemetry(checks, dataContext);
-    return { checks, exceptions, telemetry };
+    return createPreloadedPintRunner(checks).run(input);
   },
 };
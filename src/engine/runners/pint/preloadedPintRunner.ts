@@ -0,0 +1,26 @@
+import { PintRunner } from '@/engine/contracts';
+import { runAllPintAEChecksWithTelemetry } from '@/lib/checks/pintAECheckRunner';
+import { PintAECheck } from '@/types/pintAE';
+
+/**
+ * Runs a check pack that was already fetched. It has no database access, so it is the
+ * PINT runner used inside the validation worker.
+ */
+export function createPreloadedPintRunner(checks: PintAECheck[]): PintRunner {
+  return {
+    async seedCheckPack() {
+      return { success: true, message: 'Check pack was loaded before the run' };
+    },
+
+    async loadChecks() {
+      return checks;
+    },
+
+    async run({ dataContext, onCheckComplete }) {
+      const { exceptions, telemetry } = onCheckComplete
+        ? runAllPintAEChecksWithTelemetry(checks, dataContext, { onCheckComplete })
+        : runAllPintAEChecksWithTelemetry(checks, dataContext);
+      return { checks, exceptions, telemetry };
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import { runSchematronValidation, SchematronEvaluationError } from '@/lib/pintAE/schematronEngine';
+import { DataContext, UblSourceDocument } from '@/types/compliance';
+import { DatasetType } from '@/types/datasets';
+import { EvidenceRuleExecutionTelemetryRow } from '@/types/evidence';
+import { PintAEException } from '@/types/pintAE';
+
+export interface SchematronDocumentError {
+  fileName?: string;
+  invoiceId: string;
+  message: string;
+}
+
+export interface SchematronRunnerResult {
+  exceptions: PintAEException[];
+  telemetry: EvidenceRuleExecutionTelemetryRow[];
+  evaluationErrors: (SchematronEvaluationError & { invoice_id: string })[];
+  documentErrors: SchematronDocumentError[];
+}
+
+/**
+ * Runs every fatal and warning PINT-AE Schematron rule against the raw XML of uploaded UBL
+ * documents. Findings point at the same invoice, line and counterparty ids the flattened
+ * records carry, so they sit alongside the PINT-AE check findings for those invoices.
+ */
+export function runSchematronOnUblDocuments(
+  documents: UblSourceDocument[],
+  dataContext: DataContext,
+  options: {
+    datasetType?: DatasetType;
+    timestamp?: string;
+    onDocumentComplete?: (invoiceId: string) => void;
+  } = {}
+): SchematronRunnerResult {
+  const exceptions: PintAEException[] = [];
+  const telemetryByRule = new Map<string, EvidenceRuleExecutionTelemetryRow>();
+  const evaluationErrors: SchematronRunnerResult['evaluationErrors'] = [];
+  const documentErrors: SchematronDocumentError[] = [];
+  const timestamp = options.timestamp ?? new Date().toISOString();
+
+  for (const document of documents) {
+    try {
+      const result = runSchematronValidation(document.xml, { datasetType: options.datasetType, timestamp });
+      const header = dataContext.headerMap.get(document.invoiceId);
+      result.exceptions.forEach((exception) => {
+        exceptions.push({
+          ...exception,
+          invoice_id: document.invoiceId,
+          seller_trn: header?.seller_trn ?? exception.seller_trn,
+          buyer_id: header?.buyer_id ?? exception.buyer_id,
+          line_id: exception.line_id ? `${document.invoiceId}-${exception.line_id}` : undefined,
+        });
+      });
+      result.telemetry.forEach((row) => {
+        const total = telemetryByRule.get(row.rule_id);
+        telemetryByRule.set(
+          row.rule_id,
+          total
+            ? {
+              ...total,
+              execution_count: total.execution_count + row.execution_count,
+              failure_count: total.failure_count + row.failure_count,
+            }
+            : { ...row }
+        );
+      });
+      result.evaluationErrors.forEach((error) => evaluationErrors.push({ ...error, invoice_id: document.invoiceId }));
+    } catch (error) {
+      documentErrors.push({
+        fileName: document.fileName,
+        invoiceId: document.invoiceId,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+    options.onDocumentComplete?.(document.invoiceId);
+  }
+
+  return { exceptions, telemetry: Array.from(telemetryByRule.values()), evaluationErrors, documentErrors };
+}
@@ -0,0 +1,8 @@
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { hasPermission, PermissionAction } from '@/lib/access/permissions';
+
+/** Whether the signed-in user's role in the active workspace allows the action. */
+export function usePermission(action: PermissionAction): boolean {
+  const { activeRole } = useWorkspace();
+  return hasPermission(activeRole, action);
+}
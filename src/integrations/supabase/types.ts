@@ -14,6 +14,125 @@ export type Database = {
   }
   public: {
     Tables: {
+      approval_requests: {
+        Row: {
+          decided_at: string | null
+          decided_by: string | null
+          decided_by_name: string | null
+          decision_comment: string | null
+          entity_id: string
+          entity_label: string
+          entity_type: string
+          id: string
+          justification: string
+          kind: string
+          payload: Json
+          reason_code: string | null
+          requested_at: string
+          requested_by: string | null
+          requested_by_name: string | null
+          status: string
+          tenant_id: string
+        }
+        Insert: {
+          decided_at?: string | null
+          decided_by?: string | null
+          decided_by_name?: string | null
+          decision_comment?: string | null
+          entity_id: string
+          entity_label: string
+          entity_type: string
+          id?: string
+          justification: string
+          kind: string
+          payload?: Json
+          reason_code?: string | null
+          requested_at?: string
+          requested_by?: string | null
+          requested_by_name?: string | null
+          status?: string
+          tenant_id: string
+        }
+        Update: {
+          decided_at?: string | null
+          decided_by?: string | null
+          decided_by_name?: string | null
+          decision_comment?: string | null
+          entity_id?: string
+          entity_label?: string
+          entity_type?: string
+          id?: string
+          justification?: string
+          kind?: string
+          payload?: Json
+          reason_code?: string | null
+          requested_at?: string
+          requested_by?: string | null
+          requested_by_name?: string | null
+          status?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "approval_requests_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_exception_links: {
+        Row: {
+          case_id: string
+          check_id: string | null
+          created_at: string
+          exception_ref: string | null
+          fingerprint: string
+          id: string
+          invoice_id: string | null
+          run_id: string | null
+          tenant_id: string
+        }
+        Insert: {
+          case_id: string
+          check_id?: string | null
+          created_at?: string
+          exception_ref?: string | null
+          fingerprint: string
+          id?: string
+          invoice_id?: string | null
+          run_id?: string | null
+          tenant_id: string
+        }
+        Update: {
+          case_id?: string
+          check_id?: string | null
+          created_at?: string
+          exception_ref?: string | null
+          fingerprint?: string
+          id?: string
+          invoice_id?: string | null
+          run_id?: string | null
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_exception_links_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "case_exception_links_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "check_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       case_notes: {
         Row: {
           case_id: string
@@ -21,6 +140,7 @@ export type Database = {
           created_by: string | null
           id: string
           note: string
+          tenant_id: string
         }
         Insert: {
           case_id: string
@@ -28,6 +148,7 @@ export type Database = {
           created_by?: string | null
           id?: string
           note: string
+          tenant_id: string
         }
         Update: {
           case_id?: string
@@ -35,6 +156,7 @@ export type Database = {
           created_by?: string | null
           id?: string
           note?: string
+          tenant_id?: string
         }
         Relationships: [
           {
@@ -46,12 +168,65 @@ export type Database = {
           },
         ]
       }
+      case_routing_rules: {
+        Row: {
+          check_ids: string[]
+          created_at: string
+          grouping: string
+          id: string
+          is_active: boolean
+          min_occurrences: number
+          name: string
+          owner_team: string | null
+          priority: number
+          seller_trns: string[]
+          severities: string[]
+          sla_hours: number | null
+          source: string | null
+          tenant_id: string
+        }
+        Insert: {
+          check_ids?: string[]
+          created_at?: string
+          grouping?: string
+          id?: string
+          is_active?: boolean
+          min_occurrences?: number
+          name: string
+          owner_team?: string | null
+          priority?: number
+          seller_trns?: string[]
+          severities?: string[]
+          sla_hours?: number | null
+          source?: string | null
+          tenant_id: string
+        }
+        Update: {
+          check_ids?: string[]
+          created_at?: string
+          grouping?: string
+          id?: string
+          is_active?: boolean
+          min_occurrences?: number
+          name?: string
+          owner_team?: string | null
+          priority?: number
+          seller_trns?: string[]
+          severities?: string[]
+          sla_hours?: number | null
+          source?: string | null
+          tenant_id?: string
+        }
+        Relationships: []
+      }
       cases: {
         Row: {
           buyer_id: string | null
           case_number: string
           check_name: string | null
           created_at: string
+          escalated_at: string | null
+          escalation_level: string
           exception_id: string | null
           id: string
           invoice_id: string
@@ -60,11 +235,16 @@ export type Database = {
           owner_team: string
           resolution_notes: string | null
           resolved_at: string | null
+          routing_key: string | null
+          routing_rule_id: string | null
           seller_trn: string | null
           severity: string
           sla_hours: number
+          sla_paused_at: string | null
+          sla_paused_minutes: number
           sla_target_at: string | null
           status: string
+          tenant_id: string
           updated_at: string
         }
         Insert: {
@@ -72,6 +252,8 @@ export type Database = {
           case_number: string
           check_name?: string | null
           created_at?: string
+          escalated_at?: string | null
+          escalation_level?: string
           exception_id?: string | null
           id?: string
           invoice_id: string
@@ -80,11 +262,16 @@ export type Database = {
           owner_team: string
           resolution_notes?: string | null
           resolved_at?: string | null
+          routing_key?: string | null
+          routing_rule_id?: string | null
           seller_trn?: string | null
           severity: string
           sla_hours?: number
+          sla_paused_at?: string | null
+          sla_paused_minutes?: number
           sla_target_at?: string | null
           status?: string
+          tenant_id: string
           updated_at?: string
         }
         Update: {
@@ -92,6 +279,8 @@ export type Database = {
           case_number?: string
           check_name?: string | null
           created_at?: string
+          escalated_at?: string | null
+          escalation_level?: string
           exception_id?: string | null
           id?: string
           invoice_id?: string
@@ -100,14 +289,27 @@ export type Database = {
           owner_team?: string
           resolution_notes?: string | null
           resolved_at?: string | null
+          routing_key?: string | null
+          routing_rule_id?: string | null
           seller_trn?: string | null
           severity?: string
           sla_hours?: number
+          sla_paused_at?: string | null
+          sla_paused_minutes?: number
           sla_target_at?: string | null
           status?: string
+          tenant_id?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "cases_routing_rule_id_fkey"
+            columns: ["routing_rule_id"]
+            isOneToOne: false
+            referencedRelation: "case_routing_rules"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       check_exceptions: {
         Row: {
@@ -120,6 +322,7 @@ export type Database = {
           dataset_type: string | null
           expected_value_or_rule: string | null
           field_name: string | null
+          fingerprint: string | null
           id: string
           invoice_id: string | null
           invoice_number: string | null
@@ -136,6 +339,7 @@ export type Database = {
           severity: string
           sla_target_hours: number | null
           suggested_fix: string | null
+          tenant_id: string
           timestamp: string
           use_case: string | null
         }
@@ -149,6 +353,7 @@ export type Database = {
           dataset_type?: string | null
           expected_value_or_rule?: string | null
           field_name?: string | null
+          fingerprint?: string | null
           id?: string
           invoice_id?: string | null
           invoice_number?: string | null
@@ -165,6 +370,7 @@ export type Database = {
           severity: string
           sla_target_hours?: number | null
           suggested_fix?: string | null
+          tenant_id: string
           timestamp?: string
           use_case?: string | null
         }
@@ -178,6 +384,7 @@ export type Database = {
           dataset_type?: string | null
           expected_value_or_rule?: string | null
           field_name?: string | null
+          fingerprint?: string | null
           id?: string
           invoice_id?: string | null
           invoice_number?: string | null
@@ -194,6 +401,7 @@ export type Database = {
           severity?: string
           sla_target_hours?: number | null
           suggested_fix?: string | null
+          tenant_id?: string
           timestamp?: string
           use_case?: string | null
         }
@@ -225,8 +433,10 @@ export type Database = {
           pass_rate: number
           results_summary: Json | null
           run_date: string
+          tenant_id: string
           total_exceptions: number
           total_invoices: number
+          upload_session_id: string | null
         }
         Insert: {
           critical_count?: number
@@ -238,8 +448,10 @@ export type Database = {
           pass_rate?: number
           results_summary?: Json | null
           run_date?: string
+          tenant_id: string
           total_exceptions?: number
           total_invoices?: number
+          upload_session_id?: string | null
         }
         Update: {
           critical_count?: number
@@ -251,8 +463,10 @@ export type Database = {
           pass_rate?: number
           results_summary?: Json | null
           run_date?: string
+          tenant_id?: string
           total_exceptions?: number
           total_invoices?: number
+          upload_session_id?: string | null
         }
         Relationships: []
       }
@@ -266,6 +480,7 @@ export type Database = {
           score: number
           seller_trn: string
           sla_breaches: number | null
+          tenant_id: string
           total_invoices: number | null
           total_rejections: number | null
         }
@@ -278,6 +493,7 @@ export type Database = {
           score?: number
           seller_trn: string
           sla_breaches?: number | null
+          tenant_id: string
           total_invoices?: number | null
           total_rejections?: number | null
         }
@@ -290,6 +506,7 @@ export type Database = {
           score?: number
           seller_trn?: string
           sla_breaches?: number | null
+          tenant_id?: string
           total_invoices?: number | null
           total_rejections?: number | null
         }
@@ -308,6 +525,7 @@ export type Database = {
           risk_score: number
           run_id: string
           seller_trn: string
+          tenant_id: string
           total_exceptions: number
           total_invoices: number
         }
@@ -323,6 +541,7 @@ export type Database = {
           risk_score?: number
           run_id: string
           seller_trn: string
+          tenant_id: string
           total_exceptions?: number
           total_invoices?: number
         }
@@ -338,6 +557,7 @@ export type Database = {
           risk_score?: number
           run_id?: string
           seller_trn?: string
+          tenant_id?: string
           total_exceptions?: number
           total_invoices?: number
         }
@@ -364,6 +584,7 @@ export type Database = {
           parameters: Json
           rule_type: string
           severity: string
+          tenant_id: string
           updated_at: string
         }
         Insert: {
@@ -378,6 +599,7 @@ export type Database = {
           parameters?: Json
           rule_type: string
           severity: string
+          tenant_id: string
           updated_at?: string
         }
         Update: {
@@ -392,10 +614,150 @@ export type Database = {
           parameters?: Json
           rule_type?: string
           severity?: string
+          tenant_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      exception_status_history: {
+        Row: {
+          actor_id: string | null
+          actor_name: string | null
+          assignee: string | null
+          comment: string | null
+          created_at: string
+          exception_ref: string | null
+          fingerprint: string
+          from_status: string
+          id: string
+          reason_code: string | null
+          tenant_id: string
+          to_status: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_name?: string | null
+          assignee?: string | null
+          comment?: string | null
+          created_at?: string
+          exception_ref?: string | null
+          fingerprint: string
+          from_status: string
+          id?: string
+          reason_code?: string | null
+          tenant_id: string
+          to_status: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_name?: string | null
+          assignee?: string | null
+          comment?: string | null
+          created_at?: string
+          exception_ref?: string | null
+          fingerprint?: string
+          from_status?: string
+          id?: string
+          reason_code?: string | null
+          tenant_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exception_status_history_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exception_views: {
+        Row: {
+          created_at: string
+          filters: Json
+          id: string
+          is_pinned: boolean
+          is_shared: boolean
+          name: string
+          owner_id: string
+          owner_name: string | null
+          tenant_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          is_pinned?: boolean
+          is_shared?: boolean
+          name: string
+          owner_id?: string
+          owner_name?: string | null
+          tenant_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          filters?: Json
+          id?: string
+          is_pinned?: boolean
+          is_shared?: boolean
+          name?: string
+          owner_id?: string
+          owner_name?: string | null
+          tenant_id?: string
           updated_at?: string
         }
         Relationships: []
       }
+      exception_workflow_states: {
+        Row: {
+          assignee: string | null
+          exception_ref: string | null
+          fingerprint: string
+          id: string
+          reason_code: string | null
+          status: string
+          tenant_id: string
+          updated_at: string
+          updated_by: string | null
+          updated_by_name: string | null
+        }
+        Insert: {
+          assignee?: string | null
+          exception_ref?: string | null
+          fingerprint: string
+          id?: string
+          reason_code?: string | null
+          status?: string
+          tenant_id: string
+          updated_at?: string
+          updated_by?: string | null
+          updated_by_name?: string | null
+        }
+        Update: {
+          assignee?: string | null
+          exception_ref?: string | null
+          fingerprint?: string
+          id?: string
+          reason_code?: string | null
+          status?: string
+          tenant_id?: string
+          updated_at?: string
+          updated_by?: string | null
+          updated_by_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exception_workflow_states_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       entity_scores: {
         Row: {
           created_at: string
@@ -409,6 +771,7 @@ export type Database = {
           medium_count: number
           run_id: string
           score: number
+          tenant_id: string
           total_exceptions: number
         }
         Insert: {
@@ -423,6 +786,7 @@ export type Database = {
           medium_count?: number
           run_id: string
           score?: number
+          tenant_id: string
           total_exceptions?: number
         }
         Update: {
@@ -437,6 +801,7 @@ export type Database = {
           medium_count?: number
           run_id?: string
           score?: number
+          tenant_id?: string
           total_exceptions?: number
         }
         Relationships: [
@@ -461,6 +826,7 @@ export type Database = {
           previous_status: string | null
           seller_trn: string
           status: string
+          tenant_id: string
         }
         Insert: {
           buyer_id?: string | null
@@ -473,6 +839,7 @@ export type Database = {
           previous_status?: string | null
           seller_trn: string
           status: string
+          tenant_id: string
         }
         Update: {
           buyer_id?: string | null
@@ -485,6 +852,7 @@ export type Database = {
           previous_status?: string | null
           seller_trn?: string
           status?: string
+          tenant_id?: string
         }
         Relationships: []
       }
@@ -503,6 +871,7 @@ export type Database = {
           matched_invoice_number: string | null
           message: string
           run_id: string | null
+          tenant_id: string
         }
         Insert: {
           check_id: string
@@ -518,6 +887,7 @@ export type Database = {
           matched_invoice_number?: string | null
           message: string
           run_id?: string | null
+          tenant_id: string
         }
         Update: {
           check_id?: string
@@ -533,6 +903,7 @@ export type Database = {
           matched_invoice_number?: string | null
           message?: string
           run_id?: string | null
+          tenant_id?: string
         }
         Relationships: [
           {
@@ -544,6 +915,50 @@ export type Database = {
           },
         ]
       }
+      mapping_template_rollbacks: {
+        Row: {
+          from_version: number
+          id: string
+          performed_at: string
+          performed_by: string
+          reason: string
+          restored_template_id: string
+          template_name: string
+          tenant_id: string
+          to_version: number
+        }
+        Insert: {
+          from_version: number
+          id?: string
+          performed_at?: string
+          performed_by: string
+          reason: string
+          restored_template_id: string
+          template_name: string
+          tenant_id: string
+          to_version: number
+        }
+        Update: {
+          from_version?: number
+          id?: string
+          performed_at?: string
+          performed_by?: string
+          reason?: string
+          restored_template_id?: string
+          template_name?: string
+          tenant_id?: string
+          to_version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mapping_template_rollbacks_restored_template_id_fkey"
+            columns: ["restored_template_id"]
+            isOneToOne: false
+            referencedRelation: "mapping_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       mapping_templates: {
         Row: {
           client_name: string | null
@@ -553,11 +968,12 @@ export type Database = {
           erp_type: string | null
           id: string
           is_active: boolean
+          legacy_tenant_ref: string | null
           legal_entity: string | null
           mappings: Json
           seller_trn: string | null
           template_name: string
-          tenant_id: string | null
+          tenant_id: string
           updated_at: string
           version: number
         }
@@ -569,11 +985,12 @@ export type Database = {
           erp_type?: string | null
           id?: string
           is_active?: boolean
+          legacy_tenant_ref?: string | null
           legal_entity?: string | null
           mappings?: Json
           seller_trn?: string | null
           template_name: string
-          tenant_id?: string | null
+          tenant_id: string
           updated_at?: string
           version?: number
         }
@@ -585,16 +1002,130 @@ export type Database = {
           erp_type?: string | null
           id?: string
           is_active?: boolean
+          legacy_tenant_ref?: string | null
           legal_entity?: string | null
           mappings?: Json
           seller_trn?: string | null
           template_name?: string
-          tenant_id?: string | null
+          tenant_id?: string
           updated_at?: string
           version?: number
         }
         Relationships: []
       }
+      notification_outbox: {
+        Row: {
+          attempts: number
+          body: string
+          case_id: string | null
+          channel: string
+          claimed_at: string | null
+          created_at: string
+          dedupe_key: string
+          escalation_level: string | null
+          id: string
+          last_error: string | null
+          recipient: string
+          recipient_role: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          tenant_id: string
+        }
+        Insert: {
+          attempts?: number
+          body?: string
+          case_id?: string | null
+          channel: string
+          claimed_at?: string | null
+          created_at?: string
+          dedupe_key: string
+          escalation_level?: string | null
+          id?: string
+          last_error?: string | null
+          recipient: string
+          sent_at?: string | null
+          status?: string
+          subject: string
+          tenant_id: string
+        }
+        Update: {
+          attempts?: number
+          body?: string
+          case_id?: string | null
+          channel?: string
+          claimed_at?: string | null
+          created_at?: string
+          dedupe_key?: string
+          escalation_level?: string | null
+          id?: string
+          last_error?: string | null
+          recipient?: string
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_outbox_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_reads: {
+        Row: {
+          notification_id: string
+          read_at: string
+          user_id: string
+        }
+        Insert: {
+          notification_id: string
+          read_at?: string
+          user_id?: string
+        }
+        Update: {
+          notification_id?: string
+          read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_reads_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notification_outbox"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_settings: {
+        Row: {
+          engagement_manager_email: string
+          team_lead_email: string
+          tenant_id: string
+          updated_at: string
+          webhook_url: string
+        }
+        Insert: {
+          engagement_manager_email?: string
+          team_lead_email?: string
+          tenant_id: string
+          updated_at?: string
+          webhook_url?: string
+        }
+        Update: {
+          engagement_manager_email?: string
+          team_lead_email?: string
+          tenant_id?: string
+          updated_at?: string
+          webhook_url?: string
+        }
+        Relationships: []
+      }
       pint_ae_checks: {
         Row: {
           check_id: string
@@ -614,6 +1145,7 @@ export type Database = {
           scope: string
           severity: string
           suggested_fix: string | null
+          tenant_id: string
           updated_at: string
           use_case: string | null
         }
@@ -635,6 +1167,7 @@ export type Database = {
           scope: string
           severity: string
           suggested_fix?: string | null
+          tenant_id: string
           updated_at?: string
           use_case?: string | null
         }
@@ -656,6 +1189,7 @@ export type Database = {
           scope?: string
           severity?: string
           suggested_fix?: string | null
+          tenant_id?: string
           updated_at?: string
           use_case?: string | null
         }
@@ -675,6 +1209,7 @@ export type Database = {
           resolved_at: string | null
           root_cause_owner: string | null
           seller_trn: string
+          tenant_id: string
         }
         Insert: {
           created_at?: string
@@ -689,6 +1224,7 @@ export type Database = {
           resolved_at?: string | null
           root_cause_owner?: string | null
           seller_trn: string
+          tenant_id: string
         }
         Update: {
           created_at?: string
@@ -703,6 +1239,7 @@ export type Database = {
           resolved_at?: string | null
           root_cause_owner?: string | null
           seller_trn?: string
+          tenant_id?: string
         }
         Relationships: [
           {
@@ -721,6 +1258,7 @@ export type Database = {
           id: string
           pass_rate_percent: number
           run_id: string
+          tenant_id: string
           top_10_clients_by_risk: Json | null
           top_10_failing_checks: Json | null
           total_exceptions: number
@@ -732,6 +1270,7 @@ export type Database = {
           id?: string
           pass_rate_percent?: number
           run_id: string
+          tenant_id: string
           top_10_clients_by_risk?: Json | null
           top_10_failing_checks?: Json | null
           total_exceptions?: number
@@ -743,6 +1282,7 @@ export type Database = {
           id?: string
           pass_rate_percent?: number
           run_id?: string
+          tenant_id?: string
           top_10_clients_by_risk?: Json | null
           top_10_failing_checks?: Json | null
           total_exceptions?: number
@@ -757,7 +1297,185 @@ export type Database = {
             referencedColumns: ["id"]
           },
         ]
-      },
+      }
+      sensitive_action_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          actor_role: string | null
+          created_at: string
+          details: Json
+          entity_id: string
+          entity_type: string
+          id: string
+          tenant_id: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          actor_role?: string | null
+          created_at?: string
+          details?: Json
+          entity_id: string
+          entity_type: string
+          id?: string
+          tenant_id: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          actor_role?: string | null
+          created_at?: string
+          details?: Json
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          tenant_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sensitive_action_log_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sla_calendars: {
+        Row: {
+          holidays: Json
+          observe_fixed_holidays: boolean
+          tenant_id: string
+          updated_at: string
+          weekend: string
+          workday_end_minute: number
+          workday_start_minute: number
+        }
+        Insert: {
+          holidays?: Json
+          observe_fixed_holidays?: boolean
+          tenant_id: string
+          updated_at?: string
+          weekend?: string
+          workday_end_minute?: number
+          workday_start_minute?: number
+        }
+        Update: {
+          holidays?: Json
+          observe_fixed_holidays?: boolean
+          tenant_id?: string
+          updated_at?: string
+          weekend?: string
+          workday_end_minute?: number
+          workday_start_minute?: number
+        }
+        Relationships: []
+      }
+      tenant_memberships: {
+        Row: {
+          created_at: string
+          role: string
+          tenant_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          role?: string
+          tenant_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: string
+          tenant_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tenant_memberships_tenant_id_fkey"
+            columns: ["tenant_id"]
+            isOneToOne: false
+            referencedRelation: "tenants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tenants: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          slug?: string
+        }
+        Relationships: []
+      }
+      upload_audits: {
+        Row: {
+          buyers_count: number
+          created_at: string
+          dataset_type: string
+          datasets: Json
+          files: Json
+          headers_count: number
+          id: string
+          lines_count: number
+          relational_checks: Json
+          search_text: string | null
+          source_format: string
+          tenant_id: string
+          upload_session_id: string
+          uploaded_by: string | null
+        }
+        Insert: {
+          buyers_count?: number
+          created_at?: string
+          dataset_type?: string
+          datasets?: Json
+          files?: Json
+          headers_count?: number
+          id?: string
+          lines_count?: number
+          relational_checks?: Json
+          search_text?: never
+          source_format?: string
+          tenant_id: string
+          upload_session_id: string
+          uploaded_by?: string | null
+        }
+        Update: {
+          buyers_count?: number
+          created_at?: string
+          dataset_type?: string
+          datasets?: Json
+          files?: Json
+          headers_count?: number
+          id?: string
+          lines_count?: number
+          relational_checks?: Json
+          search_text?: never
+          source_format?: string
+          tenant_id?: string
+          upload_session_id?: string
+          uploaded_by?: string | null
+        }
+        Relationships: []
+      }
       validation_explanations: {
         Row: {
           check_exception_id: string | null
@@ -773,6 +1491,7 @@ export type Database = {
           generated_at: string
           id: string
           invoice_id: string | null
+          legacy_tenant_ref: string | null
           model: string | null
           prompt_version: string
           recommended_fix: string
@@ -798,6 +1517,7 @@ export type Database = {
           generated_at?: string
           id?: string
           invoice_id?: string | null
+          legacy_tenant_ref?: string | null
           model?: string | null
           prompt_version?: string
           recommended_fix: string
@@ -805,7 +1525,7 @@ export type Database = {
           rule_code?: string | null
           source_context?: Json | null
           status?: string
-          tenant_id?: string
+          tenant_id: string
           updated_at?: string
           validation_run_id?: string | null
         }
@@ -823,6 +1543,7 @@ export type Database = {
           generated_at?: string
           id?: string
           invoice_id?: string | null
+          legacy_tenant_ref?: string | null
           model?: string | null
           prompt_version?: string
           recommended_fix?: string
@@ -856,7 +1577,188 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_approval_request: {
+        Args: { target_request_id: string; target_tenant: string }
+        Returns: undefined
+      }
+      approval_minimum_role: {
+        Args: { kind_name: string }
+        Returns: string
+      }
+      assign_exception: {
+        Args: {
+          assign_comment: string | null
+          exception_ref: string | null
+          expected_status: string
+          finding_fingerprint: string
+          next_assignee: string | null
+          target_tenant: string
+        }
+        Returns: {
+          assignee: string | null
+          exception_ref: string | null
+          fingerprint: string
+          id: string
+          reason_code: string | null
+          status: string
+          tenant_id: string
+          updated_at: string
+          updated_by: string | null
+          updated_by_name: string | null
+        }
+      }
+      claim_pending_notifications: {
+        Args: { max_rows: number; target_tenant: string }
+        Returns: {
+          attempts: number
+          body: string
+          case_id: string | null
+          channel: string
+          claimed_at: string | null
+          created_at: string
+          dedupe_key: string
+          escalation_level: string | null
+          id: string
+          last_error: string | null
+          recipient: string
+          recipient_role: string | null
+          sent_at: string | null
+          status: string
+          subject: string
+          tenant_id: string
+        }[]
+      }
+      create_tenant: {
+        Args: { tenant_name: string }
+        Returns: {
+          created_at: string
+          id: string
+          name: string
+          slug: string
+        }
+      }
+      decide_approval_request: {
+        Args: {
+          decision: string
+          decision_note: string
+          target_request_id: string
+          target_tenant: string
+        }
+        Returns: {
+          decided_at: string | null
+          decided_by: string | null
+          decided_by_name: string | null
+          decision_comment: string | null
+          entity_id: string
+          entity_label: string
+          entity_type: string
+          id: string
+          justification: string
+          kind: string
+          payload: Json
+          reason_code: string | null
+          requested_at: string
+          requested_by: string | null
+          requested_by_name: string | null
+          status: string
+          tenant_id: string
+        }
+      }
+      fetch_notification_inbox: {
+        Args: { max_rows: number; target_tenant: string }
+        Returns: {
+          attempts: number
+          body: string
+          case_id: string | null
+          channel: string
+          created_at: string
+          dedupe_key: string
+          escalation_level: string | null
+          id: string
+          last_error: string | null
+          read_at: string | null
+          recipient: string
+          sent_at: string | null
+          status: string
+          subject: string
+        }[]
+      }
+      has_tenant_role: {
+        Args: { minimum_role: string; target_tenant: string }
+        Returns: boolean
+      }
+      is_client_write: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_exception_transition_allowed: {
+        Args: { from_status: string; to_status: string }
+        Returns: boolean
+      }
+      is_tenant_member: {
+        Args: { target_tenant: string }
+        Returns: boolean
+      }
+      link_findings_to_case: {
+        Args: { findings: Json; target_case_id: string; target_run_id: string | null; target_tenant: string }
+        Returns: number
+      }
+      mapping_template_direction: {
+        Args: { template_description: string }
+        Returns: string
+      }
+      mark_notifications_read: {
+        Args: { notification_ids: string[]; target_tenant: string }
+        Returns: number
+      }
+      open_routed_case: {
+        Args: { findings: Json; new_case: Json; target_run_id: string | null; target_tenant: string }
+        Returns: string
+      }
+      record_notification_deliveries: {
+        Args: { outcomes: Json; target_tenant: string }
+        Returns: number
+      }
+      refresh_case_sla: {
+        Args: { target_tenant: string; updates: Json }
+        Returns: number
+      }
+      rollback_mapping_template: {
+        Args: { rollback_reason: string; target_template_id: string; target_tenant: string }
+        Returns: string
+      }
+      sensitive_action_minimum_role: {
+        Args: { action_name: string }
+        Returns: string
+      }
+      tenant_role_rank: {
+        Args: { role_name: string }
+        Returns: number
+      }
+      transition_exception: {
+        Args: {
+          exception_ref: string | null
+          expected_status: string
+          finding_fingerprint: string
+          next_assignee: string | null
+          next_reason_code: string | null
+          next_status: string
+          target_tenant: string
+          transition_comment: string | null
+        }
+        Returns: {
+          assignee: string | null
+          exception_ref: string | null
+          fingerprint: string
+          id: string
+          reason_code: string | null
+          status: string
+          tenant_id: string
+          updated_at: string
+          updated_by: string | null
+          updated_by_name: string | null
+        }
+      }
     }
     Enums: {
       [_ in never]: never
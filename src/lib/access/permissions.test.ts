@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { hasPermission, parseTenantRole, requiredRoleMessage } from '@/lib/access/permissions';
+
+describe('permissions', () => {
+  it('grants each action to its minimum role and every role above it', () => {
+    expect(hasPermission('viewer', 'data.prepare')).toBe(false);
+    expect(hasPermission('preparer', 'data.prepare')).toBe(true);
+    expect(hasPermission('preparer', 'exception.waive')).toBe(false);
+    expect(hasPermission('reviewer', 'exception.waive')).toBe(true);
+    expect(hasPermission('reviewer', 'check.disable')).toBe(false);
+    expect(hasPermission('controls_owner', 'check.disable')).toBe(true);
+    expect(hasPermission('admin', 'check.disable')).toBe(true);
+  });
+
+  it('denies everything without a role', () => {
+    expect(hasPermission(null, 'data.prepare')).toBe(false);
+  });
+
+  it('names the minimum role in the hint', () => {
+    expect(requiredRoleMessage('evidence.export')).toBe('Requires the Reviewer role or higher');
+  });
+
+  it('treats unknown roles as viewers', () => {
+    expect(parseTenantRole('owner')).toBe('viewer');
+    expect(parseTenantRole('controls_owner')).toBe('controls_owner');
+  });
+});
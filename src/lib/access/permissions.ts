@@ -0,0 +1,49 @@
+import { TENANT_ROLES, TENANT_ROLE_LABELS, TenantRole } from '@/types/tenant';
+
+export type PermissionAction =
+  | 'data.prepare'
+  | 'case.resolve'
+  | 'exception.resolve'
+  | 'exception.waive'
+  | 'template.activate'
+  | 'evidence.export'
+  | 'check.edit'
+  | 'check.disable'
+  | 'case.routing'
+  | 'sla.configure'
+  | 'notification.configure';
+
+/** Transitions recorded in the sensitive action log with the acting user. */
+export type SensitiveAction = Extract<
+  PermissionAction,
+  'exception.waive' | 'check.disable' | 'template.activate' | 'evidence.export'
+>;
+
+// Keep in step with the Supabase policies and sensitive_action_minimum_role().
+const MINIMUM_ROLE: Record<PermissionAction, TenantRole> = {
+  'data.prepare': 'preparer',
+  'case.resolve': 'reviewer',
+  'exception.resolve': 'reviewer',
+  'exception.waive': 'reviewer',
+  'template.activate': 'reviewer',
+  'evidence.export': 'reviewer',
+  'check.edit': 'controls_owner',
+  'check.disable': 'controls_owner',
+  'case.routing': 'controls_owner',
+  'sla.configure': 'controls_owner',
+  'notification.configure': 'controls_owner',
+};
+
+export function hasPermission(role: TenantRole | null | undefined, action: PermissionAction): boolean {
+  if (!role) return false;
+  return TENANT_ROLES.indexOf(role) >= TENANT_ROLES.indexOf(MINIMUM_ROLE[action]);
+}
+
+export function requiredRoleMessage(action: PermissionAction): string {
+  return `Requires the ${TENANT_ROLE_LABELS[MINIMUM_ROLE[action]]} role or higher`;
+}
+
+/** Unknown membership roles fall back to the least privileged one. */
+export function parseTenantRole(value: unknown): TenantRole {
+  return TENANT_ROLES.includes(value as TenantRole) ? (value as TenantRole) : 'viewer';
+}
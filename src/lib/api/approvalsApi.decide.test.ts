@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const rpcMock = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { rpc: (...args: unknown[]) => rpcMock(...args) },
+}));
+
+vi.mock('@/lib/api/supabaseEnv', () => ({
+  getSupabaseEnvStatus: () => ({ configured: true, issues: [] }),
+  shouldUseLocalDevFallback: () => false,
+}));
+
+import { decideApproval } from '@/lib/api/approvalsApi';
+import { ApprovalRequest } from '@/types/approvals';
+
+const PENDING_DISABLE: ApprovalRequest = {
+  id: 'approval-1',
+  kind: 'check.disable',
+  entityType: 'pint_ae_check',
+  entityId: 'UAE-UC1-CHK-001',
+  entityLabel: 'Invoice Number Present',
+  payload: {},
+  reasonCode: null,
+  justification: 'Duplicated by the Schematron rule',
+  status: 'pending',
+  requestedBy: { id: 'user-maker', name: 'maker@example.ae' },
+  requestedAt: '2026-10-19T07:00:00.000Z',
+  decidedBy: null,
+  decidedAt: null,
+  decisionComment: null,
+};
+
+const CHECKER = { id: 'user-checker', name: 'checker@example.ae' };
+
+describe('decideApproval with Supabase configured', () => {
+  beforeEach(() => {
+    rpcMock.mockReset();
+  });
+
+  it('decides and applies the change in one call', async () => {
+    rpcMock.mockResolvedValue({
+      data: {
+        id: 'approval-1',
+        kind: 'check.disable',
+        entity_type: 'pint_ae_check',
+        entity_id: 'UAE-UC1-CHK-001',
+        entity_label: 'Invoice Number Present',
+        payload: {},
+        reason_code: null,
+        justification: 'Duplicated by the Schematron rule',
+        status: 'approved',
+        requested_by: 'user-maker',
+        requested_by_name: 'maker@example.ae',
+        requested_at: '2026-10-19T07:00:00.000Z',
+        decided_by: 'user-checker',
+        decided_by_name: 'checker@example.ae',
+        decided_at: '2026-10-19T08:00:00.000Z',
+        decision_comment: 'Agreed',
+      },
+      error: null,
+    });
+
+    const decided = await decideApproval(PENDING_DISABLE, 'approved', 'Agreed', CHECKER);
+
+    expect(rpcMock).toHaveBeenCalledTimes(1);
+    expect(rpcMock).toHaveBeenCalledWith('decide_approval_request', expect.objectContaining({
+      target_request_id: 'approval-1',
+      decision: 'approved',
+      decision_note: 'Agreed',
+    }));
+    expect(decided).toMatchObject({ status: 'approved', decidedBy: CHECKER });
+  });
+
+  it('reports no decision when the approved change could not be applied', async () => {
+    rpcMock.mockResolvedValue({ data: null, error: { message: 'Check UAE-UC1-CHK-001 not found' } });
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await decideApproval(PENDING_DISABLE, 'approved', '', CHECKER)).toBeNull();
+  });
+});
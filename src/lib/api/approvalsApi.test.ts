@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/api/supabaseEnv', () => ({
+  getSupabaseEnvStatus: () => ({ configured: false, issues: [] }),
+  shouldUseLocalDevFallback: () => true,
+}));
+
+import { decideApproval, fetchApprovals, requestApproval } from '@/lib/api/approvalsApi';
+import { approvalDecisionBlocker } from '@/lib/approvals/approvalRules';
+
+const MAKER = { id: null, name: 'Aisha' };
+const CHECKER = { id: null, name: 'Omar' };
+
+const WAIVER = {
+  kind: 'exception.waive' as const,
+  entityType: 'exception',
+  entityId: 'EXC-10411',
+  entityLabel: 'EXC-10411 · Buyer TRN format',
+  reasonCode: 'CORRECT_BUYER_DATA_AND_RESEND' as const,
+  justification: 'Buyer confirmed the TRN offline',
+};
+
+describe('approvals (local mode)', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('keeps a request pending until a different user approves it', async () => {
+    const request = await requestApproval(WAIVER, MAKER);
+    expect(request?.status).toBe('pending');
+
+    expect(await decideApproval(request!, 'approved', '', { id: null, name: ' aisha ' })).toBeNull();
+    expect(approvalDecisionBlocker(request!, MAKER, 'admin')).toBe('A different user must approve your own request');
+
+    const decided = await decideApproval(request!, 'approved', 'Evidence attached', CHECKER);
+    expect(decided).toMatchObject({ status: 'approved', decidedBy: CHECKER, decisionComment: 'Evidence attached' });
+    expect(await fetchApprovals({ status: 'pending' })).toEqual([]);
+  });
+
+  it('allows one pending request per change target', async () => {
+    expect(await requestApproval(WAIVER, MAKER)).not.toBeNull();
+    expect(await requestApproval(WAIVER, CHECKER)).toBeNull();
+  });
+
+  it('requires the role of the change being approved', async () => {
+    const request = await requestApproval(
+      {
+        kind: 'check.disable',
+        entityType: 'custom_check',
+        entityId: 'check-1',
+        entityLabel: 'Fuzzy duplicates',
+        justification: 'Too noisy this quarter',
+      },
+      MAKER
+    );
+
+    expect(approvalDecisionBlocker(request!, CHECKER, 'reviewer')).toBe('Requires the Controls owner role or higher');
+    expect(approvalDecisionBlocker(request!, CHECKER, 'controls_owner')).toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { tenantScopeId, withTenant } from '@/lib/api/tenantScope';
+import { isSameActor } from '@/lib/approvals/approvalRules';
+import { ApprovalKind, ApprovalRequest, ApprovalStatus, NewApprovalRequest } from '@/types/approvals';
+import { ResolutionReasonCode } from '@/types/direction';
+import { WorkspaceActor } from '@/types/tenant';
+
+const LOCAL_APPROVALS_KEY = 'drcs_approval_requests_v1';
+
+export interface ApprovalFilters {
+  status?: ApprovalStatus;
+  entityType?: string;
+}
+
+function readLocalApprovals(): ApprovalRequest[] {
+  try {
+    const raw = localStorage.getItem(LOCAL_APPROVALS_KEY);
+    return raw ? (JSON.parse(raw) as ApprovalRequest[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalApprovals(requests: ApprovalRequest[]): void {
+  try {
+    localStorage.setItem(LOCAL_APPROVALS_KEY, JSON.stringify(requests));
+  } catch {
+    // Ignore storage quota and private-mode failures.
+  }
+}
+
+function mapApprovalRow(row: Record<string, unknown>): ApprovalRequest {
+  const decidedAt = (row.decided_at as string | null) ?? null;
+  return {
+    id: row.id as string,
+    kind: row.kind as ApprovalKind,
+    entityType: row.entity_type as string,
+    entityId: row.entity_id as string,
+    entityLabel: row.entity_label as string,
+    payload: (row.payload as Record<string, unknown>) || {},
+    reasonCode: (row.reason_code as ResolutionReasonCode | null) ?? null,
+    justification: row.justification as string,
+    status: row.status as ApprovalStatus,
+    requestedBy: {
+      id: (row.requested_by as string | null) ?? null,
+      name: (row.requested_by_name as string | null) ?? 'Unknown',
+    },
+    requestedAt: row.requested_at as string,
+    decidedBy: decidedAt
+      ? { id: (row.decided_by as string | null) ?? null, name: (row.decided_by_name as string | null) ?? 'Unknown' }
+      : null,
+    decidedAt,
+    decisionComment: (row.decision_comment as string | null) ?? null,
+  };
+}
+
+function matchesFilters(request: ApprovalRequest, filters: ApprovalFilters): boolean {
+  if (filters.status && request.status !== filters.status) return false;
+  if (filters.entityType && request.entityType !== filters.entityType) return false;
+  return true;
+}
+
+// Newest first.
+export async function fetchApprovals(filters: ApprovalFilters = {}): Promise<ApprovalRequest[]> {
+  if (!getSupabaseEnvStatus().configured) {
+    return readLocalApprovals().filter((request) => matchesFilters(request, filters));
+  }
+
+  let query = supabase
+    .from('approval_requests')
+    .select('*')
+    .eq('tenant_id', tenantScopeId());
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.entityType) query = query.eq('entity_type', filters.entityType);
+
+  const { data, error } = await query.order('requested_at', { ascending: false });
+  if (error) {
+    console.error('[ApprovalsAPI] Error fetching approval requests:', error);
+    return [];
+  }
+  return (data || []).map((row) => mapApprovalRow(row as unknown as Record<string, unknown>));
+}
+
+/**
+ * Files a change for approval. Supabase stamps the requester from the session; `actor` is only
+ * recorded as-is in local mode.
+ */
+export async function requestApproval(
+  entry: NewApprovalRequest,
+  actor: WorkspaceActor
+): Promise<ApprovalRequest | null> {
+  if (!getSupabaseEnvStatus().configured) {
+    const existing = readLocalApprovals();
+    const duplicate = existing.find(
+      (request) =>
+        request.status === 'pending' &&
+        request.kind === entry.kind &&
+        request.entityType === entry.entityType &&
+        request.entityId === entry.entityId
+    );
+    if (duplicate) {
+      console.error('[ApprovalsAPI] A pending request already exists for', entry.entityId);
+      return null;
+    }
+    const request: ApprovalRequest = {
+      id: `local-approval-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      kind: entry.kind,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      entityLabel: entry.entityLabel,
+      payload: entry.payload || {},
+      reasonCode: entry.reasonCode ?? null,
+      justification: entry.justification,
+      status: 'pending',
+      requestedBy: actor,
+      requestedAt: new Date().toISOString(),
+      decidedBy: null,
+      decidedAt: null,
+      decisionComment: null,
+    };
+    writeLocalApprovals([request, ...existing]);
+    return request;
+  }
+
+  const { data, error } = await supabase
+    .from('approval_requests')
+    .insert(
+      withTenant({
+        kind: entry.kind,
+        entity_type: entry.entityType,
+        entity_id: entry.entityId,
+        entity_label: entry.entityLabel,
+        payload: (entry.payload || {}) as Json,
+        reason_code: entry.reasonCode ?? null,
+        justification: entry.justification,
+      })
+    )
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('[ApprovalsAPI] Error requesting approval:', error);
+    return null;
+  }
+  return mapApprovalRow(data as unknown as Record<string, unknown>);
+}
+
+/**
+ * Approves or rejects a pending request. The requester can never decide their own request;
+ * Supabase enforces this and the decider's role server-side, and applies an approved change in
+ * the same transaction. A change that cannot be applied leaves the request pending.
+ */
+export async function decideApproval(
+  request: ApprovalRequest,
+  decision: Exclude<ApprovalStatus, 'pending'>,
+  comment: string,
+  actor: WorkspaceActor
+): Promise<ApprovalRequest | null> {
+  if (request.status !== 'pending' || isSameActor(request.requestedBy, actor)) {
+    console.error('[ApprovalsAPI] Approval request cannot be decided by this actor:', request.id);
+    return null;
+  }
+
+  if (!getSupabaseEnvStatus().configured) {
+    const decided: ApprovalRequest = {
+      ...request,
+      status: decision,
+      decidedBy: actor,
+      decidedAt: new Date().toISOString(),
+      decisionComment: comment || null,
+    };
+    writeLocalApprovals(readLocalApprovals().map((entry) => (entry.id === request.id ? decided : entry)));
+    return decided;
+  }
+
+  const { data, error } = await supabase.rpc('decide_approval_request', {
+    target_tenant: tenantScopeId(),
+    target_request_id: request.id,
+    decision,
+    decision_note: comment,
+  });
+
+  if (error) {
+    console.error('[ApprovalsAPI] Error deciding approval request:', error);
+    return null;
+  }
+  return mapApprovalRow(data as unknown as Record<string, unknown>);
+}
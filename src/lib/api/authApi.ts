@@ -0,0 +1,36 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { WorkspaceUser } from '@/types/tenant';
+
+function toWorkspaceUser(user: { id: string; email?: string | null } | null | undefined): WorkspaceUser | null {
+  return user ? { id: user.id, email: user.email ?? null } : null;
+}
+
+export async function fetchCurrentUser(): Promise<WorkspaceUser | null> {
+  if (!getSupabaseEnvStatus().configured) return null;
+
+  const { data, error } = await supabase.auth.getSession();
+  if (error) {
+    console.error('[AuthAPI] Error reading session:', error);
+    return null;
+  }
+  return toWorkspaceUser(data.session?.user);
+}
+
+export function subscribeToUserChanges(onChange: (user: WorkspaceUser | null) => void): () => void {
+  if (!getSupabaseEnvStatus().configured) return () => undefined;
+
+  const { data } = supabase.auth.onAuthStateChange((_event, session) => onChange(toWorkspaceUser(session?.user)));
+  return () => data.subscription.unsubscribe();
+}
+
+// Returns an error message for the sign-in form, or null on success.
+export async function signInWithPassword(email: string, password: string): Promise<string | null> {
+  const { error } = await supabase.auth.signInWithPassword({ email, password });
+  return error ? error.message : null;
+}
+
+export async function signOut(): Promise<void> {
+  const { error } = await supabase.auth.signOut();
+  if (error) console.error('[AuthAPI] Error signing out:', error);
+}
@@ -0,0 +1,355 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { newCaseRow } from '@/lib/api/casesApi';
+import { fetchSlaCalendar } from '@/lib/api/slaCalendarApi';
+import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { tenantScopeId, withTenant } from '@/lib/api/tenantScope';
+import { MANUAL_ROUTING_RULE_ID, planCaseRouting, planManualCaseRouting } from '@/lib/cases/caseRouting';
+import {
+  CaseExceptionLink,
+  CaseGrouping,
+  CaseRoutingPlan,
+  CaseRoutingRule,
+  FindingSource,
+  NewCaseRoutingRule,
+  OpenRoutedCase,
+  PlannedCase,
+  RoutableFinding,
+} from '@/types/caseRouting';
+import { OwnerTeam } from '@/types/cases';
+import { Severity } from '@/types/compliance';
+import { SlaCalendar } from '@/types/slaCalendar';
+
+const LOCAL_ROUTING_RULES_KEY = 'drcs_case_routing_rules_v1';
+// Keeps `in` filters well under URL length limits.
+const IN_FILTER_CHUNK = 200;
+const PAGE_SIZE = 1000;
+
+function readLocalRules(): CaseRoutingRule[] {
+  try {
+    const raw = localStorage.getItem(LOCAL_ROUTING_RULES_KEY);
+    return raw ? (JSON.parse(raw) as CaseRoutingRule[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalRules(rules: CaseRoutingRule[]): void {
+  try {
+    localStorage.setItem(LOCAL_ROUTING_RULES_KEY, JSON.stringify(rules));
+  } catch {
+    // Ignore storage quota and private-mode failures.
+  }
+}
+
+function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let index = 0; index < values.length; index += size) chunks.push(values.slice(index, index + size));
+  return chunks;
+}
+
+function mapRuleRow(row: Record<string, unknown>): CaseRoutingRule {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    priority: Number(row.priority ?? 100),
+    isActive: Boolean(row.is_active),
+    severities: ((row.severities as string[] | null) || []) as Severity[],
+    checkIds: (row.check_ids as string[] | null) || [],
+    sellerTrns: (row.seller_trns as string[] | null) || [],
+    source: (row.source as FindingSource | null) ?? null,
+    grouping: row.grouping as CaseGrouping,
+    minOccurrences: Number(row.min_occurrences ?? 1),
+    ownerTeam: (row.owner_team as OwnerTeam | null) ?? null,
+    slaHours: (row.sla_hours as number | null) ?? null,
+    createdAt: row.created_at as string,
+  };
+}
+
+function sortRules(rules: CaseRoutingRule[]): CaseRoutingRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name));
+}
+
+// In priority order; null when the rules could not be loaded.
+export async function fetchCaseRoutingRules(): Promise<CaseRoutingRule[] | null> {
+  if (!getSupabaseEnvStatus().configured) return sortRules(readLocalRules());
+
+  const { data, error } = await supabase
+    .from('case_routing_rules')
+    .select('*')
+    .eq('tenant_id', tenantScopeId())
+    .order('priority', { ascending: true });
+  if (error) {
+    console.error('[CaseRoutingAPI] Error fetching routing rules:', error);
+    return null;
+  }
+  return sortRules((data || []).map((row) => mapRuleRow(row as unknown as Record<string, unknown>)));
+}
+
+export async function saveCaseRoutingRule(rule: NewCaseRoutingRule): Promise<CaseRoutingRule | null> {
+  if (!getSupabaseEnvStatus().configured) {
+    const saved: CaseRoutingRule = {
+      ...rule,
+      id: `local-routing-rule-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: new Date().toISOString(),
+    };
+    writeLocalRules([...readLocalRules(), saved]);
+    return saved;
+  }
+
+  const { data, error } = await supabase
+    .from('case_routing_rules')
+    .insert(withTenant({
+      name: rule.name,
+      priority: rule.priority,
+      is_active: rule.isActive,
+      severities: rule.severities,
+      check_ids: rule.checkIds,
+      seller_trns: rule.sellerTrns,
+      source: rule.source,
+      grouping: rule.grouping,
+      min_occurrences: rule.minOccurrences,
+      owner_team: rule.ownerTeam,
+      sla_hours: rule.slaHours,
+    }))
+    .select()
+    .single();
+  if (error) {
+    console.error('[CaseRoutingAPI] Error saving routing rule:', error);
+    return null;
+  }
+  return mapRuleRow(data as unknown as Record<string, unknown>);
+}
+
+export async function setCaseRoutingRuleActive(id: string, isActive: boolean): Promise<boolean> {
+  if (!getSupabaseEnvStatus().configured) {
+    writeLocalRules(readLocalRules().map((rule) => (rule.id === id ? { ...rule, isActive } : rule)));
+    return true;
+  }
+
+  const { error } = await supabase
+    .from('case_routing_rules')
+    .update({ is_active: isActive })
+    .eq('tenant_id', tenantScopeId())
+    .eq('id', id);
+  if (error) {
+    console.error('[CaseRoutingAPI] Error updating routing rule:', error);
+    return false;
+  }
+  return true;
+}
+
+export async function deleteCaseRoutingRule(id: string): Promise<boolean> {
+  if (!getSupabaseEnvStatus().configured) {
+    writeLocalRules(readLocalRules().filter((rule) => rule.id !== id));
+    return true;
+  }
+
+  const { error } = await supabase
+    .from('case_routing_rules')
+    .delete()
+    .eq('tenant_id', tenantScopeId())
+    .eq('id', id);
+  if (error) {
+    console.error('[CaseRoutingAPI] Error deleting routing rule:', error);
+    return false;
+  }
+  return true;
+}
+
+// Newest first. Cases only exist in Supabase, so local mode has no links.
+export async function fetchCaseExceptionLinks(caseId: string): Promise<CaseExceptionLink[]> {
+  if (!getSupabaseEnvStatus().configured) return [];
+
+  const { data, error } = await supabase
+    .from('case_exception_links')
+    .select('*')
+    .eq('tenant_id', tenantScopeId())
+    .eq('case_id', caseId)
+    .order('created_at', { ascending: false });
+  if (error) {
+    console.error('[CaseRoutingAPI] Error fetching case links:', error);
+    return [];
+  }
+  return (data || []).map((row) => ({
+    id: row.id,
+    caseId: row.case_id,
+    runId: row.run_id,
+    fingerprint: row.fingerprint,
+    exceptionRef: row.exception_ref,
+    checkId: row.check_id,
+    invoiceId: row.invoice_id,
+    createdAt: row.created_at,
+  }));
+}
+
+async function fetchOpenRoutedCases(): Promise<OpenRoutedCase[] | null> {
+  const tenantId = tenantScopeId();
+  const cases: { id: string; routing_key: string | null }[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('cases')
+      .select('id, routing_key')
+      .eq('tenant_id', tenantId)
+      .neq('status', 'Resolved')
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) {
+      console.error('[CaseRoutingAPI] Error fetching open cases:', error);
+      return null;
+    }
+    const batch = data || [];
+    cases.push(...batch);
+    if (batch.length < PAGE_SIZE) break;
+  }
+
+  const fingerprintsByCase = new Map<string, string[]>();
+  for (const caseIds of chunk(cases.map((row) => row.id), IN_FILTER_CHUNK)) {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data: links, error: linksError } = await supabase
+        .from('case_exception_links')
+        .select('case_id, fingerprint')
+        .eq('tenant_id', tenantId)
+        .in('case_id', caseIds)
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+      if (linksError) {
+        console.error('[CaseRoutingAPI] Error fetching case links:', linksError);
+        return null;
+      }
+      const batch = links || [];
+      batch.forEach((link) => {
+        const fingerprints = fingerprintsByCase.get(link.case_id);
+        if (fingerprints) fingerprints.push(link.fingerprint);
+        else fingerprintsByCase.set(link.case_id, [link.fingerprint]);
+      });
+      if (batch.length < PAGE_SIZE) break;
+    }
+  }
+
+  return cases.map((row) => ({
+    id: row.id,
+    routingKey: row.routing_key,
+    fingerprints: fingerprintsByCase.get(row.id) || [],
+  }));
+}
+
+/** Findings routed into cases, and those that could not be, so callers can report both. */
+export interface CaseRoutingResult {
+  created: number;
+  linked: number;
+  failed: number;
+}
+
+function toLinkRows(findings: RoutableFinding[]) {
+  return findings.map((finding) => ({
+    fingerprint: finding.fingerprint,
+    exception_ref: finding.exceptionRef,
+    check_id: finding.checkId,
+    invoice_id: finding.invoiceId ?? null,
+  }));
+}
+
+// Links and the case stamp on the run's stored findings are written together server-side.
+async function linkFindings(caseId: string, runId: string, findings: RoutableFinding[]): Promise<boolean> {
+  const { error } = await supabase.rpc('link_findings_to_case', {
+    target_tenant: tenantScopeId(),
+    target_case_id: caseId,
+    target_run_id: runId,
+    findings: toLinkRows(findings),
+  });
+  if (error) {
+    console.error('[CaseRoutingAPI] Error linking findings to case:', error);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Routes the findings of a saved run into cases with the workspace's rules. Returns null when
+ * routing could not run, which includes local mode since cases only exist in Supabase.
+ */
+export async function routeRunToCases(
+  runId: string,
+  findings: RoutableFinding[]
+): Promise<CaseRoutingResult | null> {
+  if (!getSupabaseEnvStatus().configured) return null;
+
+  const rules = await fetchCaseRoutingRules();
+  if (!rules) return null;
+  if (!rules.some((rule) => rule.isActive) || findings.length === 0) return { created: 0, linked: 0, failed: 0 };
+
+  const openCases = await fetchOpenRoutedCases();
+  if (!openCases) return null;
+
+  return openPlannedCases(runId, planCaseRouting(findings, rules, openCases));
+}
+
+/**
+ * Opens cases for findings picked in the exceptions workspace. Findings already in an open case
+ * are linked to it; see planManualCaseRouting for the rest. Returns null when routing could not run.
+ */
+export async function openCasesForFindings(
+  runId: string,
+  findings: RoutableFinding[]
+): Promise<CaseRoutingResult | null> {
+  if (!getSupabaseEnvStatus().configured) return null;
+
+  const [rules, openCases] = await Promise.all([fetchCaseRoutingRules(), fetchOpenRoutedCases()]);
+  if (!rules || !openCases) return null;
+
+  return openPlannedCases(runId, planManualCaseRouting(findings, rules, openCases));
+}
+
+// Each new case is opened together with its findings' links, so a failure leaves neither behind.
+async function openRoutedCase(runId: string, planned: PlannedCase, calendar: SlaCalendar): Promise<boolean> {
+  const lead = planned.findings[0];
+  const checkNames = new Set(planned.findings.map((finding) => finding.checkName));
+  const { error } = await supabase.rpc('open_routed_case', {
+    target_tenant: tenantScopeId(),
+    new_case: newCaseRow(
+      {
+        invoice_id: lead.invoiceId || lead.invoiceNumber || lead.exceptionRef,
+        invoice_number: lead.invoiceNumber,
+        seller_trn: lead.sellerTrn,
+        buyer_id: lead.buyerId,
+        exception_id: lead.exceptionRef,
+        check_name: checkNames.size === 1 ? lead.checkName : `${lead.checkName} (+${checkNames.size - 1} more checks)`,
+        severity: planned.severity,
+        owner_team: planned.ownerTeam,
+        sla_hours: planned.slaHours,
+        routing_rule_id: planned.ruleId === MANUAL_ROUTING_RULE_ID ? null : planned.ruleId,
+        routing_key: planned.routingKey,
+      },
+      calendar
+    ) as Json,
+    target_run_id: runId,
+    findings: toLinkRows(planned.findings),
+  });
+  if (error) {
+    console.error('[CaseRoutingAPI] Error opening routed case:', error);
+    return false;
+  }
+  return true;
+}
+
+async function openPlannedCases(runId: string, plan: CaseRoutingPlan): Promise<CaseRoutingResult> {
+  const calendar = await fetchSlaCalendar();
+  const result: CaseRoutingResult = { created: 0, linked: 0, failed: 0 };
+
+  for (const planned of plan.newCases) {
+    if (await openRoutedCase(runId, planned, calendar)) {
+      result.created += 1;
+      result.linked += planned.findings.length;
+    } else {
+      result.failed += planned.findings.length;
+    }
+  }
+
+  for (const { caseId, findings: caseFindings } of plan.existingCaseLinks) {
+    if (await linkFindings(caseId, runId, caseFindings)) result.linked += caseFindings.length;
+    else result.failed += caseFindings.length;
+  }
+
+  return result;
+}
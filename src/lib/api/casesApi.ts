@@ -17,6 +17,10 @@ import {
 import { Severity } from '@/types/compliance';
 import { shouldUseLocalDevFallback } from '@/lib/api/supabaseEnv';
 import { fetchLatestEntityScores } from '@/lib/api/checksApi';
+import { tenantScopeId, withTenant } from '@/lib/api/tenantScope';
+import { fetchSlaCalendar } from '@/lib/api/slaCalendarApi';
+import { addWorkingMinutes, caseStatusSlaPatch, CaseSlaFields, evaluateCaseSla } from '@/lib/cases/slaCalendar';
+import { SlaCalendar } from '@/types/slaCalendar';
 
 // Generate case number
 function generateCaseNumber(): string {
@@ -29,7 +33,7 @@ function generateCaseNumber(): string {
 
 // ============ CASES ============
 
-export async function createCase(params: {
+export interface NewCaseParams {
   invoice_id: string;
   invoice_number?: string;
   seller_trn?: string;
@@ -38,26 +42,38 @@ export async function createCase(params: {
   check_name?: string;
   severity: Severity;
   owner_team: OwnerTeam;
-}): Promise<Case | null> {
-  const slaHours = SLA_HOURS_BY_SEVERITY[params.severity] || 24;
-  const slaTargetAt = new Date(Date.now() + slaHours * 60 * 60 * 1000).toISOString();
-  
+  sla_hours?: number;
+  routing_rule_id?: string | null;
+  routing_key?: string;
+}
+
+// The columns of a new open case, with its SLA target counted in working time.
+export function newCaseRow(params: NewCaseParams, calendar: SlaCalendar) {
+  const slaHours = params.sla_hours || SLA_HOURS_BY_SEVERITY[params.severity] || 24;
+  return {
+    case_number: generateCaseNumber(),
+    invoice_id: params.invoice_id,
+    invoice_number: params.invoice_number,
+    seller_trn: params.seller_trn,
+    buyer_id: params.buyer_id,
+    exception_id: params.exception_id,
+    check_name: params.check_name,
+    severity: params.severity,
+    owner_team: params.owner_team,
+    sla_hours: slaHours,
+    sla_target_at: addWorkingMinutes(new Date(), slaHours * 60, calendar).toISOString(),
+    status: 'Open',
+    routing_rule_id: params.routing_rule_id,
+    routing_key: params.routing_key,
+  };
+}
+
+export async function createCase(params: NewCaseParams, calendar?: SlaCalendar): Promise<Case | null> {
+  const slaCalendar = calendar ?? (await fetchSlaCalendar());
+
   const { data, error } = await supabase
     .from('cases')
-    .insert({
-      case_number: generateCaseNumber(),
-      invoice_id: params.invoice_id,
-      invoice_number: params.invoice_number,
-      seller_trn: params.seller_trn,
-      buyer_id: params.buyer_id,
-      exception_id: params.exception_id,
-      check_name: params.check_name,
-      severity: params.severity,
-      owner_team: params.owner_team,
-      sla_hours: slaHours,
-      sla_target_at: slaTargetAt,
-      status: 'Open',
-    } as any)
+    .insert(withTenant(newCaseRow(params, slaCalendar)) as any)
     .select()
     .single();
 
@@ -75,7 +91,11 @@ export async function fetchCases(filters?: {
   is_sla_breached?: boolean;
   seller_trn?: string;
 }): Promise<Case[]> {
-  let query = supabase.from('cases').select('*').order('created_at', { ascending: false });
+  let query = supabase
+    .from('cases')
+    .select('*')
+    .eq('tenant_id', tenantScopeId())
+    .order('created_at', { ascending: false });
 
   if (filters?.status) query = query.eq('status', filters.status);
   if (filters?.owner_team) query = query.eq('owner_team', filters.owner_team);
@@ -94,6 +114,7 @@ export async function fetchCaseByInvoice(invoiceId: string): Promise<Case | null
   const { data, error } = await supabase
     .from('cases')
     .select('*')
+    .eq('tenant_id', tenantScopeId())
     .eq('invoice_id', invoiceId)
     .order('created_at', { ascending: false })
     .limit(1)
@@ -106,6 +127,8 @@ export async function fetchCaseByInvoice(invoiceId: string): Promise<Case | null
   return data as unknown as Case;
 }
 
+const CASE_SLA_COLUMNS = 'created_at, sla_hours, status, sla_target_at, is_sla_breached, resolved_at, sla_paused_at, sla_paused_minutes';
+
 export async function updateCase(id: string, updates: Partial<Case>): Promise<boolean> {
   const updateData: any = { ...updates };
   
@@ -113,7 +136,26 @@ export async function updateCase(id: string, updates: Partial<Case>): Promise<bo
     updateData.resolved_at = new Date().toISOString();
   }
 
-  const { error } = await supabase.from('cases').update(updateData).eq('id', id);
+  // Status changes move the SLA clock: Waiting pauses it and leaving Waiting resumes it.
+  if (updates.status) {
+    const [{ data: current, error: currentError }, calendar] = await Promise.all([
+      supabase.from('cases').select(CASE_SLA_COLUMNS).eq('tenant_id', tenantScopeId()).eq('id', id).maybeSingle(),
+      fetchSlaCalendar(),
+    ]);
+    if (currentError || !current) {
+      console.error('Error loading case for SLA update:', currentError);
+      return false;
+    }
+    if (current.status !== updates.status) {
+      Object.assign(updateData, caseStatusSlaPatch(current as unknown as CaseSlaFields, updates.status, calendar));
+    }
+  }
+
+  const { error } = await supabase
+    .from('cases')
+    .update(updateData)
+    .eq('tenant_id', tenantScopeId())
+    .eq('id', id);
   if (error) {
     console.error('Error updating case:', error);
     return false;
@@ -124,7 +166,7 @@ export async function updateCase(id: string, updates: Partial<Case>): Promise<bo
 export async function addCaseNote(caseId: string, note: string, createdBy?: string): Promise<CaseNote | null> {
   const { data, error } = await supabase
     .from('case_notes')
-    .insert({ case_id: caseId, note, created_by: createdBy } as any)
+    .insert(withTenant({ case_id: caseId, note, created_by: createdBy }) as any)
     .select()
     .single();
 
@@ -139,6 +181,7 @@ export async function fetchCaseNotes(caseId: string): Promise<CaseNote[]> {
   const { data, error } = await supabase
     .from('case_notes')
     .select('*')
+    .eq('tenant_id', tenantScopeId())
     .eq('case_id', caseId)
     .order('created_at', { ascending: false });
 
@@ -161,7 +204,7 @@ export async function getSLAMetrics(): Promise<SLAMetrics> {
     };
   }
 
-  const { data: cases, error } = await supabase.from('cases').select('*');
+  const { data: cases, error } = await supabase.from('cases').select('*').eq('tenant_id', tenantScopeId());
   
   if (error || !cases) {
     return { averageResolutionHours: {}, breachPercentage: 0, totalCases: 0, breachedCases: 0, openCases: 0, resolvedCases: 0 };
@@ -211,7 +254,7 @@ export async function addLifecycleEvent(params: {
 }): Promise<InvoiceLifecycleEvent | null> {
   const { data, error } = await supabase
     .from('invoice_lifecycle')
-    .insert(params as any)
+    .insert(withTenant(params) as any)
     .select()
     .single();
 
@@ -226,6 +269,7 @@ export async function fetchLifecycleEvents(invoiceId: string): Promise<InvoiceLi
   const { data, error } = await supabase
     .from('invoice_lifecycle')
     .select('*')
+    .eq('tenant_id', tenantScopeId())
     .eq('invoice_id', invoiceId)
     .order('created_at', { ascending: true });
 
@@ -240,6 +284,7 @@ export async function getLifecycleMetrics(): Promise<LifecycleMetrics> {
   const { data, error } = await supabase
     .from('invoice_lifecycle')
     .select('invoice_id, status')
+    .eq('tenant_id', tenantScopeId())
     .order('created_at', { ascending: false });
 
   if (error || !data) {
@@ -282,6 +327,7 @@ export async function createRejection(params: {
   const { data: existing } = await supabase
     .from('rejections')
     .select('id')
+    .eq('tenant_id', tenantScopeId())
     .eq('invoice_id', params.invoice_id)
     .eq('rejection_code', params.rejection_code)
     .limit(1);
@@ -291,11 +337,11 @@ export async function createRejection(params: {
 
   const { data, error } = await supabase
     .from('rejections')
-    .insert({
+    .insert(withTenant({
       ...params,
       is_repeat: isRepeat,
       original_rejection_id: originalId,
-    } as any)
+    }) as any)
     .select()
     .single();
 
@@ -307,7 +353,11 @@ export async function createRejection(params: {
 }
 
 export async function fetchRejections(sellerTrn?: string): Promise<Rejection[]> {
-  let query = supabase.from('rejections').select('*').order('created_at', { ascending: false });
+  let query = supabase
+    .from('rejections')
+    .select('*')
+    .eq('tenant_id', tenantScopeId())
+    .order('created_at', { ascending: false });
   if (sellerTrn) query = query.eq('seller_trn', sellerTrn);
 
   const { data, error } = await query;
@@ -328,7 +378,7 @@ export async function getRejectionAnalytics(): Promise<{
     return { byCategory: {}, byClient: [], repeatRate: 0, totalRejections: 0 };
   }
 
-  const { data: rejections, error } = await supabase.from('rejections').select('*');
+  const { data: rejections, error } = await supabase.from('rejections').select('*').eq('tenant_id', tenantScopeId());
   
   if (error || !rejections) {
     return { byCategory: {}, byClient: [], repeatRate: 0, totalRejections: 0 };
@@ -359,9 +409,14 @@ export async function getRejectionAnalytics(): Promise<{
 
 export async function calculateClientHealth(sellerTrn: string, clientName?: string): Promise<ClientHealth | null> {
   // Get cases for this client
-  const { data: cases } = await supabase.from('cases').select('*').eq('seller_trn', sellerTrn);
-  const { data: rejections } = await supabase.from('rejections').select('*').eq('seller_trn', sellerTrn);
-  const { data: lifecycle } = await supabase.from('invoice_lifecycle').select('invoice_id').eq('seller_trn', sellerTrn);
+  const tenantId = tenantScopeId();
+  const { data: cases } = await supabase.from('cases').select('*').eq('tenant_id', tenantId).eq('seller_trn', sellerTrn);
+  const { data: rejections } = await supabase.from('rejections').select('*').eq('tenant_id', tenantId).eq('seller_trn', sellerTrn);
+  const { data: lifecycle } = await supabase
+    .from('invoice_lifecycle')
+    .select('invoice_id')
+    .eq('tenant_id', tenantId)
+    .eq('seller_trn', sellerTrn);
 
   const allCases = (cases || []) as unknown as Case[];
   const allRejections = (rejections || []) as unknown as Rejection[];
@@ -380,7 +435,7 @@ export async function calculateClientHealth(sellerTrn: string, clientName?: stri
 
   const { data, error } = await supabase
     .from('client_health')
-    .upsert({
+    .upsert(withTenant({
       seller_trn: sellerTrn,
       client_name: clientName,
       score,
@@ -390,7 +445,7 @@ export async function calculateClientHealth(sellerTrn: string, clientName?: stri
       total_invoices: uniqueInvoices,
       total_rejections: allRejections.length,
       calculated_at: new Date().toISOString(),
-    } as any, { onConflict: 'seller_trn' })
+    }) as any, { onConflict: 'tenant_id,seller_trn' })
     .select()
     .single();
 
@@ -421,6 +476,7 @@ export async function fetchClientHealthScores(): Promise<ClientHealth[]> {
   const { data, error } = await supabase
     .from('client_health')
     .select('*')
+    .eq('tenant_id', tenantScopeId())
     .order('score', { ascending: true });
 
   if (error) {
@@ -430,13 +486,38 @@ export async function fetchClientHealthScores(): Promise<ClientHealth[]> {
   return (data || []) as unknown as ClientHealth[];
 }
 
-// Update SLA breach status for open cases
-export async function updateSLABreaches(): Promise<void> {
-  const now = new Date().toISOString();
-  await supabase
+// Recompute SLA targets and breach status of open cases on the workspace calendar, so calendar
+// changes and time passing are both reflected.
+export async function updateSLABreaches(now: Date = new Date()): Promise<boolean> {
+  const tenantId = tenantScopeId();
+  const calendar = await fetchSlaCalendar();
+  const { data, error } = await supabase
     .from('cases')
-    .update({ is_sla_breached: true })
-    .neq('status', 'Resolved')
-    .lt('sla_target_at', now)
-    .eq('is_sla_breached', false);
+    .select(`id, ${CASE_SLA_COLUMNS}`)
+    .eq('tenant_id', tenantId)
+    .neq('status', 'Resolved');
+  if (error) {
+    console.error('Error fetching cases for SLA update:', error);
+    return false;
+  }
+
+  const changed = ((data || []) as unknown as (CaseSlaFields & { id: string })[])
+    .map((caseItem) => ({ caseItem, sla: evaluateCaseSla(caseItem, calendar, now) }))
+    .filter(
+      ({ caseItem, sla }) =>
+        caseItem.is_sla_breached !== sla.is_sla_breached ||
+        !caseItem.sla_target_at ||
+        new Date(caseItem.sla_target_at).getTime() !== new Date(sla.sla_target_at!).getTime()
+    );
+  if (changed.length === 0) return true;
+
+  const { error: updateError } = await supabase.rpc('refresh_case_sla', {
+    target_tenant: tenantId,
+    updates: changed.map(({ caseItem, sla }) => ({ id: caseItem.id, ...sla })),
+  });
+  if (updateError) {
+    console.error('Error updating case SLA states:', updateError);
+    return false;
+  }
+  return true;
 }
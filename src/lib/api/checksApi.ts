@@ -2,6 +2,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { CheckRun, CustomCheckConfig, EntityScore, InvestigationFlag } from '@/types/customChecks';
 import { DatasetType } from '@/types/datasets';
 import { shouldUseLocalDevFallback } from '@/lib/api/supabaseEnv';
+import { tenantScopeId, withTenant } from '@/lib/api/tenantScope';
 
 const LOCAL_CHECK_RUNS_KEY = 'drcs_local_check_runs_v1';
 const LOCAL_ENTITY_SCORES_KEY = 'drcs_local_entity_scores_v1';
@@ -75,6 +76,7 @@ function mapCheckRunRow(row: any): CheckRun {
     low_count: row.low_count,
     pass_rate: Number(row.pass_rate),
     results_summary: row.results_summary,
+    upload_session_id: row.upload_session_id ?? null,
   };
 }
 
@@ -104,6 +106,7 @@ export async function fetchCustomChecks(): Promise<CustomCheckConfig[]> {
   const { data, error } = await supabase
     .from('custom_checks')
     .select('*')
+    .eq('tenant_id', tenantScopeId())
     .eq('is_active', true)
     .order('created_at', { ascending: false });
 
@@ -119,6 +122,7 @@ export async function fetchAllCustomChecks(): Promise<CustomCheckConfig[]> {
   const { data, error } = await supabase
     .from('custom_checks')
     .select('*')
+    .eq('tenant_id', tenantScopeId())
     .order('created_at', { ascending: false });
 
   if (error) {
@@ -129,8 +133,9 @@ export async function fetchAllCustomChecks(): Promise<CustomCheckConfig[]> {
   return (data || []).map(mapCustomCheckRow);
 }
 
+// New checks are saved inactive; enabling one goes through an approval request.
 export async function createCustomCheck(
-  check: Omit<CustomCheckConfig, 'id'>
+  check: Omit<CustomCheckConfig, 'id' | 'is_active'>
 ): Promise<CustomCheckConfig | null> {
   const insertData = {
     name: check.name,
@@ -141,12 +146,12 @@ export async function createCustomCheck(
     rule_type: check.rule_type,
     parameters: check.parameters as unknown as Record<string, unknown>,
     message_template: check.message_template,
-    is_active: check.is_active,
+    is_active: false,
   };
 
   const { data, error } = await supabase
     .from('custom_checks')
-    .insert(insertData as any)
+    .insert(withTenant(insertData) as any)
     .select()
     .single();
 
@@ -158,22 +163,25 @@ export async function createCustomCheck(
   return mapCustomCheckRow(data);
 }
 
+// Enabling, disabling and re-rating a check go through an approval request.
 export async function updateCustomCheck(
   id: string,
-  check: Partial<CustomCheckConfig>
+  check: Partial<Omit<CustomCheckConfig, 'id' | 'is_active' | 'severity'>>
 ): Promise<boolean> {
   const updateData: Record<string, unknown> = {};
   if (check.name !== undefined) updateData.name = check.name;
   if (check.description !== undefined) updateData.description = check.description;
-  if (check.severity !== undefined) updateData.severity = check.severity;
   if (check.check_type !== undefined) updateData.check_type = check.check_type;
   if (check.dataset_scope !== undefined) updateData.dataset_scope = check.dataset_scope;
   if (check.rule_type !== undefined) updateData.rule_type = check.rule_type;
   if (check.parameters !== undefined) updateData.parameters = check.parameters;
   if (check.message_template !== undefined) updateData.message_template = check.message_template;
-  if (check.is_active !== undefined) updateData.is_active = check.is_active;
 
-  const { error } = await supabase.from('custom_checks').update(updateData as any).eq('id', id);
+  const { error } = await supabase
+    .from('custom_checks')
+    .update(updateData as any)
+    .eq('tenant_id', tenantScopeId())
+    .eq('id', id);
 
   if (error) {
     console.error('Error updating custom check:', error);
@@ -184,7 +192,11 @@ export async function updateCustomCheck(
 }
 
 export async function deleteCustomCheck(id: string): Promise<boolean> {
-  const { error } = await supabase.from('custom_checks').delete().eq('id', id);
+  const { error } = await supabase
+    .from('custom_checks')
+    .delete()
+    .eq('tenant_id', tenantScopeId())
+    .eq('id', id);
 
   if (error) {
     console.error('Error deleting custom check:', error);
@@ -250,7 +262,7 @@ export async function seedStarterSearchChecks(): Promise<void> {
 
   if (missing.length === 0) return;
 
-  const payload = missing.map((check) => ({
+  const payload = missing.map((check) => withTenant({
     name: check.name,
     description: check.description || null,
     severity: check.severity,
@@ -275,7 +287,7 @@ export async function saveCheckRun(run: Omit<CheckRun, 'id'>): Promise<string |
 
   const { data, error } = await supabase
     .from('check_runs')
-    .insert({
+    .insert(withTenant({
       run_date: run.run_date,
       dataset_type: run.dataset_type || 'AR',
       total_invoices: run.total_invoices,
@@ -286,7 +298,8 @@ export async function saveCheckRun(run: Omit<CheckRun, 'id'>): Promise<string |
       low_count: run.low_count,
       pass_rate: run.pass_rate,
       results_summary: run.results_summary,
-    } as any)
+      upload_session_id: run.upload_session_id ?? null,
+    }) as any)
     .select('id')
     .single();
 
@@ -308,7 +321,7 @@ export async function saveEntityScores(
   }
 
   const { error } = await supabase.from('entity_scores').insert(
-    scores.map((score) => ({
+    scores.map((score) => withTenant({
       run_id: score.run_id,
       entity_type: score.entity_type,
       entity_id: score.entity_id,
@@ -339,6 +352,7 @@ export async function fetchCheckRuns(limit?: number): Promise<CheckRun[]> {
     const { data, error } = await supabase
       .from('check_runs')
       .select('*')
+      .eq('tenant_id', tenantScopeId())
       .order('run_date', { ascending: false })
       .limit(limit);
 
@@ -357,6 +371,7 @@ export async function fetchCheckRuns(limit?: number): Promise<CheckRun[]> {
     const { data, error } = await supabase
       .from('check_runs')
       .select('*')
+      .eq('tenant_id', tenantScopeId())
       .order('run_date', { ascending: false })
       .range(offset, offset + pageSize - 1);
 
@@ -379,7 +394,7 @@ export async function saveInvestigationFlags(
 ): Promise<boolean> {
   if (flags.length === 0) return true;
 
-  const payload = flags.map((flag) => ({
+  const payload = flags.map((flag) => withTenant({
     run_id: runId,
     dataset_type: flag.datasetType,
     check_id: flag.checkId,
@@ -408,6 +423,7 @@ export async function fetchInvestigationFlags(
   let query = supabase
     .from('investigation_flags')
     .select('*')
+    .eq('tenant_id', tenantScopeId())
     .order('created_at', { ascending: false });
 
   if (datasetType) query = query.eq('dataset_type', datasetType);
@@ -446,6 +462,7 @@ export async function fetchEntityScores(
   let query = supabase
     .from('entity_scores')
     .select('*')
+    .eq('tenant_id', tenantScopeId())
     .eq('run_id', runId)
     .order('score', { ascending: true });
 
@@ -489,6 +506,7 @@ export async function fetchLatestEntityScores(
   const { data: latestRun } = await supabase
     .from('check_runs')
     .select('id')
+    .eq('tenant_id', tenantScopeId())
     .order('run_date', { ascending: false })
     .limit(1)
     .single();
@@ -498,6 +516,7 @@ export async function fetchLatestEntityScores(
   let query = supabase
     .from('entity_scores')
     .select('*')
+    .eq('tenant_id', tenantScopeId())
     .eq('run_id', latestRun.id)
     .order('score', { ascending: true })
     .limit(limit);
@@ -0,0 +1,165 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { tenantScopeId, withTenant } from '@/lib/api/tenantScope';
+import { isExceptionViewOwner } from '@/lib/exceptions/exceptionViews';
+import {
+  EMPTY_EXCEPTION_VIEW_FILTERS,
+  ExceptionViewFilters,
+  NewSavedExceptionView,
+  SavedExceptionView,
+} from '@/types/exceptionViews';
+import { WorkspaceActor } from '@/types/tenant';
+
+const LOCAL_VIEWS_KEY = 'drcs_exception_views_v1';
+
+/** Fired on window after a view is saved, pinned or deleted, so the sidebar can refresh. */
+export const EXCEPTION_VIEWS_CHANGED_EVENT = 'drcs:exception-views-changed';
+
+function readLocalViews(): SavedExceptionView[] {
+  try {
+    const raw = localStorage.getItem(LOCAL_VIEWS_KEY);
+    return raw ? (JSON.parse(raw) as SavedExceptionView[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalViews(views: SavedExceptionView[]): void {
+  try {
+    localStorage.setItem(LOCAL_VIEWS_KEY, JSON.stringify(views));
+  } catch {
+    // Ignore storage quota and private-mode failures.
+  }
+}
+
+function notifyViewsChanged(): void {
+  window.dispatchEvent(new Event(EXCEPTION_VIEWS_CHANGED_EVENT));
+}
+
+function mapViewRow(row: Record<string, unknown>): SavedExceptionView {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    filters: { ...EMPTY_EXCEPTION_VIEW_FILTERS, ...((row.filters as Partial<ExceptionViewFilters> | null) || {}) },
+    owner: {
+      id: (row.owner_id as string | null) ?? null,
+      name: (row.owner_name as string | null) ?? 'Unknown',
+    },
+    isShared: Boolean(row.is_shared),
+    isPinned: Boolean(row.is_pinned),
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+/**
+ * The actor's own views and those shared with the workspace. Supabase applies the same rule
+ * through row-level security; locally the actor's name decides ownership.
+ */
+export async function fetchExceptionViews(actor: WorkspaceActor): Promise<SavedExceptionView[]> {
+  if (!getSupabaseEnvStatus().configured) {
+    return readLocalViews().filter((view) => view.isShared || isExceptionViewOwner(view, actor));
+  }
+
+  const { data, error } = await supabase
+    .from('exception_views')
+    .select('*')
+    .eq('tenant_id', tenantScopeId())
+    .order('name', { ascending: true });
+  if (error) {
+    console.error('[ExceptionViewsAPI] Error fetching exception views:', error);
+    return [];
+  }
+  return (data || []).map((row) => mapViewRow(row as unknown as Record<string, unknown>));
+}
+
+/** Supabase stamps the owner from the session; `actor` is only recorded as-is in local mode. */
+export async function saveExceptionView(
+  entry: NewSavedExceptionView,
+  actor: WorkspaceActor
+): Promise<SavedExceptionView | null> {
+  const name = entry.name.trim();
+  if (!name) return null;
+
+  if (!getSupabaseEnvStatus().configured) {
+    const now = new Date().toISOString();
+    const view: SavedExceptionView = {
+      id: `local-view-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      filters: entry.filters,
+      owner: actor,
+      isShared: entry.isShared,
+      isPinned: entry.isPinned,
+      createdAt: now,
+      updatedAt: now,
+    };
+    writeLocalViews([...readLocalViews(), view]);
+    notifyViewsChanged();
+    return view;
+  }
+
+  const { data, error } = await supabase
+    .from('exception_views')
+    .insert(
+      withTenant({
+        name,
+        filters: entry.filters as unknown as Json,
+        is_shared: entry.isShared,
+        is_pinned: entry.isPinned,
+      })
+    )
+    .select()
+    .single();
+  if (error || !data) {
+    console.error('[ExceptionViewsAPI] Error saving exception view:', error);
+    return null;
+  }
+  notifyViewsChanged();
+  return mapViewRow(data as unknown as Record<string, unknown>);
+}
+
+/** Changes the pin or sharing of one of the actor's own views. */
+export async function updateExceptionView(
+  id: string,
+  changes: Partial<Pick<SavedExceptionView, 'isShared' | 'isPinned'>>
+): Promise<boolean> {
+  if (!getSupabaseEnvStatus().configured) {
+    const updatedAt = new Date().toISOString();
+    writeLocalViews(readLocalViews().map((view) => (view.id === id ? { ...view, ...changes, updatedAt } : view)));
+    notifyViewsChanged();
+    return true;
+  }
+
+  const { error } = await supabase
+    .from('exception_views')
+    .update({
+      ...(changes.isShared === undefined ? {} : { is_shared: changes.isShared }),
+      ...(changes.isPinned === undefined ? {} : { is_pinned: changes.isPinned }),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('tenant_id', tenantScopeId())
+    .eq('id', id);
+  if (error) {
+    console.error('[ExceptionViewsAPI] Error updating exception view:', error);
+    return false;
+  }
+  notifyViewsChanged();
+  return true;
+}
+
+export async function deleteExceptionView(id: string): Promise<boolean> {
+  if (!getSupabaseEnvStatus().configured) {
+    writeLocalViews(readLocalViews().filter((view) => view.id !== id));
+    notifyViewsChanged();
+    return true;
+  }
+
+  const { error } = await supabase.from('exception_views').delete().eq('tenant_id', tenantScopeId()).eq('id', id);
+  if (error) {
+    console.error('[ExceptionViewsAPI] Error deleting exception view:', error);
+    return false;
+  }
+  notifyViewsChanged();
+  return true;
+}
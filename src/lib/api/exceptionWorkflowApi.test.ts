@@ -0,0 +1,107 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/api/supabaseEnv', () => ({
+  getSupabaseEnvStatus: () => ({ configured: false, issues: [] }),
+  shouldUseLocalDevFallback: () => true,
+}));
+
+import {
+  assignException,
+  fetchExceptionHistory,
+  fetchExceptionStates,
+  transitionException,
+} from '@/lib/api/exceptionWorkflowApi';
+import { carryForwardExceptionStates, findingFingerprint } from '@/lib/exceptions/exceptionWorkflow';
+import { Exception } from '@/types/compliance';
+
+const ACTOR = { id: null, name: 'Aisha' };
+
+const FINDING: Exception = {
+  id: 'run-1-exc-7',
+  checkId: 'buyer_trn_format',
+  checkName: 'Buyer TRN format',
+  severity: 'High',
+  message: 'Buyer TRN is malformed',
+  invoiceNumber: 'INV-10411',
+  field: 'buyer_trn',
+  status: 'Open',
+};
+
+describe('exception workflow (local mode)', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('records each transition and rejects moves the workflow does not allow', async () => {
+    const fingerprint = findingFingerprint(FINDING);
+    const base = { fingerprint, exceptionRef: FINDING.id };
+
+    expect(await transitionException({ ...base, fromStatus: 'Open', toStatus: 'Resolved' }, ACTOR)).toBeNull();
+    expect(await transitionException({ ...base, fromStatus: 'Open', toStatus: 'In Review', assignee: 'Omar' }, ACTOR)).toMatchObject({
+      status: 'In Review',
+      assignee: 'Omar',
+    });
+    expect(await transitionException({ ...base, fromStatus: 'In Review', toStatus: 'Resolved' }, ACTOR)).toBeNull();
+    expect(
+      await transitionException(
+        { ...base, fromStatus: 'In Review', toStatus: 'Resolved', reasonCode: 'CORRECT_BUYER_DATA_AND_RESEND', comment: 'Fixed at source' },
+        ACTOR
+      )
+    ).toMatchObject({ status: 'Resolved', reasonCode: 'CORRECT_BUYER_DATA_AND_RESEND' });
+    // Stale view: the exception has already moved past Open.
+    expect(await transitionException({ ...base, fromStatus: 'Open', toStatus: 'In Review' }, ACTOR)).toBeNull();
+
+    const history = await fetchExceptionHistory(fingerprint);
+    expect(history.map((entry) => `${entry.fromStatus}->${entry.toStatus}`)).toEqual(['In Review->Resolved', 'Open->In Review']);
+    expect(history[0]).toMatchObject({ comment: 'Fixed at source', actor: ACTOR });
+  });
+
+  it('treats a finding without stored state as Open whatever status the caller claims', async () => {
+    const base = { fingerprint: findingFingerprint(FINDING), exceptionRef: FINDING.id };
+
+    expect(
+      await transitionException(
+        { ...base, fromStatus: 'In Review', toStatus: 'Resolved', reasonCode: 'CORRECT_BUYER_DATA_AND_RESEND' },
+        ACTOR
+      )
+    ).toBeNull();
+    expect((await fetchExceptionStates()).size).toBe(0);
+  });
+
+  it('carries the stored status forward to the same finding in a later run', async () => {
+    const fingerprint = findingFingerprint(FINDING);
+    await transitionException({ fingerprint, exceptionRef: FINDING.id, fromStatus: 'Open', toStatus: 'In Review' }, ACTOR);
+
+    const nextRun: Exception[] = [
+      { ...FINDING, id: 'run-2-exc-3', invoiceNumber: ' inv-10411 ', field: 'BUYER_TRN' },
+      { ...FINDING, id: 'run-2-exc-4', field: 'buyer_name' },
+    ];
+    const carried = carryForwardExceptionStates(nextRun, await fetchExceptionStates());
+
+    expect(carried.map((exception) => exception.status)).toEqual(['In Review', 'Open']);
+  });
+
+  it('reassigns without moving the status and records the change in the history', async () => {
+    const fingerprint = findingFingerprint(FINDING);
+    const base = { fingerprint, exceptionRef: FINDING.id };
+
+    expect(await assignException({ ...base, status: 'Open', assignee: 'Farah', comment: 'Bulk triage' }, ACTOR)).toMatchObject({
+      status: 'Open',
+      assignee: 'Farah',
+    });
+    expect(await assignException({ ...base, status: 'In Review', assignee: 'Omar' }, ACTOR)).toBeNull();
+
+    const [entry] = await fetchExceptionHistory(fingerprint);
+    expect(entry).toMatchObject({ fromStatus: 'Open', toStatus: 'Open', assignee: 'Farah', comment: 'Bulk triage' });
+  });
+
+  it('refuses a first assignment that claims any status but Open and never writes one', async () => {
+    const base = { fingerprint: findingFingerprint(FINDING), exceptionRef: FINDING.id };
+
+    expect(await assignException({ ...base, status: 'Waived', assignee: 'Farah' }, ACTOR)).toBeNull();
+    expect(await assignException({ ...base, status: 'Resolved', assignee: 'Farah' }, ACTOR)).toBeNull();
+    expect(await assignException({ ...base, status: 'In Review', assignee: 'Farah' }, ACTOR)).toBeNull();
+    expect((await fetchExceptionStates()).size).toBe(0);
+    expect(await assignException({ ...base, status: 'Open', assignee: 'Farah' }, ACTOR)).toMatchObject({ status: 'Open' });
+  });
+});
@@ -0,0 +1,248 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { tenantScopeId } from '@/lib/api/tenantScope';
+import { canTransition, requiresReasonCode } from '@/lib/exceptions/exceptionWorkflow';
+import { ExceptionWorkflowStatus, ResolutionReasonCode } from '@/types/direction';
+import {
+  ExceptionStatusTransition,
+  ExceptionTransitionRequest,
+  ExceptionWorkflowState,
+} from '@/types/exceptionWorkflow';
+import { WorkspaceActor } from '@/types/tenant';
+
+const LOCAL_STATES_KEY = 'drcs_exception_states_v1';
+const LOCAL_HISTORY_KEY = 'drcs_exception_history_v1';
+
+function readLocal<T>(key: string): T[] {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocal<T>(key: string, entries: T[]): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(entries));
+  } catch {
+    // Ignore storage quota and private-mode failures.
+  }
+}
+
+function mapStateRow(row: Record<string, unknown>): ExceptionWorkflowState {
+  return {
+    fingerprint: row.fingerprint as string,
+    exceptionRef: (row.exception_ref as string | null) ?? null,
+    status: row.status as ExceptionWorkflowStatus,
+    assignee: (row.assignee as string | null) ?? null,
+    reasonCode: (row.reason_code as ResolutionReasonCode | null) ?? null,
+    updatedBy: {
+      id: (row.updated_by as string | null) ?? null,
+      name: (row.updated_by_name as string | null) ?? 'Unknown',
+    },
+    updatedAt: row.updated_at as string,
+  };
+}
+
+function mapHistoryRow(row: Record<string, unknown>): ExceptionStatusTransition {
+  return {
+    id: row.id as string,
+    fingerprint: row.fingerprint as string,
+    exceptionRef: (row.exception_ref as string | null) ?? null,
+    fromStatus: row.from_status as ExceptionWorkflowStatus,
+    toStatus: row.to_status as ExceptionWorkflowStatus,
+    comment: (row.comment as string | null) ?? null,
+    assignee: (row.assignee as string | null) ?? null,
+    reasonCode: (row.reason_code as ResolutionReasonCode | null) ?? null,
+    actor: {
+      id: (row.actor_id as string | null) ?? null,
+      name: (row.actor_name as string | null) ?? 'Unknown',
+    },
+    createdAt: row.created_at as string,
+  };
+}
+
+/**
+ * Stored workflow states keyed by finding fingerprint. Throws when they cannot be loaded, since an
+ * empty map would show every triaged finding as Open.
+ */
+export async function fetchExceptionStates(): Promise<Map<string, ExceptionWorkflowState>> {
+  if (!getSupabaseEnvStatus().configured) {
+    return new Map(readLocal<ExceptionWorkflowState>(LOCAL_STATES_KEY).map((state) => [state.fingerprint, state]));
+  }
+
+  const { data, error } = await supabase
+    .from('exception_workflow_states')
+    .select('*')
+    .eq('tenant_id', tenantScopeId());
+
+  if (error) {
+    console.error('[ExceptionWorkflowAPI] Error fetching exception states:', error);
+    throw new Error('Stored exception statuses could not be loaded.');
+  }
+  return new Map(
+    (data || []).map((row) => {
+      const state = mapStateRow(row as unknown as Record<string, unknown>);
+      return [state.fingerprint, state];
+    })
+  );
+}
+
+// Newest first.
+export async function fetchExceptionHistory(fingerprint: string): Promise<ExceptionStatusTransition[]> {
+  if (!getSupabaseEnvStatus().configured) {
+    return readLocal<ExceptionStatusTransition>(LOCAL_HISTORY_KEY).filter((entry) => entry.fingerprint === fingerprint);
+  }
+
+  const { data, error } = await supabase
+    .from('exception_status_history')
+    .select('*')
+    .eq('tenant_id', tenantScopeId())
+    .eq('fingerprint', fingerprint)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[ExceptionWorkflowAPI] Error fetching exception history:', error);
+    return [];
+  }
+  return (data || []).map((row) => mapHistoryRow(row as unknown as Record<string, unknown>));
+}
+
+/**
+ * Moves a finding to its next status and appends the transition to its history. Supabase checks
+ * the transition, the actor's role and, for waivers, the approved request server-side and stamps
+ * the actor from the session; `actor` is only recorded as-is in local mode.
+ */
+export async function transitionException(
+  transition: ExceptionTransitionRequest,
+  actor: WorkspaceActor
+): Promise<ExceptionWorkflowState | null> {
+  if (!canTransition(transition.fromStatus, transition.toStatus)) {
+    console.error('[ExceptionWorkflowAPI] Transition not allowed:', transition.fromStatus, '->', transition.toStatus);
+    return null;
+  }
+  if (requiresReasonCode(transition.toStatus) && !transition.reasonCode) {
+    console.error('[ExceptionWorkflowAPI] A reason code is required to close', transition.exceptionRef);
+    return null;
+  }
+  const reasonCode = requiresReasonCode(transition.toStatus) ? transition.reasonCode ?? null : null;
+
+  if (!getSupabaseEnvStatus().configured) {
+    const states = readLocal<ExceptionWorkflowState>(LOCAL_STATES_KEY);
+    const current = states.find((state) => state.fingerprint === transition.fingerprint);
+    // A finding without stored state is Open.
+    if ((current?.status ?? 'Open') !== transition.fromStatus) {
+      console.error('[ExceptionWorkflowAPI] Exception status changed since it was loaded:', transition.exceptionRef);
+      return null;
+    }
+    const now = new Date().toISOString();
+    const next: ExceptionWorkflowState = {
+      fingerprint: transition.fingerprint,
+      exceptionRef: transition.exceptionRef,
+      status: transition.toStatus,
+      assignee: transition.assignee ?? null,
+      reasonCode,
+      updatedBy: actor,
+      updatedAt: now,
+    };
+    const entry: ExceptionStatusTransition = {
+      id: `local-transition-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      fingerprint: transition.fingerprint,
+      exceptionRef: transition.exceptionRef,
+      fromStatus: transition.fromStatus,
+      toStatus: transition.toStatus,
+      comment: transition.comment || null,
+      assignee: next.assignee,
+      reasonCode,
+      actor,
+      createdAt: now,
+    };
+    writeLocal(LOCAL_STATES_KEY, [next, ...states.filter((state) => state.fingerprint !== transition.fingerprint)]);
+    writeLocal(LOCAL_HISTORY_KEY, [entry, ...readLocal<ExceptionStatusTransition>(LOCAL_HISTORY_KEY)]);
+    return next;
+  }
+
+  const { data, error } = await supabase.rpc('transition_exception', {
+    target_tenant: tenantScopeId(),
+    finding_fingerprint: transition.fingerprint,
+    exception_ref: transition.exceptionRef,
+    expected_status: transition.fromStatus,
+    next_status: transition.toStatus,
+    transition_comment: transition.comment || null,
+    next_assignee: transition.assignee ?? null,
+    next_reason_code: reasonCode,
+  });
+
+  if (error || !data) {
+    console.error('[ExceptionWorkflowAPI] Error transitioning exception:', error);
+    return null;
+  }
+  return mapStateRow(data as unknown as Record<string, unknown>);
+}
+
+/**
+ * Reassigns a finding without moving its status; the change is appended to its history as a
+ * same-status entry. Fails if the status has moved on since `status` was read. A finding without
+ * stored state is Open, so its first assignment is refused for any other status.
+ */
+export async function assignException(
+  assignment: Pick<ExceptionTransitionRequest, 'fingerprint' | 'exceptionRef' | 'comment'> & {
+    status: ExceptionWorkflowStatus;
+    assignee: string | null;
+  },
+  actor: WorkspaceActor
+): Promise<ExceptionWorkflowState | null> {
+  if (!getSupabaseEnvStatus().configured) {
+    const states = readLocal<ExceptionWorkflowState>(LOCAL_STATES_KEY);
+    const current = states.find((state) => state.fingerprint === assignment.fingerprint);
+    if (!current && assignment.status !== 'Open') {
+      console.error('[ExceptionWorkflowAPI] Exception status is Open, not', assignment.status, assignment.exceptionRef);
+      return null;
+    }
+    if (current && current.status !== assignment.status) {
+      console.error('[ExceptionWorkflowAPI] Exception status changed since it was loaded:', assignment.exceptionRef);
+      return null;
+    }
+    const now = new Date().toISOString();
+    const next: ExceptionWorkflowState = {
+      fingerprint: assignment.fingerprint,
+      exceptionRef: assignment.exceptionRef,
+      status: current?.status ?? 'Open',
+      assignee: assignment.assignee,
+      reasonCode: current?.reasonCode ?? null,
+      updatedBy: actor,
+      updatedAt: now,
+    };
+    const entry: ExceptionStatusTransition = {
+      id: `local-transition-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      fingerprint: assignment.fingerprint,
+      exceptionRef: assignment.exceptionRef,
+      fromStatus: next.status,
+      toStatus: next.status,
+      comment: assignment.comment || null,
+      assignee: assignment.assignee,
+      reasonCode: next.reasonCode,
+      actor,
+      createdAt: now,
+    };
+    writeLocal(LOCAL_STATES_KEY, [next, ...states.filter((state) => state.fingerprint !== assignment.fingerprint)]);
+    writeLocal(LOCAL_HISTORY_KEY, [entry, ...readLocal<ExceptionStatusTransition>(LOCAL_HISTORY_KEY)]);
+    return next;
+  }
+
+  const { data, error } = await supabase.rpc('assign_exception', {
+    target_tenant: tenantScopeId(),
+    finding_fingerprint: assignment.fingerprint,
+    exception_ref: assignment.exceptionRef,
+    expected_status: assignment.status,
+    next_assignee: assignment.assignee,
+    assign_comment: assignment.comment || null,
+  });
+
+  if (error || !data) {
+    console.error('[ExceptionWorkflowAPI] Error assigning exception:', error);
+    return null;
+  }
+  return mapStateRow(data as unknown as Record<string, unknown>);
+}
@@ -1,9 +1,10 @@
 import { supabase } from '@/integrations/supabase/client';
-import { MappingTemplate, FieldMapping, normalizeFieldMappings } from '@/types/fieldMapping';
+import { MappingTemplate, MappingTemplateRollback, FieldMapping, normalizeFieldMappings } from '@/types/fieldMapping';
 import { Json } from '@/integrations/supabase/types';
 import { Direction } from '@/types/direction';
 import { parseDirectionFromDescription, withDirectionTag } from '@/lib/direction/directionUtils';
 import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { tenantScopeId, withTenant } from '@/lib/api/tenantScope';
 
 // Helper to safely parse mappings from JSONB
 function parseMappings(mappings: Json | null): FieldMapping[] {
@@ -46,6 +47,7 @@ export async function fetchMappingTemplates(direction?: Direction): Promise<Mapp
     const { data, error } = await supabase
       .from('mapping_templates')
       .select('*')
+      .eq('tenant_id', tenantScopeId())
       .order('updated_at', { ascending: false });
 
     if (error) {
@@ -74,6 +76,7 @@ export async function fetchActiveTemplates(direction?: Direction): Promise<Mappi
     const { data, error } = await supabase
       .from('mapping_templates')
       .select('*')
+      .eq('tenant_id', tenantScopeId())
       .eq('is_active', true)
       .order('template_name');
 
@@ -91,14 +94,36 @@ export async function fetchActiveTemplates(direction?: Direction): Promise<Mappi
   }
 }
 
+// Fetch a single template by ID
+export async function fetchMappingTemplate(id: string): Promise<MappingTemplate | null> {
+  const envStatus = getSupabaseEnvStatus();
+  if (!envStatus.configured) {
+    console.warn('[MappingAPI] Skipping template fetch: Supabase env is not configured', envStatus.issues);
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('mapping_templates')
+    .select('*')
+    .eq('tenant_id', tenantScopeId())
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[MappingAPI] Error fetching template:', error);
+    return null;
+  }
+
+  return data ? mapTemplateRow(data as unknown as Record<string, unknown>) : null;
+}
+
 // Save a new mapping template
 export async function saveMappingTemplate(template: MappingTemplate, direction?: Direction): Promise<string | null> {
   const resolvedDirection = direction || template.direction || 'AR';
-  const insertData = {
+  const insertData = withTenant({
     template_name: template.templateName,
     description: withDirectionTag(template.description || null, resolvedDirection),
     client_name: template.clientName || null,
-    tenant_id: template.tenantId || null,
     legal_entity: template.legalEntity || null,
     seller_trn: template.sellerTrn || null,
     erp_type: template.erpType || null,
@@ -106,7 +131,7 @@ export async function saveMappingTemplate(template: MappingTemplate, direction?:
     version: template.version,
     is_active: template.isActive,
     mappings: normalizeFieldMappings(template.mappings) as unknown as Json,
-  };
+  });
 
   const { data, error } = await supabase
     .from('mapping_templates')
@@ -123,8 +148,11 @@ export async function saveMappingTemplate(template: MappingTemplate, direction?:
   return data.id;
 }
 
-// Update an existing template
-export async function updateMappingTemplate(id: string, template: Partial<MappingTemplate>): Promise<boolean> {
+// Update an existing template. Activation goes through an approval request.
+export async function updateMappingTemplate(
+  id: string,
+  template: Partial<Omit<MappingTemplate, 'isActive'>>
+): Promise<boolean> {
   const updateData: Record<string, unknown> = {};
   
   if (template.templateName !== undefined) updateData.template_name = template.templateName;
@@ -132,13 +160,11 @@ export async function updateMappingTemplate(id: string, template: Partial<Mappin
     updateData.description = withDirectionTag(template.description || null, template.direction || 'AR');
   }
   if (template.clientName !== undefined) updateData.client_name = template.clientName;
-  if (template.tenantId !== undefined) updateData.tenant_id = template.tenantId;
   if (template.legalEntity !== undefined) updateData.legal_entity = template.legalEntity;
   if (template.sellerTrn !== undefined) updateData.seller_trn = template.sellerTrn;
   if (template.erpType !== undefined) updateData.erp_type = template.erpType;
   if (template.documentType !== undefined) updateData.document_type = template.documentType;
   if (template.version !== undefined) updateData.version = template.version;
-  if (template.isActive !== undefined) updateData.is_active = template.isActive;
   if (template.mappings !== undefined) {
     updateData.mappings = normalizeFieldMappings(template.mappings) as unknown as Record<string, unknown>[];
   }
@@ -146,6 +172,7 @@ export async function updateMappingTemplate(id: string, template: Partial<Mappin
   const { error } = await supabase
     .from('mapping_templates')
     .update(updateData)
+    .eq('tenant_id', tenantScopeId())
     .eq('id', id);
 
   if (error) {
@@ -161,6 +188,7 @@ export async function deleteMappingTemplate(id: string): Promise<boolean> {
   const { error } = await supabase
     .from('mapping_templates')
     .delete()
+    .eq('tenant_id', tenantScopeId())
     .eq('id', id);
 
   if (error) {
@@ -171,12 +199,13 @@ export async function deleteMappingTemplate(id: string): Promise<boolean> {
   return true;
 }
 
-// Create a new version of an existing template
+// Create a new, inactive version of an existing template; activate it through an approval request
 export async function createTemplateVersion(baseTemplateId: string, updatedMappings: FieldMapping[]): Promise<string | null> {
   // Fetch the base template
   const { data: baseTemplate, error: fetchError } = await supabase
     .from('mapping_templates')
     .select('*')
+    .eq('tenant_id', tenantScopeId())
     .eq('id', baseTemplateId)
     .single();
 
@@ -196,7 +225,7 @@ export async function createTemplateVersion(baseTemplateId: string, updatedMappi
     erp_type: baseTemplate.erp_type,
     document_type: baseTemplate.document_type,
     version: baseTemplate.version + 1,
-    is_active: true,
+    is_active: false,
     mappings: normalizeFieldMappings(updatedMappings) as unknown as Json,
   };
 
@@ -211,11 +240,66 @@ export async function createTemplateVersion(baseTemplateId: string, updatedMappi
     return null;
   }
 
-  // Deactivate old version
-  await supabase
+  return data.id;
+}
+
+// Fetch every version of a template, newest first
+export async function fetchTemplateVersions(templateName: string, direction?: Direction): Promise<MappingTemplate[]> {
+  const { data, error } = await supabase
     .from('mapping_templates')
-    .update({ is_active: false })
-    .eq('id', baseTemplateId);
+    .select('*')
+    .eq('tenant_id', tenantScopeId())
+    .eq('template_name', templateName)
+    .order('version', { ascending: false });
 
-  return data.id;
+  if (error) {
+    console.error('[MappingAPI] Error fetching template versions:', error);
+    return [];
+  }
+
+  const mapped = (data || []).map((row) => mapTemplateRow(row as unknown as Record<string, unknown>));
+  if (!direction) return mapped;
+  return mapped.filter((template) => (template.direction || 'AR') === direction);
+}
+
+// Fetch the rollback audit trail of a template, newest first
+export async function fetchTemplateRollbacks(templateName: string): Promise<MappingTemplateRollback[]> {
+  const { data, error } = await supabase
+    .from('mapping_template_rollbacks')
+    .select('*')
+    .eq('tenant_id', tenantScopeId())
+    .eq('template_name', templateName)
+    .order('performed_at', { ascending: false });
+
+  if (error) {
+    console.error('[MappingAPI] Error fetching template rollbacks:', error);
+    return [];
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    templateName: row.template_name,
+    fromVersion: row.from_version,
+    toVersion: row.to_version,
+    restoredTemplateId: row.restored_template_id,
+    performedBy: row.performed_by,
+    reason: row.reason,
+    performedAt: row.performed_at,
+  }));
+}
+
+// Restore an earlier version's mappings as a new active version. The server deactivates the superseded
+// versions and records the rollback under the signed-in user in the same transaction.
+export async function rollbackTemplateVersion(targetVersionId: string, reason: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('rollback_mapping_template', {
+    target_tenant: tenantScopeId(),
+    target_template_id: targetVersionId,
+    rollback_reason: reason,
+  });
+
+  if (error || !data) {
+    console.error('[MappingAPI] Error rolling back template version:', error);
+    return null;
+  }
+  return data;
 }
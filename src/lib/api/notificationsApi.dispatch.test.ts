@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const rpcMock = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { rpc: (...args: unknown[]) => rpcMock(...args) },
+}));
+
+vi.mock('@/lib/api/supabaseEnv', () => ({
+  getSupabaseEnvStatus: () => ({ configured: true, issues: [] }),
+  shouldUseLocalDevFallback: () => false,
+}));
+
+import { dispatchNotificationOutbox } from '@/lib/api/notificationsApi';
+import { createLocalStubAdapters } from '@/lib/notifications/delivery';
+
+const CLAIMED_ROW = {
+  id: 'n-1',
+  channel: 'email',
+  recipient: 'lead@example.ae',
+  subject: 'Escalated to team lead: CASE-1 (Critical)',
+  body: 'CASE-1 has breached its 4h SLA.',
+  case_id: 'case-1',
+  escalation_level: 'team_lead',
+  dedupe_key: 'case-1|team_lead|email',
+  status: 'sending',
+  attempts: 0,
+  last_error: null,
+  created_at: '2026-10-19T07:00:00.000Z',
+  sent_at: null,
+};
+
+describe('dispatchNotificationOutbox with Supabase configured', () => {
+  beforeEach(() => {
+    rpcMock.mockReset();
+  });
+
+  it('delivers only the rows it claimed and records their outcomes in one call', async () => {
+    rpcMock.mockImplementation(async (fn: string) =>
+      fn === 'claim_pending_notifications' ? { data: [CLAIMED_ROW], error: null } : { data: 1, error: null }
+    );
+    const adapters = createLocalStubAdapters();
+
+    const updates = await dispatchNotificationOutbox(adapters);
+
+    expect(adapters.delivered.map((notification) => notification.id)).toEqual(['n-1']);
+    expect(updates).toEqual([expect.objectContaining({ id: 'n-1', status: 'sent', attempts: 1 })]);
+    expect(rpcMock.mock.calls.map(([fn]) => fn)).toEqual(['claim_pending_notifications', 'record_notification_deliveries']);
+    expect(rpcMock.mock.calls[1][1].outcomes).toEqual([
+      expect.objectContaining({ id: 'n-1', status: 'sent', attempts: 1, last_error: null }),
+    ]);
+  });
+
+  it('reports no outcomes when they could not be recorded', async () => {
+    rpcMock.mockImplementation(async (fn: string) =>
+      fn === 'claim_pending_notifications'
+        ? { data: [CLAIMED_ROW], error: null }
+        : { data: null, error: { message: 'permission denied' } }
+    );
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await dispatchNotificationOutbox(createLocalStubAdapters())).toEqual([]);
+  });
+});
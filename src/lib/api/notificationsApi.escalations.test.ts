@@ -0,0 +1,100 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const fromMock = vi.fn();
+const rpcMock = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: (...args: unknown[]) => fromMock(...args),
+    rpc: (...args: unknown[]) => rpcMock(...args),
+  },
+}));
+
+vi.mock('@/lib/api/supabaseEnv', () => ({
+  getSupabaseEnvStatus: () => ({ configured: true, issues: [] }),
+  shouldUseLocalDevFallback: () => false,
+}));
+
+vi.mock('@/lib/api/slaCalendarApi', async () => {
+  const { DEFAULT_SLA_CALENDAR } = await import('@/types/slaCalendar');
+  return { fetchSlaCalendar: async () => ({ ...DEFAULT_SLA_CALENDAR, holidays: [] }) };
+});
+
+import { runCaseEscalations } from '@/lib/api/notificationsApi';
+
+const OPEN_CASE_COUNT = 1001;
+
+function openCase(index: number) {
+  return {
+    id: `case-${index}`,
+    case_number: `CASE-${index}`,
+    check_name: 'Invoice Number Present',
+    invoice_number: `INV-${index}`,
+    invoice_id: `INV-${index}`,
+    owner_team: 'Client Finance',
+    severity: 'High',
+    status: 'Open',
+    created_at: '2026-09-01T07:00:00.000Z',
+    sla_hours: 8,
+    sla_paused_at: null,
+    sla_paused_minutes: 0,
+    escalation_level: null,
+  };
+}
+
+describe('runCaseEscalations with Supabase configured', () => {
+  let ranges: [number, number][];
+  let updatedCaseIds: string[];
+
+  beforeEach(() => {
+    ranges = [];
+    updatedCaseIds = [];
+    fromMock.mockReset();
+    rpcMock.mockReset();
+    rpcMock.mockResolvedValue({ data: [], error: null });
+
+    fromMock.mockImplementation((table: string) => {
+      if (table === 'notification_settings') {
+        return { select: () => ({ eq: () => ({ limit: async () => ({ data: [], error: null }) }) }) };
+      }
+      if (table === 'notification_outbox') {
+        return { upsert: async () => ({ error: null }) };
+      }
+      const query = {
+        select: () => query,
+        eq: () => query,
+        neq: () => query,
+        order: () => query,
+        range: async (from: number, to: number) => {
+          ranges.push([from, to]);
+          const count = Math.max(0, Math.min(to, OPEN_CASE_COUNT - 1) - from + 1);
+          return { data: Array.from({ length: count }, (_, offset) => openCase(from + offset)), error: null };
+        },
+        update: () => ({
+          eq: () => ({
+            eq: async (_column: string, caseId: string) => {
+              updatedCaseIds.push(caseId);
+              return { error: caseId === 'case-1' ? { message: 'permission denied' } : null };
+            },
+          }),
+        }),
+      };
+      return query;
+    });
+  });
+
+  it('escalates open cases from every page and reports only the cases whose level was raised', async () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const escalations = await runCaseEscalations(new Date('2026-10-19T07:00:00.000Z'));
+
+    expect(ranges).toEqual([[0, 999], [1000, 1999]]);
+    expect(updatedCaseIds).toHaveLength(OPEN_CASE_COUNT);
+    expect(escalations).toHaveLength(OPEN_CASE_COUNT - 1);
+    expect(escalations.map((escalation) => escalation.caseId)).not.toContain('case-1');
+    expect(consoleError).toHaveBeenCalledWith(
+      expect.stringContaining('case-1'),
+      expect.objectContaining({ message: 'permission denied' })
+    );
+  });
+});
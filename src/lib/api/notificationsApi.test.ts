@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('@/lib/api/supabaseEnv', () => ({
+  getSupabaseEnvStatus: () => ({ configured: false, issues: [] }),
+  shouldUseLocalDevFallback: () => true,
+}));
+
+import {
+  dispatchNotificationOutbox,
+  enqueueNotifications,
+  fetchInAppNotifications,
+  markNotificationsRead,
+} from '@/lib/api/notificationsApi';
+import { createLocalStubAdapters } from '@/lib/notifications/delivery';
+import { NewOutboxNotification } from '@/types/notifications';
+
+const WARNING: NewOutboxNotification = {
+  channel: 'in_app',
+  recipient: 'Client Finance',
+  subject: 'SLA warning: CASE-1 (High)',
+  body: 'CASE-1 has used 75% of its 8h SLA.',
+  caseId: 'case-1',
+  escalationLevel: 'warning',
+  dedupeKey: 'case-1|warning|in_app',
+};
+
+describe('notification outbox (local mode)', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('queues once per dedupe key and shows delivered in-app notifications until read', async () => {
+    await enqueueNotifications([WARNING]);
+    await enqueueNotifications([WARNING, { ...WARNING, channel: 'email', recipient: 'lead@example.ae', dedupeKey: 'case-1|warning|email' }]);
+    expect(await fetchInAppNotifications()).toEqual([]);
+
+    const adapters = createLocalStubAdapters();
+    const updates = await dispatchNotificationOutbox(adapters);
+    expect(updates.map((update) => update.status)).toEqual(['sent', 'sent']);
+    expect(adapters.delivered.map((notification) => notification.channel)).toEqual(['in_app', 'email']);
+    expect(await dispatchNotificationOutbox(adapters)).toEqual([]);
+
+    const [inbox] = await fetchInAppNotifications();
+    expect(inbox).toMatchObject({ subject: WARNING.subject, readAt: null });
+    await markNotificationsRead([inbox.id]);
+    expect((await fetchInAppNotifications())[0].readAt).not.toBeNull();
+  });
+});
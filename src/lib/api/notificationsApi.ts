@@ -0,0 +1,370 @@
+import { supabase } from '@/integrations/supabase/client';
+import { FEATURE_FLAGS } from '@/config/features';
+import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { tenantScopeId, withTenant } from '@/lib/api/tenantScope';
+import { fetchSlaCalendar } from '@/lib/api/slaCalendarApi';
+import { EscalationCase, PlannedEscalation, planCaseEscalations } from '@/lib/cases/escalation';
+import {
+  createEmailAdapter,
+  createInAppAdapter,
+  createLocalStubAdapters,
+  createWebhookAdapter,
+  deliverNotifications,
+  DeliveryAdapters,
+  DeliveryUpdate,
+} from '@/lib/notifications/delivery';
+import {
+  DEFAULT_NOTIFICATION_SETTINGS,
+  EscalationLevel,
+  NewOutboxNotification,
+  NotificationChannel,
+  NotificationSettings,
+  NotificationStatus,
+  OutboxNotification,
+} from '@/types/notifications';
+
+const LOCAL_OUTBOX_KEY = 'drcs_notification_outbox_v1';
+const LOCAL_NOTIFICATION_SETTINGS_KEY = 'drcs_notification_settings_v1';
+const DISPATCH_BATCH_SIZE = 50;
+const ESCALATION_PAGE_SIZE = 1000;
+
+const ESCALATION_CASE_COLUMNS =
+  'id, case_number, check_name, invoice_number, invoice_id, owner_team, severity, status, created_at, sla_hours, sla_paused_at, sla_paused_minutes, escalation_level';
+
+function readLocalOutbox(): OutboxNotification[] {
+  try {
+    const raw = localStorage.getItem(LOCAL_OUTBOX_KEY);
+    return raw ? (JSON.parse(raw) as OutboxNotification[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalOutbox(notifications: OutboxNotification[]): void {
+  try {
+    localStorage.setItem(LOCAL_OUTBOX_KEY, JSON.stringify(notifications));
+  } catch {
+    // Ignore storage quota and private-mode failures.
+  }
+}
+
+function readLocalSettings(): NotificationSettings | null {
+  try {
+    const raw = localStorage.getItem(LOCAL_NOTIFICATION_SETTINGS_KEY);
+    return raw ? (JSON.parse(raw) as NotificationSettings) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeLocalSettings(settings: NotificationSettings): void {
+  try {
+    localStorage.setItem(LOCAL_NOTIFICATION_SETTINGS_KEY, JSON.stringify(settings));
+  } catch {
+    // Ignore storage quota and private-mode failures.
+  }
+}
+
+function mapNotificationRow(row: Record<string, unknown>): OutboxNotification {
+  return {
+    id: row.id as string,
+    channel: row.channel as NotificationChannel,
+    recipient: row.recipient as string,
+    subject: row.subject as string,
+    body: (row.body as string) || '',
+    caseId: (row.case_id as string | null) ?? null,
+    escalationLevel: (row.escalation_level as EscalationLevel | null) ?? null,
+    dedupeKey: row.dedupe_key as string,
+    status: row.status as NotificationStatus,
+    attempts: (row.attempts as number) || 0,
+    lastError: (row.last_error as string | null) ?? null,
+    createdAt: row.created_at as string,
+    sentAt: (row.sent_at as string | null) ?? null,
+    readAt: (row.read_at as string | null) ?? null,
+  };
+}
+
+export async function fetchNotificationSettings(): Promise<NotificationSettings> {
+  if (!getSupabaseEnvStatus().configured) return readLocalSettings() ?? DEFAULT_NOTIFICATION_SETTINGS;
+
+  const { data: rows, error } = await supabase
+    .from('notification_settings')
+    .select('*')
+    .eq('tenant_id', tenantScopeId())
+    .limit(1);
+  if (error) {
+    console.error('[NotificationsAPI] Error fetching notification settings:', error);
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+  const data = rows?.[0];
+  if (!data) return DEFAULT_NOTIFICATION_SETTINGS;
+  return {
+    teamLeadEmail: data.team_lead_email,
+    engagementManagerEmail: data.engagement_manager_email,
+    webhookUrl: data.webhook_url,
+    updatedAt: data.updated_at,
+  };
+}
+
+export async function saveNotificationSettings(settings: NotificationSettings): Promise<NotificationSettings | null> {
+  const saved: NotificationSettings = {
+    teamLeadEmail: settings.teamLeadEmail.trim(),
+    engagementManagerEmail: settings.engagementManagerEmail.trim(),
+    webhookUrl: settings.webhookUrl.trim(),
+    updatedAt: new Date().toISOString(),
+  };
+
+  if (!getSupabaseEnvStatus().configured) {
+    writeLocalSettings(saved);
+    return saved;
+  }
+
+  const { error } = await supabase.from('notification_settings').upsert(
+    withTenant({
+      team_lead_email: saved.teamLeadEmail,
+      engagement_manager_email: saved.engagementManagerEmail,
+      webhook_url: saved.webhookUrl,
+      updated_at: saved.updatedAt!,
+    }),
+    { onConflict: 'tenant_id' }
+  );
+  if (error) {
+    console.error('[NotificationsAPI] Error saving notification settings:', error);
+    return null;
+  }
+  return saved;
+}
+
+/** Queues notifications as pending; entries whose dedupe key is already in the outbox are skipped. */
+export async function enqueueNotifications(entries: NewOutboxNotification[]): Promise<boolean> {
+  if (entries.length === 0) return true;
+
+  if (!getSupabaseEnvStatus().configured) {
+    const outbox = readLocalOutbox();
+    const queuedKeys = new Set(outbox.map((notification) => notification.dedupeKey));
+    const createdAt = new Date().toISOString();
+    entries
+      .filter((entry) => !queuedKeys.has(entry.dedupeKey))
+      .forEach((entry) => {
+        queuedKeys.add(entry.dedupeKey);
+        outbox.push({
+          ...entry,
+          id: `local-notification-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          status: 'pending',
+          attempts: 0,
+          lastError: null,
+          createdAt,
+          sentAt: null,
+          readAt: null,
+        });
+      });
+    writeLocalOutbox(outbox);
+    return true;
+  }
+
+  const { error } = await supabase.from('notification_outbox').upsert(
+    entries.map((entry) =>
+      withTenant({
+        channel: entry.channel,
+        recipient: entry.recipient,
+        subject: entry.subject,
+        body: entry.body,
+        case_id: entry.caseId,
+        escalation_level: entry.escalationLevel,
+        dedupe_key: entry.dedupeKey,
+      })
+    ),
+    { onConflict: 'tenant_id,dedupe_key', ignoreDuplicates: true }
+  );
+  if (error) {
+    console.error('[NotificationsAPI] Error queueing notifications:', error);
+    return false;
+  }
+  return true;
+}
+
+async function sendEmailViaEdgeFunction(notificationId: string): Promise<void> {
+  const { error } = await supabase.functions.invoke('notification-email', {
+    body: { tenantId: tenantScopeId(), notificationId },
+  });
+  if (error) throw error;
+}
+
+/**
+ * Adapters for the current environment. Local mode, and deployments with
+ * VITE_NOTIFICATIONS_STUB_DELIVERY, record deliveries without sending anything.
+ */
+export function notificationDeliveryAdapters(): DeliveryAdapters {
+  if (!getSupabaseEnvStatus().configured || FEATURE_FLAGS.notificationDeliveryStub) {
+    return createLocalStubAdapters();
+  }
+  return {
+    in_app: createInAppAdapter(),
+    email: createEmailAdapter(sendEmailViaEdgeFunction),
+    webhook: createWebhookAdapter(),
+  };
+}
+
+/**
+ * Claims the oldest pending notifications, delivers them and records each outcome on the outbox.
+ * Claiming marks the rows as sending in one statement, so concurrent sessions never deliver the
+ * same notification twice. Returns only the outcomes that were recorded.
+ */
+export async function dispatchNotificationOutbox(
+  adapters: DeliveryAdapters = notificationDeliveryAdapters()
+): Promise<DeliveryUpdate[]> {
+  if (!getSupabaseEnvStatus().configured) {
+    const outbox = readLocalOutbox();
+    const pending = outbox.filter((notification) => notification.status === 'pending').slice(0, DISPATCH_BATCH_SIZE);
+    const updates = await deliverNotifications(pending, adapters);
+    const updatesById = new Map(updates.map((update) => [update.id, update]));
+    writeLocalOutbox(outbox.map((notification) => ({ ...notification, ...updatesById.get(notification.id) })));
+    return updates;
+  }
+
+  const tenantId = tenantScopeId();
+  const { data, error } = await supabase.rpc('claim_pending_notifications', {
+    target_tenant: tenantId,
+    max_rows: DISPATCH_BATCH_SIZE,
+  });
+  if (error) {
+    console.error('[NotificationsAPI] Error claiming pending notifications:', error);
+    return [];
+  }
+
+  const claimed = (data || []).map((row) => mapNotificationRow(row as unknown as Record<string, unknown>));
+  const updates = await deliverNotifications(claimed, adapters);
+  if (updates.length === 0) return [];
+
+  const { data: recorded, error: recordError } = await supabase.rpc('record_notification_deliveries', {
+    target_tenant: tenantId,
+    outcomes: updates.map((update) => ({
+      id: update.id,
+      status: update.status,
+      attempts: update.attempts,
+      last_error: update.lastError,
+      sent_at: update.sentAt,
+    })),
+  });
+  if (recordError) {
+    // The claims lapse and the notifications are retried, so delivered ones may be sent again.
+    console.error('[NotificationsAPI] Error recording notification deliveries:', recordError);
+    return [];
+  }
+  if (recorded !== updates.length) {
+    console.error(`[NotificationsAPI] Recorded ${recorded} of ${updates.length} notification deliveries.`);
+  }
+  return updates;
+}
+
+/** Delivered in-app notifications addressed to the signed-in member's role, newest first, with their read state. */
+export async function fetchInAppNotifications(limit = 20): Promise<OutboxNotification[]> {
+  if (!getSupabaseEnvStatus().configured) {
+    return readLocalOutbox()
+      .filter((notification) => notification.channel === 'in_app' && notification.status === 'sent')
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  }
+
+  const { data, error } = await supabase.rpc('fetch_notification_inbox', {
+    target_tenant: tenantScopeId(),
+    max_rows: limit,
+  });
+  if (error) {
+    console.error('[NotificationsAPI] Error fetching notifications:', error);
+    return [];
+  }
+  return (data || []).map((row) => mapNotificationRow(row as unknown as Record<string, unknown>));
+}
+
+export async function markNotificationsRead(ids: string[]): Promise<boolean> {
+  if (ids.length === 0) return true;
+
+  if (!getSupabaseEnvStatus().configured) {
+    const readAt = new Date().toISOString();
+    const unread = new Set(ids);
+    writeLocalOutbox(
+      readLocalOutbox().map((notification) =>
+        unread.has(notification.id) && !notification.readAt ? { ...notification, readAt } : notification
+      )
+    );
+    return true;
+  }
+
+  const { error } = await supabase.rpc('mark_notifications_read', {
+    target_tenant: tenantScopeId(),
+    notification_ids: ids,
+  });
+  if (error) {
+    console.error('[NotificationsAPI] Error marking notifications read:', error);
+    return false;
+  }
+  return true;
+}
+
+async function fetchEscalationCases(tenantId: string): Promise<EscalationCase[] | null> {
+  const cases: EscalationCase[] = [];
+  for (let offset = 0; ; offset += ESCALATION_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('cases')
+      .select(ESCALATION_CASE_COLUMNS)
+      .eq('tenant_id', tenantId)
+      .neq('status', 'Resolved')
+      .order('id')
+      .range(offset, offset + ESCALATION_PAGE_SIZE - 1);
+    if (error) {
+      console.error('[NotificationsAPI] Error fetching cases for escalation:', error);
+      return null;
+    }
+    const batch = (data || []) as unknown as EscalationCase[];
+    cases.push(...batch);
+    if (batch.length < ESCALATION_PAGE_SIZE) break;
+  }
+  return cases;
+}
+
+/**
+ * Raises open cases to the escalation level their SLA use has reached, queues the matching
+ * notifications and dispatches the outbox. Cases only exist in Supabase, so local mode has
+ * nothing to escalate and only dispatches.
+ */
+export async function runCaseEscalations(now: Date = new Date()): Promise<PlannedEscalation[]> {
+  if (!getSupabaseEnvStatus().configured) {
+    await dispatchNotificationOutbox();
+    return [];
+  }
+
+  const tenantId = tenantScopeId();
+  const [cases, calendar, settings] = await Promise.all([
+    fetchEscalationCases(tenantId),
+    fetchSlaCalendar(),
+    fetchNotificationSettings(),
+  ]);
+  if (!cases) return [];
+
+  const escalations = planCaseEscalations(cases, calendar, settings, now);
+  // Queue before raising the level, so a failed insert is retried on the next pass.
+  const queued = await enqueueNotifications(escalations.flatMap((escalation) => escalation.notifications));
+  let raised: PlannedEscalation[] = [];
+  if (queued) {
+    const results = await Promise.all(
+      escalations.map((escalation) =>
+        supabase
+          .from('cases')
+          .update({ escalation_level: escalation.level, escalated_at: now.toISOString() })
+          .eq('tenant_id', tenantId)
+          .eq('id', escalation.caseId)
+      )
+    );
+    // A case whose level was not raised is planned again on the next pass; its
+    // notifications are not queued twice thanks to their dedupe keys.
+    raised = escalations.filter((escalation, index) => {
+      const { error } = results[index];
+      if (error) console.error(`[NotificationsAPI] Error raising escalation level of case ${escalation.caseId}:`, error);
+      return !error;
+    });
+  }
+  // Also retries notifications that failed on an earlier pass.
+  await dispatchNotificationOutbox();
+  return raised;
+}
@@ -34,7 +34,9 @@ describe('pintAEApi legacy schema compatibility', () => {
 
     fromMock.mockImplementation(() => ({
       select: () => ({
-        ilike: async () => ({ data: [], error: null }),
+        eq: () => ({
+          ilike: async () => ({ data: [], error: null }),
+        }),
       }),
       insert: async (rows: any[]) => {
         insertedRows = rows;
@@ -52,38 +54,105 @@ describe('pintAEApi legacy schema compatibility', () => {
     });
   });
 
-  it('normalizes legacy rule_type rows back to the runtime taxonomy on read', async () => {
+  it('keeps the stored enabled state and severity of existing checks on a forced reseed', async () => {
+    let upsertedRows: any[] = [];
+
     fromMock.mockImplementation(() => ({
       select: () => ({
         eq: () => ({
-          order: async () => ({
-            data: [
-              {
-                id: 'row-1',
-                check_id: 'UAE-UC1-CHK-001',
-                check_name: 'Invoice Number Present',
-                description: 'Legacy row',
-                scope: 'Header',
-                rule_type: 'Presence',
-                severity: 'Critical',
-                use_case: 'UC1',
-                pint_reference_terms: ['IBT-001'],
-                mof_rule_reference: 'BR-01',
-                pass_condition: 'ok',
-                fail_condition: 'bad',
-                owner_team_default: 'Client Finance',
-                suggested_fix: 'fix',
-                evidence_required: 'evidence',
-                is_enabled: true,
-                parameters: { field: 'invoice_number' },
-                created_at: '2026-03-28T00:00:00.000Z',
-                updated_at: '2026-03-28T00:00:00.000Z',
-              },
-            ],
+          ilike: async () => ({
+            data: [{ check_id: 'UAE-UC1-CHK-001', is_enabled: false, severity: 'Low' }],
             error: null,
           }),
         }),
       }),
+      upsert: async (rows: any[]) => {
+        upsertedRows = rows;
+        return { error: null };
+      },
+    }));
+
+    const { seedUC1CheckPack } = await import('@/lib/api/pintAEApi');
+    const result = await seedUC1CheckPack(true);
+
+    expect(result.success).toBe(true);
+    expect(upsertedRows.find((row) => row.check_id === 'UAE-UC1-CHK-001')).toMatchObject({
+      is_enabled: false,
+      severity: 'Low',
+    });
+    expect(upsertedRows.find((row) => row.check_id === 'UAE-UC1-CHK-002')).toMatchObject({ is_enabled: true });
+  });
+
+  it('loads every page of a run\'s findings and reports a failed page as null', async () => {
+    const ranges: [number, number][] = [];
+    let failFrom = Infinity;
+    const row = (index: number) => ({
+      id: `exc-${index}`,
+      run_id: 'run-1',
+      timestamp: '2026-10-19T07:00:00.000Z',
+      check_id: 'UAE-UC1-CHK-001',
+      check_name: 'Invoice Number Present',
+      severity: 'Critical',
+      scope: 'Header',
+      message: 'Invoice number is missing',
+    });
+    const query = {
+      select: () => query,
+      eq: () => query,
+      order: () => query,
+      range: async (from: number, to: number) => {
+        ranges.push([from, to]);
+        if (from >= failFrom) return { data: null, error: { message: 'timeout' } };
+        const count = Math.max(0, Math.min(to, 1499) - from + 1);
+        return { data: Array.from({ length: count }, (_, offset) => row(from + offset)), error: null };
+      },
+    };
+    fromMock.mockImplementation(() => query);
+
+    const { fetchExceptionsByRun } = await import('@/lib/api/pintAEApi');
+
+    expect((await fetchExceptionsByRun('run-1'))?.length).toBe(1500);
+    expect(ranges).toEqual([[0, 999], [1000, 1999]]);
+
+    failFrom = 1000;
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(await fetchExceptionsByRun('run-1')).toBeNull();
+  });
+
+  it('normalizes legacy rule_type rows back to the runtime taxonomy on read', async () => {
+    fromMock.mockImplementation(() => ({
+      select: () => ({
+        eq: () => ({
+          eq: () => ({
+            order: async () => ({
+              data: [
+                {
+                  id: 'row-1',
+                  check_id: 'UAE-UC1-CHK-001',
+                  check_name: 'Invoice Number Present',
+                  description: 'Legacy row',
+                  scope: 'Header',
+                  rule_type: 'Presence',
+                  severity: 'Critical',
+                  use_case: 'UC1',
+                  pint_reference_terms: ['IBT-001'],
+                  mof_rule_reference: 'BR-01',
+                  pass_condition: 'ok',
+                  fail_condition: 'bad',
+                  owner_team_default: 'Client Finance',
+                  suggested_fix: 'fix',
+                  evidence_required: 'evidence',
+                  is_enabled: true,
+                  parameters: { field: 'invoice_number' },
+                  created_at: '2026-03-28T00:00:00.000Z',
+                  updated_at: '2026-03-28T00:00:00.000Z',
+                },
+              ],
+              error: null,
+            }),
+          }),
+        }),
+      }),
     }));
 
   const { fetchEnabledPintAEChecks } = await import('@/lib/api/pintAEApi');
@@ -99,15 +168,17 @@ describe('pintAEApi legacy schema compatibility', () => {
     fromMock.mockImplementation(() => ({
       select: () => ({
         eq: () => ({
+          eq: () => ({
+            order: async () => {
+              throw new TypeError('Failed to fetch');
+            },
+          }),
           order: async () => {
             throw new TypeError('Failed to fetch');
           },
+          then: (resolve: (value: { data: null; error: { message: string } }) => void) =>
+            resolve({ data: null, error: { message: 'Failed to fetch' } }),
         }),
-        order: async () => {
-          throw new TypeError('Failed to fetch');
-        },
-        then: (resolve: (value: { data: null; error: { message: string } }) => void) =>
-          resolve({ data: null, error: { message: 'Failed to fetch' } }),
       }),
     }));
 
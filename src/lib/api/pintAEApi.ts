@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
 import { 
   PintAECheck, 
   PintAEException, 
@@ -11,6 +12,8 @@ import { Severity } from '@/types/compliance';
 import { RAW_UAE_UC1_CHECK_PACK, UAE_UC1_CHECK_PACK } from '@/lib/checks/uaeUC1CheckPack';
 import { getSupabaseEnvStatus, isLocalDevFallbackEnabled, shouldUseLocalDevFallback } from '@/lib/api/supabaseEnv';
 import { getFailureClassForRule } from '@/lib/validation/pintAERuleMetadata';
+import { tenantScopeId, withTenant } from '@/lib/api/tenantScope';
+import { pintExceptionFingerprint } from '@/lib/exceptions/findingFingerprint';
 
 const UC1_CHECK_LOOKUP = new Map(UAE_UC1_CHECK_PACK.map((check) => [check.check_id, check]));
 const RAW_UC1_CHECK_LOOKUP = new Map(RAW_UAE_UC1_CHECK_PACK.map((check) => [check.check_id, check]));
@@ -63,6 +66,7 @@ export async function fetchPintAEChecks(): Promise<PintAECheck[]> {
     const { data, error } = await supabase
       .from('pint_ae_checks')
       .select('*')
+      .eq('tenant_id', tenantScopeId())
       .order('check_id', { ascending: true });
 
     if (error) {
@@ -97,6 +101,7 @@ export async function fetchEnabledPintAEChecks(): Promise<PintAECheck[]> {
     const { data, error } = await supabase
       .from('pint_ae_checks')
       .select('*')
+      .eq('tenant_id', tenantScopeId())
       .eq('is_enabled', true)
       .order('check_id', { ascending: true });
 
@@ -118,10 +123,11 @@ export async function fetchEnabledPintAEChecks(): Promise<PintAECheck[]> {
   }
 }
 
+// Enabled state and severity only change through approved requests; Supabase rejects other changes to them.
 export async function upsertPintAECheck(check: PintAECheck): Promise<boolean> {
   const { error } = await supabase
     .from('pint_ae_checks')
-    .upsert({
+    .upsert(withTenant({
       check_id: check.check_id,
       check_name: check.check_name,
       description: check.description,
@@ -138,7 +144,7 @@ export async function upsertPintAECheck(check: PintAECheck): Promise<boolean> {
       evidence_required: check.evidence_required,
       is_enabled: check.is_enabled,
       parameters: check.parameters,
-    }, { onConflict: 'check_id' });
+    }), { onConflict: 'tenant_id,check_id' });
 
   if (error) {
     console.error('Error upserting PINT-AE check:', error);
@@ -147,19 +153,6 @@ export async function upsertPintAECheck(check: PintAECheck): Promise<boolean> {
   return true;
 }
 
-export async function toggleCheckEnabled(checkId: string, isEnabled: boolean): Promise<boolean> {
-  const { error } = await supabase
-    .from('pint_ae_checks')
-    .update({ is_enabled: isEnabled })
-    .eq('check_id', checkId);
-
-  if (error) {
-    console.error('Error toggling check:', error);
-    return false;
-  }
-  return true;
-}
-
 export interface ChecksDiagnostics {
   totalChecks: number;
   enabledChecks: number;
@@ -204,7 +197,8 @@ export async function getChecksDiagnostics(): Promise<ChecksDiagnostics> {
   try {
     const { data: allChecks, error } = await supabase
       .from('pint_ae_checks')
-      .select('check_id, is_enabled');
+      .select('check_id, is_enabled')
+      .eq('tenant_id', tenantScopeId());
 
     if (error) {
       if (canUseFallbackAfterFetchFailure()) {
@@ -289,22 +283,23 @@ export async function seedUC1CheckPack(forceUpsert = false): Promise<{ success:
   }
   
   try {
-    // Fetch existing UC1 check IDs so non-force mode can repair only missing checks
+    // Fetch existing UC1 checks so non-force mode can repair only missing checks
     // without overwriting DB-managed settings (enabled state, severity tuning, text updates).
     const { data: existingUC1, error: existingError } = await supabase
       .from('pint_ae_checks')
-      .select('check_id')
+      .select('check_id, is_enabled, severity')
+      .eq('tenant_id', tenantScopeId())
       .ilike('check_id', 'UAE-UC1-CHK-%');
 
     if (existingError) {
       return { success: false, message: `Seed failed: ${existingError.message}` };
     }
-    const existingIds = new Set((existingUC1 || []).map((row) => row.check_id));
+    const existingById = new Map((existingUC1 || []).map((row) => [row.check_id, row]));
 
     // Prepare checks for upsert
     const checksToUpsert = UAE_UC1_CHECK_PACK.map((check) => {
       const legacy = RAW_UC1_CHECK_LOOKUP.get(check.check_id);
-      return {
+      return withTenant({
       check_id: check.check_id,
       check_name: check.check_name,
       description: check.description,
@@ -321,22 +316,27 @@ export async function seedUC1CheckPack(forceUpsert = false): Promise<{ success:
       evidence_required: check.evidence_required,
       is_enabled: check.is_enabled,
       parameters: check.parameters,
-      };
+      });
     });
 
     let error: { message: string } | null = null;
     let seededCount = 0;
 
     if (forceUpsert) {
-      // Admin path: explicitly refresh canonical pack and overwrite existing entries.
+      // Admin path: explicitly refresh canonical pack and overwrite existing entries. Enabled
+      // state and severity only change through approved requests, so existing checks keep theirs.
+      const refreshedChecks = checksToUpsert.map((check) => {
+        const existing = existingById.get(check.check_id);
+        return existing ? { ...check, is_enabled: existing.is_enabled, severity: existing.severity } : check;
+      });
       const result = await supabase
         .from('pint_ae_checks')
-        .upsert(checksToUpsert, { onConflict: 'check_id' });
+        .upsert(refreshedChecks, { onConflict: 'tenant_id,check_id' });
       error = result.error;
       seededCount = checksToUpsert.length;
     } else {
       // Safe path: insert only missing checks, preserving existing DB settings.
-      const missingChecks = checksToUpsert.filter((check) => !existingIds.has(check.check_id));
+      const missingChecks = checksToUpsert.filter((check) => !existingById.has(check.check_id));
       if (missingChecks.length === 0) {
         console.log('[PINT-AE] Seed skipped - UC1 checks already complete');
         return { success: true, message: 'Seed skipped - UC1 checks already complete' };
@@ -366,7 +366,7 @@ export async function seedUC1CheckPack(forceUpsert = false): Promise<{ success:
 export async function saveExceptions(runId: string, exceptions: PintAEException[]): Promise<boolean> {
   if (exceptions.length === 0) return true;
 
-  const exceptionsToInsert = exceptions.map(e => ({
+  const exceptionsToInsert = exceptions.map(e => withTenant({
     run_id: runId,
     timestamp: e.timestamp,
     dataset_type: e.dataset_type || 'AR',
@@ -392,6 +392,7 @@ export async function saveExceptions(runId: string, exceptions: PintAEException[
     sla_target_hours: e.sla_target_hours,
     case_status: e.case_status,
     case_id: e.case_id,
+    fingerprint: pintExceptionFingerprint(e),
   }));
 
   const { error } = await supabase
@@ -405,19 +406,32 @@ export async function saveExceptions(runId: string, exceptions: PintAEException[
   return true;
 }
 
-export async function fetchExceptionsByRun(runId: string): Promise<PintAEException[]> {
-  const { data, error } = await supabase
-    .from('check_exceptions')
-    .select('*')
-    .eq('run_id', runId)
-    .order('timestamp', { ascending: false });
+// Every stored finding of a run, newest first; null when they could not all be loaded.
+export async function fetchExceptionsByRun(runId: string): Promise<PintAEException[] | null> {
+  const pageSize = 1000;
+  const rows: Tables<'check_exceptions'>[] = [];
 
-  if (error) {
-    console.error('Error fetching exceptions:', error);
-    return [];
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await supabase
+      .from('check_exceptions')
+      .select('*')
+      .eq('tenant_id', tenantScopeId())
+      .eq('run_id', runId)
+      .order('timestamp', { ascending: false })
+      .order('id')
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      console.error('Error fetching exceptions:', error);
+      return null;
+    }
+
+    const batch = data || [];
+    rows.push(...batch);
+    if (batch.length < pageSize) break;
   }
 
-  return (data || []).map((row) => {
+  return rows.map((row) => {
     const fallback = UC1_CHECK_LOOKUP.get(row.check_id);
     const ruleType = (row.rule_type as PintAEException['rule_type']) || fallback?.rule_type;
     const executionLayer =
@@ -452,16 +466,48 @@ export async function fetchExceptionsByRun(runId: string): Promise<PintAEExcepti
       sla_target_hours: row.sla_target_hours || 24,
       case_status: (row.case_status || 'Open') as PintAEException['case_status'],
       case_id: row.case_id || undefined,
+      fingerprint: row.fingerprint || undefined,
     };
   });
 }
 
+// Fingerprints of every finding recorded for the given runs.
+/** Null when the lookup fails, so callers cannot mistake a failed query for runs with no findings. */
+export async function fetchExceptionFingerprintsByRuns(runIds: string[]): Promise<Set<string> | null> {
+  if (runIds.length === 0) return new Set();
+
+  const pageSize = 1000;
+  const fingerprints = new Set<string>();
+
+  for (let offset = 0; ; offset += pageSize) {
+    const { data, error } = await supabase
+      .from('check_exceptions')
+      .select('fingerprint')
+      .eq('tenant_id', tenantScopeId())
+      .in('run_id', runIds)
+      .not('fingerprint', 'is', null)
+      .order('id')
+      .range(offset, offset + pageSize - 1);
+
+    if (error) {
+      console.error('Error fetching exception fingerprints:', error);
+      return null;
+    }
+
+    const batch = data || [];
+    batch.forEach((row) => fingerprints.add(row.fingerprint as string));
+    if (batch.length < pageSize) break;
+  }
+
+  return fingerprints;
+}
+
 // ============ Run Summary ============
 
 export async function saveRunSummary(summary: Omit<RunSummary, 'id'>): Promise<boolean> {
   const { error } = await supabase
     .from('run_summaries')
-    .insert({
+    .insert(withTenant({
       run_id: summary.run_id,
       total_invoices_tested: summary.total_invoices_tested,
       total_exceptions: summary.total_exceptions,
@@ -469,7 +515,7 @@ export async function saveRunSummary(summary: Omit<RunSummary, 'id'>): Promise<b
       exceptions_by_severity: summary.exceptions_by_severity,
       top_10_failing_checks: summary.top_10_failing_checks,
       top_10_clients_by_risk: summary.top_10_clients_by_risk,
-    });
+    }));
 
   if (error) {
     console.error('Error saving run summary:', error);
@@ -482,6 +528,7 @@ export async function fetchLatestRunSummary(): Promise<RunSummary | null> {
   const { data, error } = await supabase
     .from('run_summaries')
     .select('*')
+    .eq('tenant_id', tenantScopeId())
     .order('created_at', { ascending: false })
     .limit(1)
     .maybeSingle();
@@ -507,7 +554,7 @@ export async function fetchLatestRunSummary(): Promise<RunSummary | null> {
 export async function saveClientRiskScores(runId: string, scores: Omit<ClientRiskScore, 'id' | 'run_id'>[]): Promise<boolean> {
   if (scores.length === 0) return true;
 
-  const scoresToInsert = scores.map(s => ({
+  const scoresToInsert = scores.map(s => withTenant({
     run_id: runId,
     seller_trn: s.seller_trn,
     client_name: s.client_name,
@@ -536,6 +583,7 @@ export async function fetchClientRiskScoresByRun(runId: string): Promise<ClientR
   const { data, error } = await supabase
     .from('client_risk_scores')
     .select('*')
+    .eq('tenant_id', tenantScopeId())
     .eq('run_id', runId)
     .order('risk_score', { ascending: false });
 
@@ -565,6 +613,7 @@ export async function fetchLatestClientRiskScores(limit = 10): Promise<ClientRis
   const { data: latestRun } = await supabase
     .from('check_runs')
     .select('id')
+    .eq('tenant_id', tenantScopeId())
     .order('run_date', { ascending: false })
     .limit(1)
     .maybeSingle();
@@ -574,6 +623,7 @@ export async function fetchLatestClientRiskScores(limit = 10): Promise<ClientRis
   const { data, error } = await supabase
     .from('client_risk_scores')
     .select('*')
+    .eq('tenant_id', tenantScopeId())
     .eq('run_id', latestRun.id)
     .order('risk_score', { ascending: false })
     .limit(limit);
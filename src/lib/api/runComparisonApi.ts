@@ -0,0 +1,55 @@
+import { fetchCheckRuns } from '@/lib/api/checksApi';
+import { fetchExceptionFingerprintsByRuns, fetchExceptionsByRun } from '@/lib/api/pintAEApi';
+import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { classifyRunLineage } from '@/lib/exceptions/runLineage';
+import { CheckRun } from '@/types/customChecks';
+import { RunComparison } from '@/types/runLineage';
+
+// Older runs searched for a finding's earlier appearances when telling regressions from new findings.
+const REGRESSION_LOOKBACK_RUNS = 10;
+
+function runScope(run: CheckRun): string {
+  return String(run.results_summary?.direction || run.dataset_type || 'AR');
+}
+
+/**
+ * Compares a run with the previous run of the same direction. Defaults to the latest run; the
+ * direction limits the default to that direction's latest run. Findings are only stored in
+ * Supabase, so there is nothing to compare in local mode. Throws when findings cannot be loaded
+ * rather than comparing against a partial set.
+ */
+export async function fetchRunComparison(options: { runId?: string; direction?: string } = {}): Promise<RunComparison | null> {
+  if (!getSupabaseEnvStatus().configured) return null;
+
+  const runs = await fetchCheckRuns();
+  const current = options.runId
+    ? runs.find((run) => run.id === options.runId)
+    : runs.find((run) => !options.direction || runScope(run) === options.direction);
+  if (!current) return null;
+
+  // fetchCheckRuns is newest first, so everything after the current run is older.
+  const olderRuns = runs.slice(runs.indexOf(current) + 1).filter((run) => runScope(run) === runScope(current));
+  const previous = olderRuns[0] ?? null;
+  const earlierRunIds = olderRuns.slice(1, 1 + REGRESSION_LOOKBACK_RUNS).map((run) => run.id);
+
+  const [currentExceptions, previousExceptions, earlierFingerprints] = await Promise.all([
+    fetchExceptionsByRun(current.id),
+    previous ? fetchExceptionsByRun(previous.id) : Promise.resolve([]),
+    fetchExceptionFingerprintsByRuns(earlierRunIds),
+  ]);
+
+  if (!currentExceptions || !previousExceptions) {
+    throw new Error('Findings of the compared runs could not be loaded, so the run comparison would be incomplete.');
+  }
+  if (!earlierFingerprints) {
+    throw new Error('Findings of earlier runs could not be loaded, so regressed findings cannot be told apart from new ones.');
+  }
+
+  return {
+    runId: current.id,
+    runDate: current.run_date,
+    previousRunId: previous?.id ?? null,
+    previousRunDate: previous?.run_date ?? null,
+    ...classifyRunLineage(currentExceptions, previousExceptions, earlierFingerprints),
+  };
+}
@@ -0,0 +1,116 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { tenantScopeId, withTenant } from '@/lib/api/tenantScope';
+import { parseTenantRole, SensitiveAction } from '@/lib/access/permissions';
+import { TenantRole } from '@/types/tenant';
+
+const LOCAL_SENSITIVE_ACTIONS_KEY = 'drcs_sensitive_actions_v1';
+const MAX_LOCAL_ENTRIES = 500;
+
+export interface SensitiveActionLogEntry {
+  id: string;
+  action: SensitiveAction;
+  entityType: string;
+  entityId: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  actorRole: TenantRole | null;
+  details: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface NewSensitiveAction {
+  action: SensitiveAction;
+  entityType: string;
+  entityId: string;
+  details?: Record<string, unknown>;
+}
+
+function readLocalEntries(): SensitiveActionLogEntry[] {
+  try {
+    const raw = localStorage.getItem(LOCAL_SENSITIVE_ACTIONS_KEY);
+    return raw ? (JSON.parse(raw) as SensitiveActionLogEntry[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function mapSensitiveActionRow(row: Record<string, unknown>): SensitiveActionLogEntry {
+  return {
+    id: row.id as string,
+    action: row.action as SensitiveAction,
+    entityType: row.entity_type as string,
+    entityId: row.entity_id as string,
+    actorId: (row.actor_id as string | null) ?? null,
+    actorEmail: (row.actor_email as string | null) ?? null,
+    actorRole: row.actor_role ? parseTenantRole(row.actor_role) : null,
+    details: (row.details as Record<string, unknown>) || {},
+    createdAt: row.created_at as string,
+  };
+}
+
+/**
+ * Records a sensitive transition. Supabase stamps the actor from the session and rejects the
+ * entry when the actor's role does not allow the action; without Supabase the single local
+ * user is recorded.
+ */
+export async function logSensitiveAction(entry: NewSensitiveAction): Promise<boolean> {
+  if (!getSupabaseEnvStatus().configured) {
+    const local: SensitiveActionLogEntry = {
+      id: `local-action-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      actorId: null,
+      actorEmail: null,
+      actorRole: 'admin',
+      details: entry.details || {},
+      createdAt: new Date().toISOString(),
+    };
+    try {
+      localStorage.setItem(
+        LOCAL_SENSITIVE_ACTIONS_KEY,
+        JSON.stringify([local, ...readLocalEntries()].slice(0, MAX_LOCAL_ENTRIES))
+      );
+    } catch {
+      // Ignore storage quota and private-mode failures.
+    }
+    return true;
+  }
+
+  const { error } = await supabase.from('sensitive_action_log').insert(
+    withTenant({
+      action: entry.action,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId,
+      details: (entry.details || {}) as Json,
+    })
+  );
+
+  if (error) {
+    console.error('[SensitiveActionsAPI] Error logging sensitive action:', error);
+    return false;
+  }
+  return true;
+}
+
+// Newest first.
+export async function fetchSensitiveActions(limit = 200): Promise<SensitiveActionLogEntry[]> {
+  if (!getSupabaseEnvStatus().configured) {
+    return readLocalEntries().slice(0, limit);
+  }
+
+  const { data, error } = await supabase
+    .from('sensitive_action_log')
+    .select('*')
+    .eq('tenant_id', tenantScopeId())
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('[SensitiveActionsAPI] Error fetching sensitive actions:', error);
+    return [];
+  }
+  return (data || []).map((row) => mapSensitiveActionRow(row as unknown as Record<string, unknown>));
+}
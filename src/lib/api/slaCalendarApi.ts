@@ -0,0 +1,77 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { tenantScopeId, withTenant } from '@/lib/api/tenantScope';
+import { DEFAULT_SLA_CALENDAR, SlaCalendar, SlaHoliday, WeekendPattern } from '@/types/slaCalendar';
+
+const LOCAL_SLA_CALENDAR_KEY = 'drcs_sla_calendar_v1';
+
+function readLocalCalendar(): SlaCalendar | null {
+  try {
+    const raw = localStorage.getItem(LOCAL_SLA_CALENDAR_KEY);
+    return raw ? (JSON.parse(raw) as SlaCalendar) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeLocalCalendar(calendar: SlaCalendar): void {
+  try {
+    localStorage.setItem(LOCAL_SLA_CALENDAR_KEY, JSON.stringify(calendar));
+  } catch {
+    // Ignore storage quota and private-mode failures.
+  }
+}
+
+/** The workspace's SLA calendar, or the default UAE calendar when none has been saved. */
+export async function fetchSlaCalendar(): Promise<SlaCalendar> {
+  if (!getSupabaseEnvStatus().configured) return readLocalCalendar() ?? DEFAULT_SLA_CALENDAR;
+
+  const { data: rows, error } = await supabase
+    .from('sla_calendars')
+    .select('*')
+    .eq('tenant_id', tenantScopeId())
+    .limit(1);
+  if (error) {
+    console.error('[SlaCalendarAPI] Error fetching SLA calendar:', error);
+    return DEFAULT_SLA_CALENDAR;
+  }
+  const data = rows?.[0];
+  if (!data) return DEFAULT_SLA_CALENDAR;
+  return {
+    weekend: data.weekend as WeekendPattern,
+    workdayStartMinute: data.workday_start_minute,
+    workdayEndMinute: data.workday_end_minute,
+    observeFixedHolidays: data.observe_fixed_holidays,
+    holidays: (data.holidays as unknown as SlaHoliday[] | null) || [],
+    updatedAt: data.updated_at,
+  };
+}
+
+export async function saveSlaCalendar(calendar: SlaCalendar): Promise<SlaCalendar | null> {
+  const holidays = [...calendar.holidays].sort((a, b) => a.date.localeCompare(b.date));
+  const updatedAt = new Date().toISOString();
+
+  if (!getSupabaseEnvStatus().configured) {
+    const saved = { ...calendar, holidays, updatedAt };
+    writeLocalCalendar(saved);
+    return saved;
+  }
+
+  const { error } = await supabase.from('sla_calendars').upsert(
+    withTenant({
+      weekend: calendar.weekend,
+      workday_start_minute: calendar.workdayStartMinute,
+      workday_end_minute: calendar.workdayEndMinute,
+      observe_fixed_holidays: calendar.observeFixedHolidays,
+      holidays: holidays as unknown as Json,
+      updated_at: updatedAt,
+    }),
+    { onConflict: 'tenant_id' }
+  );
+  if (error) {
+    console.error('[SlaCalendarAPI] Error saving SLA calendar:', error);
+    return null;
+  }
+  return { ...calendar, holidays, updatedAt };
+}
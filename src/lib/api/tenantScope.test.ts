@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const calls: { table: string; method: string; args: unknown[] }[] = [];
+const rowsByTable: Record<string, unknown[]> = {};
+
+// Records every builder call and resolves to the table's seeded rows, whatever the chain.
+function recordingBuilder(table: string): unknown {
+  const builder: Record<string, unknown> = {
+    then: (resolve: (value: { data: unknown[]; error: null }) => void) =>
+      resolve({ data: rowsByTable[table] ?? [], error: null }),
+  };
+  for (const method of ['select', 'insert', 'update', 'upsert', 'eq', 'neq', 'lt', 'order', 'limit', 'single']) {
+    builder[method] = (...args: unknown[]) => {
+      calls.push({ table, method, args });
+      return builder;
+    };
+  }
+  return builder;
+}
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: (table: string) => recordingBuilder(table),
+    rpc: async (fn: string, args: unknown) => {
+      calls.push({ table: fn, method: 'rpc', args: [args] });
+      return { data: 0, error: null };
+    },
+  },
+}));
+
+vi.mock('@/lib/api/supabaseEnv', () => ({
+  getSupabaseEnvStatus: () => ({ configured: true, issues: [] }),
+  shouldUseLocalDevFallback: () => false,
+}));
+
+import { createCase, fetchCases, updateSLABreaches } from '@/lib/api/casesApi';
+import { setActiveTenantScope, tenantScopeId } from '@/lib/api/tenantScope';
+
+const TENANT = '7d0f3c7a-5b1e-4c39-9a57-0f2b8f1c2d11';
+
+describe('tenant scope', () => {
+  beforeEach(() => {
+    calls.length = 0;
+    Object.keys(rowsByTable).forEach((table) => delete rowsByTable[table]);
+    setActiveTenantScope(null);
+  });
+
+  it('filters reads and bulk updates to the active tenant', async () => {
+    setActiveTenantScope(TENANT);
+
+    await fetchCases({ status: 'Open' });
+    await updateSLABreaches();
+
+    const tenantFilters = calls.filter((call) => call.method === 'eq' && call.args[0] === 'tenant_id');
+    expect(tenantFilters.map((call) => [call.table, call.args[1]])).toEqual([
+      ['cases', TENANT],
+      ['sla_calendars', TENANT],
+      ['cases', TENANT],
+    ]);
+  });
+
+  it('writes every changed SLA state for the active tenant in one call', async () => {
+    setActiveTenantScope(TENANT);
+    rowsByTable.cases = ['case-1', 'case-2'].map((id) => ({
+      id,
+      created_at: '2026-03-02T05:00:00.000Z',
+      sla_hours: 4,
+      status: 'Open',
+      sla_target_at: null,
+      is_sla_breached: false,
+    }));
+
+    expect(await updateSLABreaches(new Date('2026-03-09T05:00:00.000Z'))).toBe(true);
+
+    const rpcCalls = calls.filter((call) => call.method === 'rpc');
+    expect(rpcCalls).toHaveLength(1);
+    expect(rpcCalls[0]).toMatchObject({ table: 'refresh_case_sla', args: [{ target_tenant: TENANT }] });
+    expect((rpcCalls[0].args[0] as { updates: unknown[] }).updates).toEqual([
+      expect.objectContaining({ id: 'case-1', is_sla_breached: true }),
+      expect.objectContaining({ id: 'case-2', is_sla_breached: true }),
+    ]);
+  });
+
+  it('stamps inserts with the active tenant', async () => {
+    setActiveTenantScope(TENANT);
+
+    await createCase({ invoice_id: 'INV-1', severity: 'High', owner_team: 'ASP Ops' });
+
+    const insert = calls.find((call) => call.method === 'insert');
+    expect(insert?.args[0]).toMatchObject({ invoice_id: 'INV-1', tenant_id: TENANT });
+  });
+
+  it('matches no tenant before a workspace is selected', async () => {
+    await fetchCases();
+
+    expect(tenantScopeId()).toBe('00000000-0000-0000-0000-000000000000');
+    expect(calls).toContainEqual({ table: 'cases', method: 'eq', args: ['tenant_id', tenantScopeId()] });
+  });
+});
@@ -0,0 +1,24 @@
+// Active tenant for Supabase reads and writes. RLS limits a user to their own tenants;
+// this scope keeps a user who belongs to several tenants inside the one they selected.
+
+// Matches no tenant, so queries issued before a workspace is selected return nothing.
+const NO_TENANT_ID = '00000000-0000-0000-0000-000000000000';
+
+let activeTenantId: string | null = null;
+
+export function setActiveTenantScope(tenantId: string | null): void {
+  activeTenantId = tenantId;
+}
+
+export function getActiveTenantScope(): string | null {
+  return activeTenantId;
+}
+
+/** Tenant id to filter on; never empty, so an unscoped query cannot read across tenants. */
+export function tenantScopeId(): string {
+  return activeTenantId ?? NO_TENANT_ID;
+}
+
+export function withTenant<T extends object>(row: T): T & { tenant_id: string } {
+  return { ...row, tenant_id: tenantScopeId() };
+}
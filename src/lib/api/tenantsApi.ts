@@ -0,0 +1,37 @@
+import { supabase } from '@/integrations/supabase/client';
+import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { Tenant } from '@/types/tenant';
+import { parseTenantRole } from '@/lib/access/permissions';
+
+// Tenants the signed-in user belongs to, by name.
+export async function fetchMyTenants(userId: string): Promise<Tenant[]> {
+  if (!getSupabaseEnvStatus().configured) return [];
+
+  const { data, error } = await supabase
+    .from('tenant_memberships')
+    .select('role, tenants(id, name, slug)')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('[TenantsAPI] Error fetching tenants:', error);
+    return [];
+  }
+
+  return (data || [])
+    .flatMap((row) =>
+      row.tenants ? [{ ...row.tenants, role: parseTenantRole(row.role) }] : []
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Creates a workspace owned by the signed-in user.
+export async function createTenant(name: string): Promise<Tenant | null> {
+  const { data, error } = await supabase.rpc('create_tenant', { tenant_name: name });
+
+  if (error || !data) {
+    console.error('[TenantsAPI] Error creating tenant:', error);
+    return null;
+  }
+
+  return { id: data.id, name: data.name, slug: data.slug, role: 'admin' };
+}
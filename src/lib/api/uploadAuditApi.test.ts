@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { addUploadAuditLog, getUploadAuditLogs } from '@/lib/uploadAudit';
+
+const fromMock = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: fromMock,
+  },
+}));
+
+vi.mock('@/lib/api/supabaseEnv', () => ({
+  getSupabaseEnvStatus: () => ({ configured: true, issues: [] }),
+}));
+
+function auditsQuery(calls: Array<[string, ...unknown[]]>) {
+  const query = {
+    select: () => query,
+    eq: (...args: unknown[]) => (calls.push(['eq', ...args]), query),
+    order: () => query,
+    limit: () => query,
+    gte: (...args: unknown[]) => (calls.push(['gte', ...args]), query),
+    lte: (...args: unknown[]) => (calls.push(['lte', ...args]), query),
+    ilike: (...args: unknown[]) => (calls.push(['ilike', ...args]), query),
+    in: () => query,
+    then: (resolve: (value: unknown) => void) => resolve({ data: [], error: null }),
+  };
+  return query;
+}
+
+describe('uploadAuditApi with Supabase configured', () => {
+  beforeEach(() => {
+    fromMock.mockReset();
+    localStorage.clear();
+  });
+
+  it('searches file names and hashes in the query rather than after the row limit', async () => {
+    const calls: Array<[string, ...unknown[]]> = [];
+    fromMock.mockImplementation(() => auditsQuery(calls));
+
+    const { fetchUploadAudits } = await import('@/lib/api/uploadAuditApi');
+    await fetchUploadAudits({ search: ' Headers_2026%.CSV ' });
+
+    expect(calls).toContainEqual(['ilike', 'search_text', '%headers\\_2026\\%.csv%']);
+  });
+
+  it('moves audits kept in this browser into the workspace and keeps them until stored', async () => {
+    const local = addUploadAuditLog({
+      uploadSessionId: 'upload-local',
+      datasetType: 'AR',
+      buyersCount: 1,
+      headersCount: 1,
+      linesCount: 1,
+      datasets: [],
+      relationalChecks: [],
+    });
+    let upsertResult: { error: unknown } = { error: { message: 'offline' } };
+    const upserted: Array<{ rows: Array<Record<string, unknown>>; options: unknown }> = [];
+    fromMock.mockImplementation(() => ({
+      ...auditsQuery([]),
+      upsert: async (rows: Array<Record<string, unknown>>, options: unknown) => {
+        upserted.push({ rows, options });
+        return upsertResult;
+      },
+    }));
+
+    const { fetchUploadAudits } = await import('@/lib/api/uploadAuditApi');
+    await fetchUploadAudits();
+    expect(getUploadAuditLogs().map((entry) => entry.id)).toEqual([local.id]);
+
+    upsertResult = { error: null };
+    await fetchUploadAudits();
+
+    expect(upserted[1].rows[0]).toMatchObject({ upload_session_id: 'upload-local', created_at: local.createdAt });
+    expect(upserted[1].options).toEqual({ onConflict: 'upload_session_id', ignoreDuplicates: true });
+    expect(getUploadAuditLogs()).toEqual([]);
+  });
+});
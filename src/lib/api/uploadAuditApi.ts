@@ -0,0 +1,184 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { tenantScopeId, withTenant } from '@/lib/api/tenantScope';
+import {
+  addUploadAuditLog,
+  filterUploadAudits,
+  getUploadAuditDateRange,
+  getUploadAuditLogs,
+  NewUploadAuditLogEntry,
+  removeUploadAuditLogs,
+  UploadAuditFilters,
+  UploadAuditLinkedRun,
+  UploadAuditLogEntry,
+} from '@/lib/uploadAudit';
+
+const MAX_FETCHED_AUDITS = 500;
+
+function mapUploadAuditRow(row: Record<string, unknown>): UploadAuditLogEntry {
+  return {
+    id: row.id as string,
+    createdAt: row.created_at as string,
+    uploadSessionId: row.upload_session_id as string,
+    datasetType: row.dataset_type === 'AP' ? 'AP' : 'AR',
+    sourceFormat: row.source_format === 'ubl' ? 'ubl' : 'csv',
+    uploadedBy: (row.uploaded_by as string | null) ?? null,
+    buyersCount: row.buyers_count as number,
+    headersCount: row.headers_count as number,
+    linesCount: row.lines_count as number,
+    files: (row.files as unknown as UploadAuditLogEntry['files']) || [],
+    datasets: (row.datasets as unknown as UploadAuditLogEntry['datasets']) || [],
+    relationalChecks: (row.relational_checks as unknown as UploadAuditLogEntry['relationalChecks']) || [],
+  };
+}
+
+async function resolveUploader(): Promise<string | null> {
+  try {
+    const { data } = await supabase.auth.getUser();
+    return data.user?.email ?? data.user?.id ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function toUploadAuditRow(entry: NewUploadAuditLogEntry, uploadedBy: string | null) {
+  return withTenant({
+    upload_session_id: entry.uploadSessionId!,
+    dataset_type: entry.datasetType || 'AR',
+    source_format: entry.sourceFormat || 'csv',
+    buyers_count: entry.buyersCount,
+    headers_count: entry.headersCount,
+    lines_count: entry.linesCount,
+    files: (entry.files || []) as unknown as Json,
+    datasets: entry.datasets as unknown as Json,
+    relational_checks: entry.relationalChecks as unknown as Json,
+    uploaded_by: uploadedBy,
+  });
+}
+
+// Persist one upload session; falls back to the browser-local log when Supabase is not configured.
+// Returns null when the audit could not be saved, so callers can tell the user.
+export async function saveUploadAudit(entry: NewUploadAuditLogEntry): Promise<UploadAuditLogEntry | null> {
+  if (!getSupabaseEnvStatus().configured) {
+    return addUploadAuditLog(entry);
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('upload_audits')
+      .insert(toUploadAuditRow(entry, entry.uploadedBy ?? (await resolveUploader())))
+      .select('*')
+      .single();
+
+    if (error) {
+      console.error('[UploadAuditAPI] Error saving upload audit:', error);
+      return null;
+    }
+
+    return mapUploadAuditRow(data as unknown as Record<string, unknown>);
+  } catch (error) {
+    console.error('[UploadAuditAPI] Error saving upload audit:', error);
+    return null;
+  }
+}
+
+/**
+ * Uploads audits recorded in this browser before Supabase was configured into the active workspace,
+ * keeping their original upload time, and drops them locally once stored. Re-running after a partial failure is safe
+ * because upload session ids are unique.
+ */
+async function migrateLocalUploadAudits(): Promise<void> {
+  const local = getUploadAuditLogs();
+  if (local.length === 0) return;
+
+  try {
+    const { error } = await supabase.from('upload_audits').upsert(
+      local.map((entry) => ({
+        ...toUploadAuditRow(
+          { ...entry, uploadSessionId: entry.uploadSessionId || `local-${entry.id}` },
+          entry.uploadedBy ?? null
+        ),
+        created_at: entry.createdAt,
+      })),
+      { onConflict: 'upload_session_id', ignoreDuplicates: true }
+    );
+    if (error) {
+      console.error('[UploadAuditAPI] Error migrating browser-local upload audits:', error);
+      return;
+    }
+    removeUploadAuditLogs(local.map((entry) => entry.id));
+  } catch (error) {
+    console.error('[UploadAuditAPI] Error migrating browser-local upload audits:', error);
+  }
+}
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+async function fetchLinkedRuns(uploadSessionIds: string[]): Promise<Map<string, UploadAuditLinkedRun[]>> {
+  const linked = new Map<string, UploadAuditLinkedRun[]>();
+  if (uploadSessionIds.length === 0) return linked;
+
+  const { data, error } = await supabase
+    .from('check_runs')
+    .select('id, run_date, pass_rate, total_exceptions, upload_session_id')
+    .eq('tenant_id', tenantScopeId())
+    .in('upload_session_id', uploadSessionIds)
+    .order('run_date', { ascending: false });
+
+  if (error) {
+    console.error('[UploadAuditAPI] Error fetching linked check runs:', error);
+    return linked;
+  }
+
+  for (const row of data || []) {
+    if (!row.upload_session_id) continue;
+    const runs = linked.get(row.upload_session_id) || [];
+    runs.push({
+      id: row.id,
+      runDate: row.run_date,
+      passRate: Number(row.pass_rate),
+      totalExceptions: row.total_exceptions,
+    });
+    linked.set(row.upload_session_id, runs);
+  }
+  return linked;
+}
+
+// Fetch upload audits, newest first, with the check runs each upload session fed.
+export async function fetchUploadAudits(filters: UploadAuditFilters = {}): Promise<UploadAuditLogEntry[]> {
+  if (!getSupabaseEnvStatus().configured) {
+    return filterUploadAudits(getUploadAuditLogs(), filters);
+  }
+
+  try {
+    await migrateLocalUploadAudits();
+
+    const { from, to } = getUploadAuditDateRange(filters);
+    const search = filters.search?.trim().toLowerCase();
+    let query = supabase
+      .from('upload_audits')
+      .select('*')
+      .eq('tenant_id', tenantScopeId())
+      .order('created_at', { ascending: false })
+      .limit(MAX_FETCHED_AUDITS);
+    if (from) query = query.gte('created_at', from);
+    if (to) query = query.lte('created_at', to);
+    if (search) query = query.ilike('search_text', `%${escapeLikePattern(search)}%`);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('[UploadAuditAPI] Error fetching upload audits:', error);
+      return [];
+    }
+
+    const audits = (data || []).map((row) => mapUploadAuditRow(row as unknown as Record<string, unknown>));
+    const linkedRuns = await fetchLinkedRuns(audits.map((audit) => audit.uploadSessionId!));
+    return audits.map((audit) => ({ ...audit, linkedRuns: linkedRuns.get(audit.uploadSessionId!) || [] }));
+  } catch (error) {
+    console.error('[UploadAuditAPI] Error fetching upload audits:', error);
+    return [];
+  }
+}
@@ -4,6 +4,7 @@ import { fetchActiveTemplates } from '@/lib/api/mappingApi';
 import { getPintFieldById } from '@/types/fieldMapping';
 import { PINT_AE_CODELISTS } from '@/lib/pintAE/generated/codelists';
 import { supabase } from '@/integrations/supabase/client';
+import { tenantScopeId, withTenant } from '@/lib/api/tenantScope';
 import { Exception } from '@/types/compliance';
 import {
   ExplanationFixStep,
@@ -374,6 +375,7 @@ async function tryFetchCachedExplanation(exception: Exception): Promise<Validati
     const query = (supabase as any)
       .from(CACHE_TABLE)
       .select('*')
+      .eq('tenant_id', tenantScopeId())
       .eq('exception_id', exception.id)
       .order('created_at', { ascending: false })
       .limit(1);
@@ -415,7 +417,7 @@ async function tryPersistExplanation(
   promptVersion: string
 ): Promise<void> {
   try {
-    await (supabase as any).from(CACHE_TABLE).insert({
+    await (supabase as any).from(CACHE_TABLE).insert(withTenant({
       exception_id: exception.id,
       check_id: exception.checkId,
       dataset_type: exception.datasetType || 'AR',
@@ -427,7 +429,7 @@ async function tryPersistExplanation(
         ...(explanation.sourceContext || {}),
         explanation_pack: explanation.explanationPack,
       },
-    });
+    }));
   } catch {
     // Intentionally ignore persistence failures for backward compatibility.
   }
@@ -0,0 +1,49 @@
+import { transitionException } from '@/lib/api/exceptionWorkflowApi';
+import { logSensitiveAction } from '@/lib/api/sensitiveActionsApi';
+import { ApprovalRequest } from '@/types/approvals';
+import { ExceptionWorkflowStatus } from '@/types/direction';
+
+/**
+ * Carries out an approved request in local mode on behalf of its approver. A waiver moves the
+ * exception to Waived in the exception workflow; check and template changes need Supabase, where
+ * decideApproval applies every approved change in the transaction that approves it.
+ */
+export async function applyApprovedChange(request: ApprovalRequest): Promise<boolean> {
+  if (request.status !== 'approved' || !request.decidedBy) return false;
+
+  switch (request.kind) {
+    case 'exception.waive': {
+      if (typeof request.payload.fingerprint !== 'string') return false;
+      const waived = await transitionException(
+        {
+          fingerprint: request.payload.fingerprint,
+          exceptionRef: request.entityId,
+          fromStatus: (request.payload.fromStatus as ExceptionWorkflowStatus | undefined) ?? 'In Review',
+          toStatus: 'Waived',
+          comment: request.justification,
+          assignee: (request.payload.assignee as string | null | undefined) ?? null,
+          reasonCode: request.reasonCode,
+        },
+        request.decidedBy
+      );
+      if (!waived) return false;
+      return logSensitiveAction({
+        action: 'exception.waive',
+        entityType: request.entityType,
+        entityId: request.entityId,
+        details: {
+          approvalId: request.id,
+          requestedBy: request.requestedBy.name,
+          justification: request.justification,
+          reasonCode: request.reasonCode,
+        },
+      });
+    }
+    case 'check.enable':
+    case 'check.disable':
+    case 'check.severity':
+    case 'template.activate':
+      console.error('[Approvals] Approved changes can only be applied with Supabase configured:', request.id);
+      return false;
+  }
+}
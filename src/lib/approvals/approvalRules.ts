@@ -0,0 +1,44 @@
+import { ApprovalKind, ApprovalRequest } from '@/types/approvals';
+import { TenantRole, WorkspaceActor } from '@/types/tenant';
+import { hasPermission, PermissionAction, requiredRoleMessage } from '@/lib/access/permissions';
+
+// Keep in step with approval_minimum_role() in Supabase.
+const DECISION_PERMISSION: Record<ApprovalKind, PermissionAction> = {
+  'exception.waive': 'exception.waive',
+  'check.enable': 'check.edit',
+  'check.disable': 'check.disable',
+  'check.severity': 'check.edit',
+  'template.activate': 'template.activate',
+};
+
+export function approvalDecisionPermission(kind: ApprovalKind): PermissionAction {
+  return DECISION_PERMISSION[kind];
+}
+
+/** Signed-in actors are compared by id; local actors only have a name to go by. */
+export function isSameActor(a: WorkspaceActor, b: WorkspaceActor): boolean {
+  if (a.id && b.id) return a.id === b.id;
+  return a.name.trim().toLowerCase() === b.name.trim().toLowerCase();
+}
+
+/** Why the actor may not decide the request, or null when they may. */
+export function approvalDecisionBlocker(
+  request: ApprovalRequest,
+  actor: WorkspaceActor,
+  role: TenantRole | null
+): string | null {
+  if (request.status !== 'pending') return 'Already decided';
+  if (isSameActor(request.requestedBy, actor)) return 'A different user must approve your own request';
+  const permission = approvalDecisionPermission(request.kind);
+  if (!hasPermission(role, permission)) return requiredRoleMessage(permission);
+  return null;
+}
+
+/** The most recent request of a kind for each entity, given requests ordered newest first. */
+export function latestApprovalsByEntity(requests: ApprovalRequest[], kinds: ApprovalKind[]): Map<string, ApprovalRequest> {
+  const latest = new Map<string, ApprovalRequest>();
+  for (const request of requests) {
+    if (kinds.includes(request.kind) && !latest.has(request.entityId)) latest.set(request.entityId, request);
+  }
+  return latest;
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { buildRoutableFindings, planCaseRouting, planManualCaseRouting, routingKey } from '@/lib/cases/caseRouting';
+import { CaseRoutingRule, RoutableFinding } from '@/types/caseRouting';
+import { Exception } from '@/types/compliance';
+import { PintAEException } from '@/types/pintAE';
+
+function makeRule(overrides: Partial<CaseRoutingRule>): CaseRoutingRule {
+  return {
+    id: 'rule-1',
+    name: 'Rule',
+    priority: 100,
+    isActive: true,
+    severities: [],
+    checkIds: [],
+    sellerTrns: [],
+    source: null,
+    grouping: 'finding',
+    minOccurrences: 1,
+    ownerTeam: null,
+    slaHours: null,
+    createdAt: '2026-03-22T09:00:00Z',
+    ...overrides,
+  };
+}
+
+function makeFinding(overrides: Partial<RoutableFinding>): RoutableFinding {
+  return {
+    exceptionRef: 'exc-1',
+    fingerprint: 'fp-1',
+    source: 'pint_ae',
+    checkId: 'UAE-UC1-CHK-001',
+    checkName: 'Buyer TRN present',
+    severity: 'Critical',
+    invoiceId: 'inv-1',
+    invoiceNumber: 'INV-1',
+    sellerTrn: '100000000000003',
+    ownerTeam: 'Client IT',
+    ...overrides,
+  };
+}
+
+describe('buildRoutableFindings', () => {
+  it('routes PINT-AE findings once and keeps built-in findings', () => {
+    const pint = {
+      id: 'p1',
+      check_id: 'UAE-UC1-CHK-001',
+      check_name: 'Buyer TRN present',
+      severity: 'High',
+      invoice_number: 'INV-1',
+      owner_team: 'Client IT',
+    } as PintAEException;
+    const legacy: Exception[] = [
+      { id: 'p1', checkId: 'UAE-UC1-CHK-001', checkName: 'Buyer TRN present', severity: 'High', message: '' },
+      { id: 'd1', checkId: 'duplicate_invoice_number', checkName: 'Duplicate Invoice Number', severity: 'Critical', message: '' },
+    ];
+
+    const findings = buildRoutableFindings(legacy, [pint]);
+
+    expect(findings.map((finding) => [finding.exceptionRef, finding.source, finding.ownerTeam])).toEqual([
+      ['p1', 'pint_ae', 'Client IT'],
+      ['d1', 'built_in', 'Client Finance'],
+    ]);
+  });
+});
+
+describe('planCaseRouting', () => {
+  it('opens one case per invoice for critical PINT-AE findings of a seller', () => {
+    const rule = makeRule({ severities: ['Critical'], source: 'pint_ae', sellerTrns: ['100000000000003'], grouping: 'invoice' });
+    const findings = [
+      makeFinding({ exceptionRef: 'a', fingerprint: 'fp-a' }),
+      makeFinding({ exceptionRef: 'b', fingerprint: 'fp-b', checkId: 'UAE-UC1-CHK-002' }),
+      makeFinding({ exceptionRef: 'c', fingerprint: 'fp-c', invoiceId: 'inv-2', invoiceNumber: 'INV-2' }),
+      makeFinding({ exceptionRef: 'd', fingerprint: 'fp-d', severity: 'High' }),
+      makeFinding({ exceptionRef: 'e', fingerprint: 'fp-e', sellerTrn: '100000000000099' }),
+    ];
+
+    const plan = planCaseRouting(findings, [rule], []);
+
+    expect(plan.newCases.map((planned) => planned.findings.map((finding) => finding.exceptionRef))).toEqual([['a', 'b'], ['c']]);
+    expect(plan.newCases[0]).toMatchObject({ severity: 'Critical', ownerTeam: 'Client IT', slaHours: 4 });
+  });
+
+  it('groups repeated duplicate-number findings once they reach the minimum', () => {
+    const rule = makeRule({
+      checkIds: ['duplicate_invoice_number'],
+      grouping: 'check',
+      minOccurrences: 2,
+      ownerTeam: 'ASP Ops',
+      slaHours: 12,
+    });
+    const duplicate = (ref: string, invoice: string) =>
+      makeFinding({ exceptionRef: ref, fingerprint: `fp-${ref}`, source: 'built_in', checkId: 'duplicate_invoice_number', invoiceNumber: invoice });
+
+    expect(planCaseRouting([duplicate('a', 'INV-1')], [rule], []).newCases).toEqual([]);
+
+    const plan = planCaseRouting([duplicate('a', 'INV-1'), duplicate('b', 'INV-2')], [rule], []);
+    expect(plan.newCases).toHaveLength(1);
+    expect(plan.newCases[0]).toMatchObject({ ownerTeam: 'ASP Ops', slaHours: 12 });
+    expect(plan.newCases[0].findings).toHaveLength(2);
+  });
+
+  it('uses the first matching rule by priority and skips inactive rules', () => {
+    const rules = [
+      makeRule({ id: 'catch-all', priority: 50, isActive: false }),
+      makeRule({ id: 'general', priority: 20 }),
+      makeRule({ id: 'critical', priority: 10, severities: ['Critical'], ownerTeam: 'ASP Ops' }),
+    ];
+
+    const plan = planCaseRouting([makeFinding({}), makeFinding({ exceptionRef: 'b', fingerprint: 'fp-b', severity: 'Low' })], rules, []);
+
+    expect(plan.newCases.map((planned) => planned.ruleId)).toEqual(['critical', 'general']);
+  });
+
+  it('joins open cases by routing key or fingerprint instead of opening new ones', () => {
+    const rule = makeRule({ grouping: 'invoice' });
+    const first = makeFinding({});
+    const second = makeFinding({ exceptionRef: 'b', fingerprint: 'fp-b', invoiceId: 'inv-2', invoiceNumber: 'INV-2' });
+
+    const plan = planCaseRouting([first, second], [rule], [
+      { id: 'case-by-key', routingKey: routingKey(rule, first), fingerprints: [] },
+      { id: 'case-by-fingerprint', routingKey: null, fingerprints: ['fp-b'] },
+    ]);
+
+    expect(plan.newCases).toEqual([]);
+    expect(plan.existingCaseLinks.map((link) => link.caseId)).toEqual(['case-by-key', 'case-by-fingerprint']);
+  });
+});
+
+describe('planManualCaseRouting', () => {
+  it('opens cases below a rule minimum and for findings no rule matches', () => {
+    const rules = [makeRule({ checkIds: ['UAE-UC1-CHK-001'], grouping: 'seller', minOccurrences: 5, ownerTeam: 'ASP Ops' })];
+    const findings = [
+      makeFinding({}),
+      makeFinding({ exceptionRef: 'exc-2', fingerprint: 'fp-2', checkId: 'UAE-UC1-CHK-031', severity: 'Low' }),
+      makeFinding({ exceptionRef: 'exc-3', fingerprint: 'fp-3', checkId: 'UAE-UC1-CHK-031' }),
+    ];
+
+    const plan = planManualCaseRouting(findings, rules, [{ id: 'case-9', routingKey: null, fingerprints: ['fp-3'] }]);
+
+    expect(plan.newCases).toHaveLength(2);
+    expect(plan.newCases[0]).toMatchObject({ ruleId: 'rule-1', ownerTeam: 'ASP Ops' });
+    expect(plan.newCases[1]).toMatchObject({ ruleId: 'manual', ownerTeam: 'Client IT', slaHours: 48 });
+    expect(plan.existingCaseLinks).toEqual([{ caseId: 'case-9', findings: [findings[2]] }]);
+  });
+});
@@ -0,0 +1,180 @@
+import { exceptionFingerprint, pintExceptionFingerprint } from '@/lib/exceptions/findingFingerprint';
+import {
+  CaseRoutingPlan,
+  CaseRoutingRule,
+  OpenRoutedCase,
+  PlannedCase,
+  RoutableFinding,
+} from '@/types/caseRouting';
+import { OwnerTeam, SLA_HOURS_BY_SEVERITY } from '@/types/cases';
+import { Exception, Severity } from '@/types/compliance';
+import { PintAEException } from '@/types/pintAE';
+
+const SEVERITY_RANK: Record<Severity, number> = { Critical: 0, High: 1, Medium: 2, Low: 3 };
+
+// Built-in checks carry no owner of their own; their findings are about the client's data.
+const BUILT_IN_OWNER_TEAM: OwnerTeam = 'Client Finance';
+
+/**
+ * PINT-AE findings plus the built-in findings of a run. `exceptions` also holds the PINT-AE
+ * findings in legacy shape, so those are skipped to route each finding once.
+ */
+export function buildRoutableFindings(exceptions: Exception[], pintExceptions: PintAEException[]): RoutableFinding[] {
+  const pintIds = new Set(pintExceptions.map((exception) => exception.id));
+  const pintFindings: RoutableFinding[] = pintExceptions.map((exception) => ({
+    exceptionRef: exception.id,
+    fingerprint: pintExceptionFingerprint(exception),
+    source: 'pint_ae',
+    checkId: exception.check_id,
+    checkName: exception.check_name,
+    severity: exception.severity,
+    invoiceId: exception.invoice_id,
+    invoiceNumber: exception.invoice_number,
+    sellerTrn: exception.seller_trn,
+    buyerId: exception.buyer_id,
+    ownerTeam: exception.owner_team,
+  }));
+  const builtInFindings: RoutableFinding[] = exceptions
+    .filter((exception) => !pintIds.has(exception.id))
+    .map((exception) => ({
+      exceptionRef: exception.id,
+      fingerprint: exceptionFingerprint(exception),
+      source: 'built_in',
+      checkId: exception.checkId,
+      checkName: exception.checkName,
+      severity: exception.severity,
+      invoiceId: exception.invoiceId,
+      invoiceNumber: exception.invoiceNumber,
+      sellerTrn: exception.sellerTrn,
+      buyerId: exception.buyerId,
+      ownerTeam: BUILT_IN_OWNER_TEAM,
+    }));
+  return [...pintFindings, ...builtInFindings];
+}
+
+function normalize(value: string | undefined): string {
+  return (value || '').trim().toLowerCase();
+}
+
+export function matchesRoutingRule(rule: CaseRoutingRule, finding: RoutableFinding): boolean {
+  if (rule.source && rule.source !== finding.source) return false;
+  if (rule.severities.length > 0 && !rule.severities.includes(finding.severity)) return false;
+  if (rule.checkIds.length > 0 && !rule.checkIds.some((checkId) => normalize(checkId) === normalize(finding.checkId))) {
+    return false;
+  }
+  if (rule.sellerTrns.length > 0 && !rule.sellerTrns.some((trn) => normalize(trn) === normalize(finding.sellerTrn))) {
+    return false;
+  }
+  return true;
+}
+
+/** Identifies the case a finding belongs to under a rule, so later runs join the same open case. */
+export function routingKey(rule: CaseRoutingRule, finding: RoutableFinding): string {
+  const invoice = normalize(finding.invoiceNumber || finding.invoiceId);
+  const seller = normalize(finding.sellerTrn);
+  switch (rule.grouping) {
+    case 'finding':
+      return [rule.id, 'finding', finding.fingerprint].join('|');
+    case 'invoice':
+      return [rule.id, 'invoice', seller, invoice].join('|');
+    case 'check':
+      return [rule.id, 'check', normalize(finding.checkId), seller].join('|');
+    case 'seller':
+      return [rule.id, 'seller', seller].join('|');
+  }
+}
+
+function sortRules(rules: CaseRoutingRule[]): CaseRoutingRule[] {
+  return rules
+    .filter((rule) => rule.isActive)
+    .sort((a, b) => a.priority - b.priority || a.name.localeCompare(b.name));
+}
+
+function planCase(rule: CaseRoutingRule, key: string, findings: RoutableFinding[]): PlannedCase {
+  const ordered = [...findings].sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]);
+  const severity = ordered[0].severity;
+  return {
+    ruleId: rule.id,
+    routingKey: key,
+    severity,
+    ownerTeam: rule.ownerTeam ?? ordered[0].ownerTeam,
+    slaHours: rule.slaHours ?? SLA_HOURS_BY_SEVERITY[severity] ?? 24,
+    findings: ordered,
+  };
+}
+
+/**
+ * Routes each finding by the first active rule it matches. A group joins an open case with the
+ * same routing key or sharing a fingerprint with it; otherwise it opens a new case once it
+ * reaches the rule's minimum occurrences. Findings no rule matches are left alone.
+ */
+export function planCaseRouting(
+  findings: RoutableFinding[],
+  rules: CaseRoutingRule[],
+  openCases: OpenRoutedCase[]
+): CaseRoutingPlan {
+  const activeRules = sortRules(rules);
+  const groups = new Map<string, { rule: CaseRoutingRule; findings: RoutableFinding[] }>();
+  for (const finding of findings) {
+    const rule = activeRules.find((candidate) => matchesRoutingRule(candidate, finding));
+    if (!rule) continue;
+    const key = routingKey(rule, finding);
+    const group = groups.get(key);
+    if (group) group.findings.push(finding);
+    else groups.set(key, { rule, findings: [finding] });
+  }
+
+  const caseByKey = new Map<string, string>();
+  const caseByFingerprint = new Map<string, string>();
+  openCases.forEach((openCase) => {
+    if (openCase.routingKey) caseByKey.set(openCase.routingKey, openCase.id);
+    openCase.fingerprints.forEach((fingerprint) => caseByFingerprint.set(fingerprint, openCase.id));
+  });
+
+  const plan: CaseRoutingPlan = { newCases: [], existingCaseLinks: [] };
+  groups.forEach(({ rule, findings: grouped }, key) => {
+    const existingCaseId =
+      caseByKey.get(key) ??
+      grouped.map((finding) => caseByFingerprint.get(finding.fingerprint)).find((caseId) => caseId !== undefined);
+    if (existingCaseId) {
+      plan.existingCaseLinks.push({ caseId: existingCaseId, findings: grouped });
+      return;
+    }
+    if (grouped.length < Math.max(1, rule.minOccurrences)) return;
+    plan.newCases.push(planCase(rule, key, grouped));
+  });
+  return plan;
+}
+
+// Findings picked by hand that no rule matches still get a case each.
+export const MANUAL_ROUTING_RULE_ID = 'manual';
+
+const MANUAL_ROUTING_RULE: CaseRoutingRule = {
+  id: MANUAL_ROUTING_RULE_ID,
+  name: 'Opened from the exceptions workspace',
+  priority: Number.MAX_SAFE_INTEGER,
+  isActive: true,
+  severities: [],
+  checkIds: [],
+  sellerTrns: [],
+  source: null,
+  grouping: 'finding',
+  minOccurrences: 1,
+  ownerTeam: null,
+  slaHours: null,
+  createdAt: '',
+};
+
+/**
+ * Plans cases for findings a user chose to open cases for. They are routed like a run's findings,
+ * except that a rule's minimum occurrences does not hold them back and findings no rule matches
+ * get a case of their own with their default owner and the severity SLA.
+ */
+export function planManualCaseRouting(
+  findings: RoutableFinding[],
+  rules: CaseRoutingRule[],
+  openCases: OpenRoutedCase[]
+): CaseRoutingPlan {
+  const manualRules = [...rules.map((rule) => ({ ...rule, minOccurrences: 1 })), MANUAL_ROUTING_RULE];
+  return planCaseRouting(findings, manualRules, openCases);
+}
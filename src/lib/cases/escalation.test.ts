@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { EscalationCase, escalationLevelFor, planCaseEscalations, slaElapsedRatio } from '@/lib/cases/escalation';
+import { DEFAULT_NOTIFICATION_SETTINGS } from '@/types/notifications';
+import { DEFAULT_SLA_CALENDAR, SlaCalendar } from '@/types/slaCalendar';
+
+// 08:00–17:00 UAE (UTC+4), Saturday–Sunday weekend.
+const calendar: SlaCalendar = { ...DEFAULT_SLA_CALENDAR, holidays: [] };
+
+const settings = {
+  ...DEFAULT_NOTIFICATION_SETTINGS,
+  teamLeadEmail: 'lead@example.ae',
+  engagementManagerEmail: 'manager@example.ae',
+  webhookUrl: 'https://hooks.example.ae/drcs',
+};
+
+function makeCase(overrides: Partial<EscalationCase> = {}): EscalationCase {
+  return {
+    id: 'case-1',
+    case_number: 'CASE-20261019-AB12',
+    check_name: 'Buyer TRN format',
+    invoice_number: 'INV-1001',
+    invoice_id: 'inv-1',
+    owner_team: 'Client Finance',
+    severity: 'Critical',
+    status: 'Open',
+    // Monday 19 Oct 2026, 08:00 UAE; a 4 working-hour SLA.
+    created_at: '2026-10-19T04:00:00.000Z',
+    sla_hours: 4,
+    sla_paused_at: null,
+    sla_paused_minutes: 0,
+    escalation_level: 'none',
+    ...overrides,
+  };
+}
+
+// Monday 19 Oct 2026 at the given UAE hour.
+const mondayAt = (hour: number) => new Date(Date.UTC(2026, 9, 19, hour - 4));
+
+describe('escalation levels', () => {
+  it('warns at 75%, escalates to the team lead at breach and the engagement manager at 2x', () => {
+    expect(escalationLevelFor(slaElapsedRatio(makeCase(), calendar, mondayAt(10)))).toBe('none');
+    expect(escalationLevelFor(slaElapsedRatio(makeCase(), calendar, mondayAt(11)))).toBe('warning');
+    expect(escalationLevelFor(slaElapsedRatio(makeCase(), calendar, mondayAt(12)))).toBe('team_lead');
+    expect(escalationLevelFor(slaElapsedRatio(makeCase(), calendar, mondayAt(16)))).toBe('engagement_manager');
+  });
+
+  it('does not count time spent Waiting', () => {
+    const waiting = makeCase({ status: 'Waiting', sla_paused_at: mondayAt(10).toISOString() });
+    expect(slaElapsedRatio(waiting, calendar, mondayAt(16))).toBe(0.5);
+    expect(slaElapsedRatio(makeCase({ sla_paused_minutes: 120 }), calendar, mondayAt(12))).toBe(0.5);
+  });
+});
+
+describe('planCaseEscalations', () => {
+  it('notifies only when a case reaches a higher level', () => {
+    const cases = [
+      makeCase(),
+      makeCase({ id: 'case-2', escalation_level: 'team_lead' }),
+      makeCase({ id: 'case-3', status: 'Resolved' }),
+    ];
+
+    const plans = planCaseEscalations(cases, calendar, settings, mondayAt(12));
+    expect(plans.map((plan) => [plan.caseId, plan.level])).toEqual([['case-1', 'team_lead']]);
+    expect(plans[0].notifications.map((notification) => [notification.channel, notification.recipient])).toEqual([
+      ['in_app', 'Team lead'],
+      ['email', 'lead@example.ae'],
+      ['webhook', 'https://hooks.example.ae/drcs'],
+    ]);
+    expect(plans[0].notifications[0].dedupeKey).toBe('case-1|team_lead|in_app');
+  });
+
+  it('sends warnings to the owner team in-app only and skips blank contacts', () => {
+    const [warning] = planCaseEscalations([makeCase()], calendar, settings, mondayAt(11));
+    expect(warning.notifications).toHaveLength(1);
+    expect(warning.notifications[0]).toMatchObject({ channel: 'in_app', recipient: 'Client Finance' });
+
+    const [manager] = planCaseEscalations([makeCase()], calendar, DEFAULT_NOTIFICATION_SETTINGS, mondayAt(16));
+    expect(manager.notifications.map((notification) => notification.channel)).toEqual(['in_app']);
+  });
+});
@@ -0,0 +1,122 @@
+import { workingMinutesBetween } from '@/lib/cases/slaCalendar';
+import { Case } from '@/types/cases';
+import {
+  ESCALATION_LEVEL_LABELS,
+  ESCALATION_LEVELS,
+  EscalationLevel,
+  NewOutboxNotification,
+  NotificationSettings,
+} from '@/types/notifications';
+import { SlaCalendar } from '@/types/slaCalendar';
+
+// Share of the SLA's working time elapsed at which each level is reached.
+const ESCALATION_THRESHOLDS: { level: EscalationLevel; ratio: number }[] = [
+  { level: 'engagement_manager', ratio: 2 },
+  { level: 'team_lead', ratio: 1 },
+  { level: 'warning', ratio: 0.75 },
+];
+
+export type EscalationCase = Pick<
+  Case,
+  | 'id'
+  | 'case_number'
+  | 'check_name'
+  | 'invoice_number'
+  | 'invoice_id'
+  | 'owner_team'
+  | 'severity'
+  | 'status'
+  | 'created_at'
+  | 'sla_hours'
+  | 'sla_paused_at'
+  | 'sla_paused_minutes'
+  | 'escalation_level'
+>;
+
+export interface PlannedEscalation {
+  caseId: string;
+  level: EscalationLevel;
+  notifications: NewOutboxNotification[];
+}
+
+export function escalationRank(level: EscalationLevel | null | undefined): number {
+  return ESCALATION_LEVELS.indexOf(level ?? 'none');
+}
+
+/** Working time used as a share of the SLA; time spent Waiting does not count. */
+export function slaElapsedRatio(caseItem: EscalationCase, calendar: SlaCalendar, now: Date = new Date()): number {
+  if (caseItem.sla_hours <= 0) return 0;
+  const clockStoppedAt = caseItem.status === 'Waiting' && caseItem.sla_paused_at ? new Date(caseItem.sla_paused_at) : now;
+  const elapsed =
+    workingMinutesBetween(new Date(caseItem.created_at), clockStoppedAt, calendar) - (caseItem.sla_paused_minutes || 0);
+  return Math.max(0, elapsed) / (caseItem.sla_hours * 60);
+}
+
+export function escalationLevelFor(ratio: number): EscalationLevel {
+  return ESCALATION_THRESHOLDS.find((threshold) => ratio >= threshold.ratio)?.level ?? 'none';
+}
+
+function describeCase(caseItem: EscalationCase): string {
+  const invoice = caseItem.invoice_number || caseItem.invoice_id;
+  return [caseItem.check_name, invoice ? `invoice ${invoice}` : null].filter(Boolean).join(' on ');
+}
+
+function buildNotifications(
+  caseItem: EscalationCase,
+  level: EscalationLevel,
+  settings: NotificationSettings
+): NewOutboxNotification[] {
+  const subject = `${ESCALATION_LEVEL_LABELS[level]}: ${caseItem.case_number} (${caseItem.severity})`;
+  const body =
+    level === 'warning'
+      ? `${caseItem.case_number} has used 75% of its ${caseItem.sla_hours}h SLA. ${describeCase(caseItem)}`
+      : level === 'team_lead'
+      ? `${caseItem.case_number} has breached its ${caseItem.sla_hours}h SLA. ${describeCase(caseItem)}`
+      : `${caseItem.case_number} is at twice its ${caseItem.sla_hours}h SLA. ${describeCase(caseItem)}`;
+  const inAppRecipient =
+    level === 'warning' ? caseItem.owner_team : level === 'team_lead' ? 'Team lead' : 'Engagement manager';
+  const email = level === 'team_lead' ? settings.teamLeadEmail : level === 'engagement_manager' ? settings.engagementManagerEmail : '';
+
+  const notifications: NewOutboxNotification[] = [
+    { channel: 'in_app', recipient: inAppRecipient, subject, body, caseId: caseItem.id, escalationLevel: level, dedupeKey: '' },
+  ];
+  if (email.trim()) {
+    notifications.push({ channel: 'email', recipient: email.trim(), subject, body, caseId: caseItem.id, escalationLevel: level, dedupeKey: '' });
+  }
+  if (level !== 'warning' && settings.webhookUrl.trim()) {
+    notifications.push({
+      channel: 'webhook',
+      recipient: settings.webhookUrl.trim(),
+      subject,
+      body,
+      caseId: caseItem.id,
+      escalationLevel: level,
+      dedupeKey: '',
+    });
+  }
+  return notifications.map((notification) => ({
+    ...notification,
+    dedupeKey: [caseItem.id, level, notification.channel].join('|'),
+  }));
+}
+
+/**
+ * Escalations due for open cases: each case moves straight to the highest level it has reached
+ * and notifies for that level only. Levels never step back down.
+ */
+export function planCaseEscalations(
+  cases: EscalationCase[],
+  calendar: SlaCalendar,
+  settings: NotificationSettings,
+  now: Date = new Date()
+): PlannedEscalation[] {
+  return cases
+    .filter((caseItem) => caseItem.status !== 'Resolved')
+    .map((caseItem) => ({ caseItem, level: escalationLevelFor(slaElapsedRatio(caseItem, calendar, now)) }))
+    .filter(({ caseItem, level }) => escalationRank(level) > escalationRank(caseItem.escalation_level))
+    .map(({ caseItem, level }) => ({
+      caseId: caseItem.id,
+      level,
+      notifications: buildNotifications(caseItem, level, settings),
+    }));
+}
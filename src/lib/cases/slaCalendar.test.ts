@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addWorkingMinutes,
+  caseStatusSlaPatch,
+  CaseSlaFields,
+  evaluateCaseSla,
+  isSlaWorkingDay,
+  workingMinutesBetween,
+} from '@/lib/cases/slaCalendar';
+import { DEFAULT_SLA_CALENDAR, SlaCalendar } from '@/types/slaCalendar';
+
+// 08:00–17:00 UAE (UTC+4), Saturday–Sunday weekend.
+const calendar: SlaCalendar = { ...DEFAULT_SLA_CALENDAR, holidays: [] };
+
+function makeCase(overrides: Partial<CaseSlaFields>): CaseSlaFields {
+  return {
+    // Monday 19 Oct 2026, 08:00 UAE.
+    created_at: '2026-10-19T04:00:00.000Z',
+    sla_hours: 4,
+    status: 'Open',
+    sla_target_at: undefined,
+    is_sla_breached: false,
+    resolved_at: undefined,
+    sla_paused_at: null,
+    sla_paused_minutes: 0,
+    ...overrides,
+  };
+}
+
+describe('addWorkingMinutes', () => {
+  it('carries a Thursday evening Critical SLA over the weekend pattern', () => {
+    // Thursday 15 Oct 2026, 16:00 UAE.
+    const raised = new Date('2026-10-15T12:00:00.000Z');
+
+    expect(addWorkingMinutes(raised, 4 * 60, calendar).toISOString()).toBe('2026-10-16T07:00:00.000Z');
+    expect(addWorkingMinutes(raised, 4 * 60, { ...calendar, weekend: 'fri_sat' }).toISOString()).toBe(
+      '2026-10-18T07:00:00.000Z'
+    );
+  });
+
+  it('skips fixed UAE holidays and configured Islamic-calendar dates', () => {
+    // Monday 30 Nov 2026, 16:00 UAE; 1–3 Dec are Commemoration and National Day.
+    const raised = new Date('2026-11-30T12:00:00.000Z');
+    expect(addWorkingMinutes(raised, 4 * 60, calendar).toISOString()).toBe('2026-12-04T07:00:00.000Z');
+    expect(addWorkingMinutes(raised, 4 * 60, { ...calendar, observeFixedHolidays: false }).toISOString()).toBe(
+      '2026-12-01T07:00:00.000Z'
+    );
+
+    const eid = { ...calendar, holidays: [{ date: '2027-03-10', name: 'Eid al-Fitr' }] };
+    expect(isSlaWorkingDay(new Date('2027-03-10T06:00:00.000Z'), eid)).toBe(false);
+    expect(isSlaWorkingDay(new Date('2027-03-10T06:00:00.000Z'), calendar)).toBe(true);
+  });
+
+  it('counts working minutes only inside working hours', () => {
+    // Friday 16:00 UAE to Monday 09:00 UAE.
+    expect(
+      workingMinutesBetween(new Date('2026-10-16T12:00:00.000Z'), new Date('2026-10-19T05:00:00.000Z'), calendar)
+    ).toBe(120);
+  });
+});
+
+describe('case SLA', () => {
+  it('breaches once the working-hour budget is spent', () => {
+    expect(evaluateCaseSla(makeCase({}), calendar, new Date('2026-10-19T09:00:00.000Z'))).toEqual({
+      sla_target_at: '2026-10-19T08:00:00.000Z',
+      is_sla_breached: true,
+    });
+  });
+
+  it('pauses the clock while Waiting and banks the pause on resuming', () => {
+    const waiting = makeCase({ ...caseStatusSlaPatch(makeCase({}), 'Waiting', calendar, new Date('2026-10-19T05:00:00.000Z')), status: 'Waiting' });
+    expect(waiting.sla_paused_at).toBe('2026-10-19T05:00:00.000Z');
+
+    // 15:00 UAE: six working hours spent waiting push the target to Tuesday 09:00.
+    const afternoon = new Date('2026-10-19T11:00:00.000Z');
+    expect(evaluateCaseSla(waiting, calendar, afternoon)).toEqual({
+      sla_target_at: '2026-10-20T05:00:00.000Z',
+      is_sla_breached: false,
+    });
+
+    expect(caseStatusSlaPatch(waiting, 'In Progress', calendar, afternoon)).toEqual({
+      sla_paused_at: null,
+      sla_paused_minutes: 360,
+      sla_target_at: '2026-10-20T05:00:00.000Z',
+      is_sla_breached: false,
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { Case, CaseStatus } from '@/types/cases';
+import { FIXED_UAE_HOLIDAYS, SlaCalendar } from '@/types/slaCalendar';
+
+// Gulf Standard Time has no daylight saving, so a fixed offset is exact.
+const UAE_UTC_OFFSET_MS = 4 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// Bounds the day scan for calendars with no working time at all.
+const MAX_SCAN_DAYS = 3660;
+
+export type CaseSlaFields = Pick<
+  Case,
+  'created_at' | 'sla_hours' | 'status' | 'sla_target_at' | 'is_sla_breached' | 'resolved_at' | 'sla_paused_at' | 'sla_paused_minutes'
+>;
+
+const WEEKEND_DAYS: Record<SlaCalendar['weekend'], number[]> = {
+  sat_sun: [6, 0],
+  fri_sat: [5, 6],
+};
+
+// Day boundaries are handled on a UAE-local millisecond axis: UTC plus the offset.
+function toLocalMs(date: Date): number {
+  return date.getTime() + UAE_UTC_OFFSET_MS;
+}
+
+function fromLocalMs(localMs: number): Date {
+  return new Date(localMs - UAE_UTC_OFFSET_MS);
+}
+
+function startOfLocalDay(localMs: number): number {
+  return Math.floor(localMs / DAY_MS) * DAY_MS;
+}
+
+function hasWorkingHours(calendar: SlaCalendar): boolean {
+  return calendar.workdayEndMinute > calendar.workdayStartMinute;
+}
+
+function isWorkingLocalDay(dayStart: number, calendar: SlaCalendar, holidayDates: Set<string>): boolean {
+  const day = new Date(dayStart);
+  if (WEEKEND_DAYS[calendar.weekend].includes(day.getUTCDay())) return false;
+  const isoDate = day.toISOString().slice(0, 10);
+  if (holidayDates.has(isoDate)) return false;
+  if (calendar.observeFixedHolidays && FIXED_UAE_HOLIDAYS.some((holiday) => holiday.monthDay === isoDate.slice(5))) {
+    return false;
+  }
+  return true;
+}
+
+/** Whether the UAE calendar day containing `date` has working hours. */
+export function isSlaWorkingDay(date: Date, calendar: SlaCalendar): boolean {
+  return isWorkingLocalDay(startOfLocalDay(toLocalMs(date)), calendar, new Set(calendar.holidays.map((holiday) => holiday.date)));
+}
+
+/**
+ * The moment `minutes` of working time have elapsed after `start`. Calendars without working
+ * hours fall back to wall-clock time so a misconfiguration cannot stall every SLA.
+ */
+export function addWorkingMinutes(start: Date, minutes: number, calendar: SlaCalendar): Date {
+  if (minutes <= 0) return new Date(start);
+  if (!hasWorkingHours(calendar)) return new Date(start.getTime() + minutes * MINUTE_MS);
+
+  const holidayDates = new Set(calendar.holidays.map((holiday) => holiday.date));
+  let remaining = minutes * MINUTE_MS;
+  let cursor = toLocalMs(start);
+  for (let scanned = 0; scanned < MAX_SCAN_DAYS; scanned += 1) {
+    const dayStart = startOfLocalDay(cursor);
+    if (isWorkingLocalDay(dayStart, calendar, holidayDates)) {
+      const windowStart = Math.max(cursor, dayStart + calendar.workdayStartMinute * MINUTE_MS);
+      const windowEnd = dayStart + calendar.workdayEndMinute * MINUTE_MS;
+      if (windowStart < windowEnd) {
+        if (remaining <= windowEnd - windowStart) return fromLocalMs(windowStart + remaining);
+        remaining -= windowEnd - windowStart;
+      }
+    }
+    cursor = dayStart + DAY_MS;
+  }
+  return new Date(start.getTime() + minutes * MINUTE_MS);
+}
+
+/** Working minutes between two moments; zero when `end` is not after `start`. */
+export function workingMinutesBetween(start: Date, end: Date, calendar: SlaCalendar): number {
+  if (end <= start) return 0;
+  if (!hasWorkingHours(calendar)) return Math.round((end.getTime() - start.getTime()) / MINUTE_MS);
+
+  const holidayDates = new Set(calendar.holidays.map((holiday) => holiday.date));
+  const endLocal = toLocalMs(end);
+  let total = 0;
+  let cursor = toLocalMs(start);
+  for (let scanned = 0; cursor < endLocal && scanned < MAX_SCAN_DAYS; scanned += 1) {
+    const dayStart = startOfLocalDay(cursor);
+    if (isWorkingLocalDay(dayStart, calendar, holidayDates)) {
+      const windowStart = Math.max(cursor, dayStart + calendar.workdayStartMinute * MINUTE_MS);
+      const windowEnd = Math.min(endLocal, dayStart + calendar.workdayEndMinute * MINUTE_MS);
+      if (windowStart < windowEnd) total += windowEnd - windowStart;
+    }
+    cursor = dayStart + DAY_MS;
+  }
+  return Math.round(total / MINUTE_MS);
+}
+
+/**
+ * SLA target and breach state of a case on the calendar. The clock runs from creation for
+ * `sla_hours` of working time, extended by the working time the case has spent Waiting.
+ * A Waiting case is not breached while it waits unless it was already late when paused.
+ */
+export function evaluateCaseSla(
+  caseItem: CaseSlaFields,
+  calendar: SlaCalendar,
+  now: Date = new Date()
+): Pick<Case, 'sla_target_at' | 'is_sla_breached'> {
+  const created = new Date(caseItem.created_at);
+  const budget = caseItem.sla_hours * 60 + (caseItem.sla_paused_minutes || 0);
+  const due = addWorkingMinutes(created, budget, calendar);
+  const pausedAt = caseItem.status === 'Waiting' && caseItem.sla_paused_at ? new Date(caseItem.sla_paused_at) : null;
+  const target = pausedAt ? addWorkingMinutes(created, budget + workingMinutesBetween(pausedAt, now, calendar), calendar) : due;
+  const clockStoppedAt =
+    pausedAt ?? (caseItem.status === 'Resolved' && caseItem.resolved_at ? new Date(caseItem.resolved_at) : now);
+  return {
+    sla_target_at: target.toISOString(),
+    is_sla_breached: clockStoppedAt.getTime() > due.getTime(),
+  };
+}
+
+/** The SLA columns to write when a case moves to `nextStatus`: pauses on Waiting, banks the pause on leaving it. */
+export function caseStatusSlaPatch(
+  caseItem: CaseSlaFields,
+  nextStatus: CaseStatus,
+  calendar: SlaCalendar,
+  now: Date = new Date()
+): Partial<Case> {
+  const patch: Partial<Case> = {};
+  if (nextStatus === 'Waiting' && caseItem.status !== 'Waiting') {
+    patch.sla_paused_at = now.toISOString();
+  }
+  if (caseItem.status === 'Waiting' && nextStatus !== 'Waiting' && caseItem.sla_paused_at) {
+    patch.sla_paused_minutes =
+      (caseItem.sla_paused_minutes || 0) + workingMinutesBetween(new Date(caseItem.sla_paused_at), now, calendar);
+    patch.sla_paused_at = null;
+  }
+  const next: CaseSlaFields = {
+    ...caseItem,
+    ...patch,
+    status: nextStatus,
+    resolved_at: nextStatus === 'Resolved' ? now.toISOString() : caseItem.resolved_at,
+  };
+  return { ...patch, ...evaluateCaseSla(next, calendar, now) };
+}
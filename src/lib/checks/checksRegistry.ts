@@ -1,4 +1,4 @@
-import { ComplianceCheck, DataContext, Exception, CheckResult, InvoiceHeader } from '@/types/compliance';
+import { CheckExecutionOptions, ComplianceCheck, DataContext, Exception, CheckResult, InvoiceHeader } from '@/types/compliance';
 import { EvidenceRuleExecutionTelemetryRow } from '@/types/evidence';
 
 const generateId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
@@ -346,14 +346,20 @@ export const checksRegistry: ComplianceCheck[] = [
   },
 ];
 
-export function runAllChecks(data: DataContext): CheckResult[] {
+/** Number of records a check evaluates: buyers, lines or invoice headers depending on its category. */
+export function countCheckRecords(check: ComplianceCheck, data: DataContext): number {
+  return check.category === 'buyer'
+    ? data.buyers.length
+    : check.category === 'line'
+      ? data.lines.length
+      : data.headers.length;
+}
+
+export function runAllChecks(data: DataContext, options: CheckExecutionOptions = {}): CheckResult[] {
   return checksRegistry.map(check => {
     const exceptions = check.run(data);
-    const totalRecords = check.category === 'buyer' 
-      ? data.buyers.length 
-      : check.category === 'line' 
-        ? data.lines.length 
-        : data.headers.length;
+    options.onCheckComplete?.(check.id);
+    const totalRecords = countCheckRecords(check, data);
     
     return {
       checkId: check.id,
@@ -367,17 +373,13 @@ export function runAllChecks(data: DataContext): CheckResult[] {
 }
 
 export function runAllChecksWithTelemetry(
-  data: DataContext
+  data: DataContext,
+  options: CheckExecutionOptions = {}
 ): { checkResults: CheckResult[]; telemetry: EvidenceRuleExecutionTelemetryRow[] } {
-  const checkResults = runAllChecks(data);
+  const checkResults = runAllChecks(data, options);
   const telemetry = checksRegistry.map((check) => {
     const result = checkResults.find((entry) => entry.checkId === check.id);
-    const executionCount =
-      check.category === 'buyer'
-        ? data.buyers.length
-        : check.category === 'line'
-          ? data.lines.length
-          : data.headers.length;
+    const executionCount = countCheckRecords(check, data);
 
     return {
       rule_id: check.id,
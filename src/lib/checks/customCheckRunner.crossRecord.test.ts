@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { runCustomCheck } from '@/lib/checks/customCheckRunner';
+import { CustomCheckConfig, CustomCheckParameters } from '@/types/customChecks';
+import { Buyer, DataContext, InvoiceHeader, InvoiceLine } from '@/types/compliance';
+
+function buildDataContext(): DataContext {
+  const buyers = [
+    { buyer_id: 'B-1', buyer_name: 'Acme LLC', buyer_country: 'AE' },
+    { buyer_id: 'B-2', buyer_name: 'Globex GmbH', buyer_country: 'DE', buyer_trn: '' },
+  ] as Buyer[];
+  const headers = [
+    { invoice_id: 'INV-1', invoice_number: 'A-001', issue_date: '2025-01-05', invoice_type: '380', seller_trn: 'S1', buyer_id: 'B-1', currency: 'AED', total_excl_vat: 150, deliver_to_country_code: 'ae' },
+    { invoice_id: 'INV-2', invoice_number: 'A-002', issue_date: '2025-01-20', invoice_type: '381', seller_trn: 'S1', buyer_id: 'B-2', currency: 'AED', total_excl_vat: 400, deliver_to_country_code: 'AE' },
+    { invoice_id: 'INV-3', invoice_number: 'A-003', issue_date: '2025-02-01', invoice_type: '380', seller_trn: 'S1', buyer_id: 'B-9', currency: 'AED', total_excl_vat: 50 },
+  ] as InvoiceHeader[];
+  const lines = [
+    { line_id: 'L-1', invoice_id: 'INV-1', line_number: 1, quantity: 1, unit_price: 100, line_total_excl_vat: 100, vat_rate: 5, vat_amount: 5 },
+    { line_id: 'L-2', invoice_id: 'INV-1', line_number: 2, quantity: 1, unit_price: 50, line_total_excl_vat: 50, vat_rate: 5, vat_amount: 2.5 },
+    { line_id: 'L-3', invoice_id: 'INV-2', line_number: 1, quantity: 1, unit_price: 390, line_total_excl_vat: 390, vat_rate: 5, vat_amount: 19.5 },
+  ] as InvoiceLine[];
+  const linesByInvoice = new Map<string, InvoiceLine[]>();
+  lines.forEach((line) => linesByInvoice.set(line.invoice_id, [...(linesByInvoice.get(line.invoice_id) ?? []), line]));
+  return {
+    buyers,
+    headers,
+    lines,
+    buyerMap: new Map(buyers.map((buyer) => [buyer.buyer_id, buyer])),
+    headerMap: new Map(headers.map((header) => [header.invoice_id, header])),
+    linesByInvoice,
+  };
+}
+
+const check = (
+  rule_type: CustomCheckConfig['rule_type'],
+  parameters: CustomCheckParameters,
+  message_template = 'Failed for {invoice_number}'
+): CustomCheckConfig => ({
+  id: `custom-${rule_type}`,
+  name: rule_type,
+  severity: 'High',
+  dataset_scope: 'cross-file',
+  rule_type,
+  parameters,
+  message_template,
+  is_active: true,
+});
+
+describe('runCustomCheck cross-record rules', () => {
+  it('compares the sum and count of each invoice\'s lines with header values', () => {
+    const data = buildDataContext();
+    const sum = runCustomCheck(
+      check('aggregate', { group_by: 'invoice', aggregate_function: 'sum', aggregate_field: 'line_total_excl_vat', operator: '=', right_expression: '{total_excl_vat}' }, 'Lines {aggregate} vs header {expected}'),
+      data
+    );
+    const count = runCustomCheck(check('aggregate', { group_by: 'invoice', aggregate_function: 'count', operator: '>=', right_expression: '1' }), data);
+
+    expect(sum.map((exception) => [exception.invoiceId, exception.message])).toEqual([
+      ['INV-2', 'Lines 390 vs header 400'],
+      ['INV-3', 'Lines 0 vs header 50'],
+    ]);
+    expect(sum[0]).toMatchObject({ field: 'sum(line_total_excl_vat)', expectedValue: '= 400', actualValue: 390 });
+    expect(count.map((exception) => exception.invoiceId)).toEqual(['INV-3']);
+  });
+
+  it('totals invoices per seller and issue month against a threshold', () => {
+    const exceptions = runCustomCheck(
+      check('aggregate', { group_by: 'seller_month', aggregate_function: 'sum', aggregate_field: 'total_excl_vat', operator: '<=', threshold: 500 }, '{seller_trn} invoiced {aggregate} in {month} across {count} invoices'),
+      buildDataContext()
+    );
+
+    expect(exceptions).toHaveLength(1);
+    expect(exceptions[0]).toMatchObject({
+      message: 'S1 invoiced 550 in 2025-01 across 2 invoices',
+      sellerTrn: 'S1',
+      invoiceId: undefined,
+      expectedValue: '<= 500',
+    });
+  });
+
+  it('compares header fields with the joined buyer and reports missing buyers', () => {
+    const exceptions = runCustomCheck(
+      check('join', { left_field: 'deliver_to_country_code', operator: '=', right_field: 'buyer_country' }, 'Delivery to {deliver_to_country_code} but buyer is in {buyer_value}'),
+      buildDataContext()
+    );
+
+    expect(exceptions.map((exception) => [exception.invoiceId, exception.message])).toEqual([
+      ['INV-2', 'Delivery to AE but buyer is in DE'],
+      ['INV-3', 'Buyer "B-9" not found; cannot compare deliver_to_country_code = buyer.buyer_country'],
+    ]);
+  });
+
+  it('requires fields, including related buyer fields, only when the condition holds', () => {
+    const exceptions = runCustomCheck(
+      check('conditional_existence', { condition: "{invoice_type} == '381'", required_fields: ['buyer.buyer_trn', 'payment_due_date'] }, 'Credit note {invoice_number} is missing {field}'),
+      buildDataContext()
+    );
+    const invalid = runCustomCheck(check('conditional_existence', { condition: '{invoice_type} = 381', required_fields: ['note'] }), buildDataContext());
+
+    expect(exceptions.map((exception) => [exception.invoiceId, exception.message])).toEqual([
+      ['INV-2', 'Credit note A-002 is missing buyer.buyer_trn'],
+      ['INV-2', 'Credit note A-002 is missing payment_due_date'],
+    ]);
+    expect(invalid).toHaveLength(1);
+    expect(invalid[0].message).toBe('Rule is invalid: Use == to compare values at position 16');
+  });
+});
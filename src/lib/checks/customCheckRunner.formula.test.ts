@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { runCustomCheck } from '@/lib/checks/customCheckRunner';
+import { CustomCheckConfig } from '@/types/customChecks';
+import { DataContext, InvoiceHeader } from '@/types/compliance';
+
+function buildDataContext(): DataContext {
+  const headers = [
+    { invoice_id: 'INV-1', invoice_number: 'A-001', issue_date: '2025-01-31', seller_trn: '1', buyer_id: 'B-1', currency: 'AED', total_excl_vat: 100, vat_total: 5 },
+    { invoice_id: 'INV-2', invoice_number: "A-'002", issue_date: '2025-01-31', seller_trn: '1', buyer_id: 'B-1', currency: 'AED', total_excl_vat: 100, vat_total: 10 },
+    { invoice_id: 'INV-3', invoice_number: 'A-003', issue_date: '2025-01-31', seller_trn: '1', buyer_id: 'B-1', currency: 'AED', total_excl_vat: 100 },
+  ] as InvoiceHeader[];
+  return {
+    buyers: [],
+    headers,
+    lines: [],
+    buyerMap: new Map(),
+    headerMap: new Map(headers.map((header) => [header.invoice_id, header])),
+    linesByInvoice: new Map(),
+  };
+}
+
+const formulaCheck = (formula: string): CustomCheckConfig => ({
+  id: 'vat-5pct',
+  name: 'VAT is 5%',
+  severity: 'High',
+  dataset_scope: 'header',
+  rule_type: 'custom_formula',
+  parameters: { formula },
+  message_template: 'VAT is not 5% on {invoice_number}',
+  is_active: true,
+});
+
+describe('runCustomCheck custom_formula', () => {
+  it('reports failing records and records that cannot be evaluated', () => {
+    const exceptions = runCustomCheck(formulaCheck('abs(round({total_excl_vat} * 0.05, 2) - {vat_total}) < 0.01'), buildDataContext());
+
+    expect(exceptions.map((exception) => [exception.invoiceId, exception.message])).toEqual([
+      ['INV-2', "VAT is not 5% on A-'002"],
+      ['INV-3', 'Formula could not be evaluated: {vat_total} is empty'],
+    ]);
+    expect(exceptions[1]).toMatchObject({ field: 'formula', actualValue: '{vat_total} is empty' });
+  });
+
+  it('reports an invalid formula once instead of executing it', () => {
+    const exceptions = runCustomCheck(formulaCheck('globalThis.process.exit(1)'), buildDataContext());
+
+    expect(exceptions).toHaveLength(1);
+    expect(exceptions[0].message).toMatch(/^Formula is invalid: Unexpected character "\."/);
+    expect(exceptions[0].invoiceId).toBeUndefined();
+  });
+});
+
+describe('runCustomCheck formula errors', () => {
+  const mathCheck = (parameters: CustomCheckConfig['parameters']): CustomCheckConfig => ({
+    ...formulaCheck(''),
+    rule_type: 'math',
+    parameters: { left_expression: '{vat_total}', operator: '=', right_expression: '{total_excl_vat} * 0.05', ...parameters },
+  });
+
+  it('reports math rows whose expressions are empty or cannot be compiled instead of skipping them', () => {
+    const exceptions = runCustomCheck(mathCheck({}), buildDataContext());
+    expect(exceptions.map((exception) => [exception.invoiceId, exception.message])).toEqual([
+      ['INV-2', "VAT is not 5% on A-'002"],
+      ['INV-3', 'Comparison could not be evaluated: {vat_total} is empty'],
+    ]);
+
+    const invalid = runCustomCheck(mathCheck({ right_expression: '{total_excl_vat} > 1' }), buildDataContext());
+    expect(invalid).toHaveLength(1);
+    expect(invalid[0].message).toMatch(/^Comparison is invalid: /);
+  });
+
+  it('reports an invalid condition once and a condition that cannot be evaluated per record', () => {
+    const invalid = runCustomCheck(mathCheck({ condition: '{vat_total} +' }), buildDataContext());
+    expect(invalid).toHaveLength(1);
+    expect(invalid[0]).toMatchObject({ field: 'condition', invoiceId: undefined });
+    expect(invalid[0].message).toMatch(/^Condition is invalid: /);
+
+    const unevaluable = runCustomCheck(mathCheck({ condition: '{vat_total} > 0' }), buildDataContext());
+    expect(unevaluable.map((exception) => [exception.invoiceId, exception.message])).toEqual([
+      ['INV-2', "VAT is not 5% on A-'002"],
+      ['INV-3', 'Condition could not be evaluated: {vat_total} is empty'],
+    ]);
+  });
+});
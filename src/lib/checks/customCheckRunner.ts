@@ -1,6 +1,7 @@
-import { CustomCheckConfig, InvestigationFlag } from '@/types/customChecks';
-import { DataContext, Exception } from '@/types/compliance';
+import { AggregateFunction, CustomCheckConfig, CustomCheckParameters, InvestigationFlag } from '@/types/customChecks';
+import { DataContext, Exception, InvoiceHeader } from '@/types/compliance';
 import { DatasetType } from '@/types/datasets';
+import { compileFormula, CompiledFormula, createFormulaRecordContext, FormulaScope } from '@/lib/checks/formulaLanguage';
 
 const generateId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
 
@@ -115,26 +116,6 @@ function createFlag(
   };
 }
 
-function evaluateExpression(expression: string, record: any): number | undefined {
-  try {
-    // Replace field references with actual values
-    let expr = expression;
-    const fieldMatches = expression.match(/\{([^}]+)\}/g);
-    if (fieldMatches) {
-      for (const match of fieldMatches) {
-        const field = match.slice(1, -1);
-        const value = getFieldValue(record, field);
-        if (value === undefined || value === null) return undefined;
-        expr = expr.replace(match, String(value));
-      }
-    }
-    const result = new Function(`return ${expr}`)();
-    return typeof result === 'number' ? result : undefined;
-  } catch {
-    return undefined;
-  }
-}
-
 function formatMessage(template: string, record: any, extraContext?: Record<string, any>): string {
   let message = template;
   const fieldMatches = template.match(/\{([^}]+)\}/g);
@@ -148,28 +129,262 @@ function formatMessage(template: string, record: any, extraContext?: Record<stri
   return message;
 }
 
-function evaluateCondition(condition: string | undefined, record: any): boolean {
-  if (!condition) return true;
+/**
+ * Filter for the optional `condition` parameter. A condition that does not compile is reported once
+ * and returns null so the check does not run; a record it cannot be evaluated on is reported and left out.
+ */
+function createConditionFilter(
+  check: CustomCheckConfig,
+  data: DataContext,
+  exceptions: Exception[]
+): ((record: any) => boolean) | null {
+  const condition = check.parameters.condition;
+  if (!condition) return () => true;
+  let compiled: CompiledFormula;
   try {
-    let expr = condition;
-    const fieldMatches = condition.match(/\{([^}]+)\}/g);
-    if (fieldMatches) {
-      for (const match of fieldMatches) {
-        const field = match.slice(1, -1);
-        const value = getFieldValue(record, field);
-        if (typeof value === 'string') {
-          expr = expr.replace(match, `"${value}"`);
-        } else if (value === undefined || value === null) {
-          expr = expr.replace(match, 'null');
-        } else {
-          expr = expr.replace(match, String(value));
-        }
-      }
+    compiled = compileFormula(condition, check.dataset_scope);
+  } catch (error) {
+    exceptions.push(createRecordException(check, {}, data, {
+      message: `Condition is invalid: ${errorMessage(error)}`,
+      field: 'condition',
+      expectedValue: condition,
+    }));
+    return null;
+  }
+  return (record) => {
+    try {
+      return Boolean(compiled.evaluate(createFormulaRecordContext(check.dataset_scope, record, data)));
+    } catch (error) {
+      exceptions.push(createRecordException(check, record, data, {
+        message: `Condition could not be evaluated: ${errorMessage(error)}`,
+        field: 'condition',
+        expectedValue: condition,
+      }));
+      return false;
+    }
+  };
+}
+
+function compareNumbers(
+  left: number,
+  operator: NonNullable<CustomCheckParameters['operator']>,
+  right: number,
+  tolerance = 0.01
+): boolean {
+  switch (operator) {
+    case '=': return Math.abs(left - right) <= tolerance;
+    case '!=': return Math.abs(left - right) > tolerance;
+    case '>': return left > right;
+    case '<': return left < right;
+    case '>=': return left >= right;
+    case '<=': return left <= right;
+  }
+}
+
+function createRecordException(
+  check: CustomCheckConfig,
+  record: any,
+  data: DataContext,
+  details: Omit<Exception, 'id' | 'checkId' | 'checkName' | 'severity'>
+): Exception {
+  const invoiceId = record?.invoice_id;
+  const header = invoiceId ? data.headerMap.get(invoiceId) : undefined;
+  return {
+    id: generateId(),
+    checkId: check.id || 'custom',
+    checkName: check.name,
+    severity: check.severity,
+    invoiceId,
+    invoiceNumber: header?.invoice_number || record?.invoice_number,
+    sellerTrn: header?.seller_trn || record?.seller_trn,
+    buyerId: header?.buyer_id || record?.buyer_id,
+    ...details,
+  };
+}
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+function toNumber(value: unknown): number | undefined {
+  if (value === undefined || value === null || String(value).trim() === '') return undefined;
+  const number = typeof value === 'number' ? value : Number(String(value).replace(/,/g, ''));
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/** Returns undefined when there is nothing to aggregate (no records, or no numeric values for sum/avg/min/max). */
+function aggregateValues(fn: AggregateFunction, records: any[], field: string | undefined): number | undefined {
+  if (fn === 'count') return records.length;
+  const values = records
+    .map((record) => (field ? toNumber(getFieldValue(record, field)) : undefined))
+    .filter((value): value is number => value !== undefined);
+  if (values.length === 0) return fn === 'sum' ? 0 : undefined;
+  switch (fn) {
+    case 'sum': return values.reduce((total, value) => total + value, 0);
+    case 'avg': return values.reduce((total, value) => total + value, 0) / values.length;
+    case 'min': return Math.min(...values);
+    case 'max': return Math.max(...values);
+  }
+}
+
+const roundAggregate = (value: number) => Number(value.toFixed(6));
+
+function runAggregateRule(
+  check: CustomCheckConfig,
+  data: DataContext,
+  evaluateCondition: (record: any) => boolean
+): Exception[] {
+  const params = check.parameters;
+  const fn = params.aggregate_function;
+  if (!fn || !params.operator || (fn !== 'count' && !params.aggregate_field)) return [];
+  const label = fn === 'count' ? 'count' : `${fn}(${params.aggregate_field})`;
+  const headers = data.headers.filter((header) => evaluateCondition(header));
+
+  if (params.group_by === 'seller_month') {
+    if (params.threshold === undefined) return [];
+    const groups = new Map<string, InvoiceHeader[]>();
+    headers.forEach((header) => {
+      const key = `${header.seller_trn}|${(header.issue_date || '').slice(0, 7)}`;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(header);
+    });
+    const exceptions: Exception[] = [];
+    groups.forEach((groupHeaders, key) => {
+      const [sellerTrn, month] = key.split('|');
+      const aggregate = aggregateValues(fn, groupHeaders, params.aggregate_field);
+      if (aggregate === undefined || compareNumbers(aggregate, params.operator!, params.threshold!, params.tolerance)) return;
+      exceptions.push({
+        ...createRecordException(check, {}, data, {
+          message: formatMessage(check.message_template, groupHeaders[0], {
+            month: month || '(no issue date)',
+            aggregate: roundAggregate(aggregate),
+            expected: params.threshold,
+            count: groupHeaders.length,
+          }),
+          field: label,
+          expectedValue: `${params.operator} ${params.threshold}`,
+          actualValue: roundAggregate(aggregate),
+        }),
+        sellerTrn,
+      });
+    });
+    return exceptions;
+  }
+
+  if (!params.right_expression) return [];
+  let expected: CompiledFormula;
+  try {
+    expected = compileFormula(params.right_expression, 'header', 'number');
+  } catch (error) {
+    return [createRecordException(check, {}, data, { message: `Comparison is invalid: ${errorMessage(error)}`, field: label })];
+  }
+  const exceptions: Exception[] = [];
+  headers.forEach((header) => {
+    const lines = data.linesByInvoice.get(header.invoice_id) ?? [];
+    const aggregate = aggregateValues(fn, lines, params.aggregate_field);
+    let right: number;
+    try {
+      right = expected.evaluate(createFormulaRecordContext('header', header, data)) as number;
+    } catch (error) {
+      exceptions.push(createRecordException(check, header, data, {
+        message: `Comparison could not be evaluated: ${errorMessage(error)}`,
+        field: label,
+        expectedValue: params.right_expression,
+      }));
+      return;
+    }
+    if (aggregate === undefined) {
+      exceptions.push(createRecordException(check, header, data, {
+        message: `Invoice has no line values for ${label}`,
+        field: label,
+        expectedValue: `${params.operator} ${right}`,
+      }));
+      return;
+    }
+    if (compareNumbers(aggregate, params.operator!, right, params.tolerance)) return;
+    exceptions.push(createRecordException(check, header, data, {
+      message: formatMessage(check.message_template, header, { aggregate: roundAggregate(aggregate), expected: right }),
+      field: label,
+      expectedValue: `${params.operator} ${right}`,
+      actualValue: roundAggregate(aggregate),
+    }));
+  });
+  return exceptions;
+}
+
+const normalizeJoinValue = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+function runJoinRule(
+  check: CustomCheckConfig,
+  data: DataContext,
+  evaluateCondition: (record: any) => boolean
+): Exception[] {
+  const params = check.parameters;
+  if (!params.left_field || !params.right_field) return [];
+  const mustDiffer = params.operator === '!=';
+  const field = `${params.left_field} ${mustDiffer ? '!=' : '='} buyer.${params.right_field}`;
+  const exceptions: Exception[] = [];
+
+  data.headers.forEach((header) => {
+    if (!evaluateCondition(header)) return;
+    const buyer = data.buyerMap.get(header.buyer_id);
+    const left = getFieldValue(header, params.left_field!);
+    if (!buyer) {
+      exceptions.push(createRecordException(check, header, data, {
+        message: `Buyer "${header.buyer_id || '(empty)'}" not found; cannot compare ${field}`,
+        field,
+        actualValue: left ?? '(empty)',
+      }));
+      return;
     }
-    return Boolean(new Function(`return ${expr}`)());
-  } catch {
-    return true;
+    const right = getFieldValue(buyer, params.right_field!);
+    const equal = normalizeJoinValue(left) === normalizeJoinValue(right);
+    if (equal !== mustDiffer) return;
+    exceptions.push(createRecordException(check, header, data, {
+      message: formatMessage(check.message_template, header, { buyer_value: right ?? '(empty)' }),
+      field,
+      expectedValue: `${mustDiffer ? 'not ' : ''}${right ?? '(empty)'}`,
+      actualValue: left ?? '(empty)',
+    }));
+  });
+  return exceptions;
+}
+
+function runConditionalExistenceRule(check: CustomCheckConfig, data: DataContext, dataset: any[]): Exception[] {
+  const params = check.parameters;
+  const requiredFields = (params.required_fields ?? []).filter(Boolean);
+  if (!params.condition || requiredFields.length === 0) return [];
+  let condition: CompiledFormula;
+  let presenceChecks: { field: string; isEmpty: CompiledFormula }[];
+  try {
+    condition = compileFormula(params.condition, check.dataset_scope);
+    presenceChecks = requiredFields.map((field) => ({ field, isEmpty: compileFormula(`isEmpty({${field}})`, check.dataset_scope) }));
+  } catch (error) {
+    return [createRecordException(check, {}, data, { message: `Rule is invalid: ${errorMessage(error)}`, field: 'condition' })];
   }
+
+  const exceptions: Exception[] = [];
+  dataset.forEach((record) => {
+    const context = createFormulaRecordContext(check.dataset_scope, record, data);
+    try {
+      if (condition.evaluate(context) !== true) return;
+    } catch (error) {
+      exceptions.push(createRecordException(check, record, data, {
+        message: `Condition could not be evaluated: ${errorMessage(error)}`,
+        field: 'condition',
+        expectedValue: params.condition,
+      }));
+      return;
+    }
+    presenceChecks.forEach(({ field, isEmpty }) => {
+      if (isEmpty.evaluate(context) !== true) return;
+      exceptions.push(createRecordException(check, record, data, {
+        message: formatMessage(check.message_template, record, { field }),
+        field,
+        expectedValue: `present when ${params.condition}`,
+        actualValue: '(empty)',
+      }));
+    });
+  });
+  return exceptions;
 }
 
 export function runCustomCheck(check: CustomCheckConfig, data: DataContext): Exception[] {
@@ -187,12 +402,16 @@ export function runCustomCheck(check: CustomCheckConfig, data: DataContext): Exc
   };
 
   const dataset = getDataset();
+  // Conditional existence compiles and reports its own condition.
+  const evaluateCondition =
+    check.rule_type === 'conditional_existence' ? () => true : createConditionFilter(check, data, exceptions);
+  if (!evaluateCondition) return exceptions;
 
   switch (check.rule_type) {
     case 'missing':
       if (!params.field) break;
       for (const record of dataset) {
-        if (!evaluateCondition(params.condition, record)) continue;
+        if (!evaluateCondition(record)) continue;
         const value = getFieldValue(record, params.field);
         if (value === undefined || value === null || String(value).trim() === '') {
           const invoiceId = (record as any).invoice_id;
@@ -218,7 +437,7 @@ export function runCustomCheck(check: CustomCheckConfig, data: DataContext): Exc
       if (!params.fields || params.fields.length === 0) break;
       const seen = new Map<string, any[]>();
       for (const record of dataset) {
-        if (!evaluateCondition(params.condition, record)) continue;
+        if (!evaluateCondition(record)) continue;
         const key = params.fields.map(f => String(getFieldValue(record, f) ?? '')).join('|');
         if (!seen.has(key)) seen.set(key, []);
         seen.get(key)!.push(record);
@@ -246,26 +465,48 @@ export function runCustomCheck(check: CustomCheckConfig, data: DataContext): Exc
       }
       break;
 
-    case 'math':
+    case 'math': {
       if (!params.left_expression || !params.right_expression || !params.operator) break;
+      let leftExpression: CompiledFormula;
+      let rightExpression: CompiledFormula;
+      try {
+        leftExpression = compileFormula(params.left_expression, check.dataset_scope, 'number');
+        rightExpression = compileFormula(params.right_expression, check.dataset_scope, 'number');
+      } catch (error) {
+        exceptions.push(createRecordException(check, {}, data, {
+          message: `Comparison is invalid: ${errorMessage(error)}`,
+          field: params.left_expression,
+          expectedValue: params.right_expression,
+        }));
+        break;
+      }
       for (const record of dataset) {
-        if (!evaluateCondition(params.condition, record)) continue;
-        const left = evaluateExpression(params.left_expression, record);
-        const right = evaluateExpression(params.right_expression, record);
-        if (left === undefined || right === undefined) continue;
-        
-        const tolerance = params.tolerance ?? 0.01;
-        let passes = false;
-        switch (params.operator) {
-          case '=': passes = Math.abs(left - right) <= tolerance; break;
-          case '!=': passes = Math.abs(left - right) > tolerance; break;
-          case '>': passes = left > right; break;
-          case '<': passes = left < right; break;
-          case '>=': passes = left >= right; break;
-          case '<=': passes = left <= right; break;
+        if (!evaluateCondition(record)) continue;
+        let left: unknown;
+        let right: unknown;
+        try {
+          const context = createFormulaRecordContext(check.dataset_scope, record, data);
+          left = leftExpression.evaluate(context);
+          right = rightExpression.evaluate(context);
+        } catch (error) {
+          exceptions.push(createRecordException(check, record, data, {
+            message: `Comparison could not be evaluated: ${errorMessage(error)}`,
+            field: params.left_expression,
+            expectedValue: params.right_expression,
+          }));
+          continue;
+        }
+        if (typeof left !== 'number' || typeof right !== 'number') {
+          exceptions.push(createRecordException(check, record, data, {
+            message: `Comparison could not be evaluated: ${typeof left !== 'number' ? params.left_expression : params.right_expression} is empty`,
+            field: params.left_expression,
+            expectedValue: typeof right === 'number' ? right : params.right_expression,
+            actualValue: typeof left === 'number' ? left : '(empty)',
+          }));
+          continue;
         }
-        
-        if (!passes) {
+
+        if (!compareNumbers(left, params.operator, right, params.tolerance)) {
           const invoiceId = (record as any).invoice_id;
           const header = invoiceId ? data.headerMap.get(invoiceId) : undefined;
           exceptions.push({
@@ -285,12 +526,13 @@ export function runCustomCheck(check: CustomCheckConfig, data: DataContext): Exc
         }
       }
       break;
+    }
 
     case 'regex':
       if (!params.field || !params.pattern) break;
       const regex = new RegExp(params.pattern);
       for (const record of dataset) {
-        if (!evaluateCondition(params.condition, record)) continue;
+        if (!evaluateCondition(record)) continue;
         const value = getFieldValue(record, params.field);
         if (value !== undefined && value !== null && !regex.test(String(value))) {
           const invoiceId = (record as any).invoice_id;
@@ -313,47 +555,65 @@ export function runCustomCheck(check: CustomCheckConfig, data: DataContext): Exc
       }
       break;
 
-    case 'custom_formula':
+    case 'custom_formula': {
       if (!params.formula) break;
+      let formula: CompiledFormula;
+      try {
+        formula = compileFormula(params.formula, check.dataset_scope);
+      } catch (error) {
+        exceptions.push({
+          id: generateId(),
+          checkId: check.id || 'custom',
+          checkName: check.name,
+          severity: check.severity,
+          message: `Formula is invalid: ${error instanceof Error ? error.message : String(error)}`,
+          field: 'formula',
+          expectedValue: params.formula,
+        });
+        break;
+      }
       for (const record of dataset) {
-        if (!evaluateCondition(params.condition, record)) continue;
+        if (!evaluateCondition(record)) continue;
+        let result: unknown;
+        let evaluationError: string | undefined;
         try {
-          let expr = params.formula;
-          const fieldMatches = expr.match(/\{([^}]+)\}/g);
-          if (fieldMatches) {
-            for (const match of fieldMatches) {
-              const field = match.slice(1, -1);
-              const value = getFieldValue(record, field);
-              if (typeof value === 'string') {
-                expr = expr.replace(match, `"${value}"`);
-              } else if (value === undefined || value === null) {
-                expr = expr.replace(match, 'null');
-              } else {
-                expr = expr.replace(match, String(value));
-              }
-            }
-          }
-          const result = new Function(`return ${expr}`)();
-          if (!result) {
-            const invoiceId = (record as any).invoice_id;
-            const header = invoiceId ? data.headerMap.get(invoiceId) : undefined;
-            exceptions.push({
-              id: generateId(),
-              checkId: check.id || 'custom',
-              checkName: check.name,
-              severity: check.severity,
-              message: formatMessage(check.message_template, record),
-              invoiceId: invoiceId || (record as any).invoice_id,
-              invoiceNumber: header?.invoice_number || (record as any).invoice_number,
-              sellerTrn: header?.seller_trn || (record as any).seller_trn,
-              buyerId: header?.buyer_id || (record as any).buyer_id,
-            });
-          }
-        } catch {
-          // Skip records that fail formula evaluation
+          result = formula.evaluate(createFormulaRecordContext(check.dataset_scope, record, data));
+        } catch (error) {
+          evaluationError = error instanceof Error ? error.message : String(error);
         }
+        if (result === true) continue;
+
+        const invoiceId = (record as any).invoice_id;
+        const header = invoiceId ? data.headerMap.get(invoiceId) : undefined;
+        exceptions.push({
+          id: generateId(),
+          checkId: check.id || 'custom',
+          checkName: check.name,
+          severity: check.severity,
+          message: evaluationError
+            ? `Formula could not be evaluated: ${evaluationError}`
+            : formatMessage(check.message_template, record),
+          invoiceId: invoiceId || (record as any).invoice_id,
+          invoiceNumber: header?.invoice_number || (record as any).invoice_number,
+          sellerTrn: header?.seller_trn || (record as any).seller_trn,
+          buyerId: header?.buyer_id || (record as any).buyer_id,
+          ...(evaluationError ? { field: 'formula', expectedValue: params.formula, actualValue: evaluationError } : {}),
+        });
       }
       break;
+    }
+
+    case 'aggregate':
+      exceptions.push(...runAggregateRule(check, data, evaluateCondition));
+      break;
+
+    case 'join':
+      exceptions.push(...runJoinRule(check, data, evaluateCondition));
+      break;
+
+    case 'conditional_existence':
+      exceptions.push(...runConditionalExistenceRule(check, data, dataset));
+      break;
 
     case 'fuzzy_duplicate':
     case 'invoice_number_variant':
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { compileFormula, createFormulaRecordContext, validateFormula } from '@/lib/checks/formulaLanguage';
+import { DataContext, InvoiceHeader, InvoiceLine } from '@/types/compliance';
+
+const header = {
+  invoice_id: 'INV-1',
+  invoice_number: "O'Brien-001",
+  issue_date: '2025-01-31',
+  payment_due_date: '2025-03-02',
+  seller_trn: '100000000000003',
+  buyer_id: 'B-1',
+  currency: 'AED',
+  total_excl_vat: 150,
+  vat_total: 7.5,
+} as InvoiceHeader;
+const lines = [
+  { line_id: 'L-1', invoice_id: 'INV-1', line_number: 1, quantity: 1, unit_price: 100, line_total_excl_vat: 100, vat_rate: 5, vat_amount: 5 },
+  { line_id: 'L-2', invoice_id: 'INV-1', line_number: 2, quantity: 2, unit_price: 25, line_total_excl_vat: 50, vat_rate: 5, vat_amount: 2.5 },
+] as InvoiceLine[];
+const data: DataContext = {
+  buyers: [{ buyer_id: 'B-1', buyer_name: 'Acme LLC', buyer_country: 'AE' }],
+  headers: [header],
+  lines,
+  buyerMap: new Map([['B-1', { buyer_id: 'B-1', buyer_name: 'Acme LLC', buyer_country: 'AE' }]]),
+  headerMap: new Map([['INV-1', header]]),
+  linesByInvoice: new Map([['INV-1', lines]]),
+};
+
+const evaluate = (source: string, record: object = header, scope: 'header' | 'lines' = 'header') =>
+  compileFormula(source, scope).evaluate(createFormulaRecordContext(scope, record, data));
+
+describe('formulaLanguage', () => {
+  it('evaluates typed fields, related records and line aggregates', () => {
+    expect(evaluate('abs(sum({lines.line_total_excl_vat}) - {total_excl_vat}) <= 0.01')).toBe(true);
+    expect(evaluate('count({lines.line_id}) == 2 && maxOf({lines.unit_price}) == 100')).toBe(true);
+    expect(evaluate('daysBetween({issue_date}, {payment_due_date}) == 30 && month({issue_date}) == 1')).toBe(true);
+    expect(evaluate("{buyer.buyer_country} == 'AE' && startsWith(upper({buyer.buyer_name}), 'ACME')")).toBe(true);
+    expect(evaluate("{header.currency} === 'AED' && {quantity} * {unit_price} == {line_total_excl_vat}", lines[1], 'lines')).toBe(true);
+  });
+
+  it('compares values containing quotes as data, never as code', () => {
+    expect(evaluate(`{invoice_number} == "O'Brien-001"`)).toBe(true);
+    expect(evaluate(`contains({invoice_number}, "'); alert(1); ('")`)).toBe(false);
+  });
+
+  it('rejects malformed, unknown and mistyped formulas at compile time with a position', () => {
+    expect(validateFormula('{quantity} > 0', 'header')).toEqual({ valid: false, error: 'Unknown field {quantity} at position 1' });
+    expect(validateFormula('{total_excl_vat} > "100"', 'header').error).toBe('Cannot order number against string at position 18');
+    expect(validateFormula('{lines.quantity} > 1', 'header').error).toMatch(/list of line values/);
+    expect(validateFormula('{header.currency} == "AED"', 'buyers').error).toMatch(/not available for buyers checks/);
+    expect(validateFormula('constructor("return process")', 'header').error).toBe('Unknown function constructor() at position 1');
+    expect(validateFormula('this.process', 'header').error).toBe('Unexpected character "." at position 5');
+    expect(validateFormula('{vat_total} = 0', 'header').error).toBe('Use == to compare values at position 13');
+    expect(validateFormula('{vat_total} + 1', 'header').error).toBe('Formula must produce a true/false result, but produces number');
+    expect(validateFormula('matches({seller_trn}, "[")', 'header').error).toMatch(/Invalid pattern/);
+    expect(validateFormula('isEmpty({fx_rate}) || {fx_rate} > 0', 'header')).toEqual({ valid: true });
+  });
+
+  it('throws per-record evaluation errors for empty operands, bad values and division by zero', () => {
+    expect(() => evaluate('{fx_rate} > 0')).toThrow('{fx_rate} is empty');
+    expect(() => evaluate('{vat_total} / ({total_excl_vat} - 150) > 0')).toThrow('expression is zero in a division');
+    expect(() => evaluate('{total_incl_vat} > 0', { ...header, total_incl_vat: 'n/a' })).toThrow('{total_incl_vat} is not a number ("n/a")');
+    expect(evaluate('isEmpty({fx_rate}) || {fx_rate} > 0')).toBe(true);
+    expect(evaluate('coalesce({fx_rate}, 1) == 1')).toBe(true);
+  });
+});
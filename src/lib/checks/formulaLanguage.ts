@@ -0,0 +1,540 @@
+// =============================================================================
+// Formula Language - sandboxed expressions for custom checks
+// A small typed expression language: field references ({field}, {header.field},
+// {buyer.field}, {lines.field}), literals, arithmetic, comparison and boolean
+// operators, and a fixed set of functions. Formulas are parsed and type-checked
+// once per check, then evaluated per record without ever reaching `eval`.
+// =============================================================================
+
+import { PARSER_KNOWN_COLUMNS } from '@/lib/registry/drRegistry';
+import { CustomCheckConfig } from '@/types/customChecks';
+import { Buyer, DataContext, InvoiceHeader, InvoiceLine } from '@/types/compliance';
+
+export type FormulaScope = CustomCheckConfig['dataset_scope'];
+
+export type FormulaType = 'number' | 'string' | 'boolean' | 'date' | 'null' | 'number[]' | 'string[]' | 'date[]';
+
+type ScalarValue = number | string | boolean | Date | null;
+export type FormulaValue = ScalarValue | ScalarValue[];
+
+export interface FormulaRecordContext {
+  record: object;
+  header?: InvoiceHeader;
+  buyer?: Buyer;
+  lines: InvoiceLine[];
+}
+
+export interface CompiledFormula {
+  source: string;
+  resultType: FormulaType;
+  /** Throws when the record cannot be evaluated (empty operand, bad number or date, ...). */
+  evaluate: (context: FormulaRecordContext) => FormulaValue;
+}
+
+type FieldSource = 'record' | 'header' | 'buyer' | 'lines';
+
+type Node =
+  | { kind: 'literal'; value: ScalarValue; type: FormulaType; position: number }
+  | { kind: 'field'; source: FieldSource; name: string; label: string; type: FormulaType; position: number }
+  | { kind: 'unary'; operator: '!' | '-'; operand: Node; position: number }
+  | { kind: 'binary'; operator: string; left: Node; right: Node; position: number }
+  | { kind: 'call'; name: string; args: Node[]; position: number };
+
+interface Token {
+  type: 'number' | 'string' | 'field' | 'identifier' | 'operator' | 'end';
+  value: string;
+  position: number;
+}
+
+const NUMBER_FIELDS = new Set([
+  'total_excl_vat', 'vat_total', 'total_incl_vat', 'fx_rate', 'amount_due', 'tax_category_rate',
+  'document_level_allowance_total', 'document_level_charge_total', 'rounding_amount',
+  'line_number', 'quantity', 'unit_price', 'line_discount', 'line_total_excl_vat', 'vat_rate',
+  'vat_amount', 'line_allowance_amount', 'line_charge_amount',
+]);
+
+const SCOPE_DATASETS: Record<FormulaScope, Partial<Record<FieldSource, keyof typeof PARSER_KNOWN_COLUMNS>>> = {
+  header: { record: 'headers', buyer: 'buyers', lines: 'lines' },
+  'cross-file': { record: 'headers', buyer: 'buyers', lines: 'lines' },
+  lines: { record: 'lines', header: 'headers', buyer: 'buyers', lines: 'lines' },
+  buyers: { record: 'buyers' },
+};
+
+const RELATED_SOURCES: FieldSource[] = ['header', 'buyer', 'lines'];
+
+const OPERATORS = ['===', '!==', '&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', ','];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function fail(message: string, position: number): never {
+  throw new Error(`${message} at position ${position + 1}`);
+}
+
+function fieldType(name: string): FormulaType {
+  if (NUMBER_FIELDS.has(name)) return 'number';
+  return name.endsWith('_date') ? 'date' : 'string';
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+    const start = index;
+    if (/\d/.test(char)) {
+      const match = /^\d+(\.\d+)?/.exec(source.slice(index))!;
+      tokens.push({ type: 'number', value: match[0], position: start });
+      index += match[0].length;
+      continue;
+    }
+    if (char === '"' || char === "'") {
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          const escaped = source[index + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          index += 2;
+        } else {
+          value += source[index++];
+        }
+      }
+      if (index >= source.length) fail('Unterminated string', start);
+      index++;
+      tokens.push({ type: 'string', value, position: start });
+      continue;
+    }
+    if (char === '{') {
+      const end = source.indexOf('}', index);
+      if (end === -1) fail('Unclosed field reference', start);
+      const reference = source.slice(index + 1, end).trim();
+      if (!/^[A-Za-z_]\w*(\.[A-Za-z_]\w*)?$/.test(reference)) fail(`Invalid field reference {${reference}}`, start);
+      tokens.push({ type: 'field', value: reference, position: start });
+      index = end + 1;
+      continue;
+    }
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_]\w*/.exec(source.slice(index))!;
+      tokens.push({ type: 'identifier', value: match[0], position: start });
+      index += match[0].length;
+      continue;
+    }
+    const operator = OPERATORS.find((candidate) => source.startsWith(candidate, index));
+    if (!operator) fail(char === '=' ? 'Use == to compare values' : `Unexpected character "${char}"`, start);
+    // JS-style strict operators mean the same here: the language has no implicit coercion.
+    tokens.push({ type: 'operator', value: operator === '===' ? '==' : operator === '!==' ? '!=' : operator, position: start });
+    index += operator.length;
+  }
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+}
+
+function parse(source: string, scope: FormulaScope): Node {
+  const tokens = tokenize(source);
+  let cursor = 0;
+  const peek = () => tokens[cursor];
+  const accept = (value: string) => {
+    if (peek().type === 'operator' && peek().value === value) {
+      cursor++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (value: string) => {
+    if (!accept(value)) fail(`Expected "${value}"`, peek().position);
+  };
+
+  const binaryLevel = (operators: string[], next: () => Node) => (): Node => {
+    let left = next();
+    while (peek().type === 'operator' && operators.includes(peek().value)) {
+      const { value: operator, position } = tokens[cursor++];
+      left = { kind: 'binary', operator, left, right: next(), position };
+    }
+    return left;
+  };
+
+  const resolveField = (token: Token): Node => {
+    const [first, second] = token.value.split('.');
+    if (second && !RELATED_SOURCES.includes(first as FieldSource)) {
+      fail(`Unknown field {${token.value}}; prefix with header., buyer. or lines.`, token.position);
+    }
+    const source = (second ? first : 'record') as FieldSource;
+    const name = second ?? first;
+    const dataset = SCOPE_DATASETS[scope][source];
+    if (!dataset) fail(`{${first}.${name}} is not available for ${scope} checks`, token.position);
+    if (!PARSER_KNOWN_COLUMNS[dataset].has(name)) fail(`Unknown field {${token.value}}`, token.position);
+    const type = fieldType(name);
+    return {
+      kind: 'field',
+      source,
+      name,
+      label: `{${token.value}}`,
+      type: source === 'lines' ? (`${type}[]` as FormulaType) : type,
+      position: token.position,
+    };
+  };
+
+  const primary = (): Node => {
+    const token = tokens[cursor++];
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.value), type: 'number', position: token.position };
+      case 'string':
+        return { kind: 'literal', value: token.value, type: 'string', position: token.position };
+      case 'field':
+        return resolveField(token);
+      case 'identifier': {
+        if (token.value === 'true' || token.value === 'false') {
+          return { kind: 'literal', value: token.value === 'true', type: 'boolean', position: token.position };
+        }
+        if (token.value === 'null') return { kind: 'literal', value: null, type: 'null', position: token.position };
+        if (!accept('(')) fail(`Unknown name "${token.value}" (field references need braces, e.g. {${token.value}})`, token.position);
+        const args: Node[] = [];
+        if (!accept(')')) {
+          do {
+            args.push(expression());
+          } while (accept(','));
+          expect(')');
+        }
+        return { kind: 'call', name: token.value, args, position: token.position };
+      }
+      case 'operator':
+        if (token.value === '(') {
+          const inner = expression();
+          expect(')');
+          return inner;
+        }
+        fail(`Unexpected "${token.value}"`, token.position);
+        break;
+      default:
+        fail('Unexpected end of formula', token.position);
+    }
+  };
+
+  const unary = (): Node => {
+    const token = peek();
+    if (token.type === 'operator' && (token.value === '!' || token.value === '-')) {
+      cursor++;
+      return { kind: 'unary', operator: token.value, operand: unary(), position: token.position };
+    }
+    return primary();
+  };
+
+  const multiplicative = binaryLevel(['*', '/', '%'], unary);
+  const additive = binaryLevel(['+', '-'], multiplicative);
+  const comparison = binaryLevel(['<', '<=', '>', '>='], additive);
+  const equality = binaryLevel(['==', '!='], comparison);
+  const and = binaryLevel(['&&'], equality);
+  const expression = binaryLevel(['||'], and);
+
+  if (peek().type === 'end') fail('Formula is empty', 0);
+  const root = expression();
+  if (peek().type !== 'end') fail(`Unexpected "${peek().value}"`, peek().position);
+  return root;
+}
+
+// ---------------------------------------------------------------------------
+// Functions
+// ---------------------------------------------------------------------------
+
+interface FormulaFunction {
+  /** Parameter types; 'any' accepts any single value, 'list' any line values, a trailing '...' repeats the last one. */
+  params: (FormulaType | 'any' | 'list' | '...')[];
+  optional?: number;
+  returns: FormulaType | ((argTypes: FormulaType[]) => FormulaType);
+  /** Functions that accept empty arguments handle null themselves; all others reject them. */
+  nullSafe?: boolean;
+  run: (args: FormulaValue[]) => FormulaValue;
+}
+
+const numbersOf = (values: FormulaValue) => (values as ScalarValue[]).filter((value): value is number => value !== null);
+
+function extremeOf(values: FormulaValue, pick: (a: number, b: number) => number, name: string): number {
+  const numbers = numbersOf(values);
+  if (numbers.length === 0) throw new Error(`${name}() has no line values`);
+  return numbers.reduce((current, value) => pick(current, value));
+}
+
+function parseFormulaDate(value: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value.trim());
+  const date = match ? new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3]))) : null;
+  if (!date || date.getUTCDate() !== Number(match![3])) throw new Error(`"${value}" is not a YYYY-MM-DD date`);
+  return date;
+}
+
+const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  abs: { params: ['number'], returns: 'number', run: ([value]) => Math.abs(value as number) },
+  round: {
+    params: ['number', 'number'],
+    optional: 1,
+    returns: 'number',
+    run: ([value, digits = 0]) => {
+      const factor = 10 ** (digits as number);
+      return Math.round((value as number) * factor + Number.EPSILON) / factor;
+    },
+  },
+  min: { params: ['number', 'number', '...'], returns: 'number', run: (args) => Math.min(...(args as number[])) },
+  max: { params: ['number', 'number', '...'], returns: 'number', run: (args) => Math.max(...(args as number[])) },
+  len: { params: ['string'], returns: 'number', run: ([value]) => (value as string).length },
+  upper: { params: ['string'], returns: 'string', run: ([value]) => (value as string).toUpperCase() },
+  lower: { params: ['string'], returns: 'string', run: ([value]) => (value as string).toLowerCase() },
+  trim: { params: ['string'], returns: 'string', run: ([value]) => (value as string).trim() },
+  contains: { params: ['string', 'string'], returns: 'boolean', run: ([value, part]) => (value as string).includes(part as string) },
+  startsWith: { params: ['string', 'string'], returns: 'boolean', run: ([value, part]) => (value as string).startsWith(part as string) },
+  endsWith: { params: ['string', 'string'], returns: 'boolean', run: ([value, part]) => (value as string).endsWith(part as string) },
+  matches: {
+    params: ['string', 'string'],
+    returns: 'boolean',
+    run: ([value, pattern]) => new RegExp(pattern as string).test(value as string),
+  },
+  date: { params: ['string'], returns: 'date', run: ([value]) => parseFormulaDate(value as string) },
+  daysBetween: {
+    params: ['date', 'date'],
+    returns: 'number',
+    run: ([from, to]) => Math.round(((to as Date).getTime() - (from as Date).getTime()) / MS_PER_DAY),
+  },
+  year: { params: ['date'], returns: 'number', run: ([value]) => (value as Date).getUTCFullYear() },
+  month: { params: ['date'], returns: 'number', run: ([value]) => (value as Date).getUTCMonth() + 1 },
+  day: { params: ['date'], returns: 'number', run: ([value]) => (value as Date).getUTCDate() },
+  isEmpty: { params: ['any'], returns: 'boolean', nullSafe: true, run: ([value]) => value === null || value === '' },
+  coalesce: {
+    params: ['any', 'any'],
+    returns: ([first, second]) => (first === 'null' ? second : first),
+    nullSafe: true,
+    run: ([first, second]) => (first === null || first === '' ? second : first),
+  },
+  sum: { params: ['number[]'], returns: 'number', nullSafe: true, run: ([values]) => numbersOf(values).reduce((total, value) => total + value, 0) },
+  avg: {
+    params: ['number[]'],
+    returns: 'number',
+    nullSafe: true,
+    run: ([values]) => {
+      const numbers = numbersOf(values);
+      if (numbers.length === 0) throw new Error('avg() has no line values');
+      return numbers.reduce((total, value) => total + value, 0) / numbers.length;
+    },
+  },
+  minOf: { params: ['number[]'], returns: 'number', nullSafe: true, run: ([values]) => extremeOf(values, Math.min, 'minOf') },
+  maxOf: { params: ['number[]'], returns: 'number', nullSafe: true, run: ([values]) => extremeOf(values, Math.max, 'maxOf') },
+  count: {
+    params: ['list'],
+    returns: 'number',
+    nullSafe: true,
+    run: ([values]) => (values as ScalarValue[]).filter((value) => value !== null && value !== '').length,
+  },
+};
+
+/** Listed in the Check Builder help text. */
+export const FORMULA_FUNCTION_NAMES = Object.keys(FORMULA_FUNCTIONS);
+
+// ---------------------------------------------------------------------------
+// Type checking
+// ---------------------------------------------------------------------------
+
+const isListType = (type: FormulaType) => type.endsWith('[]');
+
+function typeCheck(node: Node): FormulaType {
+  switch (node.kind) {
+    case 'literal':
+    case 'field':
+      return node.type;
+    case 'unary': {
+      const operand = typeCheck(node.operand);
+      const expected = node.operator === '!' ? 'boolean' : 'number';
+      if (operand !== expected) fail(`"${node.operator}" needs a ${expected}, got ${operand}`, node.position);
+      return expected;
+    }
+    case 'binary': {
+      const left = typeCheck(node.left);
+      const right = typeCheck(node.right);
+      if (isListType(left) || isListType(right)) {
+        fail(`${isListType(left) ? describeNode(node.left) : describeNode(node.right)} is a list of line values; wrap it in sum(), count(), minOf(), maxOf() or avg()`, node.position);
+      }
+      switch (node.operator) {
+        case '&&':
+        case '||':
+          if (left !== 'boolean' || right !== 'boolean') fail(`"${node.operator}" needs true/false on both sides, got ${left} and ${right}`, node.position);
+          return 'boolean';
+        case '==':
+        case '!=':
+          if (left !== right && left !== 'null' && right !== 'null') fail(`Cannot compare ${left} with ${right}`, node.position);
+          return 'boolean';
+        case '<':
+        case '<=':
+        case '>':
+        case '>=':
+          if (left !== right || !['number', 'string', 'date'].includes(left)) fail(`Cannot order ${left} against ${right}`, node.position);
+          return 'boolean';
+        case '+':
+          if (left === 'string' && right === 'string') return 'string';
+          if (left !== 'number' || right !== 'number') fail(`"+" needs two numbers or two strings, got ${left} and ${right}`, node.position);
+          return 'number';
+        default:
+          if (left !== 'number' || right !== 'number') fail(`"${node.operator}" needs numbers, got ${left} and ${right}`, node.position);
+          return 'number';
+      }
+    }
+    case 'call': {
+      // Own properties only, so names like "constructor" never resolve to Object.prototype.
+      const fn = Object.prototype.hasOwnProperty.call(FORMULA_FUNCTIONS, node.name) ? FORMULA_FUNCTIONS[node.name] : undefined;
+      if (!fn) fail(`Unknown function ${node.name}()`, node.position);
+      const variadic = fn.params[fn.params.length - 1] === '...';
+      const params = (variadic ? fn.params.slice(0, -1) : fn.params) as (FormulaType | 'any' | 'list')[];
+      const minArgs = params.length - (fn.optional ?? 0);
+      if (node.args.length < minArgs || (!variadic && node.args.length > params.length)) {
+        fail(`${node.name}() takes ${minArgs === params.length ? params.length : `${minArgs}-${params.length}`}${variadic ? ' or more' : ''} argument(s)`, node.position);
+      }
+      const argTypes = node.args.map((arg, index) => {
+        const type = typeCheck(arg);
+        const expected = params[Math.min(index, params.length - 1)];
+        const accepted =
+          expected === 'any' ? !isListType(type) : expected === 'list' ? isListType(type) : type === expected || (type === 'null' && fn.nullSafe);
+        if (!accepted) fail(`${node.name}() argument ${index + 1} must be ${expected}, got ${type}`, arg.position);
+        return type;
+      });
+      if (node.name === 'matches') {
+        const pattern = node.args[1];
+        if (pattern.kind !== 'literal') fail('matches() needs the pattern as a quoted string', pattern.position);
+        try {
+          new RegExp(pattern.value as string);
+        } catch {
+          fail(`Invalid pattern "${pattern.value}"`, pattern.position);
+        }
+      }
+      if (node.name === 'coalesce' && argTypes[0] !== argTypes[1] && !argTypes.includes('null')) {
+        fail(`coalesce() needs arguments of one type, got ${argTypes[0]} and ${argTypes[1]}`, node.position);
+      }
+      return typeof fn.returns === 'function' ? fn.returns(argTypes) : fn.returns;
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+function describeNode(node: Node): string {
+  if (node.kind === 'field') return node.label;
+  if (node.kind === 'call') return `${node.name}()`;
+  return 'expression';
+}
+
+function coerceFieldValue(raw: unknown, type: FormulaType, label: string): ScalarValue {
+  if (raw === undefined || raw === null || (typeof raw === 'string' && raw.trim() === '')) return null;
+  switch (type) {
+    case 'number': {
+      const value = typeof raw === 'number' ? raw : Number(String(raw).replace(/,/g, ''));
+      if (!Number.isFinite(value)) throw new Error(`${label} is not a number ("${raw}")`);
+      return value;
+    }
+    case 'date':
+      try {
+        return parseFormulaDate(String(raw));
+      } catch {
+        throw new Error(`${label} is not a YYYY-MM-DD date ("${raw}")`);
+      }
+    default:
+      return String(raw);
+  }
+}
+
+function readField(node: Extract<Node, { kind: 'field' }>, context: FormulaRecordContext): FormulaValue {
+  const scalarType = node.type.replace('[]', '') as FormulaType;
+  const read = (record: object | undefined) =>
+    coerceFieldValue(record ? (record as Record<string, unknown>)[node.name] : undefined, scalarType, node.label);
+  if (node.source === 'lines') return context.lines.map(read);
+  return read(node.source === 'record' ? context.record : context[node.source]);
+}
+
+function valuesEqual(left: FormulaValue, right: FormulaValue): boolean {
+  if (left instanceof Date && right instanceof Date) return left.getTime() === right.getTime();
+  return left === right;
+}
+
+function evaluateNode(node: Node, context: FormulaRecordContext): FormulaValue {
+  const required = (operand: Node) => {
+    const value = evaluateNode(operand, context);
+    if (value === null) throw new Error(`${describeNode(operand)} is empty`);
+    return value;
+  };
+
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return readField(node, context);
+    case 'unary':
+      return node.operator === '!' ? !required(node.operand) : -(required(node.operand) as number);
+    case 'binary': {
+      if (node.operator === '&&') return Boolean(required(node.left)) && Boolean(required(node.right));
+      if (node.operator === '||') return Boolean(required(node.left)) || Boolean(required(node.right));
+      if (node.operator === '==' || node.operator === '!=') {
+        const equal = valuesEqual(evaluateNode(node.left, context), evaluateNode(node.right, context));
+        return node.operator === '==' ? equal : !equal;
+      }
+      const left = required(node.left);
+      const right = required(node.right);
+      const ordered = (value: FormulaValue) => (value instanceof Date ? value.getTime() : value) as number | string;
+      switch (node.operator) {
+        case '<': return ordered(left) < ordered(right);
+        case '<=': return ordered(left) <= ordered(right);
+        case '>': return ordered(left) > ordered(right);
+        case '>=': return ordered(left) >= ordered(right);
+        case '+': return typeof left === 'string' ? left + (right as string) : (left as number) + (right as number);
+        case '-': return (left as number) - (right as number);
+        case '*': return (left as number) * (right as number);
+        default: {
+          if (right === 0) throw new Error(`${describeNode(node.right)} is zero in a division`);
+          return node.operator === '/' ? (left as number) / (right as number) : (left as number) % (right as number);
+        }
+      }
+    }
+    case 'call': {
+      const fn = FORMULA_FUNCTIONS[node.name];
+      return fn.run(node.args.map((arg) => (fn.nullSafe ? evaluateNode(arg, context) : required(arg))));
+    }
+  }
+}
+
+/**
+ * Parses and type-checks a formula for a dataset scope. Throws with the problem and its
+ * position when the formula is malformed, references an unknown field or mixes types.
+ */
+export function compileFormula(source: string, scope: FormulaScope, expectedType: FormulaType = 'boolean'): CompiledFormula {
+  const root = parse(source, scope);
+  const resultType = typeCheck(root);
+  if (resultType !== expectedType) {
+    throw new Error(`Formula must produce a ${expectedType === 'boolean' ? 'true/false result' : expectedType}, but produces ${resultType}`);
+  }
+  return { source, resultType, evaluate: (context) => evaluateNode(root, context) };
+}
+
+export function validateFormula(
+  source: string,
+  scope: FormulaScope,
+  expectedType: FormulaType = 'boolean'
+): { valid: boolean; error?: string } {
+  try {
+    compileFormula(source, scope, expectedType);
+    return { valid: true };
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/** Resolves the related header, buyer and invoice lines a formula can reference for a record. */
+export function createFormulaRecordContext(scope: FormulaScope, record: object, data: DataContext): FormulaRecordContext {
+  if (scope === 'buyers') return { record, lines: [] };
+  const invoiceId = (record as { invoice_id?: string }).invoice_id;
+  const header = scope === 'lines' ? (invoiceId ? data.headerMap.get(invoiceId) : undefined) : (record as InvoiceHeader);
+  return {
+    record,
+    header,
+    buyer: header ? data.buyerMap.get(header.buyer_id) : undefined,
+    lines: invoiceId ? data.linesByInvoice.get(invoiceId) ?? [] : [],
+  };
+}
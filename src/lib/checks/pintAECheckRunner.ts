@@ -1,5 +1,5 @@
 import { PintAECheck, PintAEException, SLA_HOURS_BY_SEVERITY } from '@/types/pintAE';
-import { DataContext, Severity } from '@/types/compliance';
+import { CheckExecutionOptions, DataContext, Severity } from '@/types/compliance';
 import { isCodeInCodelist } from '@/lib/pintAE/specCatalog';
 import { getFailureClassForRule } from '@/lib/validation/pintAERuleMetadata';
 import { buildScenarioContext } from '@/modules/scenarioContext/buildScenarioContext';
@@ -1888,7 +1888,8 @@ export function runAllPintAEChecks(checks: PintAECheck[], data: DataContext): Pi
 
 export function runAllPintAEChecksWithTelemetry(
   checks: PintAECheck[],
-  data: DataContext
+  data: DataContext,
+  options: CheckExecutionOptions = {}
 ): { exceptions: PintAEException[]; telemetry: PintAECheckTelemetry[] } {
   const enabledChecks = checks.filter(c => c.is_enabled);
   const allExceptions: PintAEException[] = [];
@@ -1898,6 +1899,7 @@ export function runAllPintAEChecksWithTelemetry(
     const result = runPintAECheckWithTelemetry(check, data);
     allExceptions.push(...result.exceptions);
     telemetry.push(result.telemetry);
+    options.onCheckComplete?.(check.check_id);
   }
   
   return { exceptions: allExceptions, telemetry };
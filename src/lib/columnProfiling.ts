@@ -0,0 +1,46 @@
+import { DetectedColumn } from '@/types/fieldMapping';
+
+const PROFILE_SAMPLE_SIZE = 100;
+
+export function detectColumnType(values: string[]): DetectedColumn['detectedType'] {
+  const nonEmpty = values.filter(v => v && v.trim() !== '');
+  if (nonEmpty.length === 0) return 'unknown';
+
+  // Check for date patterns
+  const datePatterns = [
+    /^\d{4}-\d{2}-\d{2}$/, // YYYY-MM-DD
+    /^\d{2}\/\d{2}\/\d{4}$/, // DD/MM/YYYY
+    /^\d{2}-\d{2}-\d{4}$/, // DD-MM-YYYY
+  ];
+  const dateMatches = nonEmpty.filter(v => datePatterns.some(p => p.test(v)));
+  if (dateMatches.length / nonEmpty.length > 0.8) return 'date';
+
+  // Check for numbers
+  const numberMatches = nonEmpty.filter(v => !isNaN(Number(v.replace(/,/g, ''))));
+  if (numberMatches.length / nonEmpty.length > 0.8) return 'number';
+
+  // Check for booleans
+  const boolValues = ['true', 'false', 'yes', 'no', '1', '0', 'y', 'n'];
+  const boolMatches = nonEmpty.filter(v => boolValues.includes(v.toLowerCase()));
+  if (boolMatches.length / nonEmpty.length > 0.8) return 'boolean';
+
+  return 'string';
+}
+
+/** Profiles each column from the first rows of an upload: inferred type, samples, nulls and cardinality. */
+export function profileColumns(rows: Record<string, string>[], columns: string[]): DetectedColumn[] {
+  const sample = rows.slice(0, PROFILE_SAMPLE_SIZE);
+  return columns.map((col, index) => {
+    const values = sample.map((r) => r[col] || '');
+    const nonEmpty = values.filter((v) => v && v.trim() !== '');
+
+    return {
+      name: col,
+      index,
+      detectedType: detectColumnType(values),
+      sampleValues: values.slice(0, 5),
+      nullCount: values.length - nonEmpty.length,
+      uniqueCount: new Set(nonEmpty).size,
+    };
+  });
+}
@@ -1,5 +1,9 @@
 import { Buyer, InvoiceHeader, InvoiceLine } from '@/types/compliance';
 import { Direction } from '@/types/direction';
+import { parseCSVFile, parseCSVText } from '@/lib/csvStream';
+import { getWorkbookSheet, isSpreadsheetUploadFile, parseSpreadsheetFile } from '@/lib/xlsxParser';
+import { MappingTemplate } from '@/types/fieldMapping';
+import { createTemplateRecordMapper } from '@/lib/mapping/templateIngestion';
 
 export function normalizeCSVText(text: string): string {
   return text
@@ -9,52 +13,15 @@ export function normalizeCSVText(text: string): string {
 }
 
 export function parseCSV(text: string): Record<string, string>[] {
-  const normalizedText = normalizeCSVText(text);
-  const lines = normalizedText.split('\n');
-  if (lines.length < 2) return [];
-
-  const headers = parseCSVLine(lines[0]);
-  const records: Record<string, string>[] = [];
-
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
-    if (values.length === headers.length) {
-      const record: Record<string, string> = {};
-      headers.forEach((header, index) => {
-        record[header.trim()] = values[index];
-      });
-      records.push(record);
-    }
-  }
-
-  return records;
+  return parseCSVText(text).records;
 }
 
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
+// Excel uploads read one sheet of the workbook; everything else goes through the CSV reader.
+async function readUploadRecords(file: File, sheetName?: string): Promise<{ records: Record<string, string>[]; recordLines: number[] }> {
+  if (isSpreadsheetUploadFile(file.name)) {
+    return getWorkbookSheet(await parseSpreadsheetFile(file), sheetName);
   }
-
-  result.push(current.trim());
-  return result;
+  return parseCSVFile(file);
 }
 
 function str(record: Record<string, string>, ...keys: string[]): string | undefined {
@@ -102,16 +69,40 @@ function buildDeliveryInformation(
   };
 }
 
-export async function parseBuyersFile(file: File): Promise<Buyer[]> {
-  return parsePartiesFile(file, { direction: 'AR' });
+export async function parseBuyersFile(file: File, options: Pick<ParseOptions, 'sheetName' | 'mappingTemplate'> = {}): Promise<Buyer[]> {
+  return parsePartiesFile(file, { ...options, direction: 'AR' });
 }
 
-type ParseOptions = {
+export type ParseOptions = {
   direction?: Direction;
   uploadSessionId?: string;
   uploadManifestId?: string;
+  /** Worksheet to read when the upload is an Excel workbook. */
+  sheetName?: string;
+  /** Mapping template applied to each row before the canonical columns are read. */
+  mappingTemplate?: MappingTemplate | null;
 };
 
+async function parseUploadFile<T>(
+  file: File,
+  options: ParseOptions,
+  mapRecord: (record: Record<string, string>, options: ParseOptions) => T
+): Promise<(T & Pick<Buyer, 'source_row_number' | 'field_provenance'>)[]> {
+  const { records, recordLines } = await readUploadRecords(file, options.sheetName);
+  const applyTemplate = options.mappingTemplate
+    ? createTemplateRecordMapper(options.mappingTemplate, Object.keys(records[0] ?? {}))
+    : null;
+  return records.map((record, index) => {
+    if (!applyTemplate) return { ...mapRecord(record, options), source_row_number: recordLines[index] };
+    const mapped = applyTemplate(record);
+    return {
+      ...mapRecord(mapped.record, options),
+      source_row_number: recordLines[index],
+      field_provenance: mapped.provenance,
+    };
+  });
+}
+
 function getValue(record: Record<string, string>, keys: string[]): string | undefined {
   for (const key of keys) {
     const value = record[key];
@@ -120,9 +111,7 @@ function getValue(record: Record<string, string>, keys: string[]): string | unde
   return undefined;
 }
 
-export async function parsePartiesFile(file: File, options: ParseOptions = {}): Promise<Buyer[]> {
-  const text = await file.text();
-  const records = parseCSV(text);
+export function mapPartyRecord(record: Record<string, string>, options: ParseOptions = {}): Buyer {
   const direction = options.direction || 'AR';
 
   const idKeys = direction === 'AP' ? ['supplier_id', 'vendor_id', 'buyer_id'] : ['buyer_id', 'customer_id', 'party_id'];
@@ -137,7 +126,7 @@ export async function parsePartiesFile(file: File, options: ParseOptions = {}):
       ? ['supplier_electronic_address', 'vendor_electronic_address', 'buyer_electronic_address']
       : ['buyer_electronic_address', 'customer_electronic_address', 'party_electronic_address'];
 
-  return records.map((record, index) => ({
+  return {
     buyer_id: getValue(record, idKeys) || '',
     buyer_name: getValue(record, nameKeys) || '',
     buyer_trn: getValue(record, trnKeys),
@@ -147,113 +136,112 @@ export async function parsePartiesFile(file: File, options: ParseOptions = {}):
     buyer_postcode: str(record, 'buyer_postcode', 'supplier_postcode', 'vendor_postcode'),
     buyer_subdivision: getValue(record, subdivisionKeys),
     buyer_electronic_address: getValue(record, electronicAddressKeys),
-    source_row_number: index + 2,
     upload_session_id: options.uploadSessionId,
     upload_manifest_id: options.uploadManifestId,
-  }));
+  };
 }
 
-export async function parseHeadersFile(file: File, options: ParseOptions = {}): Promise<InvoiceHeader[]> {
-  const text = await file.text();
-  const records = parseCSV(text);
+export async function parsePartiesFile(file: File, options: ParseOptions = {}): Promise<Buyer[]> {
+  return parseUploadFile(file, options, mapPartyRecord);
+}
+
+export function mapHeaderRecord(record: Record<string, string>, options: ParseOptions = {}): InvoiceHeader {
   const direction = options.direction || 'AR';
   const counterpartyIdKeys = direction === 'AP' ? ['supplier_id', 'vendor_id', 'buyer_id'] : ['buyer_id', 'customer_id', 'party_id'];
 
-  return records.map((record, index) => {
-    const invoicingPeriodStartDate = str(
-      record,
-      'invoicing_period_start_date',
-      'invoice_period_start_date',
-      'period_start_date'
-    );
-    const invoicingPeriodEndDate = str(
-      record,
-      'invoicing_period_end_date',
-      'invoice_period_end_date',
-      'period_end_date'
-    );
-    const deliverToAddressLine1 = str(
-      record,
-      'deliver_to_address_line_1',
-      'deliver_to_address',
-      'delivery_address_line_1'
-    );
-    const deliverToCity = str(record, 'deliver_to_city', 'delivery_city');
-    const deliverToCountrySubdivision = str(
-      record,
-      'deliver_to_country_subdivision',
-      'deliver_to_subdivision',
-      'delivery_country_subdivision'
-    );
-    const deliverToCountryCode = str(
-      record,
-      'deliver_to_country_code',
-      'deliver_to_country',
-      'delivery_country_code'
-    );
+  const invoicingPeriodStartDate = str(
+    record,
+    'invoicing_period_start_date',
+    'invoice_period_start_date',
+    'period_start_date'
+  );
+  const invoicingPeriodEndDate = str(
+    record,
+    'invoicing_period_end_date',
+    'invoice_period_end_date',
+    'period_end_date'
+  );
+  const deliverToAddressLine1 = str(
+    record,
+    'deliver_to_address_line_1',
+    'deliver_to_address',
+    'delivery_address_line_1'
+  );
+  const deliverToCity = str(record, 'deliver_to_city', 'delivery_city');
+  const deliverToCountrySubdivision = str(
+    record,
+    'deliver_to_country_subdivision',
+    'deliver_to_subdivision',
+    'delivery_country_subdivision'
+  );
+  const deliverToCountryCode = str(
+    record,
+    'deliver_to_country_code',
+    'deliver_to_country',
+    'delivery_country_code'
+  );
 
-    return {
-      invoice_id: record.invoice_id || '',
-      invoice_number: record.invoice_number || '',
-      issue_date: record.issue_date || '',
-      seller_trn: record.seller_trn || '',
-      buyer_id: getValue(record, counterpartyIdKeys) || '',
-      buyer_trn: str(record, 'buyer_trn'),
-      currency: record.currency || '',
-      direction,
-      invoice_type: str(record, 'invoice_type_code', 'invoice_type'),
-      total_excl_vat: num(record, 'total_excl_vat'),
-      vat_total: num(record, 'vat_total'),
-      total_incl_vat: num(record, 'total_incl_vat'),
-      seller_name: str(record, 'seller_name'),
-      seller_address: str(record, 'seller_address'),
-      seller_city: str(record, 'seller_city'),
-      seller_country: str(record, 'seller_country'),
-      seller_subdivision: str(record, 'seller_subdivision'),
-      seller_electronic_address: str(record, 'seller_electronic_address'),
-      seller_legal_reg_id: str(record, 'seller_legal_reg_id'),
-      seller_legal_reg_id_type: str(record, 'seller_legal_reg_id_type'),
-      transaction_type_code: str(record, 'transaction_type_code'),
-      principal_id: str(record, 'principal_id', 'principle_id', 'principal_identifier'),
-      invoicing_period_start_date: invoicingPeriodStartDate,
-      invoicing_period_end_date: invoicingPeriodEndDate,
-      invoicing_period: buildInvoicingPeriod(invoicingPeriodStartDate, invoicingPeriodEndDate),
-      deliver_to_address_line_1: deliverToAddressLine1,
-      deliver_to_city: deliverToCity,
-      deliver_to_country_subdivision: deliverToCountrySubdivision,
-      deliver_to_country_code: deliverToCountryCode,
-      delivery_information: buildDeliveryInformation(
-        deliverToAddressLine1,
-        deliverToCity,
-        deliverToCountrySubdivision,
-        deliverToCountryCode
-      ),
-      payment_due_date: str(record, 'payment_due_date', 'due_date'),
-      payment_means_code: str(record, 'payment_means_code'),
-      fx_rate: num(record, 'fx_rate'),
-      amount_due: num(record, 'amount_due'),
-      tax_category_code: str(record, 'tax_category_code'),
-      tax_category_rate: num(record, 'tax_category_rate'),
-      note: str(record, 'note'),
-      supply_date: str(record, 'supply_date'),
-      tax_currency: str(record, 'tax_currency'),
-      document_level_allowance_total: num(record, 'document_level_allowance_total'),
-      document_level_charge_total: num(record, 'document_level_charge_total'),
-      rounding_amount: num(record, 'rounding_amount'),
-      spec_id: str(record, 'spec_id', 'specification_id'),
-      business_process: str(record, 'business_process', 'business_process_type'),
-      source_row_number: index + 2,
-      upload_session_id: options.uploadSessionId,
-      upload_manifest_id: options.uploadManifestId,
-    };
-  });
+  return {
+    invoice_id: record.invoice_id || '',
+    invoice_number: record.invoice_number || '',
+    issue_date: record.issue_date || '',
+    seller_trn: record.seller_trn || '',
+    buyer_id: getValue(record, counterpartyIdKeys) || '',
+    buyer_trn: str(record, 'buyer_trn'),
+    currency: record.currency || '',
+    direction,
+    invoice_type: str(record, 'invoice_type_code', 'invoice_type'),
+    total_excl_vat: num(record, 'total_excl_vat'),
+    vat_total: num(record, 'vat_total'),
+    total_incl_vat: num(record, 'total_incl_vat'),
+    seller_name: str(record, 'seller_name'),
+    seller_address: str(record, 'seller_address'),
+    seller_city: str(record, 'seller_city'),
+    seller_country: str(record, 'seller_country'),
+    seller_subdivision: str(record, 'seller_subdivision'),
+    seller_electronic_address: str(record, 'seller_electronic_address'),
+    seller_legal_reg_id: str(record, 'seller_legal_reg_id'),
+    seller_legal_reg_id_type: str(record, 'seller_legal_reg_id_type'),
+    transaction_type_code: str(record, 'transaction_type_code'),
+    principal_id: str(record, 'principal_id', 'principle_id', 'principal_identifier'),
+    invoicing_period_start_date: invoicingPeriodStartDate,
+    invoicing_period_end_date: invoicingPeriodEndDate,
+    invoicing_period: buildInvoicingPeriod(invoicingPeriodStartDate, invoicingPeriodEndDate),
+    deliver_to_address_line_1: deliverToAddressLine1,
+    deliver_to_city: deliverToCity,
+    deliver_to_country_subdivision: deliverToCountrySubdivision,
+    deliver_to_country_code: deliverToCountryCode,
+    delivery_information: buildDeliveryInformation(
+      deliverToAddressLine1,
+      deliverToCity,
+      deliverToCountrySubdivision,
+      deliverToCountryCode
+    ),
+    payment_due_date: str(record, 'payment_due_date', 'due_date'),
+    payment_means_code: str(record, 'payment_means_code'),
+    fx_rate: num(record, 'fx_rate'),
+    amount_due: num(record, 'amount_due'),
+    tax_category_code: str(record, 'tax_category_code'),
+    tax_category_rate: num(record, 'tax_category_rate'),
+    note: str(record, 'note'),
+    supply_date: str(record, 'supply_date'),
+    tax_currency: str(record, 'tax_currency'),
+    document_level_allowance_total: num(record, 'document_level_allowance_total'),
+    document_level_charge_total: num(record, 'document_level_charge_total'),
+    rounding_amount: num(record, 'rounding_amount'),
+    spec_id: str(record, 'spec_id', 'specification_id'),
+    business_process: str(record, 'business_process', 'business_process_type'),
+    upload_session_id: options.uploadSessionId,
+    upload_manifest_id: options.uploadManifestId,
+  };
 }
 
-export async function parseLinesFile(file: File, options: ParseOptions = {}): Promise<InvoiceLine[]> {
-  const text = await file.text();
-  const records = parseCSV(text);
+export async function parseHeadersFile(file: File, options: ParseOptions = {}): Promise<InvoiceHeader[]> {
+  return parseUploadFile(file, options, mapHeaderRecord);
+}
 
-  return records.map((record, index) => ({
+export function mapLineRecord(record: Record<string, string>, options: ParseOptions = {}): InvoiceLine {
+  return {
     line_id: record.line_id || '',
     invoice_id: record.invoice_id || '',
     line_number: parseInt(record.line_number) || 0,
@@ -272,8 +260,11 @@ export async function parseLinesFile(file: File, options: ParseOptions = {}): Pr
     goods_service_type: str(record, 'goods_service_type', 'reverse_charge_goods_type'),
     line_allowance_amount: num(record, 'line_allowance_amount'),
     line_charge_amount: num(record, 'line_charge_amount'),
-    source_row_number: index + 2,
     upload_session_id: options.uploadSessionId,
     upload_manifest_id: options.uploadManifestId,
-  }));
+  };
+}
+
+export async function parseLinesFile(file: File, options: ParseOptions = {}): Promise<InvoiceLine[]> {
+  return parseUploadFile(file, options, mapLineRecord);
 }
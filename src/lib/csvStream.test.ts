@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { detectCSVDelimiter, detectCSVEncoding, parseCSVFile, parseCSVText } from '@/lib/csvStream';
+
+function buildStreamFile(chunks: Uint8Array[]): File {
+  return {
+    size: chunks.reduce((sum, chunk) => sum + chunk.length, 0),
+    stream: () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach((chunk) => controller.enqueue(chunk));
+          controller.close();
+        },
+      }),
+  } as unknown as File;
+}
+
+function encodeUtf16le(text: string, withBom: boolean): Uint8Array {
+  const bytes = new Uint8Array((text.length + (withBom ? 1 : 0)) * 2);
+  let offset = 0;
+  if (withBom) {
+    bytes.set([0xff, 0xfe]);
+    offset = 2;
+  }
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[offset + i * 2] = code & 0xff;
+    bytes[offset + i * 2 + 1] = code >> 8;
+  }
+  return bytes;
+}
+
+describe('csvStream', () => {
+  it('keeps quoted fields with embedded newlines, delimiters and escaped quotes', () => {
+    const text = [
+      'invoice_id,note,seller_address',
+      'INV-1,"Deliver to gate 3,',
+      'after 5pm","Office 12',
+      'Sheikh Zayed Rd"',
+      'INV-2,"Said ""urgent""",Dubai',
+    ].join('\r\n');
+
+    const result = parseCSVText(text);
+
+    expect(result.records).toEqual([
+      { invoice_id: 'INV-1', note: 'Deliver to gate 3,\nafter 5pm', seller_address: 'Office 12\nSheikh Zayed Rd' },
+      { invoice_id: 'INV-2', note: 'Said "urgent"', seller_address: 'Dubai' },
+    ]);
+    expect(result.recordLines).toEqual([2, 5]);
+    expect(result.rejectedRows).toEqual([]);
+  });
+
+  it('detects semicolon, tab and pipe delimiters from the header row', () => {
+    expect(detectCSVDelimiter('a;b;"c,d"\n1;2;3')).toBe(';');
+    expect(detectCSVDelimiter('a\tb\tc\n')).toBe('\t');
+    expect(detectCSVDelimiter('\na|b|c')).toBe('|');
+    expect(detectCSVDelimiter('single_column\nvalue')).toBe(',');
+
+    const result = parseCSVText('buyer_id;buyer_name\nB1;"Acme; LLC"\n');
+    expect(result.delimiter).toBe(';');
+    expect(result.records).toEqual([{ buyer_id: 'B1', buyer_name: 'Acme; LLC' }]);
+  });
+
+  it('reports every rejected row with its starting line and reason', () => {
+    const text = ['id,name,city', '1,Alpha,Dubai', '2,Beta', '', '3,Gamma,Sharjah,extra', '4,Delta,Ajman,,', '5,"Open quote,Dubai'].join('\n');
+
+    const result = parseCSVText(text);
+
+    expect(result.records.map((record) => record.id)).toEqual(['1', '4']);
+    expect(result.recordLines).toEqual([2, 6]);
+    expect(result.rejectedRows).toEqual([
+      { line: 3, reason: 'Expected 3 fields but found 2' },
+      { line: 5, reason: 'Expected 3 fields but found 4' },
+      { line: 7, reason: 'Unterminated quoted field; the row runs to the end of the file' },
+    ]);
+  });
+
+  it('decodes UTF-16 and Windows-1256 uploads', async () => {
+    const utf16 = encodeUtf16le('buyer_id,buyer_name\nB1,شركة\n', true);
+    expect(detectCSVEncoding(utf16)).toBe('utf-16le');
+    expect(detectCSVEncoding(encodeUtf16le('buyer_id,buyer_name\n', false))).toBe('utf-16le');
+
+    const utf16Result = await parseCSVFile(buildStreamFile([utf16]));
+    expect(utf16Result.encoding).toBe('utf-16le');
+    expect(utf16Result.records).toEqual([{ buyer_id: 'B1', buyer_name: 'شركة' }]);
+
+    // "شركة" in Windows-1256 is D4 D1 DF C9, which is not valid UTF-8.
+    const cp1256 = new Uint8Array([...new TextEncoder().encode('buyer_id,buyer_name\nB1,'), 0xd4, 0xd1, 0xdf, 0xc9, 0x0a]);
+    const cp1256Result = await parseCSVFile(buildStreamFile([cp1256]));
+    expect(cp1256Result.encoding).toBe('windows-1256');
+    expect(cp1256Result.records).toEqual([{ buyer_id: 'B1', buyer_name: 'شركة' }]);
+
+    // Windows-1256 text that only starts well past the sniffed sample, in a later chunk.
+    const asciiRows = new TextEncoder().encode('buyer_id,buyer_name\n' + 'B0,Plain\n'.repeat(1000));
+    const lateArabic = new Uint8Array([...new TextEncoder().encode('B1,'), 0xd4, 0xd1, 0xdf, 0xc9, 0x0a]);
+    const lateResult = await parseCSVFile(buildStreamFile([asciiRows, lateArabic]));
+    expect(lateResult.encoding).toBe('windows-1256');
+    expect(lateResult.records).toHaveLength(1001);
+    expect(lateResult.records[1000]).toEqual({ buyer_id: 'B1', buyer_name: 'شركة' });
+  });
+
+  it('parses identically when quotes, CRLFs and multibyte characters straddle chunk boundaries', async () => {
+    const text = '\uFEFFid,note\r\n1,"a ""quoted""\r\nnote"\r\n2,مرحبا\r\n';
+    const bytes = new TextEncoder().encode(text);
+    const chunks = Array.from(bytes, (byte) => new Uint8Array([byte]));
+    const progress: number[] = [];
+
+    const result = await parseCSVFile(buildStreamFile(chunks), {
+      onProgress: ({ bytesRead }) => progress.push(bytesRead),
+    });
+
+    expect(result.records).toEqual(parseCSVText(text).records);
+    expect(result.records).toEqual([
+      { id: '1', note: 'a "quoted"\nnote' },
+      { id: '2', note: 'مرحبا' },
+    ]);
+    expect(result.recordLines).toEqual([2, 4]);
+    expect(progress[progress.length - 1]).toBe(bytes.length);
+  });
+});
@@ -0,0 +1,351 @@
+// =============================================================================
+// CSV Stream - RFC 4180 record reader for customer uploads
+// Parses chunk by chunk so quoted fields may span lines and chunk boundaries.
+// Detects the text encoding (UTF-8, UTF-16, Windows-1256) and the delimiter,
+// and reports every row it cannot use with the physical line it started on.
+// =============================================================================
+
+export type CSVDelimiter = ',' | ';' | '\t' | '|';
+
+export interface CSVRejectedRow {
+  line: number;
+  reason: string;
+}
+
+export interface CSVParseOptions {
+  delimiter?: CSVDelimiter;
+  encoding?: string;
+}
+
+export interface CSVFileParseOptions extends CSVParseOptions {
+  onProgress?: (progress: CSVParseProgress) => void;
+}
+
+export interface CSVParseProgress {
+  bytesRead: number;
+  totalBytes: number;
+  recordCount: number;
+}
+
+export interface CSVParseResult {
+  headers: string[];
+  records: Record<string, string>[];
+  /** Physical line (1-based) on which each record starts, parallel to `records`. */
+  recordLines: number[];
+  rejectedRows: CSVRejectedRow[];
+  delimiter: CSVDelimiter;
+  encoding: string;
+}
+
+export const CSV_DELIMITERS: CSVDelimiter[] = [',', ';', '\t', '|'];
+
+export const CSV_DELIMITER_LABELS: Record<CSVDelimiter, string> = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab',
+  '|': 'pipe',
+};
+
+const FILE_SLICE_SIZE = 1024 * 1024;
+const MAX_BLOCKING_MS = 50;
+
+/**
+ * Guess the encoding from the leading bytes: BOMs first, then the NUL-byte pattern of
+ * BOM-less UTF-16, then strict UTF-8. Anything that is not valid UTF-8 is treated as
+ * Windows-1256, the usual export encoding of Arabic-locale ERPs. Only the start of the file
+ * is sampled; parseCSVFile re-reads a file as Windows-1256 if invalid UTF-8 shows up later.
+ */
+export function detectCSVEncoding(bytes: Uint8Array): string {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+  const sample = bytes.subarray(0, Math.min(bytes.length, 4096));
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) evenNuls++;
+      else oddNuls++;
+    }
+  }
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs > 0 && oddNuls / pairs > 0.3 && evenNuls < oddNuls / 4) return 'utf-16le';
+  if (pairs > 0 && evenNuls / pairs > 0.3 && oddNuls < evenNuls / 4) return 'utf-16be';
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1256';
+  }
+}
+
+/** Picks the candidate delimiter that occurs most often, outside quotes, on the first line. */
+export function detectCSVDelimiter(text: string): CSVDelimiter {
+  const counts = new Map<CSVDelimiter, number>(CSV_DELIMITERS.map((delimiter) => [delimiter, 0]));
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === '\n' || char === '\r')) {
+      if (Array.from(counts.values()).some((count) => count > 0)) break;
+    } else if (!inQuotes && counts.has(char as CSVDelimiter)) {
+      counts.set(char as CSVDelimiter, counts.get(char as CSVDelimiter)! + 1);
+    }
+  }
+
+  return CSV_DELIMITERS.reduce((best, delimiter) => (counts.get(delimiter)! > counts.get(best)! ? delimiter : best), ',');
+}
+
+type RowHandler = (fields: string[], line: number) => void;
+
+function createTokenizer(delimiter: CSVDelimiter, onRow: RowHandler, onReject: (row: CSVRejectedRow) => void) {
+  let field = '';
+  let row: string[] = [];
+  let inQuotes = false;
+  let fieldQuoted = false;
+  let quoteJustClosed = false;
+  let afterCR = false;
+  let line = 1;
+  let rowStartLine = 1;
+
+  const endField = () => {
+    const value = field.includes('\r') ? field.replace(/\r\n?/g, '\n') : field;
+    row.push(value.trim());
+    field = '';
+    fieldQuoted = false;
+  };
+
+  const endRow = () => {
+    endField();
+    const isBlank = row.length === 1 && row[0] === '';
+    if (!isBlank) onRow(row, rowStartLine);
+    row = [];
+  };
+
+  return {
+    push(chunk: string) {
+      for (let i = 0; i < chunk.length; i++) {
+        const char = chunk[i];
+        const wasCR = afterCR;
+        afterCR = false;
+
+        if (inQuotes) {
+          if (char === '"') {
+            inQuotes = false;
+            quoteJustClosed = true;
+          } else {
+            if (char === '\n') line++;
+            field += char;
+          }
+          continue;
+        }
+
+        if (quoteJustClosed) {
+          quoteJustClosed = false;
+          if (char === '"') {
+            field += '"';
+            inQuotes = true;
+            continue;
+          }
+        }
+
+        if (char === delimiter) {
+          endField();
+        } else if (char === '\n') {
+          if (!wasCR) {
+            endRow();
+            line++;
+            rowStartLine = line;
+          }
+        } else if (char === '\r') {
+          endRow();
+          line++;
+          rowStartLine = line;
+          afterCR = true;
+        } else if (char === '"' && !fieldQuoted && field.trim() === '') {
+          field = '';
+          inQuotes = true;
+          fieldQuoted = true;
+        } else if (!fieldQuoted || char.trim() !== '') {
+          // Lenient: stray quotes in unquoted fields and text after a closing quote are kept.
+          field += char;
+        }
+      }
+    },
+    end() {
+      if (inQuotes) {
+        onReject({ line: rowStartLine, reason: 'Unterminated quoted field; the row runs to the end of the file' });
+        return;
+      }
+      if (field !== '' || row.length > 0 || fieldQuoted) endRow();
+    },
+  };
+}
+
+function createParseSession(options: CSVParseOptions) {
+  const records: Record<string, string>[] = [];
+  const recordLines: number[] = [];
+  const rejectedRows: CSVRejectedRow[] = [];
+  let headers: string[] | null = null;
+  let encoding = options.encoding;
+  let delimiter = options.delimiter;
+  let decoder: TextDecoder | null = null;
+  // Set when a file sniffed as UTF-8 later proves not to be; the caller must start over.
+  let invalidUTF8 = false;
+  let tokenizer: ReturnType<typeof createTokenizer> | null = null;
+  let pending = '';
+  let started = false;
+
+  const handleRow: RowHandler = (fields, line) => {
+    if (!headers) {
+      headers = fields.map((header) => header.trim());
+      return;
+    }
+    let values = fields;
+    if (values.length > headers.length && values.slice(headers.length).every((value) => value === '')) {
+      values = values.slice(0, headers.length);
+    }
+    if (values.length !== headers.length) {
+      rejectedRows.push({ line, reason: `Expected ${headers.length} fields but found ${values.length}` });
+      return;
+    }
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      record[header] = values[index];
+    });
+    records.push(record);
+    recordLines.push(line);
+  };
+
+  const feed = (text: string, final: boolean) => {
+    if (!tokenizer) {
+      pending += text;
+      if (!final && !/[\r\n]/.test(pending)) return;
+      if (!started) {
+        pending = pending.replace(/^\uFEFF/, '');
+        started = true;
+      }
+      delimiter = delimiter ?? detectCSVDelimiter(pending);
+      tokenizer = createTokenizer(delimiter, handleRow, (row) => rejectedRows.push(row));
+      text = pending;
+      pending = '';
+    }
+    tokenizer.push(text);
+  };
+
+  return {
+    write(chunk: Uint8Array | string) {
+      if (typeof chunk === 'string') {
+        encoding = encoding ?? 'utf-8';
+        feed(chunk, false);
+        return;
+      }
+      if (invalidUTF8) return;
+      if (!decoder) {
+        const sniffed = !encoding && !(chunk[0] === 0xef && chunk[1] === 0xbb && chunk[2] === 0xbf);
+        encoding = encoding ?? detectCSVEncoding(chunk);
+        decoder = new TextDecoder(encoding, { fatal: sniffed && encoding === 'utf-8' });
+      }
+      let text: string;
+      try {
+        text = decoder.decode(chunk, { stream: true });
+      } catch {
+        invalidUTF8 = true;
+        return;
+      }
+      feed(text, false);
+    },
+    get recordCount() {
+      return records.length;
+    },
+    get invalidUTF8() {
+      return invalidUTF8;
+    },
+    finish(): CSVParseResult {
+      let tail = '';
+      try {
+        tail = decoder && !invalidUTF8 ? decoder.decode() : '';
+      } catch {
+        invalidUTF8 = true;
+      }
+      feed(tail, true);
+      tokenizer?.end();
+      return {
+        headers: headers ?? [],
+        records,
+        recordLines,
+        rejectedRows,
+        delimiter: delimiter ?? ',',
+        encoding: encoding ?? 'utf-8',
+      };
+    },
+  };
+}
+
+/** Parses CSV text that is already in memory. */
+export function parseCSVText(text: string, options: CSVParseOptions = {}): CSVParseResult {
+  const session = createParseSession(options);
+  session.write(text);
+  return session.finish();
+}
+
+type FileSource = Pick<File, 'size'> & Partial<Pick<File, 'stream' | 'arrayBuffer' | 'text'>>;
+
+async function* readFileChunks(file: FileSource): AsyncGenerator<Uint8Array | string> {
+  if (typeof file.stream === 'function') {
+    const reader = file.stream().getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      yield value;
+    }
+  }
+  if (typeof file.arrayBuffer === 'function') {
+    const bytes = new Uint8Array(await file.arrayBuffer());
+    for (let offset = 0; offset < bytes.length; offset += FILE_SLICE_SIZE) {
+      yield bytes.subarray(offset, offset + FILE_SLICE_SIZE);
+    }
+    return;
+  }
+  if (typeof file.text === 'function') {
+    const text = await file.text();
+    for (let offset = 0; offset < text.length; offset += FILE_SLICE_SIZE) {
+      yield text.slice(offset, offset + FILE_SLICE_SIZE);
+    }
+    return;
+  }
+  throw new Error('File cannot be read: no stream(), arrayBuffer() or text() available');
+}
+
+const yieldToEventLoop = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+/**
+ * Streams a file through the parser, handing control back to the event loop whenever a
+ * slice has blocked for too long so large uploads keep the tab responsive. A file that looked
+ * like UTF-8 but has an invalid sequence further in is parsed again from the start as
+ * Windows-1256, so late Arabic text is not decoded into replacement characters.
+ */
+export async function parseCSVFile(file: FileSource, options: CSVFileParseOptions = {}): Promise<CSVParseResult> {
+  const session = createParseSession(options);
+  let bytesRead = 0;
+  let sliceStartedAt = Date.now();
+
+  for await (const chunk of readFileChunks(file)) {
+    session.write(chunk);
+    if (session.invalidUTF8) break;
+    bytesRead += chunk.length;
+    options.onProgress?.({ bytesRead, totalBytes: file.size, recordCount: session.recordCount });
+    if (Date.now() - sliceStartedAt > MAX_BLOCKING_MS) {
+      await yieldToEventLoop();
+      sliceStartedAt = Date.now();
+    }
+  }
+
+  const result = session.finish();
+  if (session.invalidUTF8) return parseCSVFile(file, { ...options, encoding: 'windows-1256' });
+  return result;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import { approvalsForRun } from '@/lib/evidence/evidenceDataBuilder';
+import { ApprovalRequest } from '@/types/approvals';
+import { PintAEException } from '@/types/pintAE';
+
+const RUN_AT = '2026-03-14T10:00:00.000Z';
+
+function approval(id: string, overrides: Partial<ApprovalRequest> = {}): ApprovalRequest {
+  return {
+    id,
+    kind: 'check.disable',
+    entityType: 'custom_check',
+    entityId: 'check-1',
+    entityLabel: 'Fuzzy duplicates',
+    payload: {},
+    reasonCode: null,
+    justification: 'Too noisy',
+    status: 'approved',
+    requestedBy: { id: null, name: 'Aisha' },
+    requestedAt: '2026-03-01T09:00:00.000Z',
+    decidedBy: { id: null, name: 'Omar' },
+    decidedAt: '2026-03-02T09:00:00.000Z',
+    decisionComment: null,
+    ...overrides,
+  };
+}
+
+const exception = {
+  id: 'exc-1',
+  check_id: 'UAE-UC1-CHK-018',
+  invoice_id: 'INV-1',
+  invoice_number: 'INV-10411',
+  field_name: 'buyer_trn',
+} as PintAEException;
+
+describe('approvalsForRun', () => {
+  it('keeps waivers of the run findings and changes decided by the time it ran', () => {
+    const approvals = [
+      approval('waiver-of-run-finding', {
+        kind: 'exception.waive',
+        entityType: 'exception',
+        entityId: 'EXC-10411',
+        payload: { fingerprint: 'uae-uc1-chk-018|inv-10411|buyer_trn' },
+        decidedAt: '2026-03-20T09:00:00.000Z',
+      }),
+      approval('waiver-of-other-finding', {
+        kind: 'exception.waive',
+        entityType: 'exception',
+        entityId: 'EXC-2',
+        payload: { fingerprint: 'uae-uc1-chk-018|inv-2|buyer_trn' },
+      }),
+      approval('disable-before-run'),
+      approval('activate-after-run', { kind: 'template.activate', decidedAt: '2026-03-15T09:00:00.000Z' }),
+      approval('pending-change', { status: 'pending', decidedBy: null, decidedAt: null }),
+    ];
+
+    expect(approvalsForRun(approvals, [exception], RUN_AT).map((request) => request.id)).toEqual([
+      'waiver-of-run-finding',
+      'disable-before-run',
+    ]);
+  });
+});
@@ -16,6 +16,11 @@ import { UAE_UC1_CHECK_PACK } from '@/lib/checks/uaeUC1CheckPack';
 import { getFailureClassForRule } from '@/lib/validation/pintAERuleMetadata';
 import { EvidenceRuleExecutionTelemetryRow } from '@/types/evidence';
 import { checksRegistry } from '@/lib/checks/checksRegistry';
+import { APPROVAL_KIND_LABELS, ApprovalRequest } from '@/types/approvals';
+import { RESOLUTION_REASON_CODE_LABELS } from '@/types/direction';
+import { pintExceptionFingerprint } from '@/lib/exceptions/findingFingerprint';
+import { findingFingerprint } from '@/lib/exceptions/exceptionWorkflow';
+import { FINDING_LINEAGE_LABELS, FindingLineageStatus, RunComparison } from '@/types/runLineage';
 
 export interface EvidencePackBuildOverrides {
   datasetName?: string;
@@ -23,6 +28,9 @@ export interface EvidencePackBuildOverrides {
   totalBuyers?: number;
   totalLines?: number;
   executionTelemetry?: EvidenceRuleExecutionTelemetryRow[];
+  approvals?: ApprovalRequest[];
+  // Comparison of this run with the previous one; ignored when it belongs to another run.
+  runComparison?: RunComparison | null;
 }
 
 // ── Tab A: Overview ──────────────────────────────────────────────────
@@ -89,6 +97,7 @@ export interface ExceptionRow {
   exception_status: string;
   case_id: string;
   case_status: string;
+  lineage_status: string;
 }
 
 // ── Tab E: Controls Coverage ─────────────────────────────────────────
@@ -101,6 +110,39 @@ export interface ControlCoverageRow {
   linked_exception_count: number;
 }
 
+// Maker-checker evidence, reported alongside the controls.
+export interface ApprovalEvidenceRow {
+  approval_id: string;
+  change: string;
+  target: string;
+  reason_code: string;
+  justification: string;
+  requested_by: string;
+  requested_at: string;
+  status: string;
+  decided_by: string;
+  decided_at: string;
+  decision_comment: string;
+}
+
+// Run-over-run lineage, reported alongside the exceptions. Rows include findings resolved
+// since the previous run, which have no exception row of their own.
+export interface RunLineageEvidence {
+  previous_run_id: string;
+  previous_run_date: string;
+  counts: Record<FindingLineageStatus, number>;
+  rows: {
+    fingerprint: string;
+    lineage_status: string;
+    check_id: string;
+    check_name: string;
+    severity: string;
+    invoice_number: string;
+    field: string;
+    occurrences: number;
+  }[];
+}
+
 // ── Tab F: Data Quality & Population ─────────────────────────────────
 export interface PopulationQualityRow {
   dr_id: string;
@@ -118,6 +160,8 @@ export interface EvidencePackData {
   ruleExecution: RuleExecutionRow[];
   exceptions: ExceptionRow[];
   controlsCoverage: ControlCoverageRow[];
+  approvalEvidence: ApprovalEvidenceRow[];
+  runLineage: RunLineageEvidence | null;
   populationQuality: PopulationQualityRow[];
   traceabilityRows: TraceabilityRow[];
 }
@@ -171,6 +215,30 @@ function buildSupplementalRuleCatalog(): Map<string, EvidenceRuleCatalogEntry> {
   return catalog;
 }
 
+/**
+ * The approvals that bear on a run: waivers of its findings, whenever decided, and check or
+ * template changes decided by the time it ran.
+ */
+export function approvalsForRun(
+  approvals: ApprovalRequest[],
+  exceptions: PintAEException[],
+  runTimestamp: string
+): ApprovalRequest[] {
+  const exceptionIds = new Set(exceptions.map((e) => e.id));
+  const fingerprints = new Set(
+    exceptions.map((e) =>
+      findingFingerprint({ checkId: e.check_id, invoiceNumber: e.invoice_number, invoiceId: e.invoice_id, field: e.field_name })
+    )
+  );
+  const runTime = Date.parse(runTimestamp);
+  return approvals.filter((request) => {
+    if (request.kind === 'exception.waive') {
+      return exceptionIds.has(request.entityId) || fingerprints.has(String(request.payload.fingerprint ?? ''));
+    }
+    return Boolean(request.decidedAt) && Date.parse(request.decidedAt!) <= runTime;
+  });
+}
+
 export function buildEvidencePackData(
   runId: string,
   runTimestamp: string,
@@ -307,6 +375,8 @@ export function buildEvidencePackData(
   }
 
   // ── Tab D ──
+  const comparison = overrides.runComparison?.runId === runId ? overrides.runComparison : null;
+  const lineageByFingerprint = new Map(comparison?.entries.map((entry) => [entry.fingerprint, entry.status]));
   const exceptions: ExceptionRow[] = pintAEExceptions.map(e => {
     const check = checkMap.get(e.check_id);
     const ruleType = e.rule_type ?? check?.rule_type ?? '';
@@ -328,9 +398,31 @@ export function buildEvidencePackData(
       exception_status: e.case_status,
       case_id: e.case_id ?? '',
       case_status: e.case_status,
+      lineage_status: (() => {
+        const status = lineageByFingerprint.get(pintExceptionFingerprint(e));
+        return status ? FINDING_LINEAGE_LABELS[status] : '';
+      })(),
     };
   });
 
+  const runLineage: RunLineageEvidence | null = comparison
+    ? {
+        previous_run_id: comparison.previousRunId ?? '',
+        previous_run_date: comparison.previousRunDate ?? '',
+        counts: comparison.counts,
+        rows: comparison.entries.map((entry) => ({
+          fingerprint: entry.fingerprint,
+          lineage_status: FINDING_LINEAGE_LABELS[entry.status],
+          check_id: entry.checkId,
+          check_name: entry.checkName,
+          severity: entry.severity,
+          invoice_number: entry.invoiceNumber ?? '',
+          field: entry.field ?? '',
+          occurrences: entry.occurrences,
+        })),
+      }
+    : null;
+
   // ── Tab E ──
   const ruleExcCounts = new Map<string, number>();
   for (const exc of pintAEExceptions) {
@@ -350,6 +442,21 @@ export function buildEvidencePackData(
     };
   });
 
+  const runApprovals = approvalsForRun(overrides.approvals ?? [], pintAEExceptions, runTimestamp);
+  const approvalEvidence: ApprovalEvidenceRow[] = runApprovals.map((request) => ({
+    approval_id: request.id,
+    change: APPROVAL_KIND_LABELS[request.kind],
+    target: request.entityLabel,
+    reason_code: request.reasonCode ? RESOLUTION_REASON_CODE_LABELS[request.reasonCode] : '',
+    justification: request.justification,
+    requested_by: request.requestedBy.name,
+    requested_at: request.requestedAt,
+    status: request.status,
+    decided_by: request.decidedBy?.name ?? '',
+    decided_at: request.decidedAt ?? '',
+    decision_comment: request.decisionComment ?? '',
+  }));
+
   // ── Tab F ──
   const threshold = CONFORMANCE_CONFIG.populationWarningThreshold;
   const populationQuality: PopulationQualityRow[] = traceRows.map(r => {
@@ -379,6 +486,8 @@ export function buildEvidencePackData(
     ruleExecution,
     exceptions,
     controlsCoverage,
+    approvalEvidence,
+    runLineage,
     populationQuality,
     traceabilityRows: traceRows,
   };
@@ -113,11 +113,29 @@ export async function generateEvidencePackZip(data: EvidencePackData): Promise<B
     'Exception Status': e.exception_status,
     'Case ID': e.case_id,
     'Case Status': e.case_status,
+    'Lineage': e.lineage_status,
   }));
-  zip.file('04_exceptions_and_cases.xlsx', workbookToBuffer(createWorkbook(
-    excRows.length > 0 ? excRows : [{ 'Exception ID': '', 'DR ID': '', 'Rule ID': '', 'Rule Type': '', 'Execution Layer': '', 'Failure Class': '', 'Record Reference': '', 'Severity': '', 'Message': 'No exceptions', 'Exception Status': '', 'Case ID': '', 'Case Status': '' }],
+  const exceptionsWorkbook = createWorkbook(
+    excRows.length > 0 ? excRows : [{ 'Exception ID': '', 'DR ID': '', 'Rule ID': '', 'Rule Type': '', 'Execution Layer': '', 'Failure Class': '', 'Record Reference': '', 'Severity': '', 'Message': 'No exceptions', 'Exception Status': '', 'Case ID': '', 'Case Status': '', 'Lineage': '' }],
     'Exceptions'
-  )));
+  );
+  const lineageRows = (data.runLineage?.rows ?? []).map(l => ({
+    'Fingerprint': l.fingerprint,
+    'Lineage': l.lineage_status,
+    'Check ID': l.check_id,
+    'Check Name': l.check_name,
+    'Severity': l.severity,
+    'Invoice Number': l.invoice_number,
+    'Field': l.field,
+    'Occurrences': l.occurrences,
+    'Previous Run ID': data.runLineage?.previous_run_id ?? '',
+  }));
+  XLSX.utils.book_append_sheet(
+    exceptionsWorkbook,
+    XLSX.utils.json_to_sheet(lineageRows.length > 0 ? lineageRows : [{ 'Fingerprint': '', 'Lineage': data.runLineage ? 'No findings in either run' : 'No run comparison available' }]),
+    'Run Lineage'
+  );
+  zip.file('04_exceptions_and_cases.xlsx', workbookToBuffer(exceptionsWorkbook));
 
   // 05_controls_mapping.xlsx
   const ctrlRows = data.controlsCoverage.map(c => ({
@@ -128,7 +146,26 @@ export async function generateEvidencePackZip(data: EvidencePackData): Promise<B
     'Covered DR IDs': c.covered_dr_ids,
     'Linked Exceptions': c.linked_exception_count,
   }));
-  zip.file('05_controls_mapping.xlsx', workbookToBuffer(createWorkbook(ctrlRows, 'Controls')));
+  const controlsWorkbook = createWorkbook(ctrlRows, 'Controls');
+  const approvalRows = data.approvalEvidence.map(a => ({
+    'Approval ID': a.approval_id,
+    'Change': a.change,
+    'Target': a.target,
+    'Reason Code': a.reason_code,
+    'Justification': a.justification,
+    'Requested By': a.requested_by,
+    'Requested At': a.requested_at,
+    'Status': a.status,
+    'Decided By': a.decided_by,
+    'Decided At': a.decided_at,
+    'Decision Comment': a.decision_comment,
+  }));
+  XLSX.utils.book_append_sheet(
+    controlsWorkbook,
+    XLSX.utils.json_to_sheet(approvalRows.length > 0 ? approvalRows : [{ 'Approval ID': '', 'Change': 'No approval requests' }]),
+    'Approvals'
+  );
+  zip.file('05_controls_mapping.xlsx', workbookToBuffer(controlsWorkbook));
 
   // 06_population_quality.xlsx
   const popRows = data.populationQuality.map(p => ({
@@ -290,7 +327,7 @@ export async function generateEvidencePackPdf(data: EvidencePackData): Promise<B
   sectionTitle('Top Exceptions (first 100)', afterRulesY);
   autoTable(doc, {
     startY: afterRulesY + 8,
-    head: [['Exception ID', 'DR ID', 'Rule ID', 'Type', 'Layer', 'Severity', 'Status']],
+    head: [['Exception ID', 'DR ID', 'Rule ID', 'Type', 'Layer', 'Severity', 'Status', 'Lineage']],
     body: data.exceptions.slice(0, 100).map((e) => [
       e.exception_id.slice(0, 8),
       e.dr_id,
@@ -299,6 +336,7 @@ export async function generateEvidencePackPdf(data: EvidencePackData): Promise<B
       e.execution_layer,
       e.severity,
       e.exception_status,
+      e.lineage_status || '-',
     ]),
     theme: 'grid',
     styles: { fontSize: 8, cellPadding: 4, overflow: 'linebreak' },
@@ -306,6 +344,27 @@ export async function generateEvidencePackPdf(data: EvidencePackData): Promise<B
     margin: { left: marginX, right: marginX },
   });
 
+  if (data.runLineage) {
+    const lineage = data.runLineage;
+    const lineageY = (doc as any).lastAutoTable.finalY + 16;
+    sectionTitle('Run-over-Run Lineage', lineageY);
+    autoTable(doc, {
+      startY: lineageY + 8,
+      head: [['Compared With', 'New', 'Persisting', 'Resolved', 'Regressed']],
+      body: [[
+        lineage.previous_run_id ? `${lineage.previous_run_id.slice(0, 8)} (${new Date(lineage.previous_run_date).toLocaleString()})` : 'No previous run',
+        String(lineage.counts.new),
+        String(lineage.counts.persisting),
+        String(lineage.counts.resolved),
+        String(lineage.counts.regressed),
+      ]],
+      theme: 'grid',
+      styles: { fontSize: 8, cellPadding: 4, overflow: 'linebreak' },
+      headStyles: { fillColor: [236, 243, 252], textColor: [24, 40, 72] },
+      margin: { left: marginX, right: marginX },
+    });
+  }
+
   doc.addPage();
   sectionTitle('Controls and Population Quality', 50);
   autoTable(doc, {
@@ -324,6 +383,27 @@ export async function generateEvidencePackPdf(data: EvidencePackData): Promise<B
     columnStyles: { 1: { cellWidth: 250 } },
   });
 
+  if (data.approvalEvidence.length > 0) {
+    const approvalsY = (doc as any).lastAutoTable.finalY + 16;
+    sectionTitle('Maker-Checker Approvals', approvalsY);
+    autoTable(doc, {
+      startY: approvalsY + 8,
+      head: [['Change', 'Target', 'Reason', 'Requested By', 'Status', 'Decided By']],
+      body: data.approvalEvidence.map((a) => [
+        a.change,
+        a.target,
+        a.reason_code || a.justification,
+        a.requested_by,
+        a.status,
+        a.decided_by || '-',
+      ]),
+      theme: 'grid',
+      styles: { fontSize: 8, cellPadding: 4, overflow: 'linebreak' },
+      headStyles: { fillColor: [236, 243, 252], textColor: [24, 40, 72] },
+      margin: { left: marginX, right: marginX },
+    });
+  }
+
   const afterControlsY = (doc as any).lastAutoTable.finalY + 16;
   sectionTitle('Population Quality', afterControlsY);
   autoTable(doc, {
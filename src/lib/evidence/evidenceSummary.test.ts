@@ -53,6 +53,7 @@ function buildEvidencePackData(overrides?: Partial<EvidencePackData>): EvidenceP
         exception_status: 'Open',
         case_id: '',
         case_status: 'Open',
+        lineage_status: '',
       },
       {
         exception_id: 'EXC-2',
@@ -67,9 +68,12 @@ function buildEvidencePackData(overrides?: Partial<EvidencePackData>): EvidenceP
         exception_status: 'Open',
         case_id: '',
         case_status: 'Open',
+        lineage_status: '',
       },
     ],
     controlsCoverage: [],
+    approvalEvidence: [],
+    runLineage: null,
     populationQuality: [],
     traceabilityRows: [],
     ...overrides,
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { clusterExceptions, observedValuePattern, summarizeClusters } from '@/lib/exceptions/exceptionClustering';
+import { Exception } from '@/types/compliance';
+
+function makeException(id: string, overrides: Partial<Exception> = {}): Exception {
+  return {
+    id,
+    checkId: 'UAE-CHK-021',
+    checkName: 'Seller electronic address present',
+    severity: 'High',
+    message: 'Seller electronic address is missing',
+    invoiceNumber: `INV-${id}`,
+    sellerTrn: '100234567800003',
+    buyerId: 'B-1',
+    field: 'seller_electronic_address',
+    uploadManifestId: 'manifest-1',
+    ...overrides,
+  };
+}
+
+describe('observedValuePattern', () => {
+  it('keeps the shape of a value and drops its specifics', () => {
+    expect(observedValuePattern('100234567800003')).toBe('9{15}');
+    expect(observedValuePattern('TRN-1234')).toBe('A{3}-9{4}');
+    expect(observedValuePattern('  ')).toBe('empty');
+    expect(observedValuePattern(undefined)).toBe('empty');
+  });
+});
+
+describe('clusterExceptions', () => {
+  it('groups one missing field across a seller\'s invoices into a single populate-at-source fix', () => {
+    const clusters = clusterExceptions([
+      makeException('1'),
+      makeException('2'),
+      makeException('3', { actualValue: '' }),
+      makeException('4', { sellerTrn: '100345678900003' }),
+    ]);
+
+    expect(clusters).toHaveLength(2);
+    expect(clusters[0]).toMatchObject({
+      partyRole: 'seller',
+      partyId: '100234567800003',
+      valuePattern: 'empty',
+      exceptionIds: ['1', '2', '3'],
+      invoiceNumbers: ['INV-1', 'INV-2', 'INV-3'],
+    });
+    expect(clusters[0].fix).toMatchObject({ kind: 'populate_source', exceptionsCleared: 3, invoicesCleared: 3 });
+  });
+
+  it('clusters buyer-side fields by buyer and separates uploads and value patterns', () => {
+    const buyerField = { field: 'buyer_trn', checkId: 'UAE-CHK-018', checkName: 'Buyer TRN format' };
+    const clusters = clusterExceptions([
+      makeException('1', { ...buyerField, actualValue: '10023456780000', sellerTrn: 'S-1' }),
+      makeException('2', { ...buyerField, actualValue: '10098765430000', sellerTrn: 'S-2' }),
+      makeException('3', { ...buyerField, actualValue: 'TRN1002', sellerTrn: 'S-1' }),
+      makeException('4', { ...buyerField, actualValue: '10023456780000', uploadManifestId: 'manifest-2' }),
+    ]);
+
+    expect(clusters).toHaveLength(3);
+    expect(clusters[0].exceptionIds).toEqual(['1', '2']);
+    expect(clusters[0]).toMatchObject({ partyRole: 'buyer', partyId: 'B-1', valuePattern: '9{14}' });
+    expect(clusters[0].fix.kind).toBe('fix_format');
+  });
+
+  it('proposes applying the value every finding expects', () => {
+    const [cluster] = clusterExceptions([
+      makeException('1', { field: 'currency_code', actualValue: 'AED ', expectedValue: 'AED' }),
+      makeException('2', { field: 'currency_code', actualValue: 'DHS ', expectedValue: 'AED' }),
+    ]);
+
+    expect(cluster.fix.kind).toBe('apply_value');
+    expect(cluster.fix.summary).toContain('"AED"');
+  });
+});
+
+describe('summarizeClusters', () => {
+  it('reports how much of the backlog the largest clusters cover', () => {
+    const clusters = clusterExceptions([
+      makeException('1'),
+      makeException('2'),
+      makeException('3', { checkId: 'UAE-CHK-031', field: 'vat_total' }),
+    ]);
+
+    expect(summarizeClusters(clusters, 1)).toEqual({ clusterCount: 2, exceptionCount: 3, topCount: 1, topCoverage: 2 });
+  });
+});
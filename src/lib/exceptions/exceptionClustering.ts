@@ -0,0 +1,157 @@
+import { Exception, Severity } from '@/types/compliance';
+import {
+  ClusterFixEstimate,
+  ClusterPartyRole,
+  ExceptionCluster,
+  ExceptionClusterSummary,
+} from '@/types/exceptionClusters';
+
+const SEVERITY_RANK: Record<Severity, number> = { Critical: 0, High: 1, Medium: 2, Low: 3 };
+const MAX_SAMPLE_VALUES = 3;
+
+export const EMPTY_VALUE_PATTERN = 'empty';
+
+/**
+ * The shape of an observed value with the specifics taken out: digits become 9, letters A or a,
+ * and runs are counted, so "100234567800003" and "100345678900003" both read "9{15}".
+ */
+export function observedValuePattern(value: string | number | null | undefined): string {
+  const text = value === null || value === undefined ? '' : String(value).trim();
+  if (!text) return EMPTY_VALUE_PATTERN;
+
+  const classes = Array.from(text, (char) =>
+    /[0-9]/.test(char) ? '9' : /[A-Z]/.test(char) ? 'A' : /[a-z]/.test(char) ? 'a' : /\s/.test(char) ? ' ' : char
+  );
+  let pattern = '';
+  let index = 0;
+  while (index < classes.length) {
+    let end = index;
+    while (end + 1 < classes.length && classes[end + 1] === classes[index]) end += 1;
+    const run = end - index + 1;
+    pattern += run > 1 ? `${classes[index]}{${run}}` : classes[index];
+    index = end + 1;
+  }
+  return pattern;
+}
+
+function partyFor(exception: Exception): { role: ClusterPartyRole; id: string | null } {
+  if (exception.field?.toLowerCase().startsWith('buyer')) return { role: 'buyer', id: exception.buyerId || null };
+  return { role: 'seller', id: exception.sellerTrn || null };
+}
+
+function clusterKey(exception: Exception, pattern: string): string {
+  const party = partyFor(exception);
+  return [
+    exception.checkId,
+    exception.field || '',
+    pattern,
+    `${party.role}:${party.id || ''}`,
+    exception.uploadManifestId || exception.uploadSessionId || '',
+  ]
+    .map((part) => part.trim().toLowerCase())
+    .join('|');
+}
+
+function describeScope(cluster: Omit<ExceptionCluster, 'fix'>): string {
+  const party = cluster.partyId ? `${cluster.partyRole} ${cluster.partyId}` : `every ${cluster.partyRole}`;
+  const source = cluster.sourceFileName || cluster.uploadManifestId;
+  return source ? `${party} in ${source}` : party;
+}
+
+/** The one change expected to clear the whole cluster, from what its findings have in common. */
+export function estimateClusterFix(cluster: Omit<ExceptionCluster, 'fix'>, expectedValues: string[]): ClusterFixEstimate {
+  const cleared = { exceptionsCleared: cluster.exceptionIds.length, invoicesCleared: cluster.invoiceNumbers.length };
+  const scope = describeScope(cluster);
+
+  if (!cluster.field) {
+    return { kind: 'review_rule', summary: `Review how ${cluster.checkName} applies to ${scope}.`, ...cleared };
+  }
+  if (cluster.valuePattern === EMPTY_VALUE_PATTERN) {
+    return {
+      kind: 'populate_source',
+      summary: `Populate ${cluster.field} at source, or map it from the ERP, for ${scope}.`,
+      ...cleared,
+    };
+  }
+  const distinctExpected = new Set(expectedValues);
+  if (expectedValues.length === cluster.exceptionIds.length && distinctExpected.size === 1) {
+    return {
+      kind: 'apply_value',
+      summary: `Set ${cluster.field} to "${expectedValues[0]}" in the mapping or source for ${scope}.`,
+      ...cleared,
+    };
+  }
+  return {
+    kind: 'fix_format',
+    summary: `Correct the ${cluster.valuePattern} format of ${cluster.field} with one source or mapping transform for ${scope}.`,
+    ...cleared,
+  };
+}
+
+/**
+ * Groups exceptions that share a check, field, observed-value pattern, party and upload into
+ * clusters, largest first. Each cluster carries an estimate of the single fix behind it.
+ */
+export function clusterExceptions(exceptions: Exception[]): ExceptionCluster[] {
+  const groups = new Map<string, { exceptions: Exception[]; pattern: string }>();
+  for (const exception of exceptions) {
+    const pattern = observedValuePattern(exception.actualValue);
+    const key = clusterKey(exception, pattern);
+    const group = groups.get(key);
+    if (group) group.exceptions.push(exception);
+    else groups.set(key, { exceptions: [exception], pattern });
+  }
+
+  const clusters: ExceptionCluster[] = [];
+  groups.forEach((group, key) => {
+    const [first] = group.exceptions;
+    const party = partyFor(first);
+    const invoiceNumbers = new Set<string>();
+    const sampleValues = new Set<string>();
+    const expectedValues: string[] = [];
+    let severity = first.severity;
+    for (const exception of group.exceptions) {
+      const invoice = exception.invoiceNumber || exception.invoiceId;
+      if (invoice) invoiceNumbers.add(invoice);
+      if (exception.actualValue !== undefined && sampleValues.size < MAX_SAMPLE_VALUES) {
+        sampleValues.add(String(exception.actualValue));
+      }
+      if (exception.expectedValue !== undefined) expectedValues.push(String(exception.expectedValue));
+      if (SEVERITY_RANK[exception.severity] < SEVERITY_RANK[severity]) severity = exception.severity;
+    }
+
+    const cluster: Omit<ExceptionCluster, 'fix'> = {
+      key,
+      checkId: first.checkId,
+      checkName: first.checkName,
+      severity,
+      field: first.field || null,
+      valuePattern: group.pattern,
+      partyRole: party.role,
+      partyId: party.id,
+      uploadManifestId: first.uploadManifestId || null,
+      sourceFileName: first.sourceFileName || null,
+      exceptionIds: group.exceptions.map((exception) => exception.id),
+      invoiceNumbers: Array.from(invoiceNumbers),
+      sampleValues: Array.from(sampleValues),
+    };
+    clusters.push({ ...cluster, fix: estimateClusterFix(cluster, expectedValues) });
+  });
+
+  return clusters.sort(
+    (a, b) =>
+      b.exceptionIds.length - a.exceptionIds.length ||
+      SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] ||
+      a.key.localeCompare(b.key)
+  );
+}
+
+export function summarizeClusters(clusters: ExceptionCluster[], topCount = 10): ExceptionClusterSummary {
+  const sizes = clusters.map((cluster) => cluster.exceptionIds.length);
+  return {
+    clusterCount: clusters.length,
+    exceptionCount: sizes.reduce((total, size) => total + size, 0),
+    topCount: Math.min(topCount, clusters.length),
+    topCoverage: sizes.slice(0, topCount).reduce((total, size) => total + size, 0),
+  };
+}
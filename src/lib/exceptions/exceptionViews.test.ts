@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeExceptionView,
+  matchesExceptionView,
+  partitionBulkTransition,
+  sortExceptionViews,
+} from '@/lib/exceptions/exceptionViews';
+import { EMPTY_EXCEPTION_VIEW_FILTERS, SavedExceptionView } from '@/types/exceptionViews';
+
+const subject = {
+  ruleId: 'UAE-UC1-CHK-018',
+  severity: 'High' as const,
+  displayStatus: 'In Review',
+  entity: 'Dariba Trading LLC',
+  sellerTrn: '100234567800003',
+  impactedFields: ['buyer_trn'],
+  drIds: ['IBT-048'],
+  scenario: 'Standard tax invoice',
+};
+
+function makeView(id: string, name: string, ownerName: string): SavedExceptionView {
+  return {
+    id,
+    name,
+    filters: EMPTY_EXCEPTION_VIEW_FILTERS,
+    owner: { id: null, name: ownerName },
+    isShared: true,
+    isPinned: false,
+    createdAt: '2026-03-28T09:00:00.000Z',
+    updatedAt: '2026-03-28T09:00:00.000Z',
+  };
+}
+
+describe('matchesExceptionView', () => {
+  it('matches on every set filter and ignores empty ones', () => {
+    expect(matchesExceptionView(subject, EMPTY_EXCEPTION_VIEW_FILTERS)).toBe(true);
+    expect(
+      matchesExceptionView(subject, { ...EMPTY_EXCEPTION_VIEW_FILTERS, sellerTrn: '100234567800003', drId: 'IBT-048' })
+    ).toBe(true);
+    expect(matchesExceptionView(subject, { ...EMPTY_EXCEPTION_VIEW_FILTERS, field: 'seller_name' })).toBe(false);
+    expect(matchesExceptionView(subject, { ...EMPTY_EXCEPTION_VIEW_FILTERS, severity: 'Critical' })).toBe(false);
+  });
+});
+
+describe('describeExceptionView', () => {
+  it('lists the set filters in label order', () => {
+    expect(describeExceptionView(EMPTY_EXCEPTION_VIEW_FILTERS)).toBe('All exceptions');
+    expect(describeExceptionView({ ...EMPTY_EXCEPTION_VIEW_FILTERS, drId: 'IBT-048', severity: 'High' })).toBe(
+      'Severity: High · DR: IBT-048'
+    );
+  });
+});
+
+describe('sortExceptionViews', () => {
+  it('puts the actor\'s own views before shared ones', () => {
+    const sorted = sortExceptionViews(
+      [makeView('a', 'Alpha', 'Colleague'), makeView('b', 'Zulu', 'Maker'), makeView('c', 'Bravo', 'Maker')],
+      { id: null, name: 'Maker' }
+    );
+    expect(sorted.map((view) => view.id)).toEqual(['c', 'b', 'a']);
+  });
+});
+
+describe('partitionBulkTransition', () => {
+  it('skips rows the workflow cannot move and rows awaiting a waiver decision', () => {
+    const rows = [
+      { id: 'open', status: 'Open' as const, displayStatus: 'Open' },
+      { id: 'review', status: 'In Review' as const, displayStatus: 'In Review' },
+      { id: 'pending', status: 'In Review' as const, displayStatus: 'Pending approval' },
+    ];
+    const { eligible, skipped } = partitionBulkTransition(rows, 'Resolved');
+    expect(eligible.map((row) => row.id)).toEqual(['review']);
+    expect(skipped.map((row) => row.id)).toEqual(['open', 'pending']);
+  });
+});
@@ -0,0 +1,72 @@
+import { isSameActor } from '@/lib/approvals/approvalRules';
+import { canTransition } from '@/lib/exceptions/exceptionWorkflow';
+import { ExceptionWorkflowStatus } from '@/types/direction';
+import {
+  EXCEPTION_VIEW_FILTER_LABELS,
+  ExceptionViewFilterKey,
+  ExceptionViewFilters,
+  SavedExceptionView,
+} from '@/types/exceptionViews';
+import { Severity } from '@/types/compliance';
+import { WorkspaceActor } from '@/types/tenant';
+
+/** The parts of a queue row the view filters look at. */
+export interface ExceptionViewSubject {
+  ruleId: string;
+  severity: Severity;
+  displayStatus: string;
+  entity: string;
+  sellerTrn: string;
+  impactedFields: string[];
+  drIds: string[];
+  scenario: string;
+}
+
+export function matchesExceptionView(subject: ExceptionViewSubject, filters: ExceptionViewFilters): boolean {
+  if (filters.checkId && subject.ruleId !== filters.checkId) return false;
+  if (filters.severity && subject.severity !== filters.severity) return false;
+  if (filters.status && subject.displayStatus !== filters.status) return false;
+  if (filters.entity && subject.entity !== filters.entity) return false;
+  if (filters.sellerTrn && subject.sellerTrn !== filters.sellerTrn) return false;
+  if (filters.field && !subject.impactedFields.includes(filters.field)) return false;
+  if (filters.drId && !subject.drIds.includes(filters.drId)) return false;
+  if (filters.scenario && subject.scenario !== filters.scenario) return false;
+  return true;
+}
+
+/** "Severity: Critical · DR: IBT-031", or "All exceptions" when nothing is filtered. */
+export function describeExceptionView(filters: ExceptionViewFilters): string {
+  const parts = (Object.keys(EXCEPTION_VIEW_FILTER_LABELS) as ExceptionViewFilterKey[])
+    .filter((key) => filters[key])
+    .map((key) => `${EXCEPTION_VIEW_FILTER_LABELS[key]}: ${filters[key]}`);
+  return parts.length > 0 ? parts.join(' · ') : 'All exceptions';
+}
+
+export function isExceptionViewOwner(view: SavedExceptionView, actor: WorkspaceActor): boolean {
+  return isSameActor(view.owner, actor);
+}
+
+/** The actor's own views first, then views others have shared, each by name. */
+export function sortExceptionViews(views: SavedExceptionView[], actor: WorkspaceActor): SavedExceptionView[] {
+  return [...views].sort(
+    (a, b) =>
+      Number(isExceptionViewOwner(b, actor)) - Number(isExceptionViewOwner(a, actor)) || a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Splits a bulk status change into the rows the workflow lets move to `to` and the rows it
+ * skips. Rows with a waiver awaiting approval are always skipped.
+ */
+export function partitionBulkTransition<T extends { status: ExceptionWorkflowStatus; displayStatus: string }>(
+  items: T[],
+  to: ExceptionWorkflowStatus
+): { eligible: T[]; skipped: T[] } {
+  const eligible: T[] = [];
+  const skipped: T[] = [];
+  for (const item of items) {
+    if (item.displayStatus !== 'Pending approval' && canTransition(item.status, to)) eligible.push(item);
+    else skipped.push(item);
+  }
+  return { eligible, skipped };
+}
@@ -0,0 +1,55 @@
+import { PermissionAction } from '@/lib/access/permissions';
+import { Exception } from '@/types/compliance';
+import { ExceptionWorkflowStatus } from '@/types/direction';
+import { ExceptionWorkflowState } from '@/types/exceptionWorkflow';
+
+// Keep in step with is_exception_transition_allowed() in Supabase.
+const TRANSITIONS: Record<ExceptionWorkflowStatus, ExceptionWorkflowStatus[]> = {
+  Open: ['In Review'],
+  'In Review': ['Resolved', 'Waived'],
+  Resolved: ['Open'],
+  Waived: ['Open'],
+};
+
+export function allowedTransitions(from: ExceptionWorkflowStatus): ExceptionWorkflowStatus[] {
+  return TRANSITIONS[from];
+}
+
+export function canTransition(from: ExceptionWorkflowStatus, to: ExceptionWorkflowStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/** Closing an exception must say why. */
+export function requiresReasonCode(to: ExceptionWorkflowStatus): boolean {
+  return to === 'Resolved' || to === 'Waived';
+}
+
+/** Waived is only reached through an approved waiver request, applied by its approver. */
+export function transitionPermission(to: ExceptionWorkflowStatus): PermissionAction {
+  if (to === 'Resolved') return 'exception.resolve';
+  if (to === 'Waived') return 'exception.waive';
+  return 'data.prepare';
+}
+
+/**
+ * Identifies a finding across runs: the same check failing on the same invoice field is the
+ * same exception, whatever id the run gave it.
+ */
+export function findingFingerprint(finding: Pick<Exception, 'checkId' | 'invoiceNumber' | 'invoiceId' | 'field'>): string {
+  return [finding.checkId, finding.invoiceNumber || finding.invoiceId || '', finding.field || '']
+    .map((part) => part.trim().toLowerCase())
+    .join('|');
+}
+
+/** Applies stored workflow states to freshly run findings; unseen findings keep their run status. */
+export function carryForwardExceptionStates(
+  exceptions: Exception[],
+  states: Map<string, ExceptionWorkflowState>
+): Exception[] {
+  if (states.size === 0) return exceptions;
+  return exceptions.map((exception) => {
+    const state = states.get(findingFingerprint(exception));
+    if (!state) return exception;
+    return { ...exception, status: state.status, reasonCode: state.reasonCode ?? undefined };
+  });
+}
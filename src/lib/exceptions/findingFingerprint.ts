@@ -0,0 +1,48 @@
+import { Exception } from '@/types/compliance';
+import { PintAEException } from '@/types/pintAE';
+
+export interface FindingFingerprintParts {
+  checkId: string;
+  ruleId?: string;
+  invoiceNumber?: string;
+  invoiceId?: string;
+  sellerTrn?: string;
+  lineId?: string;
+  field?: string;
+}
+
+/**
+ * Deterministic identity of a finding across runs, independent of the ids a run generates.
+ * Finer than the workflow fingerprint, which deliberately ignores seller and line.
+ * Keep in step with the check_exceptions backfill in 20260320090000_finding_fingerprints.sql.
+ */
+export function computeFindingFingerprint(parts: FindingFingerprintParts): string {
+  return [
+    parts.checkId,
+    parts.ruleId || parts.checkId,
+    parts.invoiceNumber || parts.invoiceId || '',
+    parts.sellerTrn || '',
+    parts.lineId || '',
+    parts.field || '',
+  ]
+    .map((part) => part.trim().toLowerCase())
+    .join('|');
+}
+
+export function exceptionFingerprint(exception: Exception): string {
+  return exception.fingerprint || computeFindingFingerprint(exception);
+}
+
+export function pintExceptionFingerprint(exception: PintAEException): string {
+  return (
+    exception.fingerprint ||
+    computeFindingFingerprint({
+      checkId: exception.check_id,
+      invoiceNumber: exception.invoice_number,
+      invoiceId: exception.invoice_id,
+      sellerTrn: exception.seller_trn,
+      lineId: exception.line_id,
+      field: exception.field_name,
+    })
+  );
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { classifyRunLineage } from '@/lib/exceptions/runLineage';
+import { computeFindingFingerprint, pintExceptionFingerprint } from '@/lib/exceptions/findingFingerprint';
+import { PintAEException } from '@/types/pintAE';
+
+function makeException(id: string, checkId: string, invoiceNumber: string, field = 'buyer_trn'): PintAEException {
+  return {
+    id,
+    timestamp: '2026-03-20T09:00:00Z',
+    check_id: checkId,
+    check_name: `Check ${checkId}`,
+    severity: 'High',
+    pint_reference_terms: [],
+    invoice_number: invoiceNumber,
+    seller_trn: '100000000000003',
+    field_name: field,
+    message: 'Failed',
+    root_cause_category: 'Unclassified',
+    owner_team: 'Client Finance',
+    sla_target_hours: 24,
+    case_status: 'Open',
+  };
+}
+
+describe('computeFindingFingerprint', () => {
+  it('ignores run-specific ids, whitespace and case', () => {
+    const first = makeException('a1', 'UAE-CHK-001', 'INV-1');
+    const second = { ...makeException('b7', ' uae-chk-001 ', 'inv-1 '), timestamp: '2026-03-21T09:00:00Z' };
+
+    expect(pintExceptionFingerprint(first)).toBe(pintExceptionFingerprint(second));
+    expect(pintExceptionFingerprint(first)).toBe(
+      computeFindingFingerprint({ checkId: 'UAE-CHK-001', invoiceNumber: 'INV-1', sellerTrn: '100000000000003', field: 'buyer_trn' })
+    );
+  });
+});
+
+describe('classifyRunLineage', () => {
+  it('classifies findings as new, persisting, resolved or regressed', () => {
+    const persisting = makeException('p', 'UAE-CHK-001', 'INV-1');
+    const fresh = makeException('n', 'UAE-CHK-002', 'INV-2');
+    const regressed = makeException('r', 'UAE-CHK-003', 'INV-3');
+    const resolved = makeException('x', 'UAE-CHK-004', 'INV-4');
+
+    const result = classifyRunLineage(
+      [persisting, { ...persisting, id: 'p2' }, fresh, regressed],
+      [{ ...persisting, id: 'old-p' }, resolved],
+      new Set([pintExceptionFingerprint(regressed)])
+    );
+
+    expect(result.counts).toEqual({ new: 1, persisting: 1, resolved: 1, regressed: 1 });
+    expect(result.entries.map((entry) => [entry.checkId, entry.status])).toEqual([
+      ['UAE-CHK-003', 'regressed'],
+      ['UAE-CHK-002', 'new'],
+      ['UAE-CHK-001', 'persisting'],
+      ['UAE-CHK-004', 'resolved'],
+    ]);
+    expect(result.entries.find((entry) => entry.status === 'persisting')?.occurrences).toBe(2);
+  });
+});
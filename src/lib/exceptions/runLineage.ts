@@ -0,0 +1,66 @@
+import { pintExceptionFingerprint } from '@/lib/exceptions/findingFingerprint';
+import { PintAEException } from '@/types/pintAE';
+import { FindingLineageEntry, FindingLineageStatus } from '@/types/runLineage';
+
+const STATUS_ORDER: Record<FindingLineageStatus, number> = { regressed: 0, new: 1, persisting: 2, resolved: 3 };
+
+function groupByFingerprint(exceptions: PintAEException[]): Map<string, { exception: PintAEException; occurrences: number }> {
+  const groups = new Map<string, { exception: PintAEException; occurrences: number }>();
+  for (const exception of exceptions) {
+    const fingerprint = pintExceptionFingerprint(exception);
+    const group = groups.get(fingerprint);
+    if (group) group.occurrences += 1;
+    else groups.set(fingerprint, { exception, occurrences: 1 });
+  }
+  return groups;
+}
+
+function toEntry(
+  fingerprint: string,
+  status: FindingLineageStatus,
+  { exception, occurrences }: { exception: PintAEException; occurrences: number }
+): FindingLineageEntry {
+  return {
+    fingerprint,
+    status,
+    checkId: exception.check_id,
+    checkName: exception.check_name,
+    severity: exception.severity,
+    invoiceNumber: exception.invoice_number || exception.invoice_id,
+    field: exception.field_name,
+    occurrences,
+  };
+}
+
+/**
+ * Classifies the findings of a run against the run before it. `earlierFingerprints` holds the
+ * fingerprints of older runs, which is what tells a regression apart from a new finding.
+ */
+export function classifyRunLineage(
+  current: PintAEException[],
+  previous: PintAEException[],
+  earlierFingerprints: Set<string>
+): { counts: Record<FindingLineageStatus, number>; entries: FindingLineageEntry[] } {
+  const currentGroups = groupByFingerprint(current);
+  const previousGroups = groupByFingerprint(previous);
+  const entries: FindingLineageEntry[] = [];
+
+  currentGroups.forEach((group, fingerprint) => {
+    const status: FindingLineageStatus = previousGroups.has(fingerprint)
+      ? 'persisting'
+      : earlierFingerprints.has(fingerprint)
+      ? 'regressed'
+      : 'new';
+    entries.push(toEntry(fingerprint, status, group));
+  });
+  previousGroups.forEach((group, fingerprint) => {
+    if (!currentGroups.has(fingerprint)) entries.push(toEntry(fingerprint, 'resolved', group));
+  });
+
+  entries.sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || a.checkId.localeCompare(b.checkId));
+  const counts: Record<FindingLineageStatus, number> = { new: 0, persisting: 0, resolved: 0, regressed: 0 };
+  entries.forEach((entry) => {
+    counts[entry.status] += 1;
+  });
+  return { counts, entries };
+}
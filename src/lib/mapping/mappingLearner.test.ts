@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { FieldMapping, MappingTemplate, getPintFieldById } from '@/types/fieldMapping';
+import {
+  applyTemplateToColumns,
+  buildMappingKnowledge,
+  findSimilarTemplates,
+  generateLearnedSuggestions,
+  rankLearnedCandidates,
+  valuePattern,
+} from './mappingLearner';
+
+function mapping(erpColumn: string, fieldId: string, sampleValues: string[], isConfirmed = true): FieldMapping {
+  return {
+    id: `${erpColumn}-${fieldId}`,
+    erpColumn,
+    erpColumnIndex: 0,
+    targetField: getPintFieldById(fieldId)!,
+    confidence: 1,
+    isConfirmed,
+    transformations: [],
+    sampleValues,
+  };
+}
+
+function template(templateName: string, version: number, mappings: FieldMapping[], erpType = 'SAP S/4HANA'): MappingTemplate {
+  return { id: `${templateName}-v${version}`, templateName, erpType, documentType: 'UC1 Standard Tax Invoice', version, isActive: true, mappings };
+}
+
+const sapClientA = template('Client A SAP', 2, [
+  mapping('BELNR', 'invoice_number', ['1900000123']),
+  mapping('BLDAT', 'issue_date', ['05.03.2026']),
+  mapping('WAERS', 'currency', ['AED']),
+  mapping('KUNNR', 'buyer_id', ['0000100042']),
+  mapping('STCD1', 'buyer_trn', ['100000000000003'], false),
+]);
+const sapClientB = template('Client B SAP', 1, [
+  mapping('BELNR', 'invoice_number', ['1900000999']),
+  mapping('WAERS', 'currency', ['USD']),
+]);
+
+describe('mappingLearner', () => {
+  it('ranks learned candidates with an explainable score breakdown', () => {
+    const knowledge = buildMappingKnowledge([sapClientA, sapClientB, template('Client A SAP', 1, [mapping('BELNR', 'invoice_id', [])])]);
+
+    const [best, ...rest] = rankLearnedCandidates('Belnr', ['1900000555'], knowledge, 'SAP S/4HANA');
+
+    expect(rest).toEqual([]);
+    expect(best.targetFieldId).toBe('invoice_number');
+    expect(best.reason).toBe('Learned from Client A SAP, Client B SAP');
+    expect(best.scoreBreakdown.map((component) => [component.factor, component.score])).toEqual([
+      ['column_name', 1],
+      ['value_pattern', 1],
+      ['erp_type', 1],
+      ['confirmations', 2 / 3],
+    ]);
+    expect(best.score).toBeCloseTo(0.55 + 0.2 + 0.1 + 0.1);
+    expect(rankLearnedCandidates('STCD1', ['100000000000003'], knowledge)).toEqual([]);
+    expect(valuePattern('INV-00042')).toBe('A-9');
+    expect(valuePattern('05.03.2026')).toBe('9.9.9');
+  });
+
+  it('prefers learned mappings for columns the heuristics cannot place', () => {
+    const knowledge = buildMappingKnowledge([sapClientA]);
+    const rows = [{ BELNR: '1900000777', BLDAT: '06.03.2026', invoice_currency: 'AED' }];
+
+    const suggestions = generateLearnedSuggestions(['BELNR', 'BLDAT', 'invoice_currency'], rows, 'header', knowledge);
+    const byColumn = Object.fromEntries(suggestions.map((s) => [s.erpColumn, s]));
+
+    expect(byColumn.BELNR.targetField.id).toBe('invoice_number');
+    expect(byColumn.BELNR.scoreBreakdown).toHaveLength(4);
+    expect(byColumn.BLDAT.targetField.id).toBe('issue_date');
+    expect(byColumn.invoice_currency.targetField.id).toBe('currency');
+    expect(byColumn.invoice_currency.scoreBreakdown).toBeUndefined();
+  });
+
+  it('matches a new file to a known column signature and re-targets its mappings', () => {
+    const columns = ['belnr', 'BLDAT', 'WAERS', 'KUNNR', 'ZZ_EXTRA'];
+    const rows = [{ belnr: '1900000888', BLDAT: '07.03.2026', WAERS: 'AED', KUNNR: '0000100042', ZZ_EXTRA: 'x' }];
+
+    const [match, ...others] = findSimilarTemplates(columns, [sapClientA, sapClientB]);
+    const applied = applyTemplateToColumns(match.template, columns, rows);
+
+    expect(others).toEqual([]);
+    expect(match.template.templateName).toBe('Client A SAP');
+    expect(match.similarity).toBe(1);
+    expect(applied.map((m) => [m.erpColumn, m.erpColumnIndex, m.targetField.id])).toEqual([
+      ['belnr', 0, 'invoice_number'],
+      ['BLDAT', 1, 'issue_date'],
+      ['WAERS', 2, 'currency'],
+      ['KUNNR', 3, 'buyer_id'],
+    ]);
+    expect(applied[0]).toMatchObject({ isConfirmed: true, sampleValues: ['1900000888'] });
+  });
+});
@@ -0,0 +1,259 @@
+// Learns ERP column mappings from confirmed templates so repeat layouts map themselves.
+import {
+  DatasetType,
+  FieldMapping,
+  MappingScoreComponent,
+  MappingSuggestion,
+  MappingTemplate,
+  TemplateSignatureMatch,
+  getPintFieldById,
+  normalizeFieldMappings,
+} from '@/types/fieldMapping';
+import { getDatasetTargetFields } from '@/lib/mapping/datasetFieldCatalog';
+import { generateMappingSuggestions, stringSimilarity } from '@/lib/mapping/mappingSuggester';
+
+interface LearnedMapping {
+  column: string;
+  normalizedColumn: string;
+  targetFieldId: string;
+  valuePatterns: Set<string>;
+  erpTypes: Set<string>;
+  templateNames: Set<string>;
+  confirmations: number;
+}
+
+export interface MappingKnowledge {
+  entries: LearnedMapping[];
+}
+
+export interface LearnedCandidate {
+  targetFieldId: string;
+  score: number;
+  reason: string;
+  scoreBreakdown: MappingScoreComponent[];
+}
+
+const SCORE_WEIGHTS = {
+  column_name: 0.55,
+  value_pattern: 0.2,
+  erp_type: 0.1,
+  confirmations: 0.15,
+} as const;
+
+const MIN_COLUMN_SIMILARITY = 0.7;
+const MIN_SIGNATURE_COLUMNS = 3;
+
+function normalizeColumn(column: string): string {
+  return column.toLowerCase().replace(/[_\-\s.]/g, '');
+}
+
+/** Shape of a sample value, e.g. `INV-00042` -> `A-9` and `05/03/2026` -> `9/9/9`. */
+export function valuePattern(value: string): string {
+  return value
+    .trim()
+    .replace(/\p{L}+/gu, 'A')
+    .replace(/\d+/g, '9')
+    .replace(/\s+/g, ' ');
+}
+
+// Keep only the newest version of each template so superseded mappings are not learned twice.
+function latestTemplateVersions(templates: MappingTemplate[]): MappingTemplate[] {
+  const latest = new Map<string, MappingTemplate>();
+  for (const template of templates) {
+    const current = latest.get(template.templateName);
+    if (!current || template.version > current.version) latest.set(template.templateName, template);
+  }
+  return [...latest.values()];
+}
+
+function confirmedMappings(template: MappingTemplate): FieldMapping[] {
+  return normalizeFieldMappings(template.mappings).filter((mapping) => mapping.isConfirmed);
+}
+
+export function buildMappingKnowledge(templates: MappingTemplate[]): MappingKnowledge {
+  const entries = new Map<string, LearnedMapping>();
+
+  for (const template of latestTemplateVersions(templates)) {
+    for (const mapping of confirmedMappings(template)) {
+      const normalizedColumn = normalizeColumn(mapping.erpColumn);
+      const key = `${normalizedColumn}->${mapping.targetField.id}`;
+      const entry = entries.get(key) ?? {
+        column: mapping.erpColumn,
+        normalizedColumn,
+        targetFieldId: mapping.targetField.id,
+        valuePatterns: new Set<string>(),
+        erpTypes: new Set<string>(),
+        templateNames: new Set<string>(),
+        confirmations: 0,
+      };
+      mapping.sampleValues.filter((value) => value?.trim()).forEach((value) => entry.valuePatterns.add(valuePattern(value)));
+      if (template.erpType) entry.erpTypes.add(template.erpType);
+      entry.templateNames.add(template.templateName);
+      entry.confirmations += 1;
+      entries.set(key, entry);
+    }
+  }
+
+  return { entries: [...entries.values()] };
+}
+
+function scoreEntry(
+  entry: LearnedMapping,
+  column: string,
+  sampleValues: string[],
+  erpType: string | undefined
+): LearnedCandidate | null {
+  const nameScore = entry.normalizedColumn === normalizeColumn(column) ? 1 : stringSimilarity(column, entry.column);
+  if (nameScore < MIN_COLUMN_SIMILARITY) return null;
+
+  const samples = sampleValues.filter((value) => value?.trim());
+  const matchingSamples = samples.filter((value) => entry.valuePatterns.has(valuePattern(value))).length;
+  const patternScore = samples.length > 0 && entry.valuePatterns.size > 0 ? matchingSamples / samples.length : 0;
+  const erpScore = erpType && entry.erpTypes.has(erpType) ? 1 : 0;
+  const confirmationScore = Math.min(1, entry.confirmations / 3);
+  const templates = [...entry.templateNames].join(', ');
+
+  const scoreBreakdown: MappingScoreComponent[] = [
+    {
+      factor: 'column_name',
+      weight: SCORE_WEIGHTS.column_name,
+      score: nameScore,
+      detail: nameScore === 1 ? `Same column as "${entry.column}"` : `${Math.round(nameScore * 100)}% similar to "${entry.column}"`,
+    },
+    {
+      factor: 'value_pattern',
+      weight: SCORE_WEIGHTS.value_pattern,
+      score: patternScore,
+      detail: `${matchingSamples}/${samples.length} sample values share a learned shape`,
+    },
+    {
+      factor: 'erp_type',
+      weight: SCORE_WEIGHTS.erp_type,
+      score: erpScore,
+      detail: entry.erpTypes.size > 0 ? `Learned from ${[...entry.erpTypes].join(', ')}` : 'No ERP type recorded',
+    },
+    {
+      factor: 'confirmations',
+      weight: SCORE_WEIGHTS.confirmations,
+      score: confirmationScore,
+      detail: `Confirmed in ${entry.confirmations} template${entry.confirmations === 1 ? '' : 's'}`,
+    },
+  ];
+
+  return {
+    targetFieldId: entry.targetFieldId,
+    score: scoreBreakdown.reduce((total, component) => total + component.weight * component.score, 0),
+    reason: `Learned from ${templates}`,
+    scoreBreakdown,
+  };
+}
+
+/** Ranks target fields for one column by how closely it matches previously confirmed mappings. */
+export function rankLearnedCandidates(
+  column: string,
+  sampleValues: string[],
+  knowledge: MappingKnowledge,
+  erpType?: string
+): LearnedCandidate[] {
+  const best = new Map<string, LearnedCandidate>();
+  for (const entry of knowledge.entries) {
+    const candidate = scoreEntry(entry, column, sampleValues, erpType);
+    if (!candidate) continue;
+    const current = best.get(candidate.targetFieldId);
+    if (!current || candidate.score > current.score) best.set(candidate.targetFieldId, candidate);
+  }
+  return [...best.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Merges learned candidates with the pattern-based suggestions, assigning each column and
+ * each target field at most once in descending score order.
+ */
+export function generateLearnedSuggestions(
+  erpColumns: string[],
+  sampleData: Record<string, string>[],
+  datasetType: DatasetType,
+  knowledge: MappingKnowledge,
+  erpType?: string
+): MappingSuggestion[] {
+  const datasetFieldIds = new Set(getDatasetTargetFields(datasetType).map((field) => field.id));
+  const pool: MappingSuggestion[] = generateMappingSuggestions(erpColumns, sampleData, datasetType);
+
+  erpColumns.forEach((column, colIndex) => {
+    const sampleValues = sampleData.slice(0, 5).map((row) => row[column] || '');
+    for (const candidate of rankLearnedCandidates(column, sampleValues, knowledge, erpType)) {
+      const targetField = getPintFieldById(candidate.targetFieldId);
+      if (!targetField || !datasetFieldIds.has(targetField.id)) continue;
+      pool.push({
+        erpColumn: column,
+        erpColumnIndex: colIndex,
+        targetField,
+        confidence: candidate.score,
+        reason: candidate.reason,
+        sampleValues,
+        scoreBreakdown: candidate.scoreBreakdown,
+      });
+    }
+  });
+
+  const assignedColumns = new Set<string>();
+  const usedTargetFields = new Set<string>();
+  const suggestions: MappingSuggestion[] = [];
+  for (const suggestion of [...pool].sort((a, b) => b.confidence - a.confidence)) {
+    if (assignedColumns.has(suggestion.erpColumn) || usedTargetFields.has(suggestion.targetField.id)) continue;
+    assignedColumns.add(suggestion.erpColumn);
+    usedTargetFields.add(suggestion.targetField.id);
+    suggestions.push(suggestion);
+  }
+  return suggestions;
+}
+
+/**
+ * Templates whose confirmed source columns largely reappear in this file, best match first.
+ * Similarity is the share of the template's mapped columns present in the file.
+ */
+export function findSimilarTemplates(
+  columns: string[],
+  templates: MappingTemplate[],
+  minSimilarity = 0.6
+): TemplateSignatureMatch[] {
+  const fileColumns = new Set(columns.map(normalizeColumn));
+
+  return latestTemplateVersions(templates)
+    .map((template) => {
+      const templateColumns = [...new Set(confirmedMappings(template).map((mapping) => mapping.erpColumn))];
+      const matchedColumns = templateColumns.filter((column) => fileColumns.has(normalizeColumn(column)));
+      return {
+        template,
+        similarity: templateColumns.length > 0 ? matchedColumns.length / templateColumns.length : 0,
+        matchedColumns,
+      };
+    })
+    .filter((match) => match.matchedColumns.length >= MIN_SIGNATURE_COLUMNS && match.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity || b.matchedColumns.length - a.matchedColumns.length);
+}
+
+/** Re-targets a template's confirmed mappings onto this file's columns, keeping transformations. */
+export function applyTemplateToColumns(
+  template: MappingTemplate,
+  columns: string[],
+  rows: Record<string, string>[]
+): FieldMapping[] {
+  const columnsByName = new Map(columns.map((column, index) => [normalizeColumn(column), { column, index }]));
+
+  return normalizeFieldMappings(
+    confirmedMappings(template).flatMap((mapping, index) => {
+      const match = columnsByName.get(normalizeColumn(mapping.erpColumn));
+      if (!match) return [];
+      return [{
+        ...mapping,
+        id: `mapping-${index}`,
+        erpColumn: match.column,
+        erpColumnIndex: match.index,
+        confidence: 1,
+        isConfirmed: true,
+        sampleValues: rows.slice(0, 5).map((row) => row[match.column] || ''),
+      }];
+    })
+  );
+}
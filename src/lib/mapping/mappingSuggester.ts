@@ -48,7 +48,7 @@ const COLUMN_PATTERNS: Record<string, string[]> = {
 };
 
 // Calculate string similarity (Levenshtein distance based)
-function stringSimilarity(str1: string, str2: string): number {
+export function stringSimilarity(str1: string, str2: string): number {
   const s1 = str1.toLowerCase().replace(/[_\-\s]/g, '');
   const s2 = str2.toLowerCase().replace(/[_\-\s]/g, '');
   
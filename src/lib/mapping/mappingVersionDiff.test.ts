@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { getDRRegistry } from '@/lib/registry/drRegistry';
+import { FieldMapping, getPintFieldById } from '@/types/fieldMapping';
+import { diffMappingCoverage, diffMappingVersions } from './mappingVersionDiff';
+
+function mapping(erpColumn: string, fieldId: string, overrides: Partial<FieldMapping> = {}): FieldMapping {
+  return {
+    id: `${erpColumn}-${fieldId}`,
+    erpColumn,
+    erpColumnIndex: 0,
+    targetField: getPintFieldById(fieldId)!,
+    confidence: 1,
+    isConfirmed: true,
+    transformations: [],
+    sampleValues: [],
+    ...overrides,
+  };
+}
+
+describe('diffMappingVersions', () => {
+  it('reports added, removed and changed mappings field by field', () => {
+    const v1 = [
+      mapping('InvNo', 'invoice_number'),
+      mapping('Curr', 'currency'),
+      mapping('Note', 'note'),
+      mapping('DueDt', 'payment_due_date', { isConfirmed: false }),
+    ];
+    const v2 = [
+      mapping('InvoiceNumber', 'invoice_number', { transformations: [{ type: 'trim', config: {} }] }),
+      mapping('Curr', 'tax_currency'),
+      mapping('DueDt', 'payment_due_date'),
+      mapping('TRN', 'seller_trn'),
+    ];
+
+    const diff = diffMappingVersions(v1, v2);
+
+    expect(diff.added).toEqual(['seller_trn']);
+    expect(diff.removed).toEqual(['note']);
+    expect(diff.changed).toEqual(['invoice_number', 'payment_due_date', 'tax_currency']);
+    const byField = new Map(diff.changes.map((change) => [change.fieldId, change]));
+    expect(byField.get('invoice_number')?.changedAttributes).toEqual(['erpColumn', 'transformations']);
+    expect(byField.get('tax_currency')?.changedAttributes).toEqual(['targetField']);
+    expect(byField.get('tax_currency')?.before?.targetField.id).toBe('currency');
+    expect(byField.get('payment_due_date')?.changedAttributes).toEqual(['isConfirmed']);
+    expect(diffMappingVersions(v2, v2).changes).toEqual([]);
+  });
+});
+
+describe('diffMappingCoverage', () => {
+  it('lists DRs that a version change gains or loses', () => {
+    const sellerTrnDR = getDRRegistry().find((entry) => entry.internal_column_names.includes('seller_trn'))!;
+    const base = [mapping('InvNo', 'invoice_number')];
+
+    const gained = diffMappingCoverage(base, [...base, mapping('TRN', 'seller_trn')]);
+    const lost = diffMappingCoverage([...base, mapping('TRN', 'seller_trn')], base);
+
+    expect(gained.gained.map((entry) => entry.field.dr_id)).toContain(sellerTrnDR.dr_id);
+    expect(gained.lost).toEqual([]);
+    expect(lost.lost.map((entry) => entry.field.dr_id)).toContain(sellerTrnDR.dr_id);
+    expect(diffMappingCoverage(base, base)).toEqual({ gained: [], lost: [] });
+  });
+});
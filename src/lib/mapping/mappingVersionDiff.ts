@@ -0,0 +1,113 @@
+import {
+  DatasetType,
+  FieldMapping,
+  MappingAttribute,
+  MappingDiff,
+  MappingFieldChange,
+  normalizeFieldMappings,
+} from '@/types/fieldMapping';
+import type { SpecRegistryField } from '@/lib/registry/specRegistry';
+import { analyzeRegistryCoverage } from '@/lib/mapping/coverageAnalyzer';
+
+export interface CoverageChange {
+  field: SpecRegistryField;
+  mandatory: boolean;
+}
+
+export interface MappingCoverageDelta {
+  /** DRs covered by the newer version only. */
+  gained: CoverageChange[];
+  /** DRs covered by the older version only. */
+  lost: CoverageChange[];
+}
+
+// Templates don't record their dataset, so coverage is compared across every dataset file.
+const COVERAGE_DATASETS: DatasetType[] = ['combined', 'parties'];
+
+function changedAttributes(before: FieldMapping, after: FieldMapping): MappingAttribute[] {
+  const attributes: MappingAttribute[] = [];
+  if (before.erpColumn !== after.erpColumn) attributes.push('erpColumn');
+  if (before.targetField.id !== after.targetField.id) attributes.push('targetField');
+  if (JSON.stringify(before.transformations ?? []) !== JSON.stringify(after.transformations ?? [])) {
+    attributes.push('transformations');
+  }
+  if (before.isConfirmed !== after.isConfirmed) attributes.push('isConfirmed');
+  return attributes;
+}
+
+/**
+ * Compares two versions of a template mapping by mapping. Mappings pair up by target field
+ * first, then by ERP column, so a column pointed at a different field reads as one change
+ * rather than a removal and an addition.
+ */
+export function diffMappingVersions(from: FieldMapping[], to: FieldMapping[]): MappingDiff {
+  const remainingBefore = normalizeFieldMappings(from);
+  const remainingAfter: FieldMapping[] = [];
+  const pairs: [FieldMapping, FieldMapping][] = [];
+
+  normalizeFieldMappings(to).forEach((after) => {
+    const index = remainingBefore.findIndex((before) => before.targetField.id === after.targetField.id);
+    if (index === -1) {
+      remainingAfter.push(after);
+      return;
+    }
+    pairs.push([remainingBefore[index], after]);
+    remainingBefore.splice(index, 1);
+  });
+  const added = remainingAfter.filter((after) => {
+    const index = remainingBefore.findIndex((before) => before.erpColumn === after.erpColumn);
+    if (index === -1) return true;
+    pairs.push([remainingBefore[index], after]);
+    remainingBefore.splice(index, 1);
+    return false;
+  });
+
+  const changes: MappingFieldChange[] = [
+    ...added.map((after): MappingFieldChange => ({
+      fieldId: after.targetField.id,
+      kind: 'added',
+      after,
+      changedAttributes: [],
+    })),
+    ...remainingBefore.map((before): MappingFieldChange => ({
+      fieldId: before.targetField.id,
+      kind: 'removed',
+      before,
+      changedAttributes: [],
+    })),
+    ...pairs
+      .map(([before, after]): MappingFieldChange => ({
+        fieldId: after.targetField.id,
+        kind: 'changed',
+        before,
+        after,
+        changedAttributes: changedAttributes(before, after),
+      }))
+      .filter((change) => change.changedAttributes.length > 0),
+  ].sort((a, b) => a.fieldId.localeCompare(b.fieldId));
+
+  const idsOf = (kind: MappingFieldChange['kind']) =>
+    changes.filter((change) => change.kind === kind).map((change) => change.fieldId);
+  return { added: idsOf('added'), removed: idsOf('removed'), changed: idsOf('changed'), changes };
+}
+
+function coveredDRs(mappings: FieldMapping[]): Map<string, CoverageChange> {
+  const covered = new Map<string, CoverageChange>();
+  COVERAGE_DATASETS.forEach((datasetType) => {
+    const coverage = analyzeRegistryCoverage(mappings, datasetType);
+    coverage.mappedMandatory.forEach((field) => covered.set(field.dr_id, { field, mandatory: true }));
+    coverage.mappedConditional.forEach((field) => covered.set(field.dr_id, { field, mandatory: false }));
+  });
+  return covered;
+}
+
+/** Which DRs a version change brings into or drops out of registry coverage. */
+export function diffMappingCoverage(from: FieldMapping[], to: FieldMapping[]): MappingCoverageDelta {
+  const before = coveredDRs(from);
+  const after = coveredDRs(to);
+  const byDR = (a: CoverageChange, b: CoverageChange) => a.field.dr_id.localeCompare(b.field.dr_id, undefined, { numeric: true });
+  return {
+    gained: Array.from(after.values()).filter((entry) => !before.has(entry.field.dr_id)).sort(byDR),
+    lost: Array.from(before.values()).filter((entry) => !after.has(entry.field.dr_id)).sort(byDR),
+  };
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeFile, applyTemplateColumns } from '@/components/upload/FileAnalysis';
+import { parseCSV, parseHeadersFile } from '@/lib/csvParser';
+import { FieldMapping, MappingTemplate, Transformation, getPintFieldById } from '@/types/fieldMapping';
+import {
+  collectTemplateTransformErrors,
+  createTemplateRecordMapper,
+  describeFieldProvenance,
+  getTemplateMappedFields,
+} from './templateIngestion';
+
+function mapping(erpColumn: string, fieldId: string, transformations: Transformation[] = []): FieldMapping {
+  return {
+    id: `${erpColumn}-${fieldId}`,
+    erpColumn,
+    erpColumnIndex: 0,
+    targetField: getPintFieldById(fieldId)!,
+    confidence: 1,
+    isConfirmed: true,
+    transformations,
+    sampleValues: [],
+  };
+}
+
+const template: MappingTemplate = {
+  id: 'template-1',
+  templateName: 'SAP export',
+  documentType: 'UC1 Standard Tax Invoice',
+  version: 2,
+  isActive: true,
+  mappings: [
+    mapping('DocNo', 'invoice_id'),
+    mapping('BELNR', 'invoice_number', [{ type: 'trim', config: {} }]),
+    mapping('BLDAT', 'issue_date', [{ type: 'date_parse', config: { inputFormat: 'DD/MM/YYYY', outputFormat: 'YYYY-MM-DD' } }]),
+    mapping('Kunde', 'buyer_id'),
+    mapping('Currency', 'currency', [{ type: 'currency_code', config: {} }]),
+    mapping('SupplierTRN', 'seller_trn'),
+    mapping('MaterialUnit', 'unit_of_measure'),
+  ],
+};
+
+function buildFile(content: string): File {
+  return { name: 'sap.csv', size: content.length, type: 'text/csv', text: async () => content } as unknown as File;
+}
+
+const csv = [
+  'DocNo,BELNR,BLDAT,Kunde,Currency,SupplierTRN,total_excl_vat',
+  'INV-1, 9001 ,05/03/2026,B-1,Dhs,100000000000003,100',
+  'INV-2,9002,2026-13-45,B-2,AED,100000000000003,200',
+].join('\n');
+
+describe('mapping templates at ingestion', () => {
+  it('parses an ERP layout into canonical headers with per-field provenance', async () => {
+    const headers = await parseHeadersFile(buildFile(csv), { mappingTemplate: template });
+
+    expect(headers[0]).toMatchObject({
+      invoice_id: 'INV-1',
+      invoice_number: '9001',
+      issue_date: '2026-03-05',
+      buyer_id: 'B-1',
+      currency: 'AED',
+      seller_trn: '100000000000003',
+      total_excl_vat: 100,
+      source_row_number: 2,
+    });
+    expect(headers[0].field_provenance?.currency).toEqual({ source_column: 'Currency', transformations: ['currency_code'] });
+    expect(headers[0].field_provenance?.unit_of_measure).toBeUndefined();
+    expect(describeFieldProvenance(headers[0].field_provenance!.issue_date)).toBe('column "BLDAT" via date_parse');
+
+  });
+
+  it('keeps the raw value and records the error when a transformation fails', async () => {
+    const headers = await parseHeadersFile(buildFile(csv), { mappingTemplate: template });
+
+    expect(headers[1].issue_date).toBe('2026-13-45');
+    expect(headers[1].field_provenance?.issue_date).toEqual({
+      source_column: 'BLDAT',
+      transformations: ['date_parse'],
+      error: 'Invalid date format: 2026-13-45',
+    });
+    expect(headers[1].field_provenance?.currency.error).toBeUndefined();
+    expect(headers[0].field_provenance?.issue_date.error).toBeUndefined();
+  });
+
+  it('lists failed transformations by row so the upload step can show them', () => {
+    const rows = [
+      { DocNo: 'INV-1', BLDAT: '05/03/2026', Currency: 'Dhs' },
+      { DocNo: 'INV-2', BLDAT: '2026-13-45', Currency: 'XYZ' },
+    ];
+    const mapRecord = createTemplateRecordMapper(template, Object.keys(rows[0]));
+    const errors = collectTemplateTransformErrors(rows.map(mapRecord), rows);
+
+    expect(errors).toEqual([
+      { row: 2, field: 'issue_date', sourceColumn: 'BLDAT', value: '2026-13-45', error: 'Invalid date format: 2026-13-45' },
+      expect.objectContaining({ row: 2, field: 'currency', sourceColumn: 'Currency', value: 'XYZ' }),
+    ]);
+  });
+
+  it('treats template-mapped source columns as satisfying required columns', () => {
+    const rows = parseCSV(csv);
+    const stats = analyzeFile(rows, buildFile(csv), 'headers', 'AR', csv);
+
+    const resolved = applyTemplateColumns(stats, getTemplateMappedFields(template, stats.columns));
+
+    expect(stats.requiredMissing).toEqual(expect.arrayContaining(['invoice_id', 'issue_date', 'seller_trn']));
+    expect(resolved.requiredMissing).not.toEqual(expect.arrayContaining(['invoice_id']));
+    expect(resolved.requiredMissing).not.toContain('issue_date');
+    expect(resolved.requiredPresent).toEqual(expect.arrayContaining(['invoice_id', 'issue_date', 'seller_trn']));
+  });
+});
@@ -0,0 +1,91 @@
+// Applies a saved mapping template to uploaded rows so any ERP layout reads as canonical columns.
+import { FieldProvenance } from '@/types/compliance';
+import { MappingTemplate, normalizeFieldMappings } from '@/types/fieldMapping';
+import { transformRow } from '@/lib/mapping/transformationEngine';
+
+export interface TemplateMappedRecord {
+  record: Record<string, string>;
+  provenance: Record<string, FieldProvenance>;
+}
+
+export type TemplateRecordMapper = (record: Record<string, string>) => TemplateMappedRecord;
+
+/** A transformation that failed on one row; the raw value is kept in its place. */
+export interface TemplateTransformError {
+  // 1-based position of the row among the file's data rows.
+  row: number;
+  field: string;
+  sourceColumn: string;
+  value: string;
+  error: string;
+}
+
+// Confirmed mappings whose source column exists in this file; a template usually spans
+// headers, lines and parties while each upload holds only one of them.
+function getApplicableMappings(template: MappingTemplate, columns: string[]) {
+  const available = new Set(columns);
+  return normalizeFieldMappings(template.mappings).filter(
+    (mapping) => mapping.isConfirmed && available.has(mapping.erpColumn)
+  );
+}
+
+/** Canonical fields the template fills from the given source columns. */
+export function getTemplateMappedFields(template: MappingTemplate, columns: string[]): string[] {
+  return getApplicableMappings(template, columns).map((mapping) => mapping.targetField.id);
+}
+
+/**
+ * Builds a mapper that rewrites each row into canonical column names via the template's
+ * transformations. Unmapped source columns are kept, so the parser's built-in column
+ * aliases still apply to fields the template does not cover.
+ */
+export function createTemplateRecordMapper(template: MappingTemplate, columns: string[]): TemplateRecordMapper {
+  const mappings = getApplicableMappings(template, columns).map((mapping) => ({
+    erpColumn: mapping.erpColumn,
+    targetFieldId: mapping.targetField.id,
+    transformations: mapping.transformations,
+  }));
+  // Rows without transformation errors share one provenance object.
+  const provenance: Record<string, FieldProvenance> = Object.fromEntries(
+    mappings.map((mapping) => [
+      mapping.targetFieldId,
+      { source_column: mapping.erpColumn, transformations: mapping.transformations.map((transformation) => transformation.type) },
+    ])
+  );
+
+  return (record) => {
+    let rowProvenance = provenance;
+    const canonical = transformRow(record, mappings, (targetFieldId, error) => {
+      if (rowProvenance === provenance) rowProvenance = { ...provenance };
+      rowProvenance[targetFieldId] = { ...provenance[targetFieldId], error };
+    });
+    return { record: { ...record, ...canonical }, provenance: rowProvenance };
+  };
+}
+
+/** Failed transformations of already mapped rows, in row order. `sources` are the rows before mapping. */
+export function collectTemplateTransformErrors(
+  mapped: TemplateMappedRecord[],
+  sources: Record<string, string>[]
+): TemplateTransformError[] {
+  const errors: TemplateTransformError[] = [];
+  mapped.forEach(({ provenance }, index) => {
+    Object.entries(provenance).forEach(([field, origin]) => {
+      if (!origin.error) return;
+      errors.push({
+        row: index + 1,
+        field,
+        sourceColumn: origin.source_column,
+        value: sources[index]?.[origin.source_column] ?? '',
+        error: origin.error,
+      });
+    });
+  });
+  return errors;
+}
+
+/** Human-readable origin of a mapped field, e.g. `column "Amt" via arithmetic, sign_flip`. */
+export function describeFieldProvenance(provenance: FieldProvenance): string {
+  const column = `column "${provenance.source_column}"`;
+  return provenance.transformations.length > 0 ? `${column} via ${provenance.transformations.join(', ')}` : column;
+}
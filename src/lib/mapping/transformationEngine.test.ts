@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { getPintFieldById } from '@/types/fieldMapping';
+import { applyTransformations, parseErpNumber, previewTransformations } from './transformationEngine';
+
+describe('transformationEngine', () => {
+  it('chains arithmetic, credit-note sign flips and defaults', () => {
+    const creditNote = { DocType: '381', Amount: '1,250.00' };
+    const invoice = { DocType: '380', Amount: '1,250.00' };
+    const chain = [
+      { type: 'arithmetic' as const, config: { operation: 'divide', operand: 100, decimals: 2 } },
+      { type: 'sign_flip' as const, config: { column: 'DocType', values: ['381'] } },
+    ];
+
+    expect(applyTransformations(creditNote.Amount, chain, creditNote)).toBe('-12.50');
+    expect(applyTransformations(invoice.Amount, chain, invoice)).toBe('12.50');
+    expect(applyTransformations('  ', [{ type: 'default_value', config: { value: 'AED' } }])).toBe('AED');
+    expect(parseErpNumber('(45.10)')).toBe(-45.1);
+    expect(parseErpNumber('45.10-')).toBe(-45.1);
+    expect(() => parseErpNumber('abc')).toThrow('Cannot parse number: abc');
+  });
+
+  it('detects decimal commas and grouping separators in ERP numbers', () => {
+    expect(parseErpNumber('12,50')).toBe(12.5);
+    expect(parseErpNumber('1.234,56')).toBe(1234.56);
+    expect(parseErpNumber('1,234.56')).toBe(1234.56);
+    expect(parseErpNumber('1,250')).toBe(1250);
+    expect(parseErpNumber('1,234,567')).toBe(1234567);
+    expect(parseErpNumber('1.234.567')).toBe(1234567);
+    expect(parseErpNumber('0,125')).toBe(0.125);
+    expect(parseErpNumber('(12,50)')).toBe(-12.5);
+    expect(parseErpNumber('1,250-')).toBe(-1250);
+    expect(parseErpNumber("1'234.50")).toBe(1234.5);
+    expect(applyTransformations('12,50', [{ type: 'sign_flip', config: {} }])).toBe('-12.50');
+    expect(applyTransformations('0.00', [{ type: 'sign_flip', config: {} }])).toBe('0.00');
+  });
+
+  it('branches on another column and substitutes column references', () => {
+    const transform = {
+      type: 'conditional' as const,
+      config: { column: 'Country', operator: 'in', value: 'AE, UAE', thenValue: 'S', elseValue: '{ExportCode}' },
+    };
+
+    expect(applyTransformations('', [transform], { Country: 'uae', ExportCode: 'Z' })).toBe('S');
+    expect(applyTransformations('', [transform], { Country: 'IN', ExportCode: 'Z' })).toBe('Z');
+  });
+
+  it('maps ERP codes onto PINT-AE code lists and rejects unmapped codes', () => {
+    const taxCategory = { type: 'codelist_map' as const, config: { codelist: 'Aligned-TaxCategoryCodes', mappings: { V5: 'S' } } };
+    const unit = { type: 'codelist_map' as const, config: { codelist: 'UNECERec20', mappings: {} } };
+
+    expect(applyTransformations('v5', [taxCategory])).toBe('S');
+    expect(applyTransformations('ZR', [taxCategory])).toBe('Z');
+    expect(applyTransformations('pcs', [unit])).toBe('H87');
+    expect(applyTransformations('KGM', [unit])).toBe('KGM');
+    expect(() => applyTransformations('V9', [taxCategory])).toThrow('"V9" has no mapping to Aligned-TaxCategoryCodes');
+    expect(applyTransformations('Dhs', [{ type: 'currency_code', config: {} }])).toBe('AED');
+    expect(() => applyTransformations('XYZ', [{ type: 'currency_code', config: {} }])).toThrow('ISO 4217');
+  });
+
+  it('previews each sample row against the target field', () => {
+    const results = previewTransformations(
+      {
+        erpColumn: 'Qty',
+        targetField: getPintFieldById('quantity')!,
+        transformations: [{ type: 'arithmetic', config: { operation: 'multiply', operand: 2 } }],
+      },
+      [{ Qty: '3' }, { Qty: 'n/a' }]
+    );
+
+    expect(results[0]).toMatchObject({ success: true, originalValue: '3', transformedValue: '6' });
+    expect(results[1]).toMatchObject({ success: false, error: 'Cannot parse number: n/a' });
+  });
+});
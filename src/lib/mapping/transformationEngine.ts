@@ -1,5 +1,43 @@
 // Transformation Engine for Field Mapping
-import { Transformation, TransformationType } from '@/types/fieldMapping';
+import { FieldMapping, Transformation, TransformationTestResult, TransformationType } from '@/types/fieldMapping';
+import { isCodeInCodelist } from '@/lib/pintAE/specCatalog';
+
+export const TRANSFORMATION_TYPES: { value: TransformationType; label: string; description: string }[] = [
+  { value: 'trim', label: 'Trim', description: 'Remove leading/trailing whitespace' },
+  { value: 'uppercase', label: 'Uppercase', description: 'Convert to uppercase' },
+  { value: 'lowercase', label: 'Lowercase', description: 'Convert to lowercase' },
+  { value: 'date_parse', label: 'Date Parse', description: 'Parse date with format' },
+  { value: 'static_value', label: 'Static Value', description: 'Use a fixed value' },
+  { value: 'default_value', label: 'Default When Empty', description: 'Use a fixed value when the column is empty' },
+  { value: 'combine', label: 'Combine Columns', description: 'Combine multiple columns' },
+  { value: 'lookup', label: 'Lookup Table', description: 'Map values using a lookup' },
+  { value: 'split', label: 'Split', description: 'Keep one part of a delimited value' },
+  { value: 'regex_extract', label: 'Regex Extract', description: 'Extract a pattern match' },
+  { value: 'arithmetic', label: 'Arithmetic', description: 'Scale or offset a number' },
+  { value: 'sign_flip', label: 'Sign Flip', description: 'Negate amounts, optionally only for credit notes' },
+  { value: 'conditional', label: 'If / Else', description: 'Choose a value based on another column' },
+  { value: 'currency_code', label: 'Currency Code', description: 'Normalize currency names and symbols to ISO 4217' },
+  { value: 'codelist_map', label: 'Code List Mapping', description: 'Translate ERP codes to a PINT-AE code list' },
+];
+
+const DEFAULT_CONFIGS: Partial<Record<TransformationType, Record<string, any>>> = {
+  date_parse: { inputFormat: 'DD/MM/YYYY', outputFormat: 'YYYY-MM-DD' },
+  static_value: { value: '' },
+  default_value: { value: '' },
+  combine: { columns: [], separator: ' ' },
+  lookup: { mappings: {} },
+  split: { separator: ' ', index: 0 },
+  regex_extract: { pattern: '', group: 0 },
+  arithmetic: { operation: 'multiply', operand: 1 },
+  sign_flip: { column: '', values: ['381'] },
+  conditional: { column: '', operator: 'equals', value: '', thenValue: '' },
+  currency_code: { mappings: {} },
+  codelist_map: { codelist: 'Aligned-TaxCategoryCodes', mappings: {} },
+};
+
+export function createTransformation(type: TransformationType): Transformation {
+  return { type, config: { ...(DEFAULT_CONFIGS[type] ?? {}) } };
+}
 
 /**
  * Apply a series of transformations to a value
@@ -59,6 +97,24 @@ function applyTransformation(
     case 'regex_extract':
       return regexExtract(value, config);
 
+    case 'arithmetic':
+      return arithmeticValue(value, config);
+
+    case 'sign_flip':
+      return signFlipValue(value, config, rowContext);
+
+    case 'conditional':
+      return conditionalValue(value, config, rowContext);
+
+    case 'default_value':
+      return value.trim() ? value : config.value ?? '';
+
+    case 'currency_code':
+      return currencyCode(value, config);
+
+    case 'codelist_map':
+      return codelistMap(value, config);
+
     default:
       return value;
   }
@@ -179,6 +235,277 @@ function regexExtract(value: string, config: Record<string, any>): string {
   }
 }
 
+/**
+ * Rewrites an ERP number body with "." as the decimal separator and no grouping. When both
+ * "." and "," appear the later one is the decimal separator; a lone "," is a decimal comma
+ * ("12,50") unless it repeats or groups three digits after a whole part ("1,250"); repeated
+ * "." are grouping ("1.234.567").
+ */
+function normalizeErpNumberText(body: string): string {
+  const lastDot = body.lastIndexOf('.');
+  const lastComma = body.lastIndexOf(',');
+  let decimal: '.' | ',' | null = null;
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimal = lastDot > lastComma ? '.' : ',';
+  } else if (lastComma >= 0) {
+    const grouped = body.split(',').length > 2 || /^[-+]?[1-9]\d{0,2},\d{3}$/.test(body);
+    decimal = grouped ? null : ',';
+  } else if (lastDot >= 0) {
+    decimal = body.split('.').length > 2 ? null : '.';
+  }
+  const grouping = decimal === ',' ? /\./g : /,/g;
+  const ungrouped = body.replace(grouping, '');
+  return decimal === ',' ? ungrouped.replace(',', '.') : decimal === null ? ungrouped.replace(/\./g, '') : ungrouped;
+}
+
+function parseErpNumberParts(value: string): { number: number; decimals: number } {
+  let text = value.replace(/[\s'\u00a0]/g, '');
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  } else if (/^[^-].*-$/.test(text)) {
+    negative = true;
+    text = text.slice(0, -1);
+  }
+  text = normalizeErpNumberText(text);
+  const parsed = Number(text);
+  if (!text || isNaN(parsed)) throw new Error(`Cannot parse number: ${value}`);
+  const fraction = text.split('.')[1] ?? '';
+  return { number: negative ? -parsed : parsed, decimals: /^\d+$/.test(fraction) ? fraction.length : 0 };
+}
+
+/**
+ * Parse an ERP-formatted number: thousands separators, decimal commas, trailing minus and
+ * accounting parentheses are accepted
+ */
+export function parseErpNumber(value: string): number {
+  return parseErpNumberParts(value).number;
+}
+
+function formatNumber(value: number, decimals?: unknown): string {
+  if (decimals === undefined || decimals === null || decimals === '') return String(value);
+  return value.toFixed(Number(decimals));
+}
+
+/**
+ * Scale or offset a numeric value
+ */
+function arithmeticValue(value: string, config: Record<string, any>): string {
+  if (!value.trim()) return value;
+  const { operation = 'multiply', operand = 1, decimals } = config;
+  const number = parseErpNumber(value);
+  const factor = Number(operand);
+  if (isNaN(factor)) throw new Error(`Invalid operand: ${operand}`);
+
+  switch (operation) {
+    case 'multiply':
+      return formatNumber(number * factor, decimals);
+    case 'divide':
+      if (factor === 0) throw new Error('Cannot divide by zero');
+      return formatNumber(number / factor, decimals);
+    case 'add':
+      return formatNumber(number + factor, decimals);
+    case 'subtract':
+      return formatNumber(number - factor, decimals);
+    default:
+      throw new Error(`Unknown arithmetic operation: ${operation}`);
+  }
+}
+
+/**
+ * Negate a numeric value, optionally only when another column matches
+ * (e.g. document type 381 for credit notes)
+ */
+function signFlipValue(value: string, config: Record<string, any>, rowContext?: Record<string, string>): string {
+  if (!value.trim()) return value;
+  const { column, values } = config;
+  if (column) {
+    const candidates: string[] = Array.isArray(values) ? values : [];
+    const actual = (rowContext?.[column] ?? '').trim().toLowerCase();
+    if (!candidates.some((candidate) => candidate.trim().toLowerCase() === actual)) return value;
+  }
+  // Keep the precision of the incoming amount, e.g. the decimals an earlier arithmetic step set.
+  const { number, decimals } = parseErpNumberParts(value);
+  if (number === 0) return formatNumber(0, config.decimals ?? decimals);
+  return formatNumber(-number, config.decimals ?? decimals);
+}
+
+function resolveBranchValue(template: string | undefined, value: string, rowContext?: Record<string, string>): string {
+  if (template === undefined || template === null) return value;
+  const columnReference = String(template).match(/^\{(.+)\}$/);
+  return columnReference ? rowContext?.[columnReference[1]] ?? '' : String(template);
+}
+
+/**
+ * If/else on another column. Branch values of the form {Column} take that
+ * column's value; an omitted branch keeps the current value.
+ */
+function conditionalValue(value: string, config: Record<string, any>, rowContext?: Record<string, string>): string {
+  const { column, operator = 'equals', value: expected = '', thenValue, elseValue } = config;
+  const actual = (column ? rowContext?.[column] ?? '' : value).trim();
+  const expectedText = String(expected).trim();
+
+  let matches: boolean;
+  switch (operator) {
+    case 'equals':
+      matches = actual.toLowerCase() === expectedText.toLowerCase();
+      break;
+    case 'not_equals':
+      matches = actual.toLowerCase() !== expectedText.toLowerCase();
+      break;
+    case 'contains':
+      matches = actual.toLowerCase().includes(expectedText.toLowerCase());
+      break;
+    case 'in':
+      matches = expectedText
+        .split(',')
+        .map((entry) => entry.trim().toLowerCase())
+        .includes(actual.toLowerCase());
+      break;
+    case 'is_empty':
+      matches = actual === '';
+      break;
+    case 'is_not_empty':
+      matches = actual !== '';
+      break;
+    default:
+      throw new Error(`Unknown condition operator: ${operator}`);
+  }
+
+  return resolveBranchValue(matches ? thenValue : elseValue, value, rowContext);
+}
+
+// Common ERP spellings of ISO 4217 currency codes.
+const CURRENCY_ALIASES: Record<string, string> = {
+  'DHS': 'AED',
+  'DH': 'AED',
+  'DIRHAM': 'AED',
+  'DIRHAMS': 'AED',
+  'UAE DIRHAM': 'AED',
+  'د.إ': 'AED',
+  '$': 'USD',
+  'US$': 'USD',
+  'US DOLLAR': 'USD',
+  '€': 'EUR',
+  'EURO': 'EUR',
+  '£': 'GBP',
+  'POUND': 'GBP',
+  'RIYAL': 'SAR',
+  'SR': 'SAR',
+  '₹': 'INR',
+  'RS': 'INR',
+  'RUPEE': 'INR',
+};
+
+/**
+ * Normalize a currency to its ISO 4217 code
+ */
+function currencyCode(value: string, config: Record<string, any>): string {
+  const text = value.trim().toUpperCase();
+  if (!text) return '';
+  const customKey = Object.keys(config.mappings ?? {}).find((key) => key.trim().toUpperCase() === text);
+  const code = customKey ? String(config.mappings[customKey]).trim().toUpperCase() : CURRENCY_ALIASES[text] ?? text;
+  if (!isCodeInCodelist('ISO4217', code)) throw new Error(`"${value}" is not an ISO 4217 currency code`);
+  return code;
+}
+
+// Built-in translations from common ERP codes to PINT-AE code lists. Mapping tables
+// configured on the transformation take precedence.
+export const DEFAULT_CODELIST_MAPPINGS: Record<string, Record<string, string>> = {
+  'Aligned-TaxCategoryCodes': {
+    SR: 'S',
+    STD: 'S',
+    STANDARD: 'S',
+    ZR: 'Z',
+    ZERO: 'Z',
+    EX: 'E',
+    EXEMPT: 'E',
+    OOS: 'O',
+    OS: 'O',
+    RC: 'AE',
+    REVERSE: 'AE',
+  },
+  UNECERec20: {
+    PCS: 'H87',
+    PC: 'H87',
+    NOS: 'H87',
+    UNIT: 'C62',
+    UNITS: 'C62',
+    KG: 'KGM',
+    KGS: 'KGM',
+    G: 'GRM',
+    TON: 'TNE',
+    L: 'LTR',
+    LT: 'LTR',
+    ML: 'MLT',
+    M: 'MTR',
+    CM: 'CMT',
+    KM: 'KMT',
+    M2: 'MTK',
+    SQM: 'MTK',
+    M3: 'MTQ',
+    CBM: 'MTQ',
+    HR: 'HUR',
+    HRS: 'HUR',
+    HOUR: 'HUR',
+    MINUTE: 'MIN',
+    DAYS: 'DAY',
+    WEEK: 'WEE',
+    MONTH: 'MON',
+    YEAR: 'ANN',
+    BOX: 'XBX',
+    PAIR: 'PR',
+    LUMPSUM: 'LS',
+  },
+};
+
+/**
+ * Translate an ERP code into a PINT-AE code list value
+ */
+function codelistMap(value: string, config: Record<string, any>): string {
+  const { codelist, mappings = {}, strict = true } = config;
+  const text = value.trim().toUpperCase();
+  if (!text || !codelist) return value;
+
+  const customKey = Object.keys(mappings).find((key) => key.trim().toUpperCase() === text);
+  const code = customKey
+    ? String(mappings[customKey]).trim()
+    : DEFAULT_CODELIST_MAPPINGS[codelist]?.[text] ?? text;
+  if (isCodeInCodelist(codelist, code)) return code.toUpperCase();
+  if (strict) throw new Error(`"${value}" has no mapping to ${codelist}`);
+  return value;
+}
+
+/**
+ * Run a mapping's transformation chain over sample rows and check each result
+ * against the target field
+ */
+export function previewTransformations(
+  mapping: Pick<FieldMapping, 'erpColumn' | 'targetField' | 'transformations'>,
+  rows: Record<string, string>[]
+): TransformationTestResult[] {
+  return rows.map((row) => {
+    const originalValue = row[mapping.erpColumn] || '';
+    try {
+      const transformedValue = applyTransformations(originalValue, mapping.transformations, row);
+      const validation = validateTransformedValue(
+        transformedValue,
+        mapping.targetField.dataType,
+        mapping.targetField.format
+      );
+      return { success: validation.valid, originalValue, transformedValue, error: validation.error };
+    } catch (err) {
+      return {
+        success: false,
+        originalValue,
+        transformedValue: '',
+        error: err instanceof Error ? err.message : 'Transformation failed',
+      };
+    }
+  });
+}
+
 /**
  * Validate transformation output
  */
@@ -231,7 +558,8 @@ export function validateTransformedValue(
  */
 export function transformRow(
   row: Record<string, string>,
-  mappings: { erpColumn: string; targetFieldId: string; transformations: Transformation[] }[]
+  mappings: { erpColumn: string; targetFieldId: string; transformations: Transformation[] }[],
+  onError?: (targetFieldId: string, error: string) => void
 ): Record<string, string> {
   const result: Record<string, string> = {};
 
@@ -245,6 +573,7 @@ export function transformRow(
       );
     } catch (err) {
       result[mapping.targetFieldId] = originalValue;
+      onError?.(mapping.targetFieldId, err instanceof Error ? err.message : 'Transformation failed');
     }
   }
 
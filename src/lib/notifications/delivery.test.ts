@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createEmailAdapter,
+  createInAppAdapter,
+  createLocalStubAdapters,
+  createWebhookAdapter,
+  deliverNotifications,
+  MAX_DELIVERY_ATTEMPTS,
+} from '@/lib/notifications/delivery';
+import { OutboxNotification } from '@/types/notifications';
+
+const NOW = new Date('2026-10-19T08:00:00.000Z');
+
+function makeNotification(overrides: Partial<OutboxNotification> = {}): OutboxNotification {
+  return {
+    id: 'n-1',
+    channel: 'email',
+    recipient: 'lead@example.ae',
+    subject: 'Escalated to team lead: CASE-1 (Critical)',
+    body: 'CASE-1 has breached its 4h SLA.',
+    caseId: 'case-1',
+    escalationLevel: 'team_lead',
+    dedupeKey: 'case-1|team_lead|email',
+    status: 'pending',
+    attempts: 0,
+    lastError: null,
+    createdAt: '2026-10-19T07:00:00.000Z',
+    sentAt: null,
+    readAt: null,
+    ...overrides,
+  };
+}
+
+describe('deliverNotifications', () => {
+  it('routes each notification to its channel adapter and marks it sent', async () => {
+    const adapters = createLocalStubAdapters();
+    const notifications = [
+      makeNotification(),
+      makeNotification({ id: 'n-2', channel: 'in_app', recipient: 'Team lead' }),
+      makeNotification({ id: 'n-3', status: 'sent' }),
+      makeNotification({ id: 'n-4', status: 'sending' }),
+    ];
+
+    const updates = await deliverNotifications(notifications, adapters, NOW);
+    expect(adapters.delivered.map((notification) => notification.id)).toEqual(['n-1', 'n-2', 'n-4']);
+    expect(updates).toEqual([
+      { id: 'n-1', status: 'sent', attempts: 1, lastError: null, sentAt: NOW.toISOString() },
+      { id: 'n-2', status: 'sent', attempts: 1, lastError: null, sentAt: NOW.toISOString() },
+      { id: 'n-4', status: 'sent', attempts: 1, lastError: null, sentAt: NOW.toISOString() },
+    ]);
+  });
+
+  it('keeps failures pending for retry until attempts run out', async () => {
+    const failing = createEmailAdapter(async () => {
+      throw new Error('SMTP relay refused connection');
+    });
+    const adapters = { ...createLocalStubAdapters(), email: failing };
+
+    const [retry] = await deliverNotifications([makeNotification()], adapters, NOW);
+    expect(retry).toMatchObject({ status: 'pending', attempts: 1, lastError: 'SMTP relay refused connection' });
+
+    const [failed] = await deliverNotifications(
+      [makeNotification({ attempts: MAX_DELIVERY_ATTEMPTS - 1 })],
+      adapters,
+      NOW
+    );
+    expect(failed).toMatchObject({ status: 'failed', attempts: MAX_DELIVERY_ATTEMPTS });
+  });
+});
+
+describe('delivery adapters', () => {
+  it('posts webhook payloads and reports non-2xx responses', async () => {
+    const fetchImpl = vi
+      .fn()
+      .mockResolvedValueOnce(new Response(null, { status: 204 }))
+      .mockResolvedValueOnce(new Response(null, { status: 502 }));
+    const webhook = createWebhookAdapter(fetchImpl as unknown as typeof fetch);
+    const notification = makeNotification({ channel: 'webhook', recipient: 'https://hooks.example.ae/drcs' });
+
+    expect(await webhook.deliver(notification)).toEqual({ ok: true });
+    expect(await webhook.deliver(notification)).toEqual({ ok: false, error: 'Webhook responded 502' });
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('https://hooks.example.ae/drcs');
+    expect(JSON.parse(init.body)).toMatchObject({ caseId: 'case-1', escalationLevel: 'team_lead' });
+  });
+
+  it('hands email to the SMTP sender and treats in-app delivery as the inbox entry', async () => {
+    const send = vi.fn().mockResolvedValue(undefined);
+    expect(await createEmailAdapter(send).deliver(makeNotification())).toEqual({ ok: true });
+    expect(send).toHaveBeenCalledWith('n-1');
+    expect(await createInAppAdapter().deliver(makeNotification({ channel: 'in_app' }))).toEqual({ ok: true });
+  });
+});
@@ -0,0 +1,108 @@
+import { NotificationChannel, OutboxNotification } from '@/types/notifications';
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+
+export interface DeliveryResult {
+  ok: boolean;
+  error?: string;
+}
+
+/** Delivers one outbox notification over a single channel. */
+export interface NotificationDeliveryAdapter {
+  deliver(notification: OutboxNotification): Promise<DeliveryResult>;
+}
+
+export type DeliveryAdapters = Record<NotificationChannel, NotificationDeliveryAdapter>;
+
+export type DeliveryUpdate = Pick<OutboxNotification, 'id' | 'status' | 'attempts' | 'lastError' | 'sentAt'>;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/** The outbox row is the inbox entry, so in-app delivery only marks it sent. */
+export function createInAppAdapter(): NotificationDeliveryAdapter {
+  return { deliver: async () => ({ ok: true }) };
+}
+
+export function createWebhookAdapter(fetchImpl: typeof fetch = fetch): NotificationDeliveryAdapter {
+  return {
+    async deliver(notification) {
+      try {
+        const response = await fetchImpl(notification.recipient, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            id: notification.id,
+            subject: notification.subject,
+            body: notification.body,
+            caseId: notification.caseId,
+            escalationLevel: notification.escalationLevel,
+            createdAt: notification.createdAt,
+          }),
+        });
+        return response.ok ? { ok: true } : { ok: false, error: `Webhook responded ${response.status}` };
+      } catch (error) {
+        return { ok: false, error: errorMessage(error) };
+      }
+    },
+  };
+}
+
+/**
+ * Email goes out through whatever SMTP relay `send` wraps; it should throw on failure. The relay
+ * is handed only the notification id and loads the recipient and content itself.
+ */
+export function createEmailAdapter(send: (notificationId: string) => Promise<void>): NotificationDeliveryAdapter {
+  return {
+    async deliver(notification) {
+      try {
+        await send(notification.id);
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, error: errorMessage(error) };
+      }
+    },
+  };
+}
+
+/** Records every delivery instead of sending it, for local mode and tests. */
+export function createLocalStubAdapters(): DeliveryAdapters & { delivered: OutboxNotification[] } {
+  const delivered: OutboxNotification[] = [];
+  const stub: NotificationDeliveryAdapter = {
+    deliver: async (notification) => {
+      delivered.push(notification);
+      return { ok: true };
+    },
+  };
+  return { in_app: stub, email: stub, webhook: stub, delivered };
+}
+
+/**
+ * Hands pending or claimed notifications to their channel's adapter, one at a time, and returns
+ * the outbox updates to persist. A notification is marked failed once it runs out of attempts.
+ */
+export async function deliverNotifications(
+  notifications: OutboxNotification[],
+  adapters: DeliveryAdapters,
+  now: Date = new Date()
+): Promise<DeliveryUpdate[]> {
+  const updates: DeliveryUpdate[] = [];
+  for (const notification of notifications) {
+    if (notification.status !== 'pending' && notification.status !== 'sending') continue;
+    const result = await adapters[notification.channel].deliver(notification);
+    const attempts = notification.attempts + 1;
+    updates.push(
+      result.ok
+        ? { id: notification.id, status: 'sent', attempts, lastError: null, sentAt: now.toISOString() }
+        : {
+            id: notification.id,
+            status: attempts >= MAX_DELIVERY_ATTEMPTS ? 'failed' : 'pending',
+            attempts,
+            lastError: result.error ?? 'Delivery failed',
+            sentAt: null,
+          }
+    );
+  }
+  return updates;
+}
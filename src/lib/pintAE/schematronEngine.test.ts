@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { PINT_AE_UBL_CREDIT_NOTE_FIXTURE, PINT_AE_UBL_INVOICE_FIXTURE } from '@/lib/pintAE/fixtures';
+import {
+  PINT_AE_SCHEMATRON_FUNCTIONS,
+  getSchematronRules,
+  runSchematronValidation,
+} from '@/lib/pintAE/schematronEngine';
+import { parseXml } from '@/lib/xml/xmlDocument';
+
+const callHelper = (name: string, ...args: Array<string | number>) =>
+  PINT_AE_SCHEMATRON_FUNCTIONS[name]({} as never, args.map((arg) => [arg]))[0];
+
+describe('PINT-AE Schematron engine', () => {
+  it('passes the reference invoice against every fatal rule of the invoice packs', () => {
+    const result = runSchematronValidation(PINT_AE_UBL_INVOICE_FIXTURE);
+
+    expect(result.documentType).toBe('invoice');
+    expect(result.invoiceNumber).toBe('INV-1001');
+    expect(result.rulesEvaluated).toBe(getSchematronRules('invoice').length);
+    expect(result.evaluationErrors).toEqual([]);
+    expect(result.exceptions).toEqual([]);
+  });
+
+  it('selects the credit note rule set for CreditNote documents', () => {
+    const result = runSchematronValidation(PINT_AE_UBL_CREDIT_NOTE_FIXTURE);
+
+    expect(result.documentType).toBe('creditnote');
+    expect(result.rulesEvaluated).toBe(getSchematronRules('creditnote').length);
+    expect(result.evaluationErrors).toEqual([]);
+    expect(result.exceptions).toEqual([]);
+  });
+
+  it('emits PINT-AE exceptions with rule id, BT references and element locator', () => {
+    const xml = PINT_AE_UBL_INVOICE_FIXTURE.replace(
+      /\s*<cbc:UUID>[^<]*<\/cbc:UUID>/,
+      ''
+    ).replace('<cbc:LineExtensionAmount currencyID="AED">300.00</cbc:LineExtensionAmount>', '<cbc:LineExtensionAmount currencyID="AED">310.00</cbc:LineExtensionAmount>');
+
+    const result = runSchematronValidation(xml, { runId: 'run-1', datasetType: 'AR' });
+    const byCheck = new Map(result.exceptions.map((exception) => [exception.check_id, exception]));
+
+    const uuid = byCheck.get('IBR-193-AE');
+    expect(uuid).toMatchObject({
+      run_id: 'run-1',
+      dataset_type: 'AR',
+      severity: 'Critical',
+      invoice_number: 'INV-1001',
+      seller_trn: '100000000100003',
+      field_name: '/Invoice',
+      execution_layer: 'national_rule',
+      pint_reference_terms: ['BTAE-07'],
+    });
+
+    const lineMath = byCheck.get('IBR-147-AE');
+    expect(lineMath?.line_id).toBe('1');
+    expect(lineMath?.field_name).toBe('/Invoice/cac:InvoiceLine[1]');
+    expect(lineMath?.pint_reference_terms).toEqual(expect.arrayContaining(['IBT-131', 'IBT-129']));
+    expect(byCheck.has('IBR-CO-10')).toBe(true);
+  });
+
+  it('applies first-matching-rule semantics within a Schematron pattern', () => {
+    // cac:Price/cac:AllowanceCharge is claimed by the price rule, so the document-level
+    // allowance reason rule (ibr-042) must not fire on a line price discount.
+    const result = runSchematronValidation(PINT_AE_UBL_INVOICE_FIXTURE);
+    const allowanceTelemetry = result.telemetry.find((row) => row.rule_id === 'IBR-042');
+
+    expect(allowanceTelemetry).toMatchObject({ execution_count: 0, failure_count: 0 });
+    expect(result.telemetry.find((row) => row.rule_id === 'IBR-083')?.execution_count).toBe(2);
+  });
+
+  it('filters by flag and pack type and rejects non-UBL documents', () => {
+    const warningsOnly = runSchematronValidation(PINT_AE_UBL_INVOICE_FIXTURE, { flags: ['warning'] });
+    expect(warningsOnly.rulesEvaluated).toBe(0);
+
+    const aligned = runSchematronValidation(parseXml(PINT_AE_UBL_INVOICE_FIXTURE), {
+      packTypes: ['jurisdiction-aligned'],
+    });
+    expect(aligned.telemetry.every((row) => !row.rule_id.startsWith('IBR-SR'))).toBe(true);
+
+    expect(() => runSchematronValidation('<Order xmlns="urn:x"/>')).toThrow(/Unsupported document root <Order>/);
+  });
+
+  it('implements the PEPPOL u: helper functions', () => {
+    expect(callHelper('u:slack', 10, 10.02, 0.02)).toBe(true);
+    expect(callHelper('u:slack', 10, 10.03, 0.02)).toBe(false);
+    expect(callHelper('u:gln', '5790000435968')).toBe(true);
+    expect(callHelper('u:gln', '5790000435969')).toBe(false);
+    expect(callHelper('u:mod11', '991825827')).toBe(true);
+    expect(callHelper('u:mod97-0208', '0417497106')).toBe(true);
+    expect(callHelper('u:abn', '51824753556')).toBe(true);
+  });
+});
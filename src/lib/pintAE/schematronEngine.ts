@@ -0,0 +1,381 @@
+import { PintAEException, SLA_HOURS_BY_SEVERITY, CheckScope, ExecutionLayer } from '@/types/pintAE';
+import { Severity } from '@/types/compliance';
+import { DatasetType } from '@/types/datasets';
+import { PINT_AE_SCHEMATRON_RULES } from '@/lib/pintAE/generated/schematronRules';
+import { getFailureClassForRule } from '@/lib/validation/pintAERuleMetadata';
+import {
+  XmlDocument,
+  XmlElement,
+  XmlNode,
+  findChildElement,
+  getChildElements,
+  getNodeLocator,
+  getTextContent,
+  parseXml,
+} from '@/lib/xml/xmlDocument';
+import {
+  UBL_NAMESPACES,
+  XPathFunction,
+  XPathSequence,
+  effectiveBooleanValue,
+  evaluateXPath,
+  selectPatternNodes,
+  stringValue,
+} from '@/lib/xml/xpath';
+
+export type SchematronFlag = 'fatal' | 'warning';
+export type SchematronDocumentType = 'invoice' | 'creditnote';
+
+export interface SchematronRule {
+  id: string;
+  flag: string;
+  context: string;
+  test: string;
+  message: string;
+  references: readonly string[];
+  documentType: string;
+  packType: string;
+  sourceFile: string;
+}
+
+export interface SchematronRuleTelemetry {
+  rule_id: string;
+  execution_count: number;
+  failure_count: number;
+  execution_source: 'runtime';
+}
+
+export interface SchematronEvaluationError {
+  rule_id: string;
+  phase: 'context' | 'test';
+  locator?: string;
+  message: string;
+}
+
+export interface SchematronRunOptions {
+  rules?: readonly SchematronRule[];
+  flags?: SchematronFlag[];
+  packTypes?: string[];
+  runId?: string;
+  datasetType?: DatasetType;
+  timestamp?: string;
+}
+
+export interface SchematronRunResult {
+  documentType: SchematronDocumentType;
+  invoiceNumber?: string;
+  rulesEvaluated: number;
+  exceptions: PintAEException[];
+  telemetry: SchematronRuleTelemetry[];
+  evaluationErrors: SchematronEvaluationError[];
+}
+
+const generateId = () => Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
+
+const SEVERITY_BY_FLAG: Record<SchematronFlag, Severity> = {
+  fatal: 'Critical',
+  warning: 'Medium',
+};
+
+const MAX_OBSERVED_VALUE_LENGTH = 200;
+
+function digitsOf(value: string): number[] {
+  return Array.from(value).map((char) => Number(char));
+}
+
+function singleStringArg(args: XPathSequence[], index = 0): string {
+  return stringValue(args[index]?.[0]).trim();
+}
+
+function singleNumberArg(args: XPathSequence[], index: number): number {
+  return Number(stringValue(args[index]?.[0]));
+}
+
+function isItalianVatNumber(value: string): boolean {
+  if (!/^\d{11}$/.test(value)) return false;
+  const total = digitsOf(value).reduce((sum, digit, index) => {
+    if (index % 2 === 0) return sum + digit;
+    const doubled = digit * 2;
+    return sum + (doubled > 9 ? doubled - 9 : doubled);
+  }, 0);
+  return total % 10 === 0;
+}
+
+// Implementations of the `u:` helper functions declared in the PEPPOL PINT Schematron packs.
+export const PINT_AE_SCHEMATRON_FUNCTIONS: Record<string, XPathFunction> = {
+  'u:slack': (_context, args) => {
+    const expected = singleNumberArg(args, 0);
+    const actual = singleNumberArg(args, 1);
+    const slack = singleNumberArg(args, 2);
+    return [expected + slack >= actual && expected - slack <= actual];
+  },
+  'u:gln': (_context, args) => {
+    const value = singleStringArg(args);
+    if (!/^\d+$/.test(value)) return [false];
+    const digits = digitsOf(value.slice(0, -1)).reverse();
+    const checkDigit = Number(value.slice(-1));
+    const sum = digits.reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+    return [(10 - (sum % 10)) % 10 === checkDigit];
+  },
+  'u:mod11': (_context, args) => {
+    const value = singleStringArg(args);
+    if (!/^\d{9}$/.test(value)) return [false];
+    const weights = [3, 2, 7, 6, 5, 4, 3, 2];
+    const digits = digitsOf(value);
+    const sum = weights.reduce((total, weight, index) => total + weight * digits[index], 0);
+    const remainder = sum % 11;
+    const checkDigit = remainder === 0 ? 0 : 11 - remainder;
+    return [checkDigit !== 10 && checkDigit === digits[8]];
+  },
+  'u:mod97-0208': (_context, args) => {
+    const value = singleStringArg(args);
+    if (!/^\d{10}$/.test(value)) return [false];
+    const base = Number(value.slice(0, 8));
+    return [97 - (base % 97) === Number(value.slice(8))];
+  },
+  'u:abn': (_context, args) => {
+    const value = singleStringArg(args);
+    if (!/^\d{11}$/.test(value)) return [false];
+    const weights = [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19];
+    const digits = digitsOf(value);
+    digits[0] -= 1;
+    const sum = weights.reduce((total, weight, index) => total + weight * digits[index], 0);
+    return [sum % 89 === 0];
+  },
+  'u:checkCodiceIPA': (_context, args) => [/^[a-zA-Z0-9]{6}$/.test(singleStringArg(args))],
+  'u:checkCF': (_context, args) => {
+    const value = singleStringArg(args).toUpperCase();
+    if (/^\d{11}$/.test(value)) return [isItalianVatNumber(value)];
+    return [
+      /^[A-Z]{6}[0-9LMNPQRSTUV]{2}[ABCDEHLMPRST][0-9LMNPQRSTUV]{2}[A-Z][0-9LMNPQRSTUV]{3}[A-Z]$/.test(value),
+    ];
+  },
+  'u:checkPIVAseIT': (_context, args) => {
+    const value = singleStringArg(args).toUpperCase().replace(/^IT/, '');
+    return [isItalianVatNumber(value)];
+  },
+};
+
+const XPATH_OPTIONS = {
+  namespaces: UBL_NAMESPACES,
+  functions: PINT_AE_SCHEMATRON_FUNCTIONS,
+};
+
+export function detectUblDocumentType(document: XmlDocument): SchematronDocumentType | null {
+  const root = document.documentElement;
+  if (root.localName === 'Invoice' && root.namespaceURI === UBL_NAMESPACES.ubl) return 'invoice';
+  if (root.localName === 'CreditNote' && root.namespaceURI === UBL_NAMESPACES.cn) return 'creditnote';
+  return null;
+}
+
+export function getSchematronRules(documentType?: SchematronDocumentType): SchematronRule[] {
+  const rules = PINT_AE_SCHEMATRON_RULES as readonly SchematronRule[];
+  return documentType ? rules.filter((rule) => rule.documentType === documentType) : [...rules];
+}
+
+export function stripRulePrefix(rule: SchematronRule): string {
+  return rule.message.replace(/^\s*\[[^\]]+\]\s*-?\s*/, '').trim();
+}
+
+export function getSchematronReferenceTerms(rule: SchematronRule): string[] {
+  const fromMessage = Array.from(rule.message.matchAll(/\b((?:I?BT|BTAE|BTUAE|IBG)-\d+[A-Z0-9-]*)\b/gi)).map(
+    (match) => match[1]
+  );
+  return Array.from(
+    new Set([...rule.references, ...fromMessage].map((term) => term.trim().toUpperCase()).filter(Boolean))
+  );
+}
+
+function getScopeForContext(context: string): CheckScope {
+  if (/InvoiceLine|CreditNoteLine/.test(context)) return 'Lines';
+  if (/Party\b|Party\/|PartyTaxScheme|EndpointID|PartyIdentification/.test(context)) return 'Party';
+  if (/^\s*\/(ubl:Invoice|cn:CreditNote)\s*(\||$)/.test(context)) return 'Header';
+  return 'Cross';
+}
+
+function getExecutionLayerForPack(packType: string): ExecutionLayer {
+  return packType === 'jurisdiction-aligned' ? 'national_rule' : 'semantic_rule';
+}
+
+function childText(element: XmlElement | undefined, ...path: string[]): string | undefined {
+  let current = element;
+  for (const name of path) {
+    current = current ? findChildElement(current, name) : undefined;
+  }
+  const value = current ? getTextContent(current).trim() : '';
+  return value || undefined;
+}
+
+function findEnclosingLine(node: XmlNode): XmlElement | undefined {
+  let current: XmlNode | undefined = node;
+  while (current && current.kind !== 'document') {
+    if (
+      current.kind === 'element' &&
+      (current.localName === 'InvoiceLine' || current.localName === 'CreditNoteLine')
+    ) {
+      return current;
+    }
+    current = current.parent;
+  }
+  return undefined;
+}
+
+function getObservedValue(node: XmlNode): string | undefined {
+  if (node.kind === 'document') return undefined;
+  if (node.kind === 'element' && getChildElements(node).length > 0) return undefined;
+  const value = getTextContent(node).trim();
+  if (!value) return '(empty)';
+  return value.length > MAX_OBSERVED_VALUE_LENGTH ? `${value.slice(0, MAX_OBSERVED_VALUE_LENGTH)}…` : value;
+}
+
+/**
+ * Resolve the context nodes of every rule. Each source `.sch` file is a single Schematron
+ * pattern, so a node already matched by an earlier rule context in the same file is not
+ * matched again by later ones (asserts sharing one context belong to the same rule).
+ */
+function resolveRuleContexts(
+  rules: readonly SchematronRule[],
+  document: XmlDocument,
+  evaluationErrors: SchematronEvaluationError[]
+): Map<SchematronRule, XmlNode[]> {
+  const contexts = new Map<SchematronRule, XmlNode[]>();
+  const claimedBySource = new Map<string, Set<XmlNode>>();
+  let previous: { sourceFile: string; context: string; nodes: XmlNode[] } | undefined;
+
+  for (const rule of rules) {
+    if (previous && previous.sourceFile === rule.sourceFile && previous.context === rule.context) {
+      contexts.set(rule, previous.nodes);
+      continue;
+    }
+
+    const claimed = claimedBySource.get(rule.sourceFile) ?? new Set<XmlNode>();
+    claimedBySource.set(rule.sourceFile, claimed);
+
+    let nodes: XmlNode[] = [];
+    try {
+      nodes = selectPatternNodes(rule.context, document, XPATH_OPTIONS).filter((node) => !claimed.has(node));
+    } catch (error) {
+      evaluationErrors.push({
+        rule_id: rule.id.toUpperCase(),
+        phase: 'context',
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+    nodes.forEach((node) => claimed.add(node));
+    contexts.set(rule, nodes);
+    previous = { sourceFile: rule.sourceFile, context: rule.context, nodes };
+  }
+
+  return contexts;
+}
+
+export function runSchematronValidation(
+  xml: string | XmlDocument,
+  options: SchematronRunOptions = {}
+): SchematronRunResult {
+  const document = typeof xml === 'string' ? parseXml(xml) : xml;
+  const documentType = detectUblDocumentType(document);
+  if (!documentType) {
+    const root = document.documentElement;
+    throw new Error(
+      `Unsupported document root <${root.name}>; expected a UBL 2.1 Invoice or CreditNote`
+    );
+  }
+
+  const flags = options.flags ?? ['fatal', 'warning'];
+  const documentRules = (options.rules ?? getSchematronRules(documentType)).filter(
+    (rule) => rule.documentType === documentType
+  );
+  const rules = documentRules.filter(
+    (rule) =>
+      flags.includes(rule.flag as SchematronFlag) &&
+      (!options.packTypes || options.packTypes.includes(rule.packType))
+  );
+
+  const root = document.documentElement;
+  const timestamp = options.timestamp ?? new Date().toISOString();
+  const invoiceNumber = childText(root, 'cbc:ID');
+  const sellerParty = findChildElement(root, 'cac:AccountingSupplierParty');
+  const buyerParty = findChildElement(root, 'cac:AccountingCustomerParty');
+  const sellerTrn =
+    childText(sellerParty, 'cac:Party', 'cac:PartyTaxScheme', 'cbc:CompanyID') ??
+    childText(sellerParty, 'cac:Party', 'cac:PartyLegalEntity', 'cbc:CompanyID');
+  const buyerId =
+    childText(buyerParty, 'cac:Party', 'cac:PartyIdentification', 'cbc:ID') ??
+    childText(buyerParty, 'cac:Party', 'cac:PartyTaxScheme', 'cbc:CompanyID');
+
+  const exceptions: PintAEException[] = [];
+  const telemetry: SchematronRuleTelemetry[] = [];
+  const evaluationErrors: SchematronEvaluationError[] = [];
+  const contextsByRule = resolveRuleContexts(documentRules, document, evaluationErrors);
+
+  for (const rule of rules) {
+    const severity = SEVERITY_BY_FLAG[rule.flag as SchematronFlag];
+    const checkId = rule.id.toUpperCase();
+    const contextNodes = contextsByRule.get(rule) ?? [];
+    let failureCount = 0;
+
+    for (const node of contextNodes) {
+      let passed: boolean;
+      try {
+        passed = effectiveBooleanValue(evaluateXPath(rule.test, node, XPATH_OPTIONS));
+      } catch (error) {
+        evaluationErrors.push({
+          rule_id: checkId,
+          phase: 'test',
+          locator: getNodeLocator(node),
+          message: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+      if (passed) continue;
+
+      failureCount++;
+      const line = findEnclosingLine(node);
+      const executionLayer = getExecutionLayerForPack(rule.packType);
+      exceptions.push({
+        id: generateId(),
+        run_id: options.runId,
+        timestamp,
+        dataset_type: options.datasetType,
+        check_id: checkId,
+        check_name: stripRulePrefix(rule),
+        severity,
+        scope: getScopeForContext(rule.context),
+        rule_type: 'structural_rule',
+        execution_layer: executionLayer,
+        failure_class: getFailureClassForRule('structural_rule', executionLayer),
+        pint_reference_terms: getSchematronReferenceTerms(rule),
+        invoice_id: invoiceNumber,
+        invoice_number: invoiceNumber,
+        seller_trn: sellerTrn,
+        buyer_id: buyerId,
+        line_id: line ? childText(line, 'cbc:ID') : undefined,
+        field_name: getNodeLocator(node),
+        observed_value: getObservedValue(node),
+        expected_value_or_rule: rule.test,
+        message: rule.message,
+        root_cause_category: 'Format Non-Compliance',
+        owner_team: 'Client IT',
+        sla_target_hours: SLA_HOURS_BY_SEVERITY[severity],
+        case_status: 'Open',
+      });
+    }
+
+    telemetry.push({
+      rule_id: checkId,
+      execution_count: contextNodes.length,
+      failure_count: failureCount,
+      execution_source: 'runtime',
+    });
+  }
+
+  return {
+    documentType,
+    invoiceNumber,
+    rulesEvaluated: rules.length,
+    exceptions,
+    telemetry,
+    evaluationErrors,
+  };
+}
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { runAllPintAEChecks } from '@/lib/checks/pintAECheckRunner';
+import { UAE_UC1_CHECK_PACK } from '@/lib/checks/uaeUC1CheckPack';
+import { mapHeaderRecord, mapLineRecord, mapPartyRecord, parseCSV } from '@/lib/csvParser';
+import {
+  buildSchematronParityCsv,
+  normalizeSchematronTermToDR,
+  runSchematronParity,
+} from '@/lib/pintAE/schematronParity';
+import { buyersNegativeSample, headersNegativeSample, linesNegativeSample } from '@/lib/sampleData';
+import { DataContext, InvoiceLine } from '@/types/compliance';
+import { SchematronEvaluationError, getSchematronRules } from '@/lib/pintAE/schematronEngine';
+
+const injected = vi.hoisted(() => ({ evaluationErrors: [] as SchematronEvaluationError[] }));
+
+vi.mock('@/lib/pintAE/schematronEngine', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@/lib/pintAE/schematronEngine')>();
+  return {
+    ...actual,
+    runSchematronValidation: (...args: Parameters<typeof actual.runSchematronValidation>) => {
+      const result = actual.runSchematronValidation(...args);
+      return { ...result, evaluationErrors: [...result.evaluationErrors, ...injected.evaluationErrors] };
+    },
+  };
+});
+
+function loadNegativeSample() {
+  const buyers = parseCSV(buyersNegativeSample).map((record) => mapPartyRecord(record, {}));
+  const headers = parseCSV(headersNegativeSample).map((record) => mapHeaderRecord(record, {}));
+  const lines = parseCSV(linesNegativeSample).map((record) => mapLineRecord(record, {}));
+  const linesByInvoice = new Map<string, InvoiceLine[]>();
+  lines.forEach((line) => linesByInvoice.set(line.invoice_id, [...(linesByInvoice.get(line.invoice_id) ?? []), line]));
+  const dataContext: DataContext = {
+    buyers,
+    headers,
+    lines,
+    buyerMap: new Map(buyers.map((buyer) => [buyer.buyer_id, buyer])),
+    headerMap: new Map(headers.map((header) => [header.invoice_id, header])),
+    linesByInvoice,
+  };
+  return { buyers, headers, lines, csvExceptions: runAllPintAEChecks(UAE_UC1_CHECK_PACK, dataContext) };
+}
+
+describe('Schematron parity harness', () => {
+  afterEach(() => {
+    injected.evaluationErrors = [];
+  });
+
+  it('normalizes Schematron reference terms onto registry DR IDs', () => {
+    expect(normalizeSchematronTermToDR('ibt-81')).toBe('IBT-081');
+    expect(normalizeSchematronTermToDR('BTAE-15')).toBe('BTUAE-15');
+    expect(normalizeSchematronTermToDR('BTAE-14')).toBe('BTAE-14');
+    expect(normalizeSchematronTermToDR('IBT-999')).toBeUndefined();
+  });
+
+  it('classifies failing rules as found by both sides, only CSV checks or only Schematron', () => {
+    const report = runSchematronParity({ ...loadNegativeSample(), timestamp: '2026-01-01T00:00:00.000Z' });
+    const byRule = new Map(report.rows.map((row) => [row.rule_id, row]));
+
+    expect(report.invoiceCount).toBe(3);
+    expect(report.conversionErrors).toEqual([]);
+    expect(byRule.get('UAE-UC1-CHK-019')).toMatchObject({
+      source: 'csv_check',
+      outcome: 'both',
+      dr_ids: ['IBT-049'],
+      counterpart_rule_ids: ['IBR-080'],
+    });
+    expect(byRule.get('IBR-080')).toMatchObject({ source: 'schematron', outcome: 'both' });
+    expect(byRule.get('UAE-UC1-CHK-009')).toMatchObject({ outcome: 'only_csv', dr_ids: ['IBT-009'] });
+    expect(byRule.get('IBR-172-AE')).toMatchObject({ outcome: 'only_schematron', dr_ids: ['BTUAE-15'] });
+    expect(report.evaluationErrors).toEqual([]);
+    expect(report.summary.both + report.summary.only_csv + report.summary.only_schematron).toBe(report.rows.length);
+  });
+
+  it('exports the per-rule diff as CSV', () => {
+    const report = runSchematronParity({ ...loadNegativeSample(), timestamp: '2026-01-01T00:00:00.000Z' });
+    const [header, ...rows] = buildSchematronParityCsv(report).split('\n');
+
+    expect(header).toBe(
+      'outcome,source,rule_id,rule_name,dr_ids,failure_count,matched_failure_count,invoice_count,counterpart_rule_ids,invoice_ids,evaluation_error_count,evaluation_errors'
+    );
+    expect(rows).toHaveLength(report.rows.length);
+    expect(rows.some((row) => row.startsWith('both,csv_check,UAE-UC1-CHK-019,'))).toBe(true);
+  });
+
+  it('reports Schematron evaluation errors per rule in the diff and the export', () => {
+    const clean = runSchematronParity({ ...loadNegativeSample(), timestamp: '2026-01-01T00:00:00.000Z' });
+    const failingRuleIds = new Set(clean.rows.map((row) => row.rule_id));
+    const passingRule = getSchematronRules('invoice').find((rule) => !failingRuleIds.has(rule.id.toUpperCase()))!;
+    const passingRuleId = passingRule.id.toUpperCase();
+    injected.evaluationErrors = [
+      { rule_id: passingRuleId, phase: 'context', message: 'Unknown function' },
+      { rule_id: 'IBR-172-AE', phase: 'test', locator: '/Invoice[1]', message: 'Type error' },
+    ];
+
+    const report = runSchematronParity({ ...loadNegativeSample(), timestamp: '2026-01-01T00:00:00.000Z' });
+    const byRule = new Map(report.rows.map((row) => [row.rule_id, row]));
+
+    expect(report.evaluationErrors).toHaveLength(2 * report.invoiceCount);
+    expect(byRule.get(passingRuleId)).toMatchObject({
+      source: 'schematron',
+      outcome: 'not_evaluated',
+      failure_count: 0,
+    });
+    expect(byRule.get(passingRuleId)?.evaluation_errors).toHaveLength(report.invoiceCount);
+    expect(byRule.get('IBR-172-AE')).toMatchObject({ outcome: 'only_schematron' });
+    expect(byRule.get('IBR-172-AE')?.evaluation_errors[0]).toMatchObject({ phase: 'test', message: 'Type error' });
+    expect(report.summary.not_evaluated).toBe(1);
+
+    const exported = buildSchematronParityCsv(report).split('\n');
+    const erroredRow = exported.find((row) => row.startsWith(`not_evaluated,schematron,${passingRuleId},`));
+    expect(erroredRow).toContain(`,${report.invoiceCount},`);
+    expect(erroredRow).toContain('(context): Unknown function');
+  });
+});
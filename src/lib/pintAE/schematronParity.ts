@@ -0,0 +1,335 @@
+// =============================================================================
+// Schematron Parity - CSV-level PINT-AE checks vs the official Schematron rules
+// Each invoice is serialized to UBL and validated; failures on both sides are
+// compared per invoice through the DR IDs each rule is linked to.
+// =============================================================================
+
+import { Buyer, InvoiceHeader, InvoiceLine } from '@/types/compliance';
+import { PintAEException } from '@/types/pintAE';
+import {
+  SchematronEvaluationError,
+  getSchematronReferenceTerms,
+  getSchematronRules,
+  runSchematronValidation,
+  stripRulePrefix,
+} from '@/lib/pintAE/schematronEngine';
+import { serializeInvoiceToUbl } from '@/lib/ublSerializer';
+import { getValidationDRTargets } from '@/lib/registry/validationToDRMap';
+import { getRegistryFields } from '@/lib/registry/specRegistry';
+import { getRuleTraceabilityEntry } from '@/lib/rules/ruleTraceability';
+
+export type ParityOutcome = 'both' | 'only_csv' | 'only_schematron' | 'not_evaluated';
+export type ParityRuleSource = 'csv_check' | 'schematron';
+
+export interface ParityRuleRow {
+  rule_id: string;
+  rule_name: string;
+  source: ParityRuleSource;
+  dr_ids: string[];
+  outcome: ParityOutcome;
+  failure_count: number;
+  matched_failure_count: number;
+  invoice_ids: string[];
+  counterpart_rule_ids: string[];
+  evaluation_errors: ParityEvaluationError[];
+}
+
+export interface ParityConversionError {
+  invoice_id: string;
+  message: string;
+}
+
+export type ParityEvaluationError = SchematronEvaluationError & { invoice_id: string };
+
+export interface SchematronParityReport {
+  generatedAt: string;
+  invoiceCount: number;
+  csvFailureCount: number;
+  schematronFailureCount: number;
+  summary: Record<ParityOutcome, number>;
+  rows: ParityRuleRow[];
+  conversionErrors: ParityConversionError[];
+  evaluationErrors: ParityEvaluationError[];
+}
+
+export interface SchematronParityInput {
+  buyers: Buyer[];
+  headers: InvoiceHeader[];
+  lines: InvoiceLine[];
+  csvExceptions: PintAEException[];
+  timestamp?: string;
+}
+
+interface ParityFailure {
+  rule_id: string;
+  rule_name: string;
+  invoice_id: string;
+  dr_ids: string[];
+}
+
+let knownDrIds: Set<string> | null = null;
+
+function getKnownDrIds(): Set<string> {
+  if (!knownDrIds) knownDrIds = new Set(getRegistryFields().map((field) => field.dr_id));
+  return knownDrIds;
+}
+
+/**
+ * Schematron messages cite terms as `ibt-081` or `BTAE-15`, while the registry uses
+ * zero-padded IBT/IBG IDs and the `BTUAE-` prefix for most UAE extensions.
+ */
+export function normalizeSchematronTermToDR(term: string): string | undefined {
+  const match = term.trim().toUpperCase().match(/^(IBT|IBG|BT|BTAE|BTUAE)-0*(\d+)((?:-\d+)?)$/);
+  if (!match) return undefined;
+  const [, prefix, digits, suffix] = match;
+  const known = getKnownDrIds();
+  const candidates =
+    prefix === 'BTAE' || prefix === 'BTUAE'
+      ? [`BTUAE-${digits.padStart(2, '0')}${suffix}`, `BTAE-${digits}${suffix}`, `BTAE-${digits.padStart(2, '0')}${suffix}`]
+      : [`${prefix === 'BT' ? 'IBT' : prefix}-${digits.padStart(3, '0')}${suffix}`];
+  return candidates.find((candidate) => known.has(candidate));
+}
+
+function getCsvCheckDRIds(checkId: string): string[] {
+  return getValidationDRTargets(checkId).map((target) => target.dr_id);
+}
+
+function getSchematronDRIds(exception: PintAEException): string[] {
+  return Array.from(
+    new Set(
+      exception.pint_reference_terms
+        .map(normalizeSchematronTermToDR)
+        .filter((drId): drId is string => Boolean(drId))
+    )
+  );
+}
+
+function collectCsvFailures(exceptions: PintAEException[], headers: InvoiceHeader[]): ParityFailure[] {
+  const invoiceIdsByBuyer = new Map<string, string[]>();
+  headers.forEach((header) => {
+    const invoiceIds = invoiceIdsByBuyer.get(header.buyer_id);
+    if (invoiceIds) invoiceIds.push(header.invoice_id);
+    else invoiceIdsByBuyer.set(header.buyer_id, [header.invoice_id]);
+  });
+
+  return exceptions.flatMap((exception) => {
+    // Party-level findings carry no invoice; they apply to every invoice for that buyer.
+    const invoiceIds = exception.invoice_id
+      ? [exception.invoice_id]
+      : invoiceIdsByBuyer.get(exception.buyer_id ?? '') ?? [];
+    const drIds = getCsvCheckDRIds(exception.check_id);
+    const ruleName = getRuleTraceabilityEntry(exception.check_id)?.rule_name ?? exception.check_name;
+    return invoiceIds.map((invoiceId) => ({
+      rule_id: exception.check_id,
+      rule_name: ruleName,
+      invoice_id: invoiceId,
+      dr_ids: drIds,
+    }));
+  });
+}
+
+function collectSchematronFailures(
+  input: SchematronParityInput,
+  conversionErrors: ParityConversionError[],
+  evaluationErrors: ParityEvaluationError[]
+): ParityFailure[] {
+  const buyersById = new Map(input.buyers.map((buyer) => [buyer.buyer_id, buyer]));
+  const linesByInvoice = new Map<string, InvoiceLine[]>();
+  input.lines.forEach((line) => {
+    const invoiceLines = linesByInvoice.get(line.invoice_id);
+    if (invoiceLines) invoiceLines.push(line);
+    else linesByInvoice.set(line.invoice_id, [line]);
+  });
+
+  return input.headers.flatMap((header) => {
+    try {
+      const xml = serializeInvoiceToUbl({
+        header,
+        lines: linesByInvoice.get(header.invoice_id) ?? [],
+        buyer: buyersById.get(header.buyer_id),
+      });
+      const result = runSchematronValidation(xml, { timestamp: input.timestamp });
+      result.evaluationErrors.forEach((error) => evaluationErrors.push({ ...error, invoice_id: header.invoice_id }));
+      return result.exceptions.map((exception) => ({
+        rule_id: exception.check_id,
+        rule_name: exception.check_name,
+        invoice_id: header.invoice_id,
+        dr_ids: getSchematronDRIds(exception),
+      }));
+    } catch (error) {
+      conversionErrors.push({
+        invoice_id: header.invoice_id,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return [];
+    }
+  });
+}
+
+function indexFailures(failures: ParityFailure[]): Map<string, Set<string>> {
+  const index = new Map<string, Set<string>>();
+  failures.forEach((failure) => {
+    failure.dr_ids.forEach((drId) => {
+      const key = `${failure.invoice_id}|${drId}`;
+      if (!index.has(key)) index.set(key, new Set());
+      index.get(key)!.add(failure.rule_id);
+    });
+  });
+  return index;
+}
+
+function describeSchematronRule(ruleId: string): Pick<ParityRuleRow, 'rule_name' | 'dr_ids'> {
+  const rule = getSchematronRules().find((candidate) => candidate.id.toUpperCase() === ruleId);
+  if (!rule) return { rule_name: ruleId, dr_ids: [] };
+  const drIds = getSchematronReferenceTerms(rule)
+    .map(normalizeSchematronTermToDR)
+    .filter((drId): drId is string => Boolean(drId));
+  return { rule_name: stripRulePrefix(rule), dr_ids: Array.from(new Set(drIds)) };
+}
+
+/**
+ * A rule whose context or test could not be evaluated on some invoice has no
+ * trustworthy outcome there; a rule that never failed elsewhere is `not_evaluated`
+ * rather than missing from the diff.
+ */
+function buildRows(
+  source: ParityRuleSource,
+  failures: ParityFailure[],
+  counterpartIndex: Map<string, Set<string>>,
+  evaluationErrors: ParityEvaluationError[] = []
+): ParityRuleRow[] {
+  const rows = new Map<string, ParityRuleRow & { invoiceSet: Set<string>; counterpartSet: Set<string> }>();
+
+  failures.forEach((failure) => {
+    let row = rows.get(failure.rule_id);
+    if (!row) {
+      row = {
+        rule_id: failure.rule_id,
+        rule_name: failure.rule_name,
+        source,
+        dr_ids: failure.dr_ids,
+        outcome: source === 'csv_check' ? 'only_csv' : 'only_schematron',
+        failure_count: 0,
+        matched_failure_count: 0,
+        invoice_ids: [],
+        counterpart_rule_ids: [],
+        evaluation_errors: [],
+        invoiceSet: new Set(),
+        counterpartSet: new Set(),
+      };
+      rows.set(failure.rule_id, row);
+    }
+
+    row.failure_count++;
+    row.invoiceSet.add(failure.invoice_id);
+    const counterparts = failure.dr_ids.flatMap((drId) =>
+      Array.from(counterpartIndex.get(`${failure.invoice_id}|${drId}`) ?? [])
+    );
+    if (counterparts.length > 0) {
+      row.matched_failure_count++;
+      counterparts.forEach((ruleId) => row!.counterpartSet.add(ruleId));
+    }
+  });
+
+  evaluationErrors.forEach((error) => {
+    let row = rows.get(error.rule_id);
+    if (!row) {
+      row = {
+        rule_id: error.rule_id,
+        ...describeSchematronRule(error.rule_id),
+        source,
+        outcome: 'not_evaluated',
+        failure_count: 0,
+        matched_failure_count: 0,
+        invoice_ids: [],
+        counterpart_rule_ids: [],
+        evaluation_errors: [],
+        invoiceSet: new Set(),
+        counterpartSet: new Set(),
+      };
+      rows.set(error.rule_id, row);
+    }
+    row.evaluation_errors.push(error);
+  });
+
+  return Array.from(rows.values()).map(({ invoiceSet, counterpartSet, ...row }) => ({
+    ...row,
+    outcome: row.matched_failure_count > 0 ? 'both' : row.outcome,
+    invoice_ids: Array.from(invoiceSet).sort(),
+    counterpart_rule_ids: Array.from(counterpartSet).sort(),
+  }));
+}
+
+/**
+ * Runs the parity harness for a loaded dataset. `csvExceptions` are the PINT-AE check
+ * findings of the last run; a rule lands in `both` when at least one of its failures
+ * meets a failure from the other side on the same invoice and DR.
+ */
+export function runSchematronParity(input: SchematronParityInput): SchematronParityReport {
+  const conversionErrors: ParityConversionError[] = [];
+  const evaluationErrors: ParityEvaluationError[] = [];
+  const csvFailures = collectCsvFailures(input.csvExceptions, input.headers);
+  const schematronFailures = collectSchematronFailures(input, conversionErrors, evaluationErrors);
+
+  const rows = [
+    ...buildRows('csv_check', csvFailures, indexFailures(schematronFailures)),
+    ...buildRows('schematron', schematronFailures, indexFailures(csvFailures), evaluationErrors),
+  ].sort((a, b) => a.outcome.localeCompare(b.outcome) || a.rule_id.localeCompare(b.rule_id));
+
+  const summary: Record<ParityOutcome, number> = { both: 0, only_csv: 0, only_schematron: 0, not_evaluated: 0 };
+  rows.forEach((row) => summary[row.outcome]++);
+
+  return {
+    generatedAt: input.timestamp ?? new Date().toISOString(),
+    invoiceCount: input.headers.length,
+    csvFailureCount: csvFailures.length,
+    schematronFailureCount: schematronFailures.length,
+    summary,
+    rows,
+    conversionErrors,
+    evaluationErrors,
+  };
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function buildSchematronParityCsv(report: SchematronParityReport): string {
+  const headers = [
+    'outcome',
+    'source',
+    'rule_id',
+    'rule_name',
+    'dr_ids',
+    'failure_count',
+    'matched_failure_count',
+    'invoice_count',
+    'counterpart_rule_ids',
+    'invoice_ids',
+    'evaluation_error_count',
+    'evaluation_errors',
+  ];
+  const rows = report.rows.map((row) =>
+    [
+      row.outcome,
+      row.source,
+      row.rule_id,
+      row.rule_name,
+      row.dr_ids.join('; '),
+      row.failure_count,
+      row.matched_failure_count,
+      row.invoice_ids.length,
+      row.counterpart_rule_ids.join('; '),
+      row.invoice_ids.join('; '),
+      row.evaluation_errors.length,
+      row.evaluation_errors
+        .map((error) => `${error.invoice_id}${error.locator ? ` ${error.locator}` : ''} (${error.phase}): ${error.message}`)
+        .join('; '),
+    ]
+      .map(csvCell)
+      .join(',')
+  );
+  return [headers.join(','), ...rows].join('\n');
+}
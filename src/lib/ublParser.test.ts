@@ -0,0 +1,112 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { PINT_AE_UBL_CREDIT_NOTE_FIXTURE, PINT_AE_UBL_INVOICE_FIXTURE } from '@/lib/pintAE/fixtures';
+import { flattenUblDocuments, parseUblDocument, parseUblFiles } from '@/lib/ublParser';
+
+function buildFile(content: string | Uint8Array, name: string): File {
+  return {
+    name,
+    size: content.length,
+    text: async () => (typeof content === 'string' ? content : new TextDecoder().decode(content)),
+    arrayBuffer: async () => (typeof content === 'string' ? new TextEncoder().encode(content) : content),
+  } as unknown as File;
+}
+
+describe('UBL XML ingestion', () => {
+  it('maps a PINT-AE invoice into buyer, header and lines with element locators', () => {
+    const document = parseUblDocument(PINT_AE_UBL_INVOICE_FIXTURE, { fileName: 'INV-1001.xml' });
+
+    expect(document.documentType).toBe('invoice');
+    expect(document.buyer).toMatchObject({
+      buyer_id: '100000000200003',
+      buyer_name: 'Buyer LLC',
+      buyer_trn: '100000000200003',
+      buyer_electronic_address: '1000000002',
+      source_locator: '/Invoice/cac:AccountingCustomerParty/cac:Party',
+    });
+    expect(document.header).toMatchObject({
+      invoice_id: 'INV-1001',
+      issue_date: '2026-01-15',
+      invoice_type: '380',
+      seller_trn: '100000000100003',
+      seller_legal_reg_id_type: 'TL',
+      buyer_id: '100000000200003',
+      transaction_type_code: '00000000',
+      total_excl_vat: 1050,
+      vat_total: 52.5,
+      amount_due: 1102.5,
+      source_file_name: 'INV-1001.xml',
+      source_locator: '/Invoice',
+    });
+    expect(document.header.source_row_number).toBeUndefined();
+    expect(document.header.source_field_locators?.seller_legal_reg_id_type).toBe(
+      '/Invoice/cac:AccountingSupplierParty/cac:Party/cac:PartyLegalEntity/cbc:CompanyID/@schemeAgencyID'
+    );
+
+    expect(document.lines).toHaveLength(2);
+    expect(document.lines[1]).toMatchObject({
+      line_id: 'INV-1001-2',
+      invoice_id: 'INV-1001',
+      line_number: 2,
+      quantity: 5,
+      unit_of_measure: 'EA',
+      unit_price: 150,
+      line_total_excl_vat: 750,
+      vat_rate: 5,
+      vat_amount: 37.5,
+      source_locator: '/Invoice/cac:InvoiceLine[2]',
+    });
+    expect(document.lines[1].source_field_locators?.line_total_excl_vat).toBe(
+      '/Invoice/cac:InvoiceLine[2]/cbc:LineExtensionAmount'
+    );
+  });
+
+  it('reads credit notes and uses the supplier as counterparty for AP uploads', () => {
+    const document = parseUblDocument(PINT_AE_UBL_CREDIT_NOTE_FIXTURE, { direction: 'AP' });
+
+    expect(document.documentType).toBe('creditnote');
+    expect(document.header.invoice_type).toBe('381');
+    expect(document.header.direction).toBe('AP');
+    expect(document.buyer.buyer_name).toBe('Seller LLC');
+    expect(document.header.buyer_id).toBe('100000000100003');
+    expect(document.lines[0]).toMatchObject({ quantity: 3, source_locator: '/CreditNote/cac:CreditNoteLine[1]' });
+  });
+
+  it('ingests zip archives, dedupes parties and reports rejected documents', async () => {
+    const zip = new JSZip();
+    zip.file('batch/INV-1001.xml', PINT_AE_UBL_INVOICE_FIXTURE);
+    zip.file('batch/INV-1002.xml', PINT_AE_UBL_INVOICE_FIXTURE.replace('<cbc:ID>INV-1001</cbc:ID>', '<cbc:ID>INV-1002</cbc:ID>'));
+    zip.file('batch/order.xml', '<Order xmlns="urn:x"/>');
+    zip.file('batch/broken.xml', '<Invoice>');
+    zip.file('readme.txt', 'ignored');
+    const archive = buildFile(await zip.generateAsync({ type: 'uint8array' }), 'ubl.zip');
+    const single = buildFile(PINT_AE_UBL_CREDIT_NOTE_FIXTURE, 'CN-1001.xml');
+
+    const result = await parseUblFiles([archive, single], { direction: 'AR', uploadSessionId: 'session-1' });
+
+    expect(result.documents.map((document) => document.fileName)).toEqual([
+      'ubl.zip/batch/INV-1001.xml',
+      'ubl.zip/batch/INV-1002.xml',
+      'CN-1001.xml',
+    ]);
+    expect(result.headers.map((header) => header.invoice_id)).toEqual(['INV-1001', 'INV-1002', 'CN-1001']);
+    expect(result.buyers).toHaveLength(1);
+    expect(result.lines).toHaveLength(6);
+    expect(result.lines[0].upload_session_id).toBe('session-1');
+    expect(result.rejectedFiles).toEqual([
+      { fileName: 'ubl.zip/batch/broken.xml', reason: 'Invalid XML at line 1: missing </Invoice>' },
+      {
+        fileName: 'ubl.zip/batch/order.xml',
+        reason: 'Unsupported document root <Order>; expected a UBL 2.1 Invoice or CreditNote',
+      },
+    ]);
+  });
+
+  it('flattens documents into canonical combined-export rows', () => {
+    const rows = flattenUblDocuments([parseUblDocument(PINT_AE_UBL_INVOICE_FIXTURE)]);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ invoice_id: 'INV-1001', buyer_name: 'Buyer LLC', line_id: 'INV-1001-1' });
+    expect(Object.keys(rows[0])).toEqual(Object.keys(rows[1]));
+  });
+});
@@ -0,0 +1,344 @@
+import JSZip from 'jszip';
+import { Buyer, InvoiceHeader, InvoiceLine, ParsedData } from '@/types/compliance';
+import { mapHeaderRecord, mapLineRecord, mapPartyRecord, ParseOptions } from '@/lib/csvParser';
+import { detectUblDocumentType, SchematronDocumentType } from '@/lib/pintAE/schematronEngine';
+import { getNodeLocator, getTextContent, parseXml, XmlDocument, XmlElement, XmlNode } from '@/lib/xml/xmlDocument';
+import { selectNodes } from '@/lib/xml/xpath';
+
+// UBL 2.1 / PINT-AE ingestion. Each document is flattened into the same canonical
+// buyer/header/line columns the CSV templates use and then mapped by the CSV record
+// mappers, so both paths produce identical ParsedData. Every field keeps the XPath
+// locator of the element it was read from.
+
+export type UblParseOptions = ParseOptions & {
+  fileName?: string;
+};
+
+export interface UblSourceRecord {
+  values: Record<string, string>;
+  locator: string;
+  fieldLocators: Record<string, string>;
+}
+
+export interface UblParsedDocument {
+  fileName?: string;
+  documentType: SchematronDocumentType;
+  invoiceId: string;
+  // The document as uploaded, when it was parsed from text.
+  xml?: string;
+  buyer: Buyer;
+  header: InvoiceHeader;
+  lines: InvoiceLine[];
+  records: {
+    buyer: UblSourceRecord;
+    header: UblSourceRecord;
+    lines: UblSourceRecord[];
+  };
+}
+
+export interface UblRejectedFile {
+  fileName: string;
+  reason: string;
+}
+
+export interface UblIngestionResult extends ParsedData {
+  documents: UblParsedDocument[];
+  rejectedFiles: UblRejectedFile[];
+}
+
+type FieldPaths = Record<string, readonly string[]>;
+
+const VAT_SCHEME = "[cac:TaxScheme/cbc:ID = 'VAT']";
+
+// Paths relative to cac:Party. Alternatives are tried in order.
+const PARTY_FIELD_PATHS: FieldPaths = {
+  buyer_id: [
+    'cac:PartyIdentification/cbc:ID',
+    `cac:PartyTaxScheme${VAT_SCHEME}/cbc:CompanyID`,
+    'cbc:EndpointID',
+  ],
+  buyer_name: ['cac:PartyLegalEntity/cbc:RegistrationName', 'cac:PartyName/cbc:Name'],
+  buyer_trn: [`cac:PartyTaxScheme${VAT_SCHEME}/cbc:CompanyID`, 'cac:PartyTaxScheme/cbc:CompanyID'],
+  buyer_address: ['cac:PostalAddress/cbc:StreetName'],
+  buyer_city: ['cac:PostalAddress/cbc:CityName'],
+  buyer_postcode: ['cac:PostalAddress/cbc:PostalZone'],
+  buyer_subdivision: ['cac:PostalAddress/cbc:CountrySubentity', 'cac:PostalAddress/cbc:CountrySubentityCode'],
+  buyer_country: ['cac:PostalAddress/cac:Country/cbc:IdentificationCode'],
+  buyer_electronic_address: ['cbc:EndpointID'],
+};
+
+const SUPPLIER = 'cac:AccountingSupplierParty/cac:Party';
+const CUSTOMER = 'cac:AccountingCustomerParty/cac:Party';
+const DELIVERY_ADDRESS = 'cac:Delivery/cac:DeliveryLocation/cac:Address';
+
+// Paths relative to the Invoice / CreditNote root element.
+const HEADER_FIELD_PATHS: FieldPaths = {
+  invoice_number: ['cbc:ID'],
+  issue_date: ['cbc:IssueDate'],
+  invoice_type: ['cbc:InvoiceTypeCode', 'cbc:CreditNoteTypeCode'],
+  currency: ['cbc:DocumentCurrencyCode'],
+  tax_currency: ['cbc:TaxCurrencyCode'],
+  note: ['cbc:Note'],
+  spec_id: ['cbc:CustomizationID'],
+  business_process: ['cbc:ProfileID'],
+  transaction_type_code: ['cbc:ProfileExecutionID'],
+  payment_due_date: ['cbc:DueDate', 'cac:PaymentMeans/cbc:PaymentDueDate'],
+  payment_means_code: ['cac:PaymentMeans/cbc:PaymentMeansCode'],
+  supply_date: ['cac:Delivery/cbc:ActualDeliveryDate'],
+  seller_trn: [`${SUPPLIER}/cac:PartyTaxScheme${VAT_SCHEME}/cbc:CompanyID`, `${SUPPLIER}/cac:PartyTaxScheme/cbc:CompanyID`],
+  seller_name: [`${SUPPLIER}/cac:PartyLegalEntity/cbc:RegistrationName`, `${SUPPLIER}/cac:PartyName/cbc:Name`],
+  seller_address: [`${SUPPLIER}/cac:PostalAddress/cbc:StreetName`],
+  seller_city: [`${SUPPLIER}/cac:PostalAddress/cbc:CityName`],
+  seller_subdivision: [`${SUPPLIER}/cac:PostalAddress/cbc:CountrySubentity`, `${SUPPLIER}/cac:PostalAddress/cbc:CountrySubentityCode`],
+  seller_country: [`${SUPPLIER}/cac:PostalAddress/cac:Country/cbc:IdentificationCode`],
+  seller_electronic_address: [`${SUPPLIER}/cbc:EndpointID`],
+  seller_legal_reg_id: [`${SUPPLIER}/cac:PartyLegalEntity/cbc:CompanyID`],
+  seller_legal_reg_id_type: [`${SUPPLIER}/cac:PartyLegalEntity/cbc:CompanyID/@schemeAgencyID`],
+  principal_id: [`${SUPPLIER}/cac:AgentParty/cac:PartyTaxScheme/cbc:CompanyID`],
+  buyer_trn: [`${CUSTOMER}/cac:PartyTaxScheme${VAT_SCHEME}/cbc:CompanyID`, `${CUSTOMER}/cac:PartyTaxScheme/cbc:CompanyID`],
+  invoicing_period_start_date: ['cac:InvoicePeriod/cbc:StartDate'],
+  invoicing_period_end_date: ['cac:InvoicePeriod/cbc:EndDate'],
+  deliver_to_address_line_1: [`${DELIVERY_ADDRESS}/cbc:StreetName`],
+  deliver_to_city: [`${DELIVERY_ADDRESS}/cbc:CityName`],
+  deliver_to_country_subdivision: [`${DELIVERY_ADDRESS}/cbc:CountrySubentityCode`, `${DELIVERY_ADDRESS}/cbc:CountrySubentity`],
+  deliver_to_country_code: [`${DELIVERY_ADDRESS}/cac:Country/cbc:IdentificationCode`],
+  total_excl_vat: ['cac:LegalMonetaryTotal/cbc:TaxExclusiveAmount'],
+  vat_total: [
+    'cac:TaxTotal[cbc:TaxAmount/@currencyID = /*/cbc:DocumentCurrencyCode]/cbc:TaxAmount',
+    'cac:TaxTotal/cbc:TaxAmount',
+  ],
+  total_incl_vat: ['cac:LegalMonetaryTotal/cbc:TaxInclusiveAmount'],
+  amount_due: ['cac:LegalMonetaryTotal/cbc:PayableAmount'],
+  document_level_allowance_total: ['cac:LegalMonetaryTotal/cbc:AllowanceTotalAmount'],
+  document_level_charge_total: ['cac:LegalMonetaryTotal/cbc:ChargeTotalAmount'],
+  rounding_amount: ['cac:LegalMonetaryTotal/cbc:PayableRoundingAmount'],
+  tax_category_code: ['cac:TaxTotal/cac:TaxSubtotal/cac:TaxCategory/cbc:ID'],
+  tax_category_rate: ['cac:TaxTotal/cac:TaxSubtotal/cac:TaxCategory/cbc:Percent'],
+};
+
+// Paths relative to cac:InvoiceLine / cac:CreditNoteLine.
+const LINE_FIELD_PATHS: FieldPaths = {
+  quantity: ['cbc:InvoicedQuantity', 'cbc:CreditedQuantity'],
+  unit_of_measure: ['cbc:InvoicedQuantity/@unitCode', 'cbc:CreditedQuantity/@unitCode'],
+  line_total_excl_vat: ['cbc:LineExtensionAmount'],
+  unit_price: ['cac:Price/cbc:PriceAmount'],
+  line_discount: ["cac:Price/cac:AllowanceCharge[cbc:ChargeIndicator = 'false']/cbc:Amount"],
+  description: ['cac:Item/cbc:Description'],
+  item_name: ['cac:Item/cbc:Name'],
+  tax_category_code: ['cac:Item/cac:ClassifiedTaxCategory/cbc:ID'],
+  vat_rate: ['cac:Item/cac:ClassifiedTaxCategory/cbc:Percent'],
+  exemption_reason_code: ['cac:Item/cac:ClassifiedTaxCategory/cbc:TaxExemptionReasonCode'],
+  exemption_reason_text: ['cac:Item/cac:ClassifiedTaxCategory/cbc:TaxExemptionReason'],
+  vat_amount: ['cac:ItemPriceExtension/cac:TaxTotal/cbc:TaxAmount', 'cac:TaxTotal/cbc:TaxAmount'],
+};
+
+const LINE_ALLOWANCES = "cac:AllowanceCharge[cbc:ChargeIndicator = 'false']/cbc:Amount";
+const LINE_CHARGES = "cac:AllowanceCharge[cbc:ChargeIndicator = 'true']/cbc:Amount";
+
+function nodeValue(node: XmlNode): string {
+  return getTextContent(node).trim();
+}
+
+function readFields(context: XmlElement, paths: FieldPaths, record: UblSourceRecord): void {
+  for (const [field, alternatives] of Object.entries(paths)) {
+    for (const path of alternatives) {
+      const node = selectNodes(path, context).find((candidate) => nodeValue(candidate) !== '');
+      if (node) {
+        record.values[field] = nodeValue(node);
+        record.fieldLocators[field] = getNodeLocator(node);
+        break;
+      }
+    }
+  }
+}
+
+function readAmountTotal(context: XmlElement, path: string, field: string, record: UblSourceRecord): void {
+  const nodes = selectNodes(path, context);
+  if (nodes.length === 0) return;
+  const total = nodes.reduce((sum, node) => sum + (parseFloat(nodeValue(node)) || 0), 0);
+  record.values[field] = total.toFixed(2);
+  record.fieldLocators[field] = getNodeLocator(nodes[0]);
+}
+
+function createSourceRecord(element: XmlElement): UblSourceRecord {
+  return { values: {}, locator: getNodeLocator(element), fieldLocators: {} };
+}
+
+function withSource<T extends Buyer | InvoiceHeader | InvoiceLine>(
+  mapped: T,
+  source: UblSourceRecord,
+  fileName?: string
+): T {
+  return {
+    ...mapped,
+    source_file_name: fileName,
+    source_locator: source.locator,
+    source_field_locators: source.fieldLocators,
+  };
+}
+
+function toXmlDocument(source: string | XmlDocument): XmlDocument {
+  return typeof source === 'string' ? parseXml(source) : source;
+}
+
+/**
+ * Maps one UBL Invoice or CreditNote into a buyer, a header and its lines.
+ * For AP uploads the counterparty (and therefore the "buyer" record) is the supplier.
+ */
+export function parseUblDocument(source: string | XmlDocument, options: UblParseOptions = {}): UblParsedDocument {
+  const document = toXmlDocument(source);
+  const documentType = detectUblDocumentType(document);
+  const root = document.documentElement;
+  if (!documentType) {
+    throw new Error(`Unsupported document root <${root.name}>; expected a UBL 2.1 Invoice or CreditNote`);
+  }
+
+  const direction = options.direction || 'AR';
+  const headerSource = createSourceRecord(root);
+  readFields(root, HEADER_FIELD_PATHS, headerSource);
+  const invoiceId = headerSource.values.invoice_number;
+  if (!invoiceId) {
+    throw new Error(`${root.localName} has no cbc:ID`);
+  }
+  headerSource.values.invoice_id = invoiceId;
+  headerSource.fieldLocators.invoice_id = headerSource.fieldLocators.invoice_number;
+
+  const counterpartyPath = direction === 'AP' ? SUPPLIER : CUSTOMER;
+  const party = selectNodes(counterpartyPath, root)[0] as XmlElement | undefined;
+  const buyerSource = party ? createSourceRecord(party) : { values: {}, locator: getNodeLocator(root), fieldLocators: {} };
+  if (party) readFields(party, PARTY_FIELD_PATHS, buyerSource);
+  if (!buyerSource.values.buyer_id && buyerSource.values.buyer_name) {
+    buyerSource.values.buyer_id = buyerSource.values.buyer_name;
+    buyerSource.fieldLocators.buyer_id = buyerSource.fieldLocators.buyer_name;
+  }
+  if (buyerSource.values.buyer_id) {
+    headerSource.values.buyer_id = buyerSource.values.buyer_id;
+    headerSource.fieldLocators.buyer_id = buyerSource.fieldLocators.buyer_id;
+  }
+
+  const lineElements = selectNodes('cac:InvoiceLine | cac:CreditNoteLine', root) as XmlElement[];
+  const lineSources = lineElements.map((element, index) => {
+    const lineSource = createSourceRecord(element);
+    const lineIdNode = selectNodes('cbc:ID', element)[0];
+    const lineId = lineIdNode ? nodeValue(lineIdNode) : String(index + 1);
+    lineSource.values.invoice_id = invoiceId;
+    lineSource.values.line_id = `${invoiceId}-${lineId}`;
+    lineSource.values.line_number = String(parseInt(lineId, 10) || index + 1);
+    if (lineIdNode) {
+      lineSource.fieldLocators.line_id = getNodeLocator(lineIdNode);
+      lineSource.fieldLocators.line_number = getNodeLocator(lineIdNode);
+    }
+    readFields(element, LINE_FIELD_PATHS, lineSource);
+    readAmountTotal(element, LINE_ALLOWANCES, 'line_allowance_amount', lineSource);
+    readAmountTotal(element, LINE_CHARGES, 'line_charge_amount', lineSource);
+    if (lineSource.values.vat_amount === undefined && lineSource.values.line_total_excl_vat && lineSource.values.vat_rate) {
+      // PINT-AE line VAT amount is optional; derive it so line-level VAT checks see a value.
+      const derived = (parseFloat(lineSource.values.line_total_excl_vat) * parseFloat(lineSource.values.vat_rate)) / 100;
+      lineSource.values.vat_amount = derived.toFixed(2);
+    }
+    return lineSource;
+  });
+
+  const mapOptions: ParseOptions = {
+    direction,
+    uploadSessionId: options.uploadSessionId,
+    uploadManifestId: options.uploadManifestId,
+  };
+
+  return {
+    fileName: options.fileName,
+    documentType,
+    invoiceId,
+    ...(typeof source === 'string' ? { xml: source } : {}),
+    buyer: withSource(mapPartyRecord(buyerSource.values, mapOptions), buyerSource, options.fileName),
+    header: withSource(mapHeaderRecord(headerSource.values, mapOptions), headerSource, options.fileName),
+    lines: lineSources.map((lineSource) =>
+      withSource(mapLineRecord(lineSource.values, mapOptions), lineSource, options.fileName)
+    ),
+    records: { buyer: buyerSource, header: headerSource, lines: lineSources },
+  };
+}
+
+export function isUblUploadFile(fileName: string): boolean {
+  return /\.(xml|zip)$/i.test(fileName);
+}
+
+async function readUploadEntries(file: File): Promise<Array<{ fileName: string; text: string }>> {
+  if (!/\.zip$/i.test(file.name)) {
+    return [{ fileName: file.name, text: await file.text() }];
+  }
+
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const entries = Object.values(zip.files)
+    .filter((entry) => !entry.dir && /\.xml$/i.test(entry.name) && !entry.name.startsWith('__MACOSX/'))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return Promise.all(
+    entries.map(async (entry) => ({
+      fileName: `${file.name}/${entry.name}`,
+      text: await entry.async('string'),
+    }))
+  );
+}
+
+/**
+ * Parses single UBL files and/or zip archives of UBL files. Documents that fail to
+ * parse are reported in `rejectedFiles` rather than aborting the whole upload.
+ */
+export async function parseUblFiles(files: File[], options: ParseOptions = {}): Promise<UblIngestionResult> {
+  const documents: UblParsedDocument[] = [];
+  const rejectedFiles: UblRejectedFile[] = [];
+
+  for (const file of files) {
+    let entries: Array<{ fileName: string; text: string }>;
+    try {
+      entries = await readUploadEntries(file);
+    } catch (error) {
+      rejectedFiles.push({ fileName: file.name, reason: error instanceof Error ? error.message : 'Unreadable archive' });
+      continue;
+    }
+    if (entries.length === 0) {
+      rejectedFiles.push({ fileName: file.name, reason: 'Archive contains no .xml files' });
+    }
+
+    for (const entry of entries) {
+      try {
+        documents.push(parseUblDocument(entry.text, { ...options, fileName: entry.fileName }));
+      } catch (error) {
+        rejectedFiles.push({ fileName: entry.fileName, reason: error instanceof Error ? error.message : 'Unreadable document' });
+      }
+    }
+  }
+
+  const buyersById = new Map<string, Buyer>();
+  documents.forEach((document) => {
+    if (!buyersById.has(document.buyer.buyer_id)) buyersById.set(document.buyer.buyer_id, document.buyer);
+  });
+
+  return {
+    buyers: Array.from(buyersById.values()),
+    headers: documents.map((document) => document.header),
+    lines: documents.flatMap((document) => document.lines),
+    direction: options.direction,
+    uploadSessionId: options.uploadSessionId,
+    uploadManifestId: options.uploadManifestId,
+    ublDocuments: documents.map((document) => ({
+      fileName: document.fileName,
+      invoiceId: document.invoiceId,
+      xml: document.xml!,
+    })),
+    documents,
+    rejectedFiles,
+  };
+}
+
+/** One canonical "combined export" row per document line, for the mapping wizard preview. */
+export function flattenUblDocuments(documents: UblParsedDocument[]): Record<string, string>[] {
+  const rows = documents.flatMap((document) => {
+    const base = { ...document.records.buyer.values, ...document.records.header.values };
+    if (document.records.lines.length === 0) return [base];
+    return document.records.lines.map((line) => ({ ...base, ...line.values }));
+  });
+  const columns = Array.from(new Set(rows.flatMap((row) => Object.keys(row))));
+  return rows.map((row) => Object.fromEntries(columns.map((column) => [column, row[column] ?? ''])));
+}
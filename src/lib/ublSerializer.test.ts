@@ -0,0 +1,102 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { PINT_AE_UBL_CREDIT_NOTE_FIXTURE, PINT_AE_UBL_INVOICE_FIXTURE } from '@/lib/pintAE/fixtures';
+import { runSchematronValidation } from '@/lib/pintAE/schematronEngine';
+import { parseUblDocument } from '@/lib/ublParser';
+import { buildTaxBreakdown, buildUblArchive, buildUblFileName, serializeInvoiceToUbl } from '@/lib/ublSerializer';
+import { InvoiceHeader, InvoiceLine } from '@/types/compliance';
+
+function readBlob(blob: Blob): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+}
+
+function withoutLocators<T extends { source_field_locators?: Record<string, string> }>(record: T) {
+  const { source_field_locators: _locators, ...rest } = record;
+  return rest;
+}
+
+describe('UBL XML generation', () => {
+  it('round-trips a mapped invoice through UBL and passes Schematron apart from unmapped terms', () => {
+    const parsed = parseUblDocument(PINT_AE_UBL_INVOICE_FIXTURE);
+    const xml = serializeInvoiceToUbl({ header: parsed.header, lines: parsed.lines, buyer: parsed.buyer });
+
+    const reparsed = parseUblDocument(xml);
+    expect(reparsed.header).toEqual(parsed.header);
+    expect(reparsed.lines).toEqual(parsed.lines);
+
+    // Authority name (BTAE-12) has no canonical column, so the dry-run surfaces it.
+    const result = runSchematronValidation(xml);
+    expect(result.exceptions.map((exception) => exception.check_id)).toEqual(['IBR-172-AE']);
+  });
+
+  it('emits CreditNote roots for credit note type codes', () => {
+    const parsed = parseUblDocument(PINT_AE_UBL_CREDIT_NOTE_FIXTURE);
+    const xml = serializeInvoiceToUbl({ header: parsed.header, lines: parsed.lines, buyer: parsed.buyer });
+
+    expect(xml).toContain('<CreditNote xmlns="urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2"');
+    expect(xml).toContain('<cbc:CreditedQuantity unitCode="EA">3</cbc:CreditedQuantity>');
+    expect(xml).not.toContain('cbc:DueDate');
+    expect(withoutLocators(parseUblDocument(xml).header)).toEqual(withoutLocators(parsed.header));
+    // The source credit note has a due date but no payment means code, which PINT-AE credit notes need.
+    expect(runSchematronValidation(xml).exceptions.map((exception) => exception.check_id)).toEqual(['IBR-172-AE', 'IBR-049']);
+  });
+
+  it('writes delivery, invoicing period, allowances and escapes text content', () => {
+    const header: InvoiceHeader = {
+      invoice_id: 'INV/9',
+      invoice_number: 'INV/9',
+      issue_date: '2026-03-01',
+      seller_trn: '100000000100003',
+      buyer_id: 'B1',
+      currency: 'USD',
+      tax_currency: 'AED',
+      fx_rate: 3.6725,
+      note: 'Tools & <parts>',
+      document_level_allowance_total: 10,
+      tax_category_code: 'S',
+      tax_category_rate: 5,
+      invoicing_period: { start_date: '2026-02-01', end_date: '2026-02-28' },
+      delivery_information: { address_line_1: 'Warehouse 4', city: 'Dubai', country_subdivision: 'DU', country_code: 'AE' },
+    };
+    const lines: InvoiceLine[] = [
+      { line_id: 'L1', invoice_id: 'INV/9', line_number: 1, quantity: 2, unit_price: 50, line_total_excl_vat: 100, vat_rate: 5, vat_amount: 5 },
+      { line_id: 'L2', invoice_id: 'INV/9', line_number: 2, quantity: 1, unit_price: 40, line_total_excl_vat: 40, vat_rate: 0, vat_amount: 0, tax_category_code: 'Z', line_discount: 5 },
+    ];
+
+    const xml = serializeInvoiceToUbl({ header, lines }, { uuid: 'fixed-uuid' });
+
+    expect(xml).toContain('<cbc:Note>Tools &amp; &lt;parts&gt;</cbc:Note>');
+    expect(xml).toContain('<cbc:UUID>fixed-uuid</cbc:UUID>');
+    expect(xml).toMatch(/<cac:InvoicePeriod>\s*<cbc:StartDate>2026-02-01<\/cbc:StartDate>\s*<cbc:EndDate>2026-02-28<\/cbc:EndDate>/);
+    expect(xml).toContain('<cbc:CountrySubentityCode>DU</cbc:CountrySubentityCode>');
+    expect(xml).toContain('<cbc:AllowanceTotalAmount currencyID="USD">10.00</cbc:AllowanceTotalAmount>');
+    // Every line carries its gross price; only the discounted one has a non-zero price discount.
+    expect(xml).toContain('<cbc:BaseAmount currencyID="USD">50.00</cbc:BaseAmount>');
+    expect(xml).toContain('<cbc:BaseAmount currencyID="USD">45.00</cbc:BaseAmount>');
+    expect(runSchematronValidation(xml).exceptions.map((exception) => exception.check_id)).not.toContain('IBR-126-AE');
+    expect(xml).toContain('<cbc:TaxAmount currencyID="AED">16.53</cbc:TaxAmount>');
+    expect(buildTaxBreakdown(header, lines)).toEqual([
+      { code: 'S', rate: 5, taxable: 90, tax: 4.5 },
+      { code: 'Z', rate: 0, taxable: 40, tax: 0 },
+    ]);
+    expect(buildUblFileName(header)).toBe('Invoice_INV_9.xml');
+  });
+
+  it('bundles one XML file per invoice into a zip archive', async () => {
+    const parsed = parseUblDocument(PINT_AE_UBL_INVOICE_FIXTURE);
+    const credit = parseUblDocument(PINT_AE_UBL_CREDIT_NOTE_FIXTURE);
+
+    const archive = await buildUblArchive([
+      { header: parsed.header, lines: parsed.lines, buyer: parsed.buyer },
+      { header: credit.header, lines: credit.lines, buyer: credit.buyer },
+    ]);
+    const zip = await JSZip.loadAsync(await readBlob(archive));
+
+    expect(Object.keys(zip.files).sort()).toEqual(['CreditNote_CN-1001.xml', 'Invoice_INV-1001.xml']);
+  });
+});
@@ -0,0 +1,402 @@
+import JSZip from 'jszip';
+import { Buyer, InvoiceHeader, InvoiceLine } from '@/types/compliance';
+import { SchematronDocumentType } from '@/lib/pintAE/schematronEngine';
+import { UBL_NAMESPACES } from '@/lib/xml/xpath';
+
+// PINT-AE UBL 2.1 serializer: the inverse of ublParser. Elements are emitted in UBL schema
+// order and empty values are dropped, so optional groups only appear when data is present.
+
+export interface UblInvoiceInput {
+  header: InvoiceHeader;
+  lines: InvoiceLine[];
+  buyer?: Buyer;
+}
+
+export interface UblSerializeOptions {
+  documentType?: SchematronDocumentType;
+  uuid?: string;
+}
+
+export const PINT_AE_CUSTOMIZATION_ID = 'urn:peppol:pint:billing-1@ae-1';
+export const PINT_AE_PROFILE_ID = 'urn:peppol:bis:billing';
+const UAE_ENDPOINT_SCHEME = '0235';
+const DEFAULT_UNIT_CODE = 'C62';
+const CREDIT_NOTE_TYPE_CODES = new Set(['381', '81', '83', '261', '262', '296', '308', '396', '420', '458', '532']);
+
+type Attributes = Record<string, string | undefined>;
+
+interface XmlSpec {
+  name: string;
+  attributes?: Attributes;
+  text?: string;
+  children?: XmlSpec[];
+}
+
+type Child = XmlSpec | null | undefined | false;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function leaf(name: string, value: string | number | undefined | null, attributes?: Attributes): XmlSpec | null {
+  if (value === undefined || value === null) return null;
+  const text = String(value).trim();
+  if (text === '') return null;
+  return { name, text, attributes };
+}
+
+/** Aggregate element; omitted entirely when none of its children carry data. */
+function group(name: string, children: Child[], attributes?: Attributes): XmlSpec | null {
+  const present = children.filter((child): child is XmlSpec => Boolean(child));
+  if (present.length === 0) return null;
+  return { name, children: present, attributes };
+}
+
+function renderAttributes(attributes?: Attributes): string {
+  if (!attributes) return '';
+  return Object.entries(attributes)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined && entry[1] !== '')
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+}
+
+function render(spec: XmlSpec, depth: number): string {
+  const indent = '  '.repeat(depth);
+  const open = `${spec.name}${renderAttributes(spec.attributes)}`;
+  if (spec.children) {
+    const inner = spec.children.map((child) => render(child, depth + 1)).join('\n');
+    return `${indent}<${open}>\n${inner}\n${indent}</${spec.name}>`;
+  }
+  return `${indent}<${open}>${escapeXml(spec.text ?? '')}</${spec.name}>`;
+}
+
+function round2(value: number): number {
+  return Math.round((value + Number.EPSILON) * 100) / 100;
+}
+
+function amount(name: string, value: number | undefined, currency: string): XmlSpec | null {
+  if (value === undefined || Number.isNaN(value)) return null;
+  return leaf(name, round2(value).toFixed(2), { currencyID: currency });
+}
+
+function percent(value: number | undefined): string | undefined {
+  return value === undefined || Number.isNaN(value) ? undefined : String(round2(value));
+}
+
+// FNV-1a based, so repeated dry-runs of the same invoice produce byte-identical XML.
+function deterministicUuid(seed: string): string {
+  const hashes = [0x811c9dc5, 0x01000193, 0x9e3779b9, 0x85ebca6b].map((basis) => {
+    let hash = basis >>> 0;
+    for (let i = 0; i < seed.length; i++) {
+      hash ^= seed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+  });
+  const hex = hashes.join('');
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `4${hex.slice(13, 16)}`,
+    `${((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join('-');
+}
+
+export function resolveUblDocumentType(header: InvoiceHeader): SchematronDocumentType {
+  return CREDIT_NOTE_TYPE_CODES.has(header.invoice_type ?? '') ? 'creditnote' : 'invoice';
+}
+
+function taxCategory(
+  name: string,
+  code: string | undefined,
+  rate: number | undefined,
+  exemption?: { code?: string; text?: string }
+): XmlSpec | null {
+  if (!code) return null;
+  return group(name, [
+    leaf('cbc:ID', code),
+    code === 'O' ? null : leaf('cbc:Percent', percent(rate ?? 0)),
+    leaf('cbc:TaxExemptionReasonCode', exemption?.code),
+    leaf('cbc:TaxExemptionReason', exemption?.text),
+    group('cac:TaxScheme', [leaf('cbc:ID', 'VAT')]),
+  ]);
+}
+
+function partySpec(party: {
+  electronicAddress?: string;
+  name?: string;
+  street?: string;
+  city?: string;
+  postcode?: string;
+  subdivision?: string;
+  country?: string;
+  trn?: string;
+  legalRegId?: string;
+  legalRegIdType?: string;
+  principalId?: string;
+}): XmlSpec | null {
+  return group('cac:Party', [
+    leaf('cbc:EndpointID', party.electronicAddress, { schemeID: UAE_ENDPOINT_SCHEME }),
+    group('cac:PostalAddress', [
+      leaf('cbc:StreetName', party.street),
+      leaf('cbc:CityName', party.city),
+      leaf('cbc:PostalZone', party.postcode),
+      leaf('cbc:CountrySubentity', party.subdivision),
+      group('cac:Country', [leaf('cbc:IdentificationCode', party.country)]),
+    ]),
+    party.trn
+      ? group('cac:PartyTaxScheme', [leaf('cbc:CompanyID', party.trn), group('cac:TaxScheme', [leaf('cbc:ID', 'VAT')])])
+      : null,
+    group('cac:PartyLegalEntity', [
+      leaf('cbc:RegistrationName', party.name),
+      leaf('cbc:CompanyID', party.legalRegId, { schemeAgencyID: party.legalRegIdType }),
+    ]),
+    party.principalId
+      ? group('cac:AgentParty', [
+          group('cac:PartyTaxScheme', [leaf('cbc:CompanyID', party.principalId), group('cac:TaxScheme', [leaf('cbc:ID', 'VAT')])]),
+        ])
+      : null,
+  ]);
+}
+
+interface TaxBreakdownRow {
+  code: string;
+  rate: number;
+  taxable: number;
+  tax: number;
+  exemption?: { code?: string; text?: string };
+}
+
+/**
+ * VAT breakdown (IBG-23) per category and rate. Document-level allowances and charges
+ * are attributed to the header's tax category.
+ */
+export function buildTaxBreakdown(header: InvoiceHeader, lines: InvoiceLine[]): TaxBreakdownRow[] {
+  const rows = new Map<string, TaxBreakdownRow>();
+  const rowFor = (code: string, rate: number) => {
+    const key = `${code}|${rate}`;
+    if (!rows.has(key)) rows.set(key, { code, rate, taxable: 0, tax: 0 });
+    return rows.get(key)!;
+  };
+
+  lines.forEach((line) => {
+    const row = rowFor(line.tax_category_code || header.tax_category_code || 'S', line.vat_rate ?? 0);
+    row.taxable += line.line_total_excl_vat;
+    row.tax += line.vat_amount;
+    if (!row.exemption && (line.exemption_reason_code || line.exemption_reason_text)) {
+      row.exemption = { code: line.exemption_reason_code, text: line.exemption_reason_text };
+    }
+  });
+
+  const documentAdjustment = (header.document_level_charge_total ?? 0) - (header.document_level_allowance_total ?? 0);
+  if (documentAdjustment !== 0) {
+    const rate = header.tax_category_rate ?? 0;
+    const row = rowFor(header.tax_category_code || 'S', rate);
+    row.taxable += documentAdjustment;
+    row.tax += (documentAdjustment * rate) / 100;
+  }
+
+  return Array.from(rows.values()).map((row) => ({ ...row, taxable: round2(row.taxable), tax: round2(row.tax) }));
+}
+
+function documentAllowanceCharge(
+  isCharge: boolean,
+  value: number | undefined,
+  header: InvoiceHeader,
+  currency: string
+): XmlSpec | null {
+  if (!value) return null;
+  return group('cac:AllowanceCharge', [
+    leaf('cbc:ChargeIndicator', String(isCharge)),
+    leaf('cbc:AllowanceChargeReason', isCharge ? 'Document level charge' : 'Document level allowance'),
+    amount('cbc:Amount', value, currency),
+    taxCategory('cac:TaxCategory', header.tax_category_code || 'S', header.tax_category_rate ?? 0),
+  ]);
+}
+
+function lineAllowanceCharge(isCharge: boolean, value: number | undefined, currency: string): XmlSpec | null {
+  if (!value) return null;
+  return group('cac:AllowanceCharge', [
+    leaf('cbc:ChargeIndicator', String(isCharge)),
+    leaf('cbc:AllowanceChargeReason', isCharge ? 'Line charge' : 'Line allowance'),
+    amount('cbc:Amount', value, currency),
+  ]);
+}
+
+function lineSpec(line: InvoiceLine, index: number, header: InvoiceHeader, documentType: SchematronDocumentType): XmlSpec | null {
+  const currency = header.currency;
+  const isCreditNote = documentType === 'creditnote';
+  const discount = line.line_discount ?? 0;
+  const unitCode = line.unit_of_measure || DEFAULT_UNIT_CODE;
+
+  return group(isCreditNote ? 'cac:CreditNoteLine' : 'cac:InvoiceLine', [
+    leaf('cbc:ID', line.line_number || index + 1),
+    leaf(isCreditNote ? 'cbc:CreditedQuantity' : 'cbc:InvoicedQuantity', line.quantity, { unitCode }),
+    amount('cbc:LineExtensionAmount', line.line_total_excl_vat, currency),
+    lineAllowanceCharge(false, line.line_allowance_amount, currency),
+    lineAllowanceCharge(true, line.line_charge_amount, currency),
+    group('cac:Item', [
+      leaf('cbc:Description', line.description),
+      leaf('cbc:Name', line.item_name || line.description || `Line ${line.line_number || index + 1}`),
+      taxCategory('cac:ClassifiedTaxCategory', line.tax_category_code || header.tax_category_code || 'S', line.vat_rate, {
+        code: line.exemption_reason_code,
+        text: line.exemption_reason_text,
+      }),
+    ]),
+    group('cac:Price', [
+      amount('cbc:PriceAmount', line.unit_price, currency),
+      leaf('cbc:BaseQuantity', 1, { unitCode }),
+      // Unlike the line allowances, this group is written even without a discount: it carries
+      // the gross price (IBT-148), which ibr-126-ae requires on every line.
+      group('cac:AllowanceCharge', [
+        leaf('cbc:ChargeIndicator', 'false'),
+        amount('cbc:Amount', discount, currency),
+        amount('cbc:BaseAmount', line.unit_price + discount, currency),
+      ]),
+    ]),
+    group('cac:ItemPriceExtension', [
+      amount('cbc:Amount', line.line_total_excl_vat, currency),
+      group('cac:TaxTotal', [amount('cbc:TaxAmount', line.vat_amount, currency)]),
+    ]),
+  ]);
+}
+
+/** Serializes one invoice (header, its lines and the counterparty) as PINT-AE UBL XML. */
+export function serializeInvoiceToUbl(input: UblInvoiceInput, options: UblSerializeOptions = {}): string {
+  const { header, lines, buyer } = input;
+  const documentType = options.documentType ?? resolveUblDocumentType(header);
+  const isCreditNote = documentType === 'creditnote';
+  const currency = header.currency;
+
+  const lineExtension = round2(lines.reduce((sum, line) => sum + line.line_total_excl_vat, 0));
+  const breakdown = buildTaxBreakdown(header, lines);
+  const vatTotal = header.vat_total ?? round2(breakdown.reduce((sum, row) => sum + row.tax, 0));
+  const allowanceTotal = header.document_level_allowance_total;
+  const chargeTotal = header.document_level_charge_total;
+  const taxExclusive = header.total_excl_vat ?? round2(lineExtension - (allowanceTotal ?? 0) + (chargeTotal ?? 0));
+  const taxInclusive = header.total_incl_vat ?? round2(taxExclusive + vatTotal);
+  const payable = header.amount_due ?? round2(taxInclusive + (header.rounding_amount ?? 0));
+  const invoicingPeriod = header.invoicing_period ?? {
+    start_date: header.invoicing_period_start_date,
+    end_date: header.invoicing_period_end_date,
+  };
+  const delivery = header.delivery_information ?? {
+    address_line_1: header.deliver_to_address_line_1,
+    city: header.deliver_to_city,
+    country_subdivision: header.deliver_to_country_subdivision,
+    country_code: header.deliver_to_country_code,
+  };
+  const taxCurrency = header.tax_currency && header.tax_currency !== currency ? header.tax_currency : undefined;
+
+  const root = group(isCreditNote ? 'CreditNote' : 'Invoice', [
+    leaf('cbc:CustomizationID', header.spec_id || PINT_AE_CUSTOMIZATION_ID),
+    leaf('cbc:ProfileID', header.business_process || PINT_AE_PROFILE_ID),
+    leaf('cbc:ProfileExecutionID', header.transaction_type_code),
+    leaf('cbc:ID', header.invoice_number || header.invoice_id),
+    leaf('cbc:UUID', options.uuid ?? deterministicUuid(`${header.seller_trn}|${header.invoice_number || header.invoice_id}|${header.issue_date}`)),
+    leaf('cbc:IssueDate', header.issue_date),
+    isCreditNote ? null : leaf('cbc:DueDate', header.payment_due_date),
+    leaf(isCreditNote ? 'cbc:CreditNoteTypeCode' : 'cbc:InvoiceTypeCode', header.invoice_type || (isCreditNote ? '381' : '380')),
+    leaf('cbc:Note', header.note),
+    leaf('cbc:DocumentCurrencyCode', currency),
+    leaf('cbc:TaxCurrencyCode', taxCurrency),
+    group('cac:InvoicePeriod', [leaf('cbc:StartDate', invoicingPeriod.start_date), leaf('cbc:EndDate', invoicingPeriod.end_date)]),
+    group('cac:AccountingSupplierParty', [
+      partySpec({
+        electronicAddress: header.seller_electronic_address,
+        name: header.seller_name,
+        street: header.seller_address,
+        city: header.seller_city,
+        subdivision: header.seller_subdivision,
+        country: header.seller_country,
+        trn: header.seller_trn,
+        legalRegId: header.seller_legal_reg_id,
+        legalRegIdType: header.seller_legal_reg_id_type,
+        principalId: header.principal_id,
+      }),
+    ]),
+    group('cac:AccountingCustomerParty', [
+      partySpec({
+        electronicAddress: buyer?.buyer_electronic_address,
+        name: buyer?.buyer_name,
+        street: buyer?.buyer_address,
+        city: buyer?.buyer_city,
+        postcode: buyer?.buyer_postcode,
+        subdivision: buyer?.buyer_subdivision,
+        country: buyer?.buyer_country,
+        trn: header.buyer_trn || buyer?.buyer_trn,
+      }),
+    ]),
+    group('cac:Delivery', [
+      leaf('cbc:ActualDeliveryDate', header.supply_date),
+      group('cac:DeliveryLocation', [
+        group('cac:Address', [
+          leaf('cbc:StreetName', delivery.address_line_1),
+          leaf('cbc:CityName', delivery.city),
+          leaf('cbc:CountrySubentityCode', delivery.country_subdivision),
+          group('cac:Country', [leaf('cbc:IdentificationCode', delivery.country_code)]),
+        ]),
+      ]),
+    ]),
+    group('cac:PaymentMeans', [
+      leaf('cbc:PaymentMeansCode', header.payment_means_code),
+      isCreditNote ? leaf('cbc:PaymentDueDate', header.payment_due_date) : null,
+    ]),
+    documentAllowanceCharge(false, allowanceTotal, header, currency),
+    documentAllowanceCharge(true, chargeTotal, header, currency),
+    group('cac:TaxTotal', [
+      amount('cbc:TaxAmount', vatTotal, currency),
+      ...breakdown.map((row) =>
+        group('cac:TaxSubtotal', [
+          amount('cbc:TaxableAmount', row.taxable, currency),
+          amount('cbc:TaxAmount', row.tax, currency),
+          taxCategory('cac:TaxCategory', row.code, row.rate, row.exemption),
+        ])
+      ),
+    ]),
+    taxCurrency
+      ? group('cac:TaxTotal', [amount('cbc:TaxAmount', vatTotal * (header.fx_rate ?? 1), taxCurrency)])
+      : null,
+    group('cac:LegalMonetaryTotal', [
+      amount('cbc:LineExtensionAmount', lineExtension, currency),
+      amount('cbc:TaxExclusiveAmount', taxExclusive, currency),
+      amount('cbc:TaxInclusiveAmount', taxInclusive, currency),
+      amount('cbc:AllowanceTotalAmount', allowanceTotal, currency),
+      amount('cbc:ChargeTotalAmount', chargeTotal, currency),
+      amount('cbc:PayableRoundingAmount', header.rounding_amount, currency),
+      amount('cbc:PayableAmount', payable, currency),
+    ]),
+    ...lines.map((line, index) => lineSpec(line, index, header, documentType)),
+  ], {
+    xmlns: isCreditNote ? UBL_NAMESPACES.cn : UBL_NAMESPACES.ubl,
+    'xmlns:cac': UBL_NAMESPACES.cac,
+    'xmlns:cbc': UBL_NAMESPACES.cbc,
+  })!;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${render(root, 0)}\n`;
+}
+
+export function buildUblFileName(header: InvoiceHeader): string {
+  const prefix = resolveUblDocumentType(header) === 'creditnote' ? 'CreditNote' : 'Invoice';
+  const id = (header.invoice_number || header.invoice_id).replace(/[^A-Za-z0-9._-]+/g, '_');
+  return `${prefix}_${id}.xml`;
+}
+
+/** Zips one UBL file per invoice; duplicate file names get a numeric suffix. */
+export async function buildUblArchive(invoices: UblInvoiceInput[]): Promise<Blob> {
+  const zip = new JSZip();
+  const used = new Map<string, number>();
+  invoices.forEach((invoice) => {
+    const fileName = buildUblFileName(invoice.header);
+    const count = used.get(fileName) ?? 0;
+    used.set(fileName, count + 1);
+    zip.file(count === 0 ? fileName : fileName.replace(/\.xml$/, `_${count + 1}.xml`), serializeInvoiceToUbl(invoice));
+  });
+  return zip.generateAsync({ type: 'blob' });
+}
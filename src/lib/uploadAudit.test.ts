@@ -0,0 +1,48 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { fetchUploadAudits, saveUploadAudit } from '@/lib/api/uploadAuditApi';
+import { computeFileSha256, filterUploadAudits, type NewUploadAuditLogEntry, type UploadAuditLogEntry } from './uploadAudit';
+
+const upload: NewUploadAuditLogEntry = {
+  uploadSessionId: 'upload-1',
+  datasetType: 'AR',
+  buyersCount: 1,
+  headersCount: 1,
+  linesCount: 1,
+  files: [{ fileName: 'headers.csv', fileSize: 10, sha256: 'ba7816bf8f01cfea' }],
+  datasets: [],
+  relationalChecks: [],
+};
+
+function entry(overrides: Partial<UploadAuditLogEntry>): UploadAuditLogEntry {
+  return { id: 'audit-1', createdAt: '2026-03-10T09:00:00.000Z', ...upload, ...overrides };
+}
+
+describe('upload audit', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('fingerprints file contents with SHA-256', async () => {
+    await expect(computeFileSha256(new Blob(['abc']))).resolves.toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+
+  it('filters by file name, hash, session or user and by inclusive upload dates', () => {
+    const entries = [
+      entry({}),
+      entry({ id: 'audit-2', createdAt: '2026-03-12T09:00:00.000Z', uploadSessionId: 'upload-2', uploadedBy: 'auditor@example.ae', files: [] }),
+    ];
+
+    expect(filterUploadAudits(entries, { search: 'BA7816' }).map((e) => e.id)).toEqual(['audit-1']);
+    expect(filterUploadAudits(entries, { search: 'auditor@' }).map((e) => e.id)).toEqual(['audit-2']);
+    expect(filterUploadAudits(entries, { from: '2026-03-11' }).map((e) => e.id)).toEqual(['audit-2']);
+    expect(filterUploadAudits(entries, { to: '2026-03-10' }).map((e) => e.id)).toEqual(['audit-1']);
+  });
+
+  it('keeps a browser-local trail when Supabase is not configured', async () => {
+    const saved = await saveUploadAudit(upload);
+    const audits = await fetchUploadAudits({ search: 'headers.csv' });
+
+    expect(audits).toHaveLength(1);
+    expect(audits[0]).toMatchObject({ id: saved!.id, uploadSessionId: 'upload-1', files: upload.files });
+  });
+});
@@ -8,6 +8,10 @@ export interface UploadAuditDatasetMeta {
   columnCount: number;
   requiredMissing: string[];
   nullWarnings: Array<{ column: string; nullRate: number }>;
+  rejectedRowCount?: number;
+  rejectedRows?: Array<{ line: number; reason: string }>;
+  rejectedFileCount?: number;
+  rejectedFiles?: Array<{ fileName: string; reason: string }>;
 }
 
 export interface UploadAuditRelationalMeta {
@@ -17,24 +21,116 @@ export interface UploadAuditRelationalMeta {
   total: number;
 }
 
+export interface UploadAuditFileFingerprint {
+  fileName: string;
+  fileSize: number;
+  sha256: string | null;
+}
+
+export interface UploadAuditLinkedRun {
+  id: string;
+  runDate: string;
+  passRate: number;
+  totalExceptions: number;
+}
+
 export interface UploadAuditLogEntry {
   id: string;
   createdAt: string;
+  uploadSessionId?: string;
   datasetType?: "AR" | "AP";
+  sourceFormat?: "csv" | "ubl";
+  uploadedBy?: string | null;
+  files?: UploadAuditFileFingerprint[];
   buyersCount: number;
   headersCount: number;
   linesCount: number;
   datasets: UploadAuditDatasetMeta[];
   relationalChecks: UploadAuditRelationalMeta[];
+  linkedRuns?: UploadAuditLinkedRun[];
+}
+
+export type NewUploadAuditLogEntry = Omit<UploadAuditLogEntry, "id" | "createdAt" | "linkedRuns">;
+
+export interface UploadAuditFilters {
+  search?: string;
+  /** Inclusive `YYYY-MM-DD` bounds on the upload date. */
+  from?: string;
+  to?: string;
 }
 
+// Browser-local store: the whole trail when Supabase is not configured, otherwise only audits
+// that could not be saved yet and are uploaded on the next fetch (see uploadAuditApi).
 const STORAGE_KEY = "drcs.upload.audit.logs.v1";
 const MAX_LOGS = 200;
+// Keeps localStorage bounded on badly broken files; rejectedRowCount still carries the total.
+export const MAX_AUDITED_REJECTED_ROWS = 200;
+export const MAX_AUDITED_REJECTED_FILES = 200;
 
 function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
 }
 
+export function createUploadSessionId(): string {
+  return `upload-${generateId()}`;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function readFileBytes(file: Blob): Promise<ArrayBuffer> {
+  if (typeof file.arrayBuffer === "function") return file.arrayBuffer();
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as ArrayBuffer);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(file);
+  });
+}
+
+/** SHA-256 of the file contents, or null where the browser cannot read or hash the file. */
+export async function computeFileSha256(file: Blob): Promise<string | null> {
+  try {
+    const bytes = new Uint8Array(await readFileBytes(file));
+    return toHex(await crypto.subtle.digest("SHA-256", bytes));
+  } catch {
+    return null;
+  }
+}
+
+export async function fingerprintFiles(files: File[]): Promise<UploadAuditFileFingerprint[]> {
+  return Promise.all(
+    files.map(async (file) => ({ fileName: file.name, fileSize: file.size, sha256: await computeFileSha256(file) }))
+  );
+}
+
+/** Lower and upper ISO timestamps covering whole days in the local time zone. */
+export function getUploadAuditDateRange(filters: UploadAuditFilters): { from?: string; to?: string } {
+  return {
+    from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+    to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+  };
+}
+
+export function filterUploadAudits(entries: UploadAuditLogEntry[], filters: UploadAuditFilters): UploadAuditLogEntry[] {
+  const { from, to } = getUploadAuditDateRange(filters);
+  const search = filters.search?.trim().toLowerCase() ?? "";
+
+  return entries.filter((entry) => {
+    if (from && entry.createdAt < from) return false;
+    if (to && entry.createdAt > to) return false;
+    if (!search) return true;
+    const haystack = [
+      entry.uploadSessionId,
+      entry.uploadedBy,
+      ...entry.datasets.map((dataset) => dataset.fileName),
+      ...(entry.files ?? []).flatMap((file) => [file.fileName, file.sha256]),
+    ];
+    return haystack.some((value) => value?.toLowerCase().includes(search));
+  });
+}
+
 function isLogEntry(value: unknown): value is UploadAuditLogEntry {
   if (!value || typeof value !== "object") return false;
   const obj = value as UploadAuditLogEntry;
@@ -73,9 +169,7 @@ export function getUploadAuditLogs(): UploadAuditLogEntry[] {
   return readRaw().sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 }
 
-export function addUploadAuditLog(
-  entry: Omit<UploadAuditLogEntry, "id" | "createdAt">
-): UploadAuditLogEntry {
+export function addUploadAuditLog(entry: NewUploadAuditLogEntry): UploadAuditLogEntry {
   const next: UploadAuditLogEntry = {
     id: generateId(),
     createdAt: new Date().toISOString(),
@@ -86,11 +180,7 @@ export function addUploadAuditLog(
   return next;
 }
 
-export function deleteUploadAuditLog(id: string): void {
-  const filtered = readRaw().filter((entry) => entry.id !== id);
-  writeRaw(filtered);
-}
-
-export function clearUploadAuditLogs(): void {
-  localStorage.removeItem(STORAGE_KEY);
+export function removeUploadAuditLogs(ids: string[]): void {
+  const removed = new Set(ids);
+  writeRaw(readRaw().filter((entry) => !removed.has(entry.id)));
 }
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import * as XLSX from 'xlsx';
+import { assignWorkbookSheets, formatSpreadsheetCell, getWorkbookSheet, isSpreadsheetUploadFile, parseWorkbook } from '@/lib/xlsxParser';
+
+function buildWorkbook(sheets: Record<string, unknown[][]>): Uint8Array {
+  const workbook = XLSX.utils.book_new();
+  Object.entries(sheets).forEach(([name, rows]) => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name);
+  });
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }) as Uint8Array;
+}
+
+describe('xlsxParser', () => {
+  it('recognises Excel uploads by extension', () => {
+    expect(isSpreadsheetUploadFile('SAP_export.XLSX')).toBe(true);
+    expect(isSpreadsheetUploadFile('legacy.xls')).toBe(true);
+    expect(isSpreadsheetUploadFile('headers.csv')).toBe(false);
+  });
+
+  it('keeps numeric TRNs whole and renders date cells as ISO dates', () => {
+    const bytes = buildWorkbook({
+      Invoices: [
+        ['invoice_id', 'seller_trn', 'issue_date', 'total_incl_vat', 'is_export'],
+        ['INV-1', 100234567800003, new Date(2025, 0, 31), 1050.5, false],
+        [],
+        ['INV-2', 100234567800011, new Date(2025, 1, 1), 0.1 + 0.2, true],
+      ],
+    });
+
+    const sheet = getWorkbookSheet(parseWorkbook(bytes, 'export.xlsx'));
+
+    expect(sheet.headers).toEqual(['invoice_id', 'seller_trn', 'issue_date', 'total_incl_vat', 'is_export']);
+    expect(sheet.records).toEqual([
+      { invoice_id: 'INV-1', seller_trn: '100234567800003', issue_date: '2025-01-31', total_incl_vat: '1050.5', is_export: 'false' },
+      { invoice_id: 'INV-2', seller_trn: '100234567800011', issue_date: '2025-02-01', total_incl_vat: '0.3', is_export: 'true' },
+    ]);
+    expect(sheet.recordLines).toEqual([2, 4]);
+    expect(sheet.detectedColumns.find((column) => column.name === 'issue_date')?.detectedType).toBe('date');
+    expect(sheet.detectedColumns.find((column) => column.name === 'seller_trn')).toMatchObject({
+      detectedType: 'number',
+      uniqueCount: 2,
+      nullCount: 0,
+    });
+  });
+
+  it('keeps leading zeros from zero-padded number formats and drops error cells', () => {
+    expect(formatSpreadsheetCell({ t: 'n', v: 42, z: '000000', w: '000042' })).toBe('000042');
+    expect(formatSpreadsheetCell({ t: 'n', v: 45688, z: 'dd/mm/yyyy' })).toBe('2025-01-31');
+    expect(formatSpreadsheetCell({ t: 'n', v: 45688.5, z: 'yyyy-mm-dd hh:mm' })).toBe('2025-01-31 12:00:00');
+    expect(formatSpreadsheetCell({ t: 'e', v: 7, w: '#DIV/0!' })).toBe('');
+    expect(formatSpreadsheetCell(undefined)).toBe('');
+  });
+
+  it('suggests a buyers, headers and lines sheet from column overlap and sheet names', () => {
+    const bytes = buildWorkbook({
+      Notes: [['Exported from SAP S/4HANA']],
+      'Customer Master': [
+        ['buyer_id', 'buyer_name', 'buyer_trn'],
+        ['B1', 'Acme LLC', 100000000000003],
+      ],
+      Sheet3: [
+        ['line_id', 'invoice_id', 'line_number', 'quantity', 'unit_price'],
+        ['L1', 'INV-1', 1, 2, 500],
+      ],
+      Sheet4: [
+        ['invoice_id', 'invoice_number', 'issue_date', 'buyer_id', 'currency'],
+        ['INV-1', 'A-001', '2025-01-31', 'B1', 'AED'],
+      ],
+    });
+
+    const workbook = parseWorkbook(bytes, 'erp.xlsx');
+
+    expect(assignWorkbookSheets(workbook)).toEqual({ buyers: 'Customer Master', headers: 'Sheet4', lines: 'Sheet3' });
+    expect(workbook.sheets.map((sheet) => [sheet.name, sheet.suggestedDataset])).toEqual([
+      ['Notes', null],
+      ['Customer Master', 'buyers'],
+      ['Sheet3', 'lines'],
+      ['Sheet4', 'headers'],
+    ]);
+    expect(getWorkbookSheet(workbook).name).toBe('Customer Master');
+    expect(() => getWorkbookSheet(workbook, 'Missing')).toThrow('Sheet "Missing" not found in erp.xlsx');
+  });
+});
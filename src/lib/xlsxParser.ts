@@ -0,0 +1,214 @@
+// =============================================================================
+// XLSX Parser - Excel workbook ingestion for ERP exports
+// Reads every sheet into the same string records as the CSV path. Cells are
+// rendered from their stored value rather than Excel's display text, so long
+// numeric TRNs keep every digit and date cells become ISO dates.
+// =============================================================================
+
+import * as XLSX from 'xlsx';
+import { profileColumns } from '@/lib/columnProfiling';
+import { getSampleData } from '@/lib/sampleData';
+import { DetectedColumn } from '@/types/fieldMapping';
+
+export type WorkbookDataset = 'buyers' | 'headers' | 'lines';
+
+export interface WorkbookSheet {
+  name: string;
+  headers: string[];
+  records: Record<string, string>[];
+  /** Excel row number (1-based) of each record, parallel to `records`. */
+  recordLines: number[];
+  detectedColumns: DetectedColumn[];
+  suggestedDataset: WorkbookDataset | null;
+}
+
+export interface ParsedWorkbook {
+  fileName: string;
+  sheets: WorkbookSheet[];
+}
+
+const WORKBOOK_DATASETS: WorkbookDataset[] = ['buyers', 'headers', 'lines'];
+
+const SHEET_NAME_HINTS: Record<WorkbookDataset, RegExp> = {
+  buyers: /buyer|customer|supplier|vendor|part(y|ies)/i,
+  headers: /header|invoices?$|documents?$/i,
+  lines: /line|item|detail/i,
+};
+
+const MIN_SUGGESTION_SCORE = 0.3;
+
+export function isSpreadsheetUploadFile(fileName: string): boolean {
+  return /\.(xlsx|xlsm|xls)$/i.test(fileName);
+}
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+function formatDateCode(serial: number, date1904: boolean): string {
+  const parts = XLSX.SSF.parse_date_code(serial, { date1904 });
+  if (!parts) return String(serial);
+  const date = `${pad(parts.y, 4)}-${pad(parts.m)}-${pad(parts.d)}`;
+  return parts.H || parts.M || parts.S ? `${date} ${pad(parts.H)}:${pad(parts.M)}:${pad(parts.S)}` : date;
+}
+
+/** Renders a cell as the string the CSV path would have produced for the same data. */
+export function formatSpreadsheetCell(cell: XLSX.CellObject | undefined, date1904 = false): string {
+  if (!cell || cell.v === undefined || cell.v === null) return '';
+
+  switch (cell.t) {
+    case 'b':
+      return cell.v ? 'true' : 'false';
+    case 'e':
+    case 'z':
+      return '';
+    case 'd': {
+      const value = cell.v instanceof Date ? cell.v : new Date(String(cell.v));
+      return `${pad(value.getFullYear(), 4)}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+    }
+    case 'n': {
+      const value = Number(cell.v);
+      const format = typeof cell.z === 'string' ? cell.z : '';
+      if (format && XLSX.SSF.is_date(format)) return formatDateCode(value, date1904);
+      // Zero-padded formats ("000000") carry meaningful leading zeros.
+      if (/^0+$/.test(format) && cell.w) return cell.w;
+      // 15 significant digits is Excel's own precision; it also drops formula float noise.
+      return String(Number(value.toPrecision(15)));
+    }
+    default:
+      return String(cell.v).trim();
+  }
+}
+
+function readSheet(name: string, worksheet: XLSX.WorkSheet, date1904: boolean): Omit<WorkbookSheet, 'suggestedDataset'> {
+  const empty = { name, headers: [], records: [], recordLines: [], detectedColumns: [] };
+  if (!worksheet['!ref']) return empty;
+
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  const readRow = (row: number) => {
+    const values: string[] = [];
+    for (let col = range.s.c; col <= range.e.c; col++) {
+      values.push(formatSpreadsheetCell(worksheet[XLSX.utils.encode_cell({ r: row, c: col })], date1904));
+    }
+    return values;
+  };
+
+  let headerRow = range.s.r;
+  let headers: string[] = [];
+  for (; headerRow <= range.e.r; headerRow++) {
+    headers = readRow(headerRow);
+    if (headers.some(Boolean)) break;
+  }
+  if (!headers.some(Boolean)) return empty;
+
+  const records: Record<string, string>[] = [];
+  const recordLines: number[] = [];
+  for (let row = headerRow + 1; row <= range.e.r; row++) {
+    const values = readRow(row);
+    if (!values.some(Boolean)) continue;
+    const record: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      if (header) record[header] = values[index];
+    });
+    records.push(record);
+    recordLines.push(row + 1);
+  }
+
+  const columns = headers.filter(Boolean);
+  return { name, headers: columns, records, recordLines, detectedColumns: profileColumns(records, columns) };
+}
+
+let templateColumnsCache: Record<WorkbookDataset, Set<string>> | null = null;
+
+function getTemplateColumns(): Record<WorkbookDataset, Set<string>> {
+  if (!templateColumnsCache) {
+    const columnsOf = (dataset: WorkbookDataset) =>
+      (['AR', 'AP'] as const).flatMap((direction) =>
+        (getSampleData(dataset, 'positive', direction).content.split(/\r?\n/)[0] ?? '').split(',').map((c) => c.trim())
+      );
+    templateColumnsCache = {
+      buyers: new Set(columnsOf('buyers')),
+      headers: new Set(columnsOf('headers')),
+      lines: new Set(columnsOf('lines')),
+    };
+  }
+  return templateColumnsCache;
+}
+
+/**
+ * Scores how well a sheet fits each upload dataset: the share of its columns found in
+ * that dataset's template, plus a bonus when the sheet name says what it holds.
+ */
+export function scoreSheetDatasets(sheet: Pick<WorkbookSheet, 'name' | 'headers'>): Record<WorkbookDataset, number> {
+  const templates = getTemplateColumns();
+  const scores = {} as Record<WorkbookDataset, number>;
+  WORKBOOK_DATASETS.forEach((dataset) => {
+    const matched = sheet.headers.filter((header) => templates[dataset].has(header)).length;
+    const overlap = sheet.headers.length > 0 ? matched / sheet.headers.length : 0;
+    scores[dataset] = overlap + (SHEET_NAME_HINTS[dataset].test(sheet.name) ? 0.5 : 0);
+  });
+  return scores;
+}
+
+/**
+ * Assigns at most one sheet to each dataset, best fits first, so a workbook holding
+ * buyers, headers and lines sheets fills all three upload slots.
+ */
+export function assignWorkbookSheets(workbook: ParsedWorkbook): Partial<Record<WorkbookDataset, string>> {
+  const candidates = workbook.sheets
+    .filter((sheet) => sheet.records.length > 0)
+    .flatMap((sheet) => {
+      const scores = scoreSheetDatasets(sheet);
+      return WORKBOOK_DATASETS.map((dataset) => ({ sheet: sheet.name, dataset, score: scores[dataset] }));
+    })
+    .filter((candidate) => candidate.score >= MIN_SUGGESTION_SCORE)
+    .sort((a, b) => b.score - a.score);
+
+  const assignment: Partial<Record<WorkbookDataset, string>> = {};
+  const usedSheets = new Set<string>();
+  candidates.forEach(({ sheet, dataset }) => {
+    if (assignment[dataset] || usedSheets.has(sheet)) return;
+    assignment[dataset] = sheet;
+    usedSheets.add(sheet);
+  });
+  return assignment;
+}
+
+export function parseWorkbook(data: ArrayBuffer | Uint8Array, fileName: string): ParsedWorkbook {
+  const workbook = XLSX.read(data, { type: 'array', cellNF: true, cellDates: false });
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904);
+  const sheets = workbook.SheetNames.map((name) => ({
+    ...readSheet(name, workbook.Sheets[name], date1904),
+    suggestedDataset: null as WorkbookDataset | null,
+  }));
+
+  const parsed: ParsedWorkbook = { fileName, sheets };
+  const assignment = assignWorkbookSheets(parsed);
+  WORKBOOK_DATASETS.forEach((dataset) => {
+    const sheet = sheets.find((candidate) => candidate.name === assignment[dataset]);
+    if (sheet) sheet.suggestedDataset = dataset;
+  });
+  return parsed;
+}
+
+// Upload, analysis and ingestion all read the same File; parse its workbook once.
+const workbookCache = new WeakMap<File, Promise<ParsedWorkbook>>();
+
+export function parseSpreadsheetFile(file: File): Promise<ParsedWorkbook> {
+  let parsed = workbookCache.get(file);
+  if (!parsed) {
+    parsed = file.arrayBuffer().then((buffer) => parseWorkbook(buffer, file.name));
+    workbookCache.set(file, parsed);
+    parsed.catch(() => workbookCache.delete(file));
+  }
+  return parsed;
+}
+
+/** Returns the named sheet, or the first sheet with data when no name is given. */
+export function getWorkbookSheet(workbook: ParsedWorkbook, sheetName?: string): WorkbookSheet {
+  const sheet = sheetName
+    ? workbook.sheets.find((candidate) => candidate.name === sheetName)
+    : workbook.sheets.find((candidate) => candidate.records.length > 0) ?? workbook.sheets[0];
+  if (!sheet) {
+    throw new Error(sheetName ? `Sheet "${sheetName}" not found in ${workbook.fileName}` : `${workbook.fileName} has no sheets`);
+  }
+  return sheet;
+}
@@ -0,0 +1,257 @@
+// Minimal namespace-aware XML reader used by the UBL/Schematron pipeline.
+// Kept dependency-free so it behaves the same in the browser, in workers and under vitest.
+
+export interface XmlAttribute {
+  kind: 'attribute';
+  name: string;
+  prefix: string;
+  localName: string;
+  namespaceURI: string;
+  value: string;
+  parent: XmlElement;
+}
+
+export interface XmlText {
+  kind: 'text';
+  value: string;
+  parent: XmlElement;
+}
+
+export interface XmlElement {
+  kind: 'element';
+  name: string;
+  prefix: string;
+  localName: string;
+  namespaceURI: string;
+  attributes: XmlAttribute[];
+  children: XmlChildNode[];
+  parent: XmlElement | XmlDocument;
+  namespaces: Record<string, string>;
+  line: number;
+}
+
+export interface XmlDocument {
+  kind: 'document';
+  children: XmlElement[];
+  documentElement: XmlElement;
+}
+
+export type XmlChildNode = XmlElement | XmlText;
+export type XmlNode = XmlDocument | XmlElement | XmlAttribute | XmlText;
+
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(value: string): string {
+  if (value.indexOf('&') === -1) return value;
+  return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return NAMED_ENTITIES[entity] ?? match;
+  });
+}
+
+function splitQName(name: string): { prefix: string; localName: string } {
+  const index = name.indexOf(':');
+  if (index === -1) return { prefix: '', localName: name };
+  return { prefix: name.slice(0, index), localName: name.slice(index + 1) };
+}
+
+function resolveNamespace(prefix: string, namespaces: Record<string, string>): string {
+  if (prefix === 'xml') return XML_NAMESPACE;
+  return namespaces[prefix] ?? '';
+}
+
+export function parseXml(text: string): XmlDocument {
+  const source = text.replace(/^\uFEFF/, '');
+  const document = { kind: 'document', children: [] } as unknown as XmlDocument;
+  const stack: XmlElement[] = [];
+  let index = 0;
+  let line = 1;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid XML at line ${line}: ${message}`);
+  };
+
+  const advanceTo = (nextIndex: number) => {
+    for (let i = index; i < nextIndex; i++) {
+      if (source.charCodeAt(i) === 10) line++;
+    }
+    index = nextIndex;
+  };
+
+  const skipPast = (terminator: string, label: string) => {
+    const end = source.indexOf(terminator, index);
+    if (end === -1) fail(`unterminated ${label}`);
+    advanceTo(end + terminator.length);
+  };
+
+  const appendText = (value: string) => {
+    const parent = stack[stack.length - 1];
+    if (!parent) {
+      if (value.trim()) fail('text content outside the root element');
+      return;
+    }
+    const last = parent.children[parent.children.length - 1];
+    if (last && last.kind === 'text') {
+      last.value += value;
+    } else {
+      parent.children.push({ kind: 'text', value, parent });
+    }
+  };
+
+  while (index < source.length) {
+    const next = source.indexOf('<', index);
+    if (next === -1) {
+      appendText(decodeEntities(source.slice(index)));
+      advanceTo(source.length);
+      break;
+    }
+    if (next > index) {
+      appendText(decodeEntities(source.slice(index, next)));
+      advanceTo(next);
+    }
+
+    if (source.startsWith('<?', index)) {
+      skipPast('?>', 'processing instruction');
+    } else if (source.startsWith('<!--', index)) {
+      skipPast('-->', 'comment');
+    } else if (source.startsWith('<![CDATA[', index)) {
+      const end = source.indexOf(']]>', index);
+      if (end === -1) fail('unterminated CDATA section');
+      appendText(source.slice(index + 9, end));
+      advanceTo(end + 3);
+    } else if (source.startsWith('<!', index)) {
+      skipPast('>', 'declaration');
+    } else if (source.startsWith('</', index)) {
+      const end = source.indexOf('>', index);
+      if (end === -1) fail('unterminated end tag');
+      const name = source.slice(index + 2, end).trim();
+      const open = stack.pop();
+      if (!open || open.name !== name) {
+        fail(`unexpected </${name}>${open ? `, expected </${open.name}>` : ''}`);
+      }
+      advanceTo(end + 1);
+    } else {
+      const startLine = line;
+      const tagPattern = /<([^\s/>]+)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/y;
+      tagPattern.lastIndex = index;
+      const match = tagPattern.exec(source);
+      if (!match) fail('malformed start tag');
+
+      const [raw, name, rawAttributes, selfClosing] = match;
+      const parentElement = stack[stack.length - 1];
+      const namespaces: Record<string, string> = { ...(parentElement?.namespaces ?? {}) };
+      const pendingAttributes: Array<{ name: string; value: string }> = [];
+      const attributePattern = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+      let attributeMatch: RegExpExecArray | null;
+      while ((attributeMatch = attributePattern.exec(rawAttributes)) !== null) {
+        const attributeName = attributeMatch[1];
+        const value = decodeEntities(attributeMatch[2] ?? attributeMatch[3] ?? '');
+        if (attributeName === 'xmlns') {
+          namespaces[''] = value;
+        } else if (attributeName.startsWith('xmlns:')) {
+          namespaces[attributeName.slice(6)] = value;
+        } else {
+          pendingAttributes.push({ name: attributeName, value });
+        }
+      }
+
+      const { prefix, localName } = splitQName(name);
+      const element: XmlElement = {
+        kind: 'element',
+        name,
+        prefix,
+        localName,
+        namespaceURI: resolveNamespace(prefix, namespaces),
+        attributes: [],
+        children: [],
+        parent: parentElement ?? document,
+        namespaces,
+        line: startLine,
+      };
+      element.attributes = pendingAttributes.map((attribute) => {
+        const qname = splitQName(attribute.name);
+        return {
+          kind: 'attribute',
+          name: attribute.name,
+          prefix: qname.prefix,
+          localName: qname.localName,
+          namespaceURI: qname.prefix ? resolveNamespace(qname.prefix, namespaces) : '',
+          value: attribute.value,
+          parent: element,
+        };
+      });
+
+      if (parentElement) {
+        parentElement.children.push(element);
+      } else {
+        if (document.children.length > 0) fail('multiple root elements');
+        document.children.push(element);
+        document.documentElement = element;
+      }
+      if (!selfClosing) stack.push(element);
+      advanceTo(index + raw.length);
+    }
+  }
+
+  if (stack.length > 0) fail(`missing </${stack[stack.length - 1].name}>`);
+  if (!document.documentElement) fail('no root element');
+  return document;
+}
+
+export function getTextContent(node: XmlNode): string {
+  switch (node.kind) {
+    case 'attribute':
+    case 'text':
+      return node.value;
+    case 'document':
+      return getTextContent(node.documentElement);
+    case 'element':
+      return node.children.map((child) => getTextContent(child)).join('');
+  }
+}
+
+export function getChildElements(element: XmlElement | XmlDocument): XmlElement[] {
+  return (element.children as XmlChildNode[]).filter(
+    (child): child is XmlElement => child.kind === 'element'
+  );
+}
+
+export function findChildElement(element: XmlElement, qualifiedName: string): XmlElement | undefined {
+  const { localName } = splitQName(qualifiedName);
+  return getChildElements(element).find((child) => child.localName === localName);
+}
+
+export function findChildElements(element: XmlElement, qualifiedName: string): XmlElement[] {
+  const { localName } = splitQName(qualifiedName);
+  return getChildElements(element).filter((child) => child.localName === localName);
+}
+
+/**
+ * Absolute XPath locator for a node, e.g. `/Invoice/cac:InvoiceLine[2]/cbc:ID`.
+ * Positional predicates are only emitted when a sibling shares the same name.
+ */
+export function getNodeLocator(node: XmlNode): string {
+  if (node.kind === 'document') return '/';
+  if (node.kind === 'attribute') return `${getNodeLocator(node.parent)}/@${node.name}`;
+  if (node.kind === 'text') return `${getNodeLocator(node.parent)}/text()`;
+
+  const segments: string[] = [];
+  let current: XmlElement | XmlDocument = node;
+  while (current.kind === 'element') {
+    const element: XmlElement = current;
+    const siblings = getChildElements(element.parent).filter((sibling) => sibling.name === element.name);
+    const position = siblings.indexOf(element) + 1;
+    segments.unshift(siblings.length > 1 ? `${element.name}[${position}]` : element.name);
+    current = element.parent;
+  }
+  return `/${segments.join('/')}`;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { getNodeLocator, parseXml } from '@/lib/xml/xmlDocument';
+import { evaluateXPath, evaluateXPathBoolean, parseXPath, selectNodes, selectPatternNodes } from '@/lib/xml/xpath';
+import { PINT_AE_SCHEMATRON_RULES } from '@/lib/pintAE/generated/schematronRules';
+
+const xml = `<?xml version="1.0"?>
+<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"
+  xmlns:cac="urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2"
+  xmlns:cbc="urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2">
+  <!-- header -->
+  <cbc:ID>INV-1</cbc:ID>
+  <cbc:IssueDate>2026-01-15</cbc:IssueDate>
+  <cbc:Note><![CDATA[Fish & <chips>]]></cbc:Note>
+  <cac:AllowanceCharge>
+    <cbc:ChargeIndicator>false</cbc:ChargeIndicator>
+    <cbc:Amount currencyID="AED">0.10</cbc:Amount>
+  </cac:AllowanceCharge>
+  <cac:AllowanceCharge>
+    <cbc:ChargeIndicator>false</cbc:ChargeIndicator>
+    <cbc:Amount currencyID="AED">0.20</cbc:Amount>
+  </cac:AllowanceCharge>
+  <cac:InvoiceLine>
+    <cbc:ID>1</cbc:ID>
+    <cbc:LineExtensionAmount currencyID="AED">100.00</cbc:LineExtensionAmount>
+  </cac:InvoiceLine>
+  <cac:InvoiceLine>
+    <cbc:ID>2</cbc:ID>
+    <cbc:LineExtensionAmount currencyID="AED">50.5</cbc:LineExtensionAmount>
+  </cac:InvoiceLine>
+</Invoice>`;
+
+describe('xpath evaluator', () => {
+  const document = parseXml(xml);
+  const root = document.documentElement;
+
+  it('parses every imported Schematron context and test expression', () => {
+    const failures = PINT_AE_SCHEMATRON_RULES.flatMap((rule) =>
+      [rule.context, rule.test].flatMap((expression) => {
+        try {
+          parseXPath(expression);
+          return [];
+        } catch (error) {
+          return [`${rule.id}: ${(error as Error).message}`];
+        }
+      })
+    );
+
+    expect(failures).toEqual([]);
+  });
+
+  it('resolves namespace prefixes against the document namespaces, not literal prefixes', () => {
+    expect(evaluateXPathBoolean('/ubl:Invoice', document)).toBe(true);
+    expect(evaluateXPathBoolean('/cn:CreditNote', document)).toBe(false);
+    expect(selectNodes('cac:InvoiceLine/cbc:ID', root)).toHaveLength(2);
+  });
+
+  it('evaluates aggregates with decimal-safe arithmetic', () => {
+    expect(evaluateXPath('sum(cac:AllowanceCharge/cbc:Amount)', root)).toEqual([0.3]);
+    expect(evaluateXPathBoolean('sum(cac:AllowanceCharge/cbc:Amount) = 0.3', root)).toBe(true);
+    expect(evaluateXPath('count(//cac:InvoiceLine)', root)).toEqual([2]);
+    expect(evaluateXPath('round(sum(//(cac:InvoiceLine)/xs:decimal(cbc:LineExtensionAmount)) * 10 * 10) div 100', root)).toEqual([150.5]);
+  });
+
+  it('applies XPath 2 general comparison casting rules', () => {
+    expect(evaluateXPathBoolean('cac:AllowanceCharge[cbc:ChargeIndicator = false()]', root)).toBe(true);
+    expect(evaluateXPathBoolean('cac:InvoiceLine/cbc:LineExtensionAmount > 99', root)).toBe(true);
+    expect(evaluateXPathBoolean('cac:InvoiceLine/cbc:ID != "1"', root)).toBe(true);
+    expect(evaluateXPathBoolean('cbc:IssueDate >= xs:date("2026-01-01")', root)).toBe(true);
+  });
+
+  it('supports quantified, conditional and castable expressions', () => {
+    expect(evaluateXPathBoolean('every $amount in cac:AllowanceCharge/cbc:Amount satisfies $amount < 1', root)).toBe(true);
+    expect(evaluateXPathBoolean('some $line in cac:InvoiceLine satisfies $line/cbc:ID = "3"', root)).toBe(false);
+    expect(evaluateXPath('if (exists(cbc:Note)) then "note" else "none"', root)).toEqual(['note']);
+    expect(evaluateXPathBoolean('string(cbc:IssueDate) castable as xs:date', root)).toBe(true);
+    expect(evaluateXPathBoolean('"2026-02-30" castable as xs:date', root)).toBe(false);
+  });
+
+  it('evaluates string functions and regular expressions', () => {
+    expect(evaluateXPath('normalize-space(cbc:Note)', root)).toEqual(['Fish & <chips>']);
+    expect(evaluateXPathBoolean('matches(cbc:ID, "^INV-\\d+$")', root)).toBe(true);
+    expect(evaluateXPath('substring-after(cbc:ID, "-")', root)).toEqual(['1']);
+    expect(evaluateXPath('upper-case(local-name(cac:InvoiceLine[2]))', root)).toEqual(['INVOICELINE']);
+  });
+
+  it('matches relative Schematron patterns at any depth and reports element locators', () => {
+    const nodes = selectPatternNodes('cac:InvoiceLine/cbc:ID | cbc:IssueDate', document);
+
+    expect(nodes.map(getNodeLocator)).toEqual([
+      '/Invoice/cbc:IssueDate',
+      '/Invoice/cac:InvoiceLine[1]/cbc:ID',
+      '/Invoice/cac:InvoiceLine[2]/cbc:ID',
+    ]);
+  });
+
+  it('raises descriptive errors for unsupported syntax and unknown functions', () => {
+    expect(() => parseXPath('cbc:ID[')).toThrow(/XPath syntax error/);
+    expect(() => evaluateXPath('u:unknown(.)', root)).toThrow(/unknown function u:unknown/);
+  });
+});
@@ -0,0 +1,1295 @@
+import { XmlDocument, XmlNode, getTextContent } from '@/lib/xml/xmlDocument';
+
+// XPath 2.0 subset evaluator covering the constructs used by the PINT-AE Schematron packs:
+// location paths with predicates, general/value comparisons, arithmetic, quantified and
+// conditional expressions, `castable as`, and the core string/number/sequence functions.
+
+export type XPathAtomic = string | number | boolean;
+export type XPathItem = XmlNode | XPathAtomic;
+export type XPathSequence = XPathItem[];
+
+export interface XPathContext {
+  item: XPathItem;
+  position: number;
+  size: number;
+  root: XmlDocument;
+  variables: Record<string, XPathSequence>;
+  namespaces: Record<string, string>;
+  functions: Record<string, XPathFunction>;
+}
+
+export type XPathFunction = (context: XPathContext, args: XPathSequence[]) => XPathSequence;
+
+export interface XPathEvaluateOptions {
+  namespaces?: Record<string, string>;
+  variables?: Record<string, XPathSequence>;
+  functions?: Record<string, XPathFunction>;
+}
+
+export const UBL_NAMESPACES: Record<string, string> = {
+  ubl: 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2',
+  cn: 'urn:oasis:names:specification:ubl:schema:xsd:CreditNote-2',
+  cac: 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2',
+  cbc: 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2',
+  ext: 'urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2',
+  xs: 'http://www.w3.org/2001/XMLSchema',
+};
+
+// ---------------------------------------------------------------------------
+// AST
+// ---------------------------------------------------------------------------
+
+type Axis =
+  | 'child'
+  | 'descendant'
+  | 'descendant-or-self'
+  | 'self'
+  | 'parent'
+  | 'ancestor'
+  | 'ancestor-or-self'
+  | 'attribute'
+  | 'following-sibling'
+  | 'preceding-sibling';
+
+type NodeTest =
+  | { type: 'name'; prefix: string; localName: string }
+  | { type: 'wildcard'; prefix?: string }
+  | { type: 'kind'; kind: 'node' | 'text' | 'element' | 'attribute' };
+
+export type XPathExpr =
+  | { type: 'literal'; value: XPathAtomic }
+  | { type: 'empty' }
+  | { type: 'variable'; name: string }
+  | { type: 'contextItem' }
+  | { type: 'root' }
+  | { type: 'sequence'; items: XPathExpr[] }
+  | { type: 'function'; name: string; args: XPathExpr[] }
+  | { type: 'binary'; operator: string; left: XPathExpr; right: XPathExpr }
+  | { type: 'negate'; operand: XPathExpr }
+  | { type: 'union'; left: XPathExpr; right: XPathExpr }
+  | { type: 'step'; axis: Axis; test: NodeTest; predicates: XPathExpr[] }
+  | { type: 'filter'; primary: XPathExpr; predicates: XPathExpr[] }
+  | { type: 'path'; absolute: boolean; steps: XPathExpr[] }
+  | { type: 'quantified'; quantifier: 'some' | 'every'; bindings: Array<{ name: string; expr: XPathExpr }>; satisfies: XPathExpr }
+  | { type: 'for'; bindings: Array<{ name: string; expr: XPathExpr }>; result: XPathExpr }
+  | { type: 'if'; condition: XPathExpr; then: XPathExpr; else: XPathExpr }
+  | { type: 'castable'; operand: XPathExpr; targetType: string; optional: boolean }
+  | { type: 'cast'; operand: XPathExpr; targetType: string; optional: boolean };
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+// ---------------------------------------------------------------------------
+
+type Token =
+  | { type: 'name'; value: string }
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'variable'; value: string }
+  | { type: 'symbol'; value: string }
+  | { type: 'eof'; value: '' };
+
+const NAME_START = /[A-Za-z_\u00C0-\uFFEF]/;
+const NAME_CHAR = /[A-Za-z0-9_.\-\u00B7\u00C0-\uFFEF]/;
+const SYMBOLS = ['!=', '<=', '>=', '//', '::', '..', '(', ')', '[', ']', ',', '/', '@', '=', '<', '>', '+', '-', '*', '|', '.', '?'];
+
+function readName(source: string, start: number): number {
+  let end = start;
+  while (end < source.length && NAME_CHAR.test(source[end])) end++;
+  return end;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (source.startsWith('(:', i)) {
+      const end = source.indexOf(':)', i + 2);
+      if (end === -1) throw new Error('XPath syntax error: unterminated comment');
+      i = end + 2;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let j = i + 1;
+      while (j < source.length) {
+        if (source[j] === char) {
+          if (source[j + 1] === char) {
+            value += char;
+            j += 2;
+            continue;
+          }
+          break;
+        }
+        value += source[j];
+        j++;
+      }
+      if (j >= source.length) throw new Error('XPath syntax error: unterminated string literal');
+      tokens.push({ type: 'string', value });
+      i = j + 1;
+      continue;
+    }
+
+    if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^(?:[0-9]+(?:\.[0-9]*)?|\.[0-9]+)(?:[eE][+-]?[0-9]+)?/.exec(source.slice(i));
+      tokens.push({ type: 'number', value: Number(match![0]) });
+      i += match![0].length;
+      continue;
+    }
+
+    if (char === '$') {
+      const end = readQName(source, i + 1);
+      tokens.push({ type: 'variable', value: source.slice(i + 1, end) });
+      i = end;
+      continue;
+    }
+
+    if (NAME_START.test(char)) {
+      const end = readQName(source, i);
+      if (source[end] === ':' && source[end + 1] === '*') {
+        tokens.push({ type: 'name', value: `${source.slice(i, end)}:*` });
+        i = end + 2;
+      } else {
+        tokens.push({ type: 'name', value: source.slice(i, end) });
+        i = end;
+      }
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((candidate) => source.startsWith(candidate, i));
+    if (!symbol) throw new Error(`XPath syntax error: unexpected character "${char}"`);
+    tokens.push({ type: 'symbol', value: symbol });
+    i += symbol.length;
+  }
+
+  tokens.push({ type: 'eof', value: '' });
+  return tokens;
+}
+
+function readQName(source: string, start: number): number {
+  let end = readName(source, start);
+  if (source[end] === ':' && source[end + 1] !== ':' && NAME_START.test(source[end + 1] ?? '')) {
+    end = readName(source, end + 1);
+  }
+  return end;
+}
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+const AXES = new Set<Axis>([
+  'child',
+  'descendant',
+  'descendant-or-self',
+  'self',
+  'parent',
+  'ancestor',
+  'ancestor-or-self',
+  'attribute',
+  'following-sibling',
+  'preceding-sibling',
+]);
+const KIND_TESTS = new Set(['node', 'text', 'element', 'attribute']);
+const COMPARISON_OPERATORS = new Set(['=', '!=', '<', '<=', '>', '>=']);
+const VALUE_COMPARISON_OPERATORS = new Set(['eq', 'ne', 'lt', 'le', 'gt', 'ge']);
+
+class XPathParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private readonly source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): XPathExpr {
+    const expr = this.parseExpr();
+    if (this.peek().type !== 'eof') this.fail(`unexpected "${this.peek().value}"`);
+    return expr;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.index++;
+    return token;
+  }
+
+  private isSymbol(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'symbol' && token.value === value;
+  }
+
+  private isName(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'name' && token.value === value;
+  }
+
+  private expectSymbol(value: string) {
+    if (!this.isSymbol(value)) this.fail(`expected "${value}" but found "${this.peek().value}"`);
+    this.index++;
+  }
+
+  private expectName(value: string) {
+    if (!this.isName(value)) this.fail(`expected "${value}" but found "${this.peek().value}"`);
+    this.index++;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`XPath syntax error in "${this.source}": ${message}`);
+  }
+
+  private parseExpr(): XPathExpr {
+    const items = [this.parseExprSingle()];
+    while (this.isSymbol(',')) {
+      this.index++;
+      items.push(this.parseExprSingle());
+    }
+    return items.length === 1 ? items[0] : { type: 'sequence', items };
+  }
+
+  private parseExprSingle(): XPathExpr {
+    const token = this.peek();
+    if (token.type === 'name' && this.peek(1).type === 'variable') {
+      if (token.value === 'some' || token.value === 'every') return this.parseQuantified();
+      if (token.value === 'for') return this.parseFor();
+    }
+    if (token.type === 'name' && token.value === 'if' && this.isSymbol('(', 1)) {
+      return this.parseIf();
+    }
+    return this.parseOr();
+  }
+
+  private parseBindings(): Array<{ name: string; expr: XPathExpr }> {
+    const bindings: Array<{ name: string; expr: XPathExpr }> = [];
+    do {
+      if (bindings.length > 0) this.index++;
+      const variable = this.next();
+      if (variable.type !== 'variable') this.fail('expected variable binding');
+      this.expectName('in');
+      bindings.push({ name: variable.value, expr: this.parseExprSingle() });
+    } while (this.isSymbol(','));
+    return bindings;
+  }
+
+  private parseQuantified(): XPathExpr {
+    const quantifier = this.next().value as 'some' | 'every';
+    const bindings = this.parseBindings();
+    this.expectName('satisfies');
+    return { type: 'quantified', quantifier, bindings, satisfies: this.parseExprSingle() };
+  }
+
+  private parseFor(): XPathExpr {
+    this.index++;
+    const bindings = this.parseBindings();
+    this.expectName('return');
+    return { type: 'for', bindings, result: this.parseExprSingle() };
+  }
+
+  private parseIf(): XPathExpr {
+    this.index++;
+    this.expectSymbol('(');
+    const condition = this.parseExpr();
+    this.expectSymbol(')');
+    this.expectName('then');
+    const thenExpr = this.parseExprSingle();
+    this.expectName('else');
+    return { type: 'if', condition, then: thenExpr, else: this.parseExprSingle() };
+  }
+
+  private parseOr(): XPathExpr {
+    let left = this.parseAnd();
+    while (this.isName('or')) {
+      this.index++;
+      left = { type: 'binary', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): XPathExpr {
+    let left = this.parseComparison();
+    while (this.isName('and')) {
+      this.index++;
+      left = { type: 'binary', operator: 'and', left, right: this.parseComparison() };
+    }
+    return left;
+  }
+
+  private parseComparison(): XPathExpr {
+    const left = this.parseRange();
+    const token = this.peek();
+    if (
+      (token.type === 'symbol' && COMPARISON_OPERATORS.has(token.value)) ||
+      (token.type === 'name' && VALUE_COMPARISON_OPERATORS.has(token.value))
+    ) {
+      this.index++;
+      return { type: 'binary', operator: token.value, left, right: this.parseRange() };
+    }
+    return left;
+  }
+
+  private parseRange(): XPathExpr {
+    const left = this.parseAdditive();
+    if (this.isName('to')) {
+      this.index++;
+      return { type: 'binary', operator: 'to', left, right: this.parseAdditive() };
+    }
+    return left;
+  }
+
+  private parseAdditive(): XPathExpr {
+    let left = this.parseMultiplicative();
+    while (this.isSymbol('+') || this.isSymbol('-')) {
+      const operator = String(this.next().value);
+      left = { type: 'binary', operator, left, right: this.parseMultiplicative() };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): XPathExpr {
+    let left = this.parseUnion();
+    while (this.isSymbol('*') || this.isName('div') || this.isName('idiv') || this.isName('mod')) {
+      const operator = String(this.next().value);
+      left = { type: 'binary', operator, left, right: this.parseUnion() };
+    }
+    return left;
+  }
+
+  private parseUnion(): XPathExpr {
+    let left = this.parseCastable();
+    while (this.isSymbol('|') || this.isName('union')) {
+      this.index++;
+      left = { type: 'union', left, right: this.parseCastable() };
+    }
+    return left;
+  }
+
+  private parseCastable(): XPathExpr {
+    const operand = this.parseUnary();
+    if ((this.isName('castable') || this.isName('cast')) && this.isName('as', 1)) {
+      const kind = this.next().value;
+      this.index++;
+      const targetType = this.next();
+      if (targetType.type !== 'name') this.fail('expected atomic type name');
+      const optional = this.isSymbol('?');
+      if (optional) this.index++;
+      return {
+        type: kind === 'castable' ? 'castable' : 'cast',
+        operand,
+        targetType: targetType.value,
+        optional,
+      };
+    }
+    return operand;
+  }
+
+  private parseUnary(): XPathExpr {
+    if (this.isSymbol('-')) {
+      this.index++;
+      return { type: 'negate', operand: this.parseUnary() };
+    }
+    if (this.isSymbol('+')) {
+      this.index++;
+      return this.parseUnary();
+    }
+    return this.parsePath();
+  }
+
+  private parsePath(): XPathExpr {
+    if (this.isSymbol('/')) {
+      this.index++;
+      if (this.startsStep()) {
+        return { type: 'path', absolute: true, steps: this.parseRelativeSteps() };
+      }
+      return { type: 'root' };
+    }
+    if (this.isSymbol('//')) {
+      this.index++;
+      return { type: 'path', absolute: true, steps: [DESCENDANT_OR_SELF_STEP, ...this.parseRelativeSteps()] };
+    }
+    const steps = this.parseRelativeSteps();
+    return steps.length === 1 && steps[0].type === 'filter' && steps[0].predicates.length === 0
+      ? steps[0].primary
+      : { type: 'path', absolute: false, steps };
+  }
+
+  private startsStep(): boolean {
+    const token = this.peek();
+    if (token.type === 'name' || token.type === 'string' || token.type === 'number' || token.type === 'variable') {
+      return true;
+    }
+    return token.type === 'symbol' && ['@', '.', '..', '*', '('].includes(token.value);
+  }
+
+  private parseRelativeSteps(): XPathExpr[] {
+    const steps = [this.parseStep()];
+    while (this.isSymbol('/') || this.isSymbol('//')) {
+      if (this.next().value === '//') steps.push(DESCENDANT_OR_SELF_STEP);
+      steps.push(this.parseStep());
+    }
+    return steps;
+  }
+
+  private parsePredicates(): XPathExpr[] {
+    const predicates: XPathExpr[] = [];
+    while (this.isSymbol('[')) {
+      this.index++;
+      predicates.push(this.parseExpr());
+      this.expectSymbol(']');
+    }
+    return predicates;
+  }
+
+  private parseStep(): XPathExpr {
+    const token = this.peek();
+
+    if (this.isSymbol('..')) {
+      this.index++;
+      return { type: 'step', axis: 'parent', test: { type: 'kind', kind: 'node' }, predicates: this.parsePredicates() };
+    }
+
+    if (this.isSymbol('@')) {
+      this.index++;
+      return { type: 'step', axis: 'attribute', test: this.parseNodeTest(), predicates: this.parsePredicates() };
+    }
+
+    if (token.type === 'name' && this.isSymbol('::', 1)) {
+      const axis = token.value as Axis;
+      if (!AXES.has(axis)) this.fail(`unsupported axis "${token.value}"`);
+      this.index += 2;
+      return { type: 'step', axis, test: this.parseNodeTest(), predicates: this.parsePredicates() };
+    }
+
+    if (this.isSymbol('*') || (token.type === 'name' && !this.isSymbol('(', 1))) {
+      return { type: 'step', axis: 'child', test: this.parseNodeTest(), predicates: this.parsePredicates() };
+    }
+
+    if (token.type === 'name' && KIND_TESTS.has(token.value) && this.isSymbol('(', 1)) {
+      const test = this.parseNodeTest();
+      const axis: Axis = test.type === 'kind' && test.kind === 'attribute' ? 'attribute' : 'child';
+      return { type: 'step', axis, test, predicates: this.parsePredicates() };
+    }
+
+    const primary = this.parsePrimary();
+    return { type: 'filter', primary, predicates: this.parsePredicates() };
+  }
+
+  private parseNodeTest(): NodeTest {
+    const token = this.next();
+    if (token.type === 'symbol' && token.value === '*') return { type: 'wildcard' };
+    if (token.type !== 'name') this.fail(`expected node test but found "${token.value}"`);
+
+    if (KIND_TESTS.has(token.value) && this.isSymbol('(')) {
+      this.index++;
+      this.expectSymbol(')');
+      return { type: 'kind', kind: token.value as 'node' | 'text' | 'element' | 'attribute' };
+    }
+    if (token.value.endsWith(':*')) return { type: 'wildcard', prefix: token.value.slice(0, -2) };
+
+    const separator = token.value.indexOf(':');
+    return separator === -1
+      ? { type: 'name', prefix: '', localName: token.value }
+      : { type: 'name', prefix: token.value.slice(0, separator), localName: token.value.slice(separator + 1) };
+  }
+
+  private parsePrimary(): XPathExpr {
+    const token = this.next();
+    switch (token.type) {
+      case 'string':
+      case 'number':
+        return { type: 'literal', value: token.value };
+      case 'variable':
+        return { type: 'variable', name: token.value };
+      case 'name': {
+        this.expectSymbol('(');
+        const args: XPathExpr[] = [];
+        if (!this.isSymbol(')')) {
+          args.push(this.parseExprSingle());
+          while (this.isSymbol(',')) {
+            this.index++;
+            args.push(this.parseExprSingle());
+          }
+        }
+        this.expectSymbol(')');
+        return { type: 'function', name: token.value, args };
+      }
+      case 'symbol':
+        if (token.value === '.') return { type: 'contextItem' };
+        if (token.value === '(') {
+          if (this.isSymbol(')')) {
+            this.index++;
+            return { type: 'empty' };
+          }
+          const expr = this.parseExpr();
+          this.expectSymbol(')');
+          return expr;
+        }
+        break;
+    }
+    return this.fail(`unexpected "${token.value}"`);
+  }
+}
+
+const DESCENDANT_OR_SELF_STEP: XPathExpr = {
+  type: 'step',
+  axis: 'descendant-or-self',
+  test: { type: 'kind', kind: 'node' },
+  predicates: [],
+};
+
+const parsedExpressionCache = new Map<string, XPathExpr>();
+
+export function parseXPath(expression: string): XPathExpr {
+  const cached = parsedExpressionCache.get(expression);
+  if (cached) return cached;
+  const parsed = new XPathParser(expression).parse();
+  parsedExpressionCache.set(expression, parsed);
+  return parsed;
+}
+
+// ---------------------------------------------------------------------------
+// Node helpers
+// ---------------------------------------------------------------------------
+
+export function isXmlNode(item: XPathItem): item is XmlNode {
+  return typeof item === 'object' && item !== null && 'kind' in item;
+}
+
+const documentOrderIndex = new WeakMap<XmlDocument, WeakMap<XmlNode, number>>();
+
+function getDocumentOrder(root: XmlDocument): WeakMap<XmlNode, number> {
+  const existing = documentOrderIndex.get(root);
+  if (existing) return existing;
+
+  const order = new WeakMap<XmlNode, number>();
+  let counter = 0;
+  const visit = (node: XmlNode) => {
+    order.set(node, counter++);
+    if (node.kind === 'element') {
+      node.attributes.forEach((attribute) => order.set(attribute, counter++));
+      node.children.forEach(visit);
+    } else if (node.kind === 'document') {
+      node.children.forEach(visit);
+    }
+  };
+  visit(root);
+  documentOrderIndex.set(root, order);
+  return order;
+}
+
+function sortDocumentOrder(nodes: XmlNode[], root: XmlDocument): XmlNode[] {
+  const order = getDocumentOrder(root);
+  const unique = Array.from(new Set(nodes));
+  return unique.sort((a, b) => (order.get(a) ?? 0) - (order.get(b) ?? 0));
+}
+
+function getParent(node: XmlNode): XmlNode | undefined {
+  return node.kind === 'document' ? undefined : node.parent;
+}
+
+function getChildren(node: XmlNode): XmlNode[] {
+  return node.kind === 'element' || node.kind === 'document' ? node.children : [];
+}
+
+function collectDescendants(node: XmlNode, into: XmlNode[]) {
+  for (const child of getChildren(node)) {
+    into.push(child);
+    collectDescendants(child, into);
+  }
+}
+
+function getRootDocument(node: XmlNode): XmlDocument | undefined {
+  let current: XmlNode | undefined = node;
+  while (current && current.kind !== 'document') current = getParent(current);
+  return current?.kind === 'document' ? current : undefined;
+}
+
+function walkAxis(node: XmlNode, axis: Axis): XmlNode[] {
+  switch (axis) {
+    case 'child':
+      return getChildren(node);
+    case 'descendant': {
+      const nodes: XmlNode[] = [];
+      collectDescendants(node, nodes);
+      return nodes;
+    }
+    case 'descendant-or-self': {
+      const nodes: XmlNode[] = [node];
+      collectDescendants(node, nodes);
+      return nodes;
+    }
+    case 'self':
+      return [node];
+    case 'parent': {
+      const parent = getParent(node);
+      return parent ? [parent] : [];
+    }
+    case 'ancestor':
+    case 'ancestor-or-self': {
+      const nodes: XmlNode[] = axis === 'ancestor-or-self' ? [node] : [];
+      let current = getParent(node);
+      while (current) {
+        nodes.push(current);
+        current = getParent(current);
+      }
+      return nodes;
+    }
+    case 'attribute':
+      return node.kind === 'element' ? node.attributes : [];
+    case 'following-sibling':
+    case 'preceding-sibling': {
+      if (node.kind !== 'element' && node.kind !== 'text') return [];
+      const siblings = getChildren(node.parent);
+      const index = siblings.indexOf(node);
+      return axis === 'following-sibling'
+        ? siblings.slice(index + 1)
+        : siblings.slice(0, index).reverse();
+    }
+  }
+}
+
+function matchesNodeTest(node: XmlNode, test: NodeTest, axis: Axis, context: XPathContext): boolean {
+  const principalKind = axis === 'attribute' ? 'attribute' : 'element';
+
+  switch (test.type) {
+    case 'kind':
+      if (test.kind === 'node') return true;
+      return node.kind === test.kind;
+    case 'wildcard':
+      if (node.kind !== principalKind) return false;
+      return test.prefix ? node.namespaceURI === resolvePrefix(test.prefix, context) : true;
+    case 'name':
+      if (node.kind !== principalKind) return false;
+      if (node.localName !== test.localName) return false;
+      return node.namespaceURI === (test.prefix ? resolvePrefix(test.prefix, context) : '');
+  }
+}
+
+function resolvePrefix(prefix: string, context: XPathContext): string {
+  const uri = context.namespaces[prefix];
+  if (uri === undefined) throw new Error(`XPath error: undeclared namespace prefix "${prefix}"`);
+  return uri;
+}
+
+// ---------------------------------------------------------------------------
+// Atomization, casting and comparison
+// ---------------------------------------------------------------------------
+
+interface TypedAtomic {
+  value: XPathAtomic;
+  untyped: boolean;
+}
+
+function atomizeItem(item: XPathItem): TypedAtomic {
+  if (isXmlNode(item)) return { value: getTextContent(item), untyped: true };
+  return { value: item, untyped: false };
+}
+
+export function atomize(sequence: XPathSequence): TypedAtomic[] {
+  return sequence.map(atomizeItem);
+}
+
+export function stringValue(item: XPathItem | undefined): string {
+  if (item === undefined) return '';
+  if (isXmlNode(item)) return getTextContent(item);
+  if (typeof item === 'number') return formatNumber(item);
+  return String(item);
+}
+
+function formatNumber(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (!Number.isFinite(value)) return value > 0 ? 'INF' : '-INF';
+  return String(normalizeDecimal(value));
+}
+
+// Binary floating point drifts on decimal money values (0.1 + 0.2); XPath 2 uses exact
+// xs:decimal arithmetic, so results are snapped back to 15 significant digits.
+function normalizeDecimal(value: number): number {
+  if (!Number.isFinite(value) || value === 0) return value;
+  return parseFloat(value.toPrecision(15));
+}
+
+function toNumber(value: XPathAtomic): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  const trimmed = value.trim();
+  if (trimmed === '' || !/^[+-]?(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?$|^[+-]?INF$|^NaN$/.test(trimmed)) return NaN;
+  if (trimmed.endsWith('INF')) return trimmed.startsWith('-') ? -Infinity : Infinity;
+  return Number(trimmed);
+}
+
+function toBoolean(value: XPathAtomic): boolean | undefined {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0 && !Number.isNaN(value);
+  const trimmed = value.trim();
+  if (trimmed === 'true' || trimmed === '1') return true;
+  if (trimmed === 'false' || trimmed === '0') return false;
+  return undefined;
+}
+
+export function effectiveBooleanValue(sequence: XPathSequence): boolean {
+  if (sequence.length === 0) return false;
+  const first = sequence[0];
+  if (isXmlNode(first)) return true;
+  if (typeof first === 'boolean') return first;
+  if (typeof first === 'number') return first !== 0 && !Number.isNaN(first);
+  return first.length > 0;
+}
+
+function compareAtomic(operator: string, left: TypedAtomic, right: TypedAtomic): boolean {
+  let a: XPathAtomic = left.value;
+  let b: XPathAtomic = right.value;
+
+  if (typeof a === 'boolean' || typeof b === 'boolean') {
+    const leftBoolean = typeof a === 'boolean' ? a : toBoolean(a);
+    const rightBoolean = typeof b === 'boolean' ? b : toBoolean(b);
+    if (leftBoolean === undefined || rightBoolean === undefined) return false;
+    a = leftBoolean ? 1 : 0;
+    b = rightBoolean ? 1 : 0;
+  } else if (typeof a === 'number' || typeof b === 'number') {
+    a = normalizeDecimal(toNumber(a));
+    b = normalizeDecimal(toNumber(b));
+    if (Number.isNaN(a) || Number.isNaN(b)) return operator === '!=' || operator === 'ne';
+  } else {
+    a = String(a);
+    b = String(b);
+  }
+
+  switch (operator) {
+    case '=':
+    case 'eq':
+      return a === b;
+    case '!=':
+    case 'ne':
+      return a !== b;
+    case '<':
+    case 'lt':
+      return a < b;
+    case '<=':
+    case 'le':
+      return a <= b;
+    case '>':
+    case 'gt':
+      return a > b;
+    case '>=':
+    case 'ge':
+      return a >= b;
+    default:
+      throw new Error(`XPath error: unsupported comparison "${operator}"`);
+  }
+}
+
+function generalCompare(operator: string, left: XPathSequence, right: XPathSequence): boolean {
+  const leftValues = atomize(left);
+  const rightValues = atomize(right);
+  return leftValues.some((a) => rightValues.some((b) => compareAtomic(operator, a, b)));
+}
+
+function arithmetic(operator: string, left: XPathSequence, right: XPathSequence): XPathSequence {
+  if (left.length === 0 || right.length === 0) return [];
+  if (left.length > 1 || right.length > 1) {
+    throw new Error(`XPath error: arithmetic "${operator}" on a sequence of more than one item`);
+  }
+  const a = toNumber(atomizeItem(left[0]).value);
+  const b = toNumber(atomizeItem(right[0]).value);
+
+  switch (operator) {
+    case '+':
+      return [normalizeDecimal(a + b)];
+    case '-':
+      return [normalizeDecimal(a - b)];
+    case '*':
+      return [normalizeDecimal(a * b)];
+    case 'div':
+      return [normalizeDecimal(a / b)];
+    case 'idiv':
+      return [Math.trunc(a / b)];
+    case 'mod':
+      return [normalizeDecimal(a % b)];
+    default:
+      throw new Error(`XPath error: unsupported operator "${operator}"`);
+  }
+}
+
+const DATE_PATTERN = /^-?\d{4,}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])(Z|[+-]\d{2}:\d{2})?$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d:[0-5]\d(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/;
+const DECIMAL_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)$/;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+
+function isValidCalendarDate(value: string): boolean {
+  const match = /^(-?\d{4,})-(\d{2})-(\d{2})/.exec(value);
+  if (!match) return false;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+function castAtomic(atomic: TypedAtomic, targetType: string): XPathAtomic {
+  const { value } = atomic;
+  const lexical = typeof value === 'string' ? value.trim() : stringValue(value);
+  const fail = (): never => {
+    throw new Error(`XPath error: cannot cast "${lexical}" to ${targetType}`);
+  };
+
+  switch (targetType) {
+    case 'xs:string':
+    case 'xs:untypedAtomic':
+    case 'xs:anyURI':
+      return typeof value === 'string' ? value : stringValue(value);
+    case 'xs:decimal':
+    case 'xs:double':
+    case 'xs:float':
+      if (typeof value === 'number') return value;
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      if (targetType === 'xs:decimal' ? !DECIMAL_PATTERN.test(lexical) : Number.isNaN(toNumber(lexical))) fail();
+      return toNumber(lexical);
+    case 'xs:integer':
+      if (typeof value === 'number') return Math.trunc(value);
+      if (typeof value === 'boolean') return value ? 1 : 0;
+      if (!INTEGER_PATTERN.test(lexical)) fail();
+      return Number(lexical);
+    case 'xs:boolean': {
+      const result = toBoolean(value);
+      if (result === undefined) fail();
+      return result as boolean;
+    }
+    case 'xs:date':
+      if (!DATE_PATTERN.test(lexical) || !isValidCalendarDate(lexical)) fail();
+      return lexical;
+    case 'xs:time':
+      if (!TIME_PATTERN.test(lexical)) fail();
+      return lexical;
+    default:
+      throw new Error(`XPath error: unsupported cast target ${targetType}`);
+  }
+}
+
+function castSequence(sequence: XPathSequence, targetType: string, optional: boolean): XPathSequence {
+  if (sequence.length === 0) {
+    if (optional) return [];
+    throw new Error(`XPath error: cannot cast an empty sequence to ${targetType}`);
+  }
+  if (sequence.length > 1) throw new Error(`XPath error: cannot cast a sequence to ${targetType}`);
+  return [castAtomic(atomizeItem(sequence[0]), targetType)];
+}
+
+// ---------------------------------------------------------------------------
+// Built-in functions
+// ---------------------------------------------------------------------------
+
+const regexCache = new Map<string, RegExp>();
+
+function compileRegex(pattern: string, flags = ''): RegExp {
+  const key = `${flags}/${pattern}`;
+  const cached = regexCache.get(key);
+  if (cached) return cached;
+  let source = pattern;
+  if (flags.includes('x')) source = source.replace(/\s+/g, '');
+  const compiled = new RegExp(source, flags.replace(/[^ism]/g, ''));
+  regexCache.set(key, compiled);
+  return compiled;
+}
+
+function singleString(sequence: XPathSequence | undefined): string {
+  if (!sequence || sequence.length === 0) return '';
+  return stringValue(sequence[0]);
+}
+
+function contextOrArgument(context: XPathContext, args: XPathSequence[]): XPathSequence {
+  return args.length > 0 ? args[0] : [context.item];
+}
+
+function numericArgument(sequence: XPathSequence): number | undefined {
+  if (sequence.length === 0) return undefined;
+  return toNumber(atomizeItem(sequence[0]).value);
+}
+
+function xsConstructor(targetType: string): XPathFunction {
+  return (_context, [argument]) => castSequence(argument, targetType, true);
+}
+
+const BUILT_IN_FUNCTIONS: Record<string, XPathFunction> = {
+  'true': () => [true],
+  'false': () => [false],
+  'not': (_context, [argument]) => [!effectiveBooleanValue(argument)],
+  'boolean': (_context, [argument]) => [effectiveBooleanValue(argument)],
+  'exists': (_context, [argument]) => [argument.length > 0],
+  'empty': (_context, [argument]) => [argument.length === 0],
+  'count': (_context, [argument]) => [argument.length],
+  'position': (context) => [context.position],
+  'last': (context) => [context.size],
+  'string': (context, args) => [singleString(contextOrArgument(context, args))],
+  'data': (_context, [argument]) => atomize(argument).map((atomic) => atomic.value),
+  'number': (context, args) => {
+    const value = contextOrArgument(context, args);
+    return [value.length === 0 ? NaN : toNumber(atomizeItem(value[0]).value)];
+  },
+  'normalize-space': (context, args) => [
+    singleString(contextOrArgument(context, args)).replace(/[\s]+/g, ' ').trim(),
+  ],
+  'string-length': (context, args) => [Array.from(singleString(contextOrArgument(context, args))).length],
+  'upper-case': (_context, [argument]) => [singleString(argument).toUpperCase()],
+  'lower-case': (_context, [argument]) => [singleString(argument).toLowerCase()],
+  'concat': (_context, args) => [args.map((argument) => singleString(argument)).join('')],
+  'string-join': (_context, [items, separator]) => [
+    items.map((item) => stringValue(item)).join(singleString(separator)),
+  ],
+  'contains': (_context, [haystack, needle]) => [singleString(haystack).includes(singleString(needle))],
+  'starts-with': (_context, [haystack, needle]) => [singleString(haystack).startsWith(singleString(needle))],
+  'ends-with': (_context, [haystack, needle]) => [singleString(haystack).endsWith(singleString(needle))],
+  'substring': (_context, [source, start, length]) => {
+    const characters = Array.from(singleString(source));
+    const first = Math.round(numericArgument(start) ?? NaN);
+    const count = length ? Math.round(numericArgument(length) ?? NaN) : Infinity;
+    return [characters.filter((_char, index) => index + 1 >= first && index + 1 < first + count).join('')];
+  },
+  'substring-before': (_context, [source, needle]) => {
+    const value = singleString(source);
+    const index = value.indexOf(singleString(needle));
+    return [index === -1 ? '' : value.slice(0, index)];
+  },
+  'substring-after': (_context, [source, needle]) => {
+    const value = singleString(source);
+    const search = singleString(needle);
+    const index = value.indexOf(search);
+    return [index === -1 ? '' : value.slice(index + search.length)];
+  },
+  'translate': (_context, [source, from, to]) => {
+    const mapFrom = Array.from(singleString(from));
+    const mapTo = Array.from(singleString(to));
+    return [
+      Array.from(singleString(source))
+        .map((char) => {
+          const index = mapFrom.indexOf(char);
+          if (index === -1) return char;
+          return mapTo[index] ?? '';
+        })
+        .join(''),
+    ];
+  },
+  'matches': (_context, [input, pattern, flags]) => [
+    compileRegex(singleString(pattern), singleString(flags)).test(singleString(input)),
+  ],
+  'replace': (_context, [input, pattern, replacement, flags]) => {
+    const regex = compileRegex(singleString(pattern), singleString(flags));
+    return [singleString(input).replace(new RegExp(regex.source, `${regex.flags}g`), singleString(replacement))];
+  },
+  'tokenize': (_context, [input, pattern, flags]) => {
+    const value = singleString(input);
+    if (!value) return [];
+    return value.split(compileRegex(singleString(pattern), singleString(flags)));
+  },
+  'distinct-values': (_context, [argument]) => Array.from(new Set(atomize(argument).map((atomic) => atomic.value))),
+  'sum': (_context, [argument, zero]) => {
+    if (argument.length === 0) return zero ?? [0];
+    return [normalizeDecimal(atomize(argument).reduce((total, atomic) => total + toNumber(atomic.value), 0))];
+  },
+  'avg': (_context, [argument]) => {
+    if (argument.length === 0) return [];
+    const total = atomize(argument).reduce((sum, atomic) => sum + toNumber(atomic.value), 0);
+    return [normalizeDecimal(total / argument.length)];
+  },
+  'max': (_context, [argument]) => {
+    if (argument.length === 0) return [];
+    return [Math.max(...atomize(argument).map((atomic) => toNumber(atomic.value)))];
+  },
+  'min': (_context, [argument]) => {
+    if (argument.length === 0) return [];
+    return [Math.min(...atomize(argument).map((atomic) => toNumber(atomic.value)))];
+  },
+  'abs': (_context, [argument]) => {
+    const value = numericArgument(argument);
+    return value === undefined ? [] : [Math.abs(value)];
+  },
+  'round': (_context, [argument]) => {
+    const value = numericArgument(argument);
+    return value === undefined ? [] : [Math.round(normalizeDecimal(value))];
+  },
+  'floor': (_context, [argument]) => {
+    const value = numericArgument(argument);
+    return value === undefined ? [] : [Math.floor(normalizeDecimal(value))];
+  },
+  'ceiling': (_context, [argument]) => {
+    const value = numericArgument(argument);
+    return value === undefined ? [] : [Math.ceil(normalizeDecimal(value))];
+  },
+  'reverse': (_context, [argument]) => [...argument].reverse(),
+  'string-to-codepoints': (_context, [argument]) =>
+    Array.from(singleString(argument)).map((char) => char.codePointAt(0) ?? 0),
+  'name': (context, args) => {
+    const [node] = contextOrArgument(context, args);
+    return [node && isXmlNode(node) && (node.kind === 'element' || node.kind === 'attribute') ? node.name : ''];
+  },
+  'local-name': (context, args) => {
+    const [node] = contextOrArgument(context, args);
+    return [node && isXmlNode(node) && (node.kind === 'element' || node.kind === 'attribute') ? node.localName : ''];
+  },
+  'namespace-uri': (context, args) => {
+    const [node] = contextOrArgument(context, args);
+    return [node && isXmlNode(node) && (node.kind === 'element' || node.kind === 'attribute') ? node.namespaceURI : ''];
+  },
+  'root': (context) => [context.root],
+  'xs:string': xsConstructor('xs:string'),
+  'xs:decimal': xsConstructor('xs:decimal'),
+  'xs:double': xsConstructor('xs:double'),
+  'xs:integer': xsConstructor('xs:integer'),
+  'xs:boolean': xsConstructor('xs:boolean'),
+  'xs:date': xsConstructor('xs:date'),
+  'xs:time': xsConstructor('xs:time'),
+};
+
+// ---------------------------------------------------------------------------
+// Evaluator
+// ---------------------------------------------------------------------------
+
+function withItem(context: XPathContext, item: XPathItem, position: number, size: number): XPathContext {
+  return { ...context, item, position, size };
+}
+
+function applyPredicates(items: XPathSequence, predicates: XPathExpr[], context: XPathContext): XPathSequence {
+  let current = items;
+  for (const predicate of predicates) {
+    const size = current.length;
+    current = current.filter((item, index) => {
+      const result = evaluate(predicate, withItem(context, item, index + 1, size));
+      if (result.length === 1 && typeof result[0] === 'number') return result[0] === index + 1;
+      return effectiveBooleanValue(result);
+    });
+  }
+  return current;
+}
+
+function evaluateStep(step: Extract<XPathExpr, { type: 'step' }>, context: XPathContext): XPathSequence {
+  if (!isXmlNode(context.item)) {
+    throw new Error('XPath error: path step applied to an atomic value');
+  }
+  const candidates = walkAxis(context.item, step.axis).filter((node) =>
+    matchesNodeTest(node, step.test, step.axis, context)
+  );
+  return applyPredicates(candidates, step.predicates, context);
+}
+
+function evaluatePath(path: Extract<XPathExpr, { type: 'path' }>, context: XPathContext): XPathSequence {
+  let current: XPathSequence;
+  if (path.absolute) {
+    current = [context.root];
+  } else {
+    current = [context.item];
+  }
+
+  path.steps.forEach((step, stepIndex) => {
+    const isFirstRelativeStep = !path.absolute && stepIndex === 0;
+    if (isFirstRelativeStep && step.type === 'filter') {
+      current = evaluate(step, context);
+      return;
+    }
+
+    const results: XPathItem[] = [];
+    current.forEach((item, index) => {
+      const stepContext = withItem(context, item, index + 1, current.length);
+      results.push(...(step.type === 'step' ? evaluateStep(step, stepContext) : evaluate(step, stepContext)));
+    });
+
+    const allNodes = results.every(isXmlNode);
+    current = allNodes ? sortDocumentOrder(results as XmlNode[], context.root) : results;
+  });
+
+  return current;
+}
+
+function evaluateBindings(
+  bindings: Array<{ name: string; expr: XPathExpr }>,
+  context: XPathContext,
+  visit: (variables: Record<string, XPathSequence>) => boolean | void
+): void {
+  const bind = (index: number, variables: Record<string, XPathSequence>): boolean => {
+    if (index === bindings.length) return visit(variables) !== false;
+    const binding = bindings[index];
+    const values = evaluate(binding.expr, { ...context, variables });
+    for (const value of values) {
+      if (!bind(index + 1, { ...variables, [binding.name]: [value] })) return false;
+    }
+    return true;
+  };
+  bind(0, context.variables);
+}
+
+export function evaluate(expr: XPathExpr, context: XPathContext): XPathSequence {
+  switch (expr.type) {
+    case 'literal':
+      return [expr.value];
+    case 'empty':
+      return [];
+    case 'variable': {
+      const value = context.variables[expr.name];
+      if (value === undefined) throw new Error(`XPath error: unbound variable $${expr.name}`);
+      return value;
+    }
+    case 'contextItem':
+      return [context.item];
+    case 'root': {
+      const root = isXmlNode(context.item) ? getRootDocument(context.item) : undefined;
+      return [root ?? context.root];
+    }
+    case 'sequence':
+      return expr.items.flatMap((item) => evaluate(item, context));
+    case 'function': {
+      const fn = context.functions[expr.name] ?? BUILT_IN_FUNCTIONS[expr.name];
+      if (!fn) throw new Error(`XPath error: unknown function ${expr.name}()`);
+      return fn(context, expr.args.map((arg) => evaluate(arg, context)));
+    }
+    case 'negate': {
+      const operand = evaluate(expr.operand, context);
+      if (operand.length === 0) return [];
+      return [-toNumber(atomizeItem(operand[0]).value)];
+    }
+    case 'binary': {
+      if (expr.operator === 'or') {
+        return [effectiveBooleanValue(evaluate(expr.left, context)) || effectiveBooleanValue(evaluate(expr.right, context))];
+      }
+      if (expr.operator === 'and') {
+        return [effectiveBooleanValue(evaluate(expr.left, context)) && effectiveBooleanValue(evaluate(expr.right, context))];
+      }
+      const left = evaluate(expr.left, context);
+      const right = evaluate(expr.right, context);
+      if (COMPARISON_OPERATORS.has(expr.operator)) return [generalCompare(expr.operator, left, right)];
+      if (VALUE_COMPARISON_OPERATORS.has(expr.operator)) {
+        if (left.length === 0 || right.length === 0) return [];
+        return [compareAtomic(expr.operator, atomizeItem(left[0]), atomizeItem(right[0]))];
+      }
+      if (expr.operator === 'to') {
+        const from = numericArgument(left);
+        const to = numericArgument(right);
+        if (from === undefined || to === undefined) return [];
+        const range: number[] = [];
+        for (let i = from; i <= to; i++) range.push(i);
+        return range;
+      }
+      return arithmetic(expr.operator, left, right);
+    }
+    case 'union': {
+      const items = [...evaluate(expr.left, context), ...evaluate(expr.right, context)];
+      if (!items.every(isXmlNode)) throw new Error('XPath error: union operands must be nodes');
+      return sortDocumentOrder(items as XmlNode[], context.root);
+    }
+    case 'step':
+      return evaluateStep(expr, context);
+    case 'filter':
+      return applyPredicates(evaluate(expr.primary, context), expr.predicates, context);
+    case 'path':
+      return evaluatePath(expr, context);
+    case 'quantified': {
+      let result = expr.quantifier === 'every';
+      evaluateBindings(expr.bindings, context, (variables) => {
+        const satisfied = effectiveBooleanValue(evaluate(expr.satisfies, { ...context, variables }));
+        if (expr.quantifier === 'some' && satisfied) {
+          result = true;
+          return false;
+        }
+        if (expr.quantifier === 'every' && !satisfied) {
+          result = false;
+          return false;
+        }
+      });
+      return [result];
+    }
+    case 'for': {
+      const results: XPathItem[] = [];
+      evaluateBindings(expr.bindings, context, (variables) => {
+        results.push(...evaluate(expr.result, { ...context, variables }));
+      });
+      return results;
+    }
+    case 'if':
+      return effectiveBooleanValue(evaluate(expr.condition, context))
+        ? evaluate(expr.then, context)
+        : evaluate(expr.else, context);
+    case 'castable':
+      try {
+        castSequence(evaluate(expr.operand, context), expr.targetType, expr.optional);
+        return [true];
+      } catch {
+        return [false];
+      }
+    case 'cast':
+      return castSequence(evaluate(expr.operand, context), expr.targetType, expr.optional);
+  }
+}
+
+export function createXPathContext(node: XmlNode, options: XPathEvaluateOptions = {}): XPathContext {
+  const root = getRootDocument(node);
+  if (!root) throw new Error('XPath error: context node is not attached to a document');
+  return {
+    item: node,
+    position: 1,
+    size: 1,
+    root,
+    variables: options.variables ?? {},
+    namespaces: { ...UBL_NAMESPACES, ...(options.namespaces ?? {}) },
+    functions: options.functions ?? {},
+  };
+}
+
+export function evaluateXPath(
+  expression: string | XPathExpr,
+  node: XmlNode,
+  options: XPathEvaluateOptions = {}
+): XPathSequence {
+  const expr = typeof expression === 'string' ? parseXPath(expression) : expression;
+  return evaluate(expr, createXPathContext(node, options));
+}
+
+export function evaluateXPathBoolean(
+  expression: string | XPathExpr,
+  node: XmlNode,
+  options: XPathEvaluateOptions = {}
+): boolean {
+  return effectiveBooleanValue(evaluateXPath(expression, node, options));
+}
+
+export function selectNodes(
+  expression: string | XPathExpr,
+  node: XmlNode,
+  options: XPathEvaluateOptions = {}
+): XmlNode[] {
+  return evaluateXPath(expression, node, options).filter(isXmlNode);
+}
+
+/**
+ * Select the nodes matched by an XSLT/Schematron match pattern such as
+ * `cac:InvoiceLine | cac:CreditNoteLine`. Relative branches match at any depth.
+ */
+export function selectPatternNodes(
+  pattern: string,
+  document: XmlDocument,
+  options: XPathEvaluateOptions = {}
+): XmlNode[] {
+  const toAbsolute = (expr: XPathExpr): XPathExpr => {
+    if (expr.type === 'union') {
+      return { type: 'union', left: toAbsolute(expr.left), right: toAbsolute(expr.right) };
+    }
+    if (expr.type === 'path' && expr.absolute) return expr;
+    if (expr.type === 'root') return expr;
+    const steps = expr.type === 'path' ? expr.steps : [expr];
+    return { type: 'path', absolute: true, steps: [DESCENDANT_OR_SELF_STEP, ...steps] };
+  };
+
+  const cacheKey = `pattern:${pattern}`;
+  let expr = parsedExpressionCache.get(cacheKey);
+  if (!expr) {
+    expr = toAbsolute(parseXPath(pattern));
+    parsedExpressionCache.set(cacheKey, expr);
+  }
+  return selectNodes(expr, document, options);
+}
@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle, ClipboardCheck, Clock, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { StatsCard } from '@/components/StatsCard';
+import { useToast } from '@/hooks/use-toast';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { decideApproval, fetchApprovals } from '@/lib/api/approvalsApi';
+import { getSupabaseEnvStatus } from '@/lib/api/supabaseEnv';
+import { approvalDecisionBlocker } from '@/lib/approvals/approvalRules';
+import { applyApprovedChange } from '@/lib/approvals/applyApprovedChange';
+import { APPROVAL_KIND_LABELS, ApprovalRequest, ApprovalStatus } from '@/types/approvals';
+import { RESOLUTION_REASON_CODE_LABELS } from '@/types/direction';
+import { cn } from '@/lib/utils';
+
+const statusColors: Record<ApprovalStatus, string> = {
+  pending: 'bg-severity-medium-bg text-severity-medium border-severity-medium/30',
+  approved: 'bg-success-bg text-success border-success/30',
+  rejected: 'bg-severity-critical-bg text-severity-critical border-severity-critical/30',
+};
+
+function formatTimestamp(value: string | null): string {
+  return value ? format(new Date(value), 'dd MMM yyyy HH:mm') : '-';
+}
+
+export default function ApprovalsPage() {
+  const { toast } = useToast();
+  const { currentActor, activeRole } = useWorkspace();
+  const [approvals, setApprovals] = useState<ApprovalRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [view, setView] = useState<'pending' | 'decided'>('pending');
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [decidingId, setDecidingId] = useState<string | null>(null);
+
+  const loadApprovals = useCallback(async () => {
+    setIsLoading(true);
+    setApprovals(await fetchApprovals());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadApprovals();
+  }, [loadApprovals]);
+
+  const visibleApprovals = useMemo(
+    () => approvals.filter((request) => (view === 'pending') === (request.status === 'pending')),
+    [approvals, view]
+  );
+  const counts = useMemo(
+    () => ({
+      pending: approvals.filter((request) => request.status === 'pending').length,
+      approved: approvals.filter((request) => request.status === 'approved').length,
+      rejected: approvals.filter((request) => request.status === 'rejected').length,
+    }),
+    [approvals]
+  );
+
+  const handleDecision = async (request: ApprovalRequest, decision: 'approved' | 'rejected') => {
+    setDecidingId(request.id);
+    const decided = await decideApproval(request, decision, comments[request.id]?.trim() ?? '', currentActor);
+    if (!decided) {
+      setDecidingId(null);
+      toast({
+        title: 'Decision not recorded',
+        description: 'The request or the change it approves could not be updated. The request is still pending.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    // With Supabase configured the approved change was applied together with the decision.
+    if (decision === 'approved' && !getSupabaseEnvStatus().configured && !(await applyApprovedChange(decided))) {
+      toast({
+        title: 'Approved, but not applied',
+        description: `${APPROVAL_KIND_LABELS[decided.kind]} for ${decided.entityLabel} could not be applied.`,
+        variant: 'destructive',
+      });
+    } else {
+      toast({
+        title: decision === 'approved' ? 'Change approved' : 'Change rejected',
+        description: `${APPROVAL_KIND_LABELS[decided.kind]} · ${decided.entityLabel}`,
+      });
+    }
+    setDecidingId(null);
+    setApprovals((current) => current.map((entry) => (entry.id === decided.id ? decided : entry)));
+  };
+
+  return (
+    <div className="min-h-[calc(100vh-4rem)]">
+      <div className="container max-w-7xl py-8 md:py-10">
+        <div className="flex items-center justify-between mb-8 animate-fade-in">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-primary/10 rounded-lg">
+              <ClipboardCheck className="w-6 h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">Approvals</h1>
+              <p className="text-muted-foreground">
+                Waivers and rule changes take effect only after a second user approves them
+              </p>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8 animate-slide-up">
+          <StatsCard
+            title="Pending"
+            value={counts.pending}
+            icon={<Clock className="w-5 h-5" />}
+            variant={counts.pending > 0 ? 'warning' : 'success'}
+          />
+          <StatsCard title="Approved" value={counts.approved} icon={<CheckCircle className="w-5 h-5" />} variant="success" />
+          <StatsCard title="Rejected" value={counts.rejected} icon={<XCircle className="w-5 h-5" />} variant="default" />
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <Button variant={view === 'pending' ? 'default' : 'outline'} size="sm" onClick={() => setView('pending')}>
+            Pending ({counts.pending})
+          </Button>
+          <Button variant={view === 'decided' ? 'default' : 'outline'} size="sm" onClick={() => setView('decided')}>
+            Decided ({counts.approved + counts.rejected})
+          </Button>
+        </div>
+
+        <div className="surface-glass rounded-2xl border border-white/70 shadow-sm overflow-hidden animate-slide-up">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b bg-muted/30">
+                  <th className="text-left p-4 text-sm font-medium text-muted-foreground">Change</th>
+                  <th className="text-left p-4 text-sm font-medium text-muted-foreground">Target</th>
+                  <th className="text-left p-4 text-sm font-medium text-muted-foreground">Justification</th>
+                  <th className="text-left p-4 text-sm font-medium text-muted-foreground">Requested</th>
+                  <th className="text-left p-4 text-sm font-medium text-muted-foreground">Status</th>
+                  <th className="text-right p-4 text-sm font-medium text-muted-foreground">Decision</th>
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  <tr><td colSpan={6} className="p-8 text-center text-muted-foreground">Loading...</td></tr>
+                ) : visibleApprovals.length === 0 ? (
+                  <tr>
+                    <td colSpan={6} className="p-8 text-center text-muted-foreground">
+                      {view === 'pending' ? 'No changes are waiting for approval' : 'No decided requests yet'}
+                    </td>
+                  </tr>
+                ) : (
+                  visibleApprovals.map((request) => {
+                    const blocker = approvalDecisionBlocker(request, currentActor, activeRole);
+                    return (
+                      <tr key={request.id} className="border-b align-top hover:bg-muted/20 transition-colors">
+                        <td className="p-4 text-sm font-medium text-foreground">{APPROVAL_KIND_LABELS[request.kind]}</td>
+                        <td className="p-4 text-sm text-muted-foreground max-w-[220px]">
+                          <p className="text-foreground">{request.entityLabel}</p>
+                          {request.kind === 'check.severity' && (
+                            <p className="text-xs">
+                              {String(request.payload.previousSeverity)} → {String(request.payload.severity)}
+                            </p>
+                          )}
+                        </td>
+                        <td className="p-4 text-sm text-muted-foreground max-w-[280px]">
+                          {request.reasonCode && (
+                            <p className="font-medium text-foreground">{RESOLUTION_REASON_CODE_LABELS[request.reasonCode]}</p>
+                          )}
+                          <p>{request.justification}</p>
+                        </td>
+                        <td className="p-4 text-sm text-muted-foreground">
+                          <p className="text-foreground">{request.requestedBy.name}</p>
+                          <p className="text-xs">{formatTimestamp(request.requestedAt)}</p>
+                        </td>
+                        <td className="p-4">
+                          <span className={cn('px-2 py-1 rounded-full text-xs font-medium border capitalize', statusColors[request.status])}>
+                            {request.status}
+                          </span>
+                        </td>
+                        <td className="p-4 text-right">
+                          {request.status === 'pending' ? (
+                            <div className="flex flex-col items-end gap-2">
+                              <Input
+                                aria-label={`Decision comment for ${request.entityLabel}`}
+                                placeholder="Comment (optional)"
+                                className="h-8 w-56 text-xs"
+                                value={comments[request.id] ?? ''}
+                                onChange={(e) => setComments((current) => ({ ...current, [request.id]: e.target.value }))}
+                                disabled={Boolean(blocker)}
+                              />
+                              <div className="flex gap-2">
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleDecision(request, 'rejected')}
+                                  disabled={Boolean(blocker) || decidingId === request.id}
+                                  title={blocker ?? undefined}
+                                >
+                                  Reject
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  onClick={() => handleDecision(request, 'approved')}
+                                  disabled={Boolean(blocker) || decidingId === request.id}
+                                  title={blocker ?? undefined}
+                                >
+                                  Approve
+                                </Button>
+                              </div>
+                              {blocker && <p className="text-xs text-muted-foreground">{blocker}</p>}
+                            </div>
+                          ) : (
+                            <div className="text-sm text-muted-foreground">
+                              <p className="text-foreground">{request.decidedBy?.name ?? '-'}</p>
+                              <p className="text-xs">{formatTimestamp(request.decidedAt)}</p>
+                              {request.decisionComment && <p className="text-xs italic">{request.decisionComment}</p>}
+                            </div>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,7 +9,10 @@ import {
   Filter,
   Plus,
   Eye,
-  MessageSquare
+  MessageSquare,
+  Route,
+  CalendarClock,
+  BellRing
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -31,6 +34,8 @@ import {
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { usePermission } from '@/hooks/use-permission';
+import { requiredRoleMessage } from '@/lib/access/permissions';
 import { StatsCard } from '@/components/StatsCard';
 import { SeverityBadge } from '@/components/SeverityBadge';
 import { Case, CaseStatus, OwnerTeam, CaseNote } from '@/types/cases';
@@ -42,6 +47,13 @@ import {
   fetchCaseNotes,
   updateSLABreaches 
 } from '@/lib/api/casesApi';
+import { fetchCaseExceptionLinks } from '@/lib/api/caseRoutingApi';
+import { CaseRoutingRulesDialog } from '@/components/cases/CaseRoutingRulesDialog';
+import { SlaCalendarDialog } from '@/components/cases/SlaCalendarDialog';
+import { NotificationSettingsDialog } from '@/components/cases/NotificationSettingsDialog';
+import { runCaseEscalations } from '@/lib/api/notificationsApi';
+import { ESCALATION_LEVEL_LABELS } from '@/types/notifications';
+import { CaseExceptionLink } from '@/types/caseRouting';
 import { cn } from '@/lib/utils';
 
 const STATUS_OPTIONS: CaseStatus[] = ['Open', 'In Progress', 'Waiting', 'Resolved'];
@@ -57,6 +69,8 @@ const statusColors: Record<CaseStatus, string> = {
 export default function CasesPage() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const canWorkCases = usePermission('data.prepare');
+  const canResolve = usePermission('case.resolve');
   const [cases, setCases] = useState<Case[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState<CaseStatus | 'all'>('all');
@@ -66,6 +80,10 @@ export default function CasesPage() {
   
   const [selectedCase, setSelectedCase] = useState<Case | null>(null);
   const [caseNotes, setCaseNotes] = useState<CaseNote[]>([]);
+  const [caseLinks, setCaseLinks] = useState<CaseExceptionLink[]>([]);
+  const [isRoutingOpen, setIsRoutingOpen] = useState(false);
+  const [isCalendarOpen, setIsCalendarOpen] = useState(false);
+  const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
   const [newNote, setNewNote] = useState('');
   const [isDetailOpen, setIsDetailOpen] = useState(false);
   
@@ -80,7 +98,17 @@ export default function CasesPage() {
 
   const loadData = useCallback(async () => {
     setIsLoading(true);
-    await updateSLABreaches();
+    // Refreshing SLA state writes to cases, so only members who work cases run it.
+    if (canWorkCases) {
+      if (!(await updateSLABreaches())) {
+        toast({
+          title: 'SLA status not refreshed',
+          description: 'Case SLA breaches could not be updated, so SLA figures may be out of date.',
+          variant: 'destructive',
+        });
+      }
+      await runCaseEscalations();
+    }
     
     const filters: any = {};
     if (statusFilter !== 'all') filters.status = statusFilter;
@@ -96,7 +124,7 @@ export default function CasesPage() {
     setCases(casesData);
     setSlaMetrics(metrics);
     setIsLoading(false);
-  }, [statusFilter, ownerFilter, slaFilter]);
+  }, [statusFilter, ownerFilter, slaFilter, canWorkCases, toast]);
 
   useEffect(() => {
     loadData();
@@ -104,13 +132,18 @@ export default function CasesPage() {
 
   const handleOpenDetail = async (caseItem: Case) => {
     setSelectedCase(caseItem);
-    const notes = await fetchCaseNotes(caseItem.id);
+    const [notes, links] = await Promise.all([fetchCaseNotes(caseItem.id), fetchCaseExceptionLinks(caseItem.id)]);
     setCaseNotes(notes);
+    setCaseLinks(links);
     setIsDetailOpen(true);
   };
 
   const handleUpdateStatus = async (newStatus: CaseStatus) => {
-    if (!selectedCase) return;
+    if (!selectedCase || !canWorkCases) return;
+    if (newStatus === 'Resolved' && !canResolve) {
+      toast({ title: 'Cannot resolve case', description: requiredRoleMessage('case.resolve'), variant: 'destructive' });
+      return;
+    }
     const success = await updateCase(selectedCase.id, { status: newStatus });
     if (success) {
       toast({ title: 'Case updated', description: `Status changed to ${newStatus}` });
@@ -120,7 +153,7 @@ export default function CasesPage() {
   };
 
   const handleAddNote = async () => {
-    if (!selectedCase || !newNote.trim()) return;
+    if (!selectedCase || !newNote.trim() || !canWorkCases) return;
     const note = await addCaseNote(selectedCase.id, newNote, 'System');
     if (note) {
       setCaseNotes([note, ...caseNotes]);
@@ -156,6 +189,17 @@ export default function CasesPage() {
               <p className="text-muted-foreground">Exception case management & SLA tracking</p>
             </div>
           </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsCalendarOpen(true)}>
+              <CalendarClock className="w-4 h-4 mr-2" /> SLA calendar
+            </Button>
+            <Button variant="outline" onClick={() => setIsRoutingOpen(true)}>
+              <Route className="w-4 h-4 mr-2" /> Routing rules
+            </Button>
+            <Button variant="outline" onClick={() => setIsNotificationsOpen(true)}>
+              <BellRing className="w-4 h-4 mr-2" /> Escalations
+            </Button>
+          </div>
         </div>
 
         {/* SLA Summary */}
@@ -280,6 +324,8 @@ export default function CasesPage() {
                       <td className="p-4">
                         {c.is_sla_breached ? (
                           <span className="text-severity-critical font-medium text-sm">Breached</span>
+                        ) : c.status === 'Waiting' ? (
+                          <span className="text-muted-foreground font-medium text-sm">Paused</span>
                         ) : (
                           <span className="text-success font-medium text-sm">OK</span>
                         )}
@@ -320,20 +366,32 @@ export default function CasesPage() {
                   </div>
                   <div>
                     <Label className="text-muted-foreground">Status</Label>
-                    <Select value={selectedCase.status} onValueChange={handleUpdateStatus}>
-                      <SelectTrigger className="mt-1">
+                    <Select value={selectedCase.status} onValueChange={handleUpdateStatus} disabled={!canWorkCases}>
+                      <SelectTrigger className="mt-1" title={canWorkCases ? undefined : requiredRoleMessage('data.prepare')}>
                         <SelectValue />
                       </SelectTrigger>
                       <SelectContent>
-                        {STATUS_OPTIONS.map(s => <SelectItem key={s} value={s}>{s}</SelectItem>)}
+                        {STATUS_OPTIONS.map(s => (
+                          <SelectItem key={s} value={s} disabled={s === 'Resolved' && !canResolve}>
+                            {s}
+                          </SelectItem>
+                        ))}
                       </SelectContent>
                     </Select>
                   </div>
                   <div>
                     <Label className="text-muted-foreground">SLA Status</Label>
                     <p className={cn('font-medium', selectedCase.is_sla_breached ? 'text-severity-critical' : 'text-success')}>
-                      {selectedCase.is_sla_breached ? 'Breached' : 'Within SLA'}
+                      {selectedCase.is_sla_breached ? 'Breached' : selectedCase.status === 'Waiting' ? 'Paused while waiting' : 'Within SLA'}
                     </p>
+                    {selectedCase.sla_target_at && (
+                      <p className="text-xs text-muted-foreground">
+                        Due {new Date(selectedCase.sla_target_at).toLocaleString()} ({selectedCase.sla_hours} working hours)
+                      </p>
+                    )}
+                    {selectedCase.escalation_level && selectedCase.escalation_level !== 'none' && (
+                      <p className="text-xs text-severity-high">{ESCALATION_LEVEL_LABELS[selectedCase.escalation_level]}</p>
+                    )}
                   </div>
                   <div className="col-span-2">
                     <Label className="text-muted-foreground">Check Name</Label>
@@ -341,6 +399,22 @@ export default function CasesPage() {
                   </div>
                 </div>
 
+                {caseLinks.length > 0 && (
+                  <div className="border-t pt-4">
+                    <h4 className="font-semibold mb-3">Linked findings ({caseLinks.length})</h4>
+                    <div className="space-y-1 max-h-[160px] overflow-y-auto">
+                      {caseLinks.map((link) => (
+                        <div key={link.id} className="flex justify-between gap-3 text-sm">
+                          <span className="font-mono text-xs truncate">{link.checkId || link.fingerprint}</span>
+                          <span className="text-muted-foreground text-xs shrink-0">
+                            {link.invoiceId || '-'} · {new Date(link.createdAt).toLocaleString()}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="border-t pt-4">
                   <h4 className="font-semibold mb-3 flex items-center gap-2">
                     <MessageSquare className="w-4 h-4" /> Notes
@@ -352,7 +426,7 @@ export default function CasesPage() {
                       onChange={(e) => setNewNote(e.target.value)}
                       onKeyDown={(e) => e.key === 'Enter' && handleAddNote()}
                     />
-                    <Button onClick={handleAddNote}>Add</Button>
+                    <Button onClick={handleAddNote} disabled={!canWorkCases}>Add</Button>
                   </div>
                   <div className="space-y-2 max-h-[200px] overflow-y-auto">
                     {caseNotes.map(note => (
@@ -379,6 +453,10 @@ export default function CasesPage() {
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        <CaseRoutingRulesDialog open={isRoutingOpen} onOpenChange={setIsRoutingOpen} />
+        <SlaCalendarDialog open={isCalendarOpen} onOpenChange={setIsCalendarOpen} onSaved={loadData} />
+        <NotificationSettingsDialog open={isNotificationsOpen} onOpenChange={setIsNotificationsOpen} />
       </div>
     </div>
   );
@@ -21,8 +21,16 @@ import {
 } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
+import { usePermission } from '@/hooks/use-permission';
+import { requiredRoleMessage } from '@/lib/access/permissions';
+import { fetchApprovals, requestApproval } from '@/lib/api/approvalsApi';
+import { latestApprovalsByEntity } from '@/lib/approvals/approvalRules';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { ApprovalRequest } from '@/types/approvals';
 import { SeverityBadge } from '@/components/SeverityBadge';
-import { CustomCheckConfig } from '@/types/customChecks';
+import { CustomCheckConfig, CustomCheckParameters } from '@/types/customChecks';
+import { FORMULA_FUNCTION_NAMES, FormulaScope, validateFormula } from '@/lib/checks/formulaLanguage';
+import { PARSER_KNOWN_COLUMNS } from '@/lib/registry/drRegistry';
 import { Severity } from '@/types/compliance';
 import {
   fetchAllCustomChecks,
@@ -45,8 +53,40 @@ const RULE_TYPES = [
   { value: 'math', label: 'Math Validation', description: 'Compare calculated values' },
   { value: 'regex', label: 'Pattern Match', description: 'Validate field format with regex' },
   { value: 'custom_formula', label: 'Custom Formula', description: 'Write custom validation logic' },
+  { value: 'aggregate', label: 'Aggregate', description: 'Compare line totals or per-seller monthly totals' },
+  { value: 'join', label: 'Invoice ↔ Buyer', description: 'Compare an invoice field with its buyer record' },
+  { value: 'conditional_existence', label: 'Conditional Existence', description: 'Require fields when a condition holds' },
 ];
 
+// Aggregate and join rules always evaluate invoice headers against related records.
+const CROSS_RECORD_RULE_TYPES = new Set(['aggregate', 'join']);
+
+const RULE_DEFAULT_PARAMETERS: Record<string, CustomCheckParameters> = {
+  aggregate: {
+    group_by: 'invoice',
+    aggregate_function: 'sum',
+    aggregate_field: 'line_total_excl_vat',
+    operator: '=',
+    right_expression: '{total_excl_vat}',
+    tolerance: 0.01,
+  },
+  join: { operator: '=' },
+};
+
+const COMPARISON_OPERATORS: { value: NonNullable<CustomCheckParameters['operator']>; label: string }[] = [
+  { value: '=', label: '=' },
+  { value: '!=', label: '!=' },
+  { value: '>', label: '>' },
+  { value: '<', label: '<' },
+  { value: '>=', label: '>=' },
+  { value: '<=', label: '<=' },
+];
+
+const AGGREGATE_FIELDS: Record<'invoice' | 'seller_month', string[]> = {
+  invoice: ['line_total_excl_vat', 'vat_amount', 'quantity', 'unit_price', 'line_discount'],
+  seller_month: ['total_excl_vat', 'vat_total', 'total_incl_vat', 'amount_due'],
+};
+
 const SEARCH_RULE_TYPES = [
   {
     value: 'fuzzy_duplicate',
@@ -72,7 +112,41 @@ const FIELD_OPTIONS: Record<string, string[]> = {
   'cross-file': ['invoice_id', 'invoice_number', 'seller_trn', 'buyer_id'],
 };
 
-const defaultCheck: Omit<CustomCheckConfig, 'id'> = {
+type FormulaParameter = 'formula' | 'left_expression' | 'right_expression' | 'condition' | 'required_fields';
+
+// Compile-time problems in the check's expressions, keyed by the parameter they belong to.
+function getFormulaErrors(check: Omit<CustomCheckConfig, 'id' | 'is_active'>): Partial<Record<FormulaParameter, string>> {
+  const errors: Partial<Record<FormulaParameter, string>> = {};
+  if (check.check_type === 'SEARCH_CHECK') return errors;
+  const params = check.parameters;
+  const expressions: [FormulaParameter, string | undefined, FormulaScope, 'boolean' | 'number'][] = [];
+  if (check.rule_type === 'custom_formula') expressions.push(['formula', params.formula, check.dataset_scope, 'boolean']);
+  if (check.rule_type === 'math') {
+    expressions.push(['left_expression', params.left_expression, check.dataset_scope, 'number']);
+    expressions.push(['right_expression', params.right_expression, check.dataset_scope, 'number']);
+  }
+  if (check.rule_type === 'aggregate' && params.group_by !== 'seller_month') {
+    expressions.push(['right_expression', params.right_expression, 'header', 'number']);
+  }
+  // Every rule type honours a condition, including one left over from switching rule type.
+  expressions.push(['condition', params.condition, check.dataset_scope, 'boolean']);
+  if (check.rule_type === 'conditional_existence') {
+    (params.required_fields ?? []).forEach((field) => {
+      expressions.push(['required_fields', `isEmpty({${field}})`, check.dataset_scope, 'boolean']);
+    });
+  }
+  expressions.forEach(([parameter, source, scope, expectedType]) => {
+    if (!source?.trim() || errors[parameter]) return;
+    const result = validateFormula(source, scope, expectedType);
+    if (!result.valid) errors[parameter] = result.error;
+  });
+  return errors;
+}
+
+// New checks are saved inactive and enabled through an approval request.
+type CheckFormData = Omit<CustomCheckConfig, 'id' | 'is_active'>;
+
+const defaultCheck: CheckFormData = {
   name: '',
   description: '',
   severity: 'Medium',
@@ -81,30 +155,42 @@ const defaultCheck: Omit<CustomCheckConfig, 'id'> = {
   rule_type: 'missing',
   parameters: { field: '' },
   message_template: 'Validation failed for {invoice_number}',
-  is_active: true,
 };
 
 export default function CheckBuilderPage() {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { currentActor } = useWorkspace();
+  const canEdit = usePermission('check.edit');
+  const canRequestChange = usePermission('data.prepare');
+  const [pendingApprovals, setPendingApprovals] = useState<Map<string, ApprovalRequest>>(new Map());
+  const [severityJustification, setSeverityJustification] = useState('');
   const [checks, setChecks] = useState<CustomCheckConfig[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingCheck, setEditingCheck] = useState<CustomCheckConfig | null>(null);
-  const [formData, setFormData] = useState<Omit<CustomCheckConfig, 'id'>>(defaultCheck);
+  const [formData, setFormData] = useState<CheckFormData>(defaultCheck);
+  const [toggleTarget, setToggleTarget] = useState<CustomCheckConfig | null>(null);
+  const [toggleJustification, setToggleJustification] = useState('');
+  const formulaErrors = getFormulaErrors(formData);
 
   useEffect(() => {
     const init = async () => {
-      await seedStarterSearchChecks();
+      // Seeding writes to custom_checks, which only controls owners may do.
+      if (canEdit) await seedStarterSearchChecks();
       await loadChecks();
     };
     init();
-  }, []);
+  }, [canEdit]);
 
   const loadChecks = async () => {
     setIsLoading(true);
-    const data = await fetchAllCustomChecks();
+    const [data, approvals] = await Promise.all([
+      fetchAllCustomChecks(),
+      fetchApprovals({ status: 'pending', entityType: 'custom_check' }),
+    ]);
     setChecks(data);
+    setPendingApprovals(latestApprovalsByEntity(approvals, ['check.enable', 'check.disable', 'check.severity']));
     setIsLoading(false);
   };
 
@@ -116,6 +202,7 @@ export default function CheckBuilderPage() {
 
   const handleOpenEdit = (check: CustomCheckConfig) => {
     setEditingCheck(check);
+    setSeverityJustification('');
     setFormData({
       name: check.name,
       description: check.description,
@@ -125,7 +212,6 @@ export default function CheckBuilderPage() {
       rule_type: check.rule_type,
       parameters: check.parameters,
       message_template: check.message_template,
-      is_active: check.is_active,
     });
     setIsDialogOpen(true);
   };
@@ -135,11 +221,42 @@ export default function CheckBuilderPage() {
       toast({ title: 'Error', description: 'Check name is required', variant: 'destructive' });
       return;
     }
+    const firstFormulaError = Object.values(formulaErrors)[0];
+    if (firstFormulaError) {
+      toast({ title: 'Invalid formula', description: firstFormulaError, variant: 'destructive' });
+      return;
+    }
+
+    const isSeverityOverride = Boolean(editingCheck && formData.severity !== editingCheck.severity);
+    if (isSeverityOverride && !severityJustification.trim()) {
+      toast({ title: 'Justification required', description: 'Explain why the severity should change', variant: 'destructive' });
+      return;
+    }
 
     if (editingCheck?.id) {
-      const success = await updateCustomCheck(editingCheck.id, formData);
+      // A severity override is applied only once a second person approves it.
+      const { severity, ...details } = formData;
+      const success = await updateCustomCheck(editingCheck.id, details);
+      const approval = success && isSeverityOverride
+        ? await requestApproval(
+            {
+              kind: 'check.severity',
+              entityType: 'custom_check',
+              entityId: editingCheck.id,
+              entityLabel: formData.name,
+              payload: { severity, previousSeverity: editingCheck.severity },
+              justification: severityJustification.trim(),
+            },
+            currentActor
+          )
+        : null;
       if (success) {
-        toast({ title: 'Check updated', description: 'Custom check has been updated' });
+        toast({
+          title: 'Check updated',
+          description: approval
+            ? `Severity change to ${formData.severity} is awaiting approval`
+            : 'Custom check has been updated',
+        });
         loadChecks();
         setIsDialogOpen(false);
       } else {
@@ -148,9 +265,10 @@ export default function CheckBuilderPage() {
     } else {
       const result = await createCustomCheck(formData);
       if (result) {
-        toast({ title: 'Check created', description: 'Custom check has been created' });
+        toast({ title: 'Check created', description: 'The check is inactive until its activation is approved' });
         loadChecks();
         setIsDialogOpen(false);
+        if (canRequestChange) handleOpenToggle(result);
       } else {
         toast({ title: 'Error', description: 'Failed to create check', variant: 'destructive' });
       }
@@ -169,11 +287,34 @@ export default function CheckBuilderPage() {
     }
   };
 
-  const handleToggleActive = async (check: CustomCheckConfig) => {
-    if (!check.id) return;
-    const success = await updateCustomCheck(check.id, { is_active: !check.is_active });
-    if (success) {
+  const handleOpenToggle = (check: CustomCheckConfig) => {
+    if (!check.id || !canRequestChange) return;
+    setToggleTarget(check);
+    setToggleJustification('');
+  };
+
+  const handleRequestToggle = async () => {
+    const check = toggleTarget;
+    const justification = toggleJustification.trim();
+    if (!check?.id || !justification) return;
+    const kind = check.is_active ? 'check.disable' : 'check.enable';
+    const approval = await requestApproval(
+      {
+        kind,
+        entityType: 'custom_check',
+        entityId: check.id,
+        entityLabel: check.name,
+        payload: { isActive: !check.is_active },
+        justification,
+      },
+      currentActor
+    );
+    if (approval) {
+      setToggleTarget(null);
+      toast({ title: 'Approval requested', description: `${check.name} changes once another user approves it` });
       loadChecks();
+    } else {
+      toast({ title: 'Error', description: 'Failed to request approval', variant: 'destructive' });
     }
   };
 
@@ -308,7 +449,11 @@ export default function CheckBuilderPage() {
                 value={formData.parameters.left_expression || ''}
                 onChange={(e) => updateParameters('left_expression', e.target.value)}
               />
-              <p className="text-xs text-muted-foreground mt-1">Use {`{field_name}`} to reference fields</p>
+              {formulaErrors.left_expression ? (
+                <p className="text-xs text-destructive mt-1">{formulaErrors.left_expression}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground mt-1">Use {`{field_name}`} to reference fields</p>
+              )}
             </div>
             <div>
               <Label>Operator</Label>
@@ -320,12 +465,9 @@ export default function CheckBuilderPage() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="=">=</SelectItem>
-                  <SelectItem value="!=">!=</SelectItem>
-                  <SelectItem value=">">&gt;</SelectItem>
-                  <SelectItem value="<">&lt;</SelectItem>
-                  <SelectItem value=">=">&gt;=</SelectItem>
-                  <SelectItem value="<=">&lt;=</SelectItem>
+                  {COMPARISON_OPERATORS.map((operator) => (
+                    <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -336,6 +478,9 @@ export default function CheckBuilderPage() {
                 value={formData.parameters.right_expression || ''}
                 onChange={(e) => updateParameters('right_expression', e.target.value)}
               />
+              {formulaErrors.right_expression && (
+                <p className="text-xs text-destructive mt-1">{formulaErrors.right_expression}</p>
+              )}
             </div>
             <div>
               <Label>Tolerance</Label>
@@ -381,6 +526,219 @@ export default function CheckBuilderPage() {
           </div>
         );
 
+      case 'aggregate': {
+        const groupBy = formData.parameters.group_by || 'invoice';
+        return (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Aggregate Over</Label>
+                <Select
+                  value={groupBy}
+                  onValueChange={(v) => setFormData(prev => ({
+                    ...prev,
+                    parameters: {
+                      ...prev.parameters,
+                      group_by: v as 'invoice' | 'seller_month',
+                      aggregate_field: AGGREGATE_FIELDS[v as 'invoice' | 'seller_month'][0],
+                    },
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="invoice">Lines of each invoice</SelectItem>
+                    <SelectItem value="seller_month">Invoices per seller per month</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Function</Label>
+                <Select
+                  value={formData.parameters.aggregate_function || 'sum'}
+                  onValueChange={(v) => updateParameters('aggregate_function', v)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {['sum', 'count', 'avg', 'min', 'max'].map((fn) => (
+                      <SelectItem key={fn} value={fn}>{fn}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {formData.parameters.aggregate_function !== 'count' && (
+                <div>
+                  <Label>{groupBy === 'invoice' ? 'Line Field' : 'Invoice Field'}</Label>
+                  <Select
+                    value={formData.parameters.aggregate_field || ''}
+                    onValueChange={(v) => updateParameters('aggregate_field', v)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select field" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {AGGREGATE_FIELDS[groupBy].map(f => (
+                        <SelectItem key={f} value={f}>{f}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div>
+                <Label>Operator</Label>
+                <Select
+                  value={formData.parameters.operator || '='}
+                  onValueChange={(v) => updateParameters('operator', v)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMPARISON_OPERATORS.map((operator) => (
+                      <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {groupBy === 'invoice' ? (
+              <div>
+                <Label>Compare To (invoice expression)</Label>
+                <Input
+                  placeholder="e.g., {total_excl_vat}"
+                  value={formData.parameters.right_expression || ''}
+                  onChange={(e) => updateParameters('right_expression', e.target.value)}
+                />
+                {formulaErrors.right_expression ? (
+                  <p className="text-xs text-destructive mt-1">{formulaErrors.right_expression}</p>
+                ) : (
+                  <p className="text-xs text-muted-foreground mt-1">A number or formula over the invoice header, e.g. 1 or {`{total_excl_vat}`}</p>
+                )}
+              </div>
+            ) : (
+              <div>
+                <Label>Monthly Threshold</Label>
+                <Input
+                  type="number"
+                  placeholder="e.g., 375000"
+                  value={formData.parameters.threshold ?? ''}
+                  onChange={(e) => updateParameters('threshold', e.target.value === '' ? undefined : parseFloat(e.target.value))}
+                />
+              </div>
+            )}
+            <div>
+              <Label>Tolerance</Label>
+              <Input
+                type="number"
+                step="0.01"
+                placeholder="0.01"
+                value={formData.parameters.tolerance ?? 0.01}
+                onChange={(e) => updateParameters('tolerance', parseFloat(e.target.value) || 0.01)}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Messages can use {`{aggregate}`} and {`{expected}`}{groupBy === 'seller_month' ? <>, {`{month}`} and {`{count}`}</> : null}.
+              </p>
+            </div>
+          </div>
+        );
+      }
+
+      case 'join':
+        return (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label>Invoice Field</Label>
+                <Select
+                  value={formData.parameters.left_field || ''}
+                  onValueChange={(v) => updateParameters('left_field', v)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select field" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from(PARSER_KNOWN_COLUMNS.headers).map(f => (
+                      <SelectItem key={f} value={f}>{f}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Must</Label>
+                <Select
+                  value={formData.parameters.operator === '!=' ? '!=' : '='}
+                  onValueChange={(v) => updateParameters('operator', v)}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="=">match</SelectItem>
+                    <SelectItem value="!=">differ from</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Buyer Field</Label>
+                <Select
+                  value={formData.parameters.right_field || ''}
+                  onValueChange={(v) => updateParameters('right_field', v)}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select field" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from(PARSER_KNOWN_COLUMNS.buyers).map(f => (
+                      <SelectItem key={f} value={f}>{f}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Values are compared ignoring case and surrounding spaces. Invoices whose buyer is missing are reported.
+              Messages can use {`{buyer_value}`}.
+            </p>
+          </div>
+        );
+
+      case 'conditional_existence':
+        return (
+          <div className="space-y-3">
+            <div>
+              <Label>When</Label>
+              <Textarea
+                placeholder="e.g., {invoice_type} == '381'"
+                value={formData.parameters.condition || ''}
+                onChange={(e) => updateParameters('condition', e.target.value)}
+                rows={2}
+                aria-invalid={Boolean(formulaErrors.condition)}
+              />
+              {formulaErrors.condition && (
+                <p className="text-xs text-destructive mt-1">{formulaErrors.condition}</p>
+              )}
+            </div>
+            <div>
+              <Label>Required Fields (comma-separated)</Label>
+              <Input
+                placeholder="e.g., payment_due_date, buyer.buyer_trn"
+                value={(formData.parameters.required_fields || []).join(', ')}
+                onChange={(e) => updateParameters('required_fields', e.target.value.split(',').map(s => s.trim()).filter(Boolean))}
+              />
+              {formulaErrors.required_fields ? (
+                <p className="text-xs text-destructive mt-1">{formulaErrors.required_fields}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Fields of this record, or related ones prefixed with header. or buyer.; one finding per missing field.
+                </p>
+              )}
+            </div>
+          </div>
+        );
+
       case 'custom_formula':
         return (
           <div className="space-y-3">
@@ -391,8 +749,17 @@ export default function CheckBuilderPage() {
                 value={formData.parameters.formula || ''}
                 onChange={(e) => updateParameters('formula', e.target.value)}
                 rows={3}
+                aria-invalid={Boolean(formulaErrors.formula)}
               />
-              <p className="text-xs text-muted-foreground mt-1">Use {`{field_name}`} to reference fields. Expression should evaluate to true/false.</p>
+              {formulaErrors.formula && (
+                <p className="text-xs text-destructive mt-1">{formulaErrors.formula}</p>
+              )}
+              <p className="text-xs text-muted-foreground mt-1">
+                Use {`{field_name}`} for this record, {`{header.field}`} / {`{buyer.field}`} for related records and {`{lines.field}`} with
+                sum, avg, minOf, maxOf or count for the invoice's lines. Expression must evaluate to true/false; records that cannot be
+                evaluated are reported as findings.
+              </p>
+              <p className="text-xs text-muted-foreground mt-1">Functions: {FORMULA_FUNCTION_NAMES.join(', ')}</p>
             </div>
           </div>
         );
@@ -417,7 +784,12 @@ export default function CheckBuilderPage() {
               </div>
             </div>
           </div>
-          <Button onClick={handleOpenCreate} className="gap-2">
+          <Button
+            onClick={handleOpenCreate}
+            disabled={!canEdit}
+            title={canEdit ? undefined : requiredRoleMessage('check.edit')}
+            className="gap-2"
+          >
             <Plus className="w-4 h-4" />
             New Check
           </Button>
@@ -432,7 +804,12 @@ export default function CheckBuilderPage() {
             <p className="text-muted-foreground mb-6">
               Create your first custom compliance check to extend the validation library.
             </p>
-            <Button onClick={handleOpenCreate} className="gap-2">
+            <Button
+              onClick={handleOpenCreate}
+              disabled={!canEdit}
+              title={canEdit ? undefined : requiredRoleMessage('check.edit')}
+              className="gap-2"
+            >
               <Plus className="w-4 h-4" />
               Create First Check
             </Button>
@@ -451,6 +828,11 @@ export default function CheckBuilderPage() {
                     <div className="flex items-center gap-3 mb-1">
                       <span className="font-medium text-foreground">{check.name}</span>
                       <SeverityBadge severity={check.severity} />
+                      {check.id && pendingApprovals.has(check.id) && (
+                        <span className="text-xs px-2 py-0.5 bg-severity-medium/10 text-severity-medium rounded">
+                          Pending approval
+                        </span>
+                      )}
                       <span className="text-xs px-2 py-0.5 bg-primary/10 text-primary rounded">
                         {check.check_type || 'VALIDATION'}
                       </span>
@@ -469,7 +851,13 @@ export default function CheckBuilderPage() {
                     <Button
                       variant="ghost"
                       size="sm"
-                      onClick={() => handleToggleActive(check)}
+                      onClick={() => handleOpenToggle(check)}
+                      disabled={!canRequestChange || Boolean(check.id && pendingApprovals.has(check.id))}
+                      title={
+                        canRequestChange
+                          ? `Request approval to ${check.is_active ? 'disable' : 'enable'} this check`
+                          : requiredRoleMessage('data.prepare')
+                      }
                       className="text-muted-foreground"
                     >
                       {check.is_active ? (
@@ -478,13 +866,21 @@ export default function CheckBuilderPage() {
                         <ToggleLeft className="w-5 h-5" />
                       )}
                     </Button>
-                    <Button variant="ghost" size="sm" onClick={() => handleOpenEdit(check)}>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleOpenEdit(check)}
+                      disabled={!canEdit}
+                      title={canEdit ? undefined : requiredRoleMessage('check.edit')}
+                    >
                       <Edit2 className="w-4 h-4" />
                     </Button>
                     <Button
                       variant="ghost"
                       size="sm"
                       onClick={() => check.id && handleDelete(check.id)}
+                      disabled={!canEdit}
+                      title={canEdit ? undefined : requiredRoleMessage('check.edit')}
                       className="text-severity-critical hover:text-severity-critical"
                     >
                       <Trash2 className="w-4 h-4" />
@@ -543,6 +939,15 @@ export default function CheckBuilderPage() {
                       <SelectItem value="Low">Low</SelectItem>
                     </SelectContent>
                   </Select>
+                  {editingCheck && formData.severity !== editingCheck.severity && (
+                    <Textarea
+                      className="mt-2"
+                      placeholder="Why should the severity change? Another user must approve this override."
+                      value={severityJustification}
+                      onChange={(e) => setSeverityJustification(e.target.value)}
+                      rows={2}
+                    />
+                  )}
                 </div>
 
                 <div>
@@ -570,6 +975,7 @@ export default function CheckBuilderPage() {
                   <Label>Check Type</Label>
                   <Select
                     value={formData.check_type || 'VALIDATION'}
+                    disabled={Boolean(editingCheck?.is_active)}
                     onValueChange={(v) =>
                       setFormData({
                         ...formData,
@@ -587,6 +993,9 @@ export default function CheckBuilderPage() {
                       <SelectItem value="SEARCH_CHECK">Search Check (Investigation)</SelectItem>
                     </SelectContent>
                   </Select>
+                  {editingCheck?.is_active && (
+                    <p className="text-xs text-muted-foreground mt-1">Disable the check to change its type.</p>
+                  )}
                   {(formData.check_type || 'VALIDATION') === 'SEARCH_CHECK' && (
                     <p className="text-xs text-muted-foreground mt-1">
                       Search checks run in AP (inbound) context only and produce investigation flags.
@@ -601,7 +1010,8 @@ export default function CheckBuilderPage() {
                     onValueChange={(v) => setFormData({ 
                       ...formData, 
                       rule_type: v as any,
-                      parameters: {} 
+                      dataset_scope: CROSS_RECORD_RULE_TYPES.has(v) ? 'cross-file' : formData.dataset_scope,
+                      parameters: RULE_DEFAULT_PARAMETERS[v] ?? {} 
                     })}
                   >
                     <SelectTrigger>
@@ -648,6 +1058,36 @@ export default function CheckBuilderPage() {
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        {/* Enable/Disable Approval Dialog */}
+        <Dialog open={Boolean(toggleTarget)} onOpenChange={(open) => !open && setToggleTarget(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                Request to {toggleTarget?.is_active ? 'disable' : 'enable'} {toggleTarget?.name}
+              </DialogTitle>
+              <DialogDescription>
+                The check changes once another user with the Controls owner role approves the request.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-2">
+              <Label htmlFor="check-toggle-justification">Justification *</Label>
+              <Textarea
+                id="check-toggle-justification"
+                placeholder={`Why should this check be ${toggleTarget?.is_active ? 'disabled' : 'enabled'}?`}
+                value={toggleJustification}
+                onChange={(e) => setToggleJustification(e.target.value)}
+                rows={3}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setToggleTarget(null)}>Cancel</Button>
+              <Button onClick={handleRequestToggle} disabled={!toggleJustification.trim()}>
+                Request approval
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </div>
     </div>
   );
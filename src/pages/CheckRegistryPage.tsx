@@ -3,6 +3,7 @@ import { BookCheck, CircleHelp, Search } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Tooltip,
   TooltipContent,
@@ -18,6 +19,7 @@ import {
   countRuntimeCodelistDomains,
 } from "@/lib/pintAE/codelistGovernanceSummary";
 import { getAffectedDRIdsForRule } from "@/lib/rules/ruleTraceability";
+import { SchematronParityPanel } from "@/components/checks/SchematronParityPanel";
 
 type RegistrySource = "Built-in" | "UAE UC1" | "Custom";
 
@@ -522,71 +524,82 @@ export default function CheckRegistryPage() {
           </CardContent>
         </Card>
 
-        <Card className="border shadow-sm">
-          <CardContent className="p-4 md:p-5">
-            <div className="flex flex-col gap-3 md:flex-row md:items-center mb-4">
-              <div className="relative md:max-w-sm md:flex-1">
-                <Search className="w-4 h-4 absolute left-2.5 top-2.5 text-muted-foreground" />
-                <Input
-                  aria-label="Search checks"
-                  placeholder="Search by ID, name, DR mapping, or reference term..."
-                  value={search}
-                  onChange={(event) => setSearch(event.target.value)}
-                  className="h-9 pl-8 text-sm"
-                />
-              </div>
-              <div className="flex flex-wrap items-center gap-2">
-                <FilterButton
-                  active={severityFilter === "All"}
-                  onClick={() => setSeverityFilter("All")}
-                  label="All Severities"
-                />
-                {(["Critical", "High", "Medium", "Low"] as const).map((severity) => (
-                  <FilterButton
-                    key={severity}
-                    active={severityFilter === severity}
-                    onClick={() => setSeverityFilter(severity)}
-                    label={severity}
-                  />
-                ))}
-              </div>
-              <div className="flex flex-wrap items-center gap-2">
-                <FilterButton
-                  active={sourceFilter === "All"}
-                  onClick={() => setSourceFilter("All")}
-                  label="All Sources"
-                />
-                <FilterButton
-                  active={sourceFilter === "Built-in"}
-                  onClick={() => setSourceFilter("Built-in")}
-                  label="Built-in"
-                />
-                <FilterButton
-                  active={sourceFilter === "UAE UC1"}
-                  onClick={() => setSourceFilter("UAE UC1")}
-                  label="UAE UC1"
-                />
-                <FilterButton
-                  active={sourceFilter === "Custom"}
-                  onClick={() => setSourceFilter("Custom")}
-                  label="Custom"
-                />
-              </div>
-            </div>
-
-            {filteredRows.length === 0 ? (
-              <div className="rounded-lg border p-8 text-center text-sm text-muted-foreground">
-                No checks match your filters.
-              </div>
-            ) : (
-              <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
-                {filteredRows.map((row) => (
-                  <CheckCard key={row.id} row={row} />
-                ))}
-              </div>
-            )}
-          </CardContent>
-        </Card>
+        <Tabs defaultValue="checks" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="checks" className="text-xs">Checks</TabsTrigger>
+            <TabsTrigger value="parity" className="text-xs">Schematron Parity</TabsTrigger>
+          </TabsList>
+          <TabsContent value="checks">
+            <Card className="border shadow-sm">
+              <CardContent className="p-4 md:p-5">
+                <div className="flex flex-col gap-3 md:flex-row md:items-center mb-4">
+                  <div className="relative md:max-w-sm md:flex-1">
+                    <Search className="w-4 h-4 absolute left-2.5 top-2.5 text-muted-foreground" />
+                    <Input
+                      aria-label="Search checks"
+                      placeholder="Search by ID, name, DR mapping, or reference term..."
+                      value={search}
+                      onChange={(event) => setSearch(event.target.value)}
+                      className="h-9 pl-8 text-sm"
+                    />
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <FilterButton
+                      active={severityFilter === "All"}
+                      onClick={() => setSeverityFilter("All")}
+                      label="All Severities"
+                    />
+                    {(["Critical", "High", "Medium", "Low"] as const).map((severity) => (
+                      <FilterButton
+                        key={severity}
+                        active={severityFilter === severity}
+                        onClick={() => setSeverityFilter(severity)}
+                        label={severity}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <FilterButton
+                      active={sourceFilter === "All"}
+                      onClick={() => setSourceFilter("All")}
+                      label="All Sources"
+                    />
+                    <FilterButton
+                      active={sourceFilter === "Built-in"}
+                      onClick={() => setSourceFilter("Built-in")}
+                      label="Built-in"
+                    />
+                    <FilterButton
+                      active={sourceFilter === "UAE UC1"}
+                      onClick={() => setSourceFilter("UAE UC1")}
+                      label="UAE UC1"
+                    />
+                    <FilterButton
+                      active={sourceFilter === "Custom"}
+                      onClick={() => setSourceFilter("Custom")}
+                      label="Custom"
+                    />
+                  </div>
+                </div>
+
+                {filteredRows.length === 0 ? (
+                  <div className="rounded-lg border p-8 text-center text-sm text-muted-foreground">
+                    No checks match your filters.
+                  </div>
+                ) : (
+                  <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                    {filteredRows.map((row) => (
+                      <CheckCard key={row.id} row={row} />
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+          <TabsContent value="parity">
+            <SchematronParityPanel />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
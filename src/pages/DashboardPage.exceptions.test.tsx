@@ -162,10 +162,24 @@ vi.mock('@/components/dashboard/PipelineProgress', () => ({
   PipelineProgress: () => <div>Pipeline</div>,
 }));
 
+vi.mock('@/components/dashboard/ExceptionClustersPanel', () => ({
+  ExceptionClustersPanel: ({ clusters }: { clusters: { exceptionIds: string[] }[] }) => (
+    <div>Clusters: {clusters.map((cluster) => cluster.exceptionIds.length).join(', ')}</div>
+  ),
+}));
+
 vi.mock('@/context/ComplianceContext', () => ({
   useCompliance: () => mockComplianceState,
 }));
 
+const { fetchRunComparison } = vi.hoisted(() => ({
+  fetchRunComparison: vi.fn(async () => null as unknown),
+}));
+
+vi.mock('@/lib/api/runComparisonApi', () => ({
+  fetchRunComparison,
+}));
+
 describe('DashboardPage executive surface', () => {
   beforeEach(() => {
     resetMockComplianceState();
@@ -192,6 +206,7 @@ describe('DashboardPage executive surface', () => {
 
     expect(screen.getByText('Seller Name Present')).toBeInTheDocument();
     expect(screen.getByText('Buyer TRN Pattern Valid')).toBeInTheDocument();
+    expect(screen.getByText('Clusters: 3, 1')).toBeInTheDocument();
   });
 
   it('keeps KPI cards live-truthful when no live signals exist', () => {
@@ -259,4 +274,49 @@ describe('DashboardPage executive surface', () => {
     expect(screen.getByText('No recurring issues are currently surfaced in this live portfolio scope.')).toBeInTheDocument();
     expect(screen.queryByText('Seller name completeness')).not.toBeInTheDocument();
   });
+
+  it('shows run-over-run lineage for the active direction', async () => {
+    fetchRunComparison.mockResolvedValueOnce({
+      runId: 'run-2',
+      runDate: '2026-03-20T10:00:00.000Z',
+      previousRunId: 'run-1',
+      previousRunDate: '2026-03-19T10:00:00.000Z',
+      counts: { new: 2, persisting: 5, resolved: 3, regressed: 1 },
+      entries: [
+        {
+          fingerprint: 'uae-uc1-chk-018|uae-uc1-chk-018|inv-1||||buyer_trn',
+          status: 'regressed',
+          checkId: 'UAE-UC1-CHK-018',
+          checkName: 'Buyer TRN Pattern Valid',
+          severity: 'High',
+          invoiceNumber: 'INV-1',
+          field: 'buyer_trn',
+          occurrences: 1,
+        },
+      ],
+    });
+
+    render(
+      <MemoryRouter>
+        <DashboardPage />
+      </MemoryRouter>
+    );
+
+    expect(await screen.findByText('Regressed findings')).toBeInTheDocument();
+    expect(fetchRunComparison).toHaveBeenCalledWith({ direction: 'AR' });
+    expect(screen.getByText('Persisting').nextSibling).toHaveTextContent('5');
+    expect(screen.getByText('Buyer TRN Pattern Valid · INV-1 · buyer_trn')).toBeInTheDocument();
+  });
+
+  it('says so when run lineage cannot be loaded instead of showing every finding as new', async () => {
+    fetchRunComparison.mockRejectedValueOnce(new Error('Findings of earlier runs could not be loaded.'));
+
+    render(
+      <MemoryRouter>
+        <DashboardPage />
+      </MemoryRouter>
+    );
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Lineage unavailable: Findings of earlier runs could not be loaded.');
+  });
 });
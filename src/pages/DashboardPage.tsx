@@ -1,4 +1,4 @@
-import { useMemo } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import {
   AlertTriangle,
@@ -15,9 +15,14 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { PipelineProgress, type PipelineState, type PipelineStep } from '@/components/dashboard/PipelineProgress';
+import { ExceptionClustersPanel } from '@/components/dashboard/ExceptionClustersPanel';
+import { RunLineagePanel } from '@/components/dashboard/RunLineagePanel';
 import { StatsCard } from '@/components/StatsCard';
 import { SeverityBadge } from '@/components/SeverityBadge';
 import { useCompliance } from '@/context/ComplianceContext';
+import { fetchRunComparison } from '@/lib/api/runComparisonApi';
+import { clusterExceptions } from '@/lib/exceptions/exceptionClustering';
+import type { RunComparison } from '@/types/runLineage';
 
 type DatasetScope = 'AR' | 'AP';
 
@@ -511,10 +516,31 @@ export default function DashboardPage() {
     buyers,
     headers,
     lines,
+    lastChecksRunAt,
   } = useCompliance();
+  const [runComparison, setRunComparison] = useState<RunComparison | null>(null);
+  const [runComparisonError, setRunComparisonError] = useState<string | null>(null);
 
   const stats = getDashboardStats();
 
+  useEffect(() => {
+    let cancelled = false;
+    fetchRunComparison({ direction: activeDatasetType })
+      .then((comparison) => {
+        if (cancelled) return;
+        setRunComparison(comparison);
+        setRunComparisonError(null);
+      })
+      .catch((error: Error) => {
+        if (cancelled) return;
+        setRunComparison(null);
+        setRunComparisonError(error.message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeDatasetType, lastChecksRunAt]);
+
   const kpiSnapshot = useMemo(
     () =>
       buildExecutiveKpiSnapshot({
@@ -545,6 +571,18 @@ export default function DashboardPage() {
     [activeDatasetType, buyers, checkResults, exceptions, headers, isChecksRun, isDataLoaded, lines, stats]
   );
 
+  const exceptionClusters = useMemo(
+    () =>
+      isChecksRun
+        ? clusterExceptions(
+            exceptions.filter(
+              (exception) => (exception.datasetType || exception.direction || activeDatasetType) === activeDatasetType
+            )
+          )
+        : [],
+    [activeDatasetType, exceptions, isChecksRun]
+  );
+
   const pipelineSteps: PipelineStep[] = useMemo(() => {
     const exceptionState: PipelineState = !isChecksRun ? 'pending' : snapshot.criticalIssues > 0 ? 'active' : 'complete';
     const evidenceState: PipelineState = !isChecksRun ? 'blocked' : snapshot.criticalIssues > 0 ? 'pending' : 'active';
@@ -678,6 +716,14 @@ export default function DashboardPage() {
         ))}
       </section>
 
+      <RunLineagePanel comparison={runComparison} error={runComparisonError} />
+
+      <ExceptionClustersPanel
+        clusters={exceptionClusters}
+        limit={5}
+        description={`${activeDatasetType} exceptions grouped by check, field, value pattern, party and upload, each with the single fix behind it.`}
+      />
+
       <section className="grid gap-4 xl:grid-cols-[1.35fr_1fr]">
         <div className="surface-glass rounded-[28px] border border-border/70 p-5 shadow-[0_16px_34px_-28px_rgba(15,23,42,0.24)]">
           <div className="flex flex-wrap items-start justify-between gap-3">
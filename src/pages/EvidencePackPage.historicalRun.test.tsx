@@ -7,6 +7,18 @@ vi.mock('@/hooks/use-toast', () => ({
   useToast: () => ({ toast: vi.fn() }),
 }));
 
+vi.mock('@/hooks/use-permission', () => ({
+  usePermission: () => true,
+}));
+
+vi.mock('@/lib/api/approvalsApi', () => ({
+  fetchApprovals: vi.fn(async () => []),
+}));
+
+vi.mock('@/lib/api/runComparisonApi', () => ({
+  fetchRunComparison: vi.fn(async () => null),
+}));
+
 vi.mock('@/context/ComplianceContext', () => ({
   useCompliance: () => ({
     buyers: [],
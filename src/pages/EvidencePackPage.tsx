@@ -24,6 +24,14 @@ import { CheckRun } from '@/types/customChecks';
 import { CONFORMANCE_CONFIG } from '@/config/conformance';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
+import { usePermission } from '@/hooks/use-permission';
+import { requiredRoleMessage } from '@/lib/access/permissions';
+import { logSensitiveAction } from '@/lib/api/sensitiveActionsApi';
+import { fetchApprovals } from '@/lib/api/approvalsApi';
+import { ApprovalRequest } from '@/types/approvals';
+import { fetchRunComparison } from '@/lib/api/runComparisonApi';
+import { RunComparison } from '@/types/runLineage';
+import { PintAEException } from '@/types/pintAE';
 import { SeverityBadge } from '@/components/SeverityBadge';
 
 const ruleTypeDisplayLabels: Record<string, string> = {
@@ -66,12 +74,16 @@ function formatFailureClassLabel(value: string): string {
 export default function EvidencePackPage() {
   const { buyers, headers, lines, pintAEExceptions, isChecksRun, runSummary, lastPintRuleTelemetry } = useCompliance();
   const { toast } = useToast();
+  const canExport = usePermission('evidence.export');
   const [exporting, setExporting] = useState(false);
   const [activeTab, setActiveTab] = useState('overview');
   const [runs, setRuns] = useState<CheckRun[]>([]);
+  const [approvals, setApprovals] = useState<ApprovalRequest[]>([]);
   const [selectedRunId, setSelectedRunId] = useState<string>('');
+  const [runComparison, setRunComparison] = useState<RunComparison | null>(null);
   const [selectedRunDate, setSelectedRunDate] = useState<string | null>(null);
-  const [selectedRunExceptions, setSelectedRunExceptions] = useState(pintAEExceptions);
+  // Null when the stored findings of the selected run could not be loaded.
+  const [selectedRunExceptions, setSelectedRunExceptions] = useState<PintAEException[] | null>(pintAEExceptions);
   const [exportFormat, setExportFormat] = useState<'excel' | 'pdf'>('excel');
   const [search, setSearch] = useState('');
   const [drQuickFilter, setDrQuickFilter] = useState<'all' | 'mandatory' | 'gaps' | 'asp'>('all');
@@ -86,6 +98,7 @@ export default function EvidencePackPage() {
 
   useEffect(() => {
     fetchCheckRuns(25).then((data) => setRuns(data));
+    fetchApprovals().then(setApprovals);
   }, []);
 
   const selectedRun = useMemo(
@@ -119,16 +132,39 @@ export default function EvidencePackPage() {
       return;
     }
 
-    fetchExceptionsByRun(selectedRunId).then((excs) => setSelectedRunExceptions(excs));
+    fetchExceptionsByRun(selectedRunId).then(setSelectedRunExceptions);
   }, [selectedRunId, selectedRun, runSummary?.run_id, pintAEExceptions]);
 
+  useEffect(() => {
+    if (!selectedRunId) return;
+    let cancelled = false;
+    fetchRunComparison({ runId: selectedRunId })
+      .then((comparison) => {
+        if (!cancelled) setRunComparison(comparison);
+      })
+      .catch((error: Error) => {
+        if (cancelled) return;
+        setRunComparison(null);
+        toast({
+          title: 'Run lineage not included',
+          description: error.message,
+          variant: 'destructive',
+        });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedRunId, toast]);
+
   const runId = selectedRunId || runSummary?.run_id || `run-${Date.now()}`;
   const runTimestamp = selectedRunDate || new Date().toISOString();
   const isCurrentContextRun = Boolean(runSummary?.run_id && selectedRunId === runSummary.run_id);
   const isHistoricalRun = Boolean(selectedRunId && !isCurrentContextRun);
   const canUseHistoricalSnapshot = Boolean(isHistoricalRun && selectedRunSnapshot);
   const isHistoricalSnapshotMissing = Boolean(isHistoricalRun && !selectedRunSnapshot);
-  const canBuildEvidence = (isChecksRun && isCurrentContextRun) || canUseHistoricalSnapshot;
+  const isHistoricalFindingsMissing = Boolean(isHistoricalRun && !selectedRunExceptions);
+  const canBuildEvidence =
+    ((isChecksRun && isCurrentContextRun) || canUseHistoricalSnapshot) && !isHistoricalFindingsMissing;
 
   // Build populations from raw data for evidence
   const populations = useMemo(() => {
@@ -153,7 +189,7 @@ export default function EvidencePackPage() {
   }, [buyers, headers, lines, isChecksRun, isCurrentContextRun, canUseHistoricalSnapshot, selectedRunSnapshot]);
 
   const evidence: EvidencePackData | null = useMemo(() => {
-    if (!canBuildEvidence) return null;
+    if (!canBuildEvidence || !selectedRunExceptions) return null;
     return buildEvidencePackData(
       runId,
       runTimestamp,
@@ -169,9 +205,13 @@ export default function EvidencePackPage() {
             totalBuyers: selectedRunSnapshot.counts.totalBuyers,
             totalLines: selectedRunSnapshot.counts.totalLines,
             executionTelemetry: canUseHistoricalSnapshot ? selectedRunTelemetry : lastPintRuleTelemetry,
+            approvals,
+            runComparison,
           }
         : {
             executionTelemetry: lastPintRuleTelemetry,
+            approvals,
+            runComparison,
           }
     );
   }, [
@@ -187,6 +227,8 @@ export default function EvidencePackPage() {
     selectedRunSnapshot,
     selectedRunTelemetry,
     lastPintRuleTelemetry,
+    approvals,
+    runComparison,
   ]);
 
   const evidenceSummary = useMemo(
@@ -195,7 +237,7 @@ export default function EvidencePackPage() {
   );
 
   const handleExport = useCallback(async () => {
-    if (!evidence) return;
+    if (!evidence || !canExport) return;
     setExporting(true);
     try {
       const validation = validateBeforeExport();
@@ -212,6 +254,21 @@ export default function EvidencePackPage() {
         setExporting(false);
         return;
       }
+      const logged = await logSensitiveAction({
+        action: 'evidence.export',
+        entityType: 'check_run',
+        entityId: runId,
+        details: { format: exportFormat },
+      });
+      if (!logged) {
+        toast({
+          title: 'Export Blocked',
+          description: 'The export could not be recorded in the audit log for your role.',
+          variant: 'destructive',
+        });
+        setExporting(false);
+        return;
+      }
       if (exportFormat === 'pdf') {
         const blob = await generateEvidencePackPdf(evidence);
         downloadBlob(blob, `Evidence_Pack_${runId}.pdf`);
@@ -225,7 +282,7 @@ export default function EvidencePackPage() {
       toast({ title: 'Export Failed', description: String(err), variant: 'destructive' });
     }
     setExporting(false);
-  }, [evidence, runId, toast, exportFormat]);
+  }, [canExport, evidence, runId, toast, exportFormat]);
 
   const q = search.trim().toLowerCase();
   const drCoverageRows = useMemo(() => {
@@ -347,6 +404,13 @@ export default function EvidencePackPage() {
                 </p>
                 <Badge variant="destructive">Historical export blocked until a run snapshot exists</Badge>
               </>
+            ) : isHistoricalFindingsMissing ? (
+              <>
+                <p className="text-muted-foreground mb-4">
+                  The stored exceptions of this historical run could not be loaded, so DRCS cannot produce a complete export.
+                </p>
+                <Badge variant="destructive">Historical export blocked until the run's exceptions load</Badge>
+              </>
             ) : (
               <>
                 <p className="text-muted-foreground mb-6">
@@ -387,7 +451,12 @@ export default function EvidencePackPage() {
                 <SelectItem value="pdf">PDF Report</SelectItem>
               </SelectContent>
             </Select>
-            <Button onClick={handleExport} disabled={exporting} className="gap-2">
+            <Button
+              onClick={handleExport}
+              disabled={exporting || !canExport}
+              title={canExport ? undefined : requiredRoleMessage('evidence.export')}
+              className="gap-2"
+            >
               {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
               Generate {exportFormat === 'pdf' ? 'PDF Report' : 'Evidence Pack'}
             </Button>
@@ -820,7 +889,11 @@ export default function EvidencePackPage() {
             <Card>
               <CardHeader className="pb-3">
                 <CardTitle className="text-base">Exceptions & Cases</CardTitle>
-                <CardDescription>{exceptionRows.length} exception records</CardDescription>
+                <CardDescription>
+                  {exceptionRows.length} exception records
+                  {evidence?.runLineage &&
+                    ` · ${evidence.runLineage.counts.new} new, ${evidence.runLineage.counts.persisting} persisting, ${evidence.runLineage.counts.regressed} regressed, ${evidence.runLineage.counts.resolved} resolved since the previous run`}
+                </CardDescription>
               </CardHeader>
               <CardContent className="p-0">
                 <ScrollArea className="h-[500px]">
@@ -838,12 +911,13 @@ export default function EvidencePackPage() {
                           <TableHead className="text-xs">Severity</TableHead>
                           <TableHead className="text-xs">Status</TableHead>
                           <TableHead className="text-xs">Case ID</TableHead>
+                          <TableHead className="text-xs">Lineage</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
                         {exceptionRows.length === 0 ? (
                           <TableRow>
-                            <TableCell colSpan={10} className="text-center text-sm text-muted-foreground py-8">
+                            <TableCell colSpan={11} className="text-center text-sm text-muted-foreground py-8">
                               No exceptions for this run.
                             </TableCell>
                           </TableRow>
@@ -859,11 +933,12 @@ export default function EvidencePackPage() {
                             <TableCell className="text-xs"><SeverityBadge severity={e.severity as any} /></TableCell>
                             <TableCell className="text-xs">{e.exception_status}</TableCell>
                             <TableCell className="text-xs font-mono">{e.case_id || '-'}</TableCell>
+                            <TableCell className="text-xs">{e.lineage_status || '-'}</TableCell>
                           </TableRow>
                         ))}
                         {exceptionRows.length > 200 && (
                           <TableRow>
-                            <TableCell colSpan={10} className="text-center text-xs text-muted-foreground py-2">
+                            <TableCell colSpan={11} className="text-center text-xs text-muted-foreground py-2">
                               Showing 200 of {exceptionRows.length} exceptions. Full list available in export.
                             </TableCell>
                           </TableRow>
@@ -916,6 +991,50 @@ export default function EvidencePackPage() {
                 </ScrollArea>
               </CardContent>
             </Card>
+            <Card className="mt-4">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Maker-Checker Approvals</CardTitle>
+                <CardDescription>{evidence.approvalEvidence.length} approval requests</CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                  <Table className="min-w-max">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-xs">Change</TableHead>
+                        <TableHead className="text-xs">Target</TableHead>
+                        <TableHead className="text-xs">Reason</TableHead>
+                        <TableHead className="text-xs">Requested By</TableHead>
+                        <TableHead className="text-xs">Status</TableHead>
+                        <TableHead className="text-xs">Decided By</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {evidence.approvalEvidence.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={6} className="text-xs text-center text-muted-foreground">
+                            No approval requests recorded
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        evidence.approvalEvidence.map(a => (
+                          <TableRow key={a.approval_id}>
+                            <TableCell className="text-xs">{a.change}</TableCell>
+                            <TableCell className="text-xs max-w-[220px] truncate">{a.target}</TableCell>
+                            <TableCell className="text-xs max-w-[220px] truncate">{a.reason_code || a.justification}</TableCell>
+                            <TableCell className="text-xs">{a.requested_by}</TableCell>
+                            <TableCell className="text-xs">
+                              <Badge variant="outline" className="text-xs capitalize">{a.status}</Badge>
+                            </TableCell>
+                            <TableCell className="text-xs">{a.decided_by || '-'}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
           </TabsContent>
 
           {/* Tab F: Population */}
@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { ArrowUpRight, Download, Eye, Search, Sparkles } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -134,6 +135,7 @@ export default function ExceptionsPage() {
         'Field',
         'Expected',
         'Actual',
+        'Source Location',
       ].join(','),
       ...filteredExceptions.map((exception) =>
         [
@@ -147,6 +149,7 @@ export default function ExceptionsPage() {
           exception.field || '',
           exception.expectedValue || '',
           exception.actualValue || '',
+          exception.sourceLocator ? `"${[exception.sourceFileName, exception.sourceLocator].filter(Boolean).join(' ')}"` : '',
         ].join(',')
       ),
     ].join('\n');
@@ -375,6 +378,11 @@ export default function ExceptionsPage() {
                       </td>
                       <td className="p-4 text-sm font-medium text-foreground max-w-[220px] truncate">
                         {exception.checkName}
+                        {exception.provenance === 'carried_forward' && (
+                          <Badge variant="outline" className="ml-2 text-[10px] font-normal" title="Invoice unchanged since the previous run">
+                            Carried forward
+                          </Badge>
+                        )}
                       </td>
                       <td className="p-4 text-sm text-muted-foreground font-mono">
                         {exception.invoiceNumber || '-'}
@@ -1,19 +1,137 @@
-import { fireEvent, render, screen } from '@testing-library/react';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
 import { MemoryRouter, Route, Routes } from 'react-router-dom';
-import { describe, expect, it, vi } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 import ExceptionsWorkspacePage from '@/pages/ExceptionsWorkspacePage';
 
-const { generateValidationExplanation } = vi.hoisted(() => ({
+const {
+  generateValidationExplanation,
+  requestApproval,
+  transitionException,
+  assignException,
+  fetchExceptionStates,
+  openCasesForFindings,
+  permission,
+  compliance,
+} = vi.hoisted(() => ({
   generateValidationExplanation: vi.fn().mockResolvedValue({
     explanation: 'Heuristic explanation ready.',
     recommendedFix: 'Review source and mapping.',
   }),
+  requestApproval: vi.fn(async (entry: Record<string, unknown>, actor: { id: string | null; name: string }) => ({
+    ...entry,
+    id: 'approval-1',
+    status: 'pending',
+    requestedBy: actor,
+    requestedAt: '2026-03-16T09:00:00.000Z',
+    decidedBy: null,
+    decidedAt: null,
+    decisionComment: null,
+  })),
+  transitionException: vi.fn(async (transition: Record<string, unknown>, actor: { id: string | null; name: string }) => ({
+    fingerprint: transition.fingerprint,
+    exceptionRef: transition.exceptionRef,
+    status: transition.toStatus,
+    assignee: transition.assignee,
+    reasonCode: transition.reasonCode,
+    updatedBy: actor,
+    updatedAt: '2026-03-18T09:00:00.000Z',
+  })),
+  assignException: vi.fn(async (assignment: Record<string, unknown>, actor: { id: string | null; name: string }) => ({
+    fingerprint: assignment.fingerprint,
+    exceptionRef: assignment.exceptionRef,
+    status: assignment.status,
+    assignee: assignment.assignee,
+    reasonCode: null,
+    updatedBy: actor,
+    updatedAt: '2026-03-28T09:00:00.000Z',
+  })),
+  fetchExceptionStates: vi.fn(async () => new Map()),
+  openCasesForFindings: vi.fn(async () => ({ created: 1, linked: 2, failed: 0 })),
+  permission: { allowed: true },
+  compliance: {
+    exceptions: [] as Array<Record<string, unknown>>,
+    pintAEExceptions: [] as Array<Record<string, unknown>>,
+    headers: [] as Array<Record<string, unknown>>,
+    isChecksRun: false,
+  },
 }));
 
+const RUN_FINDINGS = [
+  {
+    id: 'EXC-10428',
+    checkId: 'UAE-UC1-CHK-012',
+    checkName: 'Seller identity completeness',
+    severity: 'Critical',
+    message: 'Seller name is missing',
+    datasetType: 'AR',
+    invoiceId: 'inv-10428',
+    invoiceNumber: 'INV-10428',
+    sellerTrn: '100234567800003',
+    field: 'seller_name',
+    status: 'Open',
+    validationRunId: 'run-1',
+  },
+  {
+    id: 'EXC-10411',
+    checkId: 'UAE-UC1-CHK-018',
+    checkName: 'Buyer TRN format',
+    severity: 'High',
+    message: 'Buyer TRN is malformed',
+    datasetType: 'AR',
+    invoiceId: 'inv-10411',
+    invoiceNumber: 'INV-10411',
+    sellerTrn: '100234567800003',
+    field: 'buyer_trn',
+    actualValue: '1002345',
+    status: 'In Review',
+    validationRunId: 'run-1',
+  },
+];
+
+function useRunFindings() {
+  compliance.exceptions = RUN_FINDINGS;
+  compliance.headers = [{ invoice_id: 'inv-10428', seller_name: 'Dariba Retail LLC' }];
+  compliance.isChecksRun = true;
+}
+
+function useSampleQueue() {
+  compliance.exceptions = [];
+  compliance.headers = [];
+  compliance.isChecksRun = false;
+}
+
 vi.mock('@/lib/api/validationExplainApi', () => ({
   generateValidationExplanation,
 }));
 
+vi.mock('@/lib/api/approvalsApi', () => ({
+  fetchApprovals: vi.fn(async () => []),
+  requestApproval,
+}));
+
+vi.mock('@/lib/api/exceptionWorkflowApi', () => ({
+  fetchExceptionStates,
+  fetchExceptionHistory: vi.fn(async () => []),
+  transitionException,
+  assignException,
+}));
+
+vi.mock('@/lib/api/caseRoutingApi', () => ({
+  openCasesForFindings,
+}));
+
+vi.mock('@/context/ComplianceContext', () => ({
+  useCompliance: () => compliance,
+}));
+
+vi.mock('@/context/WorkspaceContext', () => ({
+  useWorkspace: () => ({ currentActor: { id: null, name: 'Maker' } }),
+}));
+
+vi.mock('@/hooks/use-permission', () => ({
+  usePermission: () => permission.allowed,
+}));
+
 vi.mock('@/components/explanations/ExplanationPackPanel', () => ({
   ExplanationPackPanel: ({ explanation, isLoading }: { explanation: { explanation?: string } | null; isLoading?: boolean }) => (
     <div>{isLoading ? 'Generating explanation pack...' : explanation?.explanation || 'No explanation'}</div>
@@ -21,7 +139,13 @@ vi.mock('@/components/explanations/ExplanationPackPanel', () => ({
 }));
 
 describe('ExceptionsWorkspacePage', () => {
+  beforeEach(() => {
+    permission.allowed = true;
+    useRunFindings();
+  });
+
   it('renders summary cards, filters by severity, updates the detail panel, and opens heuristics explanation', async () => {
+    useSampleQueue();
     render(
       <MemoryRouter initialEntries={['/exceptions?invoice=INV-10411&field=buyer_trn']}>
         <Routes>
@@ -58,4 +182,159 @@ describe('ExceptionsWorkspacePage', () => {
     expect(await screen.findByText('Heuristic explanation ready.')).toBeInTheDocument();
     expect(generateValidationExplanation).toHaveBeenCalled();
   });
+
+  it('submits a waiver with a reason code for approval', async () => {
+    render(
+      <MemoryRouter initialEntries={['/exceptions?invoice=INV-10411&field=buyer_trn']}>
+        <Routes>
+          <Route path="/exceptions" element={<ExceptionsWorkspacePage />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    fireEvent.click(screen.getByRole('combobox', { name: 'Reason code' }));
+    fireEvent.click(screen.getByRole('option', { name: 'Correct buyer data and resend' }));
+    fireEvent.change(screen.getByLabelText('Workflow comment'), { target: { value: 'Buyer confirmed TRN offline' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Request waiver' }));
+
+    expect(await screen.findByText(/Waiver awaiting approval/)).toBeInTheDocument();
+    expect(screen.getAllByText('Pending approval').length).toBeGreaterThan(0);
+    expect(requestApproval).toHaveBeenCalledWith(
+      expect.objectContaining({
+        kind: 'exception.waive',
+        entityId: 'EXC-10411',
+        payload: expect.objectContaining({ fingerprint: 'uae-uc1-chk-018|inv-10411|buyer_trn', fromStatus: 'In Review' }),
+        reasonCode: 'CORRECT_BUYER_DATA_AND_RESEND',
+      }),
+      { id: null, name: 'Maker' }
+    );
+  });
+
+  it('moves an open exception into review and records the transition', async () => {
+    render(
+      <MemoryRouter initialEntries={['/exceptions?invoice=INV-10428&field=seller_name']}>
+        <Routes>
+          <Route path="/exceptions" element={<ExceptionsWorkspacePage />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    fireEvent.change(screen.getByLabelText('Assignee'), { target: { value: 'Omar' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Start review' }));
+
+    expect(await screen.findByRole('button', { name: 'Resolve' })).toBeInTheDocument();
+    expect(transitionException).toHaveBeenCalledWith(
+      expect.objectContaining({
+        fingerprint: 'uae-uc1-chk-012|inv-10428|seller_name',
+        exceptionRef: 'EXC-10428',
+        fromStatus: 'Open',
+        toStatus: 'In Review',
+        assignee: 'Omar',
+      }),
+      { id: null, name: 'Maker' }
+    );
+    expect(screen.getAllByText('Omar').length).toBeGreaterThan(0);
+  });
+
+  it('disables waiver requests for viewers', () => {
+    permission.allowed = false;
+    render(
+      <MemoryRouter initialEntries={['/exceptions?invoice=INV-10411&field=buyer_trn']}>
+        <Routes>
+          <Route path="/exceptions" element={<ExceptionsWorkspacePage />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    expect(screen.getByRole('button', { name: 'Request waiver' })).toBeDisabled();
+  });
+
+  it('assigns every selected exception in one action', async () => {
+    render(
+      <MemoryRouter initialEntries={['/exceptions']}>
+        <Routes>
+          <Route path="/exceptions" element={<ExceptionsWorkspacePage />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Select EXC-10411' }));
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Select EXC-10428' }));
+    expect(screen.getByText('2 selected')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Bulk assignee'), { target: { value: 'Layla' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Assign' }));
+
+    await waitFor(() => expect(assignException).toHaveBeenCalledTimes(2));
+    expect(assignException).toHaveBeenCalledWith(
+      expect.objectContaining({ exceptionRef: 'EXC-10428', status: 'Open', assignee: 'Layla' }),
+      { id: null, name: 'Maker' }
+    );
+    expect((await screen.findAllByText('Layla')).length).toBeGreaterThan(0);
+  });
+
+  it('clusters the queue by root cause and selects a cluster for bulk action', () => {
+    render(
+      <MemoryRouter initialEntries={['/exceptions']}>
+        <Routes>
+          <Route path="/exceptions" element={<ExceptionsWorkspacePage />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    expect(screen.getByText('Exception clusters')).toBeInTheDocument();
+    expect(
+      screen.getByText(/Populate seller_name at source, or map it from the ERP, for seller 100234567800003/)
+    ).toBeInTheDocument();
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Select rows' })[0]);
+    expect(screen.getByText('1 selected')).toBeInTheDocument();
+  });
+
+  it('keeps the sample queue read-only until checks have run', () => {
+    useSampleQueue();
+    render(
+      <MemoryRouter initialEntries={['/exceptions?invoice=INV-10411&field=buyer_trn']}>
+        <Routes>
+          <Route path="/exceptions" element={<ExceptionsWorkspacePage />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    expect(screen.getByRole('status')).toHaveTextContent(/sample exceptions and are read-only/);
+    expect(screen.getByRole('button', { name: 'Request waiver' })).toBeDisabled();
+  });
+
+  it('locks workflow actions when stored statuses cannot be loaded', async () => {
+    fetchExceptionStates.mockRejectedValueOnce(new Error('Stored exception statuses could not be loaded.'));
+    render(
+      <MemoryRouter initialEntries={['/exceptions?invoice=INV-10428&field=seller_name']}>
+        <Routes>
+          <Route path="/exceptions" element={<ExceptionsWorkspacePage />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    expect(await screen.findByRole('alert')).toHaveTextContent('Stored exception statuses could not be loaded.');
+    expect(screen.getByRole('button', { name: 'Start review' })).toBeDisabled();
+  });
+
+  it('opens cases for the selected findings through case routing', async () => {
+    render(
+      <MemoryRouter initialEntries={['/exceptions']}>
+        <Routes>
+          <Route path="/exceptions" element={<ExceptionsWorkspacePage />} />
+        </Routes>
+      </MemoryRouter>
+    );
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Select all visible exceptions' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Create cases' }));
+
+    await waitFor(() => expect(openCasesForFindings).toHaveBeenCalledTimes(1));
+    expect(openCasesForFindings).toHaveBeenCalledWith('run-1', [
+      expect.objectContaining({ exceptionRef: 'EXC-10428', source: 'built_in', ownerTeam: 'Client Finance' }),
+      expect.objectContaining({ exceptionRef: 'EXC-10411', fingerprint: 'uae-uc1-chk-018|uae-uc1-chk-018|inv-10411|100234567800003||buyer_trn' }),
+    ]);
+  });
 });
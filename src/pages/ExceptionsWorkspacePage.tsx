@@ -1,18 +1,38 @@
-import { type ReactNode, useEffect, useMemo, useState } from 'react';
+import { type ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
+import { format } from 'date-fns';
 import {
   AlertTriangle,
   ArrowRight,
+  Bookmark,
   BriefcaseBusiness,
   CircleAlert,
   FolderKanban,
   Link2,
+  Pin,
+  Users,
 } from 'lucide-react';
 import { StatsCard } from '@/components/StatsCard';
 import { SeverityBadge } from '@/components/SeverityBadge';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
   Select,
   SelectContent,
@@ -28,14 +48,66 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { ExceptionClustersPanel } from '@/components/dashboard/ExceptionClustersPanel';
 import { ExplanationPackPanel } from '@/components/explanations/ExplanationPackPanel';
 import { generateValidationExplanation } from '@/lib/api/validationExplainApi';
+import { fetchApprovals, requestApproval } from '@/lib/api/approvalsApi';
+import { openCasesForFindings } from '@/lib/api/caseRoutingApi';
+import {
+  assignException,
+  fetchExceptionHistory,
+  fetchExceptionStates,
+  transitionException,
+} from '@/lib/api/exceptionWorkflowApi';
+import {
+  deleteExceptionView,
+  EXCEPTION_VIEWS_CHANGED_EVENT,
+  fetchExceptionViews,
+  saveExceptionView,
+  updateExceptionView,
+} from '@/lib/api/exceptionViewsApi';
+import { latestApprovalsByEntity } from '@/lib/approvals/approvalRules';
+import {
+  describeExceptionView,
+  isExceptionViewOwner,
+  matchesExceptionView,
+  partitionBulkTransition,
+  sortExceptionViews,
+} from '@/lib/exceptions/exceptionViews';
+import { buildRoutableFindings } from '@/lib/cases/caseRouting';
+import { clusterExceptions } from '@/lib/exceptions/exceptionClustering';
+import { findingFingerprint, requiresReasonCode, transitionPermission } from '@/lib/exceptions/exceptionWorkflow';
+import { UAE_UC1_CHECK_PACK } from '@/lib/checks/uaeUC1CheckPack';
+import { getDRRegistry } from '@/lib/registry/drRegistry';
+import { useCompliance } from '@/context/ComplianceContext';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import type { ApprovalRequest } from '@/types/approvals';
+import type { RoutableFinding } from '@/types/caseRouting';
+import {
+  RESOLUTION_REASON_CODE_LABELS,
+  type ExceptionWorkflowStatus,
+  type ResolutionReasonCode,
+} from '@/types/direction';
+import type { ExceptionStatusTransition, ExceptionWorkflowState } from '@/types/exceptionWorkflow';
+import {
+  EMPTY_EXCEPTION_VIEW_FILTERS,
+  type ExceptionViewFilterKey,
+  type ExceptionViewFilters,
+  type SavedExceptionView,
+} from '@/types/exceptionViews';
+import { requiredRoleMessage } from '@/lib/access/permissions';
+import { usePermission } from '@/hooks/use-permission';
+import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
-import type { Exception } from '@/types/compliance';
+import type { Exception, InvoiceHeader } from '@/types/compliance';
 import type { Severity } from '@/types/compliance';
 import type { ValidationExplanation } from '@/types/validationExplain';
 
-type ExceptionStatus = 'Open' | 'In progress' | 'Resolved';
+type ExceptionStatus = ExceptionWorkflowStatus | 'Pending approval';
 
 interface ExceptionWorkspaceItem {
   id: string;
@@ -43,16 +115,35 @@ interface ExceptionWorkspaceItem {
   ruleName: string;
   severity: Severity;
   entity: string;
-  status: ExceptionStatus;
+  sellerTrn: string;
+  status: ExceptionWorkflowStatus;
   owner?: string;
   description: string;
   whyItMatters: string;
   impactedFields: string[];
   impactedRecords: string[];
+  // Data requirements (IBT/BTUAE ids) the rule checks.
+  drIds: string[];
+  scenario: string;
   nextAction: string;
   dataTwinReference: string;
+  // The validation-run finding behind the row; sample rows have none.
+  finding?: Exception;
 }
 
+// A queue row after stored workflow state and pending waivers have been applied.
+interface ExceptionQueueItem extends ExceptionWorkspaceItem {
+  fingerprint: string;
+  displayStatus: ExceptionStatus;
+}
+
+interface BulkExplanation {
+  exceptionId: string;
+  ruleName: string;
+  explanation: ValidationExplanation | null;
+}
+
+// Sample queue shown until checks have run, so the workspace can be explored read-only.
 const EXCEPTION_RECORDS: ExceptionWorkspaceItem[] = [
   {
     id: 'EXC-10428',
@@ -60,12 +151,15 @@ const EXCEPTION_RECORDS: ExceptionWorkspaceItem[] = [
     ruleName: 'Seller identity completeness',
     severity: 'Critical',
     entity: 'Dariba Retail LLC',
+    sellerTrn: '100234567800003',
     status: 'Open',
     owner: 'Amina Saleh',
     description: 'Seller registration details are incomplete for a subset of outbound invoices in the March submission.',
     whyItMatters: 'Missing seller identity data can block acceptance, weaken evidence narratives, and create repeat validation churn.',
     impactedFields: ['seller_name', 'seller_trn', 'seller_address'],
     impactedRecords: ['INV-10428', 'INV-10432', 'INV-10491'],
+    drIds: ['IBT-027', 'IBT-031'],
+    scenario: 'Standard tax invoice',
     nextAction: 'Validate the seller master data extract and republish the missing identity values before the next run.',
     dataTwinReference: 'Open invoice lineage for INV-10428 to inspect source-to-rule context.',
   },
@@ -75,12 +169,15 @@ const EXCEPTION_RECORDS: ExceptionWorkspaceItem[] = [
     ruleName: 'Buyer TRN format',
     severity: 'High',
     entity: 'Dariba Retail LLC',
-    status: 'In progress',
+    sellerTrn: '100234567800003',
+    status: 'In Review',
     owner: 'Farah Khan',
     description: 'Buyer tax registration values are malformed for a group of retail invoices sourced from one ERP channel.',
     whyItMatters: 'Invalid registration identifiers increase rejection risk and make buyer traceability harder to defend.',
     impactedFields: ['buyer_trn', 'buyer_id'],
     impactedRecords: ['INV-10411', 'INV-10476'],
+    drIds: ['IBT-048'],
+    scenario: 'Standard tax invoice',
     nextAction: 'Coordinate with the owning team to normalize buyer registration values and confirm the correct format policy.',
     dataTwinReference: 'Review the buyer identity node and mapping stage for INV-10411 in the Data Twin workspace.',
   },
@@ -90,12 +187,15 @@ const EXCEPTION_RECORDS: ExceptionWorkspaceItem[] = [
     ruleName: 'VAT amount reconciliation',
     severity: 'High',
     entity: 'Al Noor Trading',
+    sellerTrn: '100345678900003',
     status: 'Open',
     owner: 'Yousef Rahman',
     description: 'Calculated VAT amounts do not reconcile between header totals and line-level math for selected invoices.',
     whyItMatters: 'Tax reconciliation failures can create filing risk and usually indicate either mapping drift or incorrect source math.',
     impactedFields: ['vat_total', 'vat_amount', 'line_total_excl_vat'],
     impactedRecords: ['INV-10405', 'INV-10454'],
+    drIds: ['IBT-110', 'IBT-117'],
+    scenario: 'Standard tax invoice',
     nextAction: 'Compare line calculations against the mapping profile to determine whether the mismatch is source-driven or transformation-driven.',
     dataTwinReference: 'Inspect the calculation lineage path for INV-10405 to isolate where VAT drift is introduced.',
   },
@@ -105,12 +205,15 @@ const EXCEPTION_RECORDS: ExceptionWorkspaceItem[] = [
     ruleName: 'Tax category coherence',
     severity: 'Medium',
     entity: 'Al Noor Trading',
+    sellerTrn: '100345678900003',
     status: 'Resolved',
     owner: 'Lina Haddad',
     description: 'Tax category codes were not aligned to the intended VAT treatment for a small scenario subset.',
     whyItMatters: 'Tax category inconsistencies reduce explainability and can leave evidence packs with unclear tax treatment narratives.',
     impactedFields: ['tax_category_code', 'vat_rate', 'invoice_type'],
     impactedRecords: ['INV-10377', 'INV-10420'],
+    drIds: ['IBT-118', 'IBT-151'],
+    scenario: 'Zero-rated export',
     nextAction: 'Keep the corrected mapping guidance in place and monitor for recurrence after the next dataset intake.',
     dataTwinReference: 'Reference the resolved rule path for INV-10377 to confirm the corrected category mapping.',
   },
@@ -120,12 +223,15 @@ const EXCEPTION_RECORDS: ExceptionWorkspaceItem[] = [
     ruleName: 'Line net total math',
     severity: 'High',
     entity: 'Mena Distribution',
-    status: 'In progress',
+    sellerTrn: '100456789000003',
+    status: 'In Review',
     owner: 'Hassan Omar',
     description: 'Line net totals do not reconcile cleanly with quantity, unit price, and discount values for discount-heavy invoices.',
     whyItMatters: 'Line-level math issues undermine total accuracy and create avoidable exception noise downstream.',
     impactedFields: ['quantity', 'unit_price', 'line_discount', 'line_total_excl_vat'],
     impactedRecords: ['INV-10288', 'INV-10302'],
+    drIds: ['IBT-131'],
+    scenario: 'Credit note',
     nextAction: 'Confirm the intended discount calculation order and align the transformation rule to the governed pricing logic.',
     dataTwinReference: 'Use the Data Twin view to compare source pricing fields against mapped invoice line totals.',
   },
@@ -135,62 +241,261 @@ const EXCEPTION_RECORDS: ExceptionWorkspaceItem[] = [
     ruleName: 'Duplicate invoice number detection',
     severity: 'Medium',
     entity: 'Mena Distribution',
+    sellerTrn: '100456789000003',
     status: 'Resolved',
     owner: 'Operations queue',
     description: 'A duplicate invoice identifier was detected across two intake batches before validation packaging.',
     whyItMatters: 'Duplicate identifiers confuse triage and evidence generation, even when the underlying records are otherwise healthy.',
     impactedFields: ['invoice_number', 'seller_trn'],
     impactedRecords: ['INV-10192'],
+    drIds: ['IBT-001'],
+    scenario: 'Standard tax invoice',
     nextAction: 'Maintain the submission controls that now block duplicate invoice numbers during intake review.',
     dataTwinReference: 'Reference the lineage comparison for INV-10192 to confirm the duplicate path has been retired.',
   },
 ];
 
+const SAMPLE_QUEUE_NOTICE = 'These are sample exceptions and are read-only. Run checks to work your own findings.';
+
+const PACK_CHECKS = new Map(UAE_UC1_CHECK_PACK.map((check) => [check.check_id, check]));
+
+function buildDrIdsByColumn(): Map<string, string[]> {
+  const drIdsByColumn = new Map<string, string[]>();
+  getDRRegistry().forEach((entry) =>
+    entry.internal_column_names.forEach((column) => {
+      const drIds = drIdsByColumn.get(column);
+      if (drIds) drIds.push(entry.dr_id);
+      else drIdsByColumn.set(column, [entry.dr_id]);
+    })
+  );
+  return drIdsByColumn;
+}
+
+/** A finding of the latest validation run as a queue row, with check-pack guidance where there is any. */
+function toWorkspaceItem(
+  finding: Exception,
+  header: InvoiceHeader | undefined,
+  drIdsByColumn: Map<string, string[]>
+): ExceptionWorkspaceItem {
+  const check = PACK_CHECKS.get(finding.checkId);
+  const invoice = finding.invoiceNumber || finding.invoiceId;
+  const field = finding.field;
+  return {
+    id: finding.id,
+    ruleId: finding.checkId,
+    ruleName: finding.checkName,
+    severity: finding.severity,
+    entity: header?.seller_name || finding.sellerTrn || 'Unknown seller',
+    sellerTrn: finding.sellerTrn || header?.seller_trn || '',
+    status: finding.status ?? 'Open',
+    description: finding.message,
+    whyItMatters: check?.description || `${finding.checkName} failed in the latest validation run.`,
+    impactedFields: field ? [field] : [],
+    impactedRecords: invoice ? [invoice] : [],
+    drIds: check?.pint_reference_terms.length ? check.pint_reference_terms : (field && drIdsByColumn.get(field)) || [],
+    scenario: header?.invoice_type ? `Invoice type ${header.invoice_type}` : 'Unclassified',
+    nextAction: check?.suggested_fix || 'Correct the value at source or in the mapping, then re-run checks.',
+    dataTwinReference: invoice
+      ? `Open invoice lineage for ${invoice} to inspect source-to-rule context.`
+      : 'Open the Data Twin workspace to trace this finding to its source.',
+    finding,
+  };
+}
+
 function getExceptionStatusClasses(status: ExceptionStatus) {
   if (status === 'Resolved') return 'border-success/25 bg-success/10 text-success';
-  if (status === 'In progress') return 'border-severity-medium/25 bg-severity-medium/10 text-severity-medium';
+  if (status === 'Waived') return 'border-border bg-muted text-muted-foreground';
+  if (status === 'Pending approval') return 'border-primary/25 bg-primary/10 text-primary';
+  if (status === 'In Review') return 'border-severity-medium/25 bg-severity-medium/10 text-severity-medium';
   return 'border-severity-critical/25 bg-severity-critical/10 text-severity-critical';
 }
 
 export default function ExceptionsWorkspacePage() {
   const navigate = useNavigate();
-  const [searchParams] = useSearchParams();
-  const [severityFilter, setSeverityFilter] = useState('all');
-  const [statusFilter, setStatusFilter] = useState('all');
-  const [entityFilter, setEntityFilter] = useState('all');
-  const [selectedExceptionId, setSelectedExceptionId] = useState<string | null>(
-    EXCEPTION_RECORDS[0]?.id ?? null
-  );
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { currentActor } = useWorkspace();
+  const { exceptions: runExceptions, pintAEExceptions, headers, isChecksRun } = useCompliance();
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<ExceptionViewFilters>(EMPTY_EXCEPTION_VIEW_FILTERS);
+  const [savedViews, setSavedViews] = useState<SavedExceptionView[]>([]);
+  const [saveViewOpen, setSaveViewOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkExplanations, setBulkExplanations] = useState<BulkExplanation[]>([]);
+  const [bulkExplanationsOpen, setBulkExplanationsOpen] = useState(false);
+  const [selectedExceptionId, setSelectedExceptionId] = useState<string | null>(null);
   const [selectedExplanation, setSelectedExplanation] = useState<ValidationExplanation | null>(null);
   const [explanationLoading, setExplanationLoading] = useState(false);
   const [explanationError, setExplanationError] = useState<string | null>(null);
   const [explanationDialogOpen, setExplanationDialogOpen] = useState(false);
+  const [waiverApprovals, setWaiverApprovals] = useState<ApprovalRequest[]>([]);
+  const [workflowStates, setWorkflowStates] = useState<Map<string, ExceptionWorkflowState>>(new Map());
+  const [workflowStatesError, setWorkflowStatesError] = useState<string | null>(null);
   const twinInvoice = searchParams.get('invoice')?.trim() || null;
   const twinField = searchParams.get('field')?.trim() || null;
+  const activeViewId = searchParams.get('view');
+  // Stable across renders, so views are only refetched when the acting user changes.
+  const viewActor = useMemo(() => ({ id: currentActor.id, name: currentActor.name }), [currentActor.id, currentActor.name]);
+
+  useEffect(() => {
+    fetchApprovals({ entityType: 'exception' }).then(setWaiverApprovals);
+    fetchExceptionStates()
+      .then(setWorkflowStates)
+      .catch((error: Error) => setWorkflowStatesError(`${error.message} Workflow actions are unavailable until they load.`));
+  }, []);
 
-  const entities = useMemo(
-    () => ['all', ...Array.from(new Set(EXCEPTION_RECORDS.map((exception) => exception.entity)))],
-    []
+  useEffect(() => {
+    const loadViews = () => fetchExceptionViews(viewActor).then((views) => setSavedViews(sortExceptionViews(views, viewActor)));
+    loadViews();
+    window.addEventListener(EXCEPTION_VIEWS_CHANGED_EVENT, loadViews);
+    return () => window.removeEventListener(EXCEPTION_VIEWS_CHANGED_EVENT, loadViews);
+  }, [viewActor]);
+
+  const activeView = savedViews.find((view) => view.id === activeViewId) ?? null;
+
+  // Opening a view, from the menu or a pinned sidebar link, puts its id in the URL.
+  useEffect(() => {
+    if (activeView) setFilters(activeView.filters);
+  }, [activeView]);
+
+  const setViewParam = useCallback(
+    (viewId: string | null) =>
+      setSearchParams((current) => {
+        const next = new URLSearchParams(current);
+        if (viewId) next.set('view', viewId);
+        else next.delete('view');
+        return next;
+      }),
+    [setSearchParams]
   );
 
-  const filteredExceptions = useMemo(
+  const setFilter = (key: ExceptionViewFilterKey) => (value: string) => {
+    setFilters((current) => ({ ...current, [key]: value === 'all' ? null : value }));
+    if (activeViewId) setViewParam(null);
+  };
+
+  const latestWaivers = useMemo(() => latestApprovalsByEntity(waiverApprovals, ['exception.waive']), [waiverApprovals]);
+
+  // The queue works the findings of the latest run; the sample queue stands in until checks have run.
+  const isSampleQueue = !isChecksRun;
+  const workflowLockedReason = isSampleQueue ? SAMPLE_QUEUE_NOTICE : workflowStatesError;
+  const workspaceItems = useMemo(() => {
+    if (isSampleQueue) return EXCEPTION_RECORDS;
+    const headersById = new Map(headers.map((header) => [header.invoice_id, header]));
+    const drIdsByColumn = buildDrIdsByColumn();
+    return runExceptions.map((finding) =>
+      toWorkspaceItem(finding, finding.invoiceId ? headersById.get(finding.invoiceId) : undefined, drIdsByColumn)
+    );
+  }, [headers, isSampleQueue, runExceptions]);
+
+  const exceptionRecords = useMemo(
     () =>
-      EXCEPTION_RECORDS.filter((exception) => {
-        if (severityFilter !== 'all' && exception.severity !== severityFilter) return false;
-        if (statusFilter !== 'all' && exception.status !== statusFilter) return false;
-        if (entityFilter !== 'all' && exception.entity !== entityFilter) return false;
-        return true;
+      workspaceItems.map((exception): ExceptionQueueItem => {
+        const fingerprint = findingFingerprint({
+          checkId: exception.ruleId,
+          invoiceNumber: exception.impactedRecords[0],
+          field: exception.impactedFields[0],
+        });
+        const state = workflowStates.get(fingerprint);
+        const status = state?.status ?? exception.status;
+        return {
+          ...exception,
+          fingerprint,
+          status,
+          owner: state ? state.assignee ?? undefined : exception.owner,
+          displayStatus: latestWaivers.get(exception.id)?.status === 'pending' ? 'Pending approval' : status,
+        };
       }),
-    [entityFilter, severityFilter, statusFilter]
+    [latestWaivers, workflowStates, workspaceItems]
+  );
+
+  const applyWorkflowStates = (states: ExceptionWorkflowState[]) =>
+    setWorkflowStates((current) => {
+      const next = new Map(current);
+      states.forEach((state) => next.set(state.fingerprint, state));
+      return next;
+    });
+
+  const filterOptions = useMemo(() => {
+    const distinct = (values: string[]) => ['all', ...Array.from(new Set(values))];
+    return {
+      checkId: distinct(workspaceItems.map((exception) => exception.ruleId)),
+      entity: distinct(workspaceItems.map((exception) => exception.entity)),
+      sellerTrn: distinct(workspaceItems.map((exception) => exception.sellerTrn)),
+      field: distinct(workspaceItems.flatMap((exception) => exception.impactedFields)),
+      drId: distinct(workspaceItems.flatMap((exception) => exception.drIds)),
+      scenario: distinct(workspaceItems.map((exception) => exception.scenario)),
+    };
+  }, [workspaceItems]);
+
+  const filteredExceptions = useMemo(
+    () => exceptionRecords.filter((exception) => matchesExceptionView(exception, filters)),
+    [exceptionRecords, filters]
   );
 
+  // Bulk actions apply to the selected rows that the current filters still show.
+  const selectedItems = useMemo(
+    () => filteredExceptions.filter((exception) => selectedIds.has(exception.id)),
+    [filteredExceptions, selectedIds]
+  );
+  const allVisibleSelected = filteredExceptions.length > 0 && selectedItems.length === filteredExceptions.length;
+  const routableFindings = useMemo(
+    () => (isSampleQueue ? [] : buildRoutableFindings(runExceptions, pintAEExceptions)),
+    [isSampleQueue, pintAEExceptions, runExceptions]
+  );
+  const selectedFindings = useMemo(() => {
+    const selectedRefs = new Set(selectedItems.map((item) => item.id));
+    return routableFindings.filter((finding) => selectedRefs.has(finding.exceptionRef));
+  }, [routableFindings, selectedItems]);
+
+  const exceptionClusters = useMemo(
+    () => clusterExceptions(queueRowsToExceptions(filteredExceptions)),
+    [filteredExceptions]
+  );
+
+  const toggleSelected = (id: string, checked: boolean) =>
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+
+  const toggleAllVisible = (checked: boolean) =>
+    setSelectedIds(checked ? new Set(filteredExceptions.map((exception) => exception.id)) : new Set());
+
+  const handleSaveView = async (entry: { name: string; isShared: boolean; isPinned: boolean }) => {
+    const view = await saveExceptionView({ ...entry, filters }, currentActor);
+    if (!view) {
+      toast({ title: 'View not saved', description: 'The filter view could not be saved.', variant: 'destructive' });
+      return;
+    }
+    setSaveViewOpen(false);
+    setViewParam(view.id);
+    toast({ title: `Saved view "${view.name}"` });
+  };
+
+  const handleUpdateView = async (changes: Partial<Pick<SavedExceptionView, 'isShared' | 'isPinned'>>) => {
+    if (!activeView) return;
+    if (!(await updateExceptionView(activeView.id, changes))) {
+      toast({ title: 'View not updated', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteView = async () => {
+    if (!activeView) return;
+    if (await deleteExceptionView(activeView.id)) {
+      setViewParam(null);
+      toast({ title: `Deleted view "${activeView.name}"` });
+    }
+  };
+
   const twinMatchedExceptionId = useMemo(() => {
     const normalizedInvoice = twinInvoice?.toLowerCase();
     const normalizedField = twinField?.toLowerCase();
 
     if (!normalizedInvoice && !normalizedField) return null;
 
-    const exactInvoiceAndField = EXCEPTION_RECORDS.find((exception) => {
+    const exactInvoiceAndField = workspaceItems.find((exception) => {
       const invoiceMatch = normalizedInvoice
         ? exception.impactedRecords.some((record) => record.toLowerCase() === normalizedInvoice)
         : true;
@@ -203,7 +508,7 @@ export default function ExceptionsWorkspacePage() {
     if (exactInvoiceAndField) return exactInvoiceAndField.id;
 
     const invoiceOnly = normalizedInvoice
-      ? EXCEPTION_RECORDS.find((exception) =>
+      ? workspaceItems.find((exception) =>
           exception.impactedRecords.some((record) => record.toLowerCase() === normalizedInvoice)
         )
       : null;
@@ -211,13 +516,13 @@ export default function ExceptionsWorkspacePage() {
     if (invoiceOnly) return invoiceOnly.id;
 
     const fieldOnly = normalizedField
-      ? EXCEPTION_RECORDS.find((exception) =>
+      ? workspaceItems.find((exception) =>
           exception.impactedFields.some((field) => field.toLowerCase() === normalizedField)
         )
       : null;
 
     return fieldOnly?.id ?? null;
-  }, [twinField, twinInvoice]);
+  }, [twinField, twinInvoice, workspaceItems]);
 
   useEffect(() => {
     if (!filteredExceptions.some((exception) => exception.id === selectedExceptionId)) {
@@ -233,34 +538,23 @@ export default function ExceptionsWorkspacePage() {
 
   const selectedException =
     filteredExceptions.find((exception) => exception.id === selectedExceptionId) ??
-    EXCEPTION_RECORDS.find((exception) => exception.id === selectedExceptionId) ??
+    exceptionRecords.find((exception) => exception.id === selectedExceptionId) ??
     null;
 
-  const selectedComplianceException = useMemo<Exception | null>(() => {
-    if (!selectedException) return null;
-
-    return {
-      id: selectedException.id,
-      checkId: selectedException.ruleId,
-      ruleId: selectedException.ruleId,
-      checkName: selectedException.ruleName,
-      severity: selectedException.severity,
-      message: selectedException.description,
-      datasetType: 'AR',
-      invoiceNumber: selectedException.impactedRecords[0],
-      field: selectedException.impactedFields[0],
-    };
-  }, [selectedException]);
+  const selectedComplianceException = useMemo<Exception | null>(
+    () => (selectedException ? toComplianceException(selectedException) : null),
+    [selectedException]
+  );
 
   const summary = useMemo(() => {
-    const total = EXCEPTION_RECORDS.length;
-    const critical = EXCEPTION_RECORDS.filter((exception) => exception.severity === 'Critical').length;
-    const open = EXCEPTION_RECORDS.filter((exception) => exception.status === 'Open').length;
-    const resolved = EXCEPTION_RECORDS.filter((exception) => exception.status === 'Resolved').length;
-    const inProgress = EXCEPTION_RECORDS.filter((exception) => exception.status === 'In progress').length;
+    const total = exceptionRecords.length;
+    const critical = exceptionRecords.filter((exception) => exception.severity === 'Critical').length;
+    const open = exceptionRecords.filter((exception) => exception.status === 'Open').length;
+    const resolved = exceptionRecords.filter((exception) => exception.status === 'Resolved').length;
+    const inReview = exceptionRecords.filter((exception) => exception.status === 'In Review').length;
 
-    return { total, critical, open, resolved, inProgress };
-  }, []);
+    return { total, critical, open, resolved, inReview };
+  }, [exceptionRecords]);
 
   const openExplanationDialog = async () => {
     if (!selectedComplianceException) return;
@@ -328,7 +622,7 @@ export default function ExceptionsWorkspacePage() {
         <StatsCard
           title="Open Exceptions"
           value={summary.open}
-          subtitle={`${summary.inProgress} in progress`}
+          subtitle={`${summary.inReview} in review`}
           icon={<AlertTriangle className="h-5 w-5" />}
           variant={summary.open > 0 ? 'warning' : 'default'}
           className="rounded-[24px] border-border/70 shadow-[0_14px_28px_-24px_rgba(15,23,42,0.22)]"
@@ -358,6 +652,50 @@ export default function ExceptionsWorkspacePage() {
                 </p>
               </div>
               <div className="flex flex-wrap gap-2">
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" className="rounded-full">
+                      <Bookmark className="h-4 w-4" />
+                      {activeView ? activeView.name : 'Saved views'}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-72">
+                    <DropdownMenuLabel>Saved views</DropdownMenuLabel>
+                    {savedViews.length === 0 ? (
+                      <p className="px-2 py-1.5 text-xs text-muted-foreground">No saved views yet.</p>
+                    ) : (
+                      savedViews.map((view) => (
+                        <DropdownMenuItem key={view.id} onSelect={() => setViewParam(view.id)}>
+                          <div className="min-w-0 flex-1">
+                            <p className="truncate font-medium">{view.name}</p>
+                            <p className="truncate text-xs text-muted-foreground">
+                              {isExceptionViewOwner(view, currentActor)
+                                ? describeExceptionView(view.filters)
+                                : `Shared by ${view.owner.name}`}
+                            </p>
+                          </div>
+                          {view.isPinned && isExceptionViewOwner(view, currentActor) && <Pin className="h-3.5 w-3.5" />}
+                          {view.isShared && <Users className="h-3.5 w-3.5" />}
+                        </DropdownMenuItem>
+                      ))
+                    )}
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={() => setSaveViewOpen(true)}>Save current filters…</DropdownMenuItem>
+                    {activeView && isExceptionViewOwner(activeView, currentActor) && (
+                      <>
+                        <DropdownMenuItem onSelect={() => handleUpdateView({ isPinned: !activeView.isPinned })}>
+                          {activeView.isPinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onSelect={() => handleUpdateView({ isShared: !activeView.isShared })}>
+                          {activeView.isShared ? 'Stop sharing' : 'Share with workspace'}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem className="text-destructive" onSelect={handleDeleteView}>
+                          Delete view
+                        </DropdownMenuItem>
+                      </>
+                    )}
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <Button variant="outline" className="rounded-full" onClick={() => navigate('/cases')}>
                   Open Cases
                 </Button>
@@ -368,28 +706,63 @@ export default function ExceptionsWorkspacePage() {
               </div>
             </div>
 
-            <div className="grid gap-3 sm:grid-cols-3">
+            <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
               <FilterField
                 label="Severity"
-                value={severityFilter}
-                onValueChange={setSeverityFilter}
+                value={filters.severity ?? 'all'}
+                onValueChange={setFilter('severity')}
                 options={['all', 'Critical', 'High', 'Medium', 'Low']}
                 placeholder="All severities"
               />
               <FilterField
                 label="Status"
-                value={statusFilter}
-                onValueChange={setStatusFilter}
-                options={['all', 'Open', 'In progress', 'Resolved']}
+                value={filters.status ?? 'all'}
+                onValueChange={setFilter('status')}
+                options={['all', 'Open', 'In Review', 'Resolved', 'Pending approval', 'Waived']}
                 placeholder="All statuses"
               />
               <FilterField
                 label="Entity"
-                value={entityFilter}
-                onValueChange={setEntityFilter}
-                options={entities}
+                value={filters.entity ?? 'all'}
+                onValueChange={setFilter('entity')}
+                options={filterOptions.entity}
                 placeholder="All entities"
               />
+              <FilterField
+                label="Check"
+                value={filters.checkId ?? 'all'}
+                onValueChange={setFilter('checkId')}
+                options={filterOptions.checkId}
+                placeholder="All checks"
+              />
+              <FilterField
+                label="Seller TRN"
+                value={filters.sellerTrn ?? 'all'}
+                onValueChange={setFilter('sellerTrn')}
+                options={filterOptions.sellerTrn}
+                placeholder="All sellers"
+              />
+              <FilterField
+                label="Field"
+                value={filters.field ?? 'all'}
+                onValueChange={setFilter('field')}
+                options={filterOptions.field}
+                placeholder="All fields"
+              />
+              <FilterField
+                label="DR"
+                value={filters.drId ?? 'all'}
+                onValueChange={setFilter('drId')}
+                options={filterOptions.drId}
+                placeholder="All DRs"
+              />
+              <FilterField
+                label="Scenario"
+                value={filters.scenario ?? 'all'}
+                onValueChange={setFilter('scenario')}
+                options={filterOptions.scenario}
+                placeholder="All scenarios"
+              />
             </div>
 
             {(twinInvoice || twinField) && (
@@ -412,15 +785,51 @@ export default function ExceptionsWorkspacePage() {
                 {filteredExceptions.length} visible
               </Badge>
               <Badge variant="outline" className="border-border/70 bg-background/70">
-                {EXCEPTION_RECORDS.length} total
+                {exceptionRecords.length} total
               </Badge>
               <span>Select an exception to inspect operational context and the recommended fix path.</span>
             </div>
 
+            {workflowLockedReason && (
+              <p
+                role={isSampleQueue ? 'status' : 'alert'}
+                className={cn(
+                  'rounded-2xl border px-4 py-3 text-sm',
+                  isSampleQueue
+                    ? 'border-dashed border-border/70 text-muted-foreground'
+                    : 'border-destructive/30 bg-destructive/5 text-destructive'
+                )}
+              >
+                {workflowLockedReason}
+              </p>
+            )}
+
+            {selectedItems.length > 0 && (
+              <BulkActionsBar
+                items={selectedItems}
+                findings={selectedFindings}
+                lockedReason={workflowLockedReason}
+                onStatesChanged={applyWorkflowStates}
+                onWaiversRequested={(approvals) => setWaiverApprovals((current) => [...approvals, ...current])}
+                onExplained={(explanations) => {
+                  setBulkExplanations(explanations);
+                  setBulkExplanationsOpen(true);
+                }}
+                onClear={() => setSelectedIds(new Set())}
+              />
+            )}
+
             <div className="overflow-hidden rounded-[24px] border border-border/70 bg-background/78">
               <Table>
                 <TableHeader className="bg-muted/35">
                   <TableRow className="hover:bg-transparent">
+                    <TableHead className="w-10">
+                      <Checkbox
+                        aria-label="Select all visible exceptions"
+                        checked={allVisibleSelected ? true : selectedItems.length > 0 ? 'indeterminate' : false}
+                        onCheckedChange={(checked) => toggleAllVisible(checked === true)}
+                      />
+                    </TableHead>
                     <TableHead>Exception ID</TableHead>
                     <TableHead>Related rule</TableHead>
                     <TableHead>Severity</TableHead>
@@ -441,6 +850,13 @@ export default function ExceptionsWorkspacePage() {
                         onClick={() => setSelectedExceptionId(exception.id)}
                         aria-selected={selectedException?.id === exception.id}
                       >
+                        <TableCell onClick={(event) => event.stopPropagation()}>
+                          <Checkbox
+                            aria-label={`Select ${exception.id}`}
+                            checked={selectedIds.has(exception.id)}
+                            onCheckedChange={(checked) => toggleSelected(exception.id, checked === true)}
+                          />
+                        </TableCell>
                         <TableCell className="font-medium text-foreground">{exception.id}</TableCell>
                         <TableCell className="min-w-[240px]">
                           <div className="space-y-1">
@@ -456,10 +872,10 @@ export default function ExceptionsWorkspacePage() {
                           <span
                             className={cn(
                               'inline-flex items-center rounded-full border px-2.5 py-1 text-xs font-semibold',
-                              getExceptionStatusClasses(exception.status)
+                              getExceptionStatusClasses(exception.displayStatus)
                             )}
                           >
-                            {exception.status}
+                            {exception.displayStatus}
                           </span>
                         </TableCell>
                         <TableCell className="text-muted-foreground">{exception.owner ?? 'Unassigned'}</TableCell>
@@ -467,11 +883,11 @@ export default function ExceptionsWorkspacePage() {
                     ))
                   ) : (
                     <TableRow className="hover:bg-transparent">
-                      <TableCell colSpan={6} className="py-10 text-center">
+                      <TableCell colSpan={7} className="py-10 text-center">
                         <div className="space-y-2">
                           <p className="font-medium text-foreground">No exceptions match the current filters.</p>
                           <p className="text-sm text-muted-foreground">
-                            Adjust severity, status, or entity filters to bring more exceptions back into view.
+                            Adjust the filters or open another saved view to bring more exceptions back into view.
                           </p>
                         </div>
                       </TableCell>
@@ -509,10 +925,10 @@ export default function ExceptionsWorkspacePage() {
                 <span
                   className={cn(
                     'inline-flex items-center rounded-full border px-2.5 py-1 text-xs font-semibold',
-                    getExceptionStatusClasses(selectedException.status)
+                    getExceptionStatusClasses(selectedException.displayStatus)
                   )}
                 >
-                  {selectedException.status}
+                  {selectedException.displayStatus}
                 </span>
                 <Badge variant="outline" className="border-border/70 bg-background/80">
                   {selectedException.entity}
@@ -552,6 +968,19 @@ export default function ExceptionsWorkspacePage() {
 
               <DetailSection title="Recommended fix / action">{selectedException.nextAction}</DetailSection>
 
+              <DetailSection title="Workflow">
+                <ExceptionWorkflowPanel
+                  key={selectedException.id}
+                  exception={selectedException}
+                  waiver={latestWaivers.get(selectedException.id)}
+                  lockedReason={workflowLockedReason}
+                  onStateChange={(state) =>
+                    setWorkflowStates((current) => new Map(current).set(state.fingerprint, state))
+                  }
+                  onWaiverRequested={(approval) => setWaiverApprovals((current) => [approval, ...current])}
+                />
+              </DetailSection>
+
               <DetailSection title="AI heuristics explanation">
                 <div className="space-y-3">
                   <p>
@@ -577,6 +1006,16 @@ export default function ExceptionsWorkspacePage() {
         </aside>
       </section>
 
+      <ExceptionClustersPanel
+        clusters={exceptionClusters}
+        description={
+          isSampleQueue
+            ? 'Sample rows that share a check, field, value pattern and seller.'
+            : 'Findings of the latest validation run that share a check, field, value pattern, party and upload. Select a cluster to act on it in bulk.'
+        }
+        onSelectCluster={(cluster) => setSelectedIds(new Set(cluster.exceptionIds))}
+      />
+
       <Dialog open={explanationDialogOpen} onOpenChange={setExplanationDialogOpen}>
         <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
@@ -605,6 +1044,38 @@ export default function ExceptionsWorkspacePage() {
           />
         </DialogContent>
       </Dialog>
+
+      <Dialog open={bulkExplanationsOpen} onOpenChange={setBulkExplanationsOpen}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Validation Explanations</DialogTitle>
+            <DialogDescription>
+              Deterministic heuristics explanations for {bulkExplanations.length} selected exceptions.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            {bulkExplanations.map(({ exceptionId, ruleName, explanation }) => (
+              <DetailSection key={exceptionId} title={`${exceptionId} · ${ruleName}`}>
+                {explanation ? (
+                  <div className="space-y-1">
+                    <p>{explanation.explanation}</p>
+                    <p className="font-medium text-foreground">{explanation.recommendedFix}</p>
+                  </div>
+                ) : (
+                  <p className="text-destructive">Unable to generate explanation.</p>
+                )}
+              </DetailSection>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <SaveViewDialog
+        open={saveViewOpen}
+        onOpenChange={setSaveViewOpen}
+        summary={describeExceptionView(filters)}
+        onSave={handleSaveView}
+      />
     </div>
   );
 }
@@ -655,3 +1126,599 @@ function DetailSection({
     </div>
   );
 }
+
+function toComplianceException(exception: ExceptionWorkspaceItem): Exception {
+  if (exception.finding) return exception.finding;
+  return {
+    id: exception.id,
+    checkId: exception.ruleId,
+    ruleId: exception.ruleId,
+    checkName: exception.ruleName,
+    severity: exception.severity,
+    message: exception.description,
+    datasetType: 'AR',
+    invoiceNumber: exception.impactedRecords[0],
+    field: exception.impactedFields[0],
+  };
+}
+
+// Run rows are their findings; a sample row stands for one finding per impacted invoice.
+function queueRowsToExceptions(items: ExceptionWorkspaceItem[]): Exception[] {
+  return items.flatMap((item) =>
+    item.finding
+      ? [item.finding]
+      : item.impactedRecords.map((record) => ({ ...toComplianceException(item), invoiceNumber: record, sellerTrn: item.sellerTrn }))
+  );
+}
+
+function SaveViewDialog({
+  open,
+  onOpenChange,
+  summary,
+  onSave,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  summary: string;
+  onSave: (entry: { name: string; isShared: boolean; isPinned: boolean }) => Promise<void>;
+}) {
+  const [name, setName] = useState('');
+  const [isShared, setIsShared] = useState(false);
+  const [isPinned, setIsPinned] = useState(true);
+
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setIsShared(false);
+      setIsPinned(true);
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save view</DialogTitle>
+          <DialogDescription>{summary}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="exception-view-name">Name</Label>
+            <Input id="exception-view-name" value={name} onChange={(event) => setName(event.target.value)} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="exception-view-pinned">Pin to my sidebar</Label>
+            <Switch id="exception-view-pinned" checked={isPinned} onCheckedChange={setIsPinned} />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="exception-view-shared">Share with the workspace</Label>
+            <Switch id="exception-view-shared" checked={isShared} onCheckedChange={setIsShared} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={() => onSave({ name, isShared, isPinned })} disabled={!name.trim()}>
+            Save view
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+const BULK_STATUS_TARGETS: { to: ExceptionWorkflowStatus; label: string }[] = [
+  { to: 'In Review', label: 'Start review' },
+  { to: 'Resolved', label: 'Resolve' },
+  { to: 'Waived', label: 'Request waivers' },
+  { to: 'Open', label: 'Reopen' },
+];
+
+function BulkActionsBar({
+  items,
+  findings,
+  lockedReason,
+  onStatesChanged,
+  onWaiversRequested,
+  onExplained,
+  onClear,
+}: {
+  items: ExceptionQueueItem[];
+  // The selected run findings in the shape case routing takes.
+  findings: RoutableFinding[];
+  // Set when workflow actions are unavailable, with the reason shown on the disabled controls.
+  lockedReason: string | null;
+  onStatesChanged: (states: ExceptionWorkflowState[]) => void;
+  onWaiversRequested: (approvals: ApprovalRequest[]) => void;
+  onExplained: (explanations: BulkExplanation[]) => void;
+  onClear: () => void;
+}) {
+  const [assignee, setAssignee] = useState('');
+  const [target, setTarget] = useState<ExceptionWorkflowStatus | ''>('');
+  const [reasonCode, setReasonCode] = useState<ResolutionReasonCode | ''>('');
+  const [comment, setComment] = useState('');
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const canPrepare = usePermission('data.prepare') && !lockedReason;
+  const canResolve = usePermission('exception.resolve') && !lockedReason;
+  const prepareBlockedReason = lockedReason ?? requiredRoleMessage('data.prepare');
+  const { currentActor } = useWorkspace();
+  const { toast } = useToast();
+
+  // Requests run one at a time so a large selection does not flood the workflow RPCs.
+  const runSequentially = async <T,>(run: (item: ExceptionQueueItem) => Promise<T | null>, subset = items) => {
+    const results: T[] = [];
+    for (const item of subset) {
+      const result = await run(item);
+      if (result) results.push(result);
+    }
+    return results;
+  };
+
+  const withBusy = async (action: string, work: () => Promise<void>) => {
+    setBusyAction(action);
+    try {
+      await work();
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleAssign = () =>
+    withBusy('assign', async () => {
+      const assignable = items.filter((item) => item.displayStatus !== 'Pending approval');
+      const states = await runSequentially(
+        (item) =>
+          assignException(
+            {
+              fingerprint: item.fingerprint,
+              exceptionRef: item.id,
+              status: item.status,
+              assignee: assignee.trim() || null,
+              comment: comment.trim() || undefined,
+            },
+            currentActor
+          ),
+        assignable
+      );
+      onStatesChanged(states);
+      toast({
+        title: `Assigned ${states.length} of ${items.length} exceptions`,
+        description: assignee.trim() ? `Now owned by ${assignee.trim()}.` : 'Owner cleared.',
+      });
+    });
+
+  const needsReason = target !== '' && requiresReasonCode(target);
+  const needsComment = target === 'Open' || target === 'Waived';
+  const targetPermitted = target === 'Resolved' ? canResolve : canPrepare;
+  const applyBlocked =
+    !target || !targetPermitted || (needsReason && !reasonCode) || (needsComment && !comment.trim()) || busyAction !== null;
+
+  const handleApplyStatus = () =>
+    withBusy('status', async () => {
+      if (!target) return;
+      const { eligible, skipped } = partitionBulkTransition(items, target);
+      if (target === 'Waived') {
+        const approvals = await runSequentially(
+          (item) =>
+            requestApproval(
+              {
+                kind: 'exception.waive',
+                entityType: 'exception',
+                entityId: item.id,
+                entityLabel: `${item.id} · ${item.ruleName}`,
+                payload: {
+                  ruleId: item.ruleId,
+                  fingerprint: item.fingerprint,
+                  fromStatus: item.status,
+                  assignee: item.owner ?? null,
+                },
+                reasonCode: reasonCode || null,
+                justification: comment.trim(),
+              },
+              currentActor
+            ),
+          eligible
+        );
+        onWaiversRequested(approvals);
+        toast({
+          title: `${approvals.length} waivers submitted for approval`,
+          description: skipped.length ? `${skipped.length} exceptions were not in review and were skipped.` : undefined,
+        });
+      } else {
+        const states = await runSequentially(
+          (item) =>
+            transitionException(
+              {
+                fingerprint: item.fingerprint,
+                exceptionRef: item.id,
+                fromStatus: item.status,
+                toStatus: target,
+                comment: comment.trim(),
+                assignee: item.owner ?? null,
+                reasonCode: requiresReasonCode(target) && reasonCode ? reasonCode : null,
+              },
+              currentActor
+            ),
+          eligible
+        );
+        onStatesChanged(states);
+        toast({
+          title: `${states.length} exceptions moved to ${target}`,
+          description: skipped.length ? `${skipped.length} could not move to ${target} from their status and were skipped.` : undefined,
+        });
+      }
+      setComment('');
+      setReasonCode('');
+    });
+
+  // Findings are linked against the run that produced them, so cases need a saved run.
+  const runId = items.find((item) => item.finding?.validationRunId)?.finding?.validationRunId ?? null;
+
+  const handleCreateCases = () =>
+    withBusy('cases', async () => {
+      const result = runId ? await openCasesForFindings(runId, findings) : null;
+      if (!result) {
+        toast({
+          title: 'No cases opened',
+          description: runId
+            ? 'Case routing could not run for the selected findings. Try again.'
+            : 'This run was not saved, so its findings cannot be linked to cases.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      toast({
+        title: result.created ? `Opened ${result.created} cases` : 'No new cases opened',
+        description: result.failed
+          ? `${result.failed} of ${findings.length} findings could not be linked to a case.`
+          : `${result.linked} findings linked to open cases.`,
+        variant: result.failed ? 'destructive' : undefined,
+      });
+    });
+
+  const handleExplain = () =>
+    withBusy('explain', async () => {
+      const explanations: BulkExplanation[] = [];
+      for (const item of items) {
+        let explanation: ValidationExplanation | null = null;
+        const exception = toComplianceException(item);
+        try {
+          explanation = await generateValidationExplanation({
+            exception,
+            datasetType: exception.datasetType ?? 'AR',
+            mode: 'heuristic_only',
+            promptVersion: 'validation_explain_v1',
+          });
+        } catch {
+          explanation = null;
+        }
+        explanations.push({ exceptionId: item.id, ruleName: item.ruleName, explanation });
+      }
+      onExplained(explanations);
+    });
+
+  return (
+    <div className="space-y-3 rounded-[20px] border border-primary/15 bg-primary/5 p-4" aria-label="Bulk actions">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm font-semibold text-foreground">{items.length} selected</p>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="rounded-full"
+            onClick={handleCreateCases}
+            disabled={!canPrepare || busyAction !== null}
+            title={canPrepare ? undefined : prepareBlockedReason}
+          >
+            {busyAction === 'cases' ? 'Creating...' : 'Create cases'}
+          </Button>
+          <Button variant="outline" size="sm" className="rounded-full" onClick={handleExplain} disabled={busyAction !== null}>
+            {busyAction === 'explain' ? 'Explaining...' : 'Explain selected'}
+          </Button>
+          <Button variant="ghost" size="sm" className="rounded-full" onClick={onClear}>
+            Clear selection
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Input
+          aria-label="Bulk assignee"
+          value={assignee}
+          onChange={(event) => setAssignee(event.target.value)}
+          placeholder="Assignee"
+          className="h-9 max-w-[220px] rounded-xl"
+          disabled={!canPrepare}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="rounded-full"
+          onClick={handleAssign}
+          disabled={!canPrepare || busyAction !== null}
+          title={canPrepare ? undefined : prepareBlockedReason}
+        >
+          {busyAction === 'assign' ? 'Assigning...' : 'Assign'}
+        </Button>
+      </div>
+
+      <div className="grid gap-2 sm:grid-cols-2">
+        <Select value={target} onValueChange={(value) => setTarget(value as ExceptionWorkflowStatus)} disabled={!canPrepare}>
+          <SelectTrigger aria-label="Bulk status" className="rounded-xl">
+            <SelectValue placeholder="Change status" />
+          </SelectTrigger>
+          <SelectContent>
+            {BULK_STATUS_TARGETS.map((option) => (
+              <SelectItem key={option.to} value={option.to}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={reasonCode}
+          onValueChange={(value) => setReasonCode(value as ResolutionReasonCode)}
+          disabled={!canPrepare || !needsReason}
+        >
+          <SelectTrigger aria-label="Bulk reason code" className="rounded-xl">
+            <SelectValue placeholder="Reason code" />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(RESOLUTION_REASON_CODE_LABELS).map(([code, label]) => (
+              <SelectItem key={code} value={code}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Textarea
+        aria-label="Bulk comment"
+        value={comment}
+        onChange={(event) => setComment(event.target.value)}
+        placeholder="Comment recorded on every selected exception"
+        rows={2}
+        disabled={!canPrepare}
+      />
+      <Button
+        className="rounded-full"
+        onClick={handleApplyStatus}
+        disabled={applyBlocked}
+        title={target && !targetPermitted ? lockedReason ?? requiredRoleMessage(transitionPermission(target)) : undefined}
+      >
+        {busyAction === 'status' ? 'Applying...' : 'Apply to selected'}
+      </Button>
+    </div>
+  );
+}
+
+function WaiverSummary({ approval }: { approval?: ApprovalRequest }) {
+  if (!approval) return null;
+  return (
+    <div className="space-y-1">
+      <p className="font-medium text-foreground">
+        {approval.status === 'approved' ? 'Waived' : 'Waiver awaiting approval'}
+        {approval.reasonCode ? ` · ${RESOLUTION_REASON_CODE_LABELS[approval.reasonCode]}` : ''}
+      </p>
+      <p>{approval.justification}</p>
+      <p className="text-xs">
+        Requested by {approval.requestedBy.name}
+        {approval.decidedBy ? ` · approved by ${approval.decidedBy.name}` : ''}
+      </p>
+    </div>
+  );
+}
+
+const TRANSITION_ACTIONS: Partial<Record<ExceptionWorkflowStatus, { to: ExceptionWorkflowStatus; label: string }>> = {
+  Open: { to: 'In Review', label: 'Start review' },
+  Resolved: { to: 'Open', label: 'Reopen' },
+  Waived: { to: 'Open', label: 'Reopen' },
+};
+
+function ExceptionWorkflowPanel({
+  exception,
+  waiver,
+  lockedReason,
+  onStateChange,
+  onWaiverRequested,
+}: {
+  exception: ExceptionQueueItem;
+  waiver?: ApprovalRequest;
+  lockedReason: string | null;
+  onStateChange: (state: ExceptionWorkflowState) => void;
+  onWaiverRequested: (approval: ApprovalRequest) => void;
+}) {
+  const [history, setHistory] = useState<ExceptionStatusTransition[]>([]);
+  const [assignee, setAssignee] = useState(exception.owner ?? '');
+  const [comment, setComment] = useState('');
+  const [reasonCode, setReasonCode] = useState<ResolutionReasonCode | ''>('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const canPrepare = usePermission('data.prepare') && !lockedReason;
+  const canResolve = usePermission('exception.resolve') && !lockedReason;
+  const prepareBlockedReason = lockedReason ?? requiredRoleMessage('data.prepare');
+  const { currentActor } = useWorkspace();
+  const { toast } = useToast();
+  const waiverPending = waiver?.status === 'pending';
+  const action = TRANSITION_ACTIONS[exception.status];
+
+  useEffect(() => {
+    fetchExceptionHistory(exception.fingerprint).then(setHistory);
+  }, [exception.fingerprint]);
+
+  const moveTo = async (toStatus: ExceptionWorkflowStatus) => {
+    setIsSubmitting(true);
+    const state = await transitionException(
+      {
+        fingerprint: exception.fingerprint,
+        exceptionRef: exception.id,
+        fromStatus: exception.status,
+        toStatus,
+        comment: comment.trim(),
+        assignee: assignee.trim() || null,
+        reasonCode: requiresReasonCode(toStatus) && reasonCode ? reasonCode : null,
+      },
+      currentActor
+    );
+    setIsSubmitting(false);
+    if (!state) {
+      toast({
+        title: 'Status not changed',
+        description: `${exception.id} could not be moved to ${toStatus}. Reload and try again.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    onStateChange(state);
+    setComment('');
+    setReasonCode('');
+    setHistory(await fetchExceptionHistory(exception.fingerprint));
+    toast({ title: `${exception.id} moved to ${toStatus}` });
+  };
+
+  const requestWaiver = async () => {
+    if (!reasonCode || !comment.trim()) return;
+    setIsSubmitting(true);
+    const approval = await requestApproval(
+      {
+        kind: 'exception.waive',
+        entityType: 'exception',
+        entityId: exception.id,
+        entityLabel: `${exception.id} · ${exception.ruleName}`,
+        payload: {
+          ruleId: exception.ruleId,
+          fingerprint: exception.fingerprint,
+          fromStatus: exception.status,
+          assignee: assignee.trim() || null,
+        },
+        reasonCode,
+        justification: comment.trim(),
+      },
+      currentActor
+    );
+    setIsSubmitting(false);
+    if (!approval) {
+      toast({
+        title: 'Waiver not requested',
+        description: 'The waiver request could not be recorded, so the exception stays in review.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    onWaiverRequested(approval);
+    setComment('');
+    setReasonCode('');
+    toast({ title: 'Waiver submitted for approval', description: 'Another user must approve it in the approvals queue.' });
+  };
+
+  // Reopening needs a comment so the history says why the exception came back.
+  const actionBlocked = !canPrepare || isSubmitting || (action?.to === 'Open' && !comment.trim());
+  const closeBlocked = !reasonCode || !comment.trim() || isSubmitting;
+
+  return (
+    <div className="space-y-3">
+      {waiverPending || exception.status === 'Waived' ? <WaiverSummary approval={waiver} /> : null}
+      {exception.status === 'Resolved' ? <p>This exception is resolved.</p> : null}
+
+      {!waiverPending && (
+        <>
+          <Input
+            aria-label="Assignee"
+            value={assignee}
+            onChange={(event) => setAssignee(event.target.value)}
+            placeholder="Assignee"
+            className="rounded-xl"
+            disabled={!canPrepare}
+          />
+          {exception.status === 'In Review' && (
+            <Select
+              value={reasonCode}
+              onValueChange={(value) => setReasonCode(value as ResolutionReasonCode)}
+              disabled={!canPrepare}
+            >
+              <SelectTrigger aria-label="Reason code" className="rounded-xl">
+                <SelectValue placeholder="Reason code" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(RESOLUTION_REASON_CODE_LABELS).map(([code, label]) => (
+                  <SelectItem key={code} value={code}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Textarea
+            aria-label="Workflow comment"
+            value={comment}
+            onChange={(event) => setComment(event.target.value)}
+            placeholder={
+              exception.status === 'In Review'
+                ? 'How was this resolved, or why is it accepted without a fix?'
+                : 'Comment for the status history'
+            }
+            rows={2}
+            disabled={!canPrepare}
+          />
+          <div className="flex flex-wrap gap-2">
+            {action && (
+              <Button
+                variant="outline"
+                className="rounded-full"
+                onClick={() => moveTo(action.to)}
+                disabled={actionBlocked}
+                title={canPrepare ? undefined : prepareBlockedReason}
+              >
+                {action.label}
+              </Button>
+            )}
+            {exception.status === 'In Review' && (
+              <>
+                <Button
+                  className="rounded-full"
+                  onClick={() => moveTo('Resolved')}
+                  disabled={!canResolve || closeBlocked}
+                  title={canResolve ? undefined : lockedReason ?? requiredRoleMessage(transitionPermission('Resolved'))}
+                >
+                  Resolve
+                </Button>
+                <Button
+                  variant="outline"
+                  className="rounded-full"
+                  onClick={requestWaiver}
+                  disabled={!canPrepare || closeBlocked}
+                  title={canPrepare ? undefined : prepareBlockedReason}
+                >
+                  {isSubmitting ? 'Submitting...' : 'Request waiver'}
+                </Button>
+              </>
+            )}
+          </div>
+        </>
+      )}
+
+      <ExceptionHistoryList history={history} />
+    </div>
+  );
+}
+
+function ExceptionHistoryList({ history }: { history: ExceptionStatusTransition[] }) {
+  if (history.length === 0) {
+    return <p className="text-xs">No status changes recorded yet.</p>;
+  }
+  return (
+    <ol className="space-y-2 border-t border-border/60 pt-3" aria-label="Status history">
+      {history.map((entry) => (
+        <li key={entry.id} className="text-xs">
+          <p className="font-medium text-foreground">
+            {entry.fromStatus === entry.toStatus ? `Reassigned · ${entry.toStatus}` : `${entry.fromStatus} → ${entry.toStatus}`}
+            {entry.reasonCode ? ` · ${RESOLUTION_REASON_CODE_LABELS[entry.reasonCode]}` : ''}
+          </p>
+          <p>
+            {entry.actor.name} · {format(new Date(entry.createdAt), 'dd MMM yyyy HH:mm')}
+            {entry.assignee ? ` · assigned to ${entry.assignee}` : ''}
+          </p>
+          {entry.comment && <p className="italic">{entry.comment}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,12 +1,15 @@
 ﻿import { useParams, useNavigate } from 'react-router-dom';
 import { useState, useEffect, useCallback } from 'react';
-import { ArrowLeft, FileText, User, AlertTriangle, CheckCircle, Clock, Briefcase, History } from 'lucide-react';
+import { ArrowLeft, FileText, User, AlertTriangle, CheckCircle, Clock, Briefcase, History, FileCode2, Archive } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useCompliance } from '@/context/ComplianceContext';
 import { SeverityBadge } from '@/components/SeverityBadge';
 import { fetchLifecycleEvents, fetchCaseByInvoice } from '@/lib/api/casesApi';
 import { InvoiceLifecycleEvent, Case, InvoiceStatus } from '@/types/cases';
 import { cn } from '@/lib/utils';
+import { buildUblArchive, buildUblFileName, serializeInvoiceToUbl } from '@/lib/ublSerializer';
+import { downloadBlob } from '@/lib/evidence/evidenceExporter';
+import { useToast } from '@/hooks/use-toast';
 
 const STATUS_COLORS: Record<InvoiceStatus, string> = {
   'Received': 'bg-gray-500',
@@ -27,6 +30,8 @@ export default function InvoiceDetailPage() {
   const { isChecksRun, getInvoiceDetails, headers } = useCompliance();
   const [lifecycleEvents, setLifecycleEvents] = useState<InvoiceLifecycleEvent[]>([]);
   const [linkedCase, setLinkedCase] = useState<Case | null>(null);
+  const [isExportingUbl, setIsExportingUbl] = useState(false);
+  const { toast } = useToast();
 
   useEffect(() => {
     if (!isChecksRun || !invoiceId) {
@@ -66,6 +71,27 @@ export default function InvoiceDetailPage() {
     );
   }
 
+  const handleDownloadUbl = () => {
+    const xml = serializeInvoiceToUbl({ header, lines, buyer });
+    downloadBlob(new Blob([xml], { type: 'application/xml' }), buildUblFileName(header));
+  };
+
+  const handleDownloadUblArchive = async () => {
+    setIsExportingUbl(true);
+    try {
+      const invoices = headers.map((h) => {
+        const details = getInvoiceDetails(h.invoice_id);
+        return { header: h, lines: details.lines, buyer: details.buyer };
+      });
+      downloadBlob(await buildUblArchive(invoices), 'pint-ae-ubl-invoices.zip');
+      toast({ title: 'UBL Export Ready', description: `${invoices.length} invoice XML files zipped.` });
+    } catch (err) {
+      toast({ title: 'Export Failed', description: String(err), variant: 'destructive' });
+    } finally {
+      setIsExportingUbl(false);
+    }
+  };
+
   const currentStatus = lifecycleEvents.length > 0 
     ? lifecycleEvents[lifecycleEvents.length - 1].status 
     : 'Received';
@@ -95,6 +121,22 @@ export default function InvoiceDetailPage() {
           </div>
           
           <div className="flex items-center gap-3">
+            <Button variant="outline" size="sm" onClick={handleDownloadUbl} className="gap-2">
+              <FileCode2 className="w-4 h-4" />
+              UBL XML
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDownloadUblArchive}
+              disabled={isExportingUbl}
+              className="gap-2"
+              title="Convert every loaded invoice to PINT-AE UBL"
+            >
+              <Archive className="w-4 h-4" />
+              All as ZIP
+            </Button>
+
             {/* Current Status Badge */}
             <div className={cn(
               'px-3 py-1 rounded-full text-white text-sm font-medium',
@@ -288,6 +330,11 @@ export default function InvoiceDetailPage() {
                       {exception.lineNumber && (
                         <p className="text-xs text-muted-foreground mt-1">Line #{exception.lineNumber}</p>
                       )}
+                      {exception.sourceLocator && (
+                        <p className="text-xs text-muted-foreground mt-1 font-mono break-all">
+                          {exception.sourceFileName ? `${exception.sourceFileName} ` : ''}{exception.sourceLocator}
+                        </p>
+                      )}
                     </div>
                     {exception.expectedValue && (
                       <div className="text-right text-sm">
@@ -1,6 +1,6 @@
 ﻿import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate, useSearchParams, Link } from 'react-router-dom';
-import { ArrowLeft, ArrowRight, Check, Plus, FileText, Search, Filter, Eye, Copy, Edit, Archive, MoreHorizontal, Shield, Clock } from 'lucide-react';
+import { ArrowLeft, ArrowRight, Check, Plus, FileText, Search, Filter, Eye, Copy, Edit, Archive, MoreHorizontal, Shield, Clock, History } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,6 +14,7 @@ import { UploadStep } from '@/components/mapping/UploadStep';
 import { MappingStep } from '@/components/mapping/MappingStep';
 import { AnalysisStep } from '@/components/mapping/AnalysisStep';
 import { SaveStep } from '@/components/mapping/SaveStep';
+import { TemplateVersionHistoryDialog } from '@/components/mapping/TemplateVersionHistoryDialog';
 import { 
   ERPPreviewData, 
   FieldMapping, 
@@ -52,6 +53,7 @@ export default function MappingPage() {
   const [templateSearch, setTemplateSearch] = useState('');
   const [erpTypeFilter, setErpTypeFilter] = useState<string>('all');
   const [docTypeFilter, setDocTypeFilter] = useState<string>('all');
+  const [historyTemplate, setHistoryTemplate] = useState<MappingTemplate | null>(null);
   
   // Wizard state
   const [currentStep, setCurrentStep] = useState<MappingWizardStep>('upload');
@@ -411,6 +413,10 @@ export default function MappingPage() {
                                     <Edit className="h-4 w-4 mr-2" />
                                     Edit
                                   </DropdownMenuItem>
+                                  <DropdownMenuItem onClick={() => setHistoryTemplate(template)}>
+                                    <History className="h-4 w-4 mr-2" />
+                                    Version History
+                                  </DropdownMenuItem>
                                   <DropdownMenuItem 
                                     onClick={() => template.id && handleArchiveTemplate(template.id)}
                                     className="text-destructive"
@@ -429,6 +435,12 @@ export default function MappingPage() {
                 </div>
               </CardContent>
             </Card>
+            <TemplateVersionHistoryDialog
+              template={historyTemplate}
+              direction={direction}
+              onOpenChange={(open) => !open && setHistoryTemplate(null)}
+              onRolledBack={loadTemplates}
+            />
           </TabsContent>
 
           {/* Create New Tab (Wizard) */}
@@ -503,6 +515,7 @@ export default function MappingPage() {
                   onMappingsChange={setMappings}
                   onDatasetTypeChange={handleDatasetTypeChange}
                   focusedField={focusedField}
+                  templates={templates}
                 />
                 <div className="hidden xl:block">
                   <div className="sticky top-8">
@@ -7,6 +7,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { useCompliance } from '@/context/ComplianceContext';
 import { SeverityBadge } from '@/components/SeverityBadge';
 import { StatsCard } from '@/components/StatsCard';
@@ -23,6 +25,7 @@ import { UAE_UC1_CHECK_PACK } from '@/lib/checks/uaeUC1CheckPack';
 import { getSupabaseEnvStatus, isLocalDevFallbackEnabled, shouldUseLocalDevFallback } from '@/lib/api/supabaseEnv';
 import { supabase } from '@/integrations/supabase/client';
 import { LastRunContextBanner } from '@/components/run/LastRunContextBanner';
+import { RunProgressPanel } from '@/components/run/RunProgressPanel';
 import { FEATURE_FLAGS } from '@/config/features';
 import { PARSER_KNOWN_COLUMNS } from '@/lib/registry/drRegistry';
 import { defaultMoFReadinessRunner } from '@/engine/runners/mof';
@@ -74,7 +77,9 @@ export default function RunChecksPage() {
     isDataLoaded, 
     isChecksRun, 
     isRunning, 
+    runProgress,
     runChecks,
+    cancelRunChecks,
     exceptions,
     lastChecksRunAt,
     lastChecksRunDatasetType,
@@ -86,6 +91,7 @@ export default function RunChecksPage() {
   const [diagnostics, setDiagnostics] = useState<ChecksDiagnostics | null>(null);
   const [isLoadingChecks, setIsLoadingChecks] = useState(true);
   const [isSyncingChecks, setIsSyncingChecks] = useState(true);
+  const [incrementalRun, setIncrementalRun] = useState(true);
   const [isSeeding, setIsSeeding] = useState(false);
   const [lastSeedResult, setLastSeedResult] = useState<string | null>(null);
   const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
@@ -438,6 +444,7 @@ export default function RunChecksPage() {
       await runChecks({
         mappingProfileId: selectedTemplate?.id,
         mappingVersion: selectedTemplate?.version,
+        incremental: incrementalRun,
       });
       navigate('/dashboard');
     } catch {
@@ -937,6 +944,12 @@ export default function RunChecksPage() {
           </Alert>
         )}
 
+        {isRunning && (
+          <div className="mb-6">
+            <RunProgressPanel progress={runProgress ?? null} onCancel={cancelRunChecks} />
+          </div>
+        )}
+
         {/* Action Buttons */}
         <div className="flex items-center justify-center gap-4">
           {isChecksRun ? (
@@ -981,6 +994,20 @@ export default function RunChecksPage() {
           )}
         </div>
 
+        {isChecksRun && (
+          <div className="mt-4 flex items-center justify-center gap-2">
+            <Switch
+              id="incremental-run"
+              checked={incrementalRun}
+              onCheckedChange={setIncrementalRun}
+              disabled={isRunning}
+            />
+            <Label htmlFor="incremental-run" className="text-sm text-muted-foreground">
+              Re-check only changed invoices
+            </Label>
+          </div>
+        )}
+
         {isChecksRun && (
           <div className="mt-6 text-center animate-fade-in">
             <p className="text-muted-foreground">
@@ -1,20 +1,45 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Link } from "react-router-dom";
-import { FileClock, RefreshCcw, Trash2, Upload } from "lucide-react";
+import { FileClock, RefreshCcw, Search, Upload } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { useCompliance } from "@/context/ComplianceContext";
-import {
-  clearUploadAuditLogs,
-  deleteUploadAuditLog,
-  getUploadAuditLogs,
-  type UploadAuditLogEntry,
-} from "@/lib/uploadAudit";
+import { fetchUploadAudits } from "@/lib/api/uploadAuditApi";
+import type { UploadAuditFilters, UploadAuditLogEntry } from "@/lib/uploadAudit";
+
+const SEARCH_DEBOUNCE_MS = 300;
 
 export default function UploadAuditPage() {
   const { isDataLoaded, headers, buyers, lines, clearData } = useCompliance();
-  const [logs, setLogs] = useState<UploadAuditLogEntry[]>(() => getUploadAuditLogs());
+  const [logs, setLogs] = useState<UploadAuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filters, setFilters] = useState<UploadAuditFilters>({ search: "", from: "", to: "" });
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+
+  // The search runs server-side, so wait for typing to pause before querying.
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(filters.search ?? ""), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [filters.search]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchUploadAudits({ search: debouncedSearch, from: filters.from, to: filters.to }).then((entries) => {
+      if (cancelled) return;
+      setLogs(entries);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedSearch, filters.from, filters.to]);
+
+  const updateFilter = (key: keyof UploadAuditFilters, value: string) =>
+    setFilters((current) => ({ ...current, [key]: value }));
+  const hasFilters = Boolean(filters.search || filters.from || filters.to);
 
   const totals = useMemo(() => {
     const totalRows = logs.reduce(
@@ -30,20 +55,6 @@ export default function UploadAuditPage() {
     };
   }, [logs]);
 
-  const handleDeleteOne = (id: string) => {
-    const ok = window.confirm("Delete this upload audit record?");
-    if (!ok) return;
-    deleteUploadAuditLog(id);
-    setLogs(getUploadAuditLogs());
-  };
-
-  const handleClearAllLogs = () => {
-    const ok = window.confirm("Delete all upload audit records?");
-    if (!ok) return;
-    clearUploadAuditLogs();
-    setLogs([]);
-  };
-
   const handleClearCurrentData = () => {
     const ok = window.confirm("Clear currently loaded buyers/headers/lines from the app state?");
     if (!ok) return;
@@ -97,25 +108,65 @@ export default function UploadAuditPage() {
                 <RefreshCcw className="h-3.5 w-3.5" />
                 Clear Active Data
               </Button>
-              <Button
-                type="button"
-                variant="outline"
-                size="sm"
-                className="text-xs gap-1"
-                onClick={handleClearAllLogs}
-                disabled={logs.length === 0}
-              >
-                <Trash2 className="h-3.5 w-3.5" />
-                Clear Audit Logs
-              </Button>
             </div>
           </CardContent>
         </Card>
 
-        {logs.length === 0 ? (
+        <Card className="border mb-6">
+          <CardContent className="p-4 grid grid-cols-1 md:grid-cols-[1fr_auto_auto_auto] gap-3 items-end">
+            <label className="space-y-1 text-xs text-muted-foreground">
+              Search
+              <div className="relative">
+                <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+                <Input
+                  value={filters.search}
+                  onChange={(event) => updateFilter("search", event.target.value)}
+                  placeholder="File name, SHA-256, session or user"
+                  className="pl-8 h-9 text-xs"
+                />
+              </div>
+            </label>
+            <label className="space-y-1 text-xs text-muted-foreground">
+              From
+              <Input
+                type="date"
+                aria-label="From date"
+                value={filters.from}
+                onChange={(event) => updateFilter("from", event.target.value)}
+                className="h-9 text-xs"
+              />
+            </label>
+            <label className="space-y-1 text-xs text-muted-foreground">
+              To
+              <Input
+                type="date"
+                aria-label="To date"
+                value={filters.to}
+                onChange={(event) => updateFilter("to", event.target.value)}
+                className="h-9 text-xs"
+              />
+            </label>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="text-xs"
+              onClick={() => setFilters({ search: "", from: "", to: "" })}
+              disabled={!hasFilters}
+            >
+              Reset
+            </Button>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Loading upload records...</p>
+        ) : logs.length === 0 ? (
           <Card className="border">
             <CardContent className="p-8 text-center">
-              <p className="text-sm text-muted-foreground mb-3">No upload records available yet.</p>
+              <p className="text-sm text-muted-foreground mb-3">
+                {hasFilters ? "No upload records match these filters." : "No upload records available yet."}
+              </p>
               <Button asChild size="sm">
                 <Link to="/upload" className="gap-2">
                   <Upload className="h-4 w-4" />
@@ -135,18 +186,13 @@ export default function UploadAuditPage() {
                       <p className="text-sm font-semibold text-foreground">{formatDateTime(log.createdAt)}</p>
                       <p className="text-xs text-muted-foreground mt-1">
                         Dataset: {log.datasetType === 'AP' ? 'AP (Inbound)' : 'AR (Outbound)'}
+                        {log.sourceFormat === 'ubl' ? ' | UBL XML' : ''}
+                        {log.uploadedBy ? ` | by ${log.uploadedBy}` : ''}
                       </p>
                     </div>
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      className="text-xs gap-1"
-                      onClick={() => handleDeleteOne(log.id)}
-                    >
-                      <Trash2 className="h-3.5 w-3.5" />
-                      Delete
-                    </Button>
+                    {log.uploadSessionId && (
+                      <p className="text-[11px] font-mono text-muted-foreground">{log.uploadSessionId}</p>
+                    )}
                   </div>
 
                   <div className="grid grid-cols-3 gap-2">
@@ -176,10 +222,52 @@ export default function UploadAuditPage() {
                             Required columns present
                           </Badge>
                         )}
+                        {(dataset.rejectedRowCount ?? 0) > 0 && (
+                          <div className="mt-2 space-y-0.5">
+                            <p className="text-[11px] font-medium text-destructive">
+                              {dataset.rejectedRowCount} rejected row{dataset.rejectedRowCount === 1 ? '' : 's'}
+                            </p>
+                            {dataset.rejectedRows?.slice(0, 3).map((row) => (
+                              <p key={row.line} className="text-[11px] text-muted-foreground">
+                                Line {row.line}: {row.reason}
+                              </p>
+                            ))}
+                          </div>
+                        )}
+                        {(dataset.rejectedFileCount ?? 0) > 0 && (
+                          <div className="mt-2 space-y-0.5">
+                            <p className="text-[11px] font-medium text-destructive">
+                              {dataset.rejectedFileCount} rejected file{dataset.rejectedFileCount === 1 ? '' : 's'}
+                            </p>
+                            {dataset.rejectedFiles?.slice(0, 3).map((file, index) => (
+                              <p key={`${file.fileName}-${index}`} className="text-[11px] text-muted-foreground truncate">
+                                {file.fileName}: {file.reason}
+                              </p>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     ))}
                   </div>
 
+                  {(log.files?.length ?? 0) > 0 && (
+                    <div className="rounded-md border bg-muted/20 p-2.5">
+                      <p className="text-[11px] uppercase tracking-wide text-muted-foreground mb-2">
+                        File Fingerprints (SHA-256)
+                      </p>
+                      <div className="space-y-1">
+                        {log.files!.map((file) => (
+                          <div key={`${log.id}-${file.fileName}`} className="flex items-center justify-between gap-3 text-[11px]">
+                            <span className="text-foreground truncate">{file.fileName}</span>
+                            <span className="font-mono text-muted-foreground truncate" title={file.sha256 ?? undefined}>
+                              {file.sha256 ?? 'unavailable'}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {log.relationalChecks.length > 0 && (
                     <div className="rounded-md border bg-muted/20 p-2.5">
                       <p className="text-[11px] uppercase tracking-wide text-muted-foreground mb-2">
@@ -197,6 +285,16 @@ export default function UploadAuditPage() {
                       </div>
                     </div>
                   )}
+
+                  {(log.linkedRuns?.length ?? 0) > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {log.linkedRuns!.map((run) => (
+                        <Badge key={run.id} variant="outline" className="text-[10px]">
+                          Check run {formatDateTime(run.runDate)}: {run.passRate.toFixed(0)}% pass, {run.totalExceptions} exceptions
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
                 </CardContent>
               </Card>
             ))}
@@ -1,19 +1,46 @@
-﻿import { useState, useEffect, useCallback } from 'react';
+﻿import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowRight, FileSpreadsheet, AlertCircle, CheckCircle2, Link2, ArrowRightCircle } from 'lucide-react';
+import { ArrowRight, FileSpreadsheet, AlertCircle, AlertTriangle, CheckCircle2, Link2, ArrowRightCircle, Wand2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { useCompliance } from '@/context/ComplianceContext';
-import { parseBuyersFile, parseHeadersFile, parseLinesFile, parseCSV } from '@/lib/csvParser';
+import { useWorkspace } from '@/context/WorkspaceContext';
+import { parseBuyersFile, parseHeadersFile, parseLinesFile } from '@/lib/csvParser';
+import { parseCSVFile } from '@/lib/csvStream';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
-import { FileDropZone, FileSummaryCard, analyzeFile, FileStats } from '@/components/upload/FileAnalysis';
+import { FileDropZone, FileSummaryCard, analyzeFile, analyzeWorkbookSheet, applyTemplateColumns, FileStats } from '@/components/upload/FileAnalysis';
 import { SampleScenario } from '@/lib/sampleData';
-import { addUploadAuditLog } from '@/lib/uploadAudit';
+import {
+  createUploadSessionId,
+  fingerprintFiles,
+  MAX_AUDITED_REJECTED_FILES,
+  MAX_AUDITED_REJECTED_ROWS,
+  UploadAuditDatasetType,
+} from '@/lib/uploadAudit';
+import { saveUploadAudit } from '@/lib/api/uploadAuditApi';
+import { parseUblFiles, UblIngestionResult, UblSourceRecord } from '@/lib/ublParser';
+import { UblDropZone, UblSummaryCard } from '@/components/upload/UblUploadPanel';
+import { assignWorkbookSheets, getWorkbookSheet, isSpreadsheetUploadFile, ParsedWorkbook, parseSpreadsheetFile } from '@/lib/xlsxParser';
 import { DatasetType } from '@/types/datasets';
+import { MappingTemplate } from '@/types/fieldMapping';
+import { fetchMappingTemplate } from '@/lib/api/mappingApi';
+import {
+  TemplateTransformError,
+  collectTemplateTransformErrors,
+  createTemplateRecordMapper,
+  getTemplateMappedFields,
+} from '@/lib/mapping/templateIngestion';
 
 type StepKey = 'upload' | 'validation' | 'mapping';
+type UploadFormat = 'csv' | 'ubl';
+type UploadSlot = 'buyers' | 'headers' | 'lines';
+
+const UPLOAD_SLOTS: UploadSlot[] = ['buyers', 'headers', 'lines'];
+const SLOT_LABELS: Record<UploadSlot, string> = { buyers: 'Buyers', headers: 'Headers', lines: 'Lines' };
 
 const STEPS: { key: StepKey; label: string }[] = [
   { key: 'upload', label: 'Upload' },
@@ -28,26 +55,64 @@ interface RelationalCheck {
   total: number;
 }
 
+// Transform errors listed per file before the rest are summarised as a count.
+const MAX_LISTED_TRANSFORM_ERRORS = 5;
+
 export default function UploadPage() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { setData, clearData } = useCompliance();
+  const { activeMappingProfileByDirection } = useWorkspace();
 
   const [files, setFiles] = useState<{ buyers: File | null; headers: File | null; lines: File | null }>({
     buyers: null, headers: null, lines: null,
   });
-  const [stats, setStats] = useState<{ buyers: FileStats | null; headers: FileStats | null; lines: FileStats | null }>({
+  const [rawStats, setRawStats] = useState<{ buyers: FileStats | null; headers: FileStats | null; lines: FileStats | null }>({
     buyers: null, headers: null, lines: null,
   });
   const [relationalChecks, setRelationalChecks] = useState<RelationalCheck[]>([]);
+  const [transformErrors, setTransformErrors] = useState<Record<UploadSlot, TemplateTransformError[]>>({
+    buyers: [], headers: [], lines: [],
+  });
   const [isLoading, setIsLoading] = useState(false);
-  const [parsedRows, setParsedRows] = useState<{
+  const [parsedFileRows, setParsedFileRows] = useState<{
     buyers: Record<string, string>[] | null;
     headers: Record<string, string>[] | null;
     lines: Record<string, string>[] | null;
   }>({ buyers: null, headers: null, lines: null });
   const [sampleScenario, setSampleScenario] = useState<SampleScenario>('positive');
   const [datasetType, setDatasetType] = useState<DatasetType>('AR');
+  const [uploadFormat, setUploadFormat] = useState<UploadFormat>('csv');
+  const [ublFiles, setUblFiles] = useState<File[]>([]);
+  const [ublResult, setUblResult] = useState<UblIngestionResult | null>(null);
+  const [mappingTemplate, setMappingTemplate] = useState<MappingTemplate | null>(null);
+  const [applyTemplateOnLoad, setApplyTemplateOnLoad] = useState(true);
+
+  const activeMappingProfile = activeMappingProfileByDirection[datasetType];
+  const appliedTemplate = applyTemplateOnLoad ? mappingTemplate : null;
+
+  useEffect(() => {
+    if (!activeMappingProfile) {
+      setMappingTemplate(null);
+      return;
+    }
+    let cancelled = false;
+    fetchMappingTemplate(activeMappingProfile.id).then((template) => {
+      if (!cancelled) setMappingTemplate(template);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeMappingProfile]);
+
+  // Required columns the active mapping template fills from differently named source columns.
+  const stats = useMemo(() => {
+    const resolve = (fileStats: FileStats | null) =>
+      fileStats && appliedTemplate
+        ? applyTemplateColumns(fileStats, getTemplateMappedFields(appliedTemplate, fileStats.columns))
+        : fileStats;
+    return { buyers: resolve(rawStats.buyers), headers: resolve(rawStats.headers), lines: resolve(rawStats.lines) };
+  }, [appliedTemplate, rawStats]);
 
   const allFilesSelected = files.buyers && files.headers && files.lines;
   const allStats = stats.buyers && stats.headers && stats.lines;
@@ -58,46 +123,123 @@ export default function UploadPage() {
 
   // Compute blocking reasons
   const blockingReasons: string[] = [];
-  if (!files.buyers) blockingReasons.push('Buyers file not uploaded');
-  if (!files.headers) blockingReasons.push('Invoice Headers file not uploaded');
-  if (!files.lines) blockingReasons.push('Invoice Lines file not uploaded');
-  if (stats.buyers?.requiredMissing.length) blockingReasons.push(`Buyers: missing columns (${stats.buyers.requiredMissing.join(', ')})`);
-  if (stats.headers?.requiredMissing.length) blockingReasons.push(`Headers: missing columns (${stats.headers.requiredMissing.join(', ')})`);
-  if (stats.lines?.requiredMissing.length) blockingReasons.push(`Lines: missing columns (${stats.lines.requiredMissing.join(', ')})`);
+  if (uploadFormat === 'ubl') {
+    if (ublFiles.length === 0) blockingReasons.push('UBL XML files not uploaded');
+    else if (ublResult && ublResult.documents.length === 0) blockingReasons.push('No valid UBL Invoice or CreditNote documents found');
+  } else {
+    if (!files.buyers) blockingReasons.push('Buyers file not uploaded');
+    if (!files.headers) blockingReasons.push('Invoice Headers file not uploaded');
+    if (!files.lines) blockingReasons.push('Invoice Lines file not uploaded');
+    if (stats.buyers?.requiredMissing.length) blockingReasons.push(`Buyers: missing columns (${stats.buyers.requiredMissing.join(', ')})`);
+    if (stats.headers?.requiredMissing.length) blockingReasons.push(`Headers: missing columns (${stats.headers.requiredMissing.join(', ')})`);
+    if (stats.lines?.requiredMissing.length) blockingReasons.push(`Lines: missing columns (${stats.lines.requiredMissing.join(', ')})`);
+  }
 
   const hasStructuralErrors = [stats.buyers, stats.headers, stats.lines].some(
     (s) => s && s.requiredMissing.length > 0
   );
-  const canProceed = allFilesSelected && !hasStructuralErrors;
+  const canProceed = uploadFormat === 'ubl'
+    ? Boolean(ublResult && ublResult.documents.length > 0)
+    : allFilesSelected && !hasStructuralErrors;
 
   // Determine current step
   let currentStep: StepKey = 'upload';
-  if (allFilesSelected && allStats) {
+  if (uploadFormat === 'ubl') {
+    if (ublResult) currentStep = canProceed ? 'mapping' : 'validation';
+  } else if (allFilesSelected && allStats) {
     currentStep = canProceed ? 'mapping' : 'validation';
   }
 
+  const applyWorkbookSheet = useCallback((type: UploadSlot, file: File, workbook: ParsedWorkbook, sheetName?: string) => {
+    const sheet = getWorkbookSheet(workbook, sheetName);
+    setFiles((prev) => ({ ...prev, [type]: file }));
+    setRawStats((prev) => ({ ...prev, [type]: analyzeWorkbookSheet(workbook, sheet, file, type, datasetType) }));
+    setParsedFileRows((prev) => ({ ...prev, [type]: sheet.records }));
+    return sheet.name;
+  }, [datasetType]);
+
   // Analyze file on upload
-  const handleFileSelect = useCallback(async (type: 'buyers' | 'headers' | 'lines', file: File | null) => {
+  const handleFileSelect = useCallback(async (type: UploadSlot, file: File | null) => {
     setFiles((prev) => ({ ...prev, [type]: file }));
     if (!file) {
-      setStats((prev) => ({ ...prev, [type]: null }));
-      setParsedRows((prev) => ({ ...prev, [type]: null }));
+      setRawStats((prev) => ({ ...prev, [type]: null }));
+      setParsedFileRows((prev) => ({ ...prev, [type]: null }));
       return;
     }
     try {
-      const text = await file.text();
-      const rows = parseCSV(text);
-      const analysis = analyzeFile(rows, file, type, text);
-      setStats((prev) => ({ ...prev, [type]: analysis }));
-      setParsedRows((prev) => ({ ...prev, [type]: rows }));
+      if (isSpreadsheetUploadFile(file.name)) {
+        const workbook = await parseSpreadsheetFile(file);
+        const assignment = assignWorkbookSheets(workbook);
+        const assignedSheets = new Set(Object.values(assignment));
+        const selectedSheet = applyWorkbookSheet(
+          type,
+          file,
+          workbook,
+          assignment[type] ?? workbook.sheets.find((sheet) => sheet.records.length > 0 && !assignedSheets.has(sheet.name))?.name
+        );
+
+        // Recognised sheets for the other datasets fill their slots too, unless already chosen.
+        const filledSlots = UPLOAD_SLOTS.filter(
+          (slot) => slot !== type && !files[slot] && assignment[slot] && assignment[slot] !== selectedSheet
+        );
+        filledSlots.forEach((slot) => applyWorkbookSheet(slot, file, workbook, assignment[slot]));
+        if (filledSlots.length > 0) {
+          toast({
+            title: 'Workbook sheets detected',
+            description: filledSlots.map((slot) => `${SLOT_LABELS[slot]}: ${assignment[slot]}`).join(', '),
+          });
+        }
+        return;
+      }
+      const parsed = await parseCSVFile(file);
+      const rows = parsed.records;
+      const analysis = analyzeFile(rows, file, type, datasetType, undefined, parsed);
+      setRawStats((prev) => ({ ...prev, [type]: analysis }));
+      setParsedFileRows((prev) => ({ ...prev, [type]: rows }));
     } catch {
-      toast({ title: 'Error reading file', description: 'Could not parse the CSV file.', variant: 'destructive' });
+      toast({ title: 'Error reading file', description: 'Could not parse the CSV or Excel file.', variant: 'destructive' });
     }
-  }, [toast]);
+  }, [applyWorkbookSheet, datasetType, files, toast]);
+
+  const handleSheetChange = useCallback(async (type: UploadSlot, sheetName: string) => {
+    const file = files[type];
+    if (!file) return;
+    try {
+      applyWorkbookSheet(type, file, await parseSpreadsheetFile(file), sheetName);
+    } catch {
+      toast({ title: 'Error reading file', description: `Could not read sheet "${sheetName}".`, variant: 'destructive' });
+    }
+  }, [applyWorkbookSheet, files, toast]);
+
+  const handleUblFilesSelect = useCallback(async (selected: File[]) => {
+    setUblFiles(selected);
+    setUblResult(null);
+    if (selected.length === 0) return;
+    try {
+      setUblResult(await parseUblFiles(selected, { direction: datasetType }));
+    } catch {
+      toast({ title: 'Error reading file', description: 'Could not parse the UBL XML files.', variant: 'destructive' });
+    }
+  }, [datasetType, toast]);
 
   // Relational integrity checks
   useEffect(() => {
     const checks: RelationalCheck[] = [];
+    const errors: Record<UploadSlot, TemplateTransformError[]> = { buyers: [], headers: [], lines: [] };
+    const canonicalRows = (dataset: UploadSlot) => {
+      const rows = parsedFileRows[dataset];
+      if (!rows || !appliedTemplate) return rows;
+      const mapRecord = createTemplateRecordMapper(appliedTemplate, Object.keys(rows[0] ?? {}));
+      const mapped = rows.map((row) => mapRecord(row));
+      errors[dataset] = collectTemplateTransformErrors(mapped, rows);
+      return mapped.map((entry) => entry.record);
+    };
+    const parsedRows = {
+      buyers: canonicalRows('buyers'),
+      headers: canonicalRows('headers'),
+      lines: canonicalRows('lines'),
+    };
+    setTransformErrors(errors);
     if (parsedRows.headers && parsedRows.buyers) {
       const buyerIds = new Set(parsedRows.buyers.map((r) => r.buyer_id));
       const headerBuyerIds = parsedRows.headers.map((r) => r.buyer_id).filter(Boolean);
@@ -123,53 +265,108 @@ export default function UploadPage() {
       });
     }
     setRelationalChecks(checks);
-  }, [parsedRows]);
+  }, [appliedTemplate, parsedFileRows]);
+
+  // Only one toast shows at a time, so a failed upload audit is reported on the load toast itself.
+  const toastDataLoaded = (description: string, auditSaved: boolean) =>
+    toast(
+      auditSaved
+        ? { title: 'Data loaded successfully', description }
+        : {
+            title: 'Data loaded, but the upload audit was not saved',
+            description: `${description}. This upload is missing from the Upload Log; re-upload the files to record it.`,
+            variant: 'destructive',
+          }
+    );
+
+  const handleLoadUblData = async () => {
+    // Re-parse so the counterparty follows the AR/AP selection made after the files were dropped.
+    const uploadSessionId = createUploadSessionId();
+    const result = await parseUblFiles(ublFiles, { direction: datasetType, uploadSessionId });
+    const { buyers, headers, lines, ublDocuments } = result;
+    setData({ buyers, headers, lines, ublDocuments }, { direction: datasetType, uploadSessionId });
+
+    const fileName = ublFiles.map((file) => file.name).join(', ');
+    const fileSize = ublFiles.reduce((sum, file) => sum + file.size, 0);
+    const auditDataset = (dataset: UploadAuditDatasetType, rowCount: number, records: UblSourceRecord[]) => ({
+      dataset,
+      fileName,
+      fileSize,
+      rowCount,
+      columnCount: new Set(records.flatMap((record) => Object.keys(record.values))).size,
+      requiredMissing: [],
+      nullWarnings: [],
+    });
+    const audit = await saveUploadAudit({
+      uploadSessionId,
+      datasetType,
+      sourceFormat: 'ubl',
+      files: await fingerprintFiles(ublFiles),
+      buyersCount: buyers.length,
+      headersCount: headers.length,
+      linesCount: lines.length,
+      datasets: [
+        auditDataset('buyers', buyers.length, result.documents.map((document) => document.records.buyer)),
+        // A rejected file yields no document, so it is recorded against the headers.
+        {
+          ...auditDataset('headers', headers.length, result.documents.map((document) => document.records.header)),
+          rejectedFileCount: result.rejectedFiles.length,
+          rejectedFiles: result.rejectedFiles.slice(0, MAX_AUDITED_REJECTED_FILES),
+        },
+        auditDataset('lines', lines.length, result.documents.flatMap((document) => document.records.lines)),
+      ],
+      relationalChecks: [],
+    });
+
+    toastDataLoaded(
+      `${datasetType === 'AR' ? 'AR' : 'AP'}: ${headers.length} UBL documents, ${buyers.length} parties, ${lines.length} line items`,
+      Boolean(audit)
+    );
+    navigate('/run');
+  };
+
+  const csvAuditDataset = (dataset: UploadAuditDatasetType, fileStats: FileStats) => ({
+    dataset,
+    fileName: fileStats.sheetName ? `${fileStats.fileName} [${fileStats.sheetName}]` : fileStats.fileName,
+    fileSize: fileStats.fileSize,
+    rowCount: fileStats.rowCount,
+    columnCount: fileStats.columnCount,
+    requiredMissing: fileStats.requiredMissing,
+    nullWarnings: fileStats.nullWarnings,
+    rejectedRowCount: fileStats.rejectedRows.length,
+    rejectedRows: fileStats.rejectedRows.slice(0, MAX_AUDITED_REJECTED_ROWS),
+  });
 
   const handleLoadData = async () => {
     if (!canProceed) return;
     setIsLoading(true);
     try {
+      if (uploadFormat === 'ubl') {
+        await handleLoadUblData();
+        return;
+      }
       const [buyers, headers, lines] = await Promise.all([
-        parseBuyersFile(files.buyers!),
-        parseHeadersFile(files.headers!),
-        parseLinesFile(files.lines!),
+        parseBuyersFile(files.buyers!, { sheetName: stats.buyers?.sheetName, mappingTemplate: appliedTemplate }),
+        parseHeadersFile(files.headers!, { sheetName: stats.headers?.sheetName, mappingTemplate: appliedTemplate }),
+        parseLinesFile(files.lines!, { sheetName: stats.lines?.sheetName, mappingTemplate: appliedTemplate }),
       ]);
-      setData({ buyers, headers, lines }, datasetType);
+      const uploadSessionId = createUploadSessionId();
+      setData({ buyers, headers, lines }, { direction: datasetType, uploadSessionId });
 
+      let auditSaved = true;
       if (stats.buyers && stats.headers && stats.lines) {
-        addUploadAuditLog({
+        const audit = await saveUploadAudit({
+          uploadSessionId,
           datasetType,
+          sourceFormat: 'csv',
+          files: await fingerprintFiles([files.buyers!, files.headers!, files.lines!]),
           buyersCount: buyers.length,
           headersCount: headers.length,
           linesCount: lines.length,
           datasets: [
-            {
-              dataset: 'buyers',
-              fileName: stats.buyers.fileName,
-              fileSize: stats.buyers.fileSize,
-              rowCount: stats.buyers.rowCount,
-              columnCount: stats.buyers.columnCount,
-              requiredMissing: stats.buyers.requiredMissing,
-              nullWarnings: stats.buyers.nullWarnings,
-            },
-            {
-              dataset: 'headers',
-              fileName: stats.headers.fileName,
-              fileSize: stats.headers.fileSize,
-              rowCount: stats.headers.rowCount,
-              columnCount: stats.headers.columnCount,
-              requiredMissing: stats.headers.requiredMissing,
-              nullWarnings: stats.headers.nullWarnings,
-            },
-            {
-              dataset: 'lines',
-              fileName: stats.lines.fileName,
-              fileSize: stats.lines.fileSize,
-              rowCount: stats.lines.rowCount,
-              columnCount: stats.lines.columnCount,
-              requiredMissing: stats.lines.requiredMissing,
-              nullWarnings: stats.lines.nullWarnings,
-            },
+            csvAuditDataset('buyers', stats.buyers),
+            csvAuditDataset('headers', stats.headers),
+            csvAuditDataset('lines', stats.lines),
           ],
           relationalChecks: relationalChecks.map((check) => ({
             label: check.label,
@@ -178,12 +375,15 @@ export default function UploadPage() {
             total: check.total,
           })),
         });
+        auditSaved = Boolean(audit);
       }
 
-      toast({
-        title: 'Data loaded successfully',
-        description: `${datasetType === 'AR' ? 'AR' : 'AP'}: ${buyers.length} buyers, ${headers.length} invoices, ${lines.length} line items`,
-      });
+      toastDataLoaded(
+        `${datasetType === 'AR' ? 'AR' : 'AP'}: ${buyers.length} buyers, ${headers.length} invoices, ${lines.length} line items${
+          appliedTemplate ? ` (mapped with ${appliedTemplate.templateName} v${appliedTemplate.version})` : ''
+        }`,
+        auditSaved
+      );
       navigate('/run');
     } catch {
       toast({ title: 'Error loading data', description: 'Please check your CSV files and try again.', variant: 'destructive' });
@@ -194,8 +394,10 @@ export default function UploadPage() {
 
   const handleClearAll = () => {
     setFiles({ buyers: null, headers: null, lines: null });
-    setStats({ buyers: null, headers: null, lines: null });
-    setParsedRows({ buyers: null, headers: null, lines: null });
+    setRawStats({ buyers: null, headers: null, lines: null });
+    setParsedFileRows({ buyers: null, headers: null, lines: null });
+    setUblFiles([]);
+    setUblResult(null);
     clearData();
   };
 
@@ -261,6 +463,32 @@ export default function UploadPage() {
                 </Button>
               </div>
             </div>
+            <div className="mb-4">
+              <p className="text-sm font-semibold text-foreground">Source Format</p>
+              <p className="text-xs text-muted-foreground mb-2">
+                Upload the three CSV datasets, or PINT-AE UBL XML invoices and credit notes emitted by your ERP.
+              </p>
+              <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Source format">
+                <Button
+                  size="sm"
+                  variant={uploadFormat === 'csv' ? 'default' : 'outline'}
+                  onClick={() => setUploadFormat('csv')}
+                  role="radio"
+                  aria-checked={uploadFormat === 'csv'}
+                >
+                  CSV Datasets
+                </Button>
+                <Button
+                  size="sm"
+                  variant={uploadFormat === 'ubl' ? 'default' : 'outline'}
+                  onClick={() => setUploadFormat('ubl')}
+                  role="radio"
+                  aria-checked={uploadFormat === 'ubl'}
+                >
+                  UBL XML (PINT-AE)
+                </Button>
+              </div>
+            </div>
             <div className="flex items-center justify-between gap-4 flex-wrap">
               <div>
                 <p className="text-sm font-semibold text-foreground">Sample Testing Mode</p>
@@ -287,40 +515,71 @@ export default function UploadPage() {
             </div>
           </div>
 
-          {/* File Cards */}
-          <div className="surface-glass rounded-2xl border border-white/70 shadow-sm p-6">
-            <div className="mb-4 rounded-lg border bg-muted/30 px-3 py-2 text-xs text-muted-foreground">
-              Upload progress: <span className="font-semibold text-foreground">{validFileCount}/3</span> files structurally valid
-              <span className="mx-1">|</span>
-              <span className="font-medium">{selectedFileCount}/3</span> files selected
-            </div>
-            <div className="grid gap-6">
-              {/* Buyers */}
-              {stats.buyers ? (
-                <FileSummaryCard stats={stats.buyers} type="buyers" onRemove={() => handleFileSelect('buyers', null)} />
+          {/* UBL Files */}
+          {uploadFormat === 'ubl' && (
+            <div className="surface-glass rounded-2xl border border-white/70 shadow-sm p-6">
+              {ublResult ? (
+                <UblSummaryCard files={ublFiles} result={ublResult} onRemove={() => handleUblFilesSelect([])} />
               ) : (
-                <FileDropZone label="Buyers File" description="buyer_id, buyer_name, buyer_trn, buyer_address, buyer_country" sampleType="buyers" sampleScenario={sampleScenario} onFileSelect={(f) => handleFileSelect('buyers', f)} />
+                <UblDropZone onFilesSelect={handleUblFilesSelect} />
               )}
+            </div>
+          )}
 
-              <div className="border-t" />
-
-              {/* Headers */}
-              {stats.headers ? (
-                <FileSummaryCard stats={stats.headers} type="headers" onRemove={() => handleFileSelect('headers', null)} />
-              ) : (
-                <FileDropZone label="Invoice Headers File" description="invoice_id, invoice_number, issue_date, seller_trn, buyer_id, currency, ... (technical fields like business_process/spec_id can be system-derived)" sampleType="headers" sampleScenario={sampleScenario} onFileSelect={(f) => handleFileSelect('headers', f)} />
+          {/* File Cards */}
+          {uploadFormat === 'csv' && (
+            <div className="surface-glass rounded-2xl border border-white/70 shadow-sm p-6">
+              <div className="mb-4 rounded-lg border bg-muted/30 px-3 py-2 text-xs text-muted-foreground">
+                Upload progress: <span className="font-semibold text-foreground">{validFileCount}/3</span> files structurally valid
+                <span className="mx-1">|</span>
+                <span className="font-medium">{selectedFileCount}/3</span> files selected
+              </div>
+              {mappingTemplate && (
+                <div className="mb-4 flex items-center justify-between gap-3 rounded-lg border border-primary/20 bg-primary/5 px-3 py-2">
+                  <p className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Wand2 className="h-3.5 w-3.5 shrink-0 text-primary" />
+                    <span>
+                      Mapping template{' '}
+                      <span className="font-semibold text-foreground">
+                        {mappingTemplate.templateName} v{mappingTemplate.version}
+                      </span>{' '}
+                      maps your ERP columns to PINT-AE fields when the data is loaded.
+                    </span>
+                  </p>
+                  <div className="flex items-center gap-2">
+                    <Switch id="apply-mapping-template" checked={applyTemplateOnLoad} onCheckedChange={setApplyTemplateOnLoad} />
+                    <Label htmlFor="apply-mapping-template" className="text-xs">Apply</Label>
+                  </div>
+                </div>
               )}
+              <div className="grid gap-6">
+                {/* Buyers */}
+                {stats.buyers ? (
+                  <FileSummaryCard stats={stats.buyers} type="buyers" onRemove={() => handleFileSelect('buyers', null)} onSheetChange={(sheetName) => handleSheetChange('buyers', sheetName)} />
+                ) : (
+                  <FileDropZone label="Buyers File" description="buyer_id, buyer_name, buyer_trn, buyer_address, buyer_country" sampleType="buyers" sampleScenario={sampleScenario} onFileSelect={(f) => handleFileSelect('buyers', f)} />
+                )}
 
-              <div className="border-t" />
+                <div className="border-t" />
 
-              {/* Lines */}
-              {stats.lines ? (
-                <FileSummaryCard stats={stats.lines} type="lines" onRemove={() => handleFileSelect('lines', null)} />
-              ) : (
-                <FileDropZone label="Invoice Lines File" description="line_id, invoice_id, line_number, quantity, unit_price, vat_rate, ..." sampleType="lines" sampleScenario={sampleScenario} onFileSelect={(f) => handleFileSelect('lines', f)} />
-              )}
+                {/* Headers */}
+                {stats.headers ? (
+                  <FileSummaryCard stats={stats.headers} type="headers" onRemove={() => handleFileSelect('headers', null)} onSheetChange={(sheetName) => handleSheetChange('headers', sheetName)} />
+                ) : (
+                  <FileDropZone label="Invoice Headers File" description="invoice_id, invoice_number, issue_date, seller_trn, buyer_id, currency, ... (technical fields like business_process/spec_id can be system-derived)" sampleType="headers" sampleScenario={sampleScenario} onFileSelect={(f) => handleFileSelect('headers', f)} />
+                )}
+
+                <div className="border-t" />
+
+                {/* Lines */}
+                {stats.lines ? (
+                  <FileSummaryCard stats={stats.lines} type="lines" onRemove={() => handleFileSelect('lines', null)} onSheetChange={(sheetName) => handleSheetChange('lines', sheetName)} />
+                ) : (
+                  <FileDropZone label="Invoice Lines File" description="line_id, invoice_id, line_number, quantity, unit_price, vat_rate, ..." sampleType="lines" sampleScenario={sampleScenario} onFileSelect={(f) => handleFileSelect('lines', f)} />
+                )}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Relational Integrity */}
           {relationalChecks.length > 0 && (
@@ -361,6 +620,41 @@ export default function UploadPage() {
             </div>
           )}
 
+          {UPLOAD_SLOTS.some((dataset) => transformErrors[dataset].length > 0) && (
+            <div className="surface-glass rounded-2xl border border-accent/30 shadow-sm p-5 space-y-3" role="alert">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-accent-foreground" />
+                <h3 className="text-sm font-semibold text-foreground">Mapping template transform errors</h3>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                These values could not be transformed and are loaded as they appear in the file. Fix the source data or the
+                template's transformations before running checks.
+              </p>
+              {UPLOAD_SLOTS.map((dataset) => {
+                const errors = transformErrors[dataset];
+                if (errors.length === 0) return null;
+                return (
+                  <div key={dataset} className="space-y-1">
+                    <p className="text-xs font-semibold text-foreground">
+                      {SLOT_LABELS[dataset]}: {errors.length} failed
+                    </p>
+                    <ul className="space-y-0.5 text-xs text-muted-foreground">
+                      {errors.slice(0, MAX_LISTED_TRANSFORM_ERRORS).map((error) => (
+                        <li key={`${error.row}-${error.field}`}>
+                          Row {error.row}, <code className="font-mono">{error.field}</code> from column "{error.sourceColumn}"
+                          {error.value ? ` ("${error.value}")` : ''}: {error.error}
+                        </li>
+                      ))}
+                      {errors.length > MAX_LISTED_TRANSFORM_ERRORS && (
+                        <li>and {errors.length - MAX_LISTED_TRANSFORM_ERRORS} more</li>
+                      )}
+                    </ul>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
           {/* Dynamic Status */}
           {blockingReasons.length > 0 && (
             <div className="flex items-start gap-2 text-sm bg-muted/50 rounded-lg p-4 border">
@@ -385,7 +679,7 @@ export default function UploadPage() {
 
           {/* Actions */}
           <div className="flex items-center justify-between">
-            <Button variant="outline" onClick={handleClearAll} disabled={!files.buyers && !files.headers && !files.lines}>
+            <Button variant="outline" onClick={handleClearAll} disabled={!files.buyers && !files.headers && !files.lines && ublFiles.length === 0}>
               Clear All
             </Button>
 
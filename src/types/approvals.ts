@@ -0,0 +1,51 @@
+import { ResolutionReasonCode } from './direction';
+import { WorkspaceActor } from './tenant';
+
+export const APPROVAL_KINDS = [
+  'exception.waive',
+  'check.enable',
+  'check.disable',
+  'check.severity',
+  'template.activate',
+] as const;
+
+export type ApprovalKind = (typeof APPROVAL_KINDS)[number];
+
+export type ApprovalStatus = 'pending' | 'approved' | 'rejected';
+
+export const APPROVAL_KIND_LABELS: Record<ApprovalKind, string> = {
+  'exception.waive': 'Waive exception',
+  'check.enable': 'Enable check',
+  'check.disable': 'Disable check',
+  'check.severity': 'Override severity',
+  'template.activate': 'Activate template',
+};
+
+// A change that only takes effect once a second person approves it (maker-checker).
+export interface ApprovalRequest {
+  id: string;
+  kind: ApprovalKind;
+  entityType: string;
+  entityId: string;
+  entityLabel: string;
+  // The change to apply on approval, e.g. { severity: 'Low' } for a severity override.
+  payload: Record<string, unknown>;
+  reasonCode: ResolutionReasonCode | null;
+  justification: string;
+  status: ApprovalStatus;
+  requestedBy: WorkspaceActor;
+  requestedAt: string;
+  decidedBy: WorkspaceActor | null;
+  decidedAt: string | null;
+  decisionComment: string | null;
+}
+
+export interface NewApprovalRequest {
+  kind: ApprovalKind;
+  entityType: string;
+  entityId: string;
+  entityLabel: string;
+  payload?: Record<string, unknown>;
+  reasonCode?: ResolutionReasonCode;
+  justification: string;
+}
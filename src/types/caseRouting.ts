@@ -0,0 +1,92 @@
+import { OwnerTeam } from './cases';
+import { Severity } from './compliance';
+
+/** How the findings matched by a rule are gathered into cases. */
+export type CaseGrouping = 'finding' | 'invoice' | 'check' | 'seller';
+
+export const CASE_GROUPINGS: CaseGrouping[] = ['finding', 'invoice', 'check', 'seller'];
+
+export const CASE_GROUPING_LABELS: Record<CaseGrouping, string> = {
+  finding: 'One case per finding',
+  invoice: 'One case per invoice',
+  check: 'One case per check and seller',
+  seller: 'One case per seller',
+};
+
+/** PINT-AE findings come from the UAE check pack; built-in ones from the core and organisation checks. */
+export type FindingSource = 'pint_ae' | 'built_in';
+
+export const FINDING_SOURCE_LABELS: Record<FindingSource, string> = {
+  pint_ae: 'PINT-AE',
+  built_in: 'Built-in',
+};
+
+export interface CaseRoutingRule {
+  id: string;
+  name: string;
+  // Lower runs first; a finding is routed by the first active rule it matches.
+  priority: number;
+  isActive: boolean;
+  // Empty lists and a null source match everything.
+  severities: Severity[];
+  checkIds: string[];
+  sellerTrns: string[];
+  source: FindingSource | null;
+  grouping: CaseGrouping;
+  // A group opens a case only once it holds this many findings.
+  minOccurrences: number;
+  // Null falls back to the finding's default owner and the severity SLA.
+  ownerTeam: OwnerTeam | null;
+  slaHours: number | null;
+  createdAt: string;
+}
+
+export type NewCaseRoutingRule = Omit<CaseRoutingRule, 'id' | 'createdAt'>;
+
+/** A finding of a run, reduced to what routing looks at. */
+export interface RoutableFinding {
+  exceptionRef: string;
+  fingerprint: string;
+  source: FindingSource;
+  checkId: string;
+  checkName: string;
+  severity: Severity;
+  invoiceId?: string;
+  invoiceNumber?: string;
+  sellerTrn?: string;
+  buyerId?: string;
+  ownerTeam: OwnerTeam;
+}
+
+/** An open case with what routing needs to deduplicate against it. */
+export interface OpenRoutedCase {
+  id: string;
+  routingKey: string | null;
+  fingerprints: string[];
+}
+
+export interface PlannedCase {
+  ruleId: string;
+  routingKey: string;
+  severity: Severity;
+  ownerTeam: OwnerTeam;
+  slaHours: number;
+  findings: RoutableFinding[];
+}
+
+export interface CaseRoutingPlan {
+  newCases: PlannedCase[];
+  // Findings that belong to a case that is still open.
+  existingCaseLinks: { caseId: string; findings: RoutableFinding[] }[];
+}
+
+export interface CaseExceptionLink {
+  id: string;
+  caseId: string;
+  runId: string | null;
+  fingerprint: string;
+  exceptionRef: string | null;
+  checkId: string | null;
+  invoiceId: string | null;
+  createdAt: string;
+}
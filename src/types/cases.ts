@@ -1,3 +1,5 @@
+import { EscalationLevel } from './notifications';
+
 export type InvoiceStatus = 
   | 'Received' 
   | 'Pre-Validated' 
@@ -57,6 +59,16 @@ export interface Case {
   updated_at: string;
   resolved_at?: string;
   is_sla_breached: boolean;
+  // Set while the case is Waiting; the SLA clock is paused from then.
+  sla_paused_at?: string | null;
+  // Working minutes spent Waiting in earlier pauses.
+  sla_paused_minutes?: number;
+  // Set on cases opened by a routing rule.
+  routing_rule_id?: string;
+  routing_key?: string;
+  // Highest escalation reached; levels only move up while the case is open.
+  escalation_level?: EscalationLevel;
+  escalated_at?: string | null;
 }
 
 export interface CaseNote {
@@ -1,6 +1,15 @@
 import { Direction, ExceptionWorkflowStatus, ResolutionReasonCode } from './direction';
 import { DatasetType } from './datasets';
 
+/** Where a field's value came from when a mapping template was applied at ingestion. */
+export interface FieldProvenance {
+  source_column: string;
+  /** Transformation types applied, in order. */
+  transformations: string[];
+  /** Set when the transformations failed and the raw column value was kept. */
+  error?: string;
+}
+
 export interface Buyer {
   buyer_id: string;
   buyer_name: string;
@@ -13,6 +22,11 @@ export interface Buyer {
   buyer_subdivision?: string;
   buyer_electronic_address?: string;
   source_row_number?: number;
+  // UBL XML ingestion: the document and element a record was read from, in place of a CSV row.
+  source_file_name?: string;
+  source_locator?: string;
+  source_field_locators?: Record<string, string>;
+  field_provenance?: Record<string, FieldProvenance>;
   upload_session_id?: string;
   upload_manifest_id?: string;
 }
@@ -76,6 +90,10 @@ export interface InvoiceHeader {
   spec_id?: string;
   business_process?: string;
   source_row_number?: number;
+  source_file_name?: string;
+  source_locator?: string;
+  source_field_locators?: Record<string, string>;
+  field_provenance?: Record<string, FieldProvenance>;
   upload_session_id?: string;
   upload_manifest_id?: string;
 }
@@ -101,12 +119,19 @@ export interface InvoiceLine {
   line_allowance_amount?: number;
   line_charge_amount?: number;
   source_row_number?: number;
+  source_file_name?: string;
+  source_locator?: string;
+  source_field_locators?: Record<string, string>;
+  field_provenance?: Record<string, FieldProvenance>;
   upload_session_id?: string;
   upload_manifest_id?: string;
 }
 
 export type Severity = 'Critical' | 'High' | 'Medium' | 'Low';
 
+/** Set on incremental runs: whether a result was re-checked or carried over from the previous run. */
+export type FindingProvenance = 'fresh' | 'carried_forward';
+
 export interface Exception {
   id: string;
   checkId: string;
@@ -132,6 +157,11 @@ export interface Exception {
   field?: string;
   expectedValue?: string | number;
   actualValue?: string | number;
+  sourceFileName?: string;
+  sourceLocator?: string;
+  provenance?: FindingProvenance;
+  // Stable across runs; see computeFindingFingerprint.
+  fingerprint?: string;
 }
 
 export interface CheckResult {
@@ -163,12 +193,24 @@ export interface DataContext {
   linesByInvoice: Map<string, InvoiceLine[]>;
 }
 
+export interface CheckExecutionOptions {
+  /** Called after each check finishes; throwing from it stops the remaining checks. */
+  onCheckComplete?: (checkId: string) => void;
+}
+
 export interface UploadedFiles {
   buyers: File | null;
   headers: File | null;
   lines: File | null;
 }
 
+/** An uploaded UBL document as received, kept so runs can validate it against the PINT-AE Schematron. */
+export interface UblSourceDocument {
+  fileName?: string;
+  invoiceId: string;
+  xml: string;
+}
+
 export interface ParsedData {
   buyers: Buyer[];
   headers: InvoiceHeader[];
@@ -176,6 +218,7 @@ export interface ParsedData {
   direction?: Direction;
   uploadSessionId?: string;
   uploadManifestId?: string;
+  ublDocuments?: UblSourceDocument[];
 }
 
 export interface DashboardStats {
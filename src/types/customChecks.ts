@@ -9,7 +9,15 @@ export type ValidationRuleType =
   | 'duplicate'
   | 'math'
   | 'regex'
-  | 'custom_formula';
+  | 'custom_formula'
+  | 'aggregate'
+  | 'join'
+  | 'conditional_existence';
+
+export type AggregateFunction = 'sum' | 'count' | 'avg' | 'min' | 'max';
+
+/** `invoice` aggregates each invoice's lines; `seller_month` aggregates invoices per seller TRN and issue month. */
+export type AggregateGrouping = 'invoice' | 'seller_month';
 
 export type SearchRuleType =
   | 'fuzzy_duplicate'
@@ -47,6 +55,20 @@ export interface CustomCheckParameters {
   
   // For custom formula
   formula?: string;
+
+  // For aggregate rule (operator and tolerance are shared with the math rule;
+  // right_expression is the per-invoice comparison, threshold the per-seller-month one)
+  aggregate_function?: AggregateFunction;
+  aggregate_field?: string;
+  group_by?: AggregateGrouping;
+  threshold?: number;
+
+  // For join rule: header field compared with the invoice buyer's field using operator = or !=
+  left_field?: string;
+  right_field?: string;
+
+  // For conditional existence rule: fields that must be present on records matching `condition`
+  required_fields?: string[];
   
   // Conditional filter
   condition?: string;
@@ -86,6 +108,7 @@ export interface CheckRun {
   low_count: number;
   pass_rate: number;
   results_summary?: CheckRunResultsSummary;
+  upload_session_id?: string | null;
 }
 
 export interface EntityScore {
@@ -21,3 +21,13 @@ export type ARResolutionReasonCode =
   | 'CORRECT_BUYER_DATA_AND_RESEND';
 
 export type ResolutionReasonCode = APResolutionReasonCode | ARResolutionReasonCode;
+
+export const RESOLUTION_REASON_CODE_LABELS: Record<ResolutionReasonCode, string> = {
+  REQUEST_VENDOR_CORRECTION: 'Request vendor correction',
+  DUPLICATE_REJECT: 'Reject as duplicate',
+  MARK_NON_RECOVERABLE: 'Mark VAT non-recoverable',
+  ACCEPT_WITH_VARIANCE: 'Accept with variance',
+  REISSUE_INVOICE: 'Reissue invoice',
+  CREDIT_NOTE_NEEDED: 'Credit note needed',
+  CORRECT_BUYER_DATA_AND_RESEND: 'Correct buyer data and resend',
+};
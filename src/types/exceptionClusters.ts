@@ -0,0 +1,52 @@
+import { Severity } from './compliance';
+
+/** Which party a cluster is scoped to: buyer-side fields cluster by buyer, everything else by seller. */
+export type ClusterPartyRole = 'seller' | 'buyer';
+
+/**
+ * populate_source: the value is missing at source; apply_value: every finding expects the same
+ * value; fix_format: the observed values share one wrong shape; review_rule: no common value to act on.
+ */
+export type ClusterFixKind = 'populate_source' | 'apply_value' | 'fix_format' | 'review_rule';
+
+export const CLUSTER_FIX_LABELS: Record<ClusterFixKind, string> = {
+  populate_source: 'Populate at source',
+  apply_value: 'Apply one value',
+  fix_format: 'Fix the format',
+  review_rule: 'Review the rule',
+};
+
+export interface ClusterFixEstimate {
+  kind: ClusterFixKind;
+  summary: string;
+  // Exceptions and invoices the single fix is expected to clear.
+  exceptionsCleared: number;
+  invoicesCleared: number;
+}
+
+/** Exceptions that look like one defect repeated across invoices. */
+export interface ExceptionCluster {
+  key: string;
+  checkId: string;
+  checkName: string;
+  severity: Severity;
+  field: string | null;
+  // Shape of the observed value, e.g. "9{14}" or "empty"; see observedValuePattern.
+  valuePattern: string;
+  partyRole: ClusterPartyRole;
+  partyId: string | null;
+  uploadManifestId: string | null;
+  sourceFileName: string | null;
+  exceptionIds: string[];
+  invoiceNumbers: string[];
+  sampleValues: string[];
+  fix: ClusterFixEstimate;
+}
+
+export interface ExceptionClusterSummary {
+  clusterCount: number;
+  exceptionCount: number;
+  // Exceptions covered by the largest `topCount` clusters.
+  topCount: number;
+  topCoverage: number;
+}
@@ -0,0 +1,52 @@
+import { Severity } from './compliance';
+import { WorkspaceActor } from './tenant';
+
+// Filters of the Exceptions Workspace queue; null means any value.
+export interface ExceptionViewFilters {
+  checkId: string | null;
+  severity: Severity | null;
+  status: string | null;
+  entity: string | null;
+  sellerTrn: string | null;
+  field: string | null;
+  drId: string | null;
+  scenario: string | null;
+}
+
+export type ExceptionViewFilterKey = keyof ExceptionViewFilters;
+
+export const EMPTY_EXCEPTION_VIEW_FILTERS: ExceptionViewFilters = {
+  checkId: null,
+  severity: null,
+  status: null,
+  entity: null,
+  sellerTrn: null,
+  field: null,
+  drId: null,
+  scenario: null,
+};
+
+export const EXCEPTION_VIEW_FILTER_LABELS: Record<ExceptionViewFilterKey, string> = {
+  checkId: 'Check',
+  severity: 'Severity',
+  status: 'Status',
+  entity: 'Entity',
+  sellerTrn: 'Seller TRN',
+  field: 'Field',
+  drId: 'DR',
+  scenario: 'Scenario',
+};
+
+/** A named set of queue filters. Only its owner sees it unless it is shared; pins are the owner's. */
+export interface SavedExceptionView {
+  id: string;
+  name: string;
+  filters: ExceptionViewFilters;
+  owner: WorkspaceActor;
+  isShared: boolean;
+  isPinned: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewSavedExceptionView = Pick<SavedExceptionView, 'name' | 'filters' | 'isShared' | 'isPinned'>;
@@ -0,0 +1,38 @@
+import { ExceptionWorkflowStatus, ResolutionReasonCode } from './direction';
+import { WorkspaceActor } from './tenant';
+
+// Current workflow state of a finding, shared by every run that reproduces it.
+export interface ExceptionWorkflowState {
+  fingerprint: string;
+  // Display id of the exception the state was last changed from.
+  exceptionRef: string | null;
+  status: ExceptionWorkflowStatus;
+  assignee: string | null;
+  reasonCode: ResolutionReasonCode | null;
+  updatedBy: WorkspaceActor;
+  updatedAt: string;
+}
+
+export interface ExceptionStatusTransition {
+  id: string;
+  fingerprint: string;
+  exceptionRef: string | null;
+  fromStatus: ExceptionWorkflowStatus;
+  toStatus: ExceptionWorkflowStatus;
+  comment: string | null;
+  assignee: string | null;
+  reasonCode: ResolutionReasonCode | null;
+  actor: WorkspaceActor;
+  createdAt: string;
+}
+
+export interface ExceptionTransitionRequest {
+  fingerprint: string;
+  exceptionRef: string;
+  // The status the caller last saw; the transition fails if it has moved on since.
+  fromStatus: ExceptionWorkflowStatus;
+  toStatus: ExceptionWorkflowStatus;
+  comment?: string;
+  assignee?: string | null;
+  reasonCode?: ResolutionReasonCode | null;
+}
@@ -28,7 +28,13 @@ export type TransformationType =
   | 'lookup'
   | 'combine'
   | 'split'
-  | 'regex_extract';
+  | 'regex_extract'
+  | 'arithmetic'
+  | 'sign_flip'
+  | 'conditional'
+  | 'default_value'
+  | 'currency_code'
+  | 'codelist_map';
 
 export interface Transformation {
   type: TransformationType;
@@ -100,10 +106,34 @@ export interface MappingTemplateListItem {
 }
 
 // Version diff
+export type MappingAttribute = 'erpColumn' | 'targetField' | 'transformations' | 'isConfirmed';
+
+export interface MappingFieldChange {
+  /** Target field of the newer mapping, or of the removed one. */
+  fieldId: string;
+  kind: 'added' | 'removed' | 'changed';
+  before?: FieldMapping;
+  after?: FieldMapping;
+  changedAttributes: MappingAttribute[];
+}
+
 export interface MappingDiff {
   added: string[];
   removed: string[];
   changed: string[];
+  changes: MappingFieldChange[];
+}
+
+// Rollback audit record
+export interface MappingTemplateRollback {
+  id: string;
+  templateName: string;
+  fromVersion: number;
+  toVersion: number;
+  restoredTemplateId: string;
+  performedBy: string;
+  reason: string;
+  performedAt: string;
 }
 
 // ERP Preview Data
@@ -124,6 +154,23 @@ export interface MappingSuggestion {
   confidence: number;
   reason: string;
   sampleValues: string[];
+  scoreBreakdown?: MappingScoreComponent[];
+}
+
+// Learned suggestions
+export type MappingScoreFactor = 'column_name' | 'value_pattern' | 'erp_type' | 'confirmations';
+
+export interface MappingScoreComponent {
+  factor: MappingScoreFactor;
+  weight: number;
+  score: number;
+  detail: string;
+}
+
+export interface TemplateSignatureMatch {
+  template: MappingTemplate;
+  similarity: number;
+  matchedColumns: string[];
 }
 
 // Coverage Analysis
@@ -0,0 +1,56 @@
+/** Escalation ladder of a case, lowest first. */
+export type EscalationLevel = 'none' | 'warning' | 'team_lead' | 'engagement_manager';
+
+export const ESCALATION_LEVELS: EscalationLevel[] = ['none', 'warning', 'team_lead', 'engagement_manager'];
+
+export const ESCALATION_LEVEL_LABELS: Record<EscalationLevel, string> = {
+  none: 'On track',
+  warning: 'SLA warning',
+  team_lead: 'Escalated to team lead',
+  engagement_manager: 'Escalated to engagement manager',
+};
+
+export type NotificationChannel = 'in_app' | 'email' | 'webhook';
+
+// 'sending' marks a notification claimed by a dispatcher that has not recorded the outcome yet.
+export type NotificationStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+export interface OutboxNotification {
+  id: string;
+  channel: NotificationChannel;
+  // Team or role name for in-app notifications, an address for email, a URL for webhooks.
+  recipient: string;
+  subject: string;
+  body: string;
+  caseId: string | null;
+  escalationLevel: EscalationLevel | null;
+  // One notification per key, so repeated escalation passes do not notify twice.
+  dedupeKey: string;
+  status: NotificationStatus;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+  sentAt: string | null;
+  // When the signed-in member read it; each member has their own read state.
+  readAt: string | null;
+}
+
+export type NewOutboxNotification = Pick<
+  OutboxNotification,
+  'channel' | 'recipient' | 'subject' | 'body' | 'caseId' | 'escalationLevel' | 'dedupeKey'
+>;
+
+/** Where escalations beyond the in-app inbox are delivered. Blank recipients are skipped. */
+export interface NotificationSettings {
+  teamLeadEmail: string;
+  engagementManagerEmail: string;
+  webhookUrl: string;
+  updatedAt: string | null;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  teamLeadEmail: '',
+  engagementManagerEmail: '',
+  webhookUrl: '',
+  updatedAt: null,
+};
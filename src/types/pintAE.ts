@@ -1,4 +1,4 @@
-import { Severity } from './compliance';
+import { FindingProvenance, Severity } from './compliance';
 import { DatasetType } from './datasets';
 
 // PINT-AE Check Scope
@@ -100,6 +100,8 @@ export interface PintAEException {
   sla_target_hours: number;
   case_status: ExceptionCaseStatus;
   case_id?: string;
+  provenance?: FindingProvenance;
+  fingerprint?: string;
 }
 
 // Run Summary
@@ -0,0 +1,37 @@
+import { Severity } from './compliance';
+
+/**
+ * new: first seen in this run; persisting: also in the previous run; resolved: in the previous
+ * run but not this one; regressed: back after at least one run without it.
+ */
+export type FindingLineageStatus = 'new' | 'persisting' | 'resolved' | 'regressed';
+
+export const FINDING_LINEAGE_STATUSES: FindingLineageStatus[] = ['new', 'persisting', 'resolved', 'regressed'];
+
+export const FINDING_LINEAGE_LABELS: Record<FindingLineageStatus, string> = {
+  new: 'New',
+  persisting: 'Persisting',
+  resolved: 'Resolved',
+  regressed: 'Regressed',
+};
+
+export interface FindingLineageEntry {
+  fingerprint: string;
+  status: FindingLineageStatus;
+  checkId: string;
+  checkName: string;
+  severity: Severity;
+  invoiceNumber?: string;
+  field?: string;
+  // Occurrences of the fingerprint in the run it was taken from.
+  occurrences: number;
+}
+
+export interface RunComparison {
+  runId: string;
+  runDate: string;
+  previousRunId: string | null;
+  previousRunDate: string | null;
+  counts: Record<FindingLineageStatus, number>;
+  entries: FindingLineageEntry[];
+}
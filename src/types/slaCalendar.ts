@@ -0,0 +1,63 @@
+/** UAE federal entities moved to a Saturday–Sunday weekend in 2022; many firms keep Friday–Saturday. */
+export type WeekendPattern = 'sat_sun' | 'fri_sat';
+
+export const WEEKEND_PATTERN_LABELS: Record<WeekendPattern, string> = {
+  sat_sun: 'Saturday – Sunday',
+  fri_sat: 'Friday – Saturday',
+};
+
+export interface SlaHoliday {
+  // Calendar date in UAE time, YYYY-MM-DD.
+  date: string;
+  name: string;
+}
+
+/** Working time that SLA clocks run on. Times are minutes after midnight, UAE time. */
+export interface SlaCalendar {
+  weekend: WeekendPattern;
+  workdayStartMinute: number;
+  workdayEndMinute: number;
+  // New Year's Day, Commemoration Day and National Day fall on fixed dates every year.
+  observeFixedHolidays: boolean;
+  // Islamic-calendar holidays move each year and are confirmed on moon sighting, so they are kept as dates.
+  holidays: SlaHoliday[];
+  updatedAt: string | null;
+}
+
+export const FIXED_UAE_HOLIDAYS: { monthDay: string; name: string }[] = [
+  { monthDay: '01-01', name: "New Year's Day" },
+  { monthDay: '12-01', name: 'Commemoration Day' },
+  { monthDay: '12-02', name: 'National Day' },
+  { monthDay: '12-03', name: 'National Day' },
+];
+
+// Expected dates; adjust once the official announcement follows the moon sighting.
+export const DEFAULT_ISLAMIC_HOLIDAYS: SlaHoliday[] = [
+  { date: '2026-03-20', name: 'Eid al-Fitr' },
+  { date: '2026-03-21', name: 'Eid al-Fitr' },
+  { date: '2026-03-22', name: 'Eid al-Fitr' },
+  { date: '2026-05-26', name: 'Arafat Day' },
+  { date: '2026-05-27', name: 'Eid al-Adha' },
+  { date: '2026-05-28', name: 'Eid al-Adha' },
+  { date: '2026-05-29', name: 'Eid al-Adha' },
+  { date: '2026-06-16', name: 'Hijri New Year' },
+  { date: '2026-08-25', name: "Prophet Muhammad's Birthday" },
+  { date: '2027-03-10', name: 'Eid al-Fitr' },
+  { date: '2027-03-11', name: 'Eid al-Fitr' },
+  { date: '2027-03-12', name: 'Eid al-Fitr' },
+  { date: '2027-05-16', name: 'Arafat Day' },
+  { date: '2027-05-17', name: 'Eid al-Adha' },
+  { date: '2027-05-18', name: 'Eid al-Adha' },
+  { date: '2027-05-19', name: 'Eid al-Adha' },
+  { date: '2027-06-06', name: 'Hijri New Year' },
+  { date: '2027-08-15', name: "Prophet Muhammad's Birthday" },
+];
+
+export const DEFAULT_SLA_CALENDAR: SlaCalendar = {
+  weekend: 'sat_sun',
+  workdayStartMinute: 8 * 60,
+  workdayEndMinute: 17 * 60,
+  observeFixedHolidays: true,
+  holidays: DEFAULT_ISLAMIC_HOLIDAYS,
+  updatedAt: null,
+};
@@ -0,0 +1,31 @@
+// Ordered from least to most privileged; each role can do everything the roles before it can.
+export const TENANT_ROLES = ['viewer', 'preparer', 'reviewer', 'controls_owner', 'admin'] as const;
+
+export type TenantRole = (typeof TENANT_ROLES)[number];
+
+export const TENANT_ROLE_LABELS: Record<TenantRole, string> = {
+  viewer: 'Viewer',
+  preparer: 'Preparer',
+  reviewer: 'Reviewer',
+  controls_owner: 'Controls owner',
+  admin: 'Admin',
+};
+
+// A client workspace; all Supabase data is partitioned by tenant.
+export interface Tenant {
+  id: string;
+  name: string;
+  slug: string;
+  role: TenantRole;
+}
+
+export interface WorkspaceUser {
+  id: string;
+  email: string | null;
+}
+
+// Who performs an action. Signed-in users are identified by id; the local single-user mode only has a name.
+export interface WorkspaceActor {
+  id: string | null;
+  name: string;
+}
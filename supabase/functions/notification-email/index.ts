@@ -0,0 +1,141 @@
+import { z } from 'https://deno.land/x/zod@v3.23.8/mod.ts';
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.49.4';
+
+type RuntimeWithDeno = typeof globalThis & {
+  Deno?: {
+    env?: { get: (key: string) => string | undefined };
+    serve?: (handler: (req: Request) => Response | Promise<Response>) => void;
+  };
+};
+
+const runtime = globalThis as RuntimeWithDeno;
+
+// Callers name a claimed outbox row; the recipient and content are read from the outbox, never
+// taken from the request, so the function cannot be used to mail arbitrary addresses.
+const RequestSchema = z.object({
+  tenantId: z.string().uuid(),
+  notificationId: z.string().uuid(),
+});
+
+function json(payload: unknown, status: number): Response {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function smtpConfig() {
+  const env = runtime.Deno?.env;
+  const hostname = env?.get('SMTP_HOST');
+  const from = env?.get('SMTP_FROM');
+  if (!hostname || !from) return null;
+  return {
+    hostname,
+    port: Number(env?.get('SMTP_PORT') || 587),
+    username: env?.get('SMTP_USERNAME'),
+    password: env?.get('SMTP_PASSWORD'),
+    from,
+  };
+}
+
+// Queries run as the caller, so row-level security limits them to the caller's workspaces.
+function callerClient(req: Request) {
+  const env = runtime.Deno?.env;
+  const url = env?.get('SUPABASE_URL');
+  const anonKey = env?.get('SUPABASE_ANON_KEY');
+  const authorization = req.headers.get('Authorization');
+  if (!url || !anonKey || !authorization) return null;
+  return createClient(url, anonKey, { global: { headers: { Authorization: authorization } } });
+}
+
+async function handler(req: Request): Promise<Response> {
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabase = callerClient(req);
+  if (!supabase) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+  const { data: auth, error: authError } = await supabase.auth.getUser();
+  if (authError || !auth.user) {
+    return json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const input = RequestSchema.parse(await req.json());
+
+    const { data: canDispatch, error: roleError } = await supabase.rpc('has_tenant_role', {
+      target_tenant: input.tenantId,
+      minimum_role: 'preparer',
+    });
+    if (roleError || !canDispatch) {
+      return json({ error: 'Forbidden', details: 'Sending notifications requires the Preparer role or higher.' }, 403);
+    }
+
+    const [{ data: notification, error: notificationError }, { data: settings, error: settingsError }] = await Promise.all([
+      supabase
+        .from('notification_outbox')
+        .select('recipient, subject, body, channel, status')
+        .eq('tenant_id', input.tenantId)
+        .eq('id', input.notificationId)
+        .maybeSingle(),
+      supabase
+        .from('notification_settings')
+        .select('team_lead_email, engagement_manager_email')
+        .eq('tenant_id', input.tenantId)
+        .maybeSingle(),
+    ]);
+    if (notificationError || settingsError) {
+      return json({ error: 'Email not sent', details: 'The notification could not be loaded.' }, 500);
+    }
+    if (!notification || notification.channel !== 'email' || notification.status !== 'sending') {
+      return json({ error: 'Email not sent', details: 'No claimed email notification with this id.' }, 404);
+    }
+    const recipients = [settings?.team_lead_email, settings?.engagement_manager_email]
+      .map((address) => (address || '').trim().toLowerCase())
+      .filter(Boolean);
+    if (!recipients.includes(notification.recipient.trim().toLowerCase())) {
+      return json({ error: 'Email not sent', details: 'The recipient is not a configured escalation recipient.' }, 403);
+    }
+
+    const config = smtpConfig();
+    if (!config) {
+      return json({ error: 'SMTP is not configured', details: 'Set SMTP_HOST and SMTP_FROM for this function.' }, 503);
+    }
+
+    const client = new SMTPClient({
+      connection: {
+        hostname: config.hostname,
+        port: config.port,
+        tls: config.port === 465,
+        auth: config.username ? { username: config.username, password: config.password || '' } : undefined,
+      },
+    });
+    try {
+      await client.send({
+        from: config.from,
+        to: notification.recipient,
+        subject: notification.subject,
+        content: notification.body,
+      });
+    } finally {
+      await client.close();
+    }
+
+    return json({ delivered: true }, 200);
+  } catch (error) {
+    return json(
+      {
+        error: 'Email not sent',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      400
+    );
+  }
+}
+
+if (runtime.Deno?.serve) {
+  runtime.Deno.serve((req: Request) => handler(req));
+}
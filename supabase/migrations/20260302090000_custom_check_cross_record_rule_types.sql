@@ -0,0 +1,31 @@
+-- Cross-record custom check rule types: aggregates, header/buyer joins and
+-- conditional existence. Their settings live in the existing parameters JSON.
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1
+    FROM pg_constraint
+    WHERE conname = 'custom_checks_rule_type_check'
+  ) THEN
+    ALTER TABLE public.custom_checks
+    DROP CONSTRAINT custom_checks_rule_type_check;
+  END IF;
+
+  ALTER TABLE public.custom_checks
+  ADD CONSTRAINT custom_checks_rule_type_check
+  CHECK (
+    rule_type IN (
+      'missing',
+      'duplicate',
+      'math',
+      'regex',
+      'custom_formula',
+      'aggregate',
+      'join',
+      'conditional_existence',
+      'fuzzy_duplicate',
+      'invoice_number_variant',
+      'trn_format_similarity'
+    )
+  );
+END $$;
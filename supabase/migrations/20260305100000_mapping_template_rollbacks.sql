@@ -0,0 +1,26 @@
+-- Audit trail for mapping template rollbacks: a rollback restores an earlier
+-- version's mappings as a new active version and records who did it and why.
+CREATE TABLE IF NOT EXISTS public.mapping_template_rollbacks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_name TEXT NOT NULL,
+  from_version INTEGER NOT NULL,
+  to_version INTEGER NOT NULL,
+  restored_template_id UUID NOT NULL REFERENCES public.mapping_templates(id) ON DELETE CASCADE,
+  performed_by TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  performed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.mapping_template_rollbacks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations on mapping_template_rollbacks"
+ON public.mapping_template_rollbacks
+FOR ALL
+USING (true)
+WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_mapping_template_rollbacks_template
+ON public.mapping_template_rollbacks (template_name, performed_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_mapping_templates_name_version
+ON public.mapping_templates (template_name, version);
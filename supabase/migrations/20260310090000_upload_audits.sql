@@ -0,0 +1,38 @@
+-- Persistent upload audit trail. Each row is one upload session with per-file
+-- SHA-256 fingerprints, so auditors can tie a check run back to the exact files.
+CREATE TABLE IF NOT EXISTS public.upload_audits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  upload_session_id TEXT NOT NULL UNIQUE,
+  dataset_type TEXT NOT NULL DEFAULT 'AR' CHECK (dataset_type IN ('AR', 'AP')),
+  source_format TEXT NOT NULL DEFAULT 'csv' CHECK (source_format IN ('csv', 'ubl')),
+  buyers_count INTEGER NOT NULL DEFAULT 0,
+  headers_count INTEGER NOT NULL DEFAULT 0,
+  lines_count INTEGER NOT NULL DEFAULT 0,
+  files JSONB NOT NULL DEFAULT '[]'::jsonb,
+  datasets JSONB NOT NULL DEFAULT '[]'::jsonb,
+  relational_checks JSONB NOT NULL DEFAULT '[]'::jsonb,
+  uploaded_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.upload_audits ENABLE ROW LEVEL SECURITY;
+
+-- Append-only: records can be read and inserted but never edited or deleted.
+CREATE POLICY "Allow read on upload_audits"
+ON public.upload_audits
+FOR SELECT
+USING (true);
+
+CREATE POLICY "Allow insert on upload_audits"
+ON public.upload_audits
+FOR INSERT
+WITH CHECK (true);
+
+CREATE INDEX IF NOT EXISTS idx_upload_audits_created_at
+ON public.upload_audits (created_at DESC);
+
+ALTER TABLE public.check_runs
+ADD COLUMN IF NOT EXISTS upload_session_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_check_runs_upload_session
+ON public.check_runs (upload_session_id);
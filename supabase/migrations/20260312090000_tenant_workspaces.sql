@@ -0,0 +1,173 @@
+-- Multi-tenant workspaces. Every client engagement is a tenant; users see a
+-- tenant's rows only through a tenant_memberships row. Existing rows are moved
+-- into a default workspace, to which members must be added explicitly:
+--   INSERT INTO public.tenant_memberships (tenant_id, user_id, role)
+--   VALUES ('00000000-0000-0000-0000-000000000001', '<auth user id>', 'owner');
+
+CREATE TABLE IF NOT EXISTS public.tenants (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.tenant_memberships (
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'member')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (tenant_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tenant_memberships_user
+ON public.tenant_memberships (user_id);
+
+-- SECURITY DEFINER so policies can consult memberships without recursing into
+-- the memberships table's own policy.
+CREATE OR REPLACE FUNCTION public.is_tenant_member(target_tenant UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.tenant_memberships
+    WHERE tenant_id = target_tenant
+      AND user_id = auth.uid()
+  );
+$$;
+
+-- Creates a workspace and makes the caller its owner in one step, since a new
+-- tenant has no members yet to satisfy the insert policies.
+CREATE OR REPLACE FUNCTION public.create_tenant(tenant_name TEXT)
+RETURNS public.tenants
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  created public.tenants;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a workspace';
+  END IF;
+
+  INSERT INTO public.tenants (name, slug)
+  VALUES (
+    tenant_name,
+    trim(both '-' from regexp_replace(lower(tenant_name), '[^a-z0-9]+', '-', 'g')) || '-' || substr(md5(random()::text), 1, 6)
+  )
+  RETURNING * INTO created;
+
+  INSERT INTO public.tenant_memberships (tenant_id, user_id, role)
+  VALUES (created.id, auth.uid(), 'owner');
+
+  RETURN created;
+END;
+$$;
+
+ALTER TABLE public.tenants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tenant_memberships ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members read their tenants"
+ON public.tenants
+FOR SELECT
+USING (public.is_tenant_member(id));
+
+CREATE POLICY "Users read their memberships"
+ON public.tenant_memberships
+FOR SELECT
+USING (user_id = auth.uid());
+
+INSERT INTO public.tenants (id, name, slug)
+VALUES ('00000000-0000-0000-0000-000000000001', 'Default workspace', 'default')
+ON CONFLICT (id) DO NOTHING;
+
+-- The free-text tenant ids on these two tables predate workspaces; keep them for reference.
+ALTER TABLE public.mapping_templates RENAME COLUMN tenant_id TO legacy_tenant_ref;
+ALTER TABLE public.validation_explanations RENAME COLUMN tenant_id TO legacy_tenant_ref;
+ALTER TABLE public.validation_explanations ALTER COLUMN legacy_tenant_ref DROP NOT NULL;
+DROP INDEX IF EXISTS public.uq_validation_explanations_tenant_key;
+
+DO $$
+DECLARE
+  tenant_table TEXT;
+  existing_policy RECORD;
+BEGIN
+  FOREACH tenant_table IN ARRAY ARRAY[
+    'case_notes',
+    'cases',
+    'check_exceptions',
+    'check_runs',
+    'client_health',
+    'client_risk_scores',
+    'custom_checks',
+    'entity_scores',
+    'invoice_lifecycle',
+    'investigation_flags',
+    'mapping_template_rollbacks',
+    'mapping_templates',
+    'pint_ae_checks',
+    'rejections',
+    'run_summaries',
+    'upload_audits',
+    'validation_explanations'
+  ] LOOP
+    EXECUTE format(
+      'ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS tenant_id UUID REFERENCES public.tenants(id) ON DELETE CASCADE',
+      tenant_table
+    );
+    EXECUTE format(
+      'UPDATE public.%I SET tenant_id = %L WHERE tenant_id IS NULL',
+      tenant_table,
+      '00000000-0000-0000-0000-000000000001'
+    );
+    EXECUTE format('ALTER TABLE public.%I ALTER COLUMN tenant_id SET NOT NULL', tenant_table);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON public.%I (tenant_id)', 'idx_' || tenant_table || '_tenant', tenant_table);
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', tenant_table);
+
+    FOR existing_policy IN
+      SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = tenant_table
+    LOOP
+      EXECUTE format('DROP POLICY %I ON public.%I', existing_policy.policyname, tenant_table);
+    END LOOP;
+
+    IF tenant_table = 'upload_audits' THEN
+      -- The upload audit trail stays append-only inside each tenant.
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I FOR SELECT USING (public.is_tenant_member(tenant_id))',
+        'Tenant members read ' || tenant_table,
+        tenant_table
+      );
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I FOR INSERT WITH CHECK (public.is_tenant_member(tenant_id))',
+        'Tenant members insert ' || tenant_table,
+        tenant_table
+      );
+    ELSE
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I FOR ALL USING (public.is_tenant_member(tenant_id)) WITH CHECK (public.is_tenant_member(tenant_id))',
+        'Tenant members access ' || tenant_table,
+        tenant_table
+      );
+    END IF;
+  END LOOP;
+END $$;
+
+-- Natural keys become unique per tenant rather than globally.
+ALTER TABLE public.pint_ae_checks DROP CONSTRAINT IF EXISTS pint_ae_checks_check_id_key;
+CREATE UNIQUE INDEX IF NOT EXISTS uq_pint_ae_checks_tenant_check
+ON public.pint_ae_checks (tenant_id, check_id);
+
+DELETE FROM public.client_health stale
+USING public.client_health newer
+WHERE stale.tenant_id = newer.tenant_id
+  AND stale.seller_trn = newer.seller_trn
+  AND (stale.calculated_at, stale.id) < (newer.calculated_at, newer.id);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_client_health_tenant_seller
+ON public.client_health (tenant_id, seller_trn);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_validation_explanations_tenant_key
+ON public.validation_explanations (tenant_id, exception_key);
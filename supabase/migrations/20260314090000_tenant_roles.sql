@@ -0,0 +1,277 @@
+-- Role-based access inside a tenant. Roles are ordered; each grants everything
+-- the roles below it can do:
+--   viewer < preparer < reviewer < controls_owner < admin
+-- Viewers only read. Preparers upload, map, run checks and work cases.
+-- Reviewers resolve cases, waive exceptions, activate templates and export
+-- Evidence Packs. Controls owners change the check configuration.
+
+ALTER TABLE public.tenant_memberships DROP CONSTRAINT IF EXISTS tenant_memberships_role_check;
+UPDATE public.tenant_memberships SET role = 'admin' WHERE role = 'owner';
+UPDATE public.tenant_memberships SET role = 'preparer' WHERE role = 'member';
+ALTER TABLE public.tenant_memberships ALTER COLUMN role SET DEFAULT 'viewer';
+ALTER TABLE public.tenant_memberships
+  ADD CONSTRAINT tenant_memberships_role_check
+  CHECK (role IN ('viewer', 'preparer', 'reviewer', 'controls_owner', 'admin'));
+
+CREATE OR REPLACE FUNCTION public.tenant_role_rank(role_name TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE role_name
+    WHEN 'viewer' THEN 1
+    WHEN 'preparer' THEN 2
+    WHEN 'reviewer' THEN 3
+    WHEN 'controls_owner' THEN 4
+    WHEN 'admin' THEN 5
+    ELSE 0
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_tenant_role(target_tenant UUID, minimum_role TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.tenant_memberships
+    WHERE tenant_id = target_tenant
+      AND user_id = auth.uid()
+      AND public.tenant_role_rank(role) >= public.tenant_role_rank(minimum_role)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.create_tenant(tenant_name TEXT)
+RETURNS public.tenants
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  created public.tenants;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to create a workspace';
+  END IF;
+
+  INSERT INTO public.tenants (name, slug)
+  VALUES (
+    tenant_name,
+    trim(both '-' from regexp_replace(lower(tenant_name), '[^a-z0-9]+', '-', 'g')) || '-' || substr(md5(random()::text), 1, 6)
+  )
+  RETURNING * INTO created;
+
+  INSERT INTO public.tenant_memberships (tenant_id, user_id, role)
+  VALUES (created.id, auth.uid(), 'admin');
+
+  RETURN created;
+END;
+$$;
+
+-- Admins manage who belongs to their workspace and with which role.
+CREATE POLICY "Admins read tenant memberships"
+ON public.tenant_memberships
+FOR SELECT
+USING (public.has_tenant_role(tenant_id, 'admin'));
+
+CREATE POLICY "Admins manage tenant memberships"
+ON public.tenant_memberships
+FOR ALL
+USING (public.has_tenant_role(tenant_id, 'admin'))
+WITH CHECK (public.has_tenant_role(tenant_id, 'admin'));
+
+-- Replace the blanket member policies: every member reads, writes need a role.
+DO $$
+DECLARE
+  tenant_table TEXT;
+BEGIN
+  FOREACH tenant_table IN ARRAY ARRAY[
+    'case_notes',
+    'cases',
+    'check_exceptions',
+    'check_runs',
+    'client_health',
+    'client_risk_scores',
+    'custom_checks',
+    'entity_scores',
+    'invoice_lifecycle',
+    'investigation_flags',
+    'mapping_template_rollbacks',
+    'mapping_templates',
+    'pint_ae_checks',
+    'rejections',
+    'run_summaries',
+    'validation_explanations'
+  ] LOOP
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Tenant members access ' || tenant_table, tenant_table);
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR SELECT USING (public.is_tenant_member(tenant_id))',
+      'Tenant members read ' || tenant_table,
+      tenant_table
+    );
+  END LOOP;
+
+  FOREACH tenant_table IN ARRAY ARRAY[
+    'case_notes',
+    'check_exceptions',
+    'check_runs',
+    'client_health',
+    'client_risk_scores',
+    'entity_scores',
+    'invoice_lifecycle',
+    'investigation_flags',
+    'rejections',
+    'run_summaries',
+    'validation_explanations'
+  ] LOOP
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I FOR ALL USING (public.has_tenant_role(tenant_id, %L)) WITH CHECK (public.has_tenant_role(tenant_id, %L))',
+      'Preparers write ' || tenant_table,
+      tenant_table,
+      'preparer',
+      'preparer'
+    );
+  END LOOP;
+END $$;
+
+DROP POLICY IF EXISTS "Tenant members insert upload_audits" ON public.upload_audits;
+CREATE POLICY "Preparers insert upload_audits"
+ON public.upload_audits
+FOR INSERT
+WITH CHECK (public.has_tenant_role(tenant_id, 'preparer'));
+
+-- Resolving a case is a reviewer decision; preparers open and work cases.
+CREATE POLICY "Preparers create cases"
+ON public.cases
+FOR INSERT
+WITH CHECK (public.has_tenant_role(tenant_id, 'preparer') AND status <> 'Resolved');
+
+CREATE POLICY "Preparers work cases"
+ON public.cases
+FOR UPDATE
+USING (public.has_tenant_role(tenant_id, 'preparer'))
+WITH CHECK (
+  public.has_tenant_role(tenant_id, 'preparer')
+  AND (status <> 'Resolved' OR public.has_tenant_role(tenant_id, 'reviewer'))
+);
+
+-- Preparers may save draft templates; only reviewers may make one active.
+CREATE POLICY "Preparers save mapping templates"
+ON public.mapping_templates
+FOR INSERT
+WITH CHECK (
+  public.has_tenant_role(tenant_id, 'preparer')
+  AND (NOT is_active OR public.has_tenant_role(tenant_id, 'reviewer'))
+);
+
+CREATE POLICY "Preparers edit mapping templates"
+ON public.mapping_templates
+FOR UPDATE
+USING (public.has_tenant_role(tenant_id, 'preparer'))
+WITH CHECK (
+  public.has_tenant_role(tenant_id, 'preparer')
+  AND (NOT is_active OR public.has_tenant_role(tenant_id, 'reviewer'))
+);
+
+CREATE POLICY "Reviewers delete mapping templates"
+ON public.mapping_templates
+FOR DELETE
+USING (public.has_tenant_role(tenant_id, 'reviewer'));
+
+CREATE POLICY "Reviewers roll back mapping templates"
+ON public.mapping_template_rollbacks
+FOR INSERT
+WITH CHECK (public.has_tenant_role(tenant_id, 'reviewer'));
+
+-- Check configuration belongs to controls owners. Preparers may still seed
+-- missing checks of the built-in pack when they run validation.
+CREATE POLICY "Preparers seed pint_ae_checks"
+ON public.pint_ae_checks
+FOR INSERT
+WITH CHECK (public.has_tenant_role(tenant_id, 'preparer'));
+
+CREATE POLICY "Controls owners change pint_ae_checks"
+ON public.pint_ae_checks
+FOR UPDATE
+USING (public.has_tenant_role(tenant_id, 'controls_owner'))
+WITH CHECK (public.has_tenant_role(tenant_id, 'controls_owner'));
+
+CREATE POLICY "Controls owners delete pint_ae_checks"
+ON public.pint_ae_checks
+FOR DELETE
+USING (public.has_tenant_role(tenant_id, 'controls_owner'));
+
+CREATE POLICY "Controls owners manage custom_checks"
+ON public.custom_checks
+FOR ALL
+USING (public.has_tenant_role(tenant_id, 'controls_owner'))
+WITH CHECK (public.has_tenant_role(tenant_id, 'controls_owner'));
+
+-- Append-only log of sensitive transitions. The actor is stamped server-side
+-- from the session, so a client cannot record an action under another name.
+CREATE TABLE IF NOT EXISTS public.sensitive_action_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('exception.waive', 'check.disable', 'template.activate', 'evidence.export')),
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  actor_id UUID,
+  actor_email TEXT,
+  actor_role TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sensitive_action_log_tenant_created
+ON public.sensitive_action_log (tenant_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.sensitive_action_minimum_role(action_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE action_name
+    WHEN 'check.disable' THEN 'controls_owner'
+    ELSE 'reviewer'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.stamp_sensitive_action_actor()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.actor_id := auth.uid();
+  NEW.actor_email := auth.jwt() ->> 'email';
+  NEW.actor_role := (
+    SELECT role
+    FROM public.tenant_memberships
+    WHERE tenant_id = NEW.tenant_id
+      AND user_id = auth.uid()
+  );
+  NEW.created_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_sensitive_action_actor
+BEFORE INSERT ON public.sensitive_action_log
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_sensitive_action_actor();
+
+ALTER TABLE public.sensitive_action_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members read sensitive_action_log"
+ON public.sensitive_action_log
+FOR SELECT
+USING (public.is_tenant_member(tenant_id));
+
+CREATE POLICY "Authorized roles record sensitive actions"
+ON public.sensitive_action_log
+FOR INSERT
+WITH CHECK (public.has_tenant_role(tenant_id, public.sensitive_action_minimum_role(action)));
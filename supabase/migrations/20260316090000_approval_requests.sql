@@ -0,0 +1,118 @@
+-- Maker-checker approvals. Waivers, check enable/disable, severity overrides
+-- and template activations are requested by one member and only take effect
+-- once a different member with the required role approves them.
+
+CREATE TABLE IF NOT EXISTS public.approval_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('exception.waive', 'check.enable', 'check.disable', 'check.severity', 'template.activate')),
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  entity_label TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  reason_code TEXT,
+  justification TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  requested_by UUID,
+  requested_by_name TEXT,
+  requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  decided_by UUID,
+  decided_by_name TEXT,
+  decided_at TIMESTAMP WITH TIME ZONE,
+  decision_comment TEXT,
+  CONSTRAINT approval_requests_waiver_reason CHECK (kind <> 'exception.waive' OR reason_code IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_requests_tenant_status
+ON public.approval_requests (tenant_id, status, requested_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_approval_requests_entity
+ON public.approval_requests (tenant_id, entity_type, entity_id);
+
+-- At most one open request per change target.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_approval_requests_one_pending
+ON public.approval_requests (tenant_id, kind, entity_type, entity_id)
+WHERE status = 'pending';
+
+CREATE OR REPLACE FUNCTION public.approval_minimum_role(kind_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE kind_name
+    WHEN 'check.enable' THEN 'controls_owner'
+    WHEN 'check.disable' THEN 'controls_owner'
+    WHEN 'check.severity' THEN 'controls_owner'
+    ELSE 'reviewer'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.stamp_approval_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'pending';
+    NEW.requested_by := auth.uid();
+    NEW.requested_by_name := coalesce(auth.jwt() ->> 'email', auth.uid()::text);
+    NEW.requested_at := now();
+    NEW.decided_by := NULL;
+    NEW.decided_by_name := NULL;
+    NEW.decided_at := NULL;
+    NEW.decision_comment := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status <> 'pending' THEN
+    RAISE EXCEPTION 'Approval request % has already been decided', OLD.id;
+  END IF;
+  IF NEW.status NOT IN ('approved', 'rejected') THEN
+    RAISE EXCEPTION 'An approval decision must approve or reject the request';
+  END IF;
+  IF OLD.requested_by = auth.uid() THEN
+    RAISE EXCEPTION 'The requester cannot decide their own approval request';
+  END IF;
+
+  -- Only the decision columns may change.
+  NEW.kind := OLD.kind;
+  NEW.entity_type := OLD.entity_type;
+  NEW.entity_id := OLD.entity_id;
+  NEW.entity_label := OLD.entity_label;
+  NEW.payload := OLD.payload;
+  NEW.reason_code := OLD.reason_code;
+  NEW.justification := OLD.justification;
+  NEW.requested_by := OLD.requested_by;
+  NEW.requested_by_name := OLD.requested_by_name;
+  NEW.requested_at := OLD.requested_at;
+  NEW.decided_by := auth.uid();
+  NEW.decided_by_name := coalesce(auth.jwt() ->> 'email', auth.uid()::text);
+  NEW.decided_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stamp_approval_request
+BEFORE INSERT OR UPDATE ON public.approval_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.stamp_approval_request();
+
+ALTER TABLE public.approval_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members read approval_requests"
+ON public.approval_requests
+FOR SELECT
+USING (public.is_tenant_member(tenant_id));
+
+CREATE POLICY "Preparers request approvals"
+ON public.approval_requests
+FOR INSERT
+WITH CHECK (public.has_tenant_role(tenant_id, 'preparer'));
+
+CREATE POLICY "Authorized roles decide approvals"
+ON public.approval_requests
+FOR UPDATE
+USING (public.has_tenant_role(tenant_id, public.approval_minimum_role(kind)))
+WITH CHECK (public.has_tenant_role(tenant_id, public.approval_minimum_role(kind)));
@@ -0,0 +1,167 @@
+-- Persisted exception workflow. Each finding is identified across runs by a
+-- fingerprint of check id + invoice + field, so its status carries forward to
+-- the matching finding of the next run. Transitions:
+--   Open -> In Review -> Resolved | Waived, and Resolved | Waived -> Open (reopen)
+-- Every transition is appended to exception_status_history.
+
+CREATE TABLE IF NOT EXISTS public.exception_workflow_states (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  fingerprint TEXT NOT NULL,
+  exception_ref TEXT,
+  status TEXT NOT NULL DEFAULT 'Open' CHECK (status IN ('Open', 'In Review', 'Resolved', 'Waived')),
+  assignee TEXT,
+  reason_code TEXT,
+  updated_by UUID,
+  updated_by_name TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, fingerprint)
+);
+
+CREATE TABLE IF NOT EXISTS public.exception_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  fingerprint TEXT NOT NULL,
+  exception_ref TEXT,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  comment TEXT,
+  assignee TEXT,
+  reason_code TEXT,
+  actor_id UUID,
+  actor_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_exception_status_history_fingerprint
+ON public.exception_status_history (tenant_id, fingerprint, created_at DESC);
+
+ALTER TABLE public.exception_workflow_states ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.exception_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Members read; all writes go through transition_exception() so that state
+-- and history cannot drift apart.
+CREATE POLICY "Tenant members read exception_workflow_states"
+ON public.exception_workflow_states
+FOR SELECT
+USING (public.is_tenant_member(tenant_id));
+
+CREATE POLICY "Tenant members read exception_status_history"
+ON public.exception_status_history
+FOR SELECT
+USING (public.is_tenant_member(tenant_id));
+
+CREATE OR REPLACE FUNCTION public.is_exception_transition_allowed(from_status TEXT, to_status TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT (from_status, to_status) IN (
+    ('Open', 'In Review'),
+    ('In Review', 'Resolved'),
+    ('In Review', 'Waived'),
+    ('Resolved', 'Open'),
+    ('Waived', 'Open')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.transition_exception(
+  target_tenant UUID,
+  finding_fingerprint TEXT,
+  exception_ref TEXT,
+  expected_status TEXT,
+  next_status TEXT,
+  transition_comment TEXT,
+  next_assignee TEXT,
+  next_reason_code TEXT
+)
+RETURNS public.exception_workflow_states
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_state public.exception_workflow_states;
+  previous_status TEXT;
+  actor_name TEXT := coalesce(auth.jwt() ->> 'email', auth.uid()::text);
+BEGIN
+  IF NOT public.has_tenant_role(target_tenant, 'preparer') THEN
+    RAISE EXCEPTION 'Requires the Preparer role or higher';
+  END IF;
+
+  SELECT * INTO current_state
+  FROM public.exception_workflow_states
+  WHERE tenant_id = target_tenant AND fingerprint = finding_fingerprint
+  FOR UPDATE;
+  -- A finding without stored state keeps the status its run gave it.
+  IF current_state.status IS NOT NULL AND current_state.status <> expected_status THEN
+    RAISE EXCEPTION 'Exception status changed to % since it was loaded', current_state.status;
+  END IF;
+  previous_status := coalesce(current_state.status, expected_status);
+
+  IF NOT public.is_exception_transition_allowed(previous_status, next_status) THEN
+    RAISE EXCEPTION 'Cannot move an exception from % to %', previous_status, next_status;
+  END IF;
+  IF next_status IN ('Resolved', 'Waived') AND next_reason_code IS NULL THEN
+    RAISE EXCEPTION 'A reason code is required to close an exception';
+  END IF;
+  IF next_status = 'Resolved' AND NOT public.has_tenant_role(target_tenant, 'reviewer') THEN
+    RAISE EXCEPTION 'Requires the Reviewer role or higher';
+  END IF;
+  -- A waiver is applied by whoever approved it, never by the requester.
+  IF next_status = 'Waived' AND NOT EXISTS (
+    SELECT 1
+    FROM public.approval_requests
+    WHERE tenant_id = target_tenant
+      AND kind = 'exception.waive'
+      AND status = 'approved'
+      AND payload ->> 'fingerprint' = finding_fingerprint
+      AND decided_by = auth.uid()
+      AND decided_at >= coalesce(current_state.updated_at, '-infinity'::timestamptz)
+  ) THEN
+    RAISE EXCEPTION 'Waiving an exception requires an approved waiver request';
+  END IF;
+
+  INSERT INTO public.exception_workflow_states AS state (
+    tenant_id, fingerprint, exception_ref, status, assignee, reason_code, updated_by, updated_by_name, updated_at
+  )
+  VALUES (
+    target_tenant,
+    finding_fingerprint,
+    exception_ref,
+    next_status,
+    next_assignee,
+    CASE WHEN next_status IN ('Resolved', 'Waived') THEN next_reason_code END,
+    auth.uid(),
+    actor_name,
+    now()
+  )
+  ON CONFLICT (tenant_id, fingerprint) DO UPDATE SET
+    exception_ref = EXCLUDED.exception_ref,
+    status = EXCLUDED.status,
+    assignee = EXCLUDED.assignee,
+    reason_code = EXCLUDED.reason_code,
+    updated_by = EXCLUDED.updated_by,
+    updated_by_name = EXCLUDED.updated_by_name,
+    updated_at = EXCLUDED.updated_at
+  RETURNING * INTO current_state;
+
+  INSERT INTO public.exception_status_history (
+    tenant_id, fingerprint, exception_ref, from_status, to_status, comment, assignee, reason_code, actor_id, actor_name
+  )
+  VALUES (
+    target_tenant,
+    finding_fingerprint,
+    exception_ref,
+    previous_status,
+    next_status,
+    transition_comment,
+    next_assignee,
+    current_state.reason_code,
+    auth.uid(),
+    actor_name
+  );
+
+  RETURN current_state;
+END;
+$$;
@@ -0,0 +1,22 @@
+-- Deterministic finding fingerprints so runs can be compared finding by finding.
+-- The fingerprint is check id | rule id | invoice number | seller TRN | line | field,
+-- trimmed and lower-cased; see computeFindingFingerprint() in the app.
+
+ALTER TABLE public.check_exceptions
+ADD COLUMN IF NOT EXISTS fingerprint TEXT;
+
+-- check_exceptions has no separate rule id, so the check id stands in for it.
+UPDATE public.check_exceptions
+SET fingerprint = concat_ws(
+  '|',
+  lower(btrim(check_id)),
+  lower(btrim(check_id)),
+  lower(btrim(coalesce(nullif(invoice_number, ''), invoice_id, ''))),
+  lower(btrim(coalesce(seller_trn, ''))),
+  lower(btrim(coalesce(line_id, ''))),
+  lower(btrim(coalesce(field_name, '')))
+)
+WHERE fingerprint IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_check_exceptions_run_fingerprint
+ON public.check_exceptions (tenant_id, run_id, fingerprint);
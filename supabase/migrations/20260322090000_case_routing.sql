@@ -0,0 +1,79 @@
+-- Automatic case routing. After each validation run the app routes findings
+-- through the tenant's rules: the first active rule a finding matches decides
+-- how it is grouped into a case, the owner team and the SLA. Open cases are
+-- found again by routing key or finding fingerprint, so a recurring finding
+-- joins its existing case instead of opening another one.
+
+CREATE TABLE IF NOT EXISTS public.case_routing_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 100,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  severities TEXT[] NOT NULL DEFAULT '{}',
+  check_ids TEXT[] NOT NULL DEFAULT '{}',
+  seller_trns TEXT[] NOT NULL DEFAULT '{}',
+  source TEXT CHECK (source IN ('pint_ae', 'built_in')),
+  grouping TEXT NOT NULL DEFAULT 'finding' CHECK (grouping IN ('finding', 'invoice', 'check', 'seller')),
+  min_occurrences INTEGER NOT NULL DEFAULT 1 CHECK (min_occurrences >= 1),
+  owner_team TEXT CHECK (owner_team IN ('ASP Ops', 'Client Finance', 'Client IT', 'Buyer-side')),
+  sla_hours INTEGER CHECK (sla_hours > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_routing_rules_tenant_priority
+ON public.case_routing_rules (tenant_id, priority);
+
+ALTER TABLE public.cases
+ADD COLUMN IF NOT EXISTS routing_rule_id UUID REFERENCES public.case_routing_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS routing_key TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_cases_open_routing_key
+ON public.cases (tenant_id, routing_key)
+WHERE status <> 'Resolved';
+
+-- One row per finding of a run that contributed to a case.
+CREATE TABLE IF NOT EXISTS public.case_exception_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  case_id UUID NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  run_id UUID REFERENCES public.check_runs(id) ON DELETE SET NULL,
+  fingerprint TEXT NOT NULL,
+  exception_ref TEXT,
+  check_id TEXT,
+  invoice_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_exception_links_case
+ON public.case_exception_links (tenant_id, case_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_case_exception_links_fingerprint
+ON public.case_exception_links (tenant_id, fingerprint);
+
+ALTER TABLE public.case_routing_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.case_exception_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members read case_routing_rules"
+ON public.case_routing_rules
+FOR SELECT
+USING (public.is_tenant_member(tenant_id));
+
+-- Routing is control configuration, like the check pack.
+CREATE POLICY "Controls owners write case_routing_rules"
+ON public.case_routing_rules
+FOR ALL
+USING (public.has_tenant_role(tenant_id, 'controls_owner'))
+WITH CHECK (public.has_tenant_role(tenant_id, 'controls_owner'));
+
+CREATE POLICY "Tenant members read case_exception_links"
+ON public.case_exception_links
+FOR SELECT
+USING (public.is_tenant_member(tenant_id));
+
+-- Routing runs as the preparer who ran validation.
+CREATE POLICY "Preparers write case_exception_links"
+ON public.case_exception_links
+FOR ALL
+USING (public.has_tenant_role(tenant_id, 'preparer'))
+WITH CHECK (public.has_tenant_role(tenant_id, 'preparer'));
@@ -0,0 +1,34 @@
+-- SLA calendars. Case SLAs count working time on the tenant's calendar:
+-- weekend pattern, working hours (UAE time) and public holidays, with the
+-- Islamic-calendar dates kept as configurable dates. Time a case spends
+-- Waiting pauses its clock.
+
+CREATE TABLE IF NOT EXISTS public.sla_calendars (
+  tenant_id UUID NOT NULL PRIMARY KEY REFERENCES public.tenants(id) ON DELETE CASCADE,
+  weekend TEXT NOT NULL DEFAULT 'sat_sun' CHECK (weekend IN ('sat_sun', 'fri_sat')),
+  workday_start_minute INTEGER NOT NULL DEFAULT 480 CHECK (workday_start_minute BETWEEN 0 AND 1440),
+  workday_end_minute INTEGER NOT NULL DEFAULT 1020 CHECK (workday_end_minute BETWEEN 0 AND 1440),
+  observe_fixed_holidays BOOLEAN NOT NULL DEFAULT true,
+  holidays JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT sla_calendars_working_hours CHECK (workday_end_minute > workday_start_minute)
+);
+
+ALTER TABLE public.sla_calendars ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members read sla_calendars"
+ON public.sla_calendars
+FOR SELECT
+USING (public.is_tenant_member(tenant_id));
+
+CREATE POLICY "Controls owners write sla_calendars"
+ON public.sla_calendars
+FOR ALL
+USING (public.has_tenant_role(tenant_id, 'controls_owner'))
+WITH CHECK (public.has_tenant_role(tenant_id, 'controls_owner'));
+
+-- sla_paused_at is set while a case is Waiting; sla_paused_minutes banks the
+-- working minutes of earlier pauses.
+ALTER TABLE public.cases
+ADD COLUMN IF NOT EXISTS sla_paused_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS sla_paused_minutes INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,97 @@
+-- Case escalations and the notifications outbox. As a case uses up its SLA it
+-- escalates: a warning at 75%, the team lead at breach and the engagement
+-- manager at twice the SLA. Each escalation queues notifications in the
+-- outbox; delivery adapters (in-app inbox, SMTP email, webhook) consume
+-- pending rows and record the outcome.
+
+ALTER TABLE public.cases
+ADD COLUMN IF NOT EXISTS escalation_level TEXT NOT NULL DEFAULT 'none'
+  CHECK (escalation_level IN ('none', 'warning', 'team_lead', 'engagement_manager')),
+ADD COLUMN IF NOT EXISTS escalated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE TABLE IF NOT EXISTS public.notification_settings (
+  tenant_id UUID NOT NULL PRIMARY KEY REFERENCES public.tenants(id) ON DELETE CASCADE,
+  team_lead_email TEXT NOT NULL DEFAULT '',
+  engagement_manager_email TEXT NOT NULL DEFAULT '',
+  webhook_url TEXT NOT NULL DEFAULT '',
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members read notification_settings"
+ON public.notification_settings
+FOR SELECT
+USING (public.is_tenant_member(tenant_id));
+
+CREATE POLICY "Controls owners write notification_settings"
+ON public.notification_settings
+FOR ALL
+USING (public.has_tenant_role(tenant_id, 'controls_owner'))
+WITH CHECK (public.has_tenant_role(tenant_id, 'controls_owner'));
+
+CREATE TABLE IF NOT EXISTS public.notification_outbox (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  channel TEXT NOT NULL CHECK (channel IN ('in_app', 'email', 'webhook')),
+  recipient TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  body TEXT NOT NULL DEFAULT '',
+  case_id UUID REFERENCES public.cases(id) ON DELETE CASCADE,
+  escalation_level TEXT CHECK (escalation_level IN ('warning', 'team_lead', 'engagement_manager')),
+  dedupe_key TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (tenant_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_pending
+ON public.notification_outbox(tenant_id, created_at)
+WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_notification_outbox_inbox
+ON public.notification_outbox(tenant_id, created_at DESC)
+WHERE channel = 'in_app';
+
+ALTER TABLE public.notification_outbox ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members read notification_outbox"
+ON public.notification_outbox
+FOR SELECT
+USING (public.is_tenant_member(tenant_id));
+
+CREATE POLICY "Preparers write notification_outbox"
+ON public.notification_outbox
+FOR ALL
+USING (public.has_tenant_role(tenant_id, 'preparer'))
+WITH CHECK (public.has_tenant_role(tenant_id, 'preparer'));
+
+-- Any member may clear the in-app inbox, including viewers who cannot write
+-- the outbox itself.
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(target_tenant UUID, notification_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  IF NOT public.is_tenant_member(target_tenant) THEN
+    RAISE EXCEPTION 'Not a member of this workspace';
+  END IF;
+
+  UPDATE public.notification_outbox
+  SET read_at = now()
+  WHERE tenant_id = target_tenant
+    AND channel = 'in_app'
+    AND read_at IS NULL
+    AND id = ANY(notification_ids);
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
@@ -0,0 +1,105 @@
+-- Saved exception views and assignment without a status change. A view stores
+-- the Exceptions Workspace filters under a name; it belongs to the member who
+-- saved it, can be shared with the workspace and pinned to its owner's
+-- sidebar. Bulk assignment goes through assign_exception() so that the
+-- assignee change is recorded in exception_status_history like a transition.
+
+CREATE TABLE IF NOT EXISTS public.exception_views (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  tenant_id UUID NOT NULL REFERENCES public.tenants(id) ON DELETE CASCADE,
+  owner_id UUID NOT NULL DEFAULT auth.uid(),
+  owner_name TEXT DEFAULT coalesce(auth.jwt() ->> 'email', auth.uid()::text),
+  name TEXT NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_shared BOOLEAN NOT NULL DEFAULT false,
+  is_pinned BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_exception_views_owner
+ON public.exception_views (tenant_id, owner_id);
+
+ALTER TABLE public.exception_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members read own or shared exception_views"
+ON public.exception_views
+FOR SELECT
+USING (public.is_tenant_member(tenant_id) AND (owner_id = auth.uid() OR is_shared));
+
+CREATE POLICY "Tenant members write own exception_views"
+ON public.exception_views
+FOR ALL
+USING (public.is_tenant_member(tenant_id) AND owner_id = auth.uid())
+WITH CHECK (public.is_tenant_member(tenant_id) AND owner_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.assign_exception(
+  target_tenant UUID,
+  finding_fingerprint TEXT,
+  exception_ref TEXT,
+  expected_status TEXT,
+  next_assignee TEXT,
+  assign_comment TEXT
+)
+RETURNS public.exception_workflow_states
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_state public.exception_workflow_states;
+  actor_name TEXT := coalesce(auth.jwt() ->> 'email', auth.uid()::text);
+BEGIN
+  IF NOT public.has_tenant_role(target_tenant, 'preparer') THEN
+    RAISE EXCEPTION 'Requires the Preparer role or higher';
+  END IF;
+
+  SELECT * INTO current_state
+  FROM public.exception_workflow_states
+  WHERE tenant_id = target_tenant AND fingerprint = finding_fingerprint
+  FOR UPDATE;
+  IF current_state.status IS NOT NULL AND current_state.status <> expected_status THEN
+    RAISE EXCEPTION 'Exception status changed to % since it was loaded', current_state.status;
+  END IF;
+
+  INSERT INTO public.exception_workflow_states AS state (
+    tenant_id, fingerprint, exception_ref, status, assignee, reason_code, updated_by, updated_by_name, updated_at
+  )
+  VALUES (
+    target_tenant,
+    finding_fingerprint,
+    exception_ref,
+    expected_status,
+    next_assignee,
+    current_state.reason_code,
+    auth.uid(),
+    actor_name,
+    now()
+  )
+  ON CONFLICT (tenant_id, fingerprint) DO UPDATE SET
+    exception_ref = EXCLUDED.exception_ref,
+    assignee = EXCLUDED.assignee,
+    updated_by = EXCLUDED.updated_by,
+    updated_by_name = EXCLUDED.updated_by_name,
+    updated_at = EXCLUDED.updated_at
+  RETURNING * INTO current_state;
+
+  INSERT INTO public.exception_status_history (
+    tenant_id, fingerprint, exception_ref, from_status, to_status, comment, assignee, reason_code, actor_id, actor_name
+  )
+  VALUES (
+    target_tenant,
+    finding_fingerprint,
+    exception_ref,
+    expected_status,
+    expected_status,
+    assign_comment,
+    next_assignee,
+    current_state.reason_code,
+    auth.uid(),
+    actor_name
+  );
+
+  RETURN current_state;
+END;
+$$;
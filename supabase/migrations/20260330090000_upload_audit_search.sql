@@ -0,0 +1,16 @@
+-- Server-side search over the upload audit trail. File names and hashes live in JSONB, so a
+-- generated lower-case text column lets the search run in the query instead of after the limit.
+ALTER TABLE public.upload_audits
+ADD COLUMN IF NOT EXISTS search_text TEXT GENERATED ALWAYS AS (
+  lower(
+    upload_session_id || ' ' ||
+    coalesce(uploaded_by, '') || ' ' ||
+    files::text || ' ' ||
+    datasets::text
+  )
+) STORED;
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_upload_audits_search_text
+ON public.upload_audits USING gin (search_text gin_trgm_ops);
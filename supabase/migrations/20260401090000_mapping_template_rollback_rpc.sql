@@ -0,0 +1,114 @@
+-- Template rollbacks run as one transaction: the restored version, the
+-- deactivation of the versions it supersedes, the rollback record and the
+-- sensitive-action log entry either all land or none do. The actor is stamped
+-- from the session rather than taken from the client.
+
+-- Direction a template version belongs to, read from the tag withDirectionTag()
+-- writes into its description. Untagged versions count as AR.
+CREATE OR REPLACE FUNCTION public.mapping_template_direction(template_description TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN substring(template_description FROM '\[\[direction:(AR|AP)\]\]') = 'AP' THEN 'AP'
+    ELSE 'AR'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.rollback_mapping_template(
+  target_tenant UUID,
+  target_template_id UUID,
+  rollback_reason TEXT
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  target public.mapping_templates;
+  current_version INTEGER;
+  next_version INTEGER;
+  restored_id UUID;
+  actor_name TEXT := coalesce(auth.jwt() ->> 'email', auth.uid()::text);
+BEGIN
+  IF NOT public.has_tenant_role(target_tenant, 'reviewer') THEN
+    RAISE EXCEPTION 'Requires the Reviewer role or higher';
+  END IF;
+  IF coalesce(trim(rollback_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to roll back a template';
+  END IF;
+
+  SELECT * INTO target
+  FROM public.mapping_templates
+  WHERE tenant_id = target_tenant AND id = target_template_id;
+  IF target.id IS NULL THEN
+    RAISE EXCEPTION 'Template version % not found', target_template_id;
+  END IF;
+
+  -- Lock every version of the template so two rollbacks cannot both leave an active version.
+  PERFORM 1
+  FROM public.mapping_templates
+  WHERE tenant_id = target_tenant
+    AND template_name = target.template_name
+    AND public.mapping_template_direction(description) = public.mapping_template_direction(target.description)
+  FOR UPDATE;
+
+  SELECT max(version) FILTER (WHERE is_active), max(version)
+  INTO current_version, next_version
+  FROM public.mapping_templates
+  WHERE tenant_id = target_tenant
+    AND template_name = target.template_name
+    AND public.mapping_template_direction(description) = public.mapping_template_direction(target.description);
+  IF target.is_active THEN
+    RAISE EXCEPTION 'Version % is already the active version', target.version;
+  END IF;
+  current_version := coalesce(current_version, next_version);
+  next_version := next_version + 1;
+
+  UPDATE public.mapping_templates
+  SET is_active = false
+  WHERE tenant_id = target_tenant
+    AND template_name = target.template_name
+    AND public.mapping_template_direction(description) = public.mapping_template_direction(target.description)
+    AND is_active;
+
+  INSERT INTO public.mapping_templates (
+    tenant_id, template_name, description, client_name, legal_entity, seller_trn, erp_type, document_type, version, is_active, mappings
+  )
+  VALUES (
+    target_tenant,
+    target.template_name,
+    target.description,
+    target.client_name,
+    target.legal_entity,
+    target.seller_trn,
+    target.erp_type,
+    target.document_type,
+    next_version,
+    true,
+    target.mappings
+  )
+  RETURNING id INTO restored_id;
+
+  INSERT INTO public.mapping_template_rollbacks (
+    tenant_id, template_name, from_version, to_version, restored_template_id, performed_by, reason
+  )
+  VALUES (target_tenant, target.template_name, current_version, target.version, restored_id, actor_name, trim(rollback_reason));
+
+  INSERT INTO public.sensitive_action_log (tenant_id, action, entity_type, entity_id, details)
+  VALUES (
+    target_tenant,
+    'template.activate',
+    'mapping_template',
+    restored_id::text,
+    jsonb_build_object('templateName', target.template_name, 'restoredVersion', target.version, 'reason', trim(rollback_reason))
+  );
+
+  RETURN restored_id;
+END;
+$$;
+
+-- Rollback records are written only by rollback_mapping_template().
+DROP POLICY IF EXISTS "Reviewers roll back mapping templates" ON public.mapping_template_rollbacks;
@@ -0,0 +1,90 @@
+-- Tighten writes that the blanket preparer policy left open. Preparers only
+-- insert the findings of their runs; linking findings to a case and switching
+-- a PINT-AE check on or off go through functions that check the role and keep
+-- the change and its audit record in one transaction.
+
+DROP POLICY IF EXISTS "Preparers write check_exceptions" ON public.check_exceptions;
+
+CREATE POLICY "Preparers insert check_exceptions"
+ON public.check_exceptions
+FOR INSERT
+WITH CHECK (public.has_tenant_role(tenant_id, 'preparer'));
+
+-- Links the findings of a run to a case and stamps the case on the run's stored
+-- findings. `findings` is an array of {fingerprint, exception_ref, check_id, invoice_id}.
+CREATE OR REPLACE FUNCTION public.link_findings_to_case(
+  target_tenant UUID,
+  target_case_id UUID,
+  target_run_id UUID,
+  findings JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  linked_count INTEGER;
+BEGIN
+  IF NOT public.has_tenant_role(target_tenant, 'preparer') THEN
+    RAISE EXCEPTION 'Requires the Preparer role or higher';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM public.cases WHERE id = target_case_id AND tenant_id = target_tenant) THEN
+    RAISE EXCEPTION 'Case % not found', target_case_id;
+  END IF;
+  IF target_run_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM public.check_runs WHERE id = target_run_id AND tenant_id = target_tenant) THEN
+    RAISE EXCEPTION 'Run % not found', target_run_id;
+  END IF;
+
+  INSERT INTO public.case_exception_links (tenant_id, case_id, run_id, fingerprint, exception_ref, check_id, invoice_id)
+  SELECT
+    target_tenant,
+    target_case_id,
+    target_run_id,
+    finding ->> 'fingerprint',
+    finding ->> 'exception_ref',
+    finding ->> 'check_id',
+    finding ->> 'invoice_id'
+  FROM jsonb_array_elements(findings) AS finding;
+  GET DIAGNOSTICS linked_count = ROW_COUNT;
+
+  -- Only PINT-AE findings are stored per run; the others are reachable through the links.
+  UPDATE public.check_exceptions
+  SET case_id = target_case_id
+  WHERE tenant_id = target_tenant
+    AND run_id = target_run_id
+    AND fingerprint IN (SELECT finding ->> 'fingerprint' FROM jsonb_array_elements(findings) AS finding);
+
+  RETURN linked_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_pint_ae_check_enabled(
+  target_tenant UUID,
+  target_check_id TEXT,
+  enabled BOOLEAN
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_tenant_role(target_tenant, 'controls_owner') THEN
+    RAISE EXCEPTION 'Requires the Controls Owner role or higher';
+  END IF;
+
+  UPDATE public.pint_ae_checks
+  SET is_enabled = enabled
+  WHERE tenant_id = target_tenant AND check_id = target_check_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Check % not found', target_check_id;
+  END IF;
+
+  IF NOT enabled THEN
+    INSERT INTO public.sensitive_action_log (tenant_id, action, entity_type, entity_id)
+    VALUES (target_tenant, 'check.disable', 'pint_ae_check', target_check_id);
+  END IF;
+END;
+$$;
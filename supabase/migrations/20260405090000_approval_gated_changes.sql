@@ -0,0 +1,167 @@
+-- Maker-checker enforced in the database. Enabling or disabling a custom check,
+-- changing its severity and activating a mapping template only happen through
+-- apply_approval_request(), which requires an approved request decided by the
+-- caller. Direct client writes to those columns are rejected.
+--
+-- The guards look at current_user: statements inside SECURITY DEFINER functions
+-- run as the function owner, client requests run as anon or authenticated.
+
+CREATE OR REPLACE FUNCTION public.is_client_write()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT current_user IN ('anon', 'authenticated');
+$$;
+
+-- New validation checks start inactive. Search checks only raise investigation
+-- flags, never findings, so the built-in starter pack may seed them active.
+ALTER TABLE public.custom_checks ALTER COLUMN is_active SET DEFAULT false;
+
+CREATE OR REPLACE FUNCTION public.guard_custom_check_approval_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT public.is_client_write() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.check_type IS DISTINCT FROM 'SEARCH_CHECK' THEN
+      NEW.is_active := false;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.is_active IS DISTINCT FROM OLD.is_active OR NEW.severity IS DISTINCT FROM OLD.severity THEN
+    RAISE EXCEPTION 'Enabling, disabling or re-rating a check requires an approved request';
+  END IF;
+  IF NEW.is_active AND NEW.check_type IS DISTINCT FROM OLD.check_type THEN
+    RAISE EXCEPTION 'Disable a check before changing its type';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_custom_check_approval_columns
+BEFORE INSERT OR UPDATE ON public.custom_checks
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_custom_check_approval_columns();
+
+CREATE OR REPLACE FUNCTION public.guard_mapping_template_activation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT public.is_client_write() THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.is_active)
+    OR (TG_OP = 'UPDATE' AND NEW.is_active IS DISTINCT FROM OLD.is_active) THEN
+    RAISE EXCEPTION 'Activating a mapping template requires an approved request';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_mapping_template_activation
+BEFORE INSERT OR UPDATE ON public.mapping_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_mapping_template_activation();
+
+-- Applies an approved check or template change on behalf of its approver, and
+-- records check disables and template activations in the sensitive action log.
+-- Waivers are applied through transition_exception().
+CREATE OR REPLACE FUNCTION public.apply_approval_request(
+  target_tenant UUID,
+  target_request_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.approval_requests;
+  template public.mapping_templates;
+  approval_details JSONB;
+BEGIN
+  SELECT * INTO request
+  FROM public.approval_requests
+  WHERE tenant_id = target_tenant AND id = target_request_id;
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Approval request % not found', target_request_id;
+  END IF;
+  IF request.status <> 'approved' OR request.decided_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the approver of an approved request can apply it';
+  END IF;
+  IF NOT public.has_tenant_role(target_tenant, public.approval_minimum_role(request.kind)) THEN
+    RAISE EXCEPTION 'Requires the % role or higher', public.approval_minimum_role(request.kind);
+  END IF;
+
+  approval_details := jsonb_build_object(
+    'approvalId', request.id,
+    'requestedBy', request.requested_by_name,
+    'justification', request.justification
+  );
+
+  CASE request.kind
+    WHEN 'check.enable', 'check.disable' THEN
+      UPDATE public.custom_checks
+      SET is_active = request.kind = 'check.enable'
+      WHERE tenant_id = target_tenant AND id = request.entity_id::uuid;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Check % not found', request.entity_id;
+      END IF;
+      IF request.kind = 'check.disable' THEN
+        INSERT INTO public.sensitive_action_log (tenant_id, action, entity_type, entity_id, details)
+        VALUES (
+          target_tenant,
+          'check.disable',
+          request.entity_type,
+          request.entity_id,
+          approval_details || jsonb_build_object('name', request.entity_label)
+        );
+      END IF;
+
+    WHEN 'check.severity' THEN
+      UPDATE public.custom_checks
+      SET severity = request.payload ->> 'severity'
+      WHERE tenant_id = target_tenant AND id = request.entity_id::uuid;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Check % not found', request.entity_id;
+      END IF;
+
+    WHEN 'template.activate' THEN
+      SELECT * INTO template
+      FROM public.mapping_templates
+      WHERE tenant_id = target_tenant AND id = request.entity_id::uuid
+      FOR UPDATE;
+      IF template.id IS NULL THEN
+        RAISE EXCEPTION 'Template version % not found', request.entity_id;
+      END IF;
+
+      -- One active version per template and direction, as after a rollback.
+      UPDATE public.mapping_templates
+      SET is_active = (id = template.id)
+      WHERE tenant_id = target_tenant
+        AND template_name = template.template_name
+        AND public.mapping_template_direction(description) = public.mapping_template_direction(template.description)
+        AND (is_active OR id = template.id);
+
+      INSERT INTO public.sensitive_action_log (tenant_id, action, entity_type, entity_id, details)
+      VALUES (
+        target_tenant,
+        'template.activate',
+        request.entity_type,
+        request.entity_id,
+        approval_details || jsonb_build_object('templateName', request.entity_label)
+      );
+
+    ELSE
+      RAISE EXCEPTION 'Approval requests of kind % are not applied here', request.kind;
+  END CASE;
+END;
+$$;
@@ -0,0 +1,37 @@
+-- Opens a routed case and links its findings in one transaction, so routing
+-- never leaves a case without the findings that opened it.
+-- `new_case` carries the columns createCase writes; the tenant and the Open
+-- status are set here.
+CREATE OR REPLACE FUNCTION public.open_routed_case(
+  target_tenant UUID,
+  new_case JSONB,
+  target_run_id UUID,
+  findings JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  opened_case_id UUID;
+BEGIN
+  IF NOT public.has_tenant_role(target_tenant, 'preparer') THEN
+    RAISE EXCEPTION 'Requires the Preparer role or higher';
+  END IF;
+
+  INSERT INTO public.cases (
+    tenant_id, case_number, invoice_id, invoice_number, seller_trn, buyer_id, exception_id, check_name,
+    severity, owner_team, sla_hours, sla_target_at, status, routing_rule_id, routing_key
+  )
+  SELECT
+    target_tenant, c.case_number, c.invoice_id, c.invoice_number, c.seller_trn, c.buyer_id, c.exception_id, c.check_name,
+    c.severity, c.owner_team, c.sla_hours, c.sla_target_at, 'Open', c.routing_rule_id, c.routing_key
+  FROM jsonb_populate_record(NULL::public.cases, new_case) AS c
+  RETURNING id INTO opened_case_id;
+
+  PERFORM public.link_findings_to_case(target_tenant, opened_case_id, target_run_id, findings);
+
+  RETURN opened_case_id;
+END;
+$$;
@@ -0,0 +1,31 @@
+-- Writes the SLA targets and breach flags the client recomputed against the
+-- tenant's SLA calendar in one statement, so a refresh either lands for every
+-- case or for none, and returns how many cases it updated.
+CREATE OR REPLACE FUNCTION public.refresh_case_sla(
+  target_tenant UUID,
+  updates JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  IF NOT public.has_tenant_role(target_tenant, 'preparer') THEN
+    RAISE EXCEPTION 'Requires the Preparer role or higher';
+  END IF;
+
+  UPDATE public.cases AS c
+  SET sla_target_at = u.sla_target_at,
+      is_sla_breached = u.is_sla_breached
+  FROM jsonb_to_recordset(updates) AS u(id UUID, sla_target_at TIMESTAMPTZ, is_sla_breached BOOLEAN)
+  WHERE c.id = u.id
+    AND c.tenant_id = target_tenant
+    AND c.status <> 'Resolved';
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+
+  RETURN updated_count;
+END;
+$$;
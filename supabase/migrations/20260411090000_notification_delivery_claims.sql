@@ -0,0 +1,175 @@
+-- Outbox delivery and the in-app inbox, hardened.
+-- Dispatchers claim pending rows atomically (status 'sending') before they
+-- deliver, so two open sessions never send the same notification, and record
+-- outcomes only on rows they hold. Clients may queue notifications but no
+-- longer edit the outbox directly.
+-- In-app notifications are addressed to a role derived from the escalation
+-- level, and read state is kept per member instead of on the shared row.
+
+ALTER TABLE public.notification_outbox
+DROP CONSTRAINT IF EXISTS notification_outbox_status_check;
+
+ALTER TABLE public.notification_outbox
+ADD CONSTRAINT notification_outbox_status_check CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+ADD COLUMN IF NOT EXISTS claimed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS recipient_role TEXT GENERATED ALWAYS AS (
+  CASE escalation_level
+    WHEN 'team_lead' THEN 'reviewer'
+    WHEN 'engagement_manager' THEN 'controls_owner'
+    ELSE 'preparer'
+  END
+) STORED;
+
+DROP POLICY IF EXISTS "Preparers write notification_outbox" ON public.notification_outbox;
+CREATE POLICY "Preparers queue notification_outbox"
+ON public.notification_outbox
+FOR INSERT
+WITH CHECK (public.has_tenant_role(tenant_id, 'preparer') AND status = 'pending' AND attempts = 0);
+
+CREATE TABLE IF NOT EXISTS public.notification_reads (
+  notification_id UUID NOT NULL REFERENCES public.notification_outbox(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL DEFAULT auth.uid(),
+  read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (notification_id, user_id)
+);
+
+ALTER TABLE public.notification_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members read own notification_reads"
+ON public.notification_reads
+FOR SELECT
+USING (user_id = auth.uid());
+
+ALTER TABLE public.notification_outbox DROP COLUMN IF EXISTS read_at;
+
+-- Claims up to max_rows pending notifications, oldest first. A claim left by a
+-- session that stopped mid-delivery is taken over after fifteen minutes.
+CREATE OR REPLACE FUNCTION public.claim_pending_notifications(target_tenant UUID, max_rows INTEGER)
+RETURNS SETOF public.notification_outbox
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_tenant_role(target_tenant, 'preparer') THEN
+    RAISE EXCEPTION 'Requires the Preparer role or higher';
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.notification_outbox AS o
+  SET status = 'sending', claimed_at = now()
+  WHERE o.id IN (
+    SELECT p.id
+    FROM public.notification_outbox AS p
+    WHERE p.tenant_id = target_tenant
+      AND (p.status = 'pending' OR (p.status = 'sending' AND p.claimed_at < now() - INTERVAL '15 minutes'))
+    ORDER BY p.created_at
+    LIMIT max_rows
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING o.*;
+END;
+$$;
+
+-- `outcomes` holds one {id, status, attempts, last_error, sent_at} per claimed
+-- notification. Rows no longer held as 'sending' are left alone.
+CREATE OR REPLACE FUNCTION public.record_notification_deliveries(target_tenant UUID, outcomes JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  IF NOT public.has_tenant_role(target_tenant, 'preparer') THEN
+    RAISE EXCEPTION 'Requires the Preparer role or higher';
+  END IF;
+
+  UPDATE public.notification_outbox AS o
+  SET status = u.status,
+      attempts = u.attempts,
+      last_error = u.last_error,
+      sent_at = u.sent_at,
+      claimed_at = NULL
+  FROM jsonb_to_recordset(outcomes) AS u(id UUID, status TEXT, attempts INTEGER, last_error TEXT, sent_at TIMESTAMPTZ)
+  WHERE o.id = u.id
+    AND o.tenant_id = target_tenant
+    AND o.status = 'sending'
+    AND u.status IN ('pending', 'sent', 'failed');
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
+
+-- The caller's delivered in-app notifications, newest first, with their own
+-- read state. Only notifications addressed to a role the caller holds are
+-- listed.
+CREATE OR REPLACE FUNCTION public.fetch_notification_inbox(target_tenant UUID, max_rows INTEGER)
+RETURNS TABLE (
+  id UUID,
+  channel TEXT,
+  recipient TEXT,
+  subject TEXT,
+  body TEXT,
+  case_id UUID,
+  escalation_level TEXT,
+  dedupe_key TEXT,
+  status TEXT,
+  attempts INTEGER,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_tenant_member(target_tenant) THEN
+    RAISE EXCEPTION 'Not a member of this workspace';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    o.id, o.channel, o.recipient, o.subject, o.body, o.case_id, o.escalation_level, o.dedupe_key,
+    o.status, o.attempts, o.last_error, o.created_at, o.sent_at, r.read_at
+  FROM public.notification_outbox AS o
+  LEFT JOIN public.notification_reads AS r
+    ON r.notification_id = o.id AND r.user_id = auth.uid()
+  WHERE o.tenant_id = target_tenant
+    AND o.channel = 'in_app'
+    AND o.status = 'sent'
+    AND public.has_tenant_role(target_tenant, o.recipient_role)
+  ORDER BY o.created_at DESC
+  LIMIT max_rows;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_notifications_read(target_tenant UUID, notification_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  IF NOT public.is_tenant_member(target_tenant) THEN
+    RAISE EXCEPTION 'Not a member of this workspace';
+  END IF;
+
+  INSERT INTO public.notification_reads (notification_id, user_id)
+  SELECT o.id, auth.uid()
+  FROM public.notification_outbox AS o
+  WHERE o.tenant_id = target_tenant
+    AND o.channel = 'in_app'
+    AND o.id = ANY(notification_ids)
+    AND public.has_tenant_role(target_tenant, o.recipient_role)
+  ON CONFLICT (notification_id, user_id) DO NOTHING;
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$;
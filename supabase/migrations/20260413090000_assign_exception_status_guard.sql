@@ -0,0 +1,77 @@
+-- Assignment never sets a status. A finding without stored state is Open, so
+-- a first assignment stores it as Open; a caller claiming any status a first
+-- assignment could not start from is refused instead of having that status
+-- written for it.
+CREATE OR REPLACE FUNCTION public.assign_exception(
+  target_tenant UUID,
+  finding_fingerprint TEXT,
+  exception_ref TEXT,
+  expected_status TEXT,
+  next_assignee TEXT,
+  assign_comment TEXT
+)
+RETURNS public.exception_workflow_states
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_state public.exception_workflow_states;
+  actor_name TEXT := coalesce(auth.jwt() ->> 'email', auth.uid()::text);
+BEGIN
+  IF NOT public.has_tenant_role(target_tenant, 'preparer') THEN
+    RAISE EXCEPTION 'Requires the Preparer role or higher';
+  END IF;
+
+  SELECT * INTO current_state
+  FROM public.exception_workflow_states
+  WHERE tenant_id = target_tenant AND fingerprint = finding_fingerprint
+  FOR UPDATE;
+  IF current_state.status IS NULL AND expected_status NOT IN ('Open', 'In Review') THEN
+    RAISE EXCEPTION 'Exception status is Open, not %', expected_status;
+  END IF;
+  IF current_state.status IS NOT NULL AND current_state.status <> expected_status THEN
+    RAISE EXCEPTION 'Exception status changed to % since it was loaded', current_state.status;
+  END IF;
+
+  INSERT INTO public.exception_workflow_states AS state (
+    tenant_id, fingerprint, exception_ref, status, assignee, reason_code, updated_by, updated_by_name, updated_at
+  )
+  VALUES (
+    target_tenant,
+    finding_fingerprint,
+    exception_ref,
+    'Open',
+    next_assignee,
+    NULL,
+    auth.uid(),
+    actor_name,
+    now()
+  )
+  ON CONFLICT (tenant_id, fingerprint) DO UPDATE SET
+    exception_ref = EXCLUDED.exception_ref,
+    assignee = EXCLUDED.assignee,
+    updated_by = EXCLUDED.updated_by,
+    updated_by_name = EXCLUDED.updated_by_name,
+    updated_at = EXCLUDED.updated_at
+  RETURNING * INTO current_state;
+
+  INSERT INTO public.exception_status_history (
+    tenant_id, fingerprint, exception_ref, from_status, to_status, comment, assignee, reason_code, actor_id, actor_name
+  )
+  VALUES (
+    target_tenant,
+    finding_fingerprint,
+    exception_ref,
+    current_state.status,
+    current_state.status,
+    assign_comment,
+    next_assignee,
+    current_state.reason_code,
+    auth.uid(),
+    actor_name
+  );
+
+  RETURN current_state;
+END;
+$$;
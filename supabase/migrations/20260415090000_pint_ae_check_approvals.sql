@@ -0,0 +1,133 @@
+-- Maker-checker for PINT-AE checks, as for custom checks. Enabling, disabling
+-- or re-rating a PINT-AE check only happens through apply_approval_request()
+-- on an approved request for entity type 'pint_ae_check' whose entity id is
+-- the check id. Seeding the built-in pack still inserts its checks with their
+-- own enabled flags and severities.
+
+CREATE OR REPLACE FUNCTION public.guard_pint_ae_check_approval_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT public.is_client_write() THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.is_enabled IS DISTINCT FROM OLD.is_enabled OR NEW.severity IS DISTINCT FROM OLD.severity THEN
+    RAISE EXCEPTION 'Enabling, disabling or re-rating a check requires an approved request';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_pint_ae_check_approval_columns
+BEFORE UPDATE ON public.pint_ae_checks
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_pint_ae_check_approval_columns();
+
+-- Switched checks on and off without a second person.
+DROP FUNCTION IF EXISTS public.set_pint_ae_check_enabled(UUID, TEXT, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.apply_approval_request(
+  target_tenant UUID,
+  target_request_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.approval_requests;
+  template public.mapping_templates;
+  approval_details JSONB;
+BEGIN
+  SELECT * INTO request
+  FROM public.approval_requests
+  WHERE tenant_id = target_tenant AND id = target_request_id;
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Approval request % not found', target_request_id;
+  END IF;
+  IF request.status <> 'approved' OR request.decided_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the approver of an approved request can apply it';
+  END IF;
+  IF NOT public.has_tenant_role(target_tenant, public.approval_minimum_role(request.kind)) THEN
+    RAISE EXCEPTION 'Requires the % role or higher', public.approval_minimum_role(request.kind);
+  END IF;
+
+  approval_details := jsonb_build_object(
+    'approvalId', request.id,
+    'requestedBy', request.requested_by_name,
+    'justification', request.justification
+  );
+
+  CASE request.kind
+    WHEN 'check.enable', 'check.disable' THEN
+      IF request.entity_type = 'pint_ae_check' THEN
+        UPDATE public.pint_ae_checks
+        SET is_enabled = request.kind = 'check.enable'
+        WHERE tenant_id = target_tenant AND check_id = request.entity_id;
+      ELSE
+        UPDATE public.custom_checks
+        SET is_active = request.kind = 'check.enable'
+        WHERE tenant_id = target_tenant AND id = request.entity_id::uuid;
+      END IF;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Check % not found', request.entity_id;
+      END IF;
+      IF request.kind = 'check.disable' THEN
+        INSERT INTO public.sensitive_action_log (tenant_id, action, entity_type, entity_id, details)
+        VALUES (
+          target_tenant,
+          'check.disable',
+          request.entity_type,
+          request.entity_id,
+          approval_details || jsonb_build_object('name', request.entity_label)
+        );
+      END IF;
+
+    WHEN 'check.severity' THEN
+      IF request.entity_type = 'pint_ae_check' THEN
+        UPDATE public.pint_ae_checks
+        SET severity = request.payload ->> 'severity'
+        WHERE tenant_id = target_tenant AND check_id = request.entity_id;
+      ELSE
+        UPDATE public.custom_checks
+        SET severity = request.payload ->> 'severity'
+        WHERE tenant_id = target_tenant AND id = request.entity_id::uuid;
+      END IF;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Check % not found', request.entity_id;
+      END IF;
+
+    WHEN 'template.activate' THEN
+      SELECT * INTO template
+      FROM public.mapping_templates
+      WHERE tenant_id = target_tenant AND id = request.entity_id::uuid
+      FOR UPDATE;
+      IF template.id IS NULL THEN
+        RAISE EXCEPTION 'Template version % not found', request.entity_id;
+      END IF;
+
+      -- One active version per template and direction, as after a rollback.
+      UPDATE public.mapping_templates
+      SET is_active = (id = template.id)
+      WHERE tenant_id = target_tenant
+        AND template_name = template.template_name
+        AND public.mapping_template_direction(description) = public.mapping_template_direction(template.description)
+        AND (is_active OR id = template.id);
+
+      INSERT INTO public.sensitive_action_log (tenant_id, action, entity_type, entity_id, details)
+      VALUES (
+        target_tenant,
+        'template.activate',
+        request.entity_type,
+        request.entity_id,
+        approval_details || jsonb_build_object('templateName', request.entity_label)
+      );
+
+    ELSE
+      RAISE EXCEPTION 'Approval requests of kind % are not applied here', request.kind;
+  END CASE;
+END;
+$$;
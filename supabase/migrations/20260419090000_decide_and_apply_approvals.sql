@@ -0,0 +1,164 @@
+-- Deciding an approval request and applying the change it approves happen in
+-- one transaction through decide_approval_request(). A change that cannot be
+-- applied rolls the approval back, so a request is never left approved but
+-- unapplied. Clients no longer update approval_requests directly.
+
+DROP POLICY IF EXISTS "Authorized roles decide approvals" ON public.approval_requests;
+
+-- Applies an approved request on behalf of its approver: waivers move the
+-- exception to Waived through transition_exception(), which logs them; check
+-- and template changes are written here, and check disables and template
+-- activations are recorded in the sensitive action log.
+CREATE OR REPLACE FUNCTION public.apply_approval_request(
+  target_tenant UUID,
+  target_request_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.approval_requests;
+  template public.mapping_templates;
+  approval_details JSONB;
+BEGIN
+  SELECT * INTO request
+  FROM public.approval_requests
+  WHERE tenant_id = target_tenant AND id = target_request_id;
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Approval request % not found', target_request_id;
+  END IF;
+  IF request.status <> 'approved' OR request.decided_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the approver of an approved request can apply it';
+  END IF;
+  IF NOT public.has_tenant_role(target_tenant, public.approval_minimum_role(request.kind)) THEN
+    RAISE EXCEPTION 'Requires the % role or higher', public.approval_minimum_role(request.kind);
+  END IF;
+
+  approval_details := jsonb_build_object(
+    'approvalId', request.id,
+    'requestedBy', request.requested_by_name,
+    'justification', request.justification
+  );
+
+  CASE request.kind
+    WHEN 'exception.waive' THEN
+      PERFORM public.transition_exception(
+        target_tenant,
+        request.payload ->> 'fingerprint',
+        request.entity_id,
+        coalesce(request.payload ->> 'fromStatus', 'In Review'),
+        'Waived',
+        request.justification,
+        request.payload ->> 'assignee',
+        request.reason_code
+      );
+
+    WHEN 'check.enable', 'check.disable' THEN
+      IF request.entity_type = 'pint_ae_check' THEN
+        UPDATE public.pint_ae_checks
+        SET is_enabled = request.kind = 'check.enable'
+        WHERE tenant_id = target_tenant AND check_id = request.entity_id;
+      ELSE
+        UPDATE public.custom_checks
+        SET is_active = request.kind = 'check.enable'
+        WHERE tenant_id = target_tenant AND id = request.entity_id::uuid;
+      END IF;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Check % not found', request.entity_id;
+      END IF;
+      IF request.kind = 'check.disable' THEN
+        INSERT INTO public.sensitive_action_log (tenant_id, action, entity_type, entity_id, details)
+        VALUES (
+          target_tenant,
+          'check.disable',
+          request.entity_type,
+          request.entity_id,
+          approval_details || jsonb_build_object('name', request.entity_label)
+        );
+      END IF;
+
+    WHEN 'check.severity' THEN
+      IF request.entity_type = 'pint_ae_check' THEN
+        UPDATE public.pint_ae_checks
+        SET severity = request.payload ->> 'severity'
+        WHERE tenant_id = target_tenant AND check_id = request.entity_id;
+      ELSE
+        UPDATE public.custom_checks
+        SET severity = request.payload ->> 'severity'
+        WHERE tenant_id = target_tenant AND id = request.entity_id::uuid;
+      END IF;
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Check % not found', request.entity_id;
+      END IF;
+
+    WHEN 'template.activate' THEN
+      SELECT * INTO template
+      FROM public.mapping_templates
+      WHERE tenant_id = target_tenant AND id = request.entity_id::uuid
+      FOR UPDATE;
+      IF template.id IS NULL THEN
+        RAISE EXCEPTION 'Template version % not found', request.entity_id;
+      END IF;
+
+      -- One active version per template and direction, as after a rollback.
+      UPDATE public.mapping_templates
+      SET is_active = (id = template.id)
+      WHERE tenant_id = target_tenant
+        AND template_name = template.template_name
+        AND public.mapping_template_direction(description) = public.mapping_template_direction(template.description)
+        AND (is_active OR id = template.id);
+
+      INSERT INTO public.sensitive_action_log (tenant_id, action, entity_type, entity_id, details)
+      VALUES (
+        target_tenant,
+        'template.activate',
+        request.entity_type,
+        request.entity_id,
+        approval_details || jsonb_build_object('templateName', request.entity_label)
+      );
+
+  END CASE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decide_approval_request(
+  target_tenant UUID,
+  target_request_id UUID,
+  decision TEXT,
+  decision_note TEXT
+)
+RETURNS public.approval_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.approval_requests;
+BEGIN
+  SELECT * INTO request
+  FROM public.approval_requests
+  WHERE tenant_id = target_tenant AND id = target_request_id
+  FOR UPDATE;
+  IF request.id IS NULL THEN
+    RAISE EXCEPTION 'Approval request % not found', target_request_id;
+  END IF;
+  IF NOT public.has_tenant_role(target_tenant, public.approval_minimum_role(request.kind)) THEN
+    RAISE EXCEPTION 'Requires the % role or higher', public.approval_minimum_role(request.kind);
+  END IF;
+
+  -- stamp_approval_request() refuses decided requests and the requester, and
+  -- stamps the decider.
+  UPDATE public.approval_requests
+  SET status = decision, decision_comment = nullif(decision_note, '')
+  WHERE tenant_id = target_tenant AND id = target_request_id
+  RETURNING * INTO request;
+
+  IF decision = 'approved' THEN
+    PERFORM public.apply_approval_request(target_tenant, target_request_id);
+  END IF;
+
+  RETURN request;
+END;
+$$;
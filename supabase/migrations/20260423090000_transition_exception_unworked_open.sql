@@ -0,0 +1,126 @@
+-- transition_exception() no longer takes the caller's word for the status of
+-- a finding without stored state: such a finding is Open, so its first
+-- transition can only start review.
+CREATE OR REPLACE FUNCTION public.transition_exception(
+  target_tenant UUID,
+  finding_fingerprint TEXT,
+  exception_ref TEXT,
+  expected_status TEXT,
+  next_status TEXT,
+  transition_comment TEXT,
+  next_assignee TEXT,
+  next_reason_code TEXT
+)
+RETURNS public.exception_workflow_states
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_state public.exception_workflow_states;
+  waiver public.approval_requests;
+  previous_status TEXT;
+  actor_name TEXT := coalesce(auth.jwt() ->> 'email', auth.uid()::text);
+BEGIN
+  IF NOT public.has_tenant_role(target_tenant, 'preparer') THEN
+    RAISE EXCEPTION 'Requires the Preparer role or higher';
+  END IF;
+
+  SELECT * INTO current_state
+  FROM public.exception_workflow_states
+  WHERE tenant_id = target_tenant AND fingerprint = finding_fingerprint
+  FOR UPDATE;
+  -- A finding without stored state is Open.
+  previous_status := coalesce(current_state.status, 'Open');
+  IF current_state.status IS NULL AND expected_status <> previous_status THEN
+    RAISE EXCEPTION 'Exception status is Open, not %', expected_status;
+  END IF;
+  IF previous_status <> expected_status THEN
+    RAISE EXCEPTION 'Exception status changed to % since it was loaded', previous_status;
+  END IF;
+
+  IF NOT public.is_exception_transition_allowed(previous_status, next_status) THEN
+    RAISE EXCEPTION 'Cannot move an exception from % to %', previous_status, next_status;
+  END IF;
+  IF next_status IN ('Resolved', 'Waived') AND next_reason_code IS NULL THEN
+    RAISE EXCEPTION 'A reason code is required to close an exception';
+  END IF;
+  IF next_status = 'Resolved' AND NOT public.has_tenant_role(target_tenant, 'reviewer') THEN
+    RAISE EXCEPTION 'Requires the Reviewer role or higher';
+  END IF;
+  -- A waiver is applied by whoever approved it, never by the requester.
+  IF next_status = 'Waived' THEN
+    SELECT * INTO waiver
+    FROM public.approval_requests
+    WHERE tenant_id = target_tenant
+      AND kind = 'exception.waive'
+      AND status = 'approved'
+      AND payload ->> 'fingerprint' = finding_fingerprint
+      AND decided_by = auth.uid()
+      AND decided_at >= coalesce(current_state.updated_at, '-infinity'::timestamptz)
+    ORDER BY decided_at DESC
+    LIMIT 1;
+    IF waiver.id IS NULL THEN
+      RAISE EXCEPTION 'Waiving an exception requires an approved waiver request';
+    END IF;
+  END IF;
+
+  INSERT INTO public.exception_workflow_states AS state (
+    tenant_id, fingerprint, exception_ref, status, assignee, reason_code, updated_by, updated_by_name, updated_at
+  )
+  VALUES (
+    target_tenant,
+    finding_fingerprint,
+    exception_ref,
+    next_status,
+    next_assignee,
+    CASE WHEN next_status IN ('Resolved', 'Waived') THEN next_reason_code END,
+    auth.uid(),
+    actor_name,
+    now()
+  )
+  ON CONFLICT (tenant_id, fingerprint) DO UPDATE SET
+    exception_ref = EXCLUDED.exception_ref,
+    status = EXCLUDED.status,
+    assignee = EXCLUDED.assignee,
+    reason_code = EXCLUDED.reason_code,
+    updated_by = EXCLUDED.updated_by,
+    updated_by_name = EXCLUDED.updated_by_name,
+    updated_at = EXCLUDED.updated_at
+  RETURNING * INTO current_state;
+
+  INSERT INTO public.exception_status_history (
+    tenant_id, fingerprint, exception_ref, from_status, to_status, comment, assignee, reason_code, actor_id, actor_name
+  )
+  VALUES (
+    target_tenant,
+    finding_fingerprint,
+    exception_ref,
+    previous_status,
+    next_status,
+    transition_comment,
+    next_assignee,
+    current_state.reason_code,
+    auth.uid(),
+    actor_name
+  );
+
+  IF next_status = 'Waived' THEN
+    INSERT INTO public.sensitive_action_log (tenant_id, action, entity_type, entity_id, details)
+    VALUES (
+      target_tenant,
+      'exception.waive',
+      waiver.entity_type,
+      waiver.entity_id,
+      jsonb_build_object(
+        'approvalId', waiver.id,
+        'requestedBy', waiver.requested_by_name,
+        'justification', waiver.justification,
+        'reasonCode', waiver.reason_code
+      )
+    );
+  END IF;
+
+  RETURN current_state;
+END;
+$$;
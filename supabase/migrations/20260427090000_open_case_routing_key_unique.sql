@@ -0,0 +1,64 @@
+-- At most one open case per routing key, so two routings of the same findings
+-- running at once cannot both open a case for them. Where duplicates already
+-- exist, the oldest open case keeps the key and the others keep their findings
+-- but no longer receive new ones.
+
+UPDATE public.cases AS c
+SET routing_key = NULL
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY tenant_id, routing_key ORDER BY created_at, id) AS position
+  FROM public.cases
+  WHERE status <> 'Resolved' AND routing_key IS NOT NULL
+) AS ranked
+WHERE c.id = ranked.id AND ranked.position > 1;
+
+DROP INDEX IF EXISTS public.idx_cases_open_routing_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_cases_open_routing_key
+ON public.cases (tenant_id, routing_key)
+WHERE status <> 'Resolved';
+
+-- A routing that lost the race for a key links its findings to the case the
+-- other one opened.
+CREATE OR REPLACE FUNCTION public.open_routed_case(
+  target_tenant UUID,
+  new_case JSONB,
+  target_run_id UUID,
+  findings JSONB
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  opened_case_id UUID;
+BEGIN
+  IF NOT public.has_tenant_role(target_tenant, 'preparer') THEN
+    RAISE EXCEPTION 'Requires the Preparer role or higher';
+  END IF;
+
+  INSERT INTO public.cases (
+    tenant_id, case_number, invoice_id, invoice_number, seller_trn, buyer_id, exception_id, check_name,
+    severity, owner_team, sla_hours, sla_target_at, status, routing_rule_id, routing_key
+  )
+  SELECT
+    target_tenant, c.case_number, c.invoice_id, c.invoice_number, c.seller_trn, c.buyer_id, c.exception_id, c.check_name,
+    c.severity, c.owner_team, c.sla_hours, c.sla_target_at, 'Open', c.routing_rule_id, c.routing_key
+  FROM jsonb_populate_record(NULL::public.cases, new_case) AS c
+  ON CONFLICT (tenant_id, routing_key) WHERE status <> 'Resolved' DO NOTHING
+  RETURNING id INTO opened_case_id;
+
+  IF opened_case_id IS NULL THEN
+    SELECT id INTO opened_case_id
+    FROM public.cases
+    WHERE tenant_id = target_tenant
+      AND routing_key = new_case ->> 'routing_key'
+      AND status <> 'Resolved';
+  END IF;
+
+  PERFORM public.link_findings_to_case(target_tenant, opened_case_id, target_run_id, findings);
+
+  RETURN opened_case_id;
+END;
+$$;
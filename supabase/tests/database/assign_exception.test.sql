@@ -0,0 +1,44 @@
+-- Run with `supabase test db`.
+BEGIN;
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email) VALUES ('a0000000-0000-4000-8000-000000000001', 'preparer@example.ae');
+INSERT INTO public.tenants (id, name, slug) VALUES ('b0000000-0000-4000-8000-000000000001', 'Test workspace', 'test-workspace');
+INSERT INTO public.tenant_memberships (tenant_id, user_id, role)
+VALUES ('b0000000-0000-4000-8000-000000000001', 'a0000000-0000-4000-8000-000000000001', 'preparer');
+
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "a0000000-0000-4000-8000-000000000001", "email": "preparer@example.ae"}', true);
+
+SELECT throws_ok(
+  $$SELECT public.assign_exception('b0000000-0000-4000-8000-000000000001', 'fp-1', 'EXC-1', 'Waived', 'Farah', NULL)$$,
+  'Exception status is Open, not Waived',
+  'a first assignment cannot waive a finding'
+);
+
+SELECT throws_ok(
+  $$SELECT public.assign_exception('b0000000-0000-4000-8000-000000000001', 'fp-1', 'EXC-1', 'Resolved', 'Farah', NULL)$$,
+  'Exception status is Open, not Resolved',
+  'a first assignment cannot resolve a finding'
+);
+
+SELECT throws_ok(
+  $$SELECT public.assign_exception('b0000000-0000-4000-8000-000000000001', 'fp-1', 'EXC-1', 'In Review', 'Farah', NULL)$$,
+  'Exception status is Open, not In Review',
+  'a first assignment cannot claim the finding is in review'
+);
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.exception_workflow_states WHERE fingerprint = 'fp-1'),
+  0,
+  'refused assignments store no state'
+);
+
+SELECT is(
+  (public.assign_exception('b0000000-0000-4000-8000-000000000001', 'fp-1', 'EXC-1', 'Open', 'Farah', NULL)).status,
+  'Open',
+  'a first assignment stores the finding as Open'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,42 @@
+-- Run with `supabase test db`.
+BEGIN;
+SELECT plan(3);
+
+INSERT INTO auth.users (id, email) VALUES ('a0000000-0000-4000-8000-000000000001', 'preparer@example.ae');
+INSERT INTO public.tenants (id, name, slug) VALUES ('b0000000-0000-4000-8000-000000000001', 'Test workspace', 'test-workspace');
+INSERT INTO public.tenant_memberships (tenant_id, user_id, role)
+VALUES ('b0000000-0000-4000-8000-000000000001', 'a0000000-0000-4000-8000-000000000001', 'preparer');
+
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "a0000000-0000-4000-8000-000000000001", "email": "preparer@example.ae"}', true);
+
+SELECT lives_ok(
+  $$SELECT public.open_routed_case(
+    'b0000000-0000-4000-8000-000000000001',
+    '{"case_number": "CASE-0001", "invoice_id": "INV-1", "severity": "High", "owner_team": "Client Finance", "routing_key": "rule-1:UAE-UC1-CHK-001"}',
+    NULL,
+    '[{"fingerprint": "fp-1", "check_id": "UAE-UC1-CHK-001", "invoice_id": "INV-1"}]'
+  )$$,
+  'the first routing opens a case for its key'
+);
+
+SELECT is(
+  public.open_routed_case(
+    'b0000000-0000-4000-8000-000000000001',
+    '{"case_number": "CASE-0002", "invoice_id": "INV-2", "severity": "High", "owner_team": "Client Finance", "routing_key": "rule-1:UAE-UC1-CHK-001"}',
+    NULL,
+    '[{"fingerprint": "fp-2", "check_id": "UAE-UC1-CHK-001", "invoice_id": "INV-2"}]'
+  ),
+  (SELECT id FROM public.cases WHERE case_number = 'CASE-0001'),
+  'a second routing for the same key joins the open case'
+);
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.case_exception_links
+   WHERE case_id = (SELECT id FROM public.cases WHERE case_number = 'CASE-0001')),
+  2,
+  'the findings of both routings are linked to the one open case'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,87 @@
+-- Run with `supabase test db`.
+BEGIN;
+SELECT plan(7);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('a0000000-0000-4000-8000-000000000001', 'maker@example.ae'),
+  ('a0000000-0000-4000-8000-000000000002', 'checker@example.ae');
+INSERT INTO public.tenants (id, name, slug) VALUES ('b0000000-0000-4000-8000-000000000001', 'Test workspace', 'test-workspace');
+INSERT INTO public.tenant_memberships (tenant_id, user_id, role) VALUES
+  ('b0000000-0000-4000-8000-000000000001', 'a0000000-0000-4000-8000-000000000001', 'controls_owner'),
+  ('b0000000-0000-4000-8000-000000000001', 'a0000000-0000-4000-8000-000000000002', 'controls_owner');
+
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "a0000000-0000-4000-8000-000000000001", "email": "maker@example.ae"}', true);
+
+INSERT INTO public.pint_ae_checks (tenant_id, check_id, check_name, scope, rule_type, severity, is_enabled)
+VALUES ('b0000000-0000-4000-8000-000000000001', 'UAE-UC1-CHK-001', 'Invoice Number Present', 'Header', 'Presence', 'Critical', true);
+
+SELECT throws_ok(
+  $$UPDATE public.pint_ae_checks SET is_enabled = false WHERE check_id = 'UAE-UC1-CHK-001'$$,
+  'Enabling, disabling or re-rating a check requires an approved request',
+  'a controls owner cannot disable a PINT-AE check directly'
+);
+
+SELECT throws_ok(
+  $$UPDATE public.pint_ae_checks SET severity = 'Low' WHERE check_id = 'UAE-UC1-CHK-001'$$,
+  'Enabling, disabling or re-rating a check requires an approved request',
+  'a controls owner cannot re-rate a PINT-AE check directly'
+);
+
+INSERT INTO public.approval_requests (id, tenant_id, kind, entity_type, entity_id, entity_label, justification)
+VALUES (
+  'c0000000-0000-4000-8000-000000000001',
+  'b0000000-0000-4000-8000-000000000001',
+  'check.disable',
+  'pint_ae_check',
+  'UAE-UC1-CHK-001',
+  'Invoice Number Present',
+  'Duplicated by the Schematron rule'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "a0000000-0000-4000-8000-000000000002", "email": "checker@example.ae"}', true);
+
+SELECT lives_ok(
+  $$SELECT public.decide_approval_request('b0000000-0000-4000-8000-000000000001', 'c0000000-0000-4000-8000-000000000001', 'approved', '')$$,
+  'the checker approves the disable'
+);
+
+SELECT is(
+  (SELECT is_enabled FROM public.pint_ae_checks WHERE check_id = 'UAE-UC1-CHK-001'),
+  false,
+  'the approved disable switches the check off'
+);
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.sensitive_action_log WHERE action = 'check.disable' AND entity_id = 'UAE-UC1-CHK-001'),
+  1,
+  'the disable is recorded in the sensitive action log'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "a0000000-0000-4000-8000-000000000001", "email": "maker@example.ae"}', true);
+INSERT INTO public.approval_requests (id, tenant_id, kind, entity_type, entity_id, entity_label, justification)
+VALUES (
+  'c0000000-0000-4000-8000-000000000002',
+  'b0000000-0000-4000-8000-000000000001',
+  'check.enable',
+  'pint_ae_check',
+  'UAE-UC1-CHK-999',
+  'Retired check',
+  'Re-enable'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "a0000000-0000-4000-8000-000000000002", "email": "checker@example.ae"}', true);
+SELECT throws_ok(
+  $$SELECT public.decide_approval_request('b0000000-0000-4000-8000-000000000001', 'c0000000-0000-4000-8000-000000000002', 'approved', '')$$,
+  'Check UAE-UC1-CHK-999 not found',
+  'an approval whose change cannot be applied is refused'
+);
+
+SELECT is(
+  (SELECT status FROM public.approval_requests WHERE id = 'c0000000-0000-4000-8000-000000000002'),
+  'pending',
+  'the refused approval leaves the request pending'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,35 @@
+-- Run with `supabase test db`.
+BEGIN;
+SELECT plan(3);
+
+INSERT INTO auth.users (id, email) VALUES ('a0000000-0000-4000-8000-000000000001', 'reviewer@example.ae');
+INSERT INTO public.tenants (id, name, slug) VALUES ('b0000000-0000-4000-8000-000000000001', 'Test workspace', 'test-workspace');
+INSERT INTO public.tenant_memberships (tenant_id, user_id, role)
+VALUES ('b0000000-0000-4000-8000-000000000001', 'a0000000-0000-4000-8000-000000000001', 'reviewer');
+INSERT INTO public.mapping_templates (id, tenant_id, template_name, version, is_active) VALUES
+  ('d0000000-0000-4000-8000-000000000001', 'b0000000-0000-4000-8000-000000000001', 'SAP AR', 1, false),
+  ('d0000000-0000-4000-8000-000000000002', 'b0000000-0000-4000-8000-000000000001', 'SAP AR', 2, true),
+  ('d0000000-0000-4000-8000-000000000003', 'b0000000-0000-4000-8000-000000000001', 'SAP AR', 3, false);
+
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "a0000000-0000-4000-8000-000000000001", "email": "reviewer@example.ae"}', true);
+
+SELECT throws_ok(
+  $$SELECT public.rollback_mapping_template('b0000000-0000-4000-8000-000000000001', 'd0000000-0000-4000-8000-000000000003', 'Use the draft')$$,
+  'Version 3 is not older than the active version 2',
+  'a rollback cannot activate a newer unapproved version'
+);
+
+SELECT lives_ok(
+  $$SELECT public.rollback_mapping_template('b0000000-0000-4000-8000-000000000001', 'd0000000-0000-4000-8000-000000000001', 'v2 broke the TRN mapping')$$,
+  'a rollback to an older version succeeds'
+);
+
+SELECT is(
+  (SELECT version FROM public.mapping_templates WHERE template_name = 'SAP AR' AND is_active),
+  4,
+  'the older mappings are restored as the new active version'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
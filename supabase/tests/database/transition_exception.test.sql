@@ -0,0 +1,36 @@
+-- Run with `supabase test db`.
+BEGIN;
+SELECT plan(3);
+
+INSERT INTO auth.users (id, email) VALUES ('a0000000-0000-4000-8000-000000000001', 'reviewer@example.ae');
+INSERT INTO public.tenants (id, name, slug) VALUES ('b0000000-0000-4000-8000-000000000001', 'Test workspace', 'test-workspace');
+INSERT INTO public.tenant_memberships (tenant_id, user_id, role)
+VALUES ('b0000000-0000-4000-8000-000000000001', 'a0000000-0000-4000-8000-000000000001', 'reviewer');
+
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "a0000000-0000-4000-8000-000000000001", "email": "reviewer@example.ae"}', true);
+
+SELECT throws_ok(
+  $$SELECT public.transition_exception(
+    'b0000000-0000-4000-8000-000000000001', 'fp-1', 'EXC-1', 'In Review', 'Resolved', NULL, NULL, 'REISSUE_INVOICE'
+  )$$,
+  'Exception status is Open, not In Review',
+  'a finding without stored state cannot be resolved by claiming it is in review'
+);
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.exception_workflow_states WHERE fingerprint = 'fp-1'),
+  0,
+  'the refused transition stores no state'
+);
+
+SELECT is(
+  (public.transition_exception(
+    'b0000000-0000-4000-8000-000000000001', 'fp-1', 'EXC-1', 'Open', 'In Review', NULL, 'Farah', NULL
+  )).status,
+  'In Review',
+  'a finding without stored state starts review from Open'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
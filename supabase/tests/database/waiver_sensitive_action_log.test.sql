@@ -0,0 +1,52 @@
+-- Run with `supabase test db`.
+BEGIN;
+SELECT plan(3);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('a0000000-0000-4000-8000-000000000001', 'preparer@example.ae'),
+  ('a0000000-0000-4000-8000-000000000002', 'reviewer@example.ae');
+INSERT INTO public.tenants (id, name, slug) VALUES ('b0000000-0000-4000-8000-000000000001', 'Test workspace', 'test-workspace');
+INSERT INTO public.tenant_memberships (tenant_id, user_id, role) VALUES
+  ('b0000000-0000-4000-8000-000000000001', 'a0000000-0000-4000-8000-000000000001', 'preparer'),
+  ('b0000000-0000-4000-8000-000000000001', 'a0000000-0000-4000-8000-000000000002', 'reviewer');
+
+SET LOCAL role authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "a0000000-0000-4000-8000-000000000001", "email": "preparer@example.ae"}', true);
+
+SELECT public.transition_exception('b0000000-0000-4000-8000-000000000001', 'fp-1', 'EXC-1', 'Open', 'In Review', NULL, 'Farah', NULL);
+INSERT INTO public.approval_requests (id, tenant_id, kind, entity_type, entity_id, entity_label, payload, reason_code, justification)
+VALUES (
+  'c0000000-0000-4000-8000-000000000001',
+  'b0000000-0000-4000-8000-000000000001',
+  'exception.waive',
+  'exception',
+  'EXC-1',
+  'EXC-1',
+  '{"fingerprint": "fp-1", "fromStatus": "In Review"}',
+  'ACCEPT_WITH_VARIANCE',
+  'Buyer confirmed the invoice out of band'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "a0000000-0000-4000-8000-000000000002", "email": "reviewer@example.ae"}', true);
+SELECT public.decide_approval_request('b0000000-0000-4000-8000-000000000001', 'c0000000-0000-4000-8000-000000000001', 'approved', '');
+
+SELECT is(
+  (SELECT status FROM public.exception_workflow_states WHERE fingerprint = 'fp-1'),
+  'Waived',
+  'approving the waiver waives the exception'
+);
+
+SELECT is(
+  (SELECT count(*)::INTEGER FROM public.sensitive_action_log WHERE action = 'exception.waive' AND entity_id = 'EXC-1'),
+  1,
+  'the waiver is recorded in the sensitive action log'
+);
+
+SELECT is(
+  (SELECT details ->> 'approvalId' FROM public.sensitive_action_log WHERE action = 'exception.waive' AND entity_id = 'EXC-1'),
+  'c0000000-0000-4000-8000-000000000001',
+  'the log entry names the approved waiver request'
+);
+
+SELECT * FROM finish();
+ROLLBACK;